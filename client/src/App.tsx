@@ -12,8 +12,16 @@ import PersonalPerformance from './pages/PersonalPerformance';
 import Activity from './pages/Activity';
 import Comparison from './pages/Comparison';
 import BeforeAfter from './pages/BeforeAfter';
+import AiAdoption from './pages/AiAdoption';
+import Delivery from './pages/Delivery';
+import Dora from './pages/Dora';
 import ContentAnalysis from './pages/ContentAnalysis';
 import CommitSearch from './pages/CommitSearch';
+import Reports from './pages/Reports';
+import Alerts from './pages/Alerts';
+import Import from './pages/Import';
+import Repositories from './pages/Repositories';
+import Categories from './pages/Categories';
 
 
 function App(): React.ReactElement {
@@ -41,8 +49,16 @@ function App(): React.ReactElement {
             <Route path="activity" element={<Activity />} />
             <Route path="comparison" element={<Comparison />} />
             <Route path="before-after" element={<BeforeAfter />} />
+            <Route path="ai-adoption" element={<AiAdoption />} />
+            <Route path="delivery" element={<Delivery />} />
+            <Route path="dora" element={<Dora />} />
             <Route path="content-analysis" element={<ContentAnalysis />} />
             <Route path="commits" element={<CommitSearch />} />
+            <Route path="reports" element={<Reports />} />
+            <Route path="alerts" element={<Alerts />} />
+            <Route path="repositories" element={<Repositories />} />
+            <Route path="categories" element={<Categories />} />
+            <Route path="import" element={<Import />} />
           </Route>
 
         </Routes>
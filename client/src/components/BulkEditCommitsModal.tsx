@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { X, Save, Loader2 } from 'lucide-react';
+
+export type BulkEditScope = 'selected' | 'filters';
+
+export interface BulkEditChanges {
+  category?: string;
+  weight?: number;
+  ai_tools?: string;
+}
+
+interface BulkEditCommitsModalProps {
+  selectedCount: number;
+  canApplyToFilters: boolean;
+  onClose: () => void;
+  onApply: (scope: BulkEditScope, changes: BulkEditChanges) => Promise<void>;
+}
+
+const inputClassName = 'w-full rounded-lg border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-blue-500 focus:border-blue-500 px-4 py-2.5 disabled:opacity-50';
+
+const BulkEditCommitsModal: React.FC<BulkEditCommitsModalProps> = ({
+  selectedCount,
+  canApplyToFilters,
+  onClose,
+  onApply
+}) => {
+  const [scope, setScope] = useState<BulkEditScope>(selectedCount > 0 ? 'selected' : 'filters');
+  const [updateCategory, setUpdateCategory] = useState(false);
+  const [updateWeight, setUpdateWeight] = useState(false);
+  const [updateAiTools, setUpdateAiTools] = useState(false);
+  const [category, setCategory] = useState('');
+  const [weight, setWeight] = useState(100);
+  const [aiTools, setAiTools] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const hasChanges = updateCategory || updateWeight || updateAiTools;
+
+  const handleApply = async () => {
+    const changes: BulkEditChanges = {};
+    if (updateCategory) changes.category = category;
+    if (updateWeight) changes.weight = weight;
+    if (updateAiTools) changes.ai_tools = aiTools;
+
+    setSaving(true);
+    try {
+      await onApply(scope, changes);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Bulk Edit Commits</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Apply to</legend>
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="radio"
+                  name="bulk-scope"
+                  checked={scope === 'selected'}
+                  disabled={selectedCount === 0}
+                  onChange={() => setScope('selected')}
+                />
+                Selected commits ({selectedCount})
+              </label>
+              {canApplyToFilters && (
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="radio"
+                    name="bulk-scope"
+                    checked={scope === 'filters'}
+                    onChange={() => setScope('filters')}
+                  />
+                  All commits matching the current search filters
+                </label>
+              )}
+            </div>
+          </fieldset>
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              <input
+                type="checkbox"
+                checked={updateCategory}
+                onChange={(e) => setUpdateCategory(e.target.checked)}
+              />
+              Category
+            </label>
+            <input
+              type="text"
+              aria-label="Bulk category"
+              className={inputClassName}
+              disabled={!updateCategory}
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              <input
+                type="checkbox"
+                checked={updateWeight}
+                onChange={(e) => setUpdateWeight(e.target.checked)}
+              />
+              Weight (0-100)
+            </label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              aria-label="Bulk weight"
+              className={inputClassName}
+              disabled={!updateWeight}
+              value={weight}
+              onChange={(e) => setWeight(parseInt(e.target.value) || 0)}
+            />
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              <input
+                type="checkbox"
+                checked={updateAiTools}
+                onChange={(e) => setUpdateAiTools(e.target.checked)}
+              />
+              AI Tools
+            </label>
+            <input
+              type="text"
+              aria-label="Bulk AI tools"
+              className={inputClassName}
+              placeholder="e.g. CLAUDE CODE, COPILOT"
+              disabled={!updateAiTools}
+              value={aiTools}
+              onChange={(e) => setAiTools(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 dark:bg-gray-700/50 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={saving || !hasChanges}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Apply Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkEditCommitsModal;
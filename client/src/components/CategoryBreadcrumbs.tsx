@@ -0,0 +1,33 @@
+import { ChevronRight } from 'lucide-react';
+
+interface CategoryBreadcrumbsProps {
+  /** Categories drilled into, from the top level down */
+  path: string[];
+  /** Go back to a level (0 for the top level) */
+  onNavigate: (depth: number) => void;
+}
+
+/**
+ * Position in the category hierarchy, with links back to the parent levels
+ */
+const CategoryBreadcrumbs: React.FC<CategoryBreadcrumbsProps> = ({ path, onNavigate }) => (
+  <nav aria-label="Category levels" className="flex flex-wrap items-center gap-1 text-sm">
+    {['All categories', ...path].map((name, depth) => (
+      <span key={depth} className="flex items-center gap-1">
+        {depth > 0 && <ChevronRight className="w-4 h-4 text-gray-400" />}
+        {depth === path.length ? (
+          <span className="font-medium text-gray-900 dark:text-white">{name}</span>
+        ) : (
+          <button
+            onClick={() => onNavigate(depth)}
+            className="text-primary-600 dark:text-primary-400 hover:underline"
+          >
+            {name}
+          </button>
+        )}
+      </span>
+    ))}
+  </nav>
+);
+
+export default CategoryBreadcrumbs;
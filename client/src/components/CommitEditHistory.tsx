@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback } from 'react';
+import { History, RotateCcw, Loader2 } from 'lucide-react';
+import { fetchCommitHistory, revertCommitEdit, getErrorMessage, Commit } from '../utils/api';
+import { formatDate } from '../utils/dateFormat';
+
+type FieldValues = Record<string, string | number | null>;
+
+export interface CommitEdit {
+  id: number;
+  action: 'edit' | 'revert';
+  old_values: FieldValues;
+  new_values: FieldValues;
+  reverted_edit_id: number | null;
+  created_at: string;
+  user_name: string | null;
+  user_email: string | null;
+}
+
+interface CommitEditHistoryProps {
+  hash: string;
+  canRevert: boolean;
+  onReverted: (commit: Commit) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  subject: 'Subject',
+  category: 'Category',
+  weight: 'Weight',
+  ai_tools: 'AI Tools',
+};
+
+const displayValue = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value);
+};
+
+const CommitEditHistory: React.FC<CommitEditHistoryProps> = ({ hash, canRevert, onReverted }) => {
+  const [edits, setEdits] = useState<CommitEdit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetchCommitHistory(hash);
+      setEdits(response.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading commit history:', err);
+      setError('Failed to load edit history');
+    } finally {
+      setLoading(false);
+    }
+  }, [hash]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleRevert = async (edit: CommitEdit) => {
+    setRevertingId(edit.id);
+    try {
+      const response = await revertCommitEdit(hash, edit.id);
+      onReverted(response.data);
+      await loadHistory();
+    } catch (err) {
+      console.error('Error reverting commit edit:', err);
+      alert(getErrorMessage(err, 'Failed to revert edit'));
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+      <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white mb-3">
+        <History className="w-4 h-4" />
+        Edit History
+      </h4>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : edits.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No edits recorded for this commit.</p>
+      ) : (
+        <ul className="space-y-3 max-h-60 overflow-y-auto pr-1">
+          {edits.map((edit) => (
+            <li
+              key={edit.id}
+              className="rounded-lg bg-gray-50 dark:bg-gray-700/50 px-3 py-2 text-sm"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-gray-700 dark:text-gray-300">
+                  <span className="font-medium">{edit.user_name || edit.user_email || 'Unknown user'}</span>
+                  {' '}
+                  {edit.action === 'revert' ? 'reverted an edit' : 'edited'}
+                  {' · '}
+                  <span className="text-gray-500 dark:text-gray-400">{formatDate(edit.created_at)}</span>
+                </p>
+                {canRevert && edit.action === 'edit' && (
+                  <button
+                    onClick={() => handleRevert(edit)}
+                    disabled={revertingId !== null}
+                    className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors disabled:opacity-50"
+                    title="Restore the values from before this edit"
+                  >
+                    {revertingId === edit.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                    Revert
+                  </button>
+                )}
+              </div>
+              <ul className="mt-1 space-y-0.5">
+                {Object.keys(edit.new_values).map((field) => (
+                  <li key={field} className="text-xs text-gray-600 dark:text-gray-400">
+                    <span className="font-medium">{FIELD_LABELS[field] || field}:</span>{' '}
+                    <span className="line-through">{displayValue(edit.old_values[field])}</span>
+                    {' → '}
+                    <span>{displayValue(edit.new_values[field])}</span>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CommitEditHistory;
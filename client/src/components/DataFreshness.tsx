@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AlertTriangle, Clock, Loader2, RefreshCw } from 'lucide-react';
+import { fetchDataFreshness, refreshMaterializedViews, getErrorMessage } from '../utils/api';
+import { formatDateTime } from '../utils/dateFormat';
+
+export interface DataFreshnessInfo {
+  data_as_of: string | null;
+  latest_commit_date: string | null;
+  stale: boolean;
+}
+
+interface DataFreshnessProps {
+  /** Admins can refresh the views from the warning */
+  canRefresh: boolean;
+}
+
+/**
+ * "Data as of" note for the aggregated statistics (materialized views),
+ * with a warning when they lag behind the latest commit
+ */
+const DataFreshness: React.FC<DataFreshnessProps> = ({ canRefresh }) => {
+  const [freshness, setFreshness] = useState<DataFreshnessInfo | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFreshness = useCallback(async () => {
+    try {
+      const response = await fetchDataFreshness();
+      setFreshness(response.data);
+    } catch (err) {
+      console.error('Error loading data freshness:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFreshness();
+  }, [loadFreshness]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await refreshMaterializedViews();
+      setError(null);
+    } catch (err) {
+      console.error('Error refreshing materialized views:', err);
+      setError(getErrorMessage(err, 'Failed to refresh the statistics'));
+    } finally {
+      setRefreshing(false);
+      await loadFreshness();
+    }
+  };
+
+  if (!freshness) return null;
+
+  const dataAsOf = freshness.data_as_of
+    ? `data as of ${formatDateTime(freshness.data_as_of)}`
+    : 'not refreshed yet';
+
+  if (!freshness.stale) {
+    return (
+      <p className="flex items-center justify-end gap-1 mb-4 text-xs text-gray-500 dark:text-gray-400">
+        <Clock className="w-3.5 h-3.5" />
+        Aggregated statistics: {dataAsOf}
+      </p>
+    );
+  }
+
+  return (
+    <div
+      role="status"
+      className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6 px-4 py-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800"
+    >
+      <p className="flex items-start gap-2 text-sm text-amber-800 dark:text-amber-300">
+        <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <span>
+          Aggregated statistics (trends, comparison, categories) are behind the latest commits: {dataAsOf}
+          {freshness.latest_commit_date && `, latest commit ${formatDateTime(freshness.latest_commit_date)}`}.
+          {error && <span className="block text-red-600 dark:text-red-400">{error}</span>}
+        </span>
+      </p>
+      {canRefresh && (
+        <button
+          onClick={handleRefresh}
+          disabled={refreshing}
+          className="px-3 py-1.5 text-sm font-medium text-amber-800 dark:text-amber-200 bg-amber-100 dark:bg-amber-800/40 hover:bg-amber-200 dark:hover:bg-amber-800/60 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+        >
+          {refreshing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          Refresh now
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DataFreshness;
@@ -0,0 +1,61 @@
+import { useDateRange } from '../contexts/DateRangeContext';
+import { DATE_RANGE_PRESETS, DateRangePreset } from '../utils/dateRange';
+
+interface DateRangeSelectProps {
+  className?: string;
+}
+
+const defaultClassName = 'px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+/**
+ * Date range dropdown of the shared date range (same selection on every page)
+ * A custom range shows two date inputs, starting from the dates of the previous preset.
+ */
+const DateRangeSelect: React.FC<DateRangeSelectProps> = ({ className = defaultClassName }) => {
+  const { selection, setSelection, range } = useDateRange();
+
+  const changePreset = (preset: DateRangePreset) => {
+    if (preset === 'custom') {
+      setSelection({ preset, from: range.dateFrom || '', to: range.dateTo || '' });
+    } else {
+      setSelection({ preset, from: '', to: '' });
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-3">
+      <select
+        value={selection.preset}
+        onChange={(e) => changePreset(e.target.value as DateRangePreset)}
+        className={className}
+        aria-label="Date range"
+      >
+        {DATE_RANGE_PRESETS.map(preset => (
+          <option key={preset.value} value={preset.value}>{preset.label}</option>
+        ))}
+      </select>
+      {selection.preset === 'custom' && (
+        <>
+          <input
+            type="date"
+            value={selection.from}
+            max={selection.to || undefined}
+            onChange={(e) => setSelection({ ...selection, from: e.target.value })}
+            className={className}
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={selection.to}
+            min={selection.from || undefined}
+            onChange={(e) => setSelection({ ...selection, to: e.target.value })}
+            className={className}
+            aria-label="To date"
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DateRangeSelect;
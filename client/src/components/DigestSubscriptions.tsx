@@ -0,0 +1,89 @@
+import { useState, useEffect } from 'react';
+import { BellRing, Loader2 } from 'lucide-react';
+import { fetchDigestSubscriptions, updateDigestSubscriptions, DigestFrequency, getErrorMessage } from '../utils/api';
+import { formatDate } from '../utils/dateFormat';
+
+export interface DigestSubscriptionSettings {
+  weekly: boolean;
+  monthly: boolean;
+  last_sent_at: Record<DigestFrequency, string | null>;
+}
+
+const OPTIONS: { frequency: DigestFrequency; label: string; description: string }[] = [
+  { frequency: 'weekly', label: 'Weekly digest', description: 'Every Monday, covering the previous week' },
+  { frequency: 'monthly', label: 'Monthly digest', description: 'On the 1st, covering the previous month' },
+];
+
+const DigestSubscriptions: React.FC = () => {
+  const [settings, setSettings] = useState<DigestSubscriptionSettings | null>(null);
+  const [saving, setSaving] = useState<DigestFrequency | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDigestSubscriptions()
+      .then(response => setSettings(response.data))
+      .catch(err => {
+        console.error('Error loading digest subscriptions:', err);
+        setError('Failed to load email digest settings');
+      });
+  }, []);
+
+  const handleToggle = async (frequency: DigestFrequency, enabled: boolean) => {
+    setSaving(frequency);
+    try {
+      const response = await updateDigestSubscriptions({ [frequency]: enabled });
+      setSettings(response.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error updating digest subscriptions:', err);
+      setError(getErrorMessage(err, 'Failed to update email digest settings'));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+        <BellRing className="w-5 h-5 text-primary-500" />
+        Email Digests
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Receive your stats, team totals and the biggest commits by email.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {OPTIONS.map(option => (
+          <label
+            key={option.frequency}
+            className="flex items-start gap-3 cursor-pointer px-4 py-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
+          >
+            <input
+              type="checkbox"
+              checked={settings?.[option.frequency] ?? false}
+              disabled={!settings || saving !== null}
+              onChange={(e) => handleToggle(option.frequency, e.target.checked)}
+              className="mt-1 w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
+            />
+            <span>
+              <span className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+                {option.label}
+                {saving === option.frequency && <Loader2 className="w-4 h-4 animate-spin" />}
+              </span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                {option.description}
+                {settings?.last_sent_at[option.frequency] && ` · Last sent ${formatDate(settings.last_sent_at[option.frequency])}`}
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {error && (
+        <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default DigestSubscriptions;
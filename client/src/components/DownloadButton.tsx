@@ -0,0 +1,68 @@
+import { useState, useRef, useEffect } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+import { buildExportUrl, ExportFormat } from '../utils/api';
+
+interface DownloadButtonProps {
+  /** Report endpoint path, e.g. '/contributors' */
+  path: string;
+  /** Filters currently applied on the page (forwarded to the endpoint) */
+  params?: Record<string, string | string[] | number | null | undefined>;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+];
+
+const DownloadButton: React.FC<DownloadButtonProps> = ({ path, params = {} }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <Download className="w-4 h-4" />
+        Download
+        <ChevronDown className="w-4 h-4" />
+      </button>
+      {open && (
+        <div
+          role="menu"
+          className="absolute right-0 z-20 mt-2 w-44 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg overflow-hidden"
+        >
+          {FORMATS.map(({ format, label }) => (
+            <a
+              key={format}
+              role="menuitem"
+              href={buildExportUrl(path, params, format)}
+              download
+              onClick={() => setOpen(false)}
+              className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              {label}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DownloadButton;
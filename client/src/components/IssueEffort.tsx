@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { fetchIssueEffort, fetchIssueSummary } from '../utils/api';
+import DownloadButton from './DownloadButton';
+
+interface IssueEffortProps {
+  repos: string[];
+  team: string;
+  dateFrom: string | null;
+  dateTo: string | null;
+  /** Show effective commits (weighted) instead of commit shares */
+  weighted: boolean;
+}
+
+interface IssueSummary {
+  total_commits: number;
+  commits_with_ticket_keys: number;
+  linked_commits: number;
+  linked_commits_pct: string | null;
+  issues: number;
+  epics: number;
+}
+
+interface EffortMetrics {
+  commits: number;
+  commit_share: string;
+  effective_commits: string;
+  lines_changed: string;
+  issues: number;
+  story_points: string;
+  unique_authors: number;
+}
+
+interface EpicEffort extends EffortMetrics {
+  epic_key: string | null;
+  epic_name: string | null;
+}
+
+interface IssueTypeEffort extends EffortMetrics {
+  issue_type: string;
+}
+
+interface IssueEffortData {
+  summary: IssueSummary;
+  epics: EpicEffort[];
+  types: IssueTypeEffort[];
+}
+
+const EffortHeaders = ({ weighted }: { weighted: boolean }): JSX.Element => (
+  <>
+    <th className="py-2 pr-4 font-medium text-right">{weighted ? 'Effective Commits' : 'Commits'}</th>
+    <th className="py-2 pr-4 font-medium text-right">Lines</th>
+    <th className="py-2 pr-4 font-medium text-right">Issues</th>
+    <th className="py-2 pr-4 font-medium text-right">Story Points</th>
+    <th className="py-2 font-medium text-right">Authors</th>
+  </>
+);
+
+const EffortCells = ({ row, weighted }: { row: EffortMetrics; weighted: boolean }): JSX.Element => (
+  <>
+    <td className="py-2 pr-4 text-right">{parseFloat(weighted ? row.effective_commits : row.commit_share).toLocaleString()}</td>
+    <td className="py-2 pr-4 text-right">{parseInt(row.lines_changed).toLocaleString()}</td>
+    <td className="py-2 pr-4 text-right">{row.issues.toLocaleString()}</td>
+    <td className="py-2 pr-4 text-right">{parseFloat(row.story_points).toLocaleString()}</td>
+    <td className="py-2 text-right">{row.unique_authors.toLocaleString()}</td>
+  </>
+);
+
+/**
+ * Effort of the commits linked to imported issues, by epic and by issue type
+ * A commit referencing several issues is split evenly between them.
+ */
+const IssueEffort: React.FC<IssueEffortProps> = ({ repos, team, dateFrom, dateTo, weighted }) => {
+  const [data, setData] = useState<IssueEffortData | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      fetchIssueSummary(repos, dateFrom, dateTo, team),
+      fetchIssueEffort('epics', repos, dateFrom, dateTo, team),
+      fetchIssueEffort('types', repos, dateFrom, dateTo, team)
+    ])
+      .then(([summaryRes, epicsRes, typesRes]) => {
+        setData({ summary: summaryRes.data, epics: epicsRes.data, types: typesRes.data });
+      })
+      .catch(err => {
+        console.error('Error fetching issue effort:', err);
+        setData(null);
+      });
+  }, [repos, team, dateFrom, dateTo]);
+
+  if (!data) {
+    return null;
+  }
+
+  const { summary } = data;
+  const filterParams = { repo: repos, team, dateFrom, dateTo };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+          Effort by Epic &amp; Issue Type{!weighted && ' (unweighted)'}
+        </h3>
+        <p className="text-gray-600 dark:text-gray-400">
+          {summary.linked_commits > 0
+            ? `${summary.linked_commits.toLocaleString()} of ${summary.total_commits.toLocaleString()} commits (${summary.linked_commits_pct}%) are linked to ${summary.issues.toLocaleString()} imported issues in ${summary.epics.toLocaleString()} epics`
+            : `No commits are linked to imported issues (${summary.commits_with_ticket_keys.toLocaleString()} commits reference issue keys). Import a Jira or GitLab issue export on the Import page.`}
+        </p>
+      </div>
+
+      {summary.linked_commits > 0 && (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div className="card p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h4 className="text-xl font-semibold text-gray-900 dark:text-white">By Epic</h4>
+              <DownloadButton path="/issues/epics" params={filterParams} />
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-medium">Epic</th>
+                    <EffortHeaders weighted={weighted} />
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.epics.map(row => (
+                    <tr key={row.epic_key ?? ''} className="border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white">
+                      <td className="py-2 pr-4 font-medium">
+                        {row.epic_key
+                          ? <><span className="text-gray-500 dark:text-gray-400">{row.epic_key}</span> {row.epic_name}</>
+                          : <span className="text-gray-500 dark:text-gray-400">No epic</span>}
+                      </td>
+                      <EffortCells row={row} weighted={weighted} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+          <div className="card p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h4 className="text-xl font-semibold text-gray-900 dark:text-white">By Issue Type</h4>
+              <DownloadButton path="/issues/types" params={filterParams} />
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-medium">Issue Type</th>
+                    <EffortHeaders weighted={weighted} />
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.types.map(row => (
+                    <tr key={row.issue_type} className="border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white">
+                      <td className="py-2 pr-4 font-medium">{row.issue_type}</td>
+                      <EffortCells row={row} weighted={weighted} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IssueEffort;
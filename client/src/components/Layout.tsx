@@ -1,8 +1,13 @@
-import React, { useState, useEffect } from 'react';
-import { Link, Outlet, useLocation } from 'react-router-dom';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, Outlet, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { DateRangeProvider } from '../contexts/DateRangeContext';
 import { LayoutProvider, useLayout } from '../contexts/LayoutContext';
 import Avatar from './Avatar';
+import DataFreshness from './DataFreshness';
+import SavedViewsMenu, { SavedView } from './SavedViewsMenu';
+import { fetchPreferences, updatePreferences, Preferences } from '../utils/api';
+import { isAdmin } from '../utils/permissions';
 import {
   LayoutDashboard,
   TrendingUp,
@@ -20,7 +25,17 @@ import {
   Menu,
   X,
   BarChart3,
-  Search
+  Search,
+  FileDown,
+  Bell,
+  Upload,
+  FolderGit2,
+  Tags,
+  Link2,
+  Check,
+  Bot,
+  GitPullRequest,
+  Rocket
 } from 'lucide-react';
 
 
@@ -28,47 +43,87 @@ interface NavItem {
   path: string;
   label: string;
   icon: React.ComponentType<{ className?: string }>;
+  /** Only shown to admins */
+  adminOnly?: boolean;
 }
 
 const LayoutContent: React.FC = () => {
   const [darkMode, setDarkMode] = useState<boolean>(false);
   const [sidebarOpen, setSidebarOpen] = useState<boolean>(true); // For mobile overlay
   const [sidebarCollapsed, setSidebarCollapsed] = useState<boolean>(false); // For desktop collapse
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
+  const [defaultViewId, setDefaultViewId] = useState<number | null>(null);
+  const [viewKey, setViewKey] = useState<number>(0); // Remounts the page when a saved view is applied
   const location = useLocation();
+  const navigate = useNavigate();
   const { user, logout } = useAuth();
   const { fullWidth } = useLayout();
+  // The landing view replaces the Overview only when the dashboard is opened without a page or filters
+  const openLandingView = useRef<boolean>(location.pathname === '/' && !location.search);
 
-  // Initialize dark mode from localStorage
+  // Initialize dark mode, sidebar state and landing view from the saved preferences
   useEffect(() => {
-    const isDark = localStorage.getItem('darkMode') === 'true';
-    setDarkMode(isDark);
-    if (isDark) {
-      document.documentElement.classList.add('dark');
-    }
-  }, []);
-
-  // Initialize sidebar collapsed state from localStorage
-  useEffect(() => {
-    const isCollapsed = localStorage.getItem('sidebarCollapsed') === 'true';
-    setSidebarCollapsed(isCollapsed);
+    fetchPreferences()
+      .then(response => {
+        const preferences = response.data;
+        setDarkMode(preferences.dark_mode);
+        document.documentElement.classList.toggle('dark', preferences.dark_mode);
+        setSidebarCollapsed(preferences.sidebar_collapsed);
+        setDefaultViewId(preferences.default_view_id);
+        if (openLandingView.current && preferences.default_view) {
+          const { path, query } = preferences.default_view;
+          navigate(query ? `${path}?${query}` : path, { replace: true });
+          setViewKey(key => key + 1);
+        }
+      })
+      .catch(err => console.error('Error loading preferences:', err));
   }, []);
 
   // Close mobile sidebar on route change
   useEffect(() => {
     setSidebarOpen(false);
+    if (location.pathname !== '/') {
+      openLandingView.current = false;
+    }
   }, [location.pathname]);
 
+  const savePreferences = (changes: Partial<Preferences>) => {
+    updatePreferences(changes).catch(err => console.error('Error saving preferences:', err));
+  };
+
   const toggleDarkMode = () => {
     const newDarkMode = !darkMode;
     setDarkMode(newDarkMode);
-    localStorage.setItem('darkMode', String(newDarkMode));
+    savePreferences({ dark_mode: newDarkMode });
     document.documentElement.classList.toggle('dark');
   };
 
   const toggleSidebarCollapse = () => {
     const newCollapsed = !sidebarCollapsed;
     setSidebarCollapsed(newCollapsed);
-    localStorage.setItem('sidebarCollapsed', String(newCollapsed));
+    savePreferences({ sidebar_collapsed: newCollapsed });
+  };
+
+  const changeDefaultView = (id: number | null) => {
+    setDefaultViewId(id);
+    savePreferences({ default_view_id: id });
+  };
+
+  // Pages only read their filters from the URL when they mount
+  const applyView = (view: SavedView) => {
+    navigate(view.query ? `${view.path}?${view.query}` : view.path);
+    setViewKey(key => key + 1);
+  };
+
+  // Copy a link to the current page; pages keep their filters in the query string
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying link:', err);
+    }
   };
 
   const isActive = (path: string): boolean => {
@@ -80,13 +135,21 @@ const LayoutContent: React.FC = () => {
     { path: '/', label: 'Overview', icon: LayoutDashboard },
     { path: '/trends', label: 'Trends', icon: TrendingUp },
     { path: '/before-after', label: 'Before/After', icon: GitCompare },
+    { path: '/ai-adoption', label: 'AI Adoption', icon: Bot },
+    { path: '/delivery', label: 'Delivery', icon: GitPullRequest },
+    { path: '/dora', label: 'DORA Metrics', icon: Rocket },
     { path: '/contributors', label: 'Contributors', icon: Users },
     { path: '/personal-performance', label: 'My Performance', icon: User },
     { path: '/activity', label: 'Activity', icon: Calendar },
     { path: '/content-analysis', label: 'Content', icon: FileText },
     { path: '/comparison', label: 'Comparison', icon: GitCompareArrows },
     { path: '/commits', label: 'Search Commits', icon: Search },
-  ];
+    { path: '/reports', label: 'Reports', icon: FileDown },
+    { path: '/alerts', label: 'Alerts', icon: Bell },
+    { path: '/repositories', label: 'Repositories', icon: FolderGit2, adminOnly: true },
+    { path: '/categories', label: 'Categories', icon: Tags, adminOnly: true },
+    { path: '/import', label: 'Import', icon: Upload, adminOnly: true },
+  ].filter(item => !item.adminOnly || isAdmin(user));
 
 
   return (
@@ -203,8 +266,40 @@ const LayoutContent: React.FC = () => {
             </div>
           </nav>
 
-          {/* Bottom Section: Dark Mode + User Info */}
+          {/* Bottom Section: Saved Views + Copy Link + Dark Mode + User Info */}
           <div className="border-t border-gray-200 dark:border-gray-700 p-4 space-y-3">
+            {/* Saved Views (filter presets of the current user) */}
+            <SavedViewsMenu
+              defaultViewId={defaultViewId}
+              onDefaultChange={changeDefaultView}
+              onApply={applyView}
+              collapsed={sidebarCollapsed}
+            />
+
+            {/* Copy Link (current page with its filters) */}
+            <button
+              onClick={copyLink}
+              className={`
+                flex items-center gap-3 w-full px-3 py-2.5 rounded-lg
+                bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600
+                transition-all duration-300
+                ${sidebarCollapsed ? 'justify-center' : ''}
+              `}
+              aria-label="Copy link"
+              title={sidebarCollapsed ? (linkCopied ? 'Link copied' : 'Copy link') : 'Copy a link to this page with its filters'}
+            >
+              {linkCopied ? (
+                <Check className="w-5 h-5 text-green-600 dark:text-green-400" />
+              ) : (
+                <Link2 className="w-5 h-5 text-gray-700 dark:text-gray-300" />
+              )}
+              {!sidebarCollapsed && (
+                <span className="font-medium text-gray-700 dark:text-gray-300">
+                  {linkCopied ? 'Link copied' : 'Copy link'}
+                </span>
+              )}
+            </button>
+
             {/* Dark Mode Toggle */}
             <button
               onClick={toggleDarkMode}
@@ -289,7 +384,8 @@ const LayoutContent: React.FC = () => {
           `}
         >
           <div className={`${fullWidth ? 'max-w-none' : 'max-w-7xl'} mx-auto px-4 sm:px-6 lg:px-8 py-8 transition-all duration-300`}>
-            <Outlet />
+            <DataFreshness canRefresh={isAdmin(user)} />
+            <Outlet key={viewKey} />
           </div>
 
           {/* Footer */}
@@ -309,7 +405,9 @@ const LayoutContent: React.FC = () => {
 const Layout: React.FC = () => {
   return (
     <LayoutProvider>
-      <LayoutContent />
+      <DateRangeProvider>
+        <LayoutContent />
+      </DateRangeProvider>
     </LayoutProvider>
   );
 };
@@ -0,0 +1,130 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Mail, Plus, Trash2, Loader2 } from 'lucide-react';
+import { fetchClaimedAuthorEmails, claimAuthorEmail, removeClaimedAuthorEmail, getErrorMessage } from '../utils/api';
+
+export interface ClaimedAuthorEmail {
+  id: number;
+  email: string;
+  verified_commits: number;
+  created_at: string;
+}
+
+interface LinkedAuthorEmailsProps {
+  loginEmail: string;
+  onChange: () => void;
+}
+
+const LinkedAuthorEmails: React.FC<LinkedAuthorEmailsProps> = ({ loginEmail, onChange }) => {
+  const [emails, setEmails] = useState<ClaimedAuthorEmail[]>([]);
+  const [newEmail, setNewEmail] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEmails = useCallback(async () => {
+    try {
+      const response = await fetchClaimedAuthorEmails();
+      setEmails(response.data);
+    } catch (err) {
+      console.error('Error loading claimed author emails:', err);
+      setError('Failed to load linked emails');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEmails();
+  }, [loadEmails]);
+
+  const handleClaim = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newEmail.trim()) return;
+
+    setSaving(true);
+    try {
+      await claimAuthorEmail(newEmail.trim());
+      setNewEmail('');
+      setError(null);
+      await loadEmails();
+      onChange();
+    } catch (err) {
+      console.error('Error claiming author email:', err);
+      setError(getErrorMessage(err, 'Failed to link email'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (id: number) => {
+    try {
+      await removeClaimedAuthorEmail(id);
+      setError(null);
+      await loadEmails();
+      onChange();
+    } catch (err) {
+      console.error('Error removing claimed author email:', err);
+      setError(getErrorMessage(err, 'Failed to remove email'));
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+        <Mail className="w-5 h-5 text-primary-500" />
+        Linked Author Emails
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Commits authored with these emails are included in your performance, in addition to {loginEmail}.
+        An email can be linked only if it appears on at least one commit.
+      </p>
+
+      {emails.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {emails.map(claimed => (
+            <li
+              key={claimed.id}
+              className="flex items-center justify-between px-4 py-2 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
+            >
+              <span className="text-sm text-gray-900 dark:text-white">
+                {claimed.email}
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                  {claimed.verified_commits} commits when linked
+                </span>
+              </span>
+              <button
+                onClick={() => handleRemove(claimed.id)}
+                className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                aria-label={`Remove ${claimed.email}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleClaim} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="email"
+          value={newEmail}
+          onChange={(e) => setNewEmail(e.target.value)}
+          placeholder="e.g. 12345+username@users.noreply.github.com"
+          aria-label="Author email to link"
+          className="flex-1 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={saving || !newEmail.trim()}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Link Email
+        </button>
+      </form>
+
+      {error && (
+        <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default LinkedAuthorEmails;
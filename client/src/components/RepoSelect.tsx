@@ -0,0 +1,95 @@
+import { useState, useRef, useEffect } from 'react';
+import { ChevronDown } from 'lucide-react';
+
+interface RepoSelectProps {
+  repos: { name: string }[];
+  /** Selected repository names (empty for all repositories) */
+  value: string[];
+  onChange: (repos: string[]) => void;
+  className?: string;
+}
+
+const defaultClassName = 'px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+// Button label for a selection
+const describeSelection = (value: string[]): string => {
+  if (value.length === 0) return 'All Repositories';
+  if (value.length === 1) return value[0];
+  return `${value.length} repositories`;
+};
+
+/**
+ * Repository multi-select replacing the single repository dropdowns
+ * Selecting no repository (or "All Repositories") means every repository.
+ */
+const RepoSelect: React.FC<RepoSelectProps> = ({ repos, value, onChange, className = defaultClassName }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the list when clicking outside
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  // Keep the selection in the order of the repository list
+  const toggle = (name: string) => {
+    const selected = value.includes(name) ? value.filter(repo => repo !== name) : [...value, name];
+    onChange(repos.map(repo => repo.name).filter(repo => selected.includes(repo)));
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className={`flex items-center justify-between gap-2 text-left ${className}`}
+        aria-haspopup="listbox"
+        aria-expanded={open}
+        aria-label="Repositories"
+      >
+        <span className="truncate">{describeSelection(value)}</span>
+        <ChevronDown className="w-4 h-4 flex-shrink-0" />
+      </button>
+      {open && (
+        <div
+          role="listbox"
+          aria-multiselectable="true"
+          className="absolute left-0 z-20 mt-2 w-64 max-h-72 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-1"
+        >
+          <label className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={value.length === 0}
+              onChange={() => onChange([])}
+              className="w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
+            />
+            All Repositories
+          </label>
+          {repos.map(repo => (
+            <label
+              key={repo.name}
+              className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={value.includes(repo.name)}
+                onChange={() => toggle(repo.name)}
+                className="w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
+              />
+              <span className="truncate">{repo.name}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RepoSelect;
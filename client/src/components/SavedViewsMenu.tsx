@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import { useLocation } from 'react-router-dom';
+import { Bookmark, Loader2, Plus, Star, Trash2 } from 'lucide-react';
+import { createSavedView, deleteSavedView, fetchSavedViews, updateSavedView, getErrorMessage } from '../utils/api';
+
+export interface SavedView {
+  id: number;
+  name: string;
+  path: string;
+  query: string;
+}
+
+interface SavedViewsMenuProps {
+  /** Saved view used as landing page */
+  defaultViewId: number | null;
+  onDefaultChange: (id: number | null) => void;
+  /** Open a view (navigate to its page with its filters) */
+  onApply: (view: SavedView) => void;
+  /** Icon-only button for the collapsed sidebar */
+  collapsed?: boolean;
+}
+
+const inputClassName = 'flex-1 min-w-0 px-3 py-1.5 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+/**
+ * Saved views of the current user
+ * A view is the current page with the filters of its query string, so it can be
+ * saved from and applied to any page.
+ */
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ defaultViewId, onDefaultChange, onApply, collapsed = false }) => {
+  const location = useLocation();
+  const [open, setOpen] = useState(false);
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const loadViews = useCallback(async () => {
+    try {
+      const response = await fetchSavedViews();
+      setViews(response.data);
+    } catch (err) {
+      console.error('Error loading saved views:', err);
+      setError('Failed to load saved views');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) loadViews();
+  }, [open, loadViews]);
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  // Run an action, then reload the views
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+      await loadViews();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(getErrorMessage(err, failure));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Save the current page and filters; an existing view with the same name can be replaced
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const view = { name: name.trim(), path: location.pathname, query: location.search.replace(/^\?/, '') };
+    if (!view.name) return;
+
+    await runAction(async () => {
+      try {
+        await createSavedView(view);
+      } catch (err) {
+        const existingId = axios.isAxiosError(err) && err.response?.status === 409 ? err.response.data?.id : undefined;
+        if (existingId === undefined || !window.confirm(`Replace the saved view "${view.name}"?`)) throw err;
+        await updateSavedView(existingId, view);
+      }
+      setName('');
+    }, 'Failed to save view');
+  };
+
+  const handleDelete = (view: SavedView) => {
+    if (!window.confirm(`Delete the saved view "${view.name}"?`)) return;
+    runAction(async () => {
+      await deleteSavedView(view.id);
+      if (view.id === defaultViewId) onDefaultChange(null);
+    }, 'Failed to delete view');
+  };
+
+  const handleApply = (view: SavedView) => {
+    setOpen(false);
+    onApply(view);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={`
+          flex items-center gap-3 w-full px-3 py-2.5 rounded-lg
+          bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600
+          transition-all duration-300
+          ${collapsed ? 'justify-center' : ''}
+        `}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        aria-label="Saved views"
+        title={collapsed ? 'Saved views' : 'Save the filters of this page or open a saved view'}
+      >
+        <Bookmark className="w-5 h-5 text-gray-700 dark:text-gray-300" />
+        {!collapsed && (
+          <span className="font-medium text-gray-700 dark:text-gray-300">Saved views</span>
+        )}
+      </button>
+
+      {open && (
+        <div
+          role="menu"
+          className="absolute left-0 bottom-full z-50 mb-2 w-72 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-2"
+        >
+          {views.length === 0 ? (
+            <p className="px-2 py-2 text-sm text-gray-500 dark:text-gray-400">No saved views yet.</p>
+          ) : (
+            <ul className="max-h-64 overflow-y-auto">
+              {views.map(view => (
+                <li key={view.id} className="flex items-center gap-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">
+                  <button
+                    role="menuitem"
+                    onClick={() => handleApply(view)}
+                    className="flex-1 min-w-0 px-2 py-2 text-left"
+                    title={`${view.path}${view.query ? `?${view.query}` : ''}`}
+                  >
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{view.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{view.path}</p>
+                  </button>
+                  <button
+                    onClick={() => onDefaultChange(view.id === defaultViewId ? null : view.id)}
+                    disabled={busy}
+                    className="p-1.5 text-gray-400 hover:text-yellow-500"
+                    aria-label={view.id === defaultViewId ? `Stop opening ${view.name} on start` : `Open ${view.name} on start`}
+                    title={view.id === defaultViewId ? 'Landing page (click to use the Overview)' : 'Use as landing page'}
+                  >
+                    <Star className={`w-4 h-4 ${view.id === defaultViewId ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(view)}
+                    disabled={busy}
+                    className="p-1.5 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                    aria-label={`Delete ${view.name}`}
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Save the current page */}
+          <form onSubmit={handleSave} className="flex gap-2 mt-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name of this view"
+              maxLength={100}
+              aria-label="View name"
+              className={inputClassName}
+            />
+            <button
+              type="submit"
+              disabled={busy || !name.trim()}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg flex items-center gap-1 transition-colors disabled:opacity-50"
+            >
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              Save
+            </button>
+          </form>
+
+          {error && (
+            <p className="px-2 pt-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedViewsMenu;
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { fetchTeams } from '../utils/api';
+
+interface Team {
+  id: number;
+  name: string;
+}
+
+interface TeamSelectProps {
+  /** Selected team name, or 'all' */
+  value: string;
+  onChange: (team: string) => void;
+  className?: string;
+}
+
+const defaultClassName = 'px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+/**
+ * Team dropdown shown next to the repository dropdowns
+ * Hidden until at least one team exists.
+ */
+const TeamSelect: React.FC<TeamSelectProps> = ({ value, onChange, className = defaultClassName }) => {
+  const [teams, setTeams] = useState<Team[]>([]);
+
+  useEffect(() => {
+    fetchTeams()
+      .then(res => setTeams(res.data))
+      .catch(err => console.error('Error fetching teams:', err));
+  }, []);
+
+  if (teams.length === 0) return null;
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={className}
+      aria-label="Team"
+    >
+      <option value="all">All Teams</option>
+      {teams.map(team => (
+        <option key={team.id} value={team.name}>{team.name}</option>
+      ))}
+    </select>
+  );
+};
+
+export default TeamSelect;
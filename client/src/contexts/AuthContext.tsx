@@ -1,11 +1,14 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { checkAuth, logout as apiLogout } from '../utils/api';
 
-interface User {
+export type UserRole = 'user' | 'admin';
+
+export interface User {
   email: string;
   name: string;
   domain: string;
   avatar_url?: string | null;
+  role?: UserRole;
 }
 
 interface AuthContextType {
@@ -39,7 +42,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
       setUser({
         email: 'test@example.com',
         name: 'Test User',
-        domain: 'example.com'
+        domain: 'example.com',
+        role: 'admin'
       });
       setAuthenticated(true);
       setLoading(false);
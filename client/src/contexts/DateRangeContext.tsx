@@ -0,0 +1,56 @@
+import { createContext, useContext, useMemo, useState, ReactNode } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  DateRangeSelection,
+  DEFAULT_DATE_RANGE,
+  parseDateRangeFilters,
+  resolveDateRange,
+  ResolvedDateRange,
+} from '../utils/dateRange';
+
+interface DateRangeContextType {
+  selection: DateRangeSelection;
+  setSelection: (selection: DateRangeSelection) => void;
+  /** Dates of the selection, resolved against today */
+  range: ResolvedDateRange;
+}
+
+const DateRangeContext = createContext<DateRangeContextType | undefined>(undefined);
+
+// Key of the range in the URL, to notice links and history entries with another range
+const selectionKey = (selection: DateRangeSelection | null) =>
+  selection ? `${selection.preset}|${selection.from}|${selection.to}` : null;
+
+/**
+ * Date range shared by the pages, so it is kept when navigating between them
+ * Pages write it to the URL with their other filters; a URL with another range
+ * (shared link, saved view, back button) replaces it.
+ */
+export function DateRangeProvider({ children }: { children: ReactNode }) {
+  const [searchParams] = useSearchParams();
+  const urlSelection = parseDateRangeFilters(searchParams);
+  const [selection, setSelection] = useState<DateRangeSelection>(urlSelection ?? DEFAULT_DATE_RANGE);
+  const [urlKey, setUrlKey] = useState<string | null>(selectionKey(urlSelection));
+
+  // Adjusted while rendering, so pages never fetch with the previous range
+  if (selectionKey(urlSelection) !== urlKey) {
+    setUrlKey(selectionKey(urlSelection));
+    if (urlSelection) setSelection(urlSelection);
+  }
+
+  const range = useMemo(() => resolveDateRange(selection), [selection]);
+
+  return (
+    <DateRangeContext.Provider value={{ selection, setSelection, range }}>
+      {children}
+    </DateRangeContext.Provider>
+  );
+}
+
+export function useDateRange() {
+  const context = useContext(DateRangeContext);
+  if (!context) {
+    throw new Error('useDateRange must be used within DateRangeProvider');
+  }
+  return context;
+}
@@ -1,6 +1,10 @@
 import { useEffect, useState, useMemo } from 'react';
-import { Scale } from 'lucide-react';
+import { AlertTriangle, Scale } from 'lucide-react';
 import { fetchRepos, fetchDailyActivity } from '../utils/api';
+import { useSyncUrlFilters, useUrlFilters } from '../utils/urlFilters';
+import { DATE_RANGE_FILTER_DEFAULTS, daysInRange, isInDateRange, toDateRangeFilters } from '../utils/dateRange';
+import { useDateRange } from '../contexts/DateRangeContext';
+import DateRangeSelect from '../components/DateRangeSelect';
 import LoadingSpinner from '../components/LoadingSpinner';
 import CalendarHeatmap from 'react-calendar-heatmap';
 import 'react-calendar-heatmap/dist/styles.css';
@@ -35,14 +39,29 @@ interface DayOfWeekData {
   commits: number;
 }
 
+// Filters kept in the URL query string
+const FILTER_DEFAULTS = { repo: 'all', ...DATE_RANGE_FILTER_DEFAULTS, weighted: true };
+
+// The heatmap shows at most two years (also for "All time")
+const MAX_DAYS = 730;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
 function Activity(): JSX.Element {
+  const initialFilters = useUrlFilters(FILTER_DEFAULTS);
   const [repos, setRepos] = useState<Repository[]>([]);
-  const [selectedRepo, setSelectedRepo] = useState<string>('all');
+  const [selectedRepo, setSelectedRepo] = useState<string>(initialFilters.repo);
   const [activityData, setActivityData] = useState<ActivityItem[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [dataLoading, setDataLoading] = useState<boolean>(false);
-  const [daysToShow, setDaysToShow] = useState<number>(365);
-  const [useWeightedData, setUseWeightedData] = useState<boolean>(true);
+  const [useWeightedData, setUseWeightedData] = useState<boolean>(initialFilters.weighted);
+  const { selection, range } = useDateRange();
+  // The endpoint returns the last N days; days after the end of a custom range are dropped
+  const daysToFetch = Math.min(daysInRange(range) ?? MAX_DAYS, MAX_DAYS);
+  // Ranges starting more than MAX_DAYS ago (or without a start) are cut at MAX_DAYS
+  const rangeClamped = (daysInRange(range) ?? Infinity) > MAX_DAYS;
+
+  useSyncUrlFilters({ repo: selectedRepo, ...toDateRangeFilters(selection), weighted: useWeightedData }, FILTER_DEFAULTS);
 
   // Fetch repos on mount
   useEffect(() => {
@@ -59,8 +78,8 @@ function Activity(): JSX.Element {
   useEffect(() => {
     if (!loading) {
       setDataLoading(true);
-      fetchDailyActivity(daysToShow).then(res => {
-        let data = res.data;
+      fetchDailyActivity(daysToFetch).then(res => {
+        let data = res.data.filter((d: ActivityItem) => isInDateRange(d.commit_date.slice(0, 10), range));
 
         // Filter by repository if not 'all'
         if (selectedRepo !== 'all') {
@@ -74,7 +93,7 @@ function Activity(): JSX.Element {
         setDataLoading(false);
       });
     }
-  }, [selectedRepo, daysToShow, loading]);
+  }, [selectedRepo, daysToFetch, range.dateTo, loading]);
 
   // Aggregate data by date for calendar heatmap (must be before early return)
   const heatmapData: HeatmapDataPoint[] = useMemo(() => {
@@ -165,15 +184,16 @@ function Activity(): JSX.Element {
     return <LoadingSpinner />;
   }
 
-  // Prepare data for calendar heatmap (last N days)
+  // Prepare data for calendar heatmap (days of the selected range, starting at most MAX_DAYS ago)
   const getDateRange = (): { start: Date; end: Date } => {
-    const end = new Date();
+    const end = range.dateTo ? new Date(`${range.dateTo}T00:00:00`) : new Date();
     const start = new Date();
-    start.setDate(start.getDate() - daysToShow);
+    start.setDate(start.getDate() - daysToFetch);
     return { start, end };
   };
 
   const { start, end } = getDateRange();
+  const daysToShow = Math.max(Math.round((end.getTime() - start.getTime()) / MS_PER_DAY), 1);
 
   // Colors for day of week chart
   const dayColors: string[] = [
@@ -211,16 +231,8 @@ function Activity(): JSX.Element {
             ))}
           </select>
 
-          {/* Date Range Selector */}
-          <select
-            value={daysToShow}
-            onChange={(e) => setDaysToShow(Number(e.target.value))}
-            className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-          >
-            <option value={365}>Last Year</option>
-            <option value={180}>Last 6 Months</option>
-            <option value={90}>Last 3 Months</option>
-          </select>
+          {/* Date Range Selector (shared by all pages) */}
+          <DateRangeSelect />
 
           {/* Use Weighted Data Checkbox */}
           <label className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 transition-all duration-300">
@@ -240,6 +252,13 @@ function Activity(): JSX.Element {
         <LoadingSpinner />
       ) : (
         <>
+          {rangeClamped && (
+            <p className="text-sm text-amber-700 dark:text-amber-400 flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" />
+              Activity is limited to the last {MAX_DAYS} days: showing {start.toLocaleDateString()} onwards
+            </p>
+          )}
+
           {/* Stats Cards */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
             <div className="card stagger-item">
@@ -0,0 +1,314 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bot } from 'lucide-react';
+import { fetchAiAdoption, fetchRepos } from '../utils/api';
+import { useSyncUrlFilters, useUrlFilters } from '../utils/urlFilters';
+import { DATE_RANGE_FILTER_DEFAULTS, toDateRangeFilters } from '../utils/dateRange';
+import { useDateRange } from '../contexts/DateRangeContext';
+import LoadingSpinner from '../components/LoadingSpinner';
+import RepoSelect from '../components/RepoSelect';
+import TeamSelect from '../components/TeamSelect';
+import DateRangeSelect from '../components/DateRangeSelect';
+import DownloadButton from '../components/DownloadButton';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+interface Repository {
+  id: number;
+  name: string;
+}
+
+interface GroupMetrics {
+  total_commits: number;
+  effective_commits: string | number | null;
+  avg_weight: string | number | null;
+  avg_lines_per_commit: string | number | null;
+  avg_weighted_lines_per_commit: string | number | null;
+  unique_authors: number;
+  commits_per_author: string | number | null;
+  effective_commits_per_author: string | number | null;
+}
+
+interface UsageGroup extends GroupMetrics {
+  ai_usage: 'assisted' | 'not_assisted';
+  share_of_commits_pct: string | number | null;
+}
+
+interface ToolRow extends GroupMetrics {
+  tool: string;
+}
+
+interface CategoryRow {
+  category: string;
+  assisted_commits: number;
+  not_assisted_commits: number;
+  assisted_share_pct: string | number | null;
+  not_assisted_share_pct: string | number | null;
+}
+
+interface AiAdoptionData {
+  groups: UsageGroup[];
+  tools: ToolRow[];
+  categories: CategoryRow[];
+}
+
+// Metrics compared between AI-assisted and non-assisted commits
+const METRICS: { key: keyof GroupMetrics; label: string; chartLabel: string }[] = [
+  { key: 'avg_lines_per_commit', label: 'Lines per Commit', chartLabel: 'Lines/Commit' },
+  { key: 'avg_weighted_lines_per_commit', label: 'Wtd. Lines per Commit', chartLabel: 'Wtd. Lines/Commit' },
+  { key: 'avg_weight', label: 'Avg Weight (%)', chartLabel: 'Avg Weight' },
+  { key: 'commits_per_author', label: 'Commits per Author', chartLabel: 'Commits/Author' },
+  { key: 'effective_commits_per_author', label: 'Eff. Commits per Author', chartLabel: 'Eff. Commits/Author' },
+];
+
+// Categories shown in the category mix chart
+const MAX_CHART_CATEGORIES = 10;
+
+// Filters kept in the URL query string
+const FILTER_DEFAULTS = { repo: [] as string[], team: 'all', ...DATE_RANGE_FILTER_DEFAULTS };
+
+const toNumber = (value: string | number | null | undefined): number => parseFloat(String(value ?? '')) || 0;
+
+const formatValue = (value: string | number | null | undefined, decimals: number = 1): string =>
+  toNumber(value).toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+// Relative difference of AI-assisted commits (null without a baseline)
+const relativeDifference = (assisted: number, notAssisted: number): number | null =>
+  notAssisted === 0 ? null : (assisted - notAssisted) / notAssisted * 100;
+
+function AiAdoption(): JSX.Element {
+  const initialFilters = useUrlFilters(FILTER_DEFAULTS);
+  const [repos, setRepos] = useState<Repository[]>([]);
+  const [data, setData] = useState<AiAdoptionData | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedRepos, setSelectedRepos] = useState<string[]>(initialFilters.repo);
+  const [selectedTeam, setSelectedTeam] = useState<string>(initialFilters.team);
+  const { selection, range: { dateFrom, dateTo } } = useDateRange();
+
+  useSyncUrlFilters({ repo: selectedRepos, team: selectedTeam, ...toDateRangeFilters(selection) }, FILTER_DEFAULTS);
+
+  // Fetch repos on mount
+  useEffect(() => {
+    fetchRepos().then(res => {
+      setRepos(res.data);
+    }).catch(err => {
+      console.error('Error fetching repositories:', err);
+    });
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchAiAdoption(selectedRepos, dateFrom, dateTo, selectedTeam).then(res => {
+      setData(res.data);
+      setError(null);
+      setLoading(false);
+    }).catch(err => {
+      console.error('Error fetching AI adoption:', err);
+      setError('Failed to load AI adoption data');
+      setLoading(false);
+    });
+  }, [selectedRepos, selectedTeam, dateFrom, dateTo]);
+
+  const assisted = data?.groups.find(group => group.ai_usage === 'assisted');
+  const notAssisted = data?.groups.find(group => group.ai_usage === 'not_assisted');
+
+  const chartData = METRICS.map(metric => ({
+    metric: metric.chartLabel,
+    'AI-assisted': toNumber(assisted?.[metric.key]),
+    'Not assisted': toNumber(notAssisted?.[metric.key]),
+  }));
+
+  const categoryChartData = (data?.categories ?? []).slice(0, MAX_CHART_CATEGORIES).map(row => ({
+    category: row.category,
+    'AI-assisted': toNumber(row.assisted_share_pct),
+    'Not assisted': toNumber(row.not_assisted_share_pct),
+  }));
+
+  return (
+    <div className="space-y-8 fade-in">
+      {/* Header with Filters */}
+      <div className="space-y-4">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+              AI Adoption
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400">
+              AI-assisted commits compared with the other commits of the same period
+            </p>
+          </div>
+          <DownloadButton
+            path="/ai-adoption"
+            params={{ repo: selectedRepos, team: selectedTeam, dateFrom, dateTo }}
+          />
+        </div>
+
+        {/* Filters Row */}
+        <div className="flex flex-col lg:flex-row gap-3">
+          <RepoSelect repos={repos} value={selectedRepos} onChange={setSelectedRepos} />
+          <TeamSelect value={selectedTeam} onChange={setSelectedTeam} />
+          {/* Date Range Selector (shared by all pages) */}
+          <DateRangeSelect />
+        </div>
+      </div>
+
+      {loading && <LoadingSpinner />}
+
+      {!loading && error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-red-700 dark:text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      {!loading && !error && data && !assisted && (
+        <div className="flex items-center justify-center min-h-[300px]">
+          <div className="text-center">
+            <Bot className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              No AI-assisted commits
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400">
+              No commit of this period has AI tools set. Set them when editing commits in{' '}
+              <Link to="/commits" className="text-blue-600 dark:text-blue-400 hover:underline">Search Commits</Link>.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {!loading && !error && data && assisted && (
+        <>
+          {/* Adoption */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="card p-6">
+              <p className="text-sm text-gray-600 dark:text-gray-400">AI-assisted commits</p>
+              <p className="text-3xl font-bold text-purple-600 dark:text-purple-400">{assisted.total_commits.toLocaleString()}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                {formatValue(assisted.share_of_commits_pct)}% of {(assisted.total_commits + (notAssisted?.total_commits ?? 0)).toLocaleString()} commits
+              </p>
+            </div>
+            <div className="card p-6">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Authors using AI tools</p>
+              <p className="text-3xl font-bold text-purple-600 dark:text-purple-400">{assisted.unique_authors.toLocaleString()}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                {(notAssisted?.unique_authors ?? 0).toLocaleString()} authors with non-assisted commits
+              </p>
+            </div>
+            <div className="card p-6">
+              <p className="text-sm text-gray-600 dark:text-gray-400">AI tools</p>
+              <p className="text-3xl font-bold text-purple-600 dark:text-purple-400">{data.tools.length}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 truncate">
+                {data.tools.slice(0, 3).map(tool => tool.tool).join(', ')}
+              </p>
+            </div>
+          </div>
+
+          {/* Metric Comparison */}
+          <div className="card p-6">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+              AI-assisted vs Not Assisted
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-medium">Metric</th>
+                    <th className="py-2 pr-4 font-medium text-right">AI-assisted</th>
+                    <th className="py-2 pr-4 font-medium text-right">Not assisted</th>
+                    <th className="py-2 font-medium text-right">Difference</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {METRICS.map(metric => {
+                    const difference = relativeDifference(toNumber(assisted[metric.key]), toNumber(notAssisted?.[metric.key]));
+                    return (
+                      <tr key={metric.key} className="border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white">
+                        <td className="py-2 pr-4">{metric.label}</td>
+                        <td className="py-2 pr-4 text-right">{formatValue(assisted[metric.key])}</td>
+                        <td className="py-2 pr-4 text-right">{notAssisted ? formatValue(notAssisted[metric.key]) : '-'}</td>
+                        <td className={`py-2 text-right font-semibold ${difference === null ? 'text-gray-500' : difference >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                          {difference === null ? '-' : `${difference >= 0 ? '↑' : '↓'} ${Math.abs(difference).toFixed(1)}%`}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <ResponsiveContainer width="100%" height={350} className="mt-6">
+              <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#6b7280" opacity={0.2} />
+                <XAxis dataKey="metric" stroke="#6b7280" style={{ fontSize: '12px' }} />
+                <YAxis stroke="#6b7280" style={{ fontSize: '12px' }} />
+                <Tooltip />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} iconType="circle" />
+                <Bar dataKey="AI-assisted" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="Not assisted" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Tools */}
+          <div className="card p-6">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              By AI Tool
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              A commit made with several tools counts for each of them.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-medium">Tool</th>
+                    <th className="py-2 pr-4 font-medium text-right">Commits</th>
+                    <th className="py-2 pr-4 font-medium text-right">Authors</th>
+                    {METRICS.map(metric => (
+                      <th key={metric.key} className="py-2 pr-4 font-medium text-right">{metric.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.tools.map(tool => (
+                    <tr key={tool.tool} className="border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white">
+                      <td className="py-2 pr-4 font-medium">{tool.tool}</td>
+                      <td className="py-2 pr-4 text-right">{tool.total_commits.toLocaleString()}</td>
+                      <td className="py-2 pr-4 text-right">{tool.unique_authors.toLocaleString()}</td>
+                      {METRICS.map(metric => (
+                        <td key={metric.key} className="py-2 pr-4 text-right">
+                          {formatValue(tool[metric.key])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Category Mix */}
+          <div className="card p-6">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              Category Mix
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Share of each category in the AI-assisted and in the non-assisted commits
+            </p>
+            <ResponsiveContainer width="100%" height={350}>
+              <BarChart data={categoryChartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#6b7280" opacity={0.2} />
+                <XAxis dataKey="category" stroke="#6b7280" style={{ fontSize: '12px' }} />
+                <YAxis stroke="#6b7280" style={{ fontSize: '12px' }} unit="%" />
+                <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} iconType="circle" />
+                <Bar dataKey="AI-assisted" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="Not assisted" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default AiAdoption;
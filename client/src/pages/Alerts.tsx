@@ -0,0 +1,472 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Bell, CheckCircle2, Loader2, Pencil, Play, Plus, Send, Trash2, XCircle } from 'lucide-react';
+import {
+  fetchRepos,
+  fetchAlertRules,
+  fetchAlertEvents,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  testAlertRule,
+  evaluateAlertRules,
+  AlertRuleInput,
+  AlertMetric,
+  AlertCondition,
+  getErrorMessage,
+} from '../utils/api';
+import { useAuth } from '../contexts/AuthContext';
+import { isAdmin } from '../utils/permissions';
+import { formatDate } from '../utils/dateFormat';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+interface Repository {
+  id: number;
+  name: string;
+}
+
+interface AlertRule extends Omit<AlertRuleInput, 'webhook_url' | 'threshold'> {
+  id: number;
+  threshold: string;
+  /** Only returned to admins */
+  webhook_url?: string;
+  last_evaluated_at: string | null;
+  last_triggered_at: string | null;
+}
+
+interface AlertEvent {
+  id: number;
+  rule_id: number;
+  rule_name: string;
+  repository_name: string;
+  period_start: string;
+  message: string;
+  delivered: boolean;
+  error: string | null;
+  created_at: string;
+}
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  total_commits: 'Commits',
+  effective_commits: 'Effective commits',
+  total_lines_changed: 'Lines changed',
+  avg_weight: 'Average weight',
+  weight_efficiency_pct: 'Weight efficiency (%)',
+};
+
+const CONDITION_LABELS: Record<AlertCondition, string> = {
+  drop_pct: 'drops by at least (%)',
+  below: 'falls below',
+  above: 'rises above',
+};
+
+const EMPTY_RULE: AlertRuleInput = {
+  name: '',
+  repository_name: null,
+  metric: 'effective_commits',
+  period: 'weekly',
+  condition: 'drop_pct',
+  threshold: 30,
+  webhook_url: '',
+  enabled: true,
+};
+
+const inputClassName = 'w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const describeRule = (rule: AlertRule): string => {
+  const threshold = Number(rule.threshold);
+  const condition = rule.condition === 'drop_pct'
+    ? `drops by ${threshold}% or more`
+    : `${rule.condition === 'below' ? 'falls below' : 'rises above'} ${threshold}`;
+  return `${rule.period === 'weekly' ? 'Weekly' : 'Monthly'} ${METRIC_LABELS[rule.metric].toLowerCase()} ${condition}`;
+};
+
+const Alerts = (): JSX.Element => {
+  const { user } = useAuth();
+  const canManage = isAdmin(user);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [repos, setRepos] = useState<Repository[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [form, setForm] = useState<AlertRuleInput | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      const [rulesResponse, eventsResponse] = await Promise.all([fetchAlertRules(), fetchAlertEvents()]);
+      setRules(rulesResponse.data);
+      setEvents(eventsResponse.data);
+    } catch (err) {
+      console.error('Error loading alerts:', err);
+      setError('Failed to load alerts');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+    fetchRepos()
+      .then(res => setRepos(res.data))
+      .catch(err => console.error('Error fetching repositories:', err));
+  }, [loadAlerts]);
+
+  // Run an action, then reload rules and events
+  const runAction = async (action: () => Promise<unknown>, failure: string, success?: string) => {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+      setNotice(success || null);
+      await loadAlerts();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(getErrorMessage(err, failure));
+      setNotice(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_RULE);
+  };
+
+  const startEdit = (rule: AlertRule) => {
+    setEditingId(rule.id);
+    setForm({
+      name: rule.name,
+      repository_name: rule.repository_name,
+      metric: rule.metric,
+      period: rule.period,
+      condition: rule.condition,
+      threshold: Number(rule.threshold),
+      webhook_url: rule.webhook_url || '',
+      enabled: rule.enabled,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    await runAction(
+      async () => {
+        if (editingId === null) {
+          await createAlertRule(form);
+        } else {
+          await updateAlertRule(editingId, form);
+        }
+        setForm(null);
+        setEditingId(null);
+      },
+      editingId === null ? 'Failed to create alert rule' : 'Failed to update alert rule'
+    );
+  };
+
+  const handleDelete = (rule: AlertRule) => {
+    if (!window.confirm(`Delete the alert rule "${rule.name}"?`)) return;
+    runAction(() => deleteAlertRule(rule.id), 'Failed to delete alert rule');
+  };
+
+  const handleEvaluate = () => runAction(
+    async () => {
+      const response = await evaluateAlertRules();
+      setNotice(`${response.data.evaluated} rules evaluated, ${response.data.triggered} alerts sent`);
+    },
+    'Failed to evaluate alert rules'
+  );
+
+  const updateForm = (changes: Partial<AlertRuleInput>) => {
+    setForm(current => current && { ...current, ...changes });
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="space-y-8 fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+            Alerts
+          </h2>
+          <p className="text-gray-600 dark:text-gray-400">
+            Post a message to Slack or Microsoft Teams when a repository metric crosses a threshold
+          </p>
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            <button
+              onClick={handleEvaluate}
+              disabled={busy}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
+            >
+              <Play className="w-4 h-4" />
+              Evaluate Now
+            </button>
+            <button
+              onClick={startCreate}
+              disabled={busy}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              New Rule
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+      {notice && (
+        <p className="text-sm text-green-600 dark:text-green-400">{notice}</p>
+      )}
+
+      {/* Rule Form */}
+      {form && (
+        <form onSubmit={handleSubmit} className="card p-6 space-y-4">
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white">
+            {editingId === null ? 'New Alert Rule' : 'Edit Alert Rule'}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                placeholder="e.g. Effective commits drop"
+                required
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Repository</label>
+              <select
+                value={form.repository_name ?? ''}
+                onChange={(e) => updateForm({ repository_name: e.target.value || null })}
+                className={inputClassName}
+              >
+                <option value="">Each repository</option>
+                {repos.map(repo => (
+                  <option key={repo.id} value={repo.name}>{repo.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Period</label>
+              <select
+                value={form.period}
+                onChange={(e) => updateForm({ period: e.target.value as AlertRuleInput['period'] })}
+                className={inputClassName}
+              >
+                <option value="weekly">Weekly (previous week)</option>
+                <option value="monthly">Monthly (previous month)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Metric</label>
+              <select
+                value={form.metric}
+                onChange={(e) => updateForm({ metric: e.target.value as AlertMetric })}
+                className={inputClassName}
+              >
+                {Object.entries(METRIC_LABELS).map(([metric, label]) => (
+                  <option key={metric} value={metric}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Condition</label>
+              <select
+                value={form.condition}
+                onChange={(e) => updateForm({ condition: e.target.value as AlertCondition })}
+                className={inputClassName}
+              >
+                {Object.entries(CONDITION_LABELS).map(([condition, label]) => (
+                  <option key={condition} value={condition}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Threshold</label>
+              <input
+                type="number"
+                step="any"
+                value={form.threshold}
+                onChange={(e) => updateForm({ threshold: parseFloat(e.target.value) })}
+                required
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Incoming webhook URL</label>
+            <input
+              type="url"
+              value={form.webhook_url}
+              onChange={(e) => updateForm({ webhook_url: e.target.value })}
+              placeholder="https://hooks.slack.com/services/..."
+              required
+              className={inputClassName}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => updateForm({ enabled: e.target.checked })}
+              className="w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
+            />
+            Enabled
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
+            >
+              {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+              {editingId === null ? 'Create Rule' : 'Save Changes'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setForm(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Rules */}
+      <div className="card p-6">
+        <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-6 flex items-center gap-2">
+          <Bell className="w-5 h-5 text-primary-500" />
+          Alert Rules
+        </h3>
+        {rules.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No alert rules yet.{canManage && ' Create one to get notified about drops in activity.'}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {rules.map(rule => (
+              <li
+                key={rule.id}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-2 px-4 py-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {rule.name}
+                    {!rule.enabled && (
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(disabled)</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {describeRule(rule)} · {rule.repository_name || 'each repository'}
+                    {rule.last_triggered_at && ` · Last alert ${formatDate(rule.last_triggered_at)}`}
+                  </p>
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        disabled={busy}
+                        onChange={(e) => runAction(() => updateAlertRule(rule.id, { enabled: e.target.checked }), 'Failed to update alert rule')}
+                        className="w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
+                      />
+                      Enabled
+                    </label>
+                    <button
+                      onClick={() => runAction(() => testAlertRule(rule.id), 'Failed to send test message', `Test message sent for "${rule.name}"`)}
+                      disabled={busy}
+                      className="text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                      aria-label={`Send a test message for ${rule.name}`}
+                      title="Send test message"
+                    >
+                      <Send className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => startEdit(rule)}
+                      disabled={busy}
+                      className="text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                      aria-label={`Edit ${rule.name}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      disabled={busy}
+                      className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                      aria-label={`Delete ${rule.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Recent Alerts */}
+      <div className="card p-6">
+        <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-6">
+          Recent Alerts
+        </h3>
+        {events.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No alerts have been raised.</p>
+        ) : (
+          <div className="overflow-x-auto custom-scrollbar">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="text-left py-3 px-4 font-semibold text-gray-900 dark:text-white">Raised</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-900 dark:text-white">Rule</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-900 dark:text-white">Repository</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-900 dark:text-white">Message</th>
+                  <th className="text-left py-3 px-4 font-semibold text-gray-900 dark:text-white">Delivery</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map(event => (
+                  <tr key={event.id} className="border-b border-gray-100 dark:border-gray-800">
+                    <td className="py-3 px-4 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                      {formatDate(event.created_at)}
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-900 dark:text-white">{event.rule_name}</td>
+                    <td className="py-3 px-4 text-sm text-gray-700 dark:text-gray-300">{event.repository_name}</td>
+                    <td className="py-3 px-4 text-sm text-gray-700 dark:text-gray-300">{event.message}</td>
+                    <td className="py-3 px-4 text-sm">
+                      {event.delivered ? (
+                        <span className="flex items-center gap-1 text-green-600 dark:text-green-400">
+                          <CheckCircle2 className="w-4 h-4" /> Sent
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1 text-red-600 dark:text-red-400" title={event.error || undefined}>
+                          <XCircle className="w-4 h-4" /> Failed
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Alerts;
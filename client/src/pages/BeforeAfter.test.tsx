@@ -8,6 +8,7 @@ import * as api from '../utils/api';
 vi.mock('../utils/api', () => ({
   fetchRepos: vi.fn(),
   fetchBeforeAfter: vi.fn(),
+  fetchTeams: vi.fn(() => Promise.resolve({ data: [] })),
 }));
 
 // Mock recharts to avoid rendering issues in tests
@@ -57,6 +58,8 @@ describe('BeforeAfter', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    // Filters are kept in the URL: start each test without them
+    window.history.replaceState(null, '', '/');
     vi.mocked(api.fetchRepos).mockResolvedValue({ data: mockRepos } as any);
     vi.mocked(api.fetchBeforeAfter).mockResolvedValue({ data: mockBeforeAfterData } as any);
   });
@@ -222,6 +225,57 @@ describe('BeforeAfter', () => {
     });
   });
 
+  describe('Significance', () => {
+    const estimate = (n: number, mean: number) => ({ n, mean, ci_low: mean - 2, ci_high: mean + 2 });
+
+    it('should flag each metric as significant or inconclusive with its sample sizes', async () => {
+      vi.mocked(api.fetchBeforeAfter).mockResolvedValue({
+        data: {
+          ...mockBeforeAfterData,
+          significance: {
+            avg_effective_commits_per_month: {
+              before: estimate(6, 40.8), after: estimate(6, 58.1),
+              difference: 17.3, ci_low: 12.1, ci_high: 22.5, p_value: 0.0004, significant: true,
+            },
+            avg_authors: {
+              before: estimate(6, 5), after: estimate(5, 6.5),
+              difference: 1.5, ci_low: -0.4, ci_high: 3.4, p_value: 0.11, significant: false,
+            },
+          },
+        },
+      } as any);
+      renderWithRouter(<BeforeAfter />);
+
+      fireEvent.click(screen.getByRole('button', { name: /analyze impact/i }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Statistical Significance')).toBeInTheDocument();
+      });
+      expect(screen.getByText('Significant (p = < 0.001)')).toBeInTheDocument();
+      expect(screen.getAllByText('Inconclusive').length).toBeGreaterThan(0);
+      expect(screen.getByText('n = 6 before / 5 after')).toBeInTheDocument();
+      expect(screen.getByText('17.3 [12.1, 22.5]')).toBeInTheDocument();
+      expect(screen.getByText('0.110')).toBeInTheDocument();
+    });
+  });
+
+  describe('Shared Links', () => {
+    it('should restore the filters from the URL and analyze the periods', async () => {
+      window.history.replaceState(null, '', '/before-after?repo=repo-1&beforeStart=2024-01-01&beforeEnd=2024-03-31&afterStart=2024-04-01&afterEnd=2024-06-30&weighted=false');
+      renderWithRouter(<BeforeAfter />);
+
+      await waitFor(() => {
+        expect(api.fetchBeforeAfter).toHaveBeenCalledWith('repo-1', {
+          beforeStart: '2024-01-01',
+          beforeEnd: '2024-03-31',
+          afterStart: '2024-04-01',
+          afterEnd: '2024-06-30'
+        });
+      });
+      expect(screen.getByRole('checkbox')).not.toBeChecked();
+    });
+  });
+
   describe('Empty State', () => {
     it('should show ready to analyze message before analysis', () => {
       renderWithRouter(<BeforeAfter />);
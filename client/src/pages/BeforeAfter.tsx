@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react';
 import { fetchRepos, fetchBeforeAfter } from '../utils/api';
+import { useSyncUrlFilters, useUrlFilters } from '../utils/urlFilters';
 import LoadingSpinner from '../components/LoadingSpinner';
+import TeamSelect from '../components/TeamSelect';
 import { addMonths } from '../utils/dateFormat';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Scale } from 'lucide-react';
@@ -20,9 +22,28 @@ interface PeriodData {
   avg_effective_commits_per_committer?: string;
 }
 
+interface MeanEstimate {
+  n: number;
+  mean: number | null;
+  ci_low: number | null;
+  ci_high: number | null;
+}
+
+// Welch's t-test of one metric (difference = after - before)
+interface MetricSignificance {
+  before: MeanEstimate;
+  after: MeanEstimate;
+  difference: number | null;
+  ci_low: number | null;
+  ci_high: number | null;
+  p_value: number | null;
+  significant: boolean;
+}
+
 interface BeforeAfterData {
   before: PeriodData;
   after: PeriodData;
+  significance?: Record<string, MetricSignificance>;
 }
 
 interface ChartDataPoint {
@@ -44,18 +65,61 @@ interface CustomTooltipProps {
   label?: string;
 }
 
+const formatPValue = (pValue: number | null): string => {
+  if (pValue === null) return '-';
+  return pValue < 0.001 ? '< 0.001' : pValue.toFixed(3);
+};
+
+const formatEstimate = (value: number | null, decimals: number = 1): string =>
+  value === null ? '-' : value.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+// Significance flag of a metric, with the sample sizes
+const SignificanceBadge = ({ result }: { result?: MetricSignificance }): JSX.Element | null => {
+  if (!result) return null;
+  const sizes = `n = ${result.before.n} before / ${result.after.n} after`;
+  return (
+    <div className="mt-2 flex flex-col items-center gap-1">
+      {result.significant ? (
+        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+          Significant (p = {formatPValue(result.p_value)})
+        </span>
+      ) : (
+        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+          Inconclusive
+        </span>
+      )}
+      <span className="text-xs text-gray-500 dark:text-gray-400">{sizes}</span>
+    </div>
+  );
+};
+
+// Filters kept in the URL query string
+const FILTER_DEFAULTS = { repo: 'all', team: 'all', beforeStart: '', beforeEnd: '', afterStart: '', afterEnd: '', weighted: true };
+
 const BeforeAfter = (): JSX.Element => {
+  const initialFilters = useUrlFilters(FILTER_DEFAULTS);
   const [repos, setRepos] = useState<Repository[]>([]);
-  const [selectedRepo, setSelectedRepo] = useState<string>('all');
-  const [beforeStart, setBeforeStart] = useState<string>('');
-  const [beforeEnd, setBeforeEnd] = useState<string>('');
-  const [afterStart, setAfterStart] = useState<string>('');
-  const [afterEnd, setAfterEnd] = useState<string>('');
+  const [selectedRepo, setSelectedRepo] = useState<string>(initialFilters.repo);
+  const [selectedTeam, setSelectedTeam] = useState<string>(initialFilters.team);
+  const [beforeStart, setBeforeStart] = useState<string>(initialFilters.beforeStart);
+  const [beforeEnd, setBeforeEnd] = useState<string>(initialFilters.beforeEnd);
+  const [afterStart, setAfterStart] = useState<string>(initialFilters.afterStart);
+  const [afterEnd, setAfterEnd] = useState<string>(initialFilters.afterEnd);
   const [data, setData] = useState<BeforeAfterData | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [hasAnalyzed, setHasAnalyzed] = useState<boolean>(false);
-  const [useWeightedData, setUseWeightedData] = useState<boolean>(true);
+  const [useWeightedData, setUseWeightedData] = useState<boolean>(initialFilters.weighted);
+
+  useSyncUrlFilters({
+    repo: selectedRepo,
+    team: selectedTeam,
+    beforeStart,
+    beforeEnd,
+    afterStart,
+    afterEnd,
+    weighted: useWeightedData
+  }, FILTER_DEFAULTS);
 
   // Load repositories on mount
   useEffect(() => {
@@ -69,8 +133,10 @@ const BeforeAfter = (): JSX.Element => {
       });
   }, []);
 
-  // Set default date ranges for year-over-year comparison
+  // Set default date ranges for year-over-year comparison (unless the link sets them)
   useEffect(() => {
+    if (initialFilters.beforeStart || initialFilters.beforeEnd || initialFilters.afterStart || initialFilters.afterEnd) return;
+
     // Helper function to format date as yyyy-mm-dd in local time (no timezone conversion)
     const formatLocalDate = (date: Date): string => {
       const year = date.getFullYear();
@@ -121,7 +187,8 @@ const BeforeAfter = (): JSX.Element => {
         beforeStart,
         beforeEnd,
         afterStart,
-        afterEnd
+        afterEnd,
+        ...(selectedTeam !== 'all' ? { team: selectedTeam } : {})
       });
       setData(res.data);
       setHasAnalyzed(true);
@@ -133,6 +200,13 @@ const BeforeAfter = (): JSX.Element => {
     }
   };
 
+  // Analyze the periods of a shared link right away
+  useEffect(() => {
+    if (initialFilters.beforeStart && initialFilters.beforeEnd && initialFilters.afterStart && initialFilters.afterEnd) {
+      handleAnalyze();
+    }
+  }, []);
+
   // Quick action to set After period based on Before period
   const handleQuickSetAfter = (months: number): void => {
     if (!beforeStart || !beforeEnd) {
@@ -204,6 +278,20 @@ const BeforeAfter = (): JSX.Element => {
     return parseFloat(periodData.avg_commits_per_committer) || 0;
   };
 
+  // Metrics of the comparison cards (keys of the averages and significance tests)
+  const getMetrics = (): { key: string; label: string }[] => [
+    useWeightedData
+      ? { key: 'avg_effective_commits_per_month', label: 'Eff. Commits per Month' }
+      : { key: 'avg_commits_per_month', label: 'Commits per Month' },
+    useWeightedData
+      ? { key: 'avg_weighted_lines_per_commit', label: 'Wtd. Lines per Commit' }
+      : { key: 'avg_lines_per_commit', label: 'Lines per Commit' },
+    { key: 'avg_authors', label: 'Contributors' },
+    useWeightedData
+      ? { key: 'avg_effective_commits_per_committer', label: 'Eff. Commits per Committer' }
+      : { key: 'avg_commits_per_committer', label: 'Commits per Committer' },
+  ];
+
   // Prepare chart data
   const getChartData = (): ChartDataPoint[] => {
     if (!data) return [];
@@ -293,6 +381,11 @@ const BeforeAfter = (): JSX.Element => {
                 </option>
               ))}
             </select>
+            <TeamSelect
+              value={selectedTeam}
+              onChange={setSelectedTeam}
+              className="w-full mt-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-300"
+            />
           </div>
 
           {/* Use Weighted Data Toggle */}
@@ -470,6 +563,7 @@ const BeforeAfter = (): JSX.Element => {
                   </span>
                 </div>
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">{useWeightedData ? 'Eff. Commits per Month' : 'Commits per Month'}</p>
+                <SignificanceBadge result={data.significance?.[getMetrics()[0].key]} />
               </div>
               <div className="p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg border-2 border-purple-200 dark:border-purple-800">
                 <h4 className="text-sm font-medium text-purple-900 dark:text-purple-300 mb-2">After</h4>
@@ -497,6 +591,7 @@ const BeforeAfter = (): JSX.Element => {
                   </span>
                 </div>
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">{useWeightedData ? 'Wtd. Lines per Commit' : 'Lines per Commit'}</p>
+                <SignificanceBadge result={data.significance?.[getMetrics()[1].key]} />
               </div>
               <div className="p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg border-2 border-purple-200 dark:border-purple-800">
                 <h4 className="text-sm font-medium text-purple-900 dark:text-purple-300 mb-2">After</h4>
@@ -524,6 +619,7 @@ const BeforeAfter = (): JSX.Element => {
                   </span>
                 </div>
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">Contributors</p>
+                <SignificanceBadge result={data.significance?.[getMetrics()[2].key]} />
               </div>
               <div className="p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg border-2 border-purple-200 dark:border-purple-800">
                 <h4 className="text-sm font-medium text-purple-900 dark:text-purple-300 mb-2">After</h4>
@@ -551,6 +647,7 @@ const BeforeAfter = (): JSX.Element => {
                   </span>
                 </div>
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">{useWeightedData ? 'Eff. Commits per Committer' : 'Commits per Committer'}</p>
+                <SignificanceBadge result={data.significance?.[getMetrics()[3].key]} />
               </div>
               <div className="p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg border-2 border-purple-200 dark:border-purple-800">
                 <h4 className="text-sm font-medium text-purple-900 dark:text-purple-300 mb-2">After</h4>
@@ -562,6 +659,61 @@ const BeforeAfter = (): JSX.Element => {
             </div>
           </div>
 
+          {/* Statistical Significance */}
+          {data.significance && (
+            <div className="card p-6">
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+                Statistical Significance
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                Welch's t-test of the monthly values{selectedRepo === 'all' ? ' (one sample per repository and month)' : ''}.
+                A change is significant when p &lt; 0.05; with few months per period most changes are inconclusive.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                      <th className="py-2 pr-4 font-medium">Metric</th>
+                      <th className="py-2 pr-4 font-medium text-right">Samples (before / after)</th>
+                      <th className="py-2 pr-4 font-medium text-right">Before (95% CI)</th>
+                      <th className="py-2 pr-4 font-medium text-right">After (95% CI)</th>
+                      <th className="py-2 pr-4 font-medium text-right">Difference (95% CI)</th>
+                      <th className="py-2 pr-4 font-medium text-right">p-value</th>
+                      <th className="py-2 font-medium">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {getMetrics().map(metric => {
+                      const result = data.significance?.[metric.key];
+                      if (!result) return null;
+                      return (
+                        <tr key={metric.key} className="border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white">
+                          <td className="py-2 pr-4">{metric.label}</td>
+                          <td className="py-2 pr-4 text-right">{result.before.n} / {result.after.n}</td>
+                          <td className="py-2 pr-4 text-right">
+                            {formatEstimate(result.before.mean)} [{formatEstimate(result.before.ci_low)}, {formatEstimate(result.before.ci_high)}]
+                          </td>
+                          <td className="py-2 pr-4 text-right">
+                            {formatEstimate(result.after.mean)} [{formatEstimate(result.after.ci_low)}, {formatEstimate(result.after.ci_high)}]
+                          </td>
+                          <td className="py-2 pr-4 text-right">
+                            {formatEstimate(result.difference)} [{formatEstimate(result.ci_low)}, {formatEstimate(result.ci_high)}]
+                          </td>
+                          <td className="py-2 pr-4 text-right">{formatPValue(result.p_value)}</td>
+                          <td className="py-2">
+                            <span className={result.significant ? 'font-semibold text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}>
+                              {result.significant ? 'Significant' : 'Inconclusive'}
+                            </span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
           {/* Visualization Chart */}
           <div className="card p-6">
             <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-6">
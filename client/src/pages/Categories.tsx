@@ -0,0 +1,523 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Eye, ListFilter, Loader2, Pencil, Plus, Tags, Trash2, Wand2 } from 'lucide-react';
+import {
+  fetchCategoryTaxonomy,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  createCategoryRule,
+  updateCategoryRule,
+  deleteCategoryRule,
+  recategorizeCommits,
+  TaxonomyCategoryInput,
+  CategoryRuleInput,
+  getErrorMessage,
+} from '../utils/api';
+import { useAuth } from '../contexts/AuthContext';
+import { isAdmin } from '../utils/permissions';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+interface TaxonomyCategory extends TaxonomyCategoryInput {
+  id: number;
+}
+
+interface CategoryRule extends CategoryRuleInput {
+  id: number;
+}
+
+interface RecategorizeResult {
+  dry_run: boolean;
+  scanned: number;
+  updated: number;
+  changes: { from: string | null; to: string | null; commits: number }[];
+}
+
+// Synonyms are edited as a comma-separated list
+interface CategoryForm extends Omit<TaxonomyCategoryInput, 'synonyms'> {
+  synonyms: string;
+}
+
+const EMPTY_CATEGORY: CategoryForm = {
+  name: '',
+  color: '#3b82f6',
+  parent_id: null,
+  synonyms: '',
+};
+
+const EMPTY_RULE: CategoryRuleInput = {
+  category_id: 0,
+  pattern: '',
+  position: 0,
+};
+
+const inputClassName = 'w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+const primaryButtonClassName = 'px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50';
+const secondaryButtonClassName = 'px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50';
+
+const Categories = (): JSX.Element => {
+  const { user } = useAuth();
+  const canManage = isAdmin(user);
+  const [categories, setCategories] = useState<TaxonomyCategory[]>([]);
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [categoryForm, setCategoryForm] = useState<CategoryForm | null>(null);
+  const [editingCategoryId, setEditingCategoryId] = useState<number | null>(null);
+  const [ruleForm, setRuleForm] = useState<CategoryRuleInput | null>(null);
+  const [editingRuleId, setEditingRuleId] = useState<number | null>(null);
+  const [recategorizeResult, setRecategorizeResult] = useState<RecategorizeResult | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTaxonomy = useCallback(async () => {
+    try {
+      const response = await fetchCategoryTaxonomy();
+      setCategories(response.data.categories);
+      setRules(response.data.rules);
+    } catch (err) {
+      console.error('Error loading category taxonomy:', err);
+      setError('Failed to load categories');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTaxonomy();
+  }, [loadTaxonomy]);
+
+  // Run an action, then reload the taxonomy
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+      await loadTaxonomy();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(getErrorMessage(err, failure));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const categoryName = (id: number | null): string =>
+    categories.find(category => category.id === id)?.name ?? '—';
+
+  const startCreateCategory = () => {
+    setEditingCategoryId(null);
+    setCategoryForm(EMPTY_CATEGORY);
+  };
+
+  const startEditCategory = (category: TaxonomyCategory) => {
+    setEditingCategoryId(category.id);
+    setCategoryForm({
+      name: category.name,
+      color: category.color,
+      parent_id: category.parent_id,
+      synonyms: category.synonyms.join(', '),
+    });
+  };
+
+  const handleCategorySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!categoryForm) return;
+
+    const category: TaxonomyCategoryInput = {
+      ...categoryForm,
+      synonyms: categoryForm.synonyms.split(',').map(synonym => synonym.trim()).filter(Boolean),
+    };
+    await runAction(
+      async () => {
+        if (editingCategoryId === null) {
+          await createCategory(category);
+        } else {
+          await updateCategory(editingCategoryId, category);
+        }
+        setCategoryForm(null);
+        setEditingCategoryId(null);
+      },
+      editingCategoryId === null ? 'Failed to create category' : 'Failed to update category'
+    );
+  };
+
+  const handleDeleteCategory = (category: TaxonomyCategory) => {
+    if (!window.confirm(`Delete "${category.name}" and its rules? Commits keep their category.`)) return;
+    runAction(() => deleteCategory(category.id), 'Failed to delete category');
+  };
+
+  const startCreateRule = () => {
+    setEditingRuleId(null);
+    setRuleForm({ ...EMPTY_RULE, category_id: categories[0]?.id ?? 0 });
+  };
+
+  const startEditRule = (rule: CategoryRule) => {
+    setEditingRuleId(rule.id);
+    setRuleForm({ category_id: rule.category_id, pattern: rule.pattern, position: rule.position });
+  };
+
+  const handleRuleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ruleForm) return;
+
+    await runAction(
+      async () => {
+        if (editingRuleId === null) {
+          await createCategoryRule(ruleForm);
+        } else {
+          await updateCategoryRule(editingRuleId, ruleForm);
+        }
+        setRuleForm(null);
+        setEditingRuleId(null);
+      },
+      editingRuleId === null ? 'Failed to create rule' : 'Failed to update rule'
+    );
+  };
+
+  const handleRecategorize = (dryRun: boolean) => {
+    if (!dryRun && !window.confirm('Rewrite the category of the existing commits with the current taxonomy?')) return;
+    runAction(
+      async () => setRecategorizeResult((await recategorizeCommits(dryRun)).data),
+      'Failed to re-categorize commits'
+    );
+  };
+
+  const updateCategoryForm = (changes: Partial<CategoryForm>) => {
+    setCategoryForm(current => current && { ...current, ...changes });
+  };
+
+  const updateRuleForm = (changes: Partial<CategoryRuleInput>) => {
+    setRuleForm(current => current && { ...current, ...changes });
+  };
+
+  if (!canManage) {
+    return (
+      <div className="card p-6">
+        <p className="text-sm text-gray-600 dark:text-gray-400">Only administrators can manage categories.</p>
+      </div>
+    );
+  }
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="space-y-8 fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+            Categories
+          </h2>
+          <p className="text-gray-600 dark:text-gray-400">
+            Canonical categories, their synonyms and the rules that categorize commit subjects
+          </p>
+        </div>
+        <button onClick={startCreateCategory} disabled={busy} className={primaryButtonClassName}>
+          <Plus className="w-4 h-4" />
+          New Category
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {/* Category Form */}
+      {categoryForm && (
+        <form onSubmit={handleCategorySubmit} className="card p-6 space-y-4">
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white">
+            {editingCategoryId === null ? 'New Category' : 'Edit Category'}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Name</label>
+              <input
+                type="text"
+                value={categoryForm.name}
+                onChange={(e) => updateCategoryForm({ name: e.target.value })}
+                placeholder="e.g. BILLING"
+                required
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Color</label>
+              <input
+                type="color"
+                value={categoryForm.color}
+                onChange={(e) => updateCategoryForm({ color: e.target.value })}
+                className="h-10 w-20 bg-transparent cursor-pointer"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Parent</label>
+              <select
+                value={categoryForm.parent_id ?? ''}
+                onChange={(e) => updateCategoryForm({ parent_id: e.target.value ? Number(e.target.value) : null })}
+                className={inputClassName}
+              >
+                <option value="">None</option>
+                {categories
+                  .filter(category => category.id !== editingCategoryId)
+                  .map(category => (
+                    <option key={category.id} value={category.id}>{category.name}</option>
+                  ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Synonyms</label>
+            <input
+              type="text"
+              value={categoryForm.synonyms}
+              onChange={(e) => updateCategoryForm({ synonyms: e.target.value })}
+              placeholder="e.g. BILL, PAYMENTS"
+              className={inputClassName}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Comma-separated; commits with one of these categories are counted under this category
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button type="submit" disabled={busy} className={primaryButtonClassName}>
+              {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+              {editingCategoryId === null ? 'Create Category' : 'Save Changes'}
+            </button>
+            <button type="button" onClick={() => setCategoryForm(null)} className={secondaryButtonClassName}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Categories */}
+      <div className="card p-6">
+        <h3 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2 mb-6">
+          <Tags className="w-5 h-5 text-primary-500" />
+          All Categories
+        </h3>
+        {categories.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No categories yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-4 font-medium">Name</th>
+                  <th className="py-2 pr-4 font-medium">Parent</th>
+                  <th className="py-2 pr-4 font-medium">Synonyms</th>
+                  <th className="py-2 pr-4 font-medium text-right">Rules</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {categories.map(category => (
+                  <tr key={category.id} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-900 dark:text-white">
+                    <td className="py-3 pr-4">
+                      <span className="flex items-center gap-2 font-medium">
+                        <span className="w-3 h-3 rounded-full" style={{ backgroundColor: category.color }} />
+                        {category.name}
+                      </span>
+                    </td>
+                    <td className="py-3 pr-4">{categoryName(category.parent_id)}</td>
+                    <td className="py-3 pr-4 text-gray-600 dark:text-gray-400">{category.synonyms.join(', ') || '—'}</td>
+                    <td className="py-3 pr-4 text-right">{rules.filter(rule => rule.category_id === category.id).length}</td>
+                    <td className="py-3">
+                      <div className="flex items-center justify-end gap-3">
+                        <button
+                          onClick={() => startEditCategory(category)}
+                          disabled={busy}
+                          className="text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                          aria-label={`Edit ${category.name}`}
+                          title="Edit"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteCategory(category)}
+                          disabled={busy}
+                          className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                          aria-label={`Delete ${category.name}`}
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Rules */}
+      <div className="card p-6 space-y-4">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <ListFilter className="w-5 h-5 text-primary-500" />
+              Rules
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Regular expressions matched against commit subjects (case-insensitive), lowest position first. Subjects without a matching rule are categorized by their prefix.
+            </p>
+          </div>
+          <button onClick={startCreateRule} disabled={busy || categories.length === 0} className={primaryButtonClassName}>
+            <Plus className="w-4 h-4" />
+            New Rule
+          </button>
+        </div>
+
+        {ruleForm && (
+          <form onSubmit={handleRuleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Pattern</label>
+              <input
+                type="text"
+                value={ruleForm.pattern}
+                onChange={(e) => updateRuleForm({ pattern: e.target.value })}
+                placeholder="e.g. invoice|refund"
+                required
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Category</label>
+              <select
+                value={ruleForm.category_id}
+                onChange={(e) => updateRuleForm({ category_id: Number(e.target.value) })}
+                className={inputClassName}
+              >
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Position</label>
+              <input
+                type="number"
+                value={ruleForm.position}
+                onChange={(e) => updateRuleForm({ position: parseInt(e.target.value, 10) || 0 })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex gap-2 md:col-span-4">
+              <button type="submit" disabled={busy} className={primaryButtonClassName}>
+                {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+                {editingRuleId === null ? 'Create Rule' : 'Save Changes'}
+              </button>
+              <button type="button" onClick={() => setRuleForm(null)} className={secondaryButtonClassName}>
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No rules yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-4 font-medium text-right">Position</th>
+                  <th className="py-2 pr-4 font-medium">Pattern</th>
+                  <th className="py-2 pr-4 font-medium">Category</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map(rule => (
+                  <tr key={rule.id} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-900 dark:text-white">
+                    <td className="py-3 pr-4 text-right">{rule.position}</td>
+                    <td className="py-3 pr-4 font-mono text-xs">{rule.pattern}</td>
+                    <td className="py-3 pr-4">{categoryName(rule.category_id)}</td>
+                    <td className="py-3">
+                      <div className="flex items-center justify-end gap-3">
+                        <button
+                          onClick={() => startEditRule(rule)}
+                          disabled={busy}
+                          className="text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                          aria-label={`Edit rule ${rule.pattern}`}
+                          title="Edit"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => runAction(() => deleteCategoryRule(rule.id), 'Failed to delete rule')}
+                          disabled={busy}
+                          className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                          aria-label={`Delete rule ${rule.pattern}`}
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Re-categorize */}
+      <div className="card p-6 space-y-4">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <Wand2 className="w-5 h-5 text-primary-500" />
+            Re-categorize Commits
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            New commits are categorized with the taxonomy as they are ingested. Apply it to the existing commits here; categories edited from the dashboard are kept, under their canonical name.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => handleRecategorize(true)} disabled={busy} className={secondaryButtonClassName}>
+            <Eye className="w-4 h-4" />
+            Preview
+          </button>
+          <button onClick={() => handleRecategorize(false)} disabled={busy} className={primaryButtonClassName}>
+            {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+            Re-categorize
+          </button>
+        </div>
+
+        {recategorizeResult && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {recategorizeResult.dry_run ? 'Would change' : 'Changed'} the category of {recategorizeResult.updated.toLocaleString()} of {recategorizeResult.scanned.toLocaleString()} commits
+            </p>
+            {recategorizeResult.changes.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-2 pr-4 font-medium">From</th>
+                      <th className="py-2 pr-4 font-medium">To</th>
+                      <th className="py-2 font-medium text-right">Commits</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {recategorizeResult.changes.map(change => (
+                      <tr key={`${change.from}→${change.to}`} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-900 dark:text-white">
+                        <td className="py-2 pr-4">{change.from ?? '—'}</td>
+                        <td className="py-2 pr-4">{change.to ?? '—'}</td>
+                        <td className="py-2 text-right">{change.commits.toLocaleString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Categories;
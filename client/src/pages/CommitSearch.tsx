@@ -1,27 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Filter, Edit2, X, Save, Loader2 } from 'lucide-react';
-import { searchCommits, updateCommit, fetchRepos } from '../utils/api';
+import { Search, Filter, Edit2, X, Save, Loader2, ListChecks } from 'lucide-react';
+import { searchCommits, updateCommit, bulkUpdateCommits, fetchRepos, getErrorMessage, Commit } from '../utils/api';
 import { useAuth } from '../contexts/AuthContext';
+import { canEditCommit, isAdmin } from '../utils/permissions';
 import WeightBadge from '../components/WeightBadge';
 import CommitDescription from '../components/CommitDescription';
+import CommitEditHistory from '../components/CommitEditHistory';
+import BulkEditCommitsModal, { BulkEditScope, BulkEditChanges } from '../components/BulkEditCommitsModal';
+import DownloadButton from '../components/DownloadButton';
 
 
-interface Commit {
-  id: number;
-  hash: string;
-  subject: string;
-  description: string | null;
-  author_name: string;
-  author_email: string;
-  commit_date: string;
-  category: string;
-  weight: number;
-  ai_tools: string;
-  lines_added: number;
-  lines_deleted: number;
-  repository_name: string;
-}
-
 interface Repo {
   id: number;
   name: string;
@@ -53,6 +41,12 @@ const CommitSearch = () => {
   });
   const [saving, setSaving] = useState(false);
 
+  // Bulk Edit State
+  const [selectedHashes, setSelectedHashes] = useState<Set<string>>(new Set());
+  const [lastSearchParams, setLastSearchParams] = useState(searchParams);
+  const [isBulkModalOpen, setIsBulkModalOpen] = useState(false);
+  const [bulkMessage, setBulkMessage] = useState<string | null>(null);
+
   useEffect(() => {
     loadRepos();
   }, []);
@@ -72,6 +66,9 @@ const CommitSearch = () => {
     try {
       const response = await searchCommits(searchParams);
       setCommits(response.data);
+      setLastSearchParams(searchParams);
+      setSelectedHashes(new Set());
+      setBulkMessage(null);
     } catch (error) {
       console.error('Error searching commits:', error);
     } finally {
@@ -90,6 +87,61 @@ const CommitSearch = () => {
     setIsModalOpen(true);
   };
 
+  const editableCommits = commits.filter(c => canEditCommit(user, c.author_email));
+  const allEditableSelected = editableCommits.length > 0 && editableCommits.every(c => selectedHashes.has(c.hash));
+
+  const toggleSelected = (hash: string) => {
+    setSelectedHashes(prev => {
+      const next = new Set(prev);
+      if (next.has(hash)) {
+        next.delete(hash);
+      } else {
+        next.add(hash);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedHashes(allEditableSelected ? new Set() : new Set(editableCommits.map(c => c.hash)));
+  };
+
+  const handleBulkApply = async (scope: BulkEditScope, changes: BulkEditChanges) => {
+    try {
+      const response = await bulkUpdateCommits(
+        scope === 'selected'
+          ? { hashes: Array.from(selectedHashes), changes: changes as Record<string, string | number> }
+          : { filters: lastSearchParams, changes: changes as Record<string, string | number> }
+      );
+
+      const updatedByHash = new Map<string, Partial<Commit>>(
+        response.data.commits.map((c: Commit) => [c.hash, c])
+      );
+      setCommits(prev => prev.map(c =>
+        updatedByHash.has(c.hash) ? { ...c, ...updatedByHash.get(c.hash) } : c
+      ));
+      setSelectedHashes(new Set());
+      setBulkMessage(`Updated ${response.data.updated} commit${response.data.updated === 1 ? '' : 's'}`);
+      setIsBulkModalOpen(false);
+    } catch (error) {
+      console.error('Error bulk updating commits:', error);
+      alert(getErrorMessage(error, 'Failed to update commits'));
+    }
+  };
+
+  const handleReverted = (updated: Commit) => {
+    setCommits(prev => prev.map(c =>
+      c.hash === updated.hash ? { ...c, ...updated } : c
+    ));
+    setEditingCommit(prev => prev ? { ...prev, ...updated } : prev);
+    setEditForm({
+      subject: updated.subject,
+      category: updated.category || '',
+      weight: updated.weight,
+      ai_tools: updated.ai_tools || ''
+    });
+  };
+
   const handleUpdate = async () => {
     if (!editingCommit) return;
     setSaving(true);
@@ -104,7 +156,7 @@ const CommitSearch = () => {
       setIsModalOpen(false);
     } catch (error) {
       console.error('Error updating commit:', error);
-      alert('Failed to update commit');
+      alert(getErrorMessage(error, 'Failed to update commit'));
     } finally {
       setSaving(false);
     }
@@ -112,9 +164,13 @@ const CommitSearch = () => {
 
   return (
     <div className="p-6 max-w-7xl mx-auto">
-      <div className="mb-8">
-        <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Commit Search</h1>
-        <p className="text-gray-600 dark:text-gray-400">Search and manage commit details</p>
+      <div className="mb-8 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Commit Search</h1>
+          <p className="text-gray-600 dark:text-gray-400">Search and manage commit details</p>
+        </div>
+        {/* Exports every commit matching the last executed search */}
+        <DownloadButton path="/commits" params={lastSearchParams} />
       </div>
 
       {/* Search Filters */}
@@ -205,12 +261,38 @@ const CommitSearch = () => {
         </form>
       </div>
 
+      {/* Bulk Actions */}
+      {(selectedHashes.size > 0 || (isAdmin(user) && commits.length > 0) || bulkMessage) && (
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {bulkMessage || `${selectedHashes.size} commit${selectedHashes.size === 1 ? '' : 's'} selected`}
+          </p>
+          <button
+            onClick={() => setIsBulkModalOpen(true)}
+            disabled={selectedHashes.size === 0 && !isAdmin(user)}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <ListChecks className="w-4 h-4" />
+            Bulk Edit
+          </button>
+        </div>
+      )}
+
       {/* Results Table */}
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full text-left border-collapse">
             <thead>
               <tr className="bg-gray-50 dark:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
+                <th className="px-4 py-4 w-10">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all editable commits"
+                    checked={allEditableSelected}
+                    disabled={editableCommits.length === 0}
+                    onChange={toggleSelectAll}
+                  />
+                </th>
                 <th className="px-6 py-4 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Date</th>
                 <th className="px-6 py-4 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Repository</th>
                 <th className="px-6 py-4 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Author</th>
@@ -224,13 +306,23 @@ const CommitSearch = () => {
             <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
               {commits.length === 0 ? (
                 <tr>
-                  <td colSpan={8} className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
+                  <td colSpan={9} className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
                     No commits found. Try adjusting your filters.
                   </td>
                 </tr>
               ) : (
                 commits.map((commit) => (
                   <tr key={commit.hash} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                    <td className="px-4 py-4">
+                      {canEditCommit(user, commit.author_email) && (
+                        <input
+                          type="checkbox"
+                          aria-label={`Select commit ${commit.hash.substring(0, 7)}`}
+                          checked={selectedHashes.has(commit.hash)}
+                          onChange={() => toggleSelected(commit.hash)}
+                        />
+                      )}
+                    </td>
                     <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-300 whitespace-nowrap">
                       {new Date(commit.commit_date).toLocaleDateString()}
                     </td>
@@ -254,7 +346,7 @@ const CommitSearch = () => {
                       {commit.hash.substring(0, 7)}
                     </td>
                     <td className="px-6 py-4 text-right">
-                      {user?.email === commit.author_email && (
+                      {canEditCommit(user, commit.author_email) && (
                         <button
                           onClick={() => openEditModal(commit)}
                           className="p-2 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors rounded-full hover:bg-blue-50 dark:hover:bg-blue-900/20"
@@ -286,7 +378,7 @@ const CommitSearch = () => {
               </button>
             </div>
 
-            <div className="p-6 space-y-4">
+            <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
               <div>
                 <label htmlFor="edit-subject" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Subject</label>
                 <input
@@ -334,6 +426,14 @@ const CommitSearch = () => {
                   Indicate one or more tools separated by a comma
                 </p>
               </div>
+
+              {editingCommit && (
+                <CommitEditHistory
+                  hash={editingCommit.hash}
+                  canRevert={canEditCommit(user, editingCommit.author_email)}
+                  onReverted={handleReverted}
+                />
+              )}
             </div>
 
             <div className="px-6 py-4 bg-gray-50 dark:bg-gray-700/50 flex justify-end gap-3">
@@ -355,6 +455,16 @@ const CommitSearch = () => {
           </div>
         </div>
       )}
+
+      {/* Bulk Edit Modal */}
+      {isBulkModalOpen && (
+        <BulkEditCommitsModal
+          selectedCount={selectedHashes.size}
+          canApplyToFilters={isAdmin(user)}
+          onClose={() => setIsBulkModalOpen(false)}
+          onApply={handleBulkApply}
+        />
+      )}
     </div>
   );
 };
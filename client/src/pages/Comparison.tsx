@@ -1,8 +1,10 @@
 import { useEffect, useState } from 'react';
 import { Scale } from 'lucide-react';
 import { fetchCompareRepos } from '../utils/api';
+import { useSyncUrlFilters, useUrlFilters } from '../utils/urlFilters';
 import LoadingSpinner from '../components/LoadingSpinner';
 import StatCard from '../components/StatCard';
+import DownloadButton from '../components/DownloadButton';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
 import CountUp from 'react-countup';
 
@@ -17,8 +19,17 @@ interface RepoComparisonData {
   months_active: number;
   avg_authors_per_month: string;
   avg_lines_per_commit: string;
+  // DORA metrics of the production deployments (null without deployments or incidents)
+  deployments_per_week: string | null;
+  median_lead_time_hours: string | null;
+  change_failure_rate_pct: string | null;
+  mttr_hours: string | null;
 }
 
+// DORA values with one decimal and a unit, or a dash when missing
+const formatDoraValue = (value: string | null, unit: string): string =>
+  value === null ? '-' : `${parseFloat(value).toFixed(1)}${unit}`;
+
 interface SortConfig {
   key: keyof RepoComparisonData;
   direction: 'asc' | 'desc';
@@ -36,12 +47,18 @@ interface CustomTooltipProps {
   payload?: TooltipPayload[];
 }
 
+// Filters kept in the URL query string
+const FILTER_DEFAULTS = { weighted: true };
+
 const Comparison = (): JSX.Element => {
+  const initialFilters = useUrlFilters(FILTER_DEFAULTS);
   const [data, setData] = useState<RepoComparisonData[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'total_commits', direction: 'desc' });
   const [error, setError] = useState<string | null>(null);
-  const [useWeightedData, setUseWeightedData] = useState<boolean>(true);
+  const [useWeightedData, setUseWeightedData] = useState<boolean>(initialFilters.weighted);
+
+  useSyncUrlFilters({ weighted: useWeightedData }, FILTER_DEFAULTS);
 
   useEffect(() => {
     fetchCompareRepos()
@@ -156,7 +173,7 @@ const Comparison = (): JSX.Element => {
             Compare repositories side-by-side across key metrics (last 6 months)
           </p>
         </div>
-        <div>
+        <div className="flex flex-col sm:flex-row gap-3">
           {/* Use Weighted Data Checkbox */}
           <label className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 transition-all duration-300">
             <input
@@ -168,6 +185,7 @@ const Comparison = (): JSX.Element => {
             <Scale className="w-4 h-4" />
             <span className="text-sm font-medium whitespace-nowrap">Use Weighted Data</span>
           </label>
+          <DownloadButton path="/compare-repos" />
         </div>
       </div>
 
@@ -385,6 +403,30 @@ const Comparison = (): JSX.Element => {
                 >
                   Avg Lines/Commit {sortConfig.key === 'avg_lines_per_commit' && (sortConfig.direction === 'desc' ? '↓' : '↑')}
                 </th>
+                <th
+                  className="text-right py-3 px-4 font-semibold text-gray-900 dark:text-white cursor-pointer hover:text-blue-500 transition-colors"
+                  onClick={() => handleSort('deployments_per_week')}
+                >
+                  Deploys/Week {sortConfig.key === 'deployments_per_week' && (sortConfig.direction === 'desc' ? '↓' : '↑')}
+                </th>
+                <th
+                  className="text-right py-3 px-4 font-semibold text-gray-900 dark:text-white cursor-pointer hover:text-blue-500 transition-colors"
+                  onClick={() => handleSort('median_lead_time_hours')}
+                >
+                  Median Lead Time {sortConfig.key === 'median_lead_time_hours' && (sortConfig.direction === 'desc' ? '↓' : '↑')}
+                </th>
+                <th
+                  className="text-right py-3 px-4 font-semibold text-gray-900 dark:text-white cursor-pointer hover:text-blue-500 transition-colors"
+                  onClick={() => handleSort('change_failure_rate_pct')}
+                >
+                  Change Failure Rate {sortConfig.key === 'change_failure_rate_pct' && (sortConfig.direction === 'desc' ? '↓' : '↑')}
+                </th>
+                <th
+                  className="text-right py-3 px-4 font-semibold text-gray-900 dark:text-white cursor-pointer hover:text-blue-500 transition-colors"
+                  onClick={() => handleSort('mttr_hours')}
+                >
+                  MTTR {sortConfig.key === 'mttr_hours' && (sortConfig.direction === 'desc' ? '↓' : '↑')}
+                </th>
                 <th className="text-right py-3 px-4 font-semibold text-gray-900 dark:text-white">
                   Relative Activity
                 </th>
@@ -417,6 +459,18 @@ const Comparison = (): JSX.Element => {
                     <td className="py-3 px-4 text-right text-gray-700 dark:text-gray-300">
                       <CountUp end={parseFloat(repo.avg_lines_per_commit)} duration={1.5} decimals={0} />
                     </td>
+                    <td className="py-3 px-4 text-right text-gray-700 dark:text-gray-300">
+                      {formatDoraValue(repo.deployments_per_week, '')}
+                    </td>
+                    <td className="py-3 px-4 text-right text-gray-700 dark:text-gray-300">
+                      {formatDoraValue(repo.median_lead_time_hours, ' h')}
+                    </td>
+                    <td className="py-3 px-4 text-right text-gray-700 dark:text-gray-300">
+                      {formatDoraValue(repo.change_failure_rate_pct, '%')}
+                    </td>
+                    <td className="py-3 px-4 text-right text-gray-700 dark:text-gray-300">
+                      {formatDoraValue(repo.mttr_hours, ' h')}
+                    </td>
                     <td className="py-3 px-4 text-right">
                       <div className="flex items-center justify-end gap-2">
                         <div className="flex-1 max-w-[100px] bg-gray-200 dark:bg-gray-700 rounded-full h-2 overflow-hidden">
@@ -437,7 +491,7 @@ const Comparison = (): JSX.Element => {
           </table>
         </div>
         <p className="text-sm text-gray-500 dark:text-gray-400 mt-4">
-          Click column headers to sort. Relative activity based on total commits.
+          Click column headers to sort. Relative activity based on total commits. DORA metrics cover the production deployments of the same months.
         </p>
       </div>
     </div>
@@ -1,9 +1,18 @@
 import { useEffect, useState } from 'react';
 import { Scale } from 'lucide-react';
-import { fetchRepos, fetchCategories, fetchCategoryTrends, fetchCategoryByRepo } from '../utils/api';
+import { fetchRepos, fetchCategories, fetchCategoryTrends, fetchCategoryByRepo, fetchCategoryTaxonomy } from '../utils/api';
+import { useSyncUrlFilters, useUrlFilters } from '../utils/urlFilters';
+import { DATE_RANGE_FILTER_DEFAULTS, toDateRangeFilters } from '../utils/dateRange';
+import { useDateRange } from '../contexts/DateRangeContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import RepoSelect from '../components/RepoSelect';
+import TeamSelect from '../components/TeamSelect';
+import DateRangeSelect from '../components/DateRangeSelect';
 import StatCard from '../components/StatCard';
 import WeightBadge from '../components/WeightBadge';
+import DownloadButton from '../components/DownloadButton';
+import IssueEffort from '../components/IssueEffort';
+import CategoryBreadcrumbs from '../components/CategoryBreadcrumbs';
 import {
   PieChart, Pie, Cell,
   BarChart, Bar,
@@ -24,6 +33,8 @@ interface CategoryData {
   weight_efficiency_pct?: string | number;
   total_lines_changed: string;
   unique_authors: string;
+  /** The category has sub-categories to drill into */
+  has_children?: boolean;
 }
 
 interface TrendData {
@@ -47,6 +58,11 @@ interface RepoMatrixData {
   total_lines_changed: string;
 }
 
+interface TaxonomyCategory {
+  name: string;
+  color: string;
+}
+
 interface DonutDataPoint {
   name: string;
   value: number;
@@ -89,62 +105,42 @@ interface DonutTooltipProps {
   payload?: TooltipPayload[];
 }
 
+// Commits without a category are always shown in gray
+const UNCATEGORIZED_COLORS: Record<string, string> = { UNCATEGORIZED: '#6b7280' };
+
+// Filters kept in the URL query string
+const FILTER_DEFAULTS = { repo: [] as string[], team: 'all', ...DATE_RANGE_FILTER_DEFAULTS, months: 12, metric: 'commits', weighted: true, category: [] as string[] };
+
 const ContentAnalysis = (): JSX.Element => {
+  const initialFilters = useUrlFilters(FILTER_DEFAULTS);
   const [repos, setRepos] = useState<Repository[]>([]);
-  const [selectedRepo, setSelectedRepo] = useState<string>('all');
-  const [dateFrom, setDateFrom] = useState<string>('');
-  const [dateTo, setDateTo] = useState<string>('');
+  const [selectedRepos, setSelectedRepos] = useState<string[]>(initialFilters.repo);
+  const [selectedTeam, setSelectedTeam] = useState<string>(initialFilters.team);
   const [categoryData, setCategoryData] = useState<CategoryData[]>([]);
   const [fullCategoryData, setFullCategoryData] = useState<CategoryData[]>([]); // For de-prioritized categories
   const [trendData, setTrendData] = useState<TrendData[]>([]);
   const [repoMatrixData, setRepoMatrixData] = useState<RepoMatrixData[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [dataLoading, setDataLoading] = useState<boolean>(false);
-  const [monthsToShow, setMonthsToShow] = useState<number>(12);
-  const [showMetric, setShowMetric] = useState<'commits' | 'loc'>('commits');
+  const [monthsToShow, setMonthsToShow] = useState<number>(initialFilters.months);
+  const [showMetric, setShowMetric] = useState<'commits' | 'loc'>(initialFilters.metric === 'loc' ? 'loc' : 'commits');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [useWeightedData, setUseWeightedData] = useState<boolean>(true);
-
-  // Category colors - consistent across all charts
-  const categoryColors: Record<string, string> = {
-    'BILLING': '#3b82f6',
-    'CS': '#8b5cf6',
-    'INFRA': '#10b981',
-    'AUTH': '#f59e0b',
-    'API': '#ef4444',
-    'UI': '#ec4899',
-    'DOCS': '#06b6d4',
-    'SECURITY': '#f43f5e',
-    'PERFORMANCE': '#14b8a6',
-    'UNCATEGORIZED': '#6b7280'
-  };
+  const [useWeightedData, setUseWeightedData] = useState<boolean>(initialFilters.weighted);
+  // Categories drilled into, from the top level down (the last one is the parent of the shown categories)
+  const [categoryPath, setCategoryPath] = useState<string[]>(initialFilters.category);
+  const parentCategory = categoryPath.length > 0 ? categoryPath[categoryPath.length - 1] : null;
+  const { selection, range: { dateFrom, dateTo } } = useDateRange();
+
+  useSyncUrlFilters({ repo: selectedRepos, team: selectedTeam, ...toDateRangeFilters(selection), months: monthsToShow, metric: showMetric, weighted: useWeightedData, category: categoryPath }, FILTER_DEFAULTS);
+
+  // Category colors from the taxonomy - consistent across all charts
+  const [categoryColors, setCategoryColors] = useState<Record<string, string>>(UNCATEGORIZED_COLORS);
 
   // Get color for a category (with fallback)
   const getCategoryColor = (category: string, index: number): string => {
     return categoryColors[category] || `hsl(${index * 40}, 70%, 50%)`;
   };
 
-  // Set default date range (previous month)
-  useEffect(() => {
-    const formatLocalDate = (date: Date): string => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    };
-
-    const today = new Date();
-
-    // First day of previous month
-    const firstDayPrevMonth = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-
-    // Last day of previous month (day 0 of current month = last day of previous month)
-    const lastDayPrevMonth = new Date(today.getFullYear(), today.getMonth(), 0);
-
-    setDateFrom(formatLocalDate(firstDayPrevMonth));
-    setDateTo(formatLocalDate(lastDayPrevMonth));
-  }, []);
-
   // Load repositories on mount
   useEffect(() => {
     fetchRepos()
@@ -156,17 +152,22 @@ const ContentAnalysis = (): JSX.Element => {
         console.error('Error fetching repositories:', err);
         setLoading(false);
       });
+
+    fetchCategoryTaxonomy()
+      .then(res => {
+        const colors = Object.fromEntries(res.data.categories.map((c: TaxonomyCategory) => [c.name, c.color]));
+        setCategoryColors({ ...colors, ...UNCATEGORIZED_COLORS });
+      })
+      .catch(err => console.error('Error fetching category taxonomy:', err));
   }, []);
 
   // Fetch category data when filters change
   useEffect(() => {
-    if (!dateFrom || !dateTo) return;
-
     setDataLoading(true);
     Promise.all([
-      fetchCategories(selectedRepo, dateFrom, dateTo),
-      fetchCategoryTrends(monthsToShow, selectedRepo),
-      fetchCategoryByRepo(dateFrom, dateTo)
+      fetchCategories(selectedRepos, dateFrom, dateTo, selectedTeam, parentCategory),
+      fetchCategoryTrends(monthsToShow, selectedRepos, parentCategory),
+      fetchCategoryByRepo(dateFrom, dateTo, parentCategory)
     ])
       .then(([categoriesRes, trendsRes, repoMatrixRes]) => {
         // Filter out UNCATEGORIZED
@@ -199,23 +200,7 @@ const ContentAnalysis = (): JSX.Element => {
         console.error('Error fetching category data:', err);
         setDataLoading(false);
       });
-  }, [selectedRepo, dateFrom, dateTo, monthsToShow]);
-
-  // Quick action buttons to set date ranges
-  const handleQuickDateRange = (months: number): void => {
-    const formatLocalDate = (date: Date): string => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    };
-
-    const today = new Date();
-    const startDate = new Date(today.getFullYear(), today.getMonth() - months, today.getDate());
-
-    setDateFrom(formatLocalDate(startDate));
-    setDateTo(formatLocalDate(today));
-  };
+  }, [selectedRepos, selectedTeam, dateFrom, dateTo, monthsToShow, parentCategory]);
 
   // Calculate stats for StatCards (categoryData is already filtered)
   const totalCategories = categoryData.length;
@@ -361,11 +346,24 @@ const ContentAnalysis = (): JSX.Element => {
     return null;
   };
 
-  // Handle pie chart click
+  // Go to a level of the category hierarchy (0 for the top level)
+  const navigateCategoryLevel = (depth: number): void => {
+    setCategoryPath(categoryPath.slice(0, depth));
+    setSelectedCategory(null);
+  };
+
+  // Handle pie chart click: drill into categories with sub-categories, highlight the others
   const handlePieClick = (data: DonutDataPoint): void => {
+    if (categoryData.find(c => c.category === data.name)?.has_children) {
+      setCategoryPath([...categoryPath, data.name]);
+      setSelectedCategory(null);
+      return;
+    }
     setSelectedCategory(selectedCategory === data.name ? null : data.name);
   };
 
+  const canDrillDown = categoryData.some(c => c.has_children);
+
   if (loading) {
     return <LoadingSpinner />;
   }
@@ -388,71 +386,29 @@ const ContentAnalysis = (): JSX.Element => {
           {/* Repository Selector */}
           <div className="flex-1">
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Repository
+              Repositories
             </label>
-            <select
-              value={selectedRepo}
-              onChange={(e) => setSelectedRepo(e.target.value)}
+            <RepoSelect
+              repos={repos}
+              value={selectedRepos}
+              onChange={setSelectedRepos}
               className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-            >
-              <option value="all">All Repositories</option>
-              {repos.map(repo => (
-                <option key={repo.id} value={repo.name}>{repo.name}</option>
-              ))}
-            </select>
-          </div>
+            />
 
-          {/* Date Range Pickers */}
-          <div className="flex-1">
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              From
-            </label>
-            <input
-              type="date"
-              value={dateFrom}
-              onChange={(e) => setDateFrom(e.target.value)}
-              className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            {/* Team Selector */}
+            <TeamSelect
+              value={selectedTeam}
+              onChange={setSelectedTeam}
+              className="w-full mt-2 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
             />
           </div>
 
+          {/* Date Range Selector (shared by all pages) */}
           <div className="flex-1">
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              To
+              Period
             </label>
-            <input
-              type="date"
-              value={dateTo}
-              onChange={(e) => setDateTo(e.target.value)}
-              className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-            />
-          </div>
-
-          {/* Quick Action Buttons */}
-          <div className="flex gap-2">
-            <button
-              onClick={() => handleQuickDateRange(1)}
-              className="px-3 py-2 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 rounded-lg hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors text-sm whitespace-nowrap"
-            >
-              Last Month
-            </button>
-            <button
-              onClick={() => handleQuickDateRange(3)}
-              className="px-3 py-2 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 rounded-lg hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors text-sm whitespace-nowrap"
-            >
-              Last Quarter
-            </button>
-            <button
-              onClick={() => handleQuickDateRange(6)}
-              className="px-3 py-2 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 rounded-lg hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors text-sm whitespace-nowrap"
-            >
-              6 Months
-            </button>
-            <button
-              onClick={() => handleQuickDateRange(12)}
-              className="px-3 py-2 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 rounded-lg hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors text-sm whitespace-nowrap"
-            >
-              Year
-            </button>
+            <DateRangeSelect />
           </div>
 
           {/* Use Weighted Data Checkbox */}
@@ -469,6 +425,11 @@ const ContentAnalysis = (): JSX.Element => {
         </div>
       </div>
 
+      {/* Category Hierarchy Breadcrumbs */}
+      {(categoryPath.length > 0 || canDrillDown) && (
+        <CategoryBreadcrumbs path={categoryPath} onNavigate={navigateCategoryLevel} />
+      )}
+
       {/* StatCards */}
       {!dataLoading && categoryData.length > 0 && (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -537,9 +498,14 @@ const ContentAnalysis = (): JSX.Element => {
                 </h3>
                 <p className="text-sm text-gray-600 dark:text-gray-400">
                   Distribution of commits across business domains
+                  {canDrillDown && ' • Click a category to see its sub-categories'}
                   {selectedCategory && ` • Filtered: ${selectedCategory}`}
                 </p>
               </div>
+              <DownloadButton
+                path="/categories"
+                params={{ repo: selectedRepos, team: selectedTeam, dateFrom, dateTo, parent: parentCategory }}
+              />
             </div>
             <ResponsiveContainer width="100%" height={400}>
               <PieChart>
@@ -725,6 +691,10 @@ const ContentAnalysis = (): JSX.Element => {
                   Domain ownership patterns across repositories
                 </p>
               </div>
+              <DownloadButton
+                path="/category-by-repo"
+                params={{ dateFrom, dateTo, parent: parentCategory }}
+              />
             </div>
             <ResponsiveContainer width="100%" height={400}>
               <BarChart data={repoMatrixChartData}>
@@ -765,6 +735,17 @@ const ContentAnalysis = (): JSX.Element => {
         </>
       )}
 
+      {/* Effort by Epic and Issue Type (commits linked to imported issues) */}
+      {!dataLoading && (
+        <IssueEffort
+          repos={selectedRepos}
+          team={selectedTeam}
+          dateFrom={dateFrom}
+          dateTo={dateTo}
+          weighted={useWeightedData}
+        />
+      )}
+
       {/* Weight Impact Section */}
       {!dataLoading && categoryData.length > 0 && (() => {
         // Calculate weight impact metrics using FULL category data (not limited to top 15)
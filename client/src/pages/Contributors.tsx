@@ -1,7 +1,14 @@
 import { useEffect, useState } from 'react';
 import { Scale } from 'lucide-react';
-import { fetchContributors, fetchRepos, fetchContributorsDateRange } from '../utils/api';
+import { fetchContributors, fetchRepos } from '../utils/api';
+import { useSyncUrlFilters, useUrlFilters } from '../utils/urlFilters';
+import { DATE_RANGE_FILTER_DEFAULTS, toDateRangeFilters } from '../utils/dateRange';
+import { useDateRange } from '../contexts/DateRangeContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import RepoSelect from '../components/RepoSelect';
+import TeamSelect from '../components/TeamSelect';
+import DateRangeSelect from '../components/DateRangeSelect';
+import DownloadButton from '../components/DownloadButton';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 
 interface Repository {
@@ -9,11 +16,6 @@ interface Repository {
   name: string;
 }
 
-interface DateRange {
-  min_date: string | null;
-  max_date: string | null;
-}
-
 interface Contributor {
   author_name: string;
   author_email: string;
@@ -27,51 +29,43 @@ interface Contributor {
   avg_lines_changed_per_commit: number;
 }
 
-interface DateOption {
-  value: string;
-  label: string;
-}
+// Filters kept in the URL query string
+const FILTER_DEFAULTS = { limit: 20, repo: [] as string[], team: 'all', ...DATE_RANGE_FILTER_DEFAULTS, weighted: true };
 
 function Contributors(): JSX.Element {
+  const initialFilters = useUrlFilters(FILTER_DEFAULTS);
   const [contributors, setContributors] = useState<Contributor[]>([]);
   const [repos, setRepos] = useState<Repository[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [searchTerm, setSearchTerm] = useState<string>('');
-  const [limitCount, setLimitCount] = useState<number>(20);
-  const [selectedRepo, setSelectedRepo] = useState<string>('all');
-  const [dateRange, setDateRange] = useState<DateRange>({ min_date: null, max_date: null });
-  const [dateFrom, setDateFrom] = useState<string>('');
-  const [dateTo, setDateTo] = useState<string>('');
-  const [useWeightedData, setUseWeightedData] = useState<boolean>(true);
+  const [limitCount, setLimitCount] = useState<number>(initialFilters.limit);
+  const [selectedRepos, setSelectedRepos] = useState<string[]>(initialFilters.repo);
+  const [selectedTeam, setSelectedTeam] = useState<string>(initialFilters.team);
+  const [useWeightedData, setUseWeightedData] = useState<boolean>(initialFilters.weighted);
+  const { selection, range: { dateFrom, dateTo } } = useDateRange();
 
-  // Fetch repos and date range on mount
+  useSyncUrlFilters({ limit: limitCount, repo: selectedRepos, team: selectedTeam, ...toDateRangeFilters(selection), weighted: useWeightedData }, FILTER_DEFAULTS);
+
+  // Fetch repos on mount
   useEffect(() => {
-    Promise.all([
-      fetchRepos(),
-      fetchContributorsDateRange()
-    ]).then(([reposRes, dateRangeRes]) => {
-      setRepos(reposRes.data);
-      setDateRange(dateRangeRes.data);
-      // Don't set default dates - leave them empty to use unfiltered view
+    fetchRepos().then(res => {
+      setRepos(res.data);
     }).catch(err => {
       console.error('Error fetching initial data:', err);
     });
   }, []);
 
-  // Fetch contributors when filters change
+  // Fetch contributors when filters change ("All time" uses the unfiltered view)
   useEffect(() => {
     setLoading(true);
-    // Only pass date filters if they're explicitly set
-    const from = dateFrom || null;
-    const to = dateTo || null;
-    fetchContributors(limitCount, selectedRepo, from, to).then(res => {
+    fetchContributors(limitCount, selectedRepos, dateFrom, dateTo, selectedTeam).then(res => {
       setContributors(res.data);
       setLoading(false);
     }).catch(err => {
       console.error('Error fetching contributors:', err);
       setLoading(false);
     });
-  }, [limitCount, selectedRepo, dateFrom, dateTo]);
+  }, [limitCount, selectedRepos, selectedTeam, dateFrom, dateTo]);
 
   if (loading) {
     return <LoadingSpinner />;
@@ -99,27 +93,6 @@ function Contributors(): JSX.Element {
     '#ef4444', // red
   ];
 
-  // Generate month/year options for date range selectors
-  const generateDateOptions = (): DateOption[] => {
-    if (!dateRange.min_date || !dateRange.max_date) return [];
-
-    const options: DateOption[] = [];
-    const start = new Date(dateRange.min_date);
-    const end = new Date(dateRange.max_date);
-
-    let current = new Date(start.getFullYear(), start.getMonth(), 1);
-    while (current <= end) {
-      const yearMonth = `${current.getFullYear()}-${String(current.getMonth() + 1).padStart(2, '0')}-01`;
-      const label = current.toLocaleDateString('en-US', { year: 'numeric', month: 'short' });
-      options.push({ value: yearMonth, label });
-      current.setMonth(current.getMonth() + 1);
-    }
-
-    return options;
-  };
-
-  const dateOptions: DateOption[] = generateDateOptions();
-
   return (
     <div className="space-y-8 fade-in">
       {/* Header with Filters */}
@@ -133,45 +106,22 @@ function Contributors(): JSX.Element {
               Leaderboard of most active developers
             </p>
           </div>
+          <DownloadButton
+            path="/contributors"
+            params={{ limit: limitCount, repo: selectedRepos, team: selectedTeam, dateFrom, dateTo }}
+          />
         </div>
 
         {/* Filters Row */}
         <div className="flex flex-col lg:flex-row gap-3">
           {/* Repository Selector */}
-          <select
-            value={selectedRepo}
-            onChange={(e) => setSelectedRepo(e.target.value)}
-            className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-          >
-            <option value="all">All Repositories</option>
-            {repos.map(repo => (
-              <option key={repo.id} value={repo.name}>{repo.name}</option>
-            ))}
-          </select>
+          <RepoSelect repos={repos} value={selectedRepos} onChange={setSelectedRepos} />
 
-          {/* Date From Selector */}
-          <select
-            value={dateFrom}
-            onChange={(e) => setDateFrom(e.target.value)}
-            className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-          >
-            <option value="">From...</option>
-            {dateOptions.map(opt => (
-              <option key={opt.value} value={opt.value}>{opt.label}</option>
-            ))}
-          </select>
+          {/* Team Selector */}
+          <TeamSelect value={selectedTeam} onChange={setSelectedTeam} />
 
-          {/* Date To Selector */}
-          <select
-            value={dateTo}
-            onChange={(e) => setDateTo(e.target.value)}
-            className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-          >
-            <option value="">To...</option>
-            {dateOptions.map(opt => (
-              <option key={opt.value} value={opt.value}>{opt.label}</option>
-            ))}
-          </select>
+          {/* Date Range Selector (shared by all pages) */}
+          <DateRangeSelect />
 
           {/* Search Bar */}
           <input
@@ -0,0 +1,374 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { GitPullRequest } from 'lucide-react';
+import {
+  fetchDeliveryBreakdown,
+  fetchDeliveryPullRequests,
+  fetchDeliverySummary,
+  fetchRepos
+} from '../utils/api';
+import { useSyncUrlFilters, useUrlFilters } from '../utils/urlFilters';
+import { DATE_RANGE_FILTER_DEFAULTS, toDateRangeFilters } from '../utils/dateRange';
+import { useDateRange } from '../contexts/DateRangeContext';
+import LoadingSpinner from '../components/LoadingSpinner';
+import RepoSelect from '../components/RepoSelect';
+import TeamSelect from '../components/TeamSelect';
+import DateRangeSelect from '../components/DateRangeSelect';
+import DownloadButton from '../components/DownloadButton';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+interface Repository {
+  id: number;
+  name: string;
+}
+
+interface DeliveryMetrics {
+  merged_pull_requests: number;
+  avg_cycle_time_hours: string | number | null;
+  median_cycle_time_hours: string | number | null;
+  avg_time_to_first_review_hours: string | number | null;
+  median_time_to_first_review_hours: string | number | null;
+  avg_review_rounds: string | number | null;
+  unreviewed_pull_requests: number;
+  linked_commits: number;
+}
+
+interface RepositoryRow extends DeliveryMetrics {
+  repository_name: string;
+}
+
+interface AuthorRow extends DeliveryMetrics {
+  author: string;
+}
+
+interface MonthRow extends DeliveryMetrics {
+  year_month: string;
+}
+
+interface PullRequestRow {
+  repository_name: string;
+  number: number;
+  title: string;
+  author: string;
+  opened_at: string;
+  merged_at: string;
+  linked_commits: number;
+  cycle_time_hours: string | number | null;
+  time_to_first_review_hours: string | number | null;
+  review_rounds: number;
+}
+
+interface DeliveryData {
+  summary: DeliveryMetrics;
+  monthly: MonthRow[];
+  repositories: RepositoryRow[];
+  authors: AuthorRow[];
+  pullRequests: PullRequestRow[];
+}
+
+// Filters kept in the URL query string
+const FILTER_DEFAULTS = { repo: [] as string[], team: 'all', ...DATE_RANGE_FILTER_DEFAULTS };
+
+// Pull requests listed in the slowest pull requests table
+const SLOWEST_LIMIT = 15;
+
+const toNumber = (value: string | number | null | undefined): number => parseFloat(String(value ?? '')) || 0;
+
+// Durations in hours, or in days from two days on
+const formatDuration = (hours: string | number | null | undefined): string => {
+  if (hours === null || hours === undefined || hours === '') return '-';
+  const value = toNumber(hours);
+  return value >= 48 ? `${(value / 24).toFixed(1)} d` : `${value.toFixed(1)} h`;
+};
+
+const formatRounds = (value: string | number | null | undefined): string =>
+  value === null || value === undefined ? '-' : toNumber(value).toFixed(2);
+
+// Columns shared by the repository and author tables
+const MetricCells = ({ row }: { row: DeliveryMetrics }): JSX.Element => (
+  <>
+    <td className="py-2 pr-4 text-right">{row.merged_pull_requests.toLocaleString()}</td>
+    <td className="py-2 pr-4 text-right">{formatDuration(row.median_cycle_time_hours)}</td>
+    <td className="py-2 pr-4 text-right">{formatDuration(row.median_time_to_first_review_hours)}</td>
+    <td className="py-2 pr-4 text-right">{formatRounds(row.avg_review_rounds)}</td>
+    <td className="py-2 text-right">{row.unreviewed_pull_requests.toLocaleString()}</td>
+  </>
+);
+
+const MetricHeaders = (): JSX.Element => (
+  <>
+    <th className="py-2 pr-4 font-medium text-right">Merged PRs</th>
+    <th className="py-2 pr-4 font-medium text-right">Median Cycle Time</th>
+    <th className="py-2 pr-4 font-medium text-right">Median First Review</th>
+    <th className="py-2 pr-4 font-medium text-right">Review Rounds</th>
+    <th className="py-2 font-medium text-right">Unreviewed</th>
+  </>
+);
+
+function Delivery(): JSX.Element {
+  const initialFilters = useUrlFilters(FILTER_DEFAULTS);
+  const [repos, setRepos] = useState<Repository[]>([]);
+  const [data, setData] = useState<DeliveryData | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedRepos, setSelectedRepos] = useState<string[]>(initialFilters.repo);
+  const [selectedTeam, setSelectedTeam] = useState<string>(initialFilters.team);
+  const { selection, range: { dateFrom, dateTo } } = useDateRange();
+
+  useSyncUrlFilters({ repo: selectedRepos, team: selectedTeam, ...toDateRangeFilters(selection) }, FILTER_DEFAULTS);
+
+  // Fetch repos on mount
+  useEffect(() => {
+    fetchRepos().then(res => {
+      setRepos(res.data);
+    }).catch(err => {
+      console.error('Error fetching repositories:', err);
+    });
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([
+      fetchDeliverySummary(selectedRepos, dateFrom, dateTo, selectedTeam),
+      fetchDeliveryBreakdown('monthly', selectedRepos, dateFrom, dateTo, selectedTeam),
+      fetchDeliveryBreakdown('repositories', selectedRepos, dateFrom, dateTo, selectedTeam),
+      fetchDeliveryBreakdown('authors', selectedRepos, dateFrom, dateTo, selectedTeam),
+      fetchDeliveryPullRequests(selectedRepos, dateFrom, dateTo, selectedTeam, SLOWEST_LIMIT),
+    ]).then(([summaryRes, monthlyRes, repositoriesRes, authorsRes, pullRequestsRes]) => {
+      setData({
+        summary: summaryRes.data,
+        monthly: monthlyRes.data,
+        repositories: repositoriesRes.data,
+        authors: authorsRes.data,
+        pullRequests: pullRequestsRes.data,
+      });
+      setError(null);
+      setLoading(false);
+    }).catch(err => {
+      console.error('Error fetching delivery metrics:', err);
+      setError('Failed to load delivery metrics');
+      setLoading(false);
+    });
+  }, [selectedRepos, selectedTeam, dateFrom, dateTo]);
+
+  const filterParams = { repo: selectedRepos, team: selectedTeam, dateFrom, dateTo };
+
+  const monthlyChartData = (data?.monthly ?? []).map(row => ({
+    month: row.year_month,
+    'Cycle time (h)': toNumber(row.median_cycle_time_hours),
+    'First review (h)': toNumber(row.median_time_to_first_review_hours),
+    'Merged PRs': row.merged_pull_requests,
+  }));
+
+  return (
+    <div className="space-y-8 fade-in">
+      {/* Header with Filters */}
+      <div className="space-y-4">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+              Delivery
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400">
+              Cycle time, time to first review and review rounds of merged pull requests
+            </p>
+          </div>
+          <DownloadButton path="/delivery/monthly" params={filterParams} />
+        </div>
+
+        {/* Filters Row */}
+        <div className="flex flex-col lg:flex-row gap-3">
+          <RepoSelect repos={repos} value={selectedRepos} onChange={setSelectedRepos} />
+          <TeamSelect value={selectedTeam} onChange={setSelectedTeam} />
+          {/* Date Range Selector (shared by all pages) */}
+          <DateRangeSelect />
+        </div>
+      </div>
+
+      {loading && <LoadingSpinner />}
+
+      {!loading && error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-red-700 dark:text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      {!loading && !error && data && data.summary.merged_pull_requests === 0 && (
+        <div className="flex items-center justify-center min-h-[300px]">
+          <div className="text-center">
+            <GitPullRequest className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              No merged pull requests
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400">
+              No pull request was merged in this period. Administrators can load GitHub or GitLab exports on the{' '}
+              <Link to="/import" className="text-blue-600 dark:text-blue-400 hover:underline">Import</Link> page.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {!loading && !error && data && data.summary.merged_pull_requests > 0 && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div className="card p-6">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Merged pull requests</p>
+              <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">{data.summary.merged_pull_requests.toLocaleString()}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                {data.summary.linked_commits.toLocaleString()} linked commits
+              </p>
+            </div>
+            <div className="card p-6">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Median cycle time</p>
+              <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">{formatDuration(data.summary.median_cycle_time_hours)}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                Average {formatDuration(data.summary.avg_cycle_time_hours)}
+              </p>
+            </div>
+            <div className="card p-6">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Median time to first review</p>
+              <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">{formatDuration(data.summary.median_time_to_first_review_hours)}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                Average {formatDuration(data.summary.avg_time_to_first_review_hours)}
+              </p>
+            </div>
+            <div className="card p-6">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Review rounds</p>
+              <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">{formatRounds(data.summary.avg_review_rounds)}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                {data.summary.unreviewed_pull_requests.toLocaleString()} merged without review
+              </p>
+            </div>
+          </div>
+
+          {/* Monthly Trend */}
+          <div className="card p-6">
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              Monthly Trend
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Median hours by month of merge. Cycle time starts at the first commit of the pull request.
+            </p>
+            <ResponsiveContainer width="100%" height={350}>
+              <LineChart data={monthlyChartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#6b7280" opacity={0.2} />
+                <XAxis dataKey="month" stroke="#6b7280" style={{ fontSize: '12px' }} />
+                <YAxis stroke="#6b7280" style={{ fontSize: '12px' }} />
+                <Tooltip />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} iconType="circle" />
+                <Line type="monotone" dataKey="Cycle time (h)" stroke="#3b82f6" strokeWidth={2} />
+                <Line type="monotone" dataKey="First review (h)" stroke="#8b5cf6" strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+            <ResponsiveContainer width="100%" height={200} className="mt-4">
+              <BarChart data={monthlyChartData} margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#6b7280" opacity={0.2} />
+                <XAxis dataKey="month" stroke="#6b7280" style={{ fontSize: '12px' }} />
+                <YAxis stroke="#6b7280" style={{ fontSize: '12px' }} allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="Merged PRs" fill="#10b981" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* By Repository and Author */}
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <div className="card p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-semibold text-gray-900 dark:text-white">By Repository</h3>
+                <DownloadButton path="/delivery/repositories" params={filterParams} />
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                      <th className="py-2 pr-4 font-medium">Repository</th>
+                      <MetricHeaders />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.repositories.map(row => (
+                      <tr key={row.repository_name} className="border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white">
+                        <td className="py-2 pr-4 font-medium">{row.repository_name}</td>
+                        <MetricCells row={row} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+            <div className="card p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-semibold text-gray-900 dark:text-white">By Author</h3>
+                <DownloadButton path="/delivery/authors" params={filterParams} />
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                      <th className="py-2 pr-4 font-medium">Author</th>
+                      <MetricHeaders />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.authors.map(row => (
+                      <tr key={row.author} className="border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white">
+                        <td className="py-2 pr-4 font-medium">{row.author}</td>
+                        <MetricCells row={row} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+
+          {/* Slowest Pull Requests */}
+          <div className="card p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Slowest Pull Requests</h3>
+              <DownloadButton path="/delivery/pull-requests" params={{ ...filterParams, limit: SLOWEST_LIMIT }} />
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-medium">Pull Request</th>
+                    <th className="py-2 pr-4 font-medium">Author</th>
+                    <th className="py-2 pr-4 font-medium">Merged</th>
+                    <th className="py-2 pr-4 font-medium text-right">Commits</th>
+                    <th className="py-2 pr-4 font-medium text-right">Cycle Time</th>
+                    <th className="py-2 pr-4 font-medium text-right">First Review</th>
+                    <th className="py-2 font-medium text-right">Rounds</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.pullRequests.map(pullRequest => (
+                    <tr
+                      key={`${pullRequest.repository_name}-${pullRequest.number}`}
+                      className="border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white"
+                    >
+                      <td className="py-2 pr-4">
+                        <span className="text-gray-500 dark:text-gray-400">{pullRequest.repository_name} #{pullRequest.number}</span>{' '}
+                        {pullRequest.title}
+                      </td>
+                      <td className="py-2 pr-4">{pullRequest.author}</td>
+                      <td className="py-2 pr-4">{new Date(pullRequest.merged_at).toLocaleDateString()}</td>
+                      <td className="py-2 pr-4 text-right">{pullRequest.linked_commits.toLocaleString()}</td>
+                      <td className="py-2 pr-4 text-right">{formatDuration(pullRequest.cycle_time_hours)}</td>
+                      <td className="py-2 pr-4 text-right">{formatDuration(pullRequest.time_to_first_review_hours)}</td>
+                      <td className="py-2 text-right">{pullRequest.review_rounds}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default Delivery;
@@ -0,0 +1,308 @@
+import { useEffect, useState } from 'react';
+import { Rocket } from 'lucide-react';
+import {
+  fetchDoraBreakdown,
+  fetchDoraEnvironments,
+  fetchDoraSummary,
+  fetchRepos
+} from '../utils/api';
+import { useSyncUrlFilters, useUrlFilters } from '../utils/urlFilters';
+import { DATE_RANGE_FILTER_DEFAULTS, toDateRangeFilters } from '../utils/dateRange';
+import { useDateRange } from '../contexts/DateRangeContext';
+import LoadingSpinner from '../components/LoadingSpinner';
+import RepoSelect from '../components/RepoSelect';
+import DateRangeSelect from '../components/DateRangeSelect';
+import DownloadButton from '../components/DownloadButton';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+interface Repository {
+  id: number;
+  name: string;
+}
+
+interface DoraMetrics {
+  deployments: number;
+  deployment_days: number;
+  deployments_per_week: string | number | null;
+  deployed_commits: number;
+  median_lead_time_hours: string | number | null;
+  avg_lead_time_hours: string | number | null;
+  failed_deployments: number;
+  change_failure_rate_pct: string | number | null;
+  incidents: number;
+  open_incidents: number;
+  mttr_hours: string | number | null;
+}
+
+interface RepositoryRow extends DoraMetrics {
+  repository_name: string;
+}
+
+interface MonthRow extends DoraMetrics {
+  year_month: string;
+}
+
+interface DoraData {
+  summary: DoraMetrics;
+  monthly: MonthRow[];
+  repositories: RepositoryRow[];
+}
+
+// Filters kept in the URL query string
+const FILTER_DEFAULTS = { repo: [] as string[], environment: 'production', ...DATE_RANGE_FILTER_DEFAULTS };
+
+const selectClassName = 'px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const toNumber = (value: string | number | null | undefined): number => parseFloat(String(value ?? '')) || 0;
+
+const isMissing = (value: string | number | null | undefined): boolean =>
+  value === null || value === undefined || value === '';
+
+// Durations in hours, or in days from two days on
+const formatDuration = (hours: string | number | null | undefined): string => {
+  if (isMissing(hours)) return '-';
+  const value = toNumber(hours);
+  return value >= 48 ? `${(value / 24).toFixed(1)} d` : `${value.toFixed(1)} h`;
+};
+
+const formatRate = (value: string | number | null | undefined): string =>
+  isMissing(value) ? '-' : toNumber(value).toFixed(2);
+
+const formatPercent = (value: string | number | null | undefined): string =>
+  isMissing(value) ? '-' : `${toNumber(value).toFixed(1)}%`;
+
+function Dora(): JSX.Element {
+  const initialFilters = useUrlFilters(FILTER_DEFAULTS);
+  const [repos, setRepos] = useState<Repository[]>([]);
+  const [environments, setEnvironments] = useState<string[]>([]);
+  const [data, setData] = useState<DoraData | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedRepos, setSelectedRepos] = useState<string[]>(initialFilters.repo);
+  const [selectedEnvironment, setSelectedEnvironment] = useState<string>(initialFilters.environment);
+  const { selection, range: { dateFrom, dateTo } } = useDateRange();
+
+  useSyncUrlFilters(
+    { repo: selectedRepos, environment: selectedEnvironment, ...toDateRangeFilters(selection) },
+    FILTER_DEFAULTS
+  );
+
+  // Fetch repos and environments on mount
+  useEffect(() => {
+    fetchRepos().then(res => {
+      setRepos(res.data);
+    }).catch(err => {
+      console.error('Error fetching repositories:', err);
+    });
+    fetchDoraEnvironments().then(res => {
+      setEnvironments(res.data);
+    }).catch(err => {
+      console.error('Error fetching deployment environments:', err);
+    });
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([
+      fetchDoraSummary(selectedRepos, dateFrom, dateTo, selectedEnvironment),
+      fetchDoraBreakdown('monthly', selectedRepos, dateFrom, dateTo, selectedEnvironment),
+      fetchDoraBreakdown('repositories', selectedRepos, dateFrom, dateTo, selectedEnvironment),
+    ]).then(([summaryRes, monthlyRes, repositoriesRes]) => {
+      setData({
+        summary: summaryRes.data,
+        monthly: monthlyRes.data,
+        repositories: repositoriesRes.data,
+      });
+      setError(null);
+      setLoading(false);
+    }).catch(err => {
+      console.error('Error fetching DORA metrics:', err);
+      setError('Failed to load DORA metrics');
+      setLoading(false);
+    });
+  }, [selectedRepos, selectedEnvironment, dateFrom, dateTo]);
+
+  const filterParams = { repo: selectedRepos, environment: selectedEnvironment, dateFrom, dateTo };
+
+  // The selected environment stays listed even before its first deployment
+  const environmentOptions = environments.includes(selectedEnvironment)
+    ? environments
+    : [selectedEnvironment, ...environments];
+
+  const monthlyChartData = (data?.monthly ?? []).map(row => ({
+    month: row.year_month,
+    'Lead time (h)': toNumber(row.median_lead_time_hours),
+    'Time to restore (h)': toNumber(row.mttr_hours),
+    'Successful': row.deployments - row.failed_deployments,
+    'Failed': row.failed_deployments,
+  }));
+
+  const hasEvents = data && (data.summary.deployments > 0 || data.summary.incidents > 0);
+
+  return (
+    <div className="space-y-8 fade-in">
+      {/* Header with Filters */}
+      <div className="space-y-4">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+              DORA Metrics
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400">
+              Deployment frequency, lead time for changes, change failure rate and time to restore
+            </p>
+          </div>
+          <DownloadButton path="/dora/repository-monthly" params={filterParams} />
+        </div>
+
+        {/* Filters Row */}
+        <div className="flex flex-col lg:flex-row gap-3">
+          <RepoSelect repos={repos} value={selectedRepos} onChange={setSelectedRepos} />
+          <select
+            value={selectedEnvironment}
+            onChange={(e) => setSelectedEnvironment(e.target.value)}
+            className={selectClassName}
+            aria-label="Environment"
+          >
+            {environmentOptions.map(environment => (
+              <option key={environment} value={environment}>{environment}</option>
+            ))}
+          </select>
+          {/* Date Range Selector (shared by all pages) */}
+          <DateRangeSelect />
+        </div>
+      </div>
+
+      {loading && <LoadingSpinner />}
+
+      {!loading && error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-red-700 dark:text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      {!loading && !error && data && !hasEvents && (
+        <div className="flex items-center justify-center min-h-[300px]">
+          <div className="text-center max-w-xl">
+            <Rocket className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+              No deployments
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400">
+              No deployment to {selectedEnvironment} was recorded in this period. CI pipelines record deployments
+              by posting the repository and the deployed commit to <code>/api/ingest/deployments</code>, and
+              incidents to <code>/api/ingest/incidents</code>, with the ingestion token of the server.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {!loading && !error && data && hasEvents && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div className="card p-6">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Deployments per week</p>
+              <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">{formatRate(data.summary.deployments_per_week)}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                {data.summary.deployments.toLocaleString()} deployments on {data.summary.deployment_days.toLocaleString()} days
+              </p>
+            </div>
+            <div className="card p-6">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Median lead time for changes</p>
+              <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">{formatDuration(data.summary.median_lead_time_hours)}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                Average {formatDuration(data.summary.avg_lead_time_hours)} over {data.summary.deployed_commits.toLocaleString()} commits
+              </p>
+            </div>
+            <div className="card p-6">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Change failure rate</p>
+              <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">{formatPercent(data.summary.change_failure_rate_pct)}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                {data.summary.failed_deployments.toLocaleString()} failed or caused an incident
+              </p>
+            </div>
+            <div className="card p-6">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Time to restore</p>
+              <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">{formatDuration(data.summary.mttr_hours)}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                {data.summary.incidents.toLocaleString()} incidents, {data.summary.open_incidents.toLocaleString()} open
+              </p>
+            </div>
+          </div>
+
+          {/* Monthly Trend */}
+          <div className="card p-6">
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Monthly Trend</h3>
+              <DownloadButton path="/dora/monthly" params={filterParams} />
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Median lead time by month of first deployment and average time to restore by month of incident.
+            </p>
+            <ResponsiveContainer width="100%" height={350}>
+              <LineChart data={monthlyChartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#6b7280" opacity={0.2} />
+                <XAxis dataKey="month" stroke="#6b7280" style={{ fontSize: '12px' }} />
+                <YAxis stroke="#6b7280" style={{ fontSize: '12px' }} />
+                <Tooltip />
+                <Legend wrapperStyle={{ paddingTop: '20px' }} iconType="circle" />
+                <Line type="monotone" dataKey="Lead time (h)" stroke="#3b82f6" strokeWidth={2} />
+                <Line type="monotone" dataKey="Time to restore (h)" stroke="#f59e0b" strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+            <ResponsiveContainer width="100%" height={200} className="mt-4">
+              <BarChart data={monthlyChartData} margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#6b7280" opacity={0.2} />
+                <XAxis dataKey="month" stroke="#6b7280" style={{ fontSize: '12px' }} />
+                <YAxis stroke="#6b7280" style={{ fontSize: '12px' }} allowDecimals={false} />
+                <Tooltip />
+                <Legend iconType="circle" />
+                <Bar dataKey="Successful" stackId="deployments" fill="#10b981" />
+                <Bar dataKey="Failed" stackId="deployments" fill="#ef4444" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* By Repository */}
+          <div className="card p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-white">By Repository</h3>
+              <DownloadButton path="/dora/repositories" params={filterParams} />
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                    <th className="py-2 pr-4 font-medium">Repository</th>
+                    <th className="py-2 pr-4 font-medium text-right">Deployments</th>
+                    <th className="py-2 pr-4 font-medium text-right">Per Week</th>
+                    <th className="py-2 pr-4 font-medium text-right">Median Lead Time</th>
+                    <th className="py-2 pr-4 font-medium text-right">Change Failure Rate</th>
+                    <th className="py-2 pr-4 font-medium text-right">Incidents</th>
+                    <th className="py-2 font-medium text-right">Time to Restore</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.repositories.map(row => (
+                    <tr key={row.repository_name} className="border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white">
+                      <td className="py-2 pr-4 font-medium">{row.repository_name}</td>
+                      <td className="py-2 pr-4 text-right">{row.deployments.toLocaleString()}</td>
+                      <td className="py-2 pr-4 text-right">{formatRate(row.deployments_per_week)}</td>
+                      <td className="py-2 pr-4 text-right">{formatDuration(row.median_lead_time_hours)}</td>
+                      <td className="py-2 pr-4 text-right">{formatPercent(row.change_failure_rate_pct)}</td>
+                      <td className="py-2 pr-4 text-right">{row.incidents.toLocaleString()}</td>
+                      <td className="py-2 text-right">{formatDuration(row.mttr_hours)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default Dora;
@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle2, FileJson, Loader2, Upload } from 'lucide-react';
+import { fetchRepos, importCommits, importIssues, importPullRequests, getErrorMessage } from '../utils/api';
+import { useAuth } from '../contexts/AuthContext';
+import { isAdmin } from '../utils/permissions';
+
+interface Repository {
+  id: number;
+  name: string;
+}
+
+type ExportKind = 'commits' | 'pull_requests' | 'issues';
+
+interface ImportIssue {
+  index: number;
+  hash?: string | null;
+  number?: number | null;
+  key?: string | null;
+  error: string;
+}
+
+interface ImportResult {
+  kind: ExportKind;
+  repository: string | null;
+  total: number;
+  inserted: number;
+  updated: number;
+  skipped?: number;
+  unchanged?: number;
+  reviews?: number;
+  commits?: number;
+  linked_commits?: number;
+  extracted_commits?: number;
+  invalid: number;
+  issues: ImportIssue[];
+}
+
+// Counts returned by the import endpoints
+type ImportResponse = Omit<ImportResult, 'kind'>;
+
+const EXPORT_KINDS: { value: ExportKind; label: string; title: string; items: string }[] = [
+  { value: 'commits', label: 'Commits', title: 'Commit Export', items: 'commits' },
+  { value: 'pull_requests', label: 'Pull requests (GitHub / GitLab)', title: 'Pull Request Export', items: 'pull requests' },
+  { value: 'issues', label: 'Issues (Jira / GitLab)', title: 'Issue Export', items: 'issues' },
+];
+
+const IMPORTERS: Record<ExportKind, (file: File, repository: string) => Promise<{ data: ImportResponse }>> = {
+  commits: importCommits,
+  pull_requests: importPullRequests,
+  issues: importIssues,
+};
+
+const inputClassName = 'w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const Import = (): JSX.Element => {
+  const { user } = useAuth();
+  const canImport = isAdmin(user);
+  const [repos, setRepos] = useState<Repository[]>([]);
+  const [kind, setKind] = useState<ExportKind>('commits');
+  const [repository, setRepository] = useState<string>('');
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState<boolean>(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { title, items } = EXPORT_KINDS.find(({ value }) => value === kind)!;
+
+  useEffect(() => {
+    fetchRepos()
+      .then(res => setRepos(res.data))
+      .catch(err => console.error('Error fetching repositories:', err));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setImporting(true);
+    setResult(null);
+    try {
+      const response = await IMPORTERS[kind](file, repository.trim());
+      setResult({ ...response.data, kind });
+      setError(null);
+    } catch (err) {
+      console.error(`Error importing ${items}:`, err);
+      setError(getErrorMessage(err, `Failed to import ${items}`));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!canImport) {
+    return (
+      <div className="card p-6">
+        <p className="text-sm text-gray-600 dark:text-gray-400">Only administrators can import commits, pull requests and issues.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 fade-in">
+      {/* Header */}
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+          Import
+        </h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Load a per-repository commit export (JSON) produced by the pipeline, a pull request export or an issue export
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="card p-6 space-y-4">
+        <h3 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <FileJson className="w-5 h-5 text-primary-500" />
+          {title}
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Export type</label>
+            <select
+              value={kind}
+              onChange={(e) => {
+                setKind(e.target.value as ExportKind);
+                setResult(null);
+              }}
+              className={inputClassName}
+            >
+              {EXPORT_KINDS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">JSON file</label>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              required
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Repository</label>
+            <input
+              type="text"
+              list="import-repositories"
+              value={repository}
+              onChange={(e) => setRepository(e.target.value)}
+              placeholder={kind === 'issues' ? 'GitLab project (optional)' : 'Name from the file'}
+              className={inputClassName}
+            />
+            <datalist id="import-repositories">
+              {repos.map(repo => (
+                <option key={repo.id} value={repo.name} />
+              ))}
+            </datalist>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {kind === 'commits' && 'Commits are matched by hash: new ones are added and the git metadata of existing ones is updated. Categories, weights and AI tools edited in the dashboard are kept. A new repository name creates the repository.'}
+          {kind === 'pull_requests' && 'Pull requests (pull_requests) or merge requests (merge_requests) are matched by number and replaced with their reviews. Their commits are linked to the imported commits by hash. A new repository name creates the repository.'}
+          {kind === 'issues' && 'Issues (Jira search results or GitLab issues) are matched by key with their type, epic and story points. Commits are linked to them by the keys in their messages (PAY-123, #42). The repository names the GitLab project of issues without references.'}
+        </p>
+        <button
+          type="submit"
+          disabled={importing || !file}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
+        >
+          {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Import
+        </button>
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+      </form>
+
+      {result && (
+        <div className="card p-6 space-y-4">
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <CheckCircle2 className="w-5 h-5 text-green-500" />
+            {result.kind === 'issues' ? 'Imported issues' : `Imported into ${result.repository}`}
+          </h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {({
+              commits: [
+                { label: 'Commits in file', value: result.total },
+                { label: 'Inserted', value: result.inserted },
+                { label: 'Updated', value: result.updated },
+                { label: 'Skipped', value: result.skipped ?? 0 },
+              ],
+              pull_requests: [
+                { label: 'Pull requests in file', value: result.total },
+                { label: 'Inserted', value: result.inserted },
+                { label: 'Updated', value: result.updated },
+                { label: 'Reviews', value: result.reviews ?? 0 },
+              ],
+              issues: [
+                { label: 'Issues in file', value: result.total },
+                { label: 'Inserted', value: result.inserted },
+                { label: 'Updated', value: result.updated },
+                { label: 'Linked commits', value: result.linked_commits ?? 0 },
+              ],
+            })[result.kind].map(({ label, value }) => (
+              <div key={label} className="px-4 py-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                <p className="text-xs text-gray-500 dark:text-gray-400">{label}</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{value.toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {result.kind === 'commits' && `Skipped: ${(result.unchanged ?? 0).toLocaleString()} unchanged, ${result.invalid.toLocaleString()} invalid or duplicated`}
+            {result.kind === 'pull_requests' && `${(result.commits ?? 0).toLocaleString()} commit hashes linked; skipped: ${result.invalid.toLocaleString()} invalid or duplicated`}
+            {result.kind === 'issues' && `Issue keys extracted from ${(result.extracted_commits ?? 0).toLocaleString()} older commits; skipped: ${result.invalid.toLocaleString()} invalid or duplicated`}
+          </p>
+          {result.issues.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-amber-700 dark:text-amber-400 flex items-center gap-2 mb-2">
+                <AlertTriangle className="w-4 h-4" />
+                Skipped {EXPORT_KINDS.find(({ value }) => value === result.kind)!.items}{result.invalid > result.issues.length && ` (first ${result.issues.length} of ${result.invalid})`}
+              </p>
+              <ul className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                {result.issues.map(issue => (
+                  <li key={issue.index}>
+                    #{issue.index + 1}
+                    {issue.hash && ` (${issue.hash.substring(0, 8)})`}
+                    {issue.number != null && ` (PR ${issue.number})`}
+                    {issue.key && ` (${issue.key})`}: {issue.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Import;
@@ -1,7 +1,14 @@
 import { useEffect, useState } from 'react';
-import { fetchSummary, fetchRepos, fetchContributorsDateRange } from '../utils/api';
+import { fetchSummary, fetchRepos } from '../utils/api';
+import { useSyncUrlFilters, useUrlFilters } from '../utils/urlFilters';
+import { DATE_RANGE_FILTER_DEFAULTS, describeDateRange, toDateRangeFilters } from '../utils/dateRange';
+import { useDateRange } from '../contexts/DateRangeContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import RepoSelect from '../components/RepoSelect';
+import TeamSelect from '../components/TeamSelect';
+import DateRangeSelect from '../components/DateRangeSelect';
 import StatCard from '../components/StatCard';
+import DownloadButton from '../components/DownloadButton';
 import WeightBadge from '../components/WeightBadge';
 import CommitDescription from '../components/CommitDescription';
 import { formatDate } from '../utils/dateFormat';
@@ -18,11 +25,6 @@ interface Repository {
   latest_commit: string | null;
 }
 
-interface DateRange {
-  min_date: string | null;
-  max_date: string | null;
-}
-
 interface OverallStats {
   total_commits: number;
   effective_commits?: string | number;
@@ -78,44 +80,24 @@ interface ContributorChartDataPoint {
   commits: number;
 }
 
-interface DateOption {
-  value: string;
-  label: string;
-}
+// Filters kept in the URL query string
+const FILTER_DEFAULTS = { repo: [] as string[], team: 'all', ...DATE_RANGE_FILTER_DEFAULTS };
 
 function Overview(): JSX.Element {
+  const initialFilters = useUrlFilters(FILTER_DEFAULTS);
   const [summaryData, setSummaryData] = useState<SummaryData | null>(null);
   const [repos, setRepos] = useState<Repository[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
-  const [selectedRepo, setSelectedRepo] = useState<string>('all');
-  const [dateRange, setDateRange] = useState<DateRange>({ min_date: null, max_date: null });
-  const [dateFrom, setDateFrom] = useState<string>('');
-  const [dateTo, setDateTo] = useState<string>('');
+  const [selectedRepos, setSelectedRepos] = useState<string[]>(initialFilters.repo);
+  const [selectedTeam, setSelectedTeam] = useState<string>(initialFilters.team);
+  const { selection, range: { dateFrom, dateTo } } = useDateRange();
 
-  // Fetch repos and date range on mount
+  useSyncUrlFilters({ repo: selectedRepos, team: selectedTeam, ...toDateRangeFilters(selection) }, FILTER_DEFAULTS);
+
+  // Fetch repos on mount
   useEffect(() => {
-    Promise.all([
-      fetchRepos(),
-      fetchContributorsDateRange()
-    ]).then(([reposRes, dateRangeRes]) => {
-      setRepos(reposRes.data);
-      setDateRange(dateRangeRes.data);
-
-      // Set default dates to last month and month before
-      if (dateRangeRes.data.max_date) {
-        const maxDate = new Date(dateRangeRes.data.max_date);
-        const lastMonthYear = maxDate.getFullYear();
-        const lastMonth = maxDate.getMonth() + 1; // JS months are 0-indexed
-
-        // Set "To" to first day of last month
-        const toDate = `${lastMonthYear}-${String(lastMonth).padStart(2, '0')}-01`;
-        setDateTo(toDate);
-
-        // Set "From" to first day of month before
-        const fromMonthDate = new Date(lastMonthYear, lastMonth - 2, 1); // -2 because months are 0-indexed
-        const fromDate = `${fromMonthDate.getFullYear()}-${String(fromMonthDate.getMonth() + 1).padStart(2, '0')}-01`;
-        setDateFrom(fromDate);
-      }
+    fetchRepos().then(res => {
+      setRepos(res.data);
     }).catch(err => {
       console.error('Error fetching initial data:', err);
     });
@@ -124,16 +106,14 @@ function Overview(): JSX.Element {
   // Fetch summary data when filters change
   useEffect(() => {
     setLoading(true);
-    const from = dateFrom || null;
-    const to = dateTo || null;
-    fetchSummary(selectedRepo, from, to).then(res => {
+    fetchSummary(selectedRepos, dateFrom, dateTo, selectedTeam).then(res => {
       setSummaryData(res.data);
       setLoading(false);
     }).catch(err => {
       console.error('Error fetching summary:', err);
       setLoading(false);
     });
-  }, [selectedRepo, dateFrom, dateTo]);
+  }, [selectedRepos, selectedTeam, dateFrom, dateTo]);
 
   if (loading) {
     return <LoadingSpinner />;
@@ -170,49 +150,22 @@ function Overview(): JSX.Element {
     commits: contributor.total_commits,
   }));
 
-  // Generate date options for selectors
-  const generateDateOptions = (): DateOption[] => {
-    if (!dateRange.min_date || !dateRange.max_date) return [];
-
-    const options: DateOption[] = [];
-    const start = new Date(dateRange.min_date);
-    const end = new Date(dateRange.max_date);
-
-    let current = new Date(start.getFullYear(), start.getMonth(), 1);
-    while (current <= end) {
-      const yearMonth = `${current.getFullYear()}-${String(current.getMonth() + 1).padStart(2, '0')}-01`;
-      const label = current.toLocaleDateString('en-US', { year: 'numeric', month: 'short' });
-      options.push({ value: yearMonth, label });
-      current.setMonth(current.getMonth() + 1);
-    }
-
-    return options;
-  };
-
-  const dateOptions: DateOption[] = generateDateOptions();
-
-  // Format period for display
-  const formatPeriod = (): string => {
-    if (dateFrom && dateTo) {
-      return `${formatDate(dateFrom)} to ${formatDate(dateTo)}`;
-    } else if (dateFrom) {
-      return `From ${formatDate(dateFrom)}`;
-    } else if (dateTo) {
-      return `Until ${formatDate(dateTo)}`;
-    }
-    return 'All Time';
-  };
-
   return (
     <div className="space-y-8 fade-in">
       {/* Header */}
-      <div>
-        <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
-          Overview
-        </h2>
-        <p className="text-gray-600 dark:text-gray-400">
-          Your git productivity at a glance
-        </p>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+            Overview
+          </h2>
+          <p className="text-gray-600 dark:text-gray-400">
+            Your git productivity at a glance
+          </p>
+        </div>
+        <DownloadButton
+          path="/summary"
+          params={{ repo: selectedRepos, team: selectedTeam, dateFrom, dateTo }}
+        />
       </div>
 
       {/* Repository Cards - Not subject to filters */}
@@ -268,46 +221,19 @@ function Overview(): JSX.Element {
         {/* Filters Row */}
         <div className="flex flex-col lg:flex-row gap-3">
           {/* Repository Selector */}
-          <select
-            value={selectedRepo}
-            onChange={(e) => setSelectedRepo(e.target.value)}
-            className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-          >
-            <option value="all">All Repositories</option>
-            {repos.map(repo => (
-              <option key={repo.id} value={repo.name}>{repo.name}</option>
-            ))}
-          </select>
-
-          {/* Date From Selector */}
-          <select
-            value={dateFrom}
-            onChange={(e) => setDateFrom(e.target.value)}
-            className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-          >
-            <option value="">From...</option>
-            {dateOptions.map(opt => (
-              <option key={opt.value} value={opt.value}>{opt.label}</option>
-            ))}
-          </select>
-
-          {/* Date To Selector */}
-          <select
-            value={dateTo}
-            onChange={(e) => setDateTo(e.target.value)}
-            className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-          >
-            <option value="">To...</option>
-            {dateOptions.map(opt => (
-              <option key={opt.value} value={opt.value}>{opt.label}</option>
-            ))}
-          </select>
+          <RepoSelect repos={repos} value={selectedRepos} onChange={setSelectedRepos} />
+
+          {/* Team Selector */}
+          <TeamSelect value={selectedTeam} onChange={setSelectedTeam} />
+
+          {/* Date Range Selector (shared by all pages) */}
+          <DateRangeSelect />
         </div>
 
         {/* Period Display */}
         <div className="text-center">
           <p className="text-lg font-semibold text-gray-700 dark:text-gray-300">
-            Period: <span className="text-primary-600 dark:text-primary-400">{formatPeriod()}</span>
+            Period: <span className="text-primary-600 dark:text-primary-400">{describeDateRange(selection, formatDate)}</span>
           </p>
         </div>
       </div>
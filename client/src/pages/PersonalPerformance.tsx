@@ -1,12 +1,19 @@
 import { useEffect, useState } from 'react';
 import { User, TrendingUp, Code, Calendar, Target, Users, Award, GitBranch } from 'lucide-react';
 import { fetchPersonalPerformance, fetchRepos } from '../utils/api';
+import { useSyncUrlFilters, useUrlFilters } from '../utils/urlFilters';
+import { DATE_RANGE_FILTER_DEFAULTS, toDateRangeFilters } from '../utils/dateRange';
 import { useAuth } from '../contexts/AuthContext';
+import { useDateRange } from '../contexts/DateRangeContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import RepoSelect from '../components/RepoSelect';
+import DateRangeSelect from '../components/DateRangeSelect';
 import StatCard from '../components/StatCard';
 import WeightBadge from '../components/WeightBadge';
 import CommitDescription from '../components/CommitDescription';
-import { formatDate, toISOFormat, fromISOFormat, addMonths } from '../utils/dateFormat';
+import LinkedAuthorEmails from '../components/LinkedAuthorEmails';
+import DigestSubscriptions from '../components/DigestSubscriptions';
+import { formatDate, fromISOFormat, addMonths } from '../utils/dateFormat';
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend,
   ResponsiveContainer, AreaChart, Area, BarChart, Bar, Cell
@@ -89,6 +96,7 @@ interface TeamStats {
 }
 
 interface PerformanceData {
+  author_emails: string[];
   personal_stats: PersonalStats;
   daily_activity: DailyActivity[];
   repository_breakdown: RepoBreakdown[];
@@ -97,16 +105,22 @@ interface PerformanceData {
   team_stats: TeamStats;
 }
 
+// Filters kept in the URL query string
+const FILTER_DEFAULTS = { repo: [] as string[], ...DATE_RANGE_FILTER_DEFAULTS, weighted: true, limit: 50 };
+
 function PersonalPerformance(): JSX.Element {
+  const initialFilters = useUrlFilters(FILTER_DEFAULTS);
   const { user } = useAuth();
   const [repos, setRepos] = useState<Repository[]>([]);
-  const [selectedRepo, setSelectedRepo] = useState<string>('all');
-  const [dateFrom, setDateFrom] = useState<string>('');
-  const [dateTo, setDateTo] = useState<string>('');
-  const [useWeightedData, setUseWeightedData] = useState<boolean>(true);
-  const [commitLimit, setCommitLimit] = useState<number>(50);
+  const [selectedRepos, setSelectedRepos] = useState<string[]>(initialFilters.repo);
+  const [useWeightedData, setUseWeightedData] = useState<boolean>(initialFilters.weighted);
+  const [commitLimit, setCommitLimit] = useState<number>(initialFilters.limit);
+  const { selection, range: { dateFrom, dateTo } } = useDateRange();
+
+  useSyncUrlFilters({ repo: selectedRepos, ...toDateRangeFilters(selection), weighted: useWeightedData, limit: commitLimit }, FILTER_DEFAULTS);
   const [loading, setLoading] = useState<boolean>(true);
   const [data, setData] = useState<PerformanceData | null>(null);
+  const [linkedEmailsVersion, setLinkedEmailsVersion] = useState<number>(0);
 
   // Fetch repositories on mount
   useEffect(() => {
@@ -121,7 +135,7 @@ function PersonalPerformance(): JSX.Element {
   useEffect(() => {
     if (user?.email) {
       setLoading(true);
-      fetchPersonalPerformance(user.email, selectedRepo, dateFrom || null, dateTo || null, commitLimit)
+      fetchPersonalPerformance(user.email, selectedRepos, dateFrom, dateTo, commitLimit)
         .then(res => {
           setData(res.data);
           setLoading(false);
@@ -131,28 +145,7 @@ function PersonalPerformance(): JSX.Element {
           setLoading(false);
         });
     }
-  }, [user, selectedRepo, dateFrom, dateTo, commitLimit]);
-
-  // Quick date range actions
-  const setQuickDateRange = (days: number) => {
-    const today = new Date();
-    const pastDate = new Date(today);
-    pastDate.setDate(today.getDate() - days);
-    setDateFrom(toISOFormat(formatDate(pastDate)));
-    setDateTo(toISOFormat(formatDate(today)));
-  };
-
-  const setThisYear = () => {
-    const today = new Date();
-    const yearStart = new Date(today.getFullYear(), 0, 1);
-    setDateFrom(toISOFormat(formatDate(yearStart)));
-    setDateTo(toISOFormat(formatDate(today)));
-  };
-
-  const clearDateRange = () => {
-    setDateFrom('');
-    setDateTo('');
-  };
+  }, [user, selectedRepos, dateFrom, dateTo, commitLimit, linkedEmailsVersion]);
 
   if (loading) {
     return <LoadingSpinner />;
@@ -226,53 +219,45 @@ function PersonalPerformance(): JSX.Element {
           <p className="text-gray-600 dark:text-gray-400">
             Track your contributions and impact - {user?.name}
           </p>
+          {data.author_emails && data.author_emails.length > 1 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Including commits from {data.author_emails.join(', ')}
+            </p>
+          )}
         </div>
       </div>
 
+      {user?.email && (
+        <LinkedAuthorEmails
+          loginEmail={user.email}
+          onChange={() => setLinkedEmailsVersion(version => version + 1)}
+        />
+      )}
+
+      <DigestSubscriptions />
+
       {/* Filters */}
       <div className="card p-6">
         <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-end">
-          {/* Date Range */}
-          <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4 w-full">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                From Date
-              </label>
-              <input
-                type="date"
-                value={dateFrom}
-                onChange={(e) => setDateFrom(e.target.value)}
-                className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                To Date
-              </label>
-              <input
-                type="date"
-                value={dateTo}
-                onChange={(e) => setDateTo(e.target.value)}
-                className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-              />
-            </div>
+          {/* Date Range (shared by all pages) */}
+          <div className="flex-1 w-full">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Period
+            </label>
+            <DateRangeSelect />
           </div>
 
           {/* Repository Filter */}
           <div className="w-full lg:w-auto">
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Repository
+              Repositories
             </label>
-            <select
-              value={selectedRepo}
-              onChange={(e) => setSelectedRepo(e.target.value)}
+            <RepoSelect
+              repos={repos}
+              value={selectedRepos}
+              onChange={setSelectedRepos}
               className="w-full lg:w-48 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-            >
-              <option value="all">All Repositories</option>
-              {repos.map(repo => (
-                <option key={repo.id} value={repo.name}>{repo.name}</option>
-              ))}
-            </select>
+            />
           </div>
 
           {/* Weighted Data Toggle */}
@@ -290,40 +275,6 @@ function PersonalPerformance(): JSX.Element {
             </label>
           </div>
         </div>
-
-        {/* Quick Actions */}
-        <div className="flex flex-wrap gap-2 mt-4">
-          <button
-            onClick={() => setQuickDateRange(30)}
-            className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors duration-200"
-          >
-            Last 30 Days
-          </button>
-          <button
-            onClick={() => setQuickDateRange(60)}
-            className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors duration-200"
-          >
-            Last 60 Days
-          </button>
-          <button
-            onClick={() => setQuickDateRange(90)}
-            className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors duration-200"
-          >
-            Last 90 Days
-          </button>
-          <button
-            onClick={setThisYear}
-            className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors duration-200"
-          >
-            This Year
-          </button>
-          <button
-            onClick={clearDateRange}
-            className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors duration-200"
-          >
-            All Time
-          </button>
-        </div>
       </div>
 
       {/* Summary Stats */}
@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { fetchRepos, buildReportUrl, ReportSection } from '../utils/api';
+import { formatDate } from '../utils/dateFormat';
+
+interface Repository {
+  id: number;
+  name: string;
+}
+
+interface SectionOption {
+  section: ReportSection;
+  label: string;
+  description: string;
+}
+
+const SECTION_OPTIONS: SectionOption[] = [
+  { section: 'summary', label: 'Summary Statistics', description: 'Commits, effective commits, weight and lines changed' },
+  { section: 'contributors', label: 'Top Contributors', description: 'Top 10 contributors of the period' },
+  { section: 'categories', label: 'Category Mix', description: 'Share of commits per category' },
+  { section: 'before-after', label: 'Before / After', description: 'Monthly averages compared with the preceding period of equal length' },
+];
+
+const inputClassName = 'w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const formatLocalDate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const Reports = (): JSX.Element => {
+  const [repos, setRepos] = useState<Repository[]>([]);
+  const [selectedRepo, setSelectedRepo] = useState<string>('all');
+  const [title, setTitle] = useState<string>('');
+  const [dateFrom, setDateFrom] = useState<string>('');
+  const [dateTo, setDateTo] = useState<string>('');
+  const [sections, setSections] = useState<ReportSection[]>(SECTION_OPTIONS.map(option => option.section));
+
+  // Default to the previous month (monthly leadership reports)
+  useEffect(() => {
+    const today = new Date();
+    setDateFrom(formatLocalDate(new Date(today.getFullYear(), today.getMonth() - 1, 1)));
+    setDateTo(formatLocalDate(new Date(today.getFullYear(), today.getMonth(), 0)));
+  }, []);
+
+  useEffect(() => {
+    fetchRepos()
+      .then(res => setRepos(res.data))
+      .catch(err => console.error('Error fetching repositories:', err));
+  }, []);
+
+  const toggleSection = (section: ReportSection): void => {
+    setSections(current =>
+      current.includes(section) ? current.filter(s => s !== section) : [...current, section]
+    );
+  };
+
+  const hasDateRange = Boolean(dateFrom && dateTo);
+  const invalidRange = hasDateRange && dateFrom > dateTo;
+  const missingRangeForComparison = sections.includes('before-after') && !hasDateRange;
+  const canDownload = sections.length > 0 && !invalidRange && !missingRangeForComparison;
+
+  // Format period for display
+  const formatPeriod = (): string => {
+    if (dateFrom && dateTo) {
+      return `${formatDate(dateFrom)} to ${formatDate(dateTo)}`;
+    } else if (dateFrom) {
+      return `From ${formatDate(dateFrom)}`;
+    } else if (dateTo) {
+      return `Until ${formatDate(dateTo)}`;
+    }
+    return 'All Time';
+  };
+
+  const reportUrl = buildReportUrl({ repo: selectedRepo, dateFrom, dateTo, title }, sections);
+
+  return (
+    <div className="space-y-8 fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+            Reports
+          </h2>
+          <p className="text-gray-600 dark:text-gray-400">
+            Build a PDF report for a repository and period
+          </p>
+        </div>
+      </div>
+
+      <div className="card p-6 space-y-6">
+        {/* Report Scope */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Repository
+            </label>
+            <select
+              value={selectedRepo}
+              onChange={(e) => setSelectedRepo(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="all">All Repositories</option>
+              {repos.map(repo => (
+                <option key={repo.id} value={repo.name}>{repo.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              From Date
+            </label>
+            <input
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              To Date
+            </label>
+            <input
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Title
+            </label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Engineering Report"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        {/* Sections */}
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+            Sections
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {SECTION_OPTIONS.map(option => (
+              <label
+                key={option.section}
+                className="flex items-start gap-3 cursor-pointer p-4 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-all duration-300"
+              >
+                <input
+                  type="checkbox"
+                  checked={sections.includes(option.section)}
+                  onChange={() => toggleSection(option.section)}
+                  className="mt-1 w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900 dark:text-white">{option.label}</span>
+                  <span className="block text-sm text-gray-600 dark:text-gray-400">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Download */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {invalidRange && 'The start date must be before the end date.'}
+            {!invalidRange && missingRangeForComparison && 'Before / After requires a start and end date.'}
+            {!invalidRange && !missingRangeForComparison && sections.length === 0 && 'Select at least one section.'}
+            {canDownload && `Period: ${formatPeriod()}`}
+          </p>
+          {canDownload ? (
+            <a
+              href={reportUrl}
+              className="btn-primary flex items-center gap-2"
+              download
+            >
+              <FileDown className="w-4 h-4" />
+              Download PDF
+            </a>
+          ) : (
+            <button className="btn-primary flex items-center gap-2 opacity-50 cursor-not-allowed" disabled>
+              <FileDown className="w-4 h-4" />
+              Download PDF
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Reports;
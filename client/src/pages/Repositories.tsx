@@ -0,0 +1,345 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Archive, ArchiveRestore, FolderGit2, Loader2, Pencil, Plus } from 'lucide-react';
+import {
+  fetchRepos,
+  createRepository,
+  updateRepository,
+  archiveRepository,
+  unarchiveRepository,
+  RepositoryInput,
+  RepositoryVisibility,
+  getErrorMessage,
+} from '../utils/api';
+import { useAuth } from '../contexts/AuthContext';
+import { isAdmin } from '../utils/permissions';
+import { formatDate } from '../utils/dateFormat';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+interface Repository extends RepositoryInput {
+  id: number;
+  archived: boolean;
+  archived_at: string | null;
+  total_commits: string;
+  latest_commit: string | null;
+}
+
+const VISIBILITY_LABELS: Record<RepositoryVisibility, string> = {
+  public: 'Public',
+  internal: 'Internal',
+  private: 'Private',
+};
+
+const EMPTY_REPOSITORY: RepositoryInput = {
+  name: '',
+  description: null,
+  default_branch: 'main',
+  team: null,
+  visibility: 'internal',
+};
+
+const inputClassName = 'w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const Repositories = (): JSX.Element => {
+  const { user } = useAuth();
+  const canManage = isAdmin(user);
+  const [repos, setRepos] = useState<Repository[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [form, setForm] = useState<RepositoryInput | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [showArchived, setShowArchived] = useState<boolean>(false);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRepos = useCallback(async () => {
+    try {
+      const response = await fetchRepos(true);
+      setRepos(response.data);
+    } catch (err) {
+      console.error('Error loading repositories:', err);
+      setError('Failed to load repositories');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRepos();
+  }, [loadRepos]);
+
+  // Run an action, then reload the repositories
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+      await loadRepos();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(getErrorMessage(err, failure));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_REPOSITORY);
+  };
+
+  const startEdit = (repo: Repository) => {
+    setEditingId(repo.id);
+    setForm({
+      name: repo.name,
+      description: repo.description,
+      default_branch: repo.default_branch,
+      team: repo.team,
+      visibility: repo.visibility,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    await runAction(
+      async () => {
+        if (editingId === null) {
+          await createRepository(form);
+        } else {
+          await updateRepository(editingId, form);
+        }
+        setForm(null);
+        setEditingId(null);
+      },
+      editingId === null ? 'Failed to create repository' : 'Failed to update repository'
+    );
+  };
+
+  const handleArchive = (repo: Repository) => {
+    if (!window.confirm(`Archive "${repo.name}"? It will be hidden from Overview, Trends and Comparison.`)) return;
+    runAction(() => archiveRepository(repo.id), 'Failed to archive repository');
+  };
+
+  const updateForm = (changes: Partial<RepositoryInput>) => {
+    setForm(current => current && { ...current, ...changes });
+  };
+
+  if (!canManage) {
+    return (
+      <div className="card p-6">
+        <p className="text-sm text-gray-600 dark:text-gray-400">Only administrators can manage repositories.</p>
+      </div>
+    );
+  }
+
+  if (loading) return <LoadingSpinner />;
+
+  const visibleRepos = repos.filter(repo => showArchived || !repo.archived);
+  const archivedCount = repos.filter(repo => repo.archived).length;
+
+  return (
+    <div className="space-y-8 fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+            Repositories
+          </h2>
+          <p className="text-gray-600 dark:text-gray-400">
+            Register repositories and archive the ones that should no longer appear in the dashboards
+          </p>
+        </div>
+        <button
+          onClick={startCreate}
+          disabled={busy}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          New Repository
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {/* Repository Form */}
+      {form && (
+        <form onSubmit={handleSubmit} className="card p-6 space-y-4">
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white">
+            {editingId === null ? 'New Repository' : 'Edit Repository'}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                placeholder="e.g. billing-service"
+                required
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Team</label>
+              <input
+                type="text"
+                value={form.team ?? ''}
+                onChange={(e) => updateForm({ team: e.target.value || null })}
+                placeholder="e.g. Payments"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Default branch</label>
+              <input
+                type="text"
+                value={form.default_branch ?? ''}
+                onChange={(e) => updateForm({ default_branch: e.target.value || null })}
+                placeholder="main"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Visibility</label>
+              <select
+                value={form.visibility}
+                onChange={(e) => updateForm({ visibility: e.target.value as RepositoryVisibility })}
+                className={inputClassName}
+              >
+                {Object.entries(VISIBILITY_LABELS).map(([visibility, label]) => (
+                  <option key={visibility} value={visibility}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Description</label>
+            <textarea
+              value={form.description ?? ''}
+              onChange={(e) => updateForm({ description: e.target.value || null })}
+              rows={2}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={busy}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
+            >
+              {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+              {editingId === null ? 'Create Repository' : 'Save Changes'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setForm(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Repositories */}
+      <div className="card p-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 mb-6">
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <FolderGit2 className="w-5 h-5 text-primary-500" />
+            All Repositories
+          </h3>
+          {archivedCount > 0 && (
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+                className="w-4 h-4 text-primary-600 bg-gray-100 border-gray-300 rounded focus:ring-primary-500"
+              />
+              Show archived ({archivedCount})
+            </label>
+          )}
+        </div>
+        {visibleRepos.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No repositories yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-4 font-medium">Name</th>
+                  <th className="py-2 pr-4 font-medium">Team</th>
+                  <th className="py-2 pr-4 font-medium">Branch</th>
+                  <th className="py-2 pr-4 font-medium">Visibility</th>
+                  <th className="py-2 pr-4 font-medium text-right">Commits</th>
+                  <th className="py-2 pr-4 font-medium">Latest commit</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRepos.map(repo => (
+                  <tr key={repo.id} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-900 dark:text-white">
+                    <td className="py-3 pr-4">
+                      <p className="font-medium">
+                        {repo.name}
+                        {repo.archived && (
+                          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(archived)</span>
+                        )}
+                      </p>
+                      {repo.description && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{repo.description}</p>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4">{repo.team || '—'}</td>
+                    <td className="py-3 pr-4 font-mono text-xs">{repo.default_branch || '—'}</td>
+                    <td className="py-3 pr-4">{VISIBILITY_LABELS[repo.visibility]}</td>
+                    <td className="py-3 pr-4 text-right">{Number(repo.total_commits).toLocaleString()}</td>
+                    <td className="py-3 pr-4">{repo.latest_commit ? formatDate(repo.latest_commit) : '—'}</td>
+                    <td className="py-3">
+                      <div className="flex items-center justify-end gap-3">
+                        <button
+                          onClick={() => startEdit(repo)}
+                          disabled={busy}
+                          className="text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                          aria-label={`Edit ${repo.name}`}
+                          title="Edit"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        {repo.archived ? (
+                          <button
+                            onClick={() => runAction(() => unarchiveRepository(repo.id), 'Failed to restore repository')}
+                            disabled={busy}
+                            className="text-gray-400 hover:text-green-600 dark:hover:text-green-400"
+                            aria-label={`Restore ${repo.name}`}
+                            title="Restore"
+                          >
+                            <ArchiveRestore className="w-4 h-4" />
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleArchive(repo)}
+                            disabled={busy}
+                            className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                            aria-label={`Archive ${repo.name}`}
+                            title="Archive"
+                          >
+                            <Archive className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Repositories;
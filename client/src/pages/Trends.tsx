@@ -1,9 +1,15 @@
 import { useEffect, useState } from 'react';
 import { TrendingUp, Code, Users, User, Lightbulb, Scale, Maximize2, Minimize2 } from 'lucide-react';
 import { fetchRepos, fetchMonthlyTrends, fetchGlobalMonthlyTrends } from '../utils/api';
+import { useSyncUrlFilters, useUrlFilters } from '../utils/urlFilters';
+import { DATE_RANGE_FILTER_DEFAULTS, isInDateRange, monthsInRange, toDateRangeFilters } from '../utils/dateRange';
+import { useDateRange } from '../contexts/DateRangeContext';
 import { useLayout } from '../contexts/LayoutContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import TeamSelect from '../components/TeamSelect';
+import DateRangeSelect from '../components/DateRangeSelect';
 import MonthlyCommitDetails from '../components/MonthlyCommitDetails';
+import DownloadButton from '../components/DownloadButton';
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend,
   ResponsiveContainer, AreaChart, Area
@@ -31,15 +37,27 @@ interface TrendData {
   avg_lines_changed_per_commit: string;
 }
 
+// Filters kept in the URL query string
+const FILTER_DEFAULTS = { repo: 'all', team: 'all', ...DATE_RANGE_FILTER_DEFAULTS, perCommitter: false, weighted: true };
+
+// Months fetched for ranges without a start ("All time")
+const ALL_TIME_MONTHS = 120;
+
 function Trends(): JSX.Element {
+  const initialFilters = useUrlFilters(FILTER_DEFAULTS);
   const [repos, setRepos] = useState<Repository[]>([]);
-  const [selectedRepo, setSelectedRepo] = useState<string>('all');
+  const [selectedRepo, setSelectedRepo] = useState<string>(initialFilters.repo);
+  const [selectedTeam, setSelectedTeam] = useState<string>(initialFilters.team);
   const [trends, setTrends] = useState<TrendData[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [dataLoading, setDataLoading] = useState<boolean>(false);
-  const [monthsToShow, setMonthsToShow] = useState<number>(12);
-  const [perCommitter, setPerCommitter] = useState<boolean>(false);
-  const [useWeightedData, setUseWeightedData] = useState<boolean>(true);
+  const [perCommitter, setPerCommitter] = useState<boolean>(initialFilters.perCommitter);
+  const [useWeightedData, setUseWeightedData] = useState<boolean>(initialFilters.weighted);
+  const { selection, range } = useDateRange();
+  // The endpoints return the last N months; months outside the range are dropped
+  const monthsToShow = monthsInRange(range) ?? ALL_TIME_MONTHS;
+
+  useSyncUrlFilters({ repo: selectedRepo, team: selectedTeam, ...toDateRangeFilters(selection), perCommitter, weighted: useWeightedData }, FILTER_DEFAULTS);
   const [selectedMonth, setSelectedMonth] = useState<string | null>(null);
   const [isPanelOpen, setIsPanelOpen] = useState<boolean>(false);
   const [isFullWidth, setIsFullWidth] = useState<boolean>(() => {
@@ -85,12 +103,12 @@ function Trends(): JSX.Element {
     if (selectedRepo) {
       setDataLoading(true);
       const fetchData = selectedRepo === 'all'
-        ? fetchGlobalMonthlyTrends(monthsToShow)
-        : fetchMonthlyTrends(selectedRepo, monthsToShow);
+        ? fetchGlobalMonthlyTrends(monthsToShow, selectedTeam)
+        : fetchMonthlyTrends(selectedRepo, monthsToShow, selectedTeam);
 
       fetchData.then(res => {
         // Reverse to show oldest first
-        const reversedData = [...res.data].reverse();
+        const reversedData = res.data.filter((month: TrendData) => isInDateRange(month.year_month, range)).reverse();
         setTrends(reversedData);
         setDataLoading(false);
       }).catch(err => {
@@ -98,7 +116,7 @@ function Trends(): JSX.Element {
         setDataLoading(false);
       });
     }
-  }, [selectedRepo, monthsToShow]);
+  }, [selectedRepo, selectedTeam, monthsToShow, range.dateFrom, range.dateTo]);
 
   // Transform data to per-committer averages
   const transformToPerCommitter = (data: TrendData[]): TrendData[] => {
@@ -174,17 +192,11 @@ function Trends(): JSX.Element {
             ))}
           </select>
 
-          {/* Time Range Selector */}
-          <select
-            value={monthsToShow}
-            onChange={(e) => setMonthsToShow(Number(e.target.value))}
-            className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white transition-all duration-300 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-          >
-            <option value={3}>Last 3 Months</option>
-            <option value={6}>Last 6 Months</option>
-            <option value={12}>Last 12 Months</option>
-            <option value={24}>Last 24 Months</option>
-          </select>
+          {/* Team Selector */}
+          <TeamSelect value={selectedTeam} onChange={setSelectedTeam} />
+
+          {/* Date Range Selector (shared by all pages) */}
+          <DateRangeSelect />
 
           {/* Per Committer Checkbox */}
           <label className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 transition-all duration-300">
@@ -209,6 +221,11 @@ function Trends(): JSX.Element {
             <Scale className="w-4 h-4" />
             <span className="text-sm font-medium whitespace-nowrap">Use Weighted Data</span>
           </label>
+
+          <DownloadButton
+            path={selectedRepo === 'all' ? '/monthly-trends' : `/monthly-trends/${encodeURIComponent(selectedRepo)}`}
+            params={{ limit: monthsToShow, team: selectedTeam }}
+          />
         </div>
       </div>
 
@@ -33,6 +33,19 @@ import {
   fetchDailyActivity,
   fetchCompareRepos,
   fetchBeforeAfter,
+  fetchAiAdoption,
+  fetchDeliverySummary,
+  fetchDeliveryBreakdown,
+  fetchDeliveryPullRequests,
+  fetchDoraSummary,
+  fetchDoraBreakdown,
+  fetchDoraEnvironments,
+  fetchIssueSummary,
+  fetchIssueEffort,
+  fetchCategoryTaxonomy,
+  fetchCategories,
+  buildExportUrl,
+  buildReportUrl,
 } from './api';
 
 // Get the mock instance
@@ -63,6 +76,36 @@ describe('API utilities', () => {
       expect(mockGet).toHaveBeenCalledWith('/repos');
       expect(result).toEqual(mockData);
     });
+
+    it('should include archived repositories when requested', async () => {
+      mockGet.mockResolvedValue({ data: [] });
+
+      await fetchRepos(true);
+
+      expect(mockGet).toHaveBeenCalledWith('/repos?include_archived=true');
+    });
+  });
+
+  describe('fetchCategories', () => {
+    it('should request the sub-categories of a parent category', async () => {
+      mockGet.mockResolvedValue({ data: [] });
+
+      await fetchCategories(['api'], '2026-01-01', null, 'all', 'BILLING');
+
+      expect(mockGet).toHaveBeenCalledWith('/categories?repo=api&dateFrom=2026-01-01&parent=BILLING');
+    });
+  });
+
+  describe('fetchCategoryTaxonomy', () => {
+    it('should fetch the categories and rules', async () => {
+      const mockData: MockResponse = { data: { categories: [], rules: [] } };
+      mockGet.mockResolvedValue(mockData);
+
+      const result = await fetchCategoryTaxonomy();
+
+      expect(mockGet).toHaveBeenCalledWith('/category-taxonomy');
+      expect(result).toEqual(mockData);
+    });
   });
 
   describe('fetchGlobalMonthlyTrends', () => {
@@ -192,6 +235,15 @@ describe('API utilities', () => {
       expect(mockGet).toHaveBeenCalledWith('/contributors?limit=20&repo=test-repo');
     });
 
+    it('should fetch contributors of several repositories', async () => {
+      const mockData: MockResponse = { data: [] };
+      mockGet.mockResolvedValue(mockData);
+
+      await fetchContributors(20, ['api', 'web']);
+
+      expect(mockGet).toHaveBeenCalledWith('/contributors?limit=20&repo=api,web');
+    });
+
     it('should not add repo filter when repo is "all"', async () => {
       const mockData: MockResponse = { data: [] };
       mockGet.mockResolvedValue(mockData);
@@ -222,6 +274,14 @@ describe('API utilities', () => {
         '/contributors?limit=50&repo=test-repo&dateFrom=2024-01-01&dateTo=2024-12-31'
       );
     });
+
+    it('should fetch contributors of a team', async () => {
+      mockGet.mockResolvedValue({ data: [] });
+
+      await fetchContributors(20, 'all', null, null, 'Core Platform');
+
+      expect(mockGet).toHaveBeenCalledWith('/contributors?limit=20&team=Core%20Platform');
+    });
   });
 
   describe('fetchContributorsDateRange', () => {
@@ -286,6 +346,126 @@ describe('API utilities', () => {
     });
   });
 
+  describe('fetchAiAdoption', () => {
+    it('should fetch the AI adoption report without filters', async () => {
+      mockGet.mockResolvedValue({ data: {} });
+
+      await fetchAiAdoption();
+
+      expect(mockGet).toHaveBeenCalledWith('/ai-adoption');
+    });
+
+    it('should fetch the AI adoption report with all filters', async () => {
+      mockGet.mockResolvedValue({ data: {} });
+
+      await fetchAiAdoption(['api', 'web'], '2026-01-01', '2026-03-31', 'Payments');
+
+      expect(mockGet).toHaveBeenCalledWith('/ai-adoption?repo=api%2Cweb&team=Payments&dateFrom=2026-01-01&dateTo=2026-03-31');
+    });
+  });
+
+  describe('delivery endpoints', () => {
+    it('should fetch the delivery summary without filters', async () => {
+      mockGet.mockResolvedValue({ data: {} });
+
+      await fetchDeliverySummary();
+
+      expect(mockGet).toHaveBeenCalledWith('/delivery/summary');
+    });
+
+    it('should fetch a delivery breakdown with all filters', async () => {
+      mockGet.mockResolvedValue({ data: [] });
+
+      await fetchDeliveryBreakdown('monthly', ['api', 'web'], '2026-01-01', '2026-03-31', 'Payments');
+
+      expect(mockGet).toHaveBeenCalledWith('/delivery/monthly?repo=api%2Cweb&team=Payments&dateFrom=2026-01-01&dateTo=2026-03-31');
+    });
+
+    it('should fetch the slowest pull requests with a limit', async () => {
+      mockGet.mockResolvedValue({ data: [] });
+
+      await fetchDeliveryPullRequests('api', null, null, null, 10);
+
+      expect(mockGet).toHaveBeenCalledWith('/delivery/pull-requests?repo=api&limit=10');
+    });
+  });
+
+  describe('DORA endpoints', () => {
+    it('should fetch the DORA summary without filters', async () => {
+      mockGet.mockResolvedValue({ data: {} });
+
+      await fetchDoraSummary();
+
+      expect(mockGet).toHaveBeenCalledWith('/dora/summary');
+    });
+
+    it('should fetch a DORA breakdown with all filters', async () => {
+      mockGet.mockResolvedValue({ data: [] });
+
+      await fetchDoraBreakdown('repository-monthly', ['api', 'web'], '2026-01-01', '2026-03-31', 'staging');
+
+      expect(mockGet).toHaveBeenCalledWith(
+        '/dora/repository-monthly?repo=api%2Cweb&environment=staging&dateFrom=2026-01-01&dateTo=2026-03-31'
+      );
+    });
+
+    it('should fetch the deployment environments', async () => {
+      mockGet.mockResolvedValue({ data: [] });
+
+      await fetchDoraEnvironments();
+
+      expect(mockGet).toHaveBeenCalledWith('/dora/environments');
+    });
+  });
+
+  describe('issue endpoints', () => {
+    it('should fetch the issue summary without filters', async () => {
+      mockGet.mockResolvedValue({ data: {} });
+
+      await fetchIssueSummary();
+
+      expect(mockGet).toHaveBeenCalledWith('/issues/summary');
+    });
+
+    it('should fetch the effort by epic with all filters', async () => {
+      mockGet.mockResolvedValue({ data: [] });
+
+      await fetchIssueEffort('epics', ['api', 'web'], '2026-01-01', '2026-03-31', 'Payments');
+
+      expect(mockGet).toHaveBeenCalledWith('/issues/epics?repo=api%2Cweb&team=Payments&dateFrom=2026-01-01&dateTo=2026-03-31');
+    });
+  });
+
+  describe('buildExportUrl', () => {
+    it('should build an export URL with the applied filters', () => {
+      const url = buildExportUrl('/contributors', { limit: 20, repo: 'api', dateFrom: '2024-01-01', dateTo: '' }, 'csv');
+
+      expect(url).toBe('/api/contributors?limit=20&repo=api&dateFrom=2024-01-01&format=csv');
+    });
+
+    it('should omit the "all" repository filter', () => {
+      const url = buildExportUrl('/summary', { repo: 'all', dateFrom: null }, 'xlsx');
+
+      expect(url).toBe('/api/summary?format=xlsx');
+    });
+
+    it('should join the selected repositories', () => {
+      expect(buildExportUrl('/summary', { repo: ['api', 'web'] }, 'csv')).toBe('/api/summary?repo=api%2Cweb&format=csv');
+      expect(buildExportUrl('/summary', { repo: [] }, 'csv')).toBe('/api/summary?format=csv');
+    });
+  });
+
+  describe('buildReportUrl', () => {
+    it('should build a PDF report URL with the selected sections', () => {
+      const url = buildReportUrl(
+        { repo: 'api', dateFrom: '2024-01-01', dateTo: '2024-03-31' },
+        ['summary', 'categories']
+      );
+
+      expect(url).toBe('/api/reports/pdf?repo=api&dateFrom=2024-01-01&dateTo=2024-03-31&sections=summary%2Ccategories');
+    });
+  });
+
   describe('error handling', () => {
     it('should propagate errors from failed requests', async () => {
       const error = new Error('Network error');
@@ -24,35 +24,123 @@ api.interceptors.response.use(
   }
 );
 
+// Message of a failed request: the `error` returned by the API, or the fallback
+export const getErrorMessage = (error: unknown, fallback: string): string =>
+  (axios.isAxiosError(error) && typeof error.response?.data?.error === 'string' && error.response.data.error) || fallback;
+
 // Repository endpoints
-export const fetchRepos = (): Promise<AxiosResponse> => api.get('/repos');
+export const fetchRepos = (includeArchived: boolean = false): Promise<AxiosResponse> =>
+  api.get(includeArchived ? '/repos?include_archived=true' : '/repos');
+
+// Repository filter of the report endpoints: one name, several names, or 'all'/null for every repository
+export type RepoSelection = string | string[] | null;
+
+// Value of the `repo` query parameter (comma-separated names), or null for every repository
+export const toRepoParam = (repo: RepoSelection): string | null => {
+  const names = (Array.isArray(repo) ? repo : [repo]).filter((name): name is string => !!name && name !== 'all');
+  return names.length > 0 ? names.join(',') : null;
+};
+
+// Teams (changes require the admin role, see the README)
+export const fetchTeams = (): Promise<AxiosResponse> => api.get('/teams');
+
+// Repository settings (admin only)
+export type RepositoryVisibility = 'public' | 'internal' | 'private';
+
+export interface RepositoryInput {
+  name: string;
+  description: string | null;
+  default_branch: string | null;
+  team: string | null;
+  visibility: RepositoryVisibility;
+}
+
+export const createRepository = (repository: RepositoryInput): Promise<AxiosResponse> =>
+  api.post('/admin/repositories', repository);
+
+export const updateRepository = (id: number, changes: Partial<RepositoryInput>): Promise<AxiosResponse> =>
+  api.put(`/admin/repositories/${id}`, changes);
+
+export const archiveRepository = (id: number): Promise<AxiosResponse> =>
+  api.post(`/admin/repositories/${id}/archive`);
+
+export const unarchiveRepository = (id: number): Promise<AxiosResponse> =>
+  api.post(`/admin/repositories/${id}/unarchive`);
+
+// Category taxonomy (changes require the admin role)
+export interface TaxonomyCategoryInput {
+  name: string;
+  color: string;
+  parent_id: number | null;
+  synonyms: string[];
+}
+
+export interface CategoryRuleInput {
+  category_id: number;
+  pattern: string;
+  position: number;
+}
+
+export const fetchCategoryTaxonomy = (): Promise<AxiosResponse> => api.get('/category-taxonomy');
+
+export const createCategory = (category: TaxonomyCategoryInput): Promise<AxiosResponse> =>
+  api.post('/admin/categories', category);
+
+export const updateCategory = (id: number, changes: Partial<TaxonomyCategoryInput>): Promise<AxiosResponse> =>
+  api.put(`/admin/categories/${id}`, changes);
+
+export const deleteCategory = (id: number): Promise<AxiosResponse> =>
+  api.delete(`/admin/categories/${id}`);
+
+export const createCategoryRule = (rule: CategoryRuleInput): Promise<AxiosResponse> =>
+  api.post('/admin/category-rules', rule);
+
+export const updateCategoryRule = (id: number, changes: Partial<CategoryRuleInput>): Promise<AxiosResponse> =>
+  api.put(`/admin/category-rules/${id}`, changes);
+
+export const deleteCategoryRule = (id: number): Promise<AxiosResponse> =>
+  api.delete(`/admin/category-rules/${id}`);
+
+// Rewrite the category of the existing commits with the taxonomy (a dry run only counts the changes)
+export const recategorizeCommits = (dryRun: boolean): Promise<AxiosResponse> =>
+  api.post('/admin/recategorize', { dry_run: dryRun });
 
 // Trends endpoints
-export const fetchGlobalMonthlyTrends = (limit: number = 12): Promise<AxiosResponse> =>
-  api.get(`/monthly-trends?limit=${limit}`);
+export const fetchGlobalMonthlyTrends = (limit: number = 12, team: string | null = null): Promise<AxiosResponse> => {
+  let url = `/monthly-trends?limit=${limit}`;
+  if (team && team !== 'all') url += `&team=${encodeURIComponent(team)}`;
+  return api.get(url);
+};
 
-export const fetchMonthlyTrends = (repoName: string, limit: number = 12): Promise<AxiosResponse> =>
-  api.get(`/monthly-trends/${repoName}?limit=${limit}`);
+export const fetchMonthlyTrends = (repoName: string, limit: number = 12, team: string | null = null): Promise<AxiosResponse> => {
+  let url = `/monthly-trends/${repoName}?limit=${limit}`;
+  if (team && team !== 'all') url += `&team=${encodeURIComponent(team)}`;
+  return api.get(url);
+};
 
 export const fetchMonthlyCommits = (
   yearMonth: string,
   limit: number = 10,
-  repo: string | null = null
+  repo: RepoSelection = null
 ): Promise<AxiosResponse> => {
   let url = `/monthly-commits/${yearMonth}?limit=${limit}`;
-  if (repo && repo !== 'all') url += `&repo=${repo}`;
+  const repoParam = toRepoParam(repo);
+  if (repoParam) url += `&repo=${repoParam}`;
   return api.get(url);
 };
 
 // Contributors endpoints
 export const fetchContributors = (
   limit: number = 20,
-  repo: string | null = null,
+  repo: RepoSelection = null,
   dateFrom: string | null = null,
-  dateTo: string | null = null
+  dateTo: string | null = null,
+  team: string | null = null
 ): Promise<AxiosResponse> => {
   let url = `/contributors?limit=${limit}`;
-  if (repo && repo !== 'all') url += `&repo=${repo}`;
+  const repoParam = toRepoParam(repo);
+  if (repoParam) url += `&repo=${repoParam}`;
+  if (team && team !== 'all') url += `&team=${encodeURIComponent(team)}`;
   if (dateFrom) url += `&dateFrom=${dateFrom}`;
   if (dateTo) url += `&dateTo=${dateTo}`;
   return api.get(url);
@@ -75,48 +163,195 @@ export const fetchBeforeAfter = (
 ): Promise<AxiosResponse> =>
   api.get(`/before-after/${repoName}`, { params });
 
+// AI adoption endpoint (AI-assisted vs non-assisted commits)
+export const fetchAiAdoption = (
+  repo: RepoSelection = null,
+  dateFrom: string | null = null,
+  dateTo: string | null = null,
+  team: string | null = null
+): Promise<AxiosResponse> => {
+  const params = new URLSearchParams();
+  const repoParam = toRepoParam(repo);
+  if (repoParam) params.append('repo', repoParam);
+  if (team && team !== 'all') params.append('team', team);
+  if (dateFrom) params.append('dateFrom', dateFrom);
+  if (dateTo) params.append('dateTo', dateTo);
+  const queryString = params.toString();
+  return api.get(`/ai-adoption${queryString ? '?' + queryString : ''}`);
+};
+
+// Pull request delivery endpoints (cycle time, time to first review, review rounds)
+export type DeliveryBreakdown = 'repositories' | 'authors' | 'monthly';
+
+const deliveryQuery = (
+  path: string,
+  repo: RepoSelection,
+  dateFrom: string | null,
+  dateTo: string | null,
+  team: string | null,
+  limit: number | null = null
+): Promise<AxiosResponse> => {
+  const params = new URLSearchParams();
+  const repoParam = toRepoParam(repo);
+  if (repoParam) params.append('repo', repoParam);
+  if (team && team !== 'all') params.append('team', team);
+  if (dateFrom) params.append('dateFrom', dateFrom);
+  if (dateTo) params.append('dateTo', dateTo);
+  if (limit) params.append('limit', String(limit));
+  const queryString = params.toString();
+  return api.get(`/delivery/${path}${queryString ? '?' + queryString : ''}`);
+};
+
+export const fetchDeliverySummary = (
+  repo: RepoSelection = null,
+  dateFrom: string | null = null,
+  dateTo: string | null = null,
+  team: string | null = null
+): Promise<AxiosResponse> => deliveryQuery('summary', repo, dateFrom, dateTo, team);
+
+export const fetchDeliveryBreakdown = (
+  breakdown: DeliveryBreakdown,
+  repo: RepoSelection = null,
+  dateFrom: string | null = null,
+  dateTo: string | null = null,
+  team: string | null = null
+): Promise<AxiosResponse> => deliveryQuery(breakdown, repo, dateFrom, dateTo, team);
+
+export const fetchDeliveryPullRequests = (
+  repo: RepoSelection = null,
+  dateFrom: string | null = null,
+  dateTo: string | null = null,
+  team: string | null = null,
+  limit: number = 20
+): Promise<AxiosResponse> => deliveryQuery('pull-requests', repo, dateFrom, dateTo, team, limit);
+
+// DORA endpoints (deployments and incidents posted by CI)
+export type DoraBreakdown = 'repositories' | 'monthly' | 'repository-monthly';
+
+const doraQuery = (
+  path: string,
+  repo: RepoSelection,
+  dateFrom: string | null,
+  dateTo: string | null,
+  environment: string | null
+): Promise<AxiosResponse> => {
+  const params = new URLSearchParams();
+  const repoParam = toRepoParam(repo);
+  if (repoParam) params.append('repo', repoParam);
+  if (environment) params.append('environment', environment);
+  if (dateFrom) params.append('dateFrom', dateFrom);
+  if (dateTo) params.append('dateTo', dateTo);
+  const queryString = params.toString();
+  return api.get(`/dora/${path}${queryString ? '?' + queryString : ''}`);
+};
+
+export const fetchDoraSummary = (
+  repo: RepoSelection = null,
+  dateFrom: string | null = null,
+  dateTo: string | null = null,
+  environment: string | null = null
+): Promise<AxiosResponse> => doraQuery('summary', repo, dateFrom, dateTo, environment);
+
+export const fetchDoraBreakdown = (
+  breakdown: DoraBreakdown,
+  repo: RepoSelection = null,
+  dateFrom: string | null = null,
+  dateTo: string | null = null,
+  environment: string | null = null
+): Promise<AxiosResponse> => doraQuery(breakdown, repo, dateFrom, dateTo, environment);
+
+export const fetchDoraEnvironments = (): Promise<AxiosResponse> => api.get('/dora/environments');
+
+// Issue tracker endpoints (effort of the commits linked to imported Jira / GitLab issues)
+export type IssueEffortBreakdown = 'epics' | 'types';
+
+const issueQuery = (
+  path: string,
+  repo: RepoSelection,
+  dateFrom: string | null,
+  dateTo: string | null,
+  team: string | null
+): Promise<AxiosResponse> => {
+  const params = new URLSearchParams();
+  const repoParam = toRepoParam(repo);
+  if (repoParam) params.append('repo', repoParam);
+  if (team && team !== 'all') params.append('team', team);
+  if (dateFrom) params.append('dateFrom', dateFrom);
+  if (dateTo) params.append('dateTo', dateTo);
+  const queryString = params.toString();
+  return api.get(`/issues/${path}${queryString ? '?' + queryString : ''}`);
+};
+
+export const fetchIssueSummary = (
+  repo: RepoSelection = null,
+  dateFrom: string | null = null,
+  dateTo: string | null = null,
+  team: string | null = null
+): Promise<AxiosResponse> => issueQuery('summary', repo, dateFrom, dateTo, team);
+
+export const fetchIssueEffort = (
+  breakdown: IssueEffortBreakdown,
+  repo: RepoSelection = null,
+  dateFrom: string | null = null,
+  dateTo: string | null = null,
+  team: string | null = null
+): Promise<AxiosResponse> => issueQuery(breakdown, repo, dateFrom, dateTo, team);
+
 // Category endpoints
 export const fetchCategories = (
-  repo: string | null = null,
+  repo: RepoSelection = null,
   dateFrom: string | null = null,
-  dateTo: string | null = null
+  dateTo: string | null = null,
+  team: string | null = null,
+  parent: string | null = null
 ): Promise<AxiosResponse> => {
   const params = new URLSearchParams();
-  if (repo && repo !== 'all') params.append('repo', repo);
+  const repoParam = toRepoParam(repo);
+  if (repoParam) params.append('repo', repoParam);
+  if (team && team !== 'all') params.append('team', team);
   if (dateFrom) params.append('dateFrom', dateFrom);
   if (dateTo) params.append('dateTo', dateTo);
+  if (parent) params.append('parent', parent);
   const queryString = params.toString();
   return api.get(`/categories${queryString ? '?' + queryString : ''}`);
 };
 
 export const fetchCategoryTrends = (
   months: number = 12,
-  repo: string | null = null
+  repo: RepoSelection = null,
+  parent: string | null = null
 ): Promise<AxiosResponse> => {
   let url = `/category-trends?months=${months}`;
-  if (repo && repo !== 'all') url += `&repo=${repo}`;
+  const repoParam = toRepoParam(repo);
+  if (repoParam) url += `&repo=${repoParam}`;
+  if (parent) url += `&parent=${encodeURIComponent(parent)}`;
   return api.get(url);
 };
 
 export const fetchCategoryByRepo = (
   dateFrom: string | null = null,
-  dateTo: string | null = null
+  dateTo: string | null = null,
+  parent: string | null = null
 ): Promise<AxiosResponse> => {
   const params = new URLSearchParams();
   if (dateFrom) params.append('dateFrom', dateFrom);
   if (dateTo) params.append('dateTo', dateTo);
+  if (parent) params.append('parent', parent);
   const queryString = params.toString();
   return api.get(`/category-by-repo${queryString ? '?' + queryString : ''}`);
 };
 
 // Summary report endpoint
 export const fetchSummary = (
-  repo: string | null = null,
+  repo: RepoSelection = null,
   dateFrom: string | null = null,
-  dateTo: string | null = null
+  dateTo: string | null = null,
+  team: string | null = null
 ): Promise<AxiosResponse> => {
   const params = new URLSearchParams();
-  if (repo && repo !== 'all') params.append('repo', repo);
+  const repoParam = toRepoParam(repo);
+  if (repoParam) params.append('repo', repoParam);
+  if (team && team !== 'all') params.append('team', team);
   if (dateFrom) params.append('dateFrom', dateFrom);
   if (dateTo) params.append('dateTo', dateTo);
   const queryString = params.toString();
@@ -126,20 +361,182 @@ export const fetchSummary = (
 // Personal performance endpoint
 export const fetchPersonalPerformance = (
   authorEmail: string,
-  repo: string | null = null,
+  repo: RepoSelection = null,
   dateFrom: string | null = null,
   dateTo: string | null = null,
   limit: number = 50
 ): Promise<AxiosResponse> => {
   const params = new URLSearchParams();
   params.append('authorEmail', authorEmail);
-  if (repo && repo !== 'all') params.append('repo', repo);
+  const repoParam = toRepoParam(repo);
+  if (repoParam) params.append('repo', repoParam);
   if (dateFrom) params.append('dateFrom', dateFrom);
   if (dateTo) params.append('dateTo', dateTo);
   params.append('limit', limit.toString());
   return api.get(`/personal-performance?${params.toString()}`);
 };
 
+// Author emails claimed by the current user (aggregated in personal performance)
+export const fetchClaimedAuthorEmails = (): Promise<AxiosResponse> =>
+  api.get('/me/author-emails');
+
+export const claimAuthorEmail = (email: string): Promise<AxiosResponse> =>
+  api.post('/me/author-emails', { email });
+
+export const removeClaimedAuthorEmail = (id: number): Promise<AxiosResponse> =>
+  api.delete(`/me/author-emails/${id}`);
+
+// Email digest subscriptions of the current user
+export type DigestFrequency = 'weekly' | 'monthly';
+
+export const fetchDigestSubscriptions = (): Promise<AxiosResponse> =>
+  api.get('/me/digest-subscriptions');
+
+export const updateDigestSubscriptions = (changes: Partial<Record<DigestFrequency, boolean>>): Promise<AxiosResponse> =>
+  api.put('/me/digest-subscriptions', changes);
+
+// Saved views of the current user: a page path and the query string of its filters
+export interface SavedViewInput {
+  name: string;
+  path: string;
+  query: string;
+}
+
+export const fetchSavedViews = (): Promise<AxiosResponse> =>
+  api.get('/views');
+
+export const createSavedView = (view: SavedViewInput): Promise<AxiosResponse> =>
+  api.post('/views', view);
+
+export const updateSavedView = (id: number, changes: Partial<SavedViewInput>): Promise<AxiosResponse> =>
+  api.put(`/views/${id}`, changes);
+
+export const deleteSavedView = (id: number): Promise<AxiosResponse> =>
+  api.delete(`/views/${id}`);
+
+// Display preferences and landing view of the current user
+export interface Preferences {
+  dark_mode: boolean;
+  sidebar_collapsed: boolean;
+  default_view_id: number | null;
+}
+
+export const fetchPreferences = (): Promise<AxiosResponse> =>
+  api.get('/me/preferences');
+
+export const updatePreferences = (changes: Partial<Preferences>): Promise<AxiosResponse> =>
+  api.put('/me/preferences', changes);
+
+// Freshness of the materialized views (mv_monthly_stats_by_repo, mv_monthly_category_stats)
+export const fetchDataFreshness = (): Promise<AxiosResponse> =>
+  api.get('/data-freshness');
+
+export const refreshMaterializedViews = (): Promise<AxiosResponse> =>
+  api.post('/admin/refresh-views');
+
+// Import a commit export (JSON file) into a repository (admin only)
+export const importCommits = (file: File, repository: string = ''): Promise<AxiosResponse> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (repository) {
+    formData.append('repository', repository);
+  }
+  return api.post('/admin/import', formData, { headers: { 'Content-Type': 'multipart/form-data' } });
+};
+
+// Import a pull request export (GitHub pull requests or GitLab merge requests)
+export const importPullRequests = (file: File, repository: string = ''): Promise<AxiosResponse> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (repository) {
+    formData.append('repository', repository);
+  }
+  return api.post('/admin/import/pull-requests', formData, { headers: { 'Content-Type': 'multipart/form-data' } });
+};
+
+// Import an issue export (Jira or GitLab issues); the repository names the GitLab project
+// of issues without references
+export const importIssues = (file: File, repository: string = ''): Promise<AxiosResponse> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (repository) {
+    formData.append('repository', repository);
+  }
+  return api.post('/admin/import/issues', formData, { headers: { 'Content-Type': 'multipart/form-data' } });
+};
+
+// Metric alert rules (changes require the admin role)
+export type AlertMetric = 'total_commits' | 'effective_commits' | 'total_lines_changed' | 'avg_weight' | 'weight_efficiency_pct';
+export type AlertCondition = 'drop_pct' | 'below' | 'above';
+
+export interface AlertRuleInput {
+  name: string;
+  repository_name: string | null;
+  metric: AlertMetric;
+  period: DigestFrequency;
+  condition: AlertCondition;
+  threshold: number;
+  webhook_url: string;
+  enabled: boolean;
+}
+
+export const fetchAlertRules = (): Promise<AxiosResponse> =>
+  api.get('/alerts/rules');
+
+export const fetchAlertEvents = (limit: number = 50): Promise<AxiosResponse> =>
+  api.get(`/alerts/events?limit=${limit}`);
+
+export const createAlertRule = (rule: AlertRuleInput): Promise<AxiosResponse> =>
+  api.post('/alerts/rules', rule);
+
+export const updateAlertRule = (id: number, changes: Partial<AlertRuleInput>): Promise<AxiosResponse> =>
+  api.put(`/alerts/rules/${id}`, changes);
+
+export const deleteAlertRule = (id: number): Promise<AxiosResponse> =>
+  api.delete(`/alerts/rules/${id}`);
+
+export const testAlertRule = (id: number): Promise<AxiosResponse> =>
+  api.post(`/alerts/rules/${id}/test`);
+
+export const evaluateAlertRules = (): Promise<AxiosResponse> =>
+  api.post('/alerts/evaluate');
+
+// Report exports (CSV/XLSX attachments streamed by the report endpoints)
+export type ExportFormat = 'csv' | 'xlsx';
+
+type ReportParams = Record<string, string | string[] | number | null | undefined>;
+
+// Query string of report parameters, skipping empty values and the 'all' repository
+const toReportQuery = (params: ReportParams): URLSearchParams => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    const param = key === 'repo' ? toRepoParam(value as RepoSelection) : value;
+    if (param !== null && param !== undefined && param !== '') {
+      query.append(key, Array.isArray(param) ? param.join(',') : String(param));
+    }
+  });
+  return query;
+};
+
+export const buildExportUrl = (
+  path: string,
+  params: ReportParams,
+  format: ExportFormat
+): string => {
+  const query = toReportQuery(params);
+  query.append('format', format);
+  return `${API_BASE_URL}${path}?${query.toString()}`;
+};
+
+// PDF report builder (Reports page)
+export type ReportSection = 'summary' | 'contributors' | 'categories' | 'before-after';
+
+export const buildReportUrl = (params: ReportParams, sections: ReportSection[]): string => {
+  const query = toReportQuery(params);
+  query.append('sections', sections.join(','));
+  return `${API_BASE_URL}/reports/pdf?${query.toString()}`;
+};
+
 // Auth endpoints (proxied to backend by Vite in dev)
 export const checkAuth = (): Promise<AxiosResponse> =>
   axios.get('/auth/check', { withCredentials: true });
@@ -149,11 +546,41 @@ export const logout = (): Promise<AxiosResponse> =>
 
 
 // Commit endpoints
+// Commit as returned by the commit endpoints (search results also name the repository)
+export interface Commit {
+  id: number;
+  hash: string;
+  subject: string;
+  description: string | null;
+  author_name: string;
+  author_email: string;
+  commit_date: string;
+  category: string;
+  weight: number;
+  ai_tools: string;
+  lines_added: number;
+  lines_deleted: number;
+  repository_name?: string;
+}
+
 export const searchCommits = (params: any): Promise<AxiosResponse> =>
   api.get('/commits', { params });
 
 export const updateCommit = (hash: string, data: any): Promise<AxiosResponse> =>
   api.put(`/commits/${hash}`, data);
 
+export const bulkUpdateCommits = (data: {
+  hashes?: string[];
+  filters?: Record<string, string>;
+  changes: Record<string, string | number>;
+}): Promise<AxiosResponse> =>
+  api.patch('/commits', data);
+
+export const fetchCommitHistory = (hash: string): Promise<AxiosResponse> =>
+  api.get(`/commits/${hash}/history`);
+
+export const revertCommitEdit = (hash: string, editId: number): Promise<AxiosResponse<Commit>> =>
+  api.post(`/commits/${hash}/history/${editId}/revert`);
+
 export default api;
 
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { formatDate, toISOFormat, fromISOFormat, addMonths } from './dateFormat';
+import { formatDate, formatDateTime, toISOFormat, fromISOFormat, addMonths } from './dateFormat';
 
 describe('dateFormat utilities', () => {
   describe('formatDate', () => {
@@ -26,6 +26,17 @@ describe('dateFormat utilities', () => {
     });
   });
 
+  describe('formatDateTime', () => {
+    it('should format a date with local hours and minutes', () => {
+      expect(formatDateTime(new Date(2026, 9, 18, 9, 5))).toBe('18/10/2026 09:05');
+    });
+
+    it('should return empty string for invalid or missing dates', () => {
+      expect(formatDateTime('invalid-date')).toBe('');
+      expect(formatDateTime(null)).toBe('');
+    });
+  });
+
   describe('toISOFormat', () => {
     it('should convert dd/mm/yyyy to yyyy-mm-dd', () => {
       expect(toISOFormat('25/12/2024')).toBe('2024-12-25');
@@ -15,6 +15,20 @@ export const formatDate = (date: Date | string | null | undefined): string => {
   return `${day}/${month}/${year}`;
 };
 
+/**
+ * Format a date object or ISO string to dd/mm/yyyy hh:mm format (local time)
+ * @param date - Date object or ISO date string
+ * @returns Formatted date and time string
+ */
+export const formatDateTime = (date: Date | string | null | undefined): string => {
+  if (!date) return '';
+  const d = date instanceof Date ? date : new Date(date);
+  if (isNaN(d.getTime())) return '';
+  const hours = String(d.getHours()).padStart(2, '0');
+  const minutes = String(d.getMinutes()).padStart(2, '0');
+  return `${formatDate(d)} ${hours}:${minutes}`;
+};
+
 /**
  * Convert dd/mm/yyyy format to yyyy-mm-dd (ISO format for HTML date inputs)
  * @param dateStr - Date string in dd/mm/yyyy format
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  daysInRange,
+  describeDateRange,
+  isInDateRange,
+  monthsInRange,
+  parseDateRangeFilters,
+  resolveDateRange,
+  toDateRangeFilters,
+} from './dateRange';
+
+describe('dateRange utilities', () => {
+  // Sunday 19 October 2026
+  const today = new Date(2026, 9, 19);
+
+  describe('resolveDateRange', () => {
+    it('should resolve the relative presets against today', () => {
+      expect(resolveDateRange({ preset: '7d', from: '', to: '' }, today)).toEqual({ dateFrom: '2026-10-12', dateTo: '2026-10-19' });
+      expect(resolveDateRange({ preset: '90d', from: '', to: '' }, today)).toEqual({ dateFrom: '2026-07-21', dateTo: '2026-10-19' });
+      expect(resolveDateRange({ preset: 'qtd', from: '', to: '' }, today)).toEqual({ dateFrom: '2026-10-01', dateTo: '2026-10-19' });
+      expect(resolveDateRange({ preset: 'ytd', from: '', to: '' }, today)).toEqual({ dateFrom: '2026-01-01', dateTo: '2026-10-19' });
+    });
+
+    it('should leave open-ended bounds empty', () => {
+      expect(resolveDateRange({ preset: 'all', from: '', to: '' }, today)).toEqual({ dateFrom: null, dateTo: null });
+      expect(resolveDateRange({ preset: 'custom', from: '2026-01-01', to: '' }, today)).toEqual({ dateFrom: '2026-01-01', dateTo: null });
+    });
+  });
+
+  describe('monthsInRange and daysInRange', () => {
+    it('should count back from today to the start of the range', () => {
+      const range = { dateFrom: '2026-07-21', dateTo: '2026-10-19' };
+
+      expect(monthsInRange(range, today)).toBe(4);
+      expect(daysInRange(range, today)).toBe(90);
+    });
+
+    it('should return null without a start', () => {
+      expect(monthsInRange({ dateFrom: null, dateTo: null }, today)).toBeNull();
+      expect(daysInRange({ dateFrom: null, dateTo: '2026-10-01' }, today)).toBeNull();
+    });
+  });
+
+  describe('isInDateRange', () => {
+    it('should compare days and months with the bounds', () => {
+      const range = { dateFrom: '2026-07-21', dateTo: '2026-09-30' };
+
+      expect(isInDateRange('2026-07-21', range)).toBe(true);
+      expect(isInDateRange('2026-07-20', range)).toBe(false);
+      expect(isInDateRange('2026-07', range)).toBe(true);
+      expect(isInDateRange('2026-10', range)).toBe(false);
+    });
+  });
+
+  describe('URL filters', () => {
+    it('should only write the dates of custom ranges', () => {
+      expect(toDateRangeFilters({ preset: 'ytd', from: '2026-01-01', to: '' })).toEqual({ range: 'ytd', dateFrom: '', dateTo: '' });
+      expect(toDateRangeFilters({ preset: 'custom', from: '2026-01-01', to: '2026-03-31' })).toEqual({
+        range: 'custom',
+        dateFrom: '2026-01-01',
+        dateTo: '2026-03-31',
+      });
+    });
+
+    it('should read presets and treat dates without a preset as a custom range', () => {
+      expect(parseDateRangeFilters(new URLSearchParams('range=qtd&dateFrom=2026-01-01'))).toEqual({ preset: 'qtd', from: '', to: '' });
+      expect(parseDateRangeFilters(new URLSearchParams('dateFrom=2026-01-01'))).toEqual({ preset: 'custom', from: '2026-01-01', to: '' });
+      expect(parseDateRangeFilters(new URLSearchParams('repo=api'))).toBeNull();
+      expect(parseDateRangeFilters(new URLSearchParams('range=decade'))).toBeNull();
+    });
+
+    it('should map the months and days of legacy links to a custom range', () => {
+      expect(parseDateRangeFilters(new URLSearchParams('repo=api&months=6'), today)).toEqual({ preset: 'custom', from: '2026-04-19', to: '' });
+      expect(parseDateRangeFilters(new URLSearchParams('days=365'), today)).toEqual({ preset: 'custom', from: '2025-10-19', to: '' });
+      expect(parseDateRangeFilters(new URLSearchParams('range=30d&months=6'), today)).toEqual({ preset: '30d', from: '', to: '' });
+      expect(parseDateRangeFilters(new URLSearchParams('months=abc'), today)).toBeNull();
+    });
+  });
+
+  describe('describeDateRange', () => {
+    it('should label presets and custom ranges', () => {
+      const format = (date: string) => date.split('-').reverse().join('/');
+
+      expect(describeDateRange({ preset: '30d', from: '', to: '' }, format)).toBe('Last 30 days');
+      expect(describeDateRange({ preset: 'custom', from: '2026-01-01', to: '2026-03-31' }, format)).toBe('01/01/2026 to 31/03/2026');
+      expect(describeDateRange({ preset: 'custom', from: '', to: '' }, format)).toBe('All time');
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Date range shared by the dashboard pages (see DateRangeContext)
+ *
+ * A selection is a relative preset, resolved against today's date, or a custom
+ * range. The resolved range maps to the dateFrom/dateTo parameters of the report
+ * endpoints, and to the month/day counts of the trends and activity endpoints.
+ */
+
+export type DateRangePreset = '7d' | '30d' | '90d' | 'qtd' | 'ytd' | 'all' | 'custom';
+
+export interface DateRangeSelection {
+  preset: DateRangePreset;
+  /** Start of a custom range (yyyy-mm-dd, '' for open-ended) */
+  from: string;
+  /** End of a custom range (yyyy-mm-dd, '' for open-ended) */
+  to: string;
+}
+
+export interface ResolvedDateRange {
+  dateFrom: string | null;
+  dateTo: string | null;
+}
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: 'qtd', label: 'Quarter to date' },
+  { value: 'ytd', label: 'Year to date' },
+  { value: 'all', label: 'All time' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+export const DEFAULT_DATE_RANGE: DateRangeSelection = { preset: '90d', from: '', to: '' };
+
+const PRESET_DAYS: Partial<Record<DateRangePreset, number>> = { '7d': 7, '30d': 30, '90d': 90 };
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a date as yyyy-mm-dd in local time
+ */
+export const toLocalISODate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Parse yyyy-mm-dd as a local date
+const parseLocalDate = (isoDate: string): Date => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const isDateRangePreset = (value: unknown): value is DateRangePreset =>
+  DATE_RANGE_PRESETS.some(preset => preset.value === value);
+
+/**
+ * Dates of a selection
+ * @param selection - Preset or custom range
+ * @param today - Reference date of the relative presets
+ * @returns Inclusive yyyy-mm-dd bounds (null for open-ended)
+ */
+export function resolveDateRange(selection: DateRangeSelection, today: Date = new Date()): ResolvedDateRange {
+  const end = toLocalISODate(today);
+  const days = PRESET_DAYS[selection.preset];
+
+  if (days !== undefined) {
+    const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - days);
+    return { dateFrom: toLocalISODate(start), dateTo: end };
+  }
+  switch (selection.preset) {
+    case 'qtd': {
+      const quarterStart = new Date(today.getFullYear(), Math.floor(today.getMonth() / 3) * 3, 1);
+      return { dateFrom: toLocalISODate(quarterStart), dateTo: end };
+    }
+    case 'ytd':
+      return { dateFrom: toLocalISODate(new Date(today.getFullYear(), 0, 1)), dateTo: end };
+    case 'custom':
+      return { dateFrom: selection.from || null, dateTo: selection.to || null };
+    default:
+      return { dateFrom: null, dateTo: null };
+  }
+}
+
+/**
+ * Number of months (including the current one) reaching back to the start of a range
+ * Used for the `limit`/`months` parameters of the monthly trends endpoints.
+ * @returns Month count, or null for ranges without a start
+ */
+export function monthsInRange(range: ResolvedDateRange, today: Date = new Date()): number | null {
+  if (!range.dateFrom) return null;
+  const start = parseLocalDate(range.dateFrom);
+  const months = (today.getFullYear() - start.getFullYear()) * 12 + today.getMonth() - start.getMonth() + 1;
+  return Math.max(months, 1);
+}
+
+/**
+ * Number of days reaching back to the start of a range
+ * Used for the `days` parameter of the daily activity endpoint.
+ * @returns Day count, or null for ranges without a start
+ */
+export function daysInRange(range: ResolvedDateRange, today: Date = new Date()): number | null {
+  if (!range.dateFrom) return null;
+  const start = parseLocalDate(range.dateFrom);
+  const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.max(Math.round((todayStart.getTime() - start.getTime()) / MS_PER_DAY), 1);
+}
+
+/**
+ * True when a date (yyyy-mm-dd) or month (yyyy-mm) falls within a range
+ * Months are compared with the months of the bounds.
+ */
+export function isInDateRange(date: string, range: ResolvedDateRange): boolean {
+  const from = range.dateFrom?.slice(0, date.length);
+  const to = range.dateTo?.slice(0, date.length);
+  return (!from || date >= from) && (!to || date <= to);
+}
+
+/**
+ * Readable label of a selection, e.g. "Last 30 days" or "01/07/2026 to 30/09/2026"
+ * @param formatDate - Formatter of the custom bounds
+ */
+export function describeDateRange(selection: DateRangeSelection, formatDate: (isoDate: string) => string): string {
+  if (selection.preset !== 'custom') {
+    return DATE_RANGE_PRESETS.find(preset => preset.value === selection.preset)?.label ?? '';
+  }
+  if (selection.from && selection.to) return `${formatDate(selection.from)} to ${formatDate(selection.to)}`;
+  if (selection.from) return `From ${formatDate(selection.from)}`;
+  if (selection.to) return `Until ${formatDate(selection.to)}`;
+  return 'All time';
+}
+
+/**
+ * URL filters of the date range (merged into the filters of each page)
+ * The range is always written, so that a link restores it on any page.
+ */
+export const DATE_RANGE_FILTER_DEFAULTS = { range: '', dateFrom: '', dateTo: '' };
+
+export function toDateRangeFilters(selection: DateRangeSelection): typeof DATE_RANGE_FILTER_DEFAULTS {
+  return selection.preset === 'custom'
+    ? { range: 'custom', dateFrom: selection.from, dateTo: selection.to }
+    : { range: selection.preset, dateFrom: '', dateTo: '' };
+}
+
+// Positive integer of a legacy `months`/`days` parameter (null otherwise)
+const parseLegacyCount = (value: string | null): number | null =>
+  value && /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : null;
+
+/**
+ * Selection in a URL query string
+ * Links without `range` (shared before the presets existed) are custom ranges: their
+ * dates, or the last `months`/`days` of the Trends and Activity pages.
+ * @param params - Query string
+ * @param today - Reference date of the `months`/`days` links
+ * @returns Selection, or null when the URL has no date range
+ */
+export function parseDateRangeFilters(params: URLSearchParams, today: Date = new Date()): DateRangeSelection | null {
+  const range = params.get('range');
+  const from = params.get('dateFrom') || '';
+  const to = params.get('dateTo') || '';
+
+  if (isDateRangePreset(range)) {
+    return range === 'custom' ? { preset: 'custom', from, to } : { preset: range, from: '', to: '' };
+  }
+  if (from || to) {
+    return { preset: 'custom', from, to };
+  }
+
+  const months = parseLegacyCount(params.get('months'));
+  const days = parseLegacyCount(params.get('days'));
+  if (months !== null || days !== null) {
+    const start = months !== null
+      ? new Date(today.getFullYear(), today.getMonth() - months, today.getDate())
+      : new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days as number));
+    return { preset: 'custom', from: toLocalISODate(start), to: '' };
+  }
+  return null;
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { isAdmin, canEditCommit } from './permissions';
+
+describe('permissions', () => {
+  const author = { email: 'jane@example.com', name: 'Jane', domain: 'example.com', role: 'user' as const };
+  const admin = { email: 'boss@example.com', name: 'Boss', domain: 'example.com', role: 'admin' as const };
+
+  describe('isAdmin', () => {
+    it('should return true only for admin users', () => {
+      expect(isAdmin(admin)).toBe(true);
+      expect(isAdmin(author)).toBe(false);
+      expect(isAdmin(null)).toBe(false);
+    });
+
+    it('should treat users without a role as regular users', () => {
+      expect(isAdmin({ email: 'x@example.com', name: 'X', domain: 'example.com' })).toBe(false);
+    });
+  });
+
+  describe('canEditCommit', () => {
+    it('should allow the commit author', () => {
+      expect(canEditCommit(author, 'jane@example.com')).toBe(true);
+    });
+
+    it('should compare emails case-insensitively', () => {
+      expect(canEditCommit(author, '  Jane@Example.com ')).toBe(true);
+    });
+
+    it('should reject other users', () => {
+      expect(canEditCommit(author, 'john@example.com')).toBe(false);
+      expect(canEditCommit(author, null)).toBe(false);
+    });
+
+    it('should allow admins to edit any commit', () => {
+      expect(canEditCommit(admin, 'john@example.com')).toBe(true);
+    });
+
+    it('should reject anonymous users', () => {
+      expect(canEditCommit(null, 'jane@example.com')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import type { User } from '../contexts/AuthContext';
+
+/**
+ * Check whether a user has the admin role
+ * @param user - Authenticated user (or null)
+ * @returns True if the user is an admin
+ */
+export function isAdmin(user: User | null | undefined): boolean {
+  return user?.role === 'admin';
+}
+
+/**
+ * Check whether a user may edit a commit.
+ * Mirrors the server rule: admins can edit any commit, other users only their own.
+ * @param user - Authenticated user (or null)
+ * @param authorEmail - Author email stored on the commit
+ * @returns True if the edit action should be offered
+ */
+export function canEditCommit(user: User | null | undefined, authorEmail: string | null | undefined): boolean {
+  if (!user) return false;
+  if (isAdmin(user)) return true;
+  if (!authorEmail) return false;
+  return user.email.trim().toLowerCase() === authorEmail.trim().toLowerCase();
+}
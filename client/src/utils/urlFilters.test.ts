@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { buildFilterQuery, formatUrlFilter, parseUrlFilter } from './urlFilters';
+
+describe('urlFilters utilities', () => {
+  describe('parseUrlFilter', () => {
+    it('should return the default when the parameter is missing', () => {
+      expect(parseUrlFilter(null, 12)).toBe(12);
+      expect(parseUrlFilter(null, ['api'])).toEqual(['api']);
+    });
+
+    it('should parse the parameter as the type of the default', () => {
+      expect(parseUrlFilter('6', 12)).toBe(6);
+      expect(parseUrlFilter('false', true)).toBe(false);
+      expect(parseUrlFilter('api,web', [] as string[])).toEqual(['api', 'web']);
+      expect(parseUrlFilter('billing-api', 'all')).toBe('billing-api');
+    });
+
+    it('should ignore invalid numbers and booleans', () => {
+      expect(parseUrlFilter('six', 12)).toBe(12);
+      expect(parseUrlFilter('yes', true)).toBe(true);
+    });
+  });
+
+  describe('formatUrlFilter', () => {
+    it('should leave default values out of the URL', () => {
+      expect(formatUrlFilter(12, 12)).toBeNull();
+      expect(formatUrlFilter([], [])).toBeNull();
+      expect(formatUrlFilter(false, true)).toBe('false');
+      expect(formatUrlFilter(['api', 'web'], [])).toBe('api,web');
+    });
+  });
+
+  describe('buildFilterQuery', () => {
+    it('should set changed filters and remove the default ones', () => {
+      const defaults = { repo: 'all', months: 12, weighted: true };
+      const query = buildFilterQuery(
+        { repo: 'billing-api', months: 12, weighted: false },
+        defaults,
+        new URLSearchParams('months=6&other=1')
+      );
+
+      expect(query.toString()).toBe('other=1&repo=billing-api&weighted=false');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+/**
+ * Page filters kept in the URL query string, so that a filtered view can be shared as a link.
+ *
+ * Pages read their initial filters with useUrlFilters and write them back with
+ * useSyncUrlFilters. Values equal to the defaults are left out of the URL.
+ */
+
+export type UrlFilterValue = string | number | boolean | string[];
+
+export type UrlFilters = Record<string, UrlFilterValue>;
+
+/**
+ * Parse a query parameter as the type of its default value
+ * @param param - Query parameter (null when missing)
+ * @param defaultValue - Value used when the parameter is missing or invalid
+ * @returns Filter value
+ */
+export function parseUrlFilter<T extends UrlFilterValue>(param: string | null, defaultValue: T): T {
+  if (param === null) return defaultValue;
+
+  if (Array.isArray(defaultValue)) {
+    return param.split(',').filter(Boolean) as T;
+  }
+  if (typeof defaultValue === 'number') {
+    const value = Number(param);
+    return (param !== '' && Number.isFinite(value) ? value : defaultValue) as T;
+  }
+  if (typeof defaultValue === 'boolean') {
+    if (param === 'true') return true as T;
+    if (param === 'false') return false as T;
+    return defaultValue;
+  }
+  return param as T;
+}
+
+/**
+ * Query parameter of a filter value (lists are comma-separated)
+ * @returns Parameter, or null when the value is the default
+ */
+export function formatUrlFilter(value: UrlFilterValue, defaultValue: UrlFilterValue): string | null {
+  const format = (filter: UrlFilterValue) => Array.isArray(filter) ? filter.join(',') : String(filter);
+  const param = format(value);
+  return param === format(defaultValue) ? null : param;
+}
+
+/**
+ * Query string of page filters
+ * @param filters - Current filter values
+ * @param defaults - Filter names and default values
+ * @param base - Other parameters to keep
+ */
+export function buildFilterQuery<T extends UrlFilters>(filters: T, defaults: T, base?: URLSearchParams): URLSearchParams {
+  const query = new URLSearchParams(base);
+  Object.keys(defaults).forEach(key => {
+    const param = formatUrlFilter(filters[key], defaults[key]);
+    if (param === null) {
+      query.delete(key);
+    } else {
+      query.set(key, param);
+    }
+  });
+  return query;
+}
+
+/**
+ * Initial filters of a page: the URL query parameters, falling back to the defaults
+ * The URL is only read when the page mounts.
+ * @param defaults - Filter names and default values
+ */
+export function useUrlFilters<T extends UrlFilters>(defaults: T): T {
+  const [searchParams] = useSearchParams();
+  const [initialFilters] = useState<T>(() => {
+    const filters = { ...defaults };
+    Object.keys(defaults).forEach(key => {
+      filters[key as keyof T] = parseUrlFilter(searchParams.get(key), defaults[key]) as T[keyof T];
+    });
+    return filters;
+  });
+  return initialFilters;
+}
+
+/**
+ * Keep the filters of a page in the URL (replacing the history entry)
+ * @param filters - Current filter values
+ * @param defaults - Filter names and default values (same as useUrlFilters)
+ */
+export function useSyncUrlFilters<T extends UrlFilters>(filters: T, defaults: T): void {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = buildFilterQuery(filters, defaults, searchParams).toString();
+
+  useEffect(() => {
+    if (query !== searchParams.toString()) {
+      setSearchParams(new URLSearchParams(query), { replace: true });
+    }
+  }, [query]);
+}
@@ -0,0 +1,9 @@
+-- Rollback: Remove role-based authorization from users
+-- This migration reverses the changes made by add_user_roles.sql
+
+-- Step 1: Drop index
+DROP INDEX IF EXISTS idx_users_role;
+
+-- Step 2: Drop constraint and column
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users DROP COLUMN IF EXISTS role;
@@ -0,0 +1,24 @@
+-- Migration: Add role-based authorization to users
+-- Commit metadata can only be edited by the commit author or by an admin.
+-- This migration introduces the admin role used by that check.
+
+-- Step 1: Add role column (every existing user becomes a regular user)
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'user';
+
+-- Step 2: Restrict role to the supported values
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (role IN ('user', 'admin'));
+
+-- Step 3: Index for admin lookups
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+
+-- Schema Design Notes:
+-- =====================
+-- - role: 'user' (default) or 'admin'
+-- - Admins can edit any commit; regular users only commits whose author_email matches their email
+-- - The role is embedded in the JWT at login, so role changes apply on the next login
+
+-- Promoting a user to admin:
+-- ==========================
+-- UPDATE users SET role = 'admin' WHERE email = 'someone@example.com';
@@ -0,0 +1,6 @@
+-- Rollback: Remove audit trail for commit metadata edits
+-- This migration reverses the changes made by add_commit_edits.sql
+
+DROP INDEX IF EXISTS idx_commit_edits_user_id;
+DROP INDEX IF EXISTS idx_commit_edits_commit_id;
+DROP TABLE IF EXISTS commit_edits;
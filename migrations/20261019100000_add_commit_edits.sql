@@ -0,0 +1,29 @@
+-- Migration: Add audit trail for commit metadata edits
+-- Every change made through the commit editing endpoints is recorded here,
+-- so we can tell who changed a commit and restore the previous values.
+
+-- Step 1: Create commit_edits history table
+CREATE TABLE IF NOT EXISTS commit_edits (
+  id SERIAL PRIMARY KEY,
+  commit_id INTEGER NOT NULL REFERENCES commits(id) ON DELETE CASCADE,
+  commit_hash VARCHAR(255) NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  action VARCHAR(20) NOT NULL DEFAULT 'edit',
+  old_values JSONB NOT NULL DEFAULT '{}'::jsonb,
+  new_values JSONB NOT NULL DEFAULT '{}'::jsonb,
+  reverted_edit_id INTEGER REFERENCES commit_edits(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT commit_edits_action_check CHECK (action IN ('edit', 'revert'))
+);
+
+-- Step 2: Indexes for history lookups
+CREATE INDEX IF NOT EXISTS idx_commit_edits_commit_id ON commit_edits(commit_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_commit_edits_user_id ON commit_edits(user_id);
+
+-- Schema Design Notes:
+-- =====================
+-- - old_values / new_values: only the fields that actually changed
+--   (subset of subject, category, weight, ai_tools)
+-- - action: 'edit' for regular updates, 'revert' when an earlier edit was undone
+-- - reverted_edit_id: the edit restored by a 'revert' entry
+-- - user_id: the dashboard user who made the change (NULL if the user was deleted)
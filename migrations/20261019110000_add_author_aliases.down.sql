@@ -0,0 +1,7 @@
+-- Rollback: Remove author identity aliasing
+-- This migration reverses the changes made by add_author_aliases.sql
+
+DROP VIEW IF EXISTS v_commits_with_identity;
+DROP INDEX IF EXISTS idx_author_aliases_identity_id;
+DROP TABLE IF EXISTS author_aliases;
+DROP TABLE IF EXISTS author_identities;
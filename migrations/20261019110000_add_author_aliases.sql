@@ -0,0 +1,65 @@
+-- Migration: Add author identity aliasing
+-- The same person often commits with several emails (work, personal, noreply) or
+-- name spellings. Aliases map those emails/names to one canonical identity so
+-- contributor reports group them together.
+
+-- Step 1: Canonical author identities
+CREATE TABLE IF NOT EXISTS author_identities (
+  id SERIAL PRIMARY KEY,
+  canonical_name VARCHAR(255) NOT NULL,
+  canonical_email VARCHAR(255),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Step 2: Aliases (normalized: lower-case, trimmed)
+CREATE TABLE IF NOT EXISTS author_aliases (
+  id SERIAL PRIMARY KEY,
+  identity_id INTEGER NOT NULL REFERENCES author_identities(id) ON DELETE CASCADE,
+  alias_type VARCHAR(10) NOT NULL,
+  alias_value VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT author_aliases_type_check CHECK (alias_type IN ('email', 'name')),
+  CONSTRAINT author_aliases_unique UNIQUE (alias_type, alias_value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_author_aliases_identity_id ON author_aliases(identity_id);
+
+-- Step 3: Commits resolved to their author identity
+-- Email aliases take priority over name aliases.
+-- author_key is the grouping key used by contributor reports:
+--   'identity:<id>' for aliased authors, 'name:<normalized name>' otherwise (previous behaviour)
+CREATE OR REPLACE VIEW v_commits_with_identity AS
+SELECT
+  c.id,
+  c.repository_id,
+  c.hash,
+  c.commit_date,
+  c.author_name,
+  c.author_email,
+  c.subject,
+  c.description,
+  c.category,
+  c.lines_added,
+  c.lines_deleted,
+  c.weight,
+  c.ai_tools,
+  ai.id AS author_identity_id,
+  COALESCE('identity:' || ai.id::text, 'name:' || LOWER(TRIM(c.author_name))) AS author_key,
+  COALESCE(ai.canonical_name, c.author_name) AS canonical_author_name,
+  COALESCE(ai.canonical_email, c.author_email) AS canonical_author_email
+FROM commits c
+LEFT JOIN author_aliases ae
+  ON ae.alias_type = 'email' AND ae.alias_value = LOWER(TRIM(c.author_email))
+LEFT JOIN author_aliases an
+  ON an.alias_type = 'name' AND an.alias_value = LOWER(TRIM(c.author_name))
+LEFT JOIN author_identities ai
+  ON ai.id = COALESCE(ae.identity_id, an.identity_id);
+
+-- Schema Design Notes:
+-- =====================
+-- - One identity per person; any number of email/name aliases
+-- - Each alias value belongs to at most one identity (UNIQUE)
+-- - Unaliased authors keep the previous grouping by normalized author name
+-- - v_commits_with_identity lists the commit columns explicitly: migrations that
+--   add commit columns needed by dashboard queries recreate it
@@ -0,0 +1,5 @@
+-- Rollback: Remove claimed author emails
+-- This migration reverses the changes made by add_user_author_emails.sql
+
+DROP INDEX IF EXISTS idx_user_author_emails_user_id;
+DROP TABLE IF EXISTS user_author_emails;
@@ -0,0 +1,19 @@
+-- Migration: Add claimed author emails for dashboard users
+-- Users often commit with addresses that differ from their login email
+-- (e.g. GitHub noreply addresses). Claimed emails let My Performance
+-- aggregate all of them. An email can only be claimed by one user and
+-- must appear on at least one commit when it is claimed.
+
+CREATE TABLE IF NOT EXISTS user_author_emails (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  verified_commits INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT user_author_emails_email_unique UNIQUE (email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_author_emails_user_id ON user_author_emails(user_id);
+
+COMMENT ON TABLE user_author_emails IS 'Git author emails claimed by dashboard users (normalized: lower-case, trimmed)';
+COMMENT ON COLUMN user_author_emails.verified_commits IS 'Number of commits found with this author email when it was claimed';
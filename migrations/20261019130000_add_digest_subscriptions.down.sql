@@ -0,0 +1,5 @@
+-- Rollback: Remove email digest subscriptions
+-- This migration reverses the changes made by add_digest_subscriptions.sql
+
+DROP INDEX IF EXISTS idx_digest_subscriptions_due;
+DROP TABLE IF EXISTS digest_subscriptions;
@@ -0,0 +1,21 @@
+-- Migration: Add email digest subscriptions
+-- Users can subscribe to weekly and/or monthly email digests of their
+-- activity. One row per user and frequency; the scheduler records the
+-- last period sent so each digest is delivered once, even across restarts.
+
+CREATE TABLE IF NOT EXISTS digest_subscriptions (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('weekly', 'monthly')),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  last_period_start DATE,
+  last_sent_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT digest_subscriptions_user_frequency_unique UNIQUE (user_id, frequency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_subscriptions_due ON digest_subscriptions(frequency, last_period_start) WHERE enabled;
+
+COMMENT ON TABLE digest_subscriptions IS 'Per-user weekly/monthly email digest settings';
+COMMENT ON COLUMN digest_subscriptions.last_period_start IS 'Start date of the last digest period sent (or skipped when subscribing)';
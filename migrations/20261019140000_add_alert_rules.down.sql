@@ -0,0 +1,6 @@
+-- Rollback: Remove metric alert rules
+-- This migration reverses the changes made by add_alert_rules.sql
+
+DROP INDEX IF EXISTS idx_alert_events_created_at;
+DROP TABLE IF EXISTS alert_events;
+DROP TABLE IF EXISTS alert_rules;
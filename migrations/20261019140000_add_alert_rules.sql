@@ -0,0 +1,44 @@
+-- Migration: Add metric alert rules
+-- Admins define thresholds on repository metrics (e.g. weekly effective
+-- commits dropping by more than 30%). The alert evaluator checks enabled
+-- rules periodically and posts a JSON message to the rule's incoming-webhook
+-- URL (Slack, Microsoft Teams or any compatible endpoint). Each alert is
+-- recorded once per rule, repository and period so it is never sent twice.
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  repository_name VARCHAR(255),
+  metric VARCHAR(50) NOT NULL CHECK (metric IN ('total_commits', 'effective_commits', 'total_lines_changed', 'avg_weight', 'weight_efficiency_pct')),
+  period VARCHAR(10) NOT NULL CHECK (period IN ('weekly', 'monthly')),
+  condition VARCHAR(20) NOT NULL CHECK (condition IN ('drop_pct', 'below', 'above')),
+  threshold NUMERIC NOT NULL,
+  webhook_url TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  last_evaluated_at TIMESTAMP,
+  last_triggered_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS alert_events (
+  id SERIAL PRIMARY KEY,
+  rule_id INTEGER NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+  repository_name VARCHAR(255) NOT NULL,
+  period_start DATE NOT NULL,
+  current_value NUMERIC,
+  previous_value NUMERIC,
+  message TEXT NOT NULL,
+  delivered BOOLEAN NOT NULL DEFAULT false,
+  error TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT alert_events_rule_repo_period_unique UNIQUE (rule_id, repository_name, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_events_created_at ON alert_events(created_at DESC);
+
+COMMENT ON TABLE alert_rules IS 'Metric thresholds that trigger webhook notifications';
+COMMENT ON COLUMN alert_rules.repository_name IS 'Repository to watch (NULL = every repository, evaluated separately)';
+COMMENT ON COLUMN alert_rules.threshold IS 'Percentage for drop_pct, absolute metric value for below/above';
+COMMENT ON TABLE alert_events IS 'Alerts raised by the evaluator (one per rule, repository and period)';
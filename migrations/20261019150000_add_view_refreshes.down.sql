@@ -0,0 +1,6 @@
+-- Rollback: Track materialized view refreshes
+-- This migration reverses the changes made by add_view_refreshes.sql
+
+DROP INDEX IF EXISTS idx_mv_monthly_category_stats_unique;
+DROP INDEX IF EXISTS idx_mv_monthly_stats_by_repo_unique;
+DROP TABLE IF EXISTS materialized_view_refreshes;
@@ -0,0 +1,33 @@
+-- Migration: Track materialized view refreshes
+-- The dashboard reads mv_monthly_stats_by_repo and mv_monthly_category_stats,
+-- which only change when they are refreshed. The view refresher records when
+-- each view was last refreshed and the latest commit date it includes, so the
+-- UI can show how fresh the data is and warn when it lags behind the commits.
+--
+-- REFRESH MATERIALIZED VIEW CONCURRENTLY (which keeps the views readable during
+-- the refresh) needs a unique index on each view; they are created here when
+-- the views exist.
+
+CREATE TABLE IF NOT EXISTS materialized_view_refreshes (
+  view_name VARCHAR(255) PRIMARY KEY,
+  last_refreshed_at TIMESTAMP,
+  data_as_of TIMESTAMP,
+  duration_ms INTEGER,
+  last_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_error TEXT
+);
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_matviews WHERE matviewname = 'mv_monthly_stats_by_repo') THEN
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_mv_monthly_stats_by_repo_unique
+      ON mv_monthly_stats_by_repo (repository_name, year_month);
+  END IF;
+  IF EXISTS (SELECT 1 FROM pg_matviews WHERE matviewname = 'mv_monthly_category_stats') THEN
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_mv_monthly_category_stats_unique
+      ON mv_monthly_category_stats (repository_name, year_month, category);
+  END IF;
+END $$;
+
+COMMENT ON TABLE materialized_view_refreshes IS 'Last refresh of each materialized view read by the dashboard';
+COMMENT ON COLUMN materialized_view_refreshes.data_as_of IS 'Latest commits.commit_date when the last successful refresh started';
@@ -0,0 +1,5 @@
+-- Rollback: Add unique indexes used by git ingestion
+-- This migration reverses the changes made by add_ingestion_unique_indexes.sql
+
+DROP INDEX IF EXISTS idx_commits_repository_hash_unique;
+DROP INDEX IF EXISTS idx_repositories_name_unique;
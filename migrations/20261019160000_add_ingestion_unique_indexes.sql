@@ -0,0 +1,7 @@
+-- Migration: Add unique indexes used by git ingestion
+-- The TypeScript ingestion (npm run ingest) upserts repositories by name and
+-- commits by repository and hash, so re-running it is idempotent. ON CONFLICT
+-- needs unique indexes on these columns.
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_repositories_name_unique ON repositories(name);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_commits_repository_hash_unique ON commits(repository_id, hash);
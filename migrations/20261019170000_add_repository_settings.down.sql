@@ -0,0 +1,12 @@
+-- Rollback: Add repository settings and archiving
+-- This migration reverses the changes made by add_repository_settings.sql
+
+DROP INDEX IF EXISTS idx_repositories_archived;
+
+ALTER TABLE repositories DROP COLUMN IF EXISTS updated_at;
+ALTER TABLE repositories DROP COLUMN IF EXISTS created_at;
+ALTER TABLE repositories DROP COLUMN IF EXISTS archived_at;
+ALTER TABLE repositories DROP COLUMN IF EXISTS archived;
+ALTER TABLE repositories DROP COLUMN IF EXISTS visibility;
+ALTER TABLE repositories DROP COLUMN IF EXISTS team;
+ALTER TABLE repositories DROP COLUMN IF EXISTS default_branch;
@@ -0,0 +1,16 @@
+-- Migration: Add repository settings and archiving
+-- Repositories can now be created and edited from the dashboard (admin
+-- Repositories page) instead of only by the loading scripts. Archived
+-- repositories keep their commits but are excluded from the Overview, Trends
+-- and Comparison aggregates.
+
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS default_branch VARCHAR(255);
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS team VARCHAR(255);
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS visibility VARCHAR(20) NOT NULL DEFAULT 'internal'
+  CHECK (visibility IN ('public', 'internal', 'private'));
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS archived BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS created_at TIMESTAMP NOT NULL DEFAULT NOW();
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_repositories_archived ON repositories(archived) WHERE archived;
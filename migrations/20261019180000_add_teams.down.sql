@@ -0,0 +1,5 @@
+-- Rollback: Add teams
+-- This migration reverses the changes made by add_teams.sql
+
+DROP TABLE IF EXISTS team_members;
+DROP TABLE IF EXISTS teams;
@@ -0,0 +1,29 @@
+-- Migration: Add teams
+-- People are organized in squads that span repositories. A team lists the
+-- emails of its members (normalized like author_aliases: lower-case, trimmed);
+-- commits are attributed to a team through the author email, the canonical
+-- email or any email alias of the author identity, so a member only needs to
+-- be listed once under their canonical email.
+
+CREATE TABLE IF NOT EXISTS teams (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL UNIQUE,
+  description TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS team_members (
+  id SERIAL PRIMARY KEY,
+  team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  author_email VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT team_members_unique UNIQUE (team_id, author_email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_author_email ON team_members(author_email);
+
+-- Schema Design Notes:
+-- =====================
+-- - A person can belong to several teams
+-- - Deleting a team removes its members
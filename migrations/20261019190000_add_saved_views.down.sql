@@ -0,0 +1,5 @@
+-- Rollback: Remove saved views and user preferences
+-- This migration reverses the changes made by add_saved_views.sql
+
+DROP TABLE IF EXISTS user_preferences;
+DROP TABLE IF EXISTS saved_views;
@@ -0,0 +1,33 @@
+-- Migration: Add saved views and user preferences
+-- Users save named filter presets ("My squad - last quarter"): a page path and
+-- the query string of its filters, as kept in the URL by the dashboard pages.
+-- Display preferences (dark mode, collapsed sidebar) and the saved view used
+-- as landing page are stored per user instead of in the browser.
+
+CREATE TABLE IF NOT EXISTS saved_views (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  path VARCHAR(255) NOT NULL,
+  query TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT saved_views_user_name_unique UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS user_preferences (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  dark_mode BOOLEAN NOT NULL DEFAULT false,
+  sidebar_collapsed BOOLEAN NOT NULL DEFAULT false,
+  default_view_id INTEGER REFERENCES saved_views(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE saved_views IS 'Named filter presets per user (page path and filter query string)';
+COMMENT ON COLUMN saved_views.query IS 'URL query string of the page filters, without the leading "?"';
+COMMENT ON COLUMN user_preferences.default_view_id IS 'Saved view opened instead of the Overview when the dashboard is loaded';
+
+-- Schema Design Notes:
+-- =====================
+-- - Users without a user_preferences row get the defaults
+-- - Deleting a saved view clears it as landing page
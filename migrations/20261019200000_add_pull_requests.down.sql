@@ -0,0 +1,6 @@
+-- Rollback: Add pull requests
+-- This migration reverses the changes made by add_pull_requests.sql
+
+DROP TABLE IF EXISTS pull_request_commits;
+DROP TABLE IF EXISTS pull_request_reviews;
+DROP TABLE IF EXISTS pull_requests;
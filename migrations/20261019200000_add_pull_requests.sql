@@ -0,0 +1,61 @@
+-- Migration: Add pull requests
+-- Commit counts ignore review latency. Pull requests (GitHub) and merge requests
+-- (GitLab) are loaded from JSON exports with their reviews and commit hashes, so
+-- cycle time, time to first review and review rounds can be reported next to
+-- the commit statistics. Commits are linked by repository and hash; hashes of
+-- commits that are not loaded yet are kept and match once the commits arrive.
+
+CREATE TABLE IF NOT EXISTS pull_requests (
+  id SERIAL PRIMARY KEY,
+  repository_id INTEGER NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+  number INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  author_login VARCHAR(255),
+  author_name VARCHAR(255),
+  author_email VARCHAR(255),
+  state VARCHAR(10) NOT NULL,
+  source_branch VARCHAR(255),
+  target_branch VARCHAR(255),
+  merge_commit_hash VARCHAR(64),
+  opened_at TIMESTAMP NOT NULL,
+  merged_at TIMESTAMP,
+  closed_at TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT pull_requests_state_check CHECK (state IN ('open', 'merged', 'closed')),
+  CONSTRAINT pull_requests_repository_number_unique UNIQUE (repository_id, number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pull_requests_merged_at ON pull_requests(merged_at);
+
+CREATE TABLE IF NOT EXISTS pull_request_reviews (
+  id SERIAL PRIMARY KEY,
+  pull_request_id INTEGER NOT NULL REFERENCES pull_requests(id) ON DELETE CASCADE,
+  reviewer_login VARCHAR(255),
+  reviewer_name VARCHAR(255),
+  state VARCHAR(20) NOT NULL,
+  submitted_at TIMESTAMP NOT NULL,
+  CONSTRAINT pull_request_reviews_state_check CHECK (state IN ('approved', 'changes_requested', 'commented', 'dismissed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_pull_request_reviews_pull_request_id ON pull_request_reviews(pull_request_id);
+
+CREATE TABLE IF NOT EXISTS pull_request_commits (
+  pull_request_id INTEGER NOT NULL REFERENCES pull_requests(id) ON DELETE CASCADE,
+  commit_hash VARCHAR(64) NOT NULL,
+  PRIMARY KEY (pull_request_id, commit_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pull_request_commits_commit_hash ON pull_request_commits(commit_hash);
+
+COMMENT ON TABLE pull_requests IS 'GitHub pull requests and GitLab merge requests loaded from JSON exports';
+COMMENT ON COLUMN pull_requests.number IS 'Pull request number (GitHub) or merge request iid (GitLab) within the repository';
+COMMENT ON COLUMN pull_requests.opened_at IS 'Creation of the pull request';
+COMMENT ON TABLE pull_request_reviews IS 'Review submissions (GitLab approvals are stored as approved reviews)';
+COMMENT ON TABLE pull_request_commits IS 'Commit hashes of each pull request, matched with commits by repository and hash';
+
+-- Schema Design Notes:
+-- =====================
+-- - Pull requests are matched by repository and number; re-importing a pull request
+--   replaces its reviews and commit hashes
+-- - Deleting a repository or a pull request removes the dependent rows
+-- - Hashes are stored lower-case like commits.hash
@@ -0,0 +1,6 @@
+-- Rollback: Add deployments and incidents
+-- This migration reverses the changes made by add_deployments_and_incidents.sql
+
+DROP TABLE IF EXISTS incidents;
+DROP TABLE IF EXISTS deployment_commits;
+DROP TABLE IF EXISTS deployments;
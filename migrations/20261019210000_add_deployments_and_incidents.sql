@@ -0,0 +1,64 @@
+-- Migration: Add deployments and incidents
+-- DORA metrics (deployment frequency, lead time for changes, change failure rate,
+-- time to restore) need the deployments of each repository and the incidents they
+-- caused. CI posts a deployment with the deployed commit range; the commits of the
+-- range are resolved when the deployment is recorded, so the lead time is measured
+-- from their commit dates.
+
+CREATE TABLE IF NOT EXISTS deployments (
+  id SERIAL PRIMARY KEY,
+  repository_id INTEGER NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+  external_id VARCHAR(255),
+  environment VARCHAR(100) NOT NULL DEFAULT 'production',
+  status VARCHAR(10) NOT NULL DEFAULT 'success',
+  version VARCHAR(255),
+  commit_from VARCHAR(64),
+  commit_to VARCHAR(64) NOT NULL,
+  deployed_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT deployments_status_check CHECK (status IN ('success', 'failure')),
+  CONSTRAINT deployments_repository_external_id_unique UNIQUE (repository_id, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deployments_deployed_at ON deployments(deployed_at);
+
+CREATE TABLE IF NOT EXISTS deployment_commits (
+  deployment_id INTEGER NOT NULL REFERENCES deployments(id) ON DELETE CASCADE,
+  commit_hash VARCHAR(64) NOT NULL,
+  PRIMARY KEY (deployment_id, commit_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deployment_commits_commit_hash ON deployment_commits(commit_hash);
+
+CREATE TABLE IF NOT EXISTS incidents (
+  id SERIAL PRIMARY KEY,
+  repository_id INTEGER NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+  deployment_id INTEGER REFERENCES deployments(id) ON DELETE SET NULL,
+  external_id VARCHAR(255),
+  title TEXT NOT NULL,
+  severity VARCHAR(50),
+  started_at TIMESTAMP NOT NULL,
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT incidents_resolved_after_start_check CHECK (resolved_at IS NULL OR resolved_at >= started_at),
+  CONSTRAINT incidents_repository_external_id_unique UNIQUE (repository_id, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_incidents_started_at ON incidents(started_at);
+CREATE INDEX IF NOT EXISTS idx_incidents_deployment_id ON incidents(deployment_id);
+
+COMMENT ON TABLE deployments IS 'Deployments posted by CI (one row per deploy event)';
+COMMENT ON COLUMN deployments.external_id IS 'CI identifier of the deploy (e.g. pipeline run); re-posting it updates the deployment';
+COMMENT ON COLUMN deployments.status IS 'failure marks a deployment that failed or was rolled back';
+COMMENT ON COLUMN deployments.commit_from IS 'Previously deployed commit (exclusive bound of the range)';
+COMMENT ON COLUMN deployments.commit_to IS 'Deployed commit (inclusive bound of the range)';
+COMMENT ON TABLE deployment_commits IS 'Commits shipped by each deployment, matched with commits by repository and hash';
+COMMENT ON TABLE incidents IS 'Production incidents, optionally attributed to the deployment that caused them';
+
+-- Schema Design Notes:
+-- =====================
+-- - Deployments and incidents are matched by repository and external_id when one is
+--   given; rows without external_id are always inserted
+-- - A deployment counts as a failed change when its status is failure or an incident
+--   references it
+-- - Deleting a deployment keeps its incidents (deployment_id is cleared)
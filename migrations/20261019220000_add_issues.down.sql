@@ -0,0 +1,36 @@
+-- Rollback: Add issues
+-- This migration reverses the changes made by add_issues.sql
+
+DROP TABLE IF EXISTS issues;
+DROP INDEX IF EXISTS idx_commits_ticket_keys;
+
+-- v_commits_with_identity as created by add_author_aliases.sql, without ticket_keys
+DROP VIEW IF EXISTS v_commits_with_identity;
+CREATE VIEW v_commits_with_identity AS
+SELECT
+  c.id,
+  c.repository_id,
+  c.hash,
+  c.commit_date,
+  c.author_name,
+  c.author_email,
+  c.subject,
+  c.description,
+  c.category,
+  c.lines_added,
+  c.lines_deleted,
+  c.weight,
+  c.ai_tools,
+  ai.id AS author_identity_id,
+  COALESCE('identity:' || ai.id::text, 'name:' || LOWER(TRIM(c.author_name))) AS author_key,
+  COALESCE(ai.canonical_name, c.author_name) AS canonical_author_name,
+  COALESCE(ai.canonical_email, c.author_email) AS canonical_author_email
+FROM commits c
+LEFT JOIN author_aliases ae
+  ON ae.alias_type = 'email' AND ae.alias_value = LOWER(TRIM(c.author_email))
+LEFT JOIN author_aliases an
+  ON an.alias_type = 'name' AND an.alias_value = LOWER(TRIM(c.author_name))
+LEFT JOIN author_identities ai
+  ON ai.id = COALESCE(ae.identity_id, an.identity_id);
+
+ALTER TABLE commits DROP COLUMN IF EXISTS ticket_keys;
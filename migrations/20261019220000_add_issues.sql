@@ -0,0 +1,73 @@
+-- Migration: Add issues
+-- Many commits reference Jira issue keys (PAY-123) or GitLab issues (#42) instead
+-- of a category prefix. The keys found in the subject and description are stored
+-- on each commit, and issue exports (key, type, epic, story points) are loaded
+-- into issues, so effort can be reported by epic and issue type.
+
+ALTER TABLE commits ADD COLUMN IF NOT EXISTS ticket_keys VARCHAR(100)[];
+
+CREATE INDEX IF NOT EXISTS idx_commits_ticket_keys ON commits USING GIN (ticket_keys);
+
+-- The team filters read the commits through v_commits_with_identity, which lists
+-- its columns: recreate it with ticket_keys
+DROP VIEW IF EXISTS v_commits_with_identity;
+CREATE VIEW v_commits_with_identity AS
+SELECT
+  c.id,
+  c.repository_id,
+  c.hash,
+  c.commit_date,
+  c.author_name,
+  c.author_email,
+  c.subject,
+  c.description,
+  c.category,
+  c.lines_added,
+  c.lines_deleted,
+  c.weight,
+  c.ai_tools,
+  c.ticket_keys,
+  ai.id AS author_identity_id,
+  COALESCE('identity:' || ai.id::text, 'name:' || LOWER(TRIM(c.author_name))) AS author_key,
+  COALESCE(ai.canonical_name, c.author_name) AS canonical_author_name,
+  COALESCE(ai.canonical_email, c.author_email) AS canonical_author_email
+FROM commits c
+LEFT JOIN author_aliases ae
+  ON ae.alias_type = 'email' AND ae.alias_value = LOWER(TRIM(c.author_email))
+LEFT JOIN author_aliases an
+  ON an.alias_type = 'name' AND an.alias_value = LOWER(TRIM(c.author_name))
+LEFT JOIN author_identities ai
+  ON ai.id = COALESCE(ae.identity_id, an.identity_id);
+
+CREATE TABLE IF NOT EXISTS issues (
+  id SERIAL PRIMARY KEY,
+  issue_key VARCHAR(100) NOT NULL,
+  title TEXT NOT NULL,
+  issue_type VARCHAR(100),
+  status VARCHAR(100),
+  epic_key VARCHAR(100),
+  epic_name VARCHAR(255),
+  story_points NUMERIC(8, 2),
+  created_at TIMESTAMP,
+  resolved_at TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT issues_issue_key_unique UNIQUE (issue_key),
+  CONSTRAINT issues_story_points_check CHECK (story_points IS NULL OR story_points >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_issues_epic_key ON issues(epic_key);
+
+COMMENT ON COLUMN commits.ticket_keys IS 'Issue keys referenced by the subject or description (NULL until extracted)';
+COMMENT ON TABLE issues IS 'Jira and GitLab issues loaded from JSON exports';
+COMMENT ON COLUMN issues.issue_key IS 'Jira key (PAY-123) or GitLab reference (project#42)';
+COMMENT ON COLUMN issues.epic_key IS 'Key of the epic of the issue (its own key for epics)';
+COMMENT ON COLUMN issues.epic_name IS 'Epic title given by the export, used when the epic itself is not loaded';
+COMMENT ON COLUMN issues.story_points IS 'Story points (Jira) or weight (GitLab)';
+
+-- Schema Design Notes:
+-- =====================
+-- - Commits are linked to issues by key, so keys of issues that are not loaded yet
+--   match once the issues arrive
+-- - Existing commits keep NULL ticket_keys until the next issue import extracts them
+-- - Issues are matched by key; re-importing an issue updates it
+-- - Migrations that add commit columns read by the reports recreate v_commits_with_identity
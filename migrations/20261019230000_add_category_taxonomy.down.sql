@@ -0,0 +1,5 @@
+-- Rollback: Add category taxonomy
+-- This migration reverses the changes made by add_category_taxonomy.sql
+
+DROP TABLE IF EXISTS category_rules;
+DROP TABLE IF EXISTS categories;
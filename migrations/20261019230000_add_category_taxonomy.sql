@@ -0,0 +1,62 @@
+-- Migration: Add category taxonomy
+-- Categories come from the free-text prefix of commit subjects, so BILLING, Billing
+-- and BILL end up as separate categories. The taxonomy lists the canonical
+-- categories (with their color, synonyms and parent) and the regular expressions
+-- that categorize commit subjects. It is applied when commits are loaded
+-- or edited, and by the re-categorize job for existing commits.
+
+CREATE TABLE IF NOT EXISTS categories (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(50) NOT NULL,
+  color VARCHAR(7) NOT NULL,
+  parent_id INTEGER REFERENCES categories(id) ON DELETE SET NULL,
+  synonyms VARCHAR(50)[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT categories_name_unique UNIQUE (name),
+  CONSTRAINT categories_color_check CHECK (color ~ '^#[0-9a-f]{6}$'),
+  CONSTRAINT categories_parent_check CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id);
+
+CREATE TABLE IF NOT EXISTS category_rules (
+  id SERIAL PRIMARY KEY,
+  category_id INTEGER NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+  pattern VARCHAR(500) NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_category_rules_position ON category_rules(position, id);
+
+-- Colors used by the Content Analysis charts until now
+INSERT INTO categories (name, color) VALUES
+  ('BILLING', '#3b82f6'),
+  ('CS', '#8b5cf6'),
+  ('INFRA', '#10b981'),
+  ('AUTH', '#f59e0b'),
+  ('API', '#ef4444'),
+  ('UI', '#ec4899'),
+  ('DOCS', '#06b6d4'),
+  ('SECURITY', '#f43f5e'),
+  ('PERFORMANCE', '#14b8a6')
+ON CONFLICT (name) DO NOTHING;
+
+COMMENT ON TABLE categories IS 'Canonical commit categories';
+COMMENT ON COLUMN categories.name IS 'Canonical (upper-case) name written to commits.category';
+COMMENT ON COLUMN categories.color IS 'Chart color (#rrggbb)';
+COMMENT ON COLUMN categories.parent_id IS 'Parent category, for grouping sub-categories';
+COMMENT ON COLUMN categories.synonyms IS 'Upper-case values replaced with the canonical name (e.g. BILL for BILLING)';
+COMMENT ON TABLE category_rules IS 'Regular expressions matched against commit subjects, in position order';
+COMMENT ON COLUMN category_rules.pattern IS 'Case-insensitive regular expression (JavaScript syntax)';
+
+-- Schema Design Notes:
+-- =====================
+-- - commits.category keeps the category name rather than a category id, so values
+--   outside the taxonomy still work and the taxonomy can be introduced gradually
+-- - Rules are evaluated by the application (JavaScript regular expressions), lowest
+--   position first; they win over the subject prefix
+-- - Uniqueness of synonyms across categories is checked by the application
+-- - Deleting a category removes its rules and detaches its children
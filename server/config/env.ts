@@ -27,6 +27,23 @@ export interface EnvConfig {
   JWT_SECRET?: string;
   JWT_EXPIRES_IN?: string;
   ALLOWED_DOMAINS?: string;
+  // Email delivery (digests)
+  MAIL_TRANSPORT?: string;
+  MAIL_FROM?: string;
+  SMTP_HOST?: string;
+  SMTP_PORT?: string;
+  SMTP_SECURE?: string;
+  SMTP_USER?: string;
+  SMTP_PASSWORD?: string;
+  DIGEST_SCHEDULER_ENABLED?: string;
+  DIGEST_CHECK_INTERVAL_MINUTES?: string;
+  // Metric alerts (webhooks)
+  ALERT_EVALUATOR_ENABLED?: string;
+  ALERT_CHECK_INTERVAL_MINUTES?: string;
+  // Materialized view refresh (disabled when not set)
+  VIEW_REFRESH_INTERVAL_MINUTES?: string;
+  // Deployment and incident ingestion from CI (disabled when not set)
+  INGESTION_TOKEN?: string;
 }
 
 // Export for convenience (though process.env is globally available)
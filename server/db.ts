@@ -1,6 +1,8 @@
 import pg from 'pg';
 const { Pool } = pg;
 
+export type UserRole = 'user' | 'admin';
+
 export interface User {
   id: number;
   google_id?: string | null;
@@ -10,6 +12,7 @@ export interface User {
   name: string;
   domain: string;
   avatar_url?: string | null;
+  role: UserRole;
   created_at: Date;
   last_login: Date;
 }
@@ -60,7 +63,7 @@ export async function findUserByProviderId(provider: 'google' | 'github' | 'gitl
   try {
     const column = provider === 'google' ? 'google_id' : provider === 'github' ? 'github_id' : 'gitlab_id';
     const result = await pool.query<User>(
-      `SELECT id, google_id, github_id, gitlab_id, email, name, domain, avatar_url, created_at, last_login
+      `SELECT id, google_id, github_id, gitlab_id, email, name, domain, avatar_url, role, created_at, last_login
        FROM users
        WHERE ${column} = $1`,
       [providerId]
@@ -107,7 +110,7 @@ export async function findUserByGitlabId(gitlabId: string): Promise<User | null>
 export async function findUserByEmail(email: string): Promise<User | null> {
   try {
     const result = await pool.query<User>(
-      'SELECT id, google_id, github_id, gitlab_id, email, name, domain, avatar_url, created_at, last_login FROM users WHERE email = $1',
+      'SELECT id, google_id, github_id, gitlab_id, email, name, domain, avatar_url, role, created_at, last_login FROM users WHERE email = $1',
       [email]
     );
     return result.rows[0] || null;
@@ -140,7 +143,7 @@ export async function upsertUser(userData: UserData): Promise<User> {
            avatar_url = COALESCE($5, avatar_url),
            last_login = NOW()
          WHERE email = $6
-         RETURNING id, google_id, github_id, gitlab_id, email, name, domain, avatar_url, created_at, last_login`,
+         RETURNING id, google_id, github_id, gitlab_id, email, name, domain, avatar_url, role, created_at, last_login`,
         [googleId, githubId, gitlabId, name, avatarUrl, email]
       );
       return result.rows[0];
@@ -149,7 +152,7 @@ export async function upsertUser(userData: UserData): Promise<User> {
       const result = await pool.query<User>(
         `INSERT INTO users (google_id, github_id, gitlab_id, email, name, domain, avatar_url, last_login)
          VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
-         RETURNING id, google_id, github_id, gitlab_id, email, name, domain, avatar_url, created_at, last_login`,
+         RETURNING id, google_id, github_id, gitlab_id, email, name, domain, avatar_url, role, created_at, last_login`,
         [googleId, githubId, gitlabId, email, name, domain, avatarUrl]
       );
       return result.rows[0];
@@ -6,8 +6,19 @@ import cookieParser from 'cookie-parser';
 import passport from './config/passport.js';
 import apiRoutes from './routes/api.js';
 import authRoutes from './routes/auth.js';
-import { requireAuth } from './middleware/auth.js';
+import adminRoutes from './routes/admin.js';
+import reportRoutes from './routes/reports.js';
+import alertRoutes from './routes/alerts.js';
+import viewRoutes from './routes/views.js';
+import deliveryRoutes from './routes/delivery.js';
+import doraRoutes from './routes/dora.js';
+import issueRoutes from './routes/issues.js';
+import ingestRoutes from './routes/ingest.js';
+import { requireAuth, requireAdmin, requireIngestionToken } from './middleware/auth.js';
 import { migrationRunner } from './utils/migrationRunner.js';
+import { digestScheduler } from './utils/digestScheduler.js';
+import { alertEvaluator } from './utils/alertEvaluator.js';
+import { viewRefresher } from './utils/viewRefresher.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const app = express();
@@ -35,6 +46,30 @@ app.get('/health', (req: Request, res: Response) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Admin routes (protected - requires authentication and admin role)
+app.use('/api/admin', requireAuth, requireAdmin, adminRoutes);
+
+// Report generation (protected - requires authentication)
+app.use('/api/reports', requireAuth, reportRoutes);
+
+// Metric alert rules (protected - changes require the admin role)
+app.use('/api/alerts', requireAuth, alertRoutes);
+
+// Saved views of the current user (protected - requires authentication)
+app.use('/api/views', requireAuth, viewRoutes);
+
+// Pull request delivery metrics (protected - requires authentication)
+app.use('/api/delivery', requireAuth, deliveryRoutes);
+
+// DORA metrics from deployments and incidents (protected - requires authentication)
+app.use('/api/dora', requireAuth, doraRoutes);
+
+// Effort by epic and issue type of commits linked to imported issues (protected - requires authentication)
+app.use('/api/issues', requireAuth, issueRoutes);
+
+// Deployment and incident events from CI (protected - requires the ingestion token)
+app.use('/api/ingest', requireIngestionToken, ingestRoutes);
+
 // API routes (protected - requires authentication)
 app.use('/api', requireAuth, apiRoutes);
 
@@ -67,6 +102,26 @@ async function startServer() {
       console.log(`📊 Dashboard API: http://localhost:${PORT}/api`);
       console.log(`💚 Health check: http://localhost:${PORT}/health`);
     });
+
+    // Email digests (disable with DIGEST_SCHEDULER_ENABLED=false; needs SMTP_HOST or MAIL_TRANSPORT)
+    if (process.env.DIGEST_SCHEDULER_ENABLED !== 'false' && process.env.E2E_TEST !== 'true') {
+      if (digestScheduler.start()) {
+        console.log('📧 Digest scheduler started');
+      } else {
+        console.log('📧 Digest scheduler not started: no mail transport configured (set SMTP_HOST or MAIL_TRANSPORT)');
+      }
+    }
+
+    // Metric alerts (disable with ALERT_EVALUATOR_ENABLED=false)
+    if (process.env.ALERT_EVALUATOR_ENABLED !== 'false' && process.env.E2E_TEST !== 'true') {
+      alertEvaluator.start();
+      console.log('🔔 Alert evaluator started');
+    }
+
+    // Periodic materialized view refresh (enable with VIEW_REFRESH_INTERVAL_MINUTES)
+    if (process.env.E2E_TEST !== 'true' && viewRefresher.start()) {
+      console.log(`🔄 Materialized view refresh scheduled every ${process.env.VIEW_REFRESH_INTERVAL_MINUTES} minutes`);
+    }
   } catch (error) {
     console.error('❌ Failed to start server:', error);
     console.error('Migration error - server will not start');
@@ -1,12 +1,13 @@
+import { timingSafeEqual } from 'crypto';
 import { Request, Response, NextFunction } from 'express';
+import env from '../config/env.js';
 import { extractTokenFromCookies, verifyToken, JWTPayload } from '../utils/jwt.js';
 
 // Extend Express Request to include user
+// (passport already declares req.user as Express.User, so we shape that type as the JWT payload)
 declare global {
   namespace Express {
-    interface Request {
-      user?: JWTPayload;
-    }
+    interface User extends JWTPayload {}
   }
 }
 
@@ -21,7 +22,8 @@ export const requireAuth = (req: Request, res: Response, next: NextFunction): vo
       id: 1,
       email: 'test@example.com',
       name: 'Test User',
-      domain: 'example.com'
+      domain: 'example.com',
+      role: 'admin'
     };
     next();
     return;
@@ -67,3 +69,75 @@ export const optionalAuth = (req: Request, res: Response, next: NextFunction): v
 
   next();
 };
+
+/**
+ * Check whether the authenticated user has the admin role
+ * @param user - Authenticated user payload (may be undefined)
+ * @returns True if the user is an admin
+ */
+export const isAdmin = (user?: JWTPayload): boolean => {
+  return user?.role === 'admin';
+};
+
+/**
+ * Check whether the authenticated user may edit a commit
+ * Admins can edit any commit; other users only commits they authored
+ * @param user - Authenticated user payload (may be undefined)
+ * @param authorEmail - Author email stored on the commit
+ * @returns True if the user is allowed to edit the commit
+ */
+export const canEditCommit = (user: JWTPayload | undefined, authorEmail: string | null): boolean => {
+  if (!user) {
+    return false;
+  }
+
+  if (isAdmin(user)) {
+    return true;
+  }
+
+  return !!authorEmail && user.email.trim().toLowerCase() === authorEmail.trim().toLowerCase();
+};
+
+/**
+ * Middleware to restrict routes to admin users
+ * Must be used after requireAuth
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    res.status(401).json({
+      error: 'Authentication required',
+      authenticated: false
+    });
+    return;
+  }
+
+  if (!isAdmin(req.user)) {
+    res.status(403).json({ error: 'Admin role required' });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Middleware for machine-to-machine ingestion (CI deploy and incident events)
+ * Requires `Authorization: Bearer <INGESTION_TOKEN>`; ingestion is disabled when the variable is not set
+ */
+export const requireIngestionToken = (req: Request, res: Response, next: NextFunction): void => {
+  const expected = env.INGESTION_TOKEN;
+  if (!expected) {
+    res.status(503).json({ error: 'Ingestion is disabled (INGESTION_TOKEN is not set)' });
+    return;
+  }
+
+  const header = req.headers.authorization || '';
+  const token = Buffer.from(header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '');
+  const expectedToken = Buffer.from(expected);
+
+  if (token.length !== expectedToken.length || !timingSafeEqual(token, expectedToken)) {
+    res.status(401).json({ error: 'Invalid ingestion token' });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,1130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import adminRouter from './admin.js';
+import pool from '../db.js';
+import { recategorizer } from '../utils/recategorizer.js';
+import { viewRefresher } from '../utils/viewRefresher.js';
+
+// Mock the database pool
+vi.mock('../db.js', () => ({
+  default: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}));
+
+describe('Admin Routes - Author Identities', () => {
+  let app: Express;
+  let client: { query: ReturnType<typeof vi.fn>; release: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminRouter);
+    vi.clearAllMocks();
+
+    client = { query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }), release: vi.fn() };
+    vi.mocked(pool.connect).mockResolvedValue(client as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('GET /api/admin/author-identities', () => {
+    it('should return identities with their aliases', async () => {
+      const identities = [
+        {
+          id: 1,
+          canonical_name: 'Jane Smith',
+          canonical_email: 'jane@example.com',
+          aliases: [{ id: 1, alias_type: 'email', alias_value: 'jane@example.com' }],
+        },
+      ];
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: identities } as any);
+
+      const response = await request(app).get('/api/admin/author-identities');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(identities);
+    });
+
+    it('should return 500 on database error', async () => {
+      vi.mocked(pool.query).mockRejectedValueOnce(new Error('Database error'));
+
+      const response = await request(app).get('/api/admin/author-identities');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Failed to fetch author identities' });
+    });
+  });
+
+  describe('POST /api/admin/author-identities', () => {
+    it('should require a canonical name', async () => {
+      const response = await request(app)
+        .post('/api/admin/author-identities')
+        .send({ canonical_email: 'jane@example.com' });
+
+      expect(response.status).toBe(400);
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should reject aliases with an unknown type', async () => {
+      const response = await request(app)
+        .post('/api/admin/author-identities')
+        .send({ canonical_name: 'Jane', aliases: [{ alias_type: 'phone', alias_value: '123' }] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject aliases that are not strings', async () => {
+      const response = await request(app)
+        .post('/api/admin/author-identities')
+        .send({ canonical_name: 'Jane', aliases: [{ alias_type: 'name', alias_value: 42 }] });
+
+      expect(response.status).toBe(400);
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 without moving an alias of another identity', async () => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO author_identities')) {
+          return { rows: [{ id: 7, canonical_name: 'Jane Smith', canonical_email: null }] };
+        }
+        if (sql.includes('SELECT identity_id FROM author_aliases')) {
+          return { rows: [{ identity_id: 3 }] };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+
+      const response = await request(app)
+        .post('/api/admin/author-identities')
+        .send({ canonical_name: 'Jane Smith', aliases: [{ alias_type: 'email', alias_value: 'dev@example.com' }] });
+
+      expect(response.status).toBe(409);
+      expect(response.body.identity_id).toBe(3);
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(client.query).not.toHaveBeenCalledWith('COMMIT');
+      expect(client.query.mock.calls.some((call: any[]) => String(call[0]).includes('DO UPDATE'))).toBe(false);
+    });
+
+    it('should return 500 when no connection can be acquired', async () => {
+      vi.mocked(pool.connect).mockRejectedValueOnce(new Error('too many clients') as never);
+
+      const response = await request(app)
+        .post('/api/admin/author-identities')
+        .send({ canonical_name: 'Jane Smith' });
+
+      expect(response.status).toBe(500);
+    });
+
+    it('should create the identity and register normalized aliases including the canonical email', async () => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO author_identities')) {
+          return { rows: [{ id: 7, canonical_name: 'Jane Smith', canonical_email: 'jane@example.com' }] };
+        }
+        return { rows: [{ identity_id: 7 }], rowCount: 1 };
+      });
+
+      const response = await request(app)
+        .post('/api/admin/author-identities')
+        .send({
+          canonical_name: 'Jane Smith',
+          canonical_email: 'jane@example.com',
+          aliases: [{ alias_type: 'email', alias_value: ' Jane.Smith@Personal.org ' }],
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.id).toBe(7);
+
+      const aliasInserts = client.query.mock.calls.filter((call: any[]) =>
+        String(call[0]).includes('INSERT INTO author_aliases')
+      );
+      expect(aliasInserts.map((call: any[]) => call[1])).toEqual([
+        [7, 'email', 'jane.smith@personal.org'],
+        [7, 'email', 'jane@example.com'],
+      ]);
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/admin/author-identities/:id/aliases', () => {
+    it('should return 409 when the alias belongs to another identity', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [{ identity_id: 3 }] } as any);
+
+      const response = await request(app)
+        .post('/api/admin/author-identities/1/aliases')
+        .send({ alias_type: 'email', alias_value: 'dev@example.com' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.identity_id).toBe(3);
+      expect(vi.mocked(pool.query).mock.calls[0][0]).toContain('DO NOTHING');
+    });
+
+    it('should return 400 when the alias is not a string', async () => {
+      const response = await request(app)
+        .post('/api/admin/author-identities/1/aliases')
+        .send({ alias_type: 'email', alias_value: { address: 'dev@example.com' } });
+
+      expect(response.status).toBe(400);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('should add the alias', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [{ id: 4, identity_id: 1, alias_type: 'name', alias_value: 'jsmith' }] } as any);
+
+      const response = await request(app)
+        .post('/api/admin/author-identities/1/aliases')
+        .send({ alias_type: 'name', alias_value: 'JSmith' });
+
+      expect(response.status).toBe(201);
+      expect(vi.mocked(pool.query).mock.calls[0][1]).toEqual([1, 'name', 'jsmith']);
+    });
+
+    it('should return 404 for identity ids that are not integers', async () => {
+      const response = await request(app)
+        .post('/api/admin/author-identities/abc/aliases')
+        .send({ alias_type: 'name', alias_value: 'JSmith' });
+
+      expect(response.status).toBe(404);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/admin/author-identities/merge', () => {
+    it('should reject merging an identity into itself', async () => {
+      const response = await request(app)
+        .post('/api/admin/author-identities/merge')
+        .send({ source_id: 2, target_id: 2 });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 when an identity does not exist', async () => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) {
+          return { rows: [{ id: 1 }] };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+
+      const response = await request(app)
+        .post('/api/admin/author-identities/merge')
+        .send({ source_id: 2, target_id: 1 });
+
+      expect(response.status).toBe(404);
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should move aliases to the target and delete the source', async () => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) {
+          return { rows: [{ id: 1 }, { id: 2 }] };
+        }
+        if (sql.includes('UPDATE author_aliases')) {
+          return { rows: [], rowCount: 3 };
+        }
+        return { rows: [], rowCount: 1 };
+      });
+
+      const response = await request(app)
+        .post('/api/admin/author-identities/merge')
+        .send({ source_id: 2, target_id: 1 });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, target_id: 1, aliases_moved: 3 });
+      expect(client.query).toHaveBeenCalledWith('DELETE FROM author_identities WHERE id = $1', [2]);
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+    });
+  });
+});
+
+describe('Admin Routes - Claimed Author Emails', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should list the claims of every user', async () => {
+    const claims = [{ id: 1, email: 'jane@personal.org', verified_commits: 12, user_id: 2, user_email: 'jane@example.com' }];
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: claims } as any);
+
+    const response = await request(app).get('/api/admin/author-emails');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual(claims);
+  });
+
+  it('should remove a claim of any user', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ id: 1 }] } as any);
+
+    const response = await request(app).delete('/api/admin/author-emails/1');
+
+    expect(response.status).toBe(200);
+    expect(vi.mocked(pool.query).mock.calls[0]).toEqual(['DELETE FROM user_author_emails WHERE id = $1 RETURNING id', [1]]);
+  });
+
+  it('should return 404 for unknown claims', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+    const response = await request(app).delete('/api/admin/author-emails/99');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 404 for ids that are not integers', async () => {
+    const response = await request(app).delete('/api/admin/author-emails/abc');
+
+    expect(response.status).toBe(404);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
+
+describe('Admin Routes - Materialized View Refresh', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('POST /api/admin/refresh-views', () => {
+    const result = (view_name: any, success: boolean) => ({
+      view_name,
+      success,
+      concurrently: true,
+      duration_ms: 120,
+      data_as_of: '2026-10-18T16:30:00.000Z',
+      ...(success ? {} : { error: 'timeout' }),
+    });
+
+    it('should return the refresh result of every view', async () => {
+      vi.spyOn(viewRefresher, 'refreshAll').mockResolvedValue([
+        result('mv_monthly_stats_by_repo', true),
+        result('mv_monthly_category_stats', true),
+      ]);
+
+      const response = await request(app).post('/api/admin/refresh-views');
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.views).toHaveLength(2);
+    });
+
+    it('should return 500 when a view fails to refresh', async () => {
+      vi.spyOn(viewRefresher, 'refreshAll').mockResolvedValue([
+        result('mv_monthly_stats_by_repo', false),
+        result('mv_monthly_category_stats', true),
+      ]);
+
+      const response = await request(app).post('/api/admin/refresh-views');
+
+      expect(response.status).toBe(500);
+      expect(response.body.success).toBe(false);
+      expect(response.body.views[0].error).toBe('timeout');
+    });
+
+    it('should return 409 when a refresh is already running', async () => {
+      vi.spyOn(viewRefresher, 'refreshAll').mockResolvedValue(null);
+
+      const response = await request(app).post('/api/admin/refresh-views');
+
+      expect(response.status).toBe(409);
+    });
+  });
+});
+
+describe('Admin Routes - Repositories', () => {
+  let app: Express;
+  let client: { query: ReturnType<typeof vi.fn>; release: ReturnType<typeof vi.fn> };
+
+  const repository = {
+    id: 3,
+    name: 'billing-service',
+    description: 'Invoicing',
+    default_branch: 'main',
+    team: 'Payments',
+    visibility: 'internal',
+    archived: false,
+    archived_at: null,
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminRouter);
+    vi.clearAllMocks();
+
+    client = { query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }), release: vi.fn() };
+    vi.mocked(pool.connect).mockResolvedValue(client as any);
+    vi.spyOn(viewRefresher, 'refreshAll').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('POST /api/admin/repositories', () => {
+    it('should create a repository', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [repository] } as any);
+
+      const response = await request(app)
+        .post('/api/admin/repositories')
+        .send({ name: 'billing-service', description: 'Invoicing', default_branch: 'main', team: 'Payments' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.name).toBe('billing-service');
+      expect(vi.mocked(pool.query).mock.calls[1][1]).toEqual(['billing-service', 'Invoicing', 'main', 'Payments', 'internal']);
+    });
+
+    it('should return 409 when the name is taken', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ id: 3 }] } as any);
+
+      const response = await request(app).post('/api/admin/repositories').send({ name: 'billing-service' });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should return 400 for invalid settings', async () => {
+      const response = await request(app).post('/api/admin/repositories').send({ name: 'web', visibility: 'secret' });
+
+      expect(response.status).toBe(400);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/admin/repositories/:id', () => {
+    it('should merge the changes and rename the repository in alert rules', async () => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) {
+          return { rows: [repository] };
+        }
+        if (sql.includes('UPDATE repositories')) {
+          return { rows: [{ ...repository, name: 'billing' }] };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+
+      const response = await request(app).put('/api/admin/repositories/3').send({ name: 'billing' });
+
+      expect(response.status).toBe(200);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE alert_rules'), ['billing', 'billing-service']);
+      const update = client.query.mock.calls.find(call => String(call[0]).includes('UPDATE repositories'))!;
+      expect(update[1]).toEqual(['billing', 'Invoicing', 'main', 'Payments', 'internal', 3]);
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+      expect(viewRefresher.refreshAll).toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown repositories', async () => {
+      const response = await request(app).put('/api/admin/repositories/99').send({ team: 'Platform' });
+
+      expect(response.status).toBe(404);
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/admin/repositories/:id/archive', () => {
+    it('should archive the repository', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ ...repository, archived: true }] } as any);
+
+      const response = await request(app).post('/api/admin/repositories/3/archive');
+
+      expect(response.status).toBe(200);
+      expect(response.body.archived).toBe(true);
+      expect(vi.mocked(pool.query).mock.calls[0][0]).toContain('archived = TRUE');
+    });
+
+    it('should return 404 for unknown repositories', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+      const response = await request(app).post('/api/admin/repositories/99/unarchive');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 404 for ids that are not integers', async () => {
+      const response = await request(app).post('/api/admin/repositories/billing/archive');
+
+      expect(response.status).toBe(404);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('Admin Routes - Teams', () => {
+  let app: Express;
+  let client: { query: ReturnType<typeof vi.fn>; release: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminRouter);
+    vi.clearAllMocks();
+
+    client = { query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }), release: vi.fn() };
+    vi.mocked(pool.connect).mockResolvedValue(client as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('POST /api/admin/teams', () => {
+    it('should create a team with normalized member emails', async () => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO teams')) {
+          return { rows: [{ id: 2, name: 'Payments', description: null }] };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+
+      const response = await request(app)
+        .post('/api/admin/teams')
+        .send({ name: 'Payments', members: ['Jane@Example.com ', 'jane@example.com', 'bob@example.com'] });
+
+      expect(response.status).toBe(201);
+      expect(response.body.members).toEqual(['jane@example.com', 'bob@example.com']);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO team_members'), [2, ['jane@example.com', 'bob@example.com']]);
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should return 409 when the name is taken', async () => {
+      client.query.mockImplementation(async (sql: string) => (
+        sql.includes('SELECT id FROM teams') ? { rows: [{ id: 1 }] } : { rows: [], rowCount: 0 }
+      ));
+
+      const response = await request(app).post('/api/admin/teams').send({ name: 'Payments' });
+
+      expect(response.status).toBe(409);
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid members', async () => {
+      const response = await request(app).post('/api/admin/teams').send({ name: 'Payments', members: ['jane'] });
+
+      expect(response.status).toBe(400);
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/admin/teams/:id', () => {
+    it('should keep the members when none are given', async () => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) {
+          return { rows: [{ name: 'Payments', description: null }] };
+        }
+        if (sql.includes('UPDATE teams')) {
+          return { rows: [{ id: 2, name: 'Payments', description: 'Billing squad' }] };
+        }
+        if (sql.includes('SELECT author_email')) {
+          return { rows: [{ author_email: 'jane@example.com' }] };
+        }
+        return { rows: [], rowCount: 0 };
+      });
+
+      const response = await request(app).put('/api/admin/teams/2').send({ description: 'Billing squad' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ name: 'Payments', description: 'Billing squad', members: ['jane@example.com'] });
+      expect(client.query).not.toHaveBeenCalledWith(expect.stringContaining('DELETE FROM team_members'), expect.anything());
+    });
+
+    it('should return 404 for unknown teams', async () => {
+      const response = await request(app).put('/api/admin/teams/99').send({ name: 'Platform' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/admin/teams/:id', () => {
+    it('should return 404 for unknown teams', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      const response = await request(app).delete('/api/admin/teams/99');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 404 for ids that are not integers', async () => {
+      const response = await request(app).delete('/api/admin/teams/Payments');
+
+      expect(response.status).toBe(404);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('Admin Routes - Category Taxonomy', () => {
+  let app: Express;
+  let client: { query: ReturnType<typeof vi.fn>; release: ReturnType<typeof vi.fn> };
+
+  const categories = [
+    { id: 1, name: 'BILLING', color: '#3b82f6', parent_id: null, synonyms: ['BILL'] },
+    { id: 2, name: 'INVOICES', color: '#10b981', parent_id: 1, synonyms: [] },
+  ];
+
+  // Answers the taxonomy queries, then the given handler
+  const taxonomyQuery = (handler: (sql: string, params?: any[]) => any = () => undefined) =>
+    async (sql: string, params?: any[]) => {
+      if (sql.includes('FROM categories ORDER BY name')) {
+        return { rows: categories };
+      }
+      if (sql.includes('FROM category_rules ORDER BY')) {
+        return { rows: [] };
+      }
+      return handler(sql, params) ?? { rows: [], rowCount: 0 };
+    };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminRouter);
+    vi.clearAllMocks();
+
+    client = { query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }), release: vi.fn() };
+    vi.mocked(pool.connect).mockResolvedValue(client as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('POST /api/admin/categories', () => {
+    it('should create a normalized category', async () => {
+      vi.mocked(pool.query).mockImplementation(taxonomyQuery((sql, params) => (
+        sql.includes('INSERT INTO categories') ? { rows: [{ id: 3, name: params![0], color: params![1] }] } : undefined
+      )) as any);
+
+      const response = await request(app)
+        .post('/api/admin/categories')
+        .send({ name: 'Infra', color: '#10B981', synonyms: ['ops', 'Ops'] });
+
+      expect(response.status).toBe(201);
+      expect(pool.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO categories'), ['INFRA', '#10b981', null, ['OPS']]);
+    });
+
+    it('should return 409 when the name is a synonym of another category', async () => {
+      vi.mocked(pool.query).mockImplementation(taxonomyQuery() as any);
+
+      const response = await request(app).post('/api/admin/categories').send({ name: 'bill', color: '#10b981' });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toEqual({ error: 'BILL is already a synonym of BILLING' });
+      expect(pool.query).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO categories'), expect.anything());
+    });
+
+    it('should return 400 for invalid categories', async () => {
+      const response = await request(app).post('/api/admin/categories').send({ name: 'INFRA', color: 'green' });
+
+      expect(response.status).toBe(400);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/admin/categories/:id', () => {
+    it('should rename the category of its commits and refresh the views', async () => {
+      const refreshSpy = vi.spyOn(viewRefresher, 'refreshAll').mockResolvedValue([]);
+      client.query.mockImplementation(taxonomyQuery((sql, params) => {
+        if (sql.includes('UPDATE categories')) {
+          return { rows: [{ id: 1, name: params![0] }] };
+        }
+        if (sql.includes('UPDATE commits')) {
+          return { rows: [], rowCount: 12 };
+        }
+      }));
+
+      const response = await request(app).put('/api/admin/categories/1').send({ name: 'Payments' });
+
+      expect(response.status).toBe(200);
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE categories'), ['PAYMENTS', '#3b82f6', null, ['BILL'], 1]);
+      expect(client.query).toHaveBeenCalledWith('UPDATE commits SET category = $1 WHERE category = $2', ['PAYMENTS', 'BILLING']);
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+      expect(refreshSpy).toHaveBeenCalled();
+    });
+
+    it('should reject a child category as parent', async () => {
+      client.query.mockImplementation(taxonomyQuery());
+
+      const response = await request(app).put('/api/admin/categories/1').send({ parent_id: 2 });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toEqual({ error: 'A category cannot be its own ancestor' });
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown categories', async () => {
+      client.query.mockImplementation(taxonomyQuery());
+
+      const response = await request(app).put('/api/admin/categories/99').send({ name: 'INFRA' });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 404 for ids that are not integers', async () => {
+      const response = await request(app).put('/api/admin/categories/BILLING').send({ name: 'INFRA' });
+
+      expect(response.status).toBe(404);
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/admin/category-rules', () => {
+    it('should create a rule', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] } as any)
+        .mockResolvedValueOnce({ rows: [{ id: 5, category_id: 1, pattern: 'invoice', position: 0 }] } as any);
+
+      const response = await request(app).post('/api/admin/category-rules').send({ category_id: 1, pattern: 'invoice' });
+
+      expect(response.status).toBe(201);
+      expect(pool.query).toHaveBeenLastCalledWith(expect.stringContaining('INSERT INTO category_rules'), [1, 'invoice', 0]);
+    });
+
+    it('should return 400 for invalid patterns and unknown categories', async () => {
+      const invalid = await request(app).post('/api/admin/category-rules').send({ category_id: 1, pattern: '[' });
+      expect(invalid.status).toBe(400);
+
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as any);
+      const unknown = await request(app).post('/api/admin/category-rules').send({ category_id: 9, pattern: 'invoice' });
+      expect(unknown.status).toBe(400);
+      expect(unknown.body).toEqual({ error: 'The category does not exist' });
+    });
+  });
+
+  describe('DELETE /api/admin/category-rules/:id', () => {
+    it('should return 404 for unknown rules', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      const response = await request(app).delete('/api/admin/category-rules/99');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 404 for ids that are not integers', async () => {
+      const response = await request(app).delete('/api/admin/category-rules/1e3');
+
+      expect(response.status).toBe(404);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/admin/recategorize', () => {
+    it('should preview the changes without refreshing the views', async () => {
+      const refreshSpy = vi.spyOn(viewRefresher, 'refreshAll').mockResolvedValue([]);
+      client.query.mockImplementation(taxonomyQuery((sql, params) => {
+        if (sql.includes('FROM commits c')) {
+          return params![0] === 0
+            ? { rows: [{ id: 1, subject: 'Bill | Add invoices', category: 'BILL', category_edited: false }] }
+            : { rows: [] };
+        }
+      }));
+
+      const response = await request(app).post('/api/admin/recategorize').send({ dry_run: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        dry_run: true,
+        scanned: 1,
+        updated: 1,
+        changes: [{ from: 'BILL', to: 'BILLING', commits: 1 }],
+      });
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(refreshSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when a re-categorization is already running', async () => {
+      vi.spyOn(recategorizer, 'run').mockResolvedValue(null);
+
+      const response = await request(app).post('/api/admin/recategorize').send({});
+
+      expect(response.status).toBe(409);
+    });
+  });
+});
+
+describe('Admin Routes - Commit Import', () => {
+  let app: Express;
+  let client: { query: ReturnType<typeof vi.fn>; release: ReturnType<typeof vi.fn> };
+
+  const commit = (hash: string, overrides: Record<string, unknown> = {}) => ({
+    hash,
+    commit_date: '2026-10-12T10:00:00Z',
+    author_name: 'Jane Smith',
+    author_email: 'jane@example.com',
+    subject: 'BILLING | Add invoices',
+    lines_added: 12,
+    lines_deleted: 3,
+    ...overrides,
+  });
+
+  const upload = (data: unknown, repository?: string) => {
+    const req = request(app)
+      .post('/api/admin/import')
+      .attach('file', Buffer.from(JSON.stringify(data)), 'export.json');
+    return repository ? req.field('repository', repository) : req;
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminRouter);
+    vi.clearAllMocks();
+
+    client = {
+      query: vi.fn(async (sql: string) => {
+        if (sql.includes('INSERT INTO repositories')) {
+          return { rows: [{ id: 4 }] };
+        }
+        if (sql.includes('INSERT INTO commits')) {
+          // One new commit, one changed; the third is unchanged
+          return { rows: [{ inserted: true }, { inserted: false }] };
+        }
+        return { rows: [], rowCount: 0 };
+      }),
+      release: vi.fn(),
+    };
+    vi.mocked(pool.connect).mockResolvedValue(client as any);
+    vi.spyOn(viewRefresher, 'refreshAll').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('POST /api/admin/import', () => {
+    it('should upsert the commits into the selected repository and report the counts', async () => {
+      const response = await upload({
+        repository: 'payments',
+        commits: [commit('a1b2c3d'), commit('b2c3d4e'), commit('c3d4e5f'), commit('zzz'), commit('a1b2c3d')],
+      }, 'billing-service');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        repository: 'billing-service',
+        repository_id: 4,
+        total: 5,
+        inserted: 1,
+        updated: 1,
+        skipped: 3,
+        unchanged: 1,
+        invalid: 2,
+      });
+      expect(response.body.issues.map((issue: any) => [issue.index, issue.error])).toEqual([
+        [3, 'hash must be a hexadecimal commit hash'],
+        [4, 'Duplicate hash in file'],
+      ]);
+      expect(client.query).toHaveBeenCalledWith('BEGIN');
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO repositories'), ['billing-service']);
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+      expect(viewRefresher.refreshAll).toHaveBeenCalled();
+    });
+
+    it('should default to the repository named in the file', async () => {
+      const response = await upload({ repository: { name: 'payments' }, commits: [commit('a1b2c3d')] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.repository).toBe('payments');
+    });
+
+    it('should accept a JSON body', async () => {
+      const response = await request(app)
+        .post('/api/admin/import')
+        .send({ repository: 'payments', commits: [commit('a1b2c3d')] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.repository).toBe('payments');
+    });
+
+    it('should return 400 when no repository is selected or named', async () => {
+      const response = await upload([commit('a1b2c3d')]);
+
+      expect(response.status).toBe(400);
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for files that are not valid JSON', async () => {
+      const response = await request(app)
+        .post('/api/admin/import')
+        .attach('file', Buffer.from('{"commits": ['), 'export.json');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('File is not valid JSON');
+    });
+
+    it('should roll back when the upsert fails', async () => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO commits')) {
+          throw new Error('connection lost');
+        }
+        if (sql.includes('FROM categor')) {
+          return { rows: [] };
+        }
+        return { rows: [{ id: 4 }], rowCount: 1 };
+      });
+
+      const response = await upload([commit('a1b2c3d')], 'billing-service');
+
+      expect(response.status).toBe(500);
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+      expect(viewRefresher.refreshAll).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('Admin Routes - Pull Request Import', () => {
+  let app: Express;
+  let client: { query: ReturnType<typeof vi.fn>; release: ReturnType<typeof vi.fn> };
+
+  const pullRequest = (number: number, overrides: Record<string, unknown> = {}) => ({
+    number,
+    title: 'Add invoices',
+    state: 'closed',
+    user: { login: 'jsmith' },
+    created_at: '2026-10-10T09:00:00Z',
+    merged_at: '2026-10-12T15:00:00Z',
+    closed_at: '2026-10-12T15:00:00Z',
+    commits: ['a1b2c3d', { sha: 'b2c3d4e' }],
+    reviews: [{ user: { login: 'alee' }, state: 'APPROVED', submitted_at: '2026-10-11T10:00:00Z' }],
+    ...overrides,
+  });
+
+  const upload = (data: unknown, repository?: string) => {
+    const req = request(app)
+      .post('/api/admin/import/pull-requests')
+      .attach('file', Buffer.from(JSON.stringify(data)), 'pull-requests.json');
+    return repository ? req.field('repository', repository) : req;
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminRouter);
+    vi.clearAllMocks();
+
+    let nextId = 10;
+    client = {
+      query: vi.fn(async (sql: string) => {
+        if (sql.includes('INSERT INTO repositories')) {
+          return { rows: [{ id: 4 }] };
+        }
+        if (sql.includes('INSERT INTO pull_requests')) {
+          // The first pull request is new, the others already exist
+          nextId++;
+          return { rows: [{ id: nextId, inserted: nextId === 11 }] };
+        }
+        return { rows: [], rowCount: 0 };
+      }),
+      release: vi.fn(),
+    };
+    vi.mocked(pool.connect).mockResolvedValue(client as any);
+  });
+
+  describe('POST /api/admin/import/pull-requests', () => {
+    it('should upsert the pull requests with their reviews and commits', async () => {
+      const response = await upload({
+        repository: 'payments',
+        pull_requests: [pullRequest(1), pullRequest(2, { reviews: [] }), pullRequest(3, { created_at: 'yesterday' })],
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        repository: 'payments',
+        repository_id: 4,
+        total: 3,
+        inserted: 1,
+        updated: 1,
+        reviews: 1,
+        commits: 4,
+        invalid: 1,
+      });
+      expect(response.body.issues).toEqual([{ index: 2, number: 3, error: 'created_at must be an ISO 8601 date' }]);
+      expect(client.query).toHaveBeenCalledWith('DELETE FROM pull_request_reviews WHERE pull_request_id = $1', [12]);
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO pull_request_commits'),
+        [11, ['a1b2c3d', 'b2c3d4e']]
+      );
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should accept GitLab merge requests', async () => {
+      const response = await upload({
+        repository: { name: 'payments' },
+        merge_requests: [{
+          iid: 7,
+          title: 'Fix rounding',
+          state: 'merged',
+          author: { username: 'alee', name: 'Ann Lee' },
+          created_at: '2026-10-10T09:00:00Z',
+          merged_at: '2026-10-11T09:00:00Z',
+          source_branch: 'fix-rounding',
+          target_branch: 'main',
+        }],
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ repository: 'payments', inserted: 1, invalid: 0 });
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO pull_requests'),
+        [4, 7, 'Fix rounding', 'alee', 'Ann Lee', null, 'merged', 'fix-rounding', 'main', null,
+          '2026-10-10T09:00:00Z', '2026-10-11T09:00:00Z', null]
+      );
+    });
+
+    it('should return 400 when no repository is selected or named', async () => {
+      const response = await upload([pullRequest(1)]);
+
+      expect(response.status).toBe(400);
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should roll back when the upsert fails', async () => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO pull_requests')) {
+          throw new Error('connection lost');
+        }
+        return { rows: [{ id: 4 }], rowCount: 1 };
+      });
+
+      const response = await upload([pullRequest(1)], 'payments');
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe('Failed to import pull requests');
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+});
+
+describe('Admin Routes - Issue Import', () => {
+  let app: Express;
+  let client: { query: ReturnType<typeof vi.fn>; release: ReturnType<typeof vi.fn> };
+
+  const issue = (key: string, overrides: Record<string, unknown> = {}) => ({
+    key,
+    title: 'Round invoice totals',
+    type: 'Story',
+    epic_key: 'PAY-1',
+    story_points: 3,
+    ...overrides,
+  });
+
+  const upload = (data: unknown, repository?: string) => {
+    const req = request(app)
+      .post('/api/admin/import/issues')
+      .attach('file', Buffer.from(JSON.stringify(data)), 'issues.json');
+    return repository ? req.field('repository', repository) : req;
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminRouter);
+    vi.clearAllMocks();
+
+    client = {
+      query: vi.fn(async (sql: string) => {
+        if (sql.includes('INSERT INTO issues')) {
+          return { rows: [{ inserted: true }, { inserted: false }] };
+        }
+        if (sql.includes('WHERE c.ticket_keys IS NULL')) {
+          return { rows: [{ id: 1, subject: 'PAY-12 Round totals', description: null, repository_name: 'payments' }] };
+        }
+        if (sql.includes('ticket_keys &&')) {
+          return { rows: [{ count: 5 }] };
+        }
+        return { rows: [], rowCount: 0 };
+      }),
+      release: vi.fn(),
+    };
+    vi.mocked(pool.connect).mockResolvedValue(client as any);
+  });
+
+  describe('POST /api/admin/import/issues', () => {
+    it('should upsert the issues and extract the issue keys of older commits', async () => {
+      const response = await upload({ issues: [issue('PAY-12'), issue('pay-13'), issue('PAY-14', { story_points: 'three' })] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        repository: null,
+        total: 3,
+        inserted: 1,
+        updated: 1,
+        linked_commits: 5,
+        extracted_commits: 1,
+        invalid: 1,
+        issues: [{ index: 2, key: 'PAY-14', error: 'story points must be a non-negative number' }],
+      });
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO issues'),
+        ['PAY-12', 'Round invoice totals', 'Story', null, 'PAY-1', null, 3, null, null,
+          'PAY-13', 'Round invoice totals', 'Story', null, 'PAY-1', null, 3, null, null]
+      );
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE commits c'),
+        [JSON.stringify([{ id: 1, keys: ['PAY-12'] }])]
+      );
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should key GitLab issues by the chosen repository', async () => {
+      const response = await upload([{ iid: 42, title: 'Checkout fails', state: 'opened' }], 'payments');
+
+      expect(response.status).toBe(200);
+      expect(response.body.repository).toBe('payments');
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO issues'),
+        ['payments#42', 'Checkout fails', null, 'opened', null, null, null, null, null]
+      );
+    });
+
+    it('should return 400 for files without issues', async () => {
+      const response = await upload({ pull_requests: [] });
+
+      expect(response.status).toBe(400);
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should roll back when the upsert fails', async () => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO issues')) {
+          throw new Error('connection lost');
+        }
+        return { rows: [], rowCount: 0 };
+      });
+
+      const response = await upload([issue('PAY-12')]);
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe('Failed to import issues');
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+});
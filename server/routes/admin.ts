@@ -0,0 +1,1121 @@
+import express, { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { PoolClient } from 'pg';
+import pool from '../db.js';
+import { normalizeAliasValue } from '../utils/authorIdentity.js';
+import {
+  findCategoryConflict,
+  loadCategoryResolver,
+  loadCategoryTaxonomy,
+  parseCategoryInput,
+  parseCategoryRuleInput
+} from '../utils/categoryTaxonomy.js';
+import { MAX_REPORTED_ISSUES, parseImportFile, validateImportedCommits } from '../utils/commitImport.js';
+import { upsertCommits, upsertRepository } from '../utils/commitStore.js';
+import { parseIssueFile, validateImportedIssues } from '../utils/issueImport.js';
+import { extractMissingTicketKeys, upsertIssues } from '../utils/issueStore.js';
+import { parsePullRequestFile, validateImportedPullRequests } from '../utils/pullRequestImport.js';
+import { upsertPullRequests } from '../utils/pullRequestStore.js';
+import { recategorizer } from '../utils/recategorizer.js';
+import { parseRepositoryInput } from '../utils/repositories.js';
+import { parseIdParam } from '../utils/routeParams.js';
+import { parseTeamInput } from '../utils/teams.js';
+import { extractTicketKeys } from '../utils/ticketKeys.js';
+import { viewRefresher } from '../utils/viewRefresher.js';
+
+const router = express.Router();
+
+type AliasType = 'email' | 'name';
+
+const isAliasType = (value: unknown): value is AliasType => value === 'email' || value === 'name';
+
+const isAliasValue = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+/**
+ * Register an alias for an identity unless it is already registered
+ * @returns The identity the alias belongs to (null if it vanished concurrently)
+ */
+async function registerAlias(client: PoolClient, identityId: number, aliasType: AliasType, aliasValue: string): Promise<number | null> {
+  const inserted = await client.query(
+    `INSERT INTO author_aliases (identity_id, alias_type, alias_value)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (alias_type, alias_value) DO NOTHING
+     RETURNING identity_id`,
+    [identityId, aliasType, aliasValue]
+  );
+  if (inserted.rows.length > 0) {
+    return identityId;
+  }
+
+  const existing = await client.query(
+    'SELECT identity_id FROM author_aliases WHERE alias_type = $1 AND alias_value = $2',
+    [aliasType, aliasValue]
+  );
+  return existing.rows[0]?.identity_id ?? null;
+}
+
+/** Largest commit export accepted by the import */
+const IMPORT_MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: IMPORT_MAX_FILE_SIZE, files: 1 } });
+
+// Accept the export as the multipart "file" field, reporting upload errors as JSON
+const receiveImportFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('file')(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      const status = err.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      return res.status(status).json({ error: err.code === 'LIMIT_FILE_SIZE' ? 'File is larger than 50 MB' : err.message });
+    }
+    if (err) {
+      return next(err);
+    }
+    next();
+  });
+};
+
+// List author identities with their aliases
+router.get('/author-identities', async (_req: Request, res: Response) => {
+  try {
+    const result = await pool.query(`
+      SELECT
+        ai.id,
+        ai.canonical_name,
+        ai.canonical_email,
+        ai.created_at,
+        ai.updated_at,
+        COALESCE(
+          json_agg(
+            json_build_object('id', aa.id, 'alias_type', aa.alias_type, 'alias_value', aa.alias_value)
+            ORDER BY aa.alias_type, aa.alias_value
+          ) FILTER (WHERE aa.id IS NOT NULL),
+          '[]'::json
+        ) as aliases
+      FROM author_identities ai
+      LEFT JOIN author_aliases aa ON aa.identity_id = ai.id
+      GROUP BY ai.id
+      ORDER BY ai.canonical_name
+    `);
+    res.json(result.rows);
+  } catch (err) {
+    console.error('Error fetching author identities:', err);
+    res.status(500).json({ error: 'Failed to fetch author identities' });
+  }
+});
+
+// List distinct commit author name/email pairs with the identity they resolve to
+// Helps admins spot the same person committing under several identities
+router.get('/author-candidates', async (req: Request, res: Response) => {
+  try {
+    const search = req.query.search as string | undefined;
+    const params: any[] = [];
+    let whereClause = '';
+
+    if (search) {
+      whereClause = 'WHERE c.author_name ILIKE $1 OR c.author_email ILIKE $1';
+      params.push(`%${search}%`);
+    }
+
+    const result = await pool.query(`
+      SELECT
+        c.author_name,
+        c.author_email,
+        c.author_identity_id,
+        MAX(c.canonical_author_name) as canonical_name,
+        COUNT(c.id)::int as total_commits,
+        MAX(c.commit_date) as latest_commit
+      FROM v_commits_with_identity c
+      ${whereClause}
+      GROUP BY c.author_name, c.author_email, c.author_identity_id
+      ORDER BY LOWER(c.author_name), total_commits DESC
+    `, params);
+    res.json(result.rows);
+  } catch (err) {
+    console.error('Error fetching author candidates:', err);
+    res.status(500).json({ error: 'Failed to fetch author candidates' });
+  }
+});
+
+// Create an author identity with optional aliases
+// The canonical email is always registered as an email alias
+router.post('/author-identities', async (req: Request, res: Response) => {
+  try {
+    const { canonical_name, canonical_email, aliases = [] } = req.body || {};
+
+    if (!canonical_name || typeof canonical_name !== 'string') {
+      return res.status(400).json({ error: 'canonical_name is required' });
+    }
+
+    if (canonical_email !== undefined && canonical_email !== null && typeof canonical_email !== 'string') {
+      return res.status(400).json({ error: 'canonical_email must be a string' });
+    }
+
+    if (!Array.isArray(aliases) || aliases.some(alias => !isAliasType(alias?.alias_type) || !isAliasValue(alias?.alias_value))) {
+      return res.status(400).json({ error: 'aliases must be a list of { alias_type: "email" | "name", alias_value }' });
+    }
+
+    const allAliases: { alias_type: AliasType; alias_value: string }[] = [...aliases];
+    if (canonical_email) {
+      allAliases.push({ alias_type: 'email', alias_value: canonical_email });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const identity = await client.query(
+        `INSERT INTO author_identities (canonical_name, canonical_email)
+         VALUES ($1, $2)
+         RETURNING id, canonical_name, canonical_email, created_at, updated_at`,
+        [canonical_name.trim(), canonical_email ? canonical_email.trim() : null]
+      );
+      const identityId = identity.rows[0].id;
+
+      for (const alias of allAliases) {
+        const aliasValue = normalizeAliasValue(alias.alias_value);
+        const owner = await registerAlias(client, identityId, alias.alias_type, aliasValue);
+
+        // Aliases of another identity are never moved silently: the identities must be merged
+        if (owner !== null && String(owner) !== String(identityId)) {
+          await client.query('ROLLBACK');
+          return res.status(409).json({
+            error: `The ${alias.alias_type} alias "${aliasValue}" already belongs to another identity. Merge the identities instead`,
+            identity_id: owner
+          });
+        }
+      }
+
+      await client.query('COMMIT');
+      res.status(201).json(identity.rows[0]);
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    console.error('Error creating author identity:', err);
+    res.status(500).json({ error: 'Failed to create author identity' });
+  }
+});
+
+// Update canonical name/email of an identity
+router.put('/author-identities/:id', async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Author identity not found' });
+  }
+
+  try {
+    const { canonical_name, canonical_email } = req.body || {};
+
+    const result = await pool.query(
+      `UPDATE author_identities
+       SET canonical_name = COALESCE($1, canonical_name),
+           canonical_email = COALESCE($2, canonical_email),
+           updated_at = NOW()
+       WHERE id = $3
+       RETURNING id, canonical_name, canonical_email, created_at, updated_at`,
+      [canonical_name, canonical_email, id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Author identity not found' });
+    }
+
+    res.json(result.rows[0]);
+  } catch (err) {
+    console.error('Error updating author identity:', err);
+    res.status(500).json({ error: 'Failed to update author identity' });
+  }
+});
+
+// Delete an identity (its aliases are removed by cascade)
+router.delete('/author-identities/:id', async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Author identity not found' });
+  }
+
+  try {
+    const result = await pool.query(
+      'DELETE FROM author_identities WHERE id = $1 RETURNING id',
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Author identity not found' });
+    }
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting author identity:', err);
+    res.status(500).json({ error: 'Failed to delete author identity' });
+  }
+});
+
+// Add an email or name alias to an identity
+router.post('/author-identities/:id/aliases', async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Author identity not found' });
+  }
+
+  try {
+    const { alias_type, alias_value } = req.body || {};
+
+    if (!isAliasType(alias_type) || !isAliasValue(alias_value)) {
+      return res.status(400).json({ error: 'alias_type ("email" or "name") and alias_value are required' });
+    }
+
+    const normalized = normalizeAliasValue(alias_value);
+    const result = await pool.query(
+      `INSERT INTO author_aliases (identity_id, alias_type, alias_value)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (alias_type, alias_value) DO NOTHING
+       RETURNING id, identity_id, alias_type, alias_value`,
+      [id, alias_type, normalized]
+    );
+
+    if (result.rows.length === 0) {
+      const existing = await pool.query(
+        'SELECT identity_id FROM author_aliases WHERE alias_type = $1 AND alias_value = $2',
+        [alias_type, normalized]
+      );
+      const owner = existing.rows[0]?.identity_id ?? null;
+      return res.status(409).json({
+        error: owner === id
+          ? 'Alias already belongs to this identity'
+          : 'Alias already belongs to another identity. Merge the identities instead',
+        identity_id: owner
+      });
+    }
+
+    res.status(201).json(result.rows[0]);
+  } catch (err) {
+    console.error('Error adding author alias:', err);
+    res.status(500).json({ error: 'Failed to add author alias' });
+  }
+});
+
+// Remove an alias
+router.delete('/author-aliases/:aliasId', async (req: Request, res: Response) => {
+  const aliasId = parseIdParam(req.params.aliasId);
+  if (aliasId === null) {
+    return res.status(404).json({ error: 'Author alias not found' });
+  }
+
+  try {
+    const result = await pool.query(
+      'DELETE FROM author_aliases WHERE id = $1 RETURNING id',
+      [aliasId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Author alias not found' });
+    }
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting author alias:', err);
+    res.status(500).json({ error: 'Failed to delete author alias' });
+  }
+});
+
+// Merge one identity into another: all aliases move to the target, the source is deleted
+router.post('/author-identities/merge', async (req: Request, res: Response) => {
+  try {
+    const { source_id, target_id } = req.body || {};
+
+    if (!source_id || !target_id || String(source_id) === String(target_id)) {
+      return res.status(400).json({ error: 'source_id and target_id must be two different identities' });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const identities = await client.query(
+        'SELECT id FROM author_identities WHERE id = ANY($1) FOR UPDATE',
+        [[source_id, target_id]]
+      );
+
+      if (identities.rows.length !== 2) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Author identity not found' });
+      }
+
+      const moved = await client.query(
+        'UPDATE author_aliases SET identity_id = $1 WHERE identity_id = $2',
+        [target_id, source_id]
+      );
+      await client.query('DELETE FROM author_identities WHERE id = $1', [source_id]);
+      await client.query('UPDATE author_identities SET updated_at = NOW() WHERE id = $1', [target_id]);
+
+      await client.query('COMMIT');
+      res.json({ success: true, target_id, aliases_moved: moved.rowCount });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    console.error('Error merging author identities:', err);
+    res.status(500).json({ error: 'Failed to merge author identities' });
+  }
+});
+
+// List the author emails claimed by users (see /api/me/author-emails)
+router.get('/author-emails', async (_req: Request, res: Response) => {
+  try {
+    const result = await pool.query(`
+      SELECT
+        uae.id,
+        uae.email,
+        uae.verified_commits,
+        uae.created_at,
+        u.id as user_id,
+        u.email as user_email,
+        u.name as user_name
+      FROM user_author_emails uae
+      JOIN users u ON u.id = uae.user_id
+      ORDER BY uae.email
+    `);
+    res.json(result.rows);
+  } catch (err) {
+    console.error('Error fetching claimed author emails:', err);
+    res.status(500).json({ error: 'Failed to fetch claimed author emails' });
+  }
+});
+
+// Remove an author email claimed by any user
+router.delete('/author-emails/:id', async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Claimed email not found' });
+  }
+
+  try {
+    const result = await pool.query(
+      'DELETE FROM user_author_emails WHERE id = $1 RETURNING id',
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Claimed email not found' });
+    }
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error removing claimed author email:', err);
+    res.status(500).json({ error: 'Failed to remove claimed author email' });
+  }
+});
+
+// Refresh the materialized views (mv_monthly_stats_by_repo, mv_monthly_category_stats)
+router.post('/refresh-views', async (_req: Request, res: Response) => {
+  try {
+    const results = await viewRefresher.refreshAll();
+
+    if (!results) {
+      return res.status(409).json({ error: 'A refresh is already running' });
+    }
+
+    const failed = results.filter(result => !result.success);
+    res.status(failed.length > 0 ? 500 : 200).json({
+      success: failed.length === 0,
+      views: results,
+      ...(failed.length > 0 ? { error: 'Failed to refresh some materialized views' } : {}),
+    });
+  } catch (err) {
+    console.error('Error refreshing materialized views:', err);
+    res.status(500).json({ error: 'Failed to refresh materialized views' });
+  }
+});
+
+// Repository columns returned by the repository endpoints
+const REPOSITORY_COLUMNS = 'id, name, description, default_branch, team, visibility, archived, archived_at, created_at, updated_at';
+
+// Create a repository (commits are added by the ingestion or the import)
+router.post('/repositories', async (req: Request, res: Response) => {
+  try {
+    const parsed = parseRepositoryInput(req.body || {});
+    if (!parsed.repository) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const repository = parsed.repository;
+
+    const existing = await pool.query('SELECT id FROM repositories WHERE name = $1', [repository.name]);
+    if (existing.rows.length > 0) {
+      return res.status(409).json({ error: 'A repository with this name already exists', id: existing.rows[0].id });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO repositories (name, description, default_branch, team, visibility)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ${REPOSITORY_COLUMNS}`,
+      [repository.name, repository.description, repository.default_branch, repository.team, repository.visibility]
+    );
+
+    res.status(201).json(result.rows[0]);
+  } catch (err) {
+    console.error('Error creating repository:', err);
+    res.status(500).json({ error: 'Failed to create repository' });
+  }
+});
+
+// Update repository settings (only the given fields change)
+// Renaming also renames the repository in alert rules; the materialized views
+// (keyed by repository name) are refreshed in the background
+router.put('/repositories/:id', async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Repository not found' });
+  }
+
+  try {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const current = await client.query(
+        `SELECT ${REPOSITORY_COLUMNS} FROM repositories WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+      if (current.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Repository not found' });
+      }
+
+      const parsed = parseRepositoryInput(req.body || {}, current.rows[0]);
+      if (!parsed.repository) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ error: parsed.error });
+      }
+      const repository = parsed.repository;
+      const renamed = repository.name !== current.rows[0].name;
+
+      if (renamed) {
+        const existing = await client.query('SELECT id FROM repositories WHERE name = $1 AND id <> $2', [repository.name, id]);
+        if (existing.rows.length > 0) {
+          await client.query('ROLLBACK');
+          return res.status(409).json({ error: 'A repository with this name already exists', id: existing.rows[0].id });
+        }
+        await client.query(
+          'UPDATE alert_rules SET repository_name = $1, updated_at = NOW() WHERE repository_name = $2',
+          [repository.name, current.rows[0].name]
+        );
+      }
+
+      const result = await client.query(
+        `UPDATE repositories
+         SET name = $1, description = $2, default_branch = $3, team = $4, visibility = $5, updated_at = NOW()
+         WHERE id = $6
+         RETURNING ${REPOSITORY_COLUMNS}`,
+        [repository.name, repository.description, repository.default_branch, repository.team, repository.visibility, id]
+      );
+
+      await client.query('COMMIT');
+
+      if (renamed) {
+        viewRefresher.refreshAll().catch(err => console.error('Error refreshing materialized views after rename:', err));
+      }
+
+      res.json(result.rows[0]);
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    console.error('Error updating repository:', err);
+    res.status(500).json({ error: 'Failed to update repository' });
+  }
+});
+
+// Archive a repository: its commits are kept but left out of Overview, Trends and Comparison
+router.post('/repositories/:id/archive', async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Repository not found' });
+  }
+
+  try {
+    const result = await pool.query(
+      `UPDATE repositories
+       SET archived = TRUE, archived_at = COALESCE(archived_at, NOW()), updated_at = NOW()
+       WHERE id = $1
+       RETURNING ${REPOSITORY_COLUMNS}`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Repository not found' });
+    }
+
+    res.json(result.rows[0]);
+  } catch (err) {
+    console.error('Error archiving repository:', err);
+    res.status(500).json({ error: 'Failed to archive repository' });
+  }
+});
+
+// Restore an archived repository
+router.post('/repositories/:id/unarchive', async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Repository not found' });
+  }
+
+  try {
+    const result = await pool.query(
+      `UPDATE repositories
+       SET archived = FALSE, archived_at = NULL, updated_at = NOW()
+       WHERE id = $1
+       RETURNING ${REPOSITORY_COLUMNS}`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Repository not found' });
+    }
+
+    res.json(result.rows[0]);
+  } catch (err) {
+    console.error('Error restoring repository:', err);
+    res.status(500).json({ error: 'Failed to restore repository' });
+  }
+});
+
+// Replace the members of a team (inside a transaction)
+const replaceTeamMembers = async (client: PoolClient, teamId: number, members: string[]) => {
+  await client.query('DELETE FROM team_members WHERE team_id = $1', [teamId]);
+  if (members.length > 0) {
+    await client.query(
+      `INSERT INTO team_members (team_id, author_email)
+       SELECT $1, UNNEST($2::text[])`,
+      [teamId, members]
+    );
+  }
+};
+
+// Create a team
+// Body: { name, description?, members?: [author emails] }
+router.post('/teams', async (req: Request, res: Response) => {
+  try {
+    const { team, error } = parseTeamInput(req.body || {});
+    if (!team) {
+      return res.status(400).json({ error });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query('SELECT id FROM teams WHERE name = $1', [team.name]);
+      if (existing.rows.length > 0) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({ error: 'A team with this name already exists', id: existing.rows[0].id });
+      }
+
+      const result = await client.query(
+        `INSERT INTO teams (name, description)
+         VALUES ($1, $2)
+         RETURNING id, name, description, created_at, updated_at`,
+        [team.name, team.description]
+      );
+      const members = team.members ?? [];
+      await replaceTeamMembers(client, result.rows[0].id, members);
+
+      await client.query('COMMIT');
+      res.status(201).json({ ...result.rows[0], members });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    console.error('Error creating team:', err);
+    res.status(500).json({ error: 'Failed to create team' });
+  }
+});
+
+// Update a team; members (if given) replace the current members
+router.put('/teams/:id', async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Team not found' });
+  }
+
+  try {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const current = await client.query('SELECT name, description FROM teams WHERE id = $1 FOR UPDATE', [id]);
+      if (current.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Team not found' });
+      }
+
+      const { team, error } = parseTeamInput(req.body || {}, current.rows[0]);
+      if (!team) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ error });
+      }
+
+      const existing = await client.query('SELECT id FROM teams WHERE name = $1 AND id <> $2', [team.name, id]);
+      if (existing.rows.length > 0) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({ error: 'A team with this name already exists', id: existing.rows[0].id });
+      }
+
+      const result = await client.query(
+        `UPDATE teams SET name = $1, description = $2, updated_at = NOW()
+         WHERE id = $3
+         RETURNING id, name, description, created_at, updated_at`,
+        [team.name, team.description, id]
+      );
+      if (team.members) {
+        await replaceTeamMembers(client, id, team.members);
+      }
+      const members = await client.query(
+        'SELECT author_email FROM team_members WHERE team_id = $1 ORDER BY author_email',
+        [id]
+      );
+
+      await client.query('COMMIT');
+      res.json({ ...result.rows[0], members: members.rows.map((row: any) => row.author_email) });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    console.error('Error updating team:', err);
+    res.status(500).json({ error: 'Failed to update team' });
+  }
+});
+
+// Delete a team and its members
+router.delete('/teams/:id', async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Team not found' });
+  }
+
+  try {
+    const result = await pool.query('DELETE FROM teams WHERE id = $1', [id]);
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting team:', err);
+    res.status(500).json({ error: 'Failed to delete team' });
+  }
+});
+
+// Category columns returned by the taxonomy endpoints
+const CATEGORY_COLUMNS = 'id, name, color, parent_id, synonyms, created_at, updated_at';
+const CATEGORY_RULE_COLUMNS = 'id, category_id, pattern, position, created_at, updated_at';
+
+// Create a taxonomy category
+// Body: { name, color, parent_id?, synonyms?: [names] }
+router.post('/categories', async (req: Request, res: Response) => {
+  const { category, error } = parseCategoryInput(req.body || {});
+  if (!category) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    const conflict = findCategoryConflict(await loadCategoryTaxonomy(), category);
+    if (conflict) {
+      return res.status(409).json({ error: conflict });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO categories (name, color, parent_id, synonyms)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${CATEGORY_COLUMNS}`,
+      [category.name, category.color, category.parent_id, category.synonyms]
+    );
+    res.status(201).json(result.rows[0]);
+  } catch (err) {
+    console.error('Error creating category:', err);
+    res.status(500).json({ error: 'Failed to create category' });
+  }
+});
+
+// Update a taxonomy category (only the given fields change)
+// Renaming also renames the category of its commits; the materialized views are
+// refreshed in the background
+router.put('/categories/:id', async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Category not found' });
+  }
+
+  try {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const taxonomy = await loadCategoryTaxonomy(client);
+      const existing = taxonomy.categories.find(category => category.id === id);
+      if (!existing) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Category not found' });
+      }
+
+      const { category, error } = parseCategoryInput(req.body || {}, existing);
+      if (!category) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ error });
+      }
+      const conflict = findCategoryConflict(taxonomy, category, id);
+      if (conflict) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({ error: conflict });
+      }
+
+      const result = await client.query(
+        `UPDATE categories
+         SET name = $1, color = $2, parent_id = $3, synonyms = $4, updated_at = NOW()
+         WHERE id = $5
+         RETURNING ${CATEGORY_COLUMNS}`,
+        [category.name, category.color, category.parent_id, category.synonyms, id]
+      );
+      const renamed = category.name !== existing.name
+        ? await client.query('UPDATE commits SET category = $1 WHERE category = $2', [category.name, existing.name])
+        : null;
+
+      await client.query('COMMIT');
+
+      if (renamed?.rowCount) {
+        viewRefresher.refreshAll().catch(err => console.error('Error refreshing materialized views after category rename:', err));
+      }
+
+      res.json(result.rows[0]);
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    console.error('Error updating category:', err);
+    res.status(500).json({ error: 'Failed to update category' });
+  }
+});
+
+// Delete a taxonomy category and its rules (commits keep their category, children are detached)
+router.delete('/categories/:id', async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Category not found' });
+  }
+
+  try {
+    const result = await pool.query('DELETE FROM categories WHERE id = $1', [id]);
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting category:', err);
+    res.status(500).json({ error: 'Failed to delete category' });
+  }
+});
+
+// Create a categorization rule
+// Body: { category_id, pattern (regular expression), position? }
+router.post('/category-rules', async (req: Request, res: Response) => {
+  const { rule, error } = parseCategoryRuleInput(req.body || {});
+  if (!rule) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    const category = await pool.query('SELECT id FROM categories WHERE id = $1', [rule.category_id]);
+    if (category.rows.length === 0) {
+      return res.status(400).json({ error: 'The category does not exist' });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO category_rules (category_id, pattern, position)
+       VALUES ($1, $2, $3)
+       RETURNING ${CATEGORY_RULE_COLUMNS}`,
+      [rule.category_id, rule.pattern, rule.position]
+    );
+    res.status(201).json(result.rows[0]);
+  } catch (err) {
+    console.error('Error creating category rule:', err);
+    res.status(500).json({ error: 'Failed to create category rule' });
+  }
+});
+
+// Update a categorization rule (only the given fields change)
+router.put('/category-rules/:id', async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Category rule not found' });
+  }
+
+  try {
+    const existing = await pool.query(`SELECT ${CATEGORY_RULE_COLUMNS} FROM category_rules WHERE id = $1`, [id]);
+    if (existing.rows.length === 0) {
+      return res.status(404).json({ error: 'Category rule not found' });
+    }
+
+    const { rule, error } = parseCategoryRuleInput(req.body || {}, existing.rows[0]);
+    if (!rule) {
+      return res.status(400).json({ error });
+    }
+    const category = await pool.query('SELECT id FROM categories WHERE id = $1', [rule.category_id]);
+    if (category.rows.length === 0) {
+      return res.status(400).json({ error: 'The category does not exist' });
+    }
+
+    const result = await pool.query(
+      `UPDATE category_rules
+       SET category_id = $1, pattern = $2, position = $3, updated_at = NOW()
+       WHERE id = $4
+       RETURNING ${CATEGORY_RULE_COLUMNS}`,
+      [rule.category_id, rule.pattern, rule.position, id]
+    );
+    res.json(result.rows[0]);
+  } catch (err) {
+    console.error('Error updating category rule:', err);
+    res.status(500).json({ error: 'Failed to update category rule' });
+  }
+});
+
+// Delete a categorization rule
+router.delete('/category-rules/:id', async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Category rule not found' });
+  }
+
+  try {
+    const result = await pool.query('DELETE FROM category_rules WHERE id = $1', [id]);
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Category rule not found' });
+    }
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting category rule:', err);
+    res.status(500).json({ error: 'Failed to delete category rule' });
+  }
+});
+
+// Re-categorize the existing commits with the taxonomy
+// Body: { dry_run?: boolean } - a dry run only counts the changes
+router.post('/recategorize', async (req: Request, res: Response) => {
+  try {
+    const result = await recategorizer.run({ dryRun: req.body?.dry_run === true });
+
+    if (!result) {
+      return res.status(409).json({ error: 'A re-categorization is already running' });
+    }
+
+    // The aggregated statistics only include the new categories after a refresh
+    if (!result.dry_run && result.updated > 0) {
+      viewRefresher.refreshAll().catch(err => console.error('Error refreshing materialized views after re-categorization:', err));
+    }
+
+    res.json(result);
+  } catch (err) {
+    console.error('Error re-categorizing commits:', err);
+    res.status(500).json({ error: 'Failed to re-categorize commits' });
+  }
+});
+
+// Import a commit export (JSON) into a repository
+// Multipart upload with a "file" field and an optional "repository" name
+// (defaults to the repository named in the file); a JSON body is accepted as well
+router.post('/import', receiveImportFile, async (req: Request, res: Response) => {
+  try {
+    let data: unknown = req.body;
+    if (req.file) {
+      try {
+        data = JSON.parse(req.file.buffer.toString('utf-8'));
+      } catch {
+        return res.status(400).json({ error: 'File is not valid JSON' });
+      }
+    }
+
+    const parsed = parseImportFile(data);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const selected = typeof req.body?.repository === 'string' && req.file ? req.body.repository.trim() : '';
+    const repository = selected || parsed.file.repository;
+    if (!repository) {
+      return res.status(400).json({ error: 'Select a repository (the file does not name one)' });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const { commits, issues } = validateImportedCommits(parsed.file.commits, await loadCategoryResolver(client));
+      const repositoryId = await upsertRepository(client, repository);
+      const counts = await upsertCommits(client, repositoryId, commits.map(commit => ({
+        ...commit,
+        ticketKeys: extractTicketKeys(commit.subject, commit.description, repository),
+      })));
+      await client.query('COMMIT');
+
+      // The aggregated statistics only include the imported commits after a refresh
+      if (counts.inserted + counts.updated > 0) {
+        viewRefresher.refreshAll().catch(err => console.error('Error refreshing materialized views after import:', err));
+      }
+
+      res.json({
+        repository,
+        repository_id: repositoryId,
+        total: parsed.file.commits.length,
+        inserted: counts.inserted,
+        updated: counts.updated,
+        skipped: counts.unchanged + issues.length,
+        unchanged: counts.unchanged,
+        invalid: issues.length,
+        issues: issues.slice(0, MAX_REPORTED_ISSUES),
+      });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    console.error('Error importing commits:', err);
+    res.status(500).json({ error: 'Failed to import commits' });
+  }
+});
+
+// Import a pull request export (GitHub pull requests or GitLab merge requests, JSON)
+// Same upload as the commit import; the commits of the pull requests are linked by hash
+router.post('/import/pull-requests', receiveImportFile, async (req: Request, res: Response) => {
+  try {
+    let data: unknown = req.body;
+    if (req.file) {
+      try {
+        data = JSON.parse(req.file.buffer.toString('utf-8'));
+      } catch {
+        return res.status(400).json({ error: 'File is not valid JSON' });
+      }
+    }
+
+    const parsed = parsePullRequestFile(data);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const selected = typeof req.body?.repository === 'string' && req.file ? req.body.repository.trim() : '';
+    const repository = selected || parsed.file.repository;
+    if (!repository) {
+      return res.status(400).json({ error: 'Select a repository (the file does not name one)' });
+    }
+
+    const { pullRequests, issues } = validateImportedPullRequests(parsed.file.pullRequests);
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const repositoryId = await upsertRepository(client, repository);
+      const counts = await upsertPullRequests(client, repositoryId, pullRequests);
+      await client.query('COMMIT');
+
+      res.json({
+        repository,
+        repository_id: repositoryId,
+        total: parsed.file.pullRequests.length,
+        inserted: counts.inserted,
+        updated: counts.updated,
+        reviews: counts.reviews,
+        commits: counts.commits,
+        invalid: issues.length,
+        issues: issues.slice(0, MAX_REPORTED_ISSUES),
+      });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    console.error('Error importing pull requests:', err);
+    res.status(500).json({ error: 'Failed to import pull requests' });
+  }
+});
+
+
+// Import an issue export (Jira or GitLab issues, JSON)
+// Same upload as the commit import; the optional "repository" is the GitLab project of
+// issues without references. Commits are linked to the issues by the keys in their messages.
+router.post('/import/issues', receiveImportFile, async (req: Request, res: Response) => {
+  try {
+    let data: unknown = req.body;
+    if (req.file) {
+      try {
+        data = JSON.parse(req.file.buffer.toString('utf-8'));
+      } catch {
+        return res.status(400).json({ error: 'File is not valid JSON' });
+      }
+    }
+
+    const parsed = parseIssueFile(data);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const selected = typeof req.body?.repository === 'string' && req.file ? req.body.repository.trim() : '';
+    const project = selected || parsed.file.project;
+    const { issues, problems } = validateImportedIssues(parsed.file.issues, project);
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const counts = await upsertIssues(client, issues);
+      // Commits loaded before issue keys were stored
+      const extracted = await extractMissingTicketKeys(client);
+      const linked = issues.length > 0
+        ? await client.query('SELECT COUNT(*)::int as count FROM commits WHERE ticket_keys && $1::varchar[]', [issues.map(issue => issue.key)])
+        : { rows: [{ count: 0 }] };
+      await client.query('COMMIT');
+
+      res.json({
+        repository: project,
+        total: parsed.file.issues.length,
+        inserted: counts.inserted,
+        updated: counts.updated,
+        linked_commits: linked.rows[0].count,
+        extracted_commits: extracted,
+        invalid: problems.length,
+        issues: problems.slice(0, MAX_REPORTED_ISSUES),
+      });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    console.error('Error importing issues:', err);
+    res.status(500).json({ error: 'Failed to import issues' });
+  }
+});
+
+export default router;
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import alertsRouter from './alerts.js';
+import pool from '../db.js';
+
+// Mock the database pool
+vi.mock('../db.js', () => ({
+  default: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}));
+
+describe('Alert Routes', () => {
+  let app: Express;
+  let currentUser: any;
+
+  const adminUser = { id: 1, email: 'admin@example.com', name: 'Admin', domain: 'example.com', role: 'admin' as const };
+  const regularUser = { id: 2, email: 'jane@example.com', name: 'Jane Smith', domain: 'example.com', role: 'user' as const };
+
+  const rule = {
+    id: 5,
+    name: 'API slowdown',
+    repository_name: 'api',
+    metric: 'effective_commits',
+    period: 'weekly',
+    condition: 'drop_pct',
+    threshold: '30',
+    webhook_url: 'https://hooks.slack.com/services/T000/B000/XXXX',
+    enabled: true,
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.user = currentUser;
+      next();
+    });
+    app.use('/api/alerts', alertsRouter);
+    vi.clearAllMocks();
+    currentUser = adminUser;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('GET /api/alerts/rules', () => {
+    it('should include webhook URLs for admins', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [rule] } as any);
+
+      const response = await request(app).get('/api/alerts/rules');
+
+      expect(response.status).toBe(200);
+      expect(response.body[0].webhook_url).toBe(rule.webhook_url);
+    });
+
+    it('should hide webhook URLs from other users', async () => {
+      currentUser = regularUser;
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [rule] } as any);
+
+      const response = await request(app).get('/api/alerts/rules');
+
+      expect(response.status).toBe(200);
+      expect(response.body[0].name).toBe('API slowdown');
+      expect(response.body[0]).not.toHaveProperty('webhook_url');
+    });
+  });
+
+  describe('POST /api/alerts/rules', () => {
+    it('should create a rule', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [rule] } as any);
+
+      const { id: _id, ...body } = rule;
+      const response = await request(app).post('/api/alerts/rules').send(body);
+
+      expect(response.status).toBe(201);
+      expect(pool.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO alert_rules'),
+        ['API slowdown', 'api', 'effective_commits', 'weekly', 'drop_pct', 30, rule.webhook_url, true, 1]
+      );
+    });
+
+    it('should return 400 for an invalid rule', async () => {
+      const response = await request(app).post('/api/alerts/rules').send({ ...rule, condition: 'sideways' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('condition must be one of');
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for non-admin users', async () => {
+      currentUser = regularUser;
+
+      const response = await request(app).post('/api/alerts/rules').send(rule);
+
+      expect(response.status).toBe(403);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/alerts/rules/:id', () => {
+    it('should merge the changes into the existing rule', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [rule] } as any)
+        .mockResolvedValueOnce({ rows: [{ ...rule, enabled: false }] } as any);
+
+      const response = await request(app).put('/api/alerts/rules/5').send({ enabled: false });
+
+      expect(response.status).toBe(200);
+      expect(vi.mocked(pool.query).mock.calls[1][1]).toEqual(
+        [5, 'API slowdown', 'api', 'effective_commits', 'weekly', 'drop_pct', 30, rule.webhook_url, false]
+      );
+    });
+
+    it('should return 404 for an unknown rule', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+      const response = await request(app).put('/api/alerts/rules/99').send({ enabled: false });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 404 for ids that are not integers', async () => {
+      const response = await request(app).put('/api/alerts/rules/abc').send({ enabled: false });
+
+      expect(response.status).toBe(404);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/alerts/rules/:id/test', () => {
+    it('should post a test message to the webhook', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+      vi.stubGlobal('fetch', fetchMock);
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [rule] } as any);
+
+      const response = await request(app).post('/api/alerts/rules/5/test');
+
+      expect(response.status).toBe(200);
+      expect(fetchMock).toHaveBeenCalledWith(rule.webhook_url, expect.objectContaining({ method: 'POST' }));
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).text).toContain('API slowdown');
+    });
+
+    it('should return 502 when the webhook rejects the message', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' }));
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [rule] } as any);
+
+      const response = await request(app).post('/api/alerts/rules/5/test');
+
+      expect(response.status).toBe(502);
+      expect(response.body.error).toBe('Webhook delivery failed: Webhook responded with 404 Not Found');
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import express, { Request, Response } from 'express';
+import pool from '../db.js';
+import { isAdmin, requireAdmin } from '../middleware/auth.js';
+import { alertEvaluator } from '../utils/alertEvaluator.js';
+import { AlertRule, getAlertWindows, parseAlertRule, postWebhook } from '../utils/alerts.js';
+import { parseIdParam } from '../utils/routeParams.js';
+
+const router = express.Router();
+
+const RULE_COLUMNS = `
+  id, name, repository_name, metric, period, condition, threshold, webhook_url, enabled,
+  created_by, last_evaluated_at, last_triggered_at, created_at, updated_at
+`;
+
+// Webhook URLs embed credentials, so only admins can see them
+const withoutWebhook = ({ webhook_url: _webhookUrl, ...rule }: any) => rule;
+
+const fetchRule = async (id: number): Promise<AlertRule | undefined> => {
+  const result = await pool.query(`SELECT ${RULE_COLUMNS} FROM alert_rules WHERE id = $1`, [id]);
+  return result.rows[0];
+};
+
+// List alert rules
+router.get('/rules', async (req: Request, res: Response) => {
+  try {
+    const result = await pool.query(`SELECT ${RULE_COLUMNS} FROM alert_rules ORDER BY name, id`);
+    res.json(isAdmin(req.user) ? result.rows : result.rows.map(withoutWebhook));
+  } catch (err) {
+    console.error('Error fetching alert rules:', err);
+    res.status(500).json({ error: 'Failed to fetch alert rules' });
+  }
+});
+
+// Recently raised alerts
+router.get('/events', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 500);
+    const result = await pool.query(`
+      SELECT
+        e.id,
+        e.rule_id,
+        r.name as rule_name,
+        e.repository_name,
+        e.period_start,
+        e.current_value,
+        e.previous_value,
+        e.message,
+        e.delivered,
+        e.error,
+        e.created_at
+      FROM alert_events e
+      JOIN alert_rules r ON r.id = e.rule_id
+      ORDER BY e.created_at DESC, e.id DESC
+      LIMIT $1
+    `, [limit]);
+    res.json(result.rows);
+  } catch (err) {
+    console.error('Error fetching alert events:', err);
+    res.status(500).json({ error: 'Failed to fetch alert events' });
+  }
+});
+
+// Create an alert rule
+router.post('/rules', requireAdmin, async (req: Request, res: Response) => {
+  const { rule, error } = parseAlertRule(req.body || {});
+  if (!rule) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    const result = await pool.query(
+      `INSERT INTO alert_rules (name, repository_name, metric, period, condition, threshold, webhook_url, enabled, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING ${RULE_COLUMNS}`,
+      [rule.name, rule.repository_name, rule.metric, rule.period, rule.condition, rule.threshold, rule.webhook_url, rule.enabled, req.user?.id ?? null]
+    );
+    res.status(201).json(result.rows[0]);
+  } catch (err) {
+    console.error('Error creating alert rule:', err);
+    res.status(500).json({ error: 'Failed to create alert rule' });
+  }
+});
+
+// Update an alert rule (fields not sent keep their value)
+router.put('/rules/:id', requireAdmin, async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Alert rule not found' });
+  }
+
+  try {
+    const existing = await fetchRule(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+
+    const { rule, error } = parseAlertRule(req.body || {}, existing);
+    if (!rule) {
+      return res.status(400).json({ error });
+    }
+
+    const result = await pool.query(
+      `UPDATE alert_rules
+       SET name = $2, repository_name = $3, metric = $4, period = $5, condition = $6,
+           threshold = $7, webhook_url = $8, enabled = $9, updated_at = NOW()
+       WHERE id = $1
+       RETURNING ${RULE_COLUMNS}`,
+      [id, rule.name, rule.repository_name, rule.metric, rule.period, rule.condition, rule.threshold, rule.webhook_url, rule.enabled]
+    );
+    res.json(result.rows[0]);
+  } catch (err) {
+    console.error('Error updating alert rule:', err);
+    res.status(500).json({ error: 'Failed to update alert rule' });
+  }
+});
+
+// Delete an alert rule (its events are removed by cascade)
+router.delete('/rules/:id', requireAdmin, async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Alert rule not found' });
+  }
+
+  try {
+    const result = await pool.query('DELETE FROM alert_rules WHERE id = $1 RETURNING id', [id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting alert rule:', err);
+    res.status(500).json({ error: 'Failed to delete alert rule' });
+  }
+});
+
+// Post a test message to the webhook of a rule
+router.post('/rules/:id/test', requireAdmin, async (req: Request, res: Response) => {
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Alert rule not found' });
+  }
+
+  try {
+    const rule = await fetchRule(id);
+    if (!rule) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+
+    const windows = getAlertWindows(rule.period);
+    try {
+      await postWebhook(rule.webhook_url, {
+        text: `✅ Test message for alert rule "${rule.name}" from Metric Mind`,
+        alert: {
+          rule: rule.name,
+          repository: rule.repository_name || 'all repositories',
+          metric: rule.metric,
+          period: rule.period,
+          period_start: windows.current.start,
+          period_end: windows.current.end,
+          condition: rule.condition,
+          threshold: Number(rule.threshold),
+          current_value: null,
+          previous_value: null,
+          change_pct: null,
+        },
+      });
+    } catch (err) {
+      return res.status(502).json({ error: `Webhook delivery failed: ${err instanceof Error ? err.message : err}` });
+    }
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error testing alert rule:', err);
+    res.status(500).json({ error: 'Failed to test alert rule' });
+  }
+});
+
+// Evaluate all enabled rules now instead of waiting for the timer
+router.post('/evaluate', requireAdmin, async (_req: Request, res: Response) => {
+  try {
+    const result = await alertEvaluator.runDue();
+    res.json(result);
+  } catch (err) {
+    console.error('Error evaluating alert rules:', err);
+    res.status(500).json({ error: 'Failed to evaluate alert rules' });
+  }
+});
+
+export default router;
@@ -8,6 +8,7 @@ import pool from '../db.js';
 vi.mock('../db.js', () => ({
   default: {
     query: vi.fn(),
+    connect: vi.fn(),
   },
 }));
 
@@ -336,8 +337,9 @@ describe('API Routes - Monthly Commits', () => {
     };
 
     it('should return personal performance data for valid authorEmail', async () => {
-      // Mock all 6 queries
+      // Mock the claimed emails lookup and all 6 queries
       vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [], command: 'SELECT', rowCount: 0, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: [mockPersonalStats], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockDailyActivity, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockRepositoryBreakdown, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
@@ -357,7 +359,7 @@ describe('API Routes - Monthly Commits', () => {
 
       expect(response.body.personal_stats).toEqual(mockPersonalStats);
       expect(response.body.daily_activity).toEqual(mockDailyActivity);
-      expect(pool.query).toHaveBeenCalledTimes(6);
+      expect(pool.query).toHaveBeenCalledTimes(7);
     });
 
     it('should return 400 when authorEmail parameter is missing', async () => {
@@ -370,6 +372,7 @@ describe('API Routes - Monthly Commits', () => {
 
     it('should filter by repository when repo query param is provided', async () => {
       vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [], command: 'SELECT', rowCount: 0, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: [mockPersonalStats], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockDailyActivity, command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: [mockRepositoryBreakdown[0]], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
@@ -383,7 +386,7 @@ describe('API Routes - Monthly Commits', () => {
 
       // Verify that queries include repository filter
       const queryCalls = vi.mocked(pool.query).mock.calls;
-      expect(queryCalls.length).toBe(6);
+      expect(queryCalls.length).toBe(7);
 
       // At least one query should have test-repo in params
       const hasRepoFilter = queryCalls.some(call => {
@@ -395,6 +398,7 @@ describe('API Routes - Monthly Commits', () => {
 
     it('should filter by date range when dateFrom and dateTo are provided', async () => {
       vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [], command: 'SELECT', rowCount: 0, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: [mockPersonalStats], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockDailyActivity, command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockRepositoryBreakdown, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
@@ -417,6 +421,7 @@ describe('API Routes - Monthly Commits', () => {
 
     it('should respect custom limit parameter for commit details', async () => {
       vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [], command: 'SELECT', rowCount: 0, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: [mockPersonalStats], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockDailyActivity, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockRepositoryBreakdown, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
@@ -428,14 +433,15 @@ describe('API Routes - Monthly Commits', () => {
 
       expect(response.status).toBe(200);
 
-      // Verify limit is in commit details query string (5th query, index 4)
-      const commitDetailsQuery = vi.mocked(pool.query).mock.calls[4];
+      // Verify limit is in commit details query string (6th query, index 5)
+      const commitDetailsQuery = vi.mocked(pool.query).mock.calls[5];
       const queryString = commitDetailsQuery[0] as string;
       expect(queryString).toContain('LIMIT 100');
     });
 
     it('should use default limit of 50 when limit parameter is not provided', async () => {
       vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [], command: 'SELECT', rowCount: 0, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: [mockPersonalStats], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockDailyActivity, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockRepositoryBreakdown, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
@@ -448,13 +454,14 @@ describe('API Routes - Monthly Commits', () => {
       expect(response.status).toBe(200);
 
       // Verify default limit of 50 is in commit details query string
-      const commitDetailsQuery = vi.mocked(pool.query).mock.calls[4];
+      const commitDetailsQuery = vi.mocked(pool.query).mock.calls[5];
       const queryString = commitDetailsQuery[0] as string;
       expect(queryString).toContain('LIMIT 50');
     });
 
     it('should handle empty results gracefully', async () => {
       vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [], command: 'SELECT', rowCount: 0, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: [{ total_commits: 0, total_lines_changed: 0, repositories_count: 0, active_days: 0 }], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: [], command: 'SELECT', rowCount: 0, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: [], command: 'SELECT', rowCount: 0, oid: 0, fields: [] })
@@ -473,6 +480,7 @@ describe('API Routes - Monthly Commits', () => {
 
     it('should not filter by repository when repo is "all"', async () => {
       vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [], command: 'SELECT', rowCount: 0, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: [mockPersonalStats], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockDailyActivity, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockRepositoryBreakdown, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
@@ -505,6 +513,7 @@ describe('API Routes - Monthly Commits', () => {
 
     it('should include all required fields in personal_stats', async () => {
       vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [], command: 'SELECT', rowCount: 0, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: [mockPersonalStats], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockDailyActivity, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockRepositoryBreakdown, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
@@ -526,6 +535,7 @@ describe('API Routes - Monthly Commits', () => {
 
     it('should include weight metrics when available', async () => {
       vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [], command: 'SELECT', rowCount: 0, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: [mockPersonalStats], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockDailyActivity, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockRepositoryBreakdown, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
@@ -555,6 +565,7 @@ describe('API Routes - Monthly Commits', () => {
 
     it('should include category weight in category breakdown', async () => {
       vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [], command: 'SELECT', rowCount: 0, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: [mockPersonalStats], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockDailyActivity, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
         .mockResolvedValueOnce({ rows: mockRepositoryBreakdown, command: 'SELECT', rowCount: 2, oid: 0, fields: [] })
@@ -572,6 +583,21 @@ describe('API Routes - Monthly Commits', () => {
       expect(firstCategory).toHaveProperty('total_commits');
       expect(firstCategory).toHaveProperty('avg_weight');
     });
+
+    it('should aggregate the author emails claimed by the user', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [{ email: '12345+john@users.noreply.github.com' }], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
+        .mockResolvedValue({ rows: [mockPersonalStats], command: 'SELECT', rowCount: 1, oid: 0, fields: [] });
+
+      const response = await request(app).get('/api/personal-performance?authorEmail=John@Example.com');
+
+      expect(response.status).toBe(200);
+      expect(response.body.author_emails).toEqual(['john@example.com', '12345+john@users.noreply.github.com']);
+
+      const queryCalls = vi.mocked(pool.query).mock.calls;
+      expect(queryCalls[0][1]).toEqual(['john@example.com']);
+      expect(queryCalls[1][1]).toEqual([['john@example.com', '12345+john@users.noreply.github.com']]);
+    });
   });
 
   describe('GET /api/before-after/:repoName', () => {
@@ -597,10 +623,17 @@ describe('API Routes - Monthly Commits', () => {
       avg_effective_commits_per_committer: '8.94',
     };
 
-    it('should return before and after period data for a specific repository', async () => {
+    // Averages, then monthly samples, of the before and after periods
+    const mockComparisonQueries = (beforeSamples: any[] = [], afterSamples: any[] = []) => {
       vi.mocked(pool.query)
         .mockResolvedValueOnce({ rows: [mockBeforeData], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
-        .mockResolvedValueOnce({ rows: [mockAfterData], command: 'SELECT', rowCount: 1, oid: 0, fields: [] });
+        .mockResolvedValueOnce({ rows: [mockAfterData], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
+        .mockResolvedValueOnce({ rows: beforeSamples, command: 'SELECT', rowCount: beforeSamples.length, oid: 0, fields: [] })
+        .mockResolvedValueOnce({ rows: afterSamples, command: 'SELECT', rowCount: afterSamples.length, oid: 0, fields: [] });
+    };
+
+    it('should return before and after period data for a specific repository', async () => {
+      mockComparisonQueries();
 
       const response = await request(app)
         .get('/api/before-after/test-repo')
@@ -616,13 +649,11 @@ describe('API Routes - Monthly Commits', () => {
       expect(response.body).toHaveProperty('after');
       expect(response.body.before).toEqual(mockBeforeData);
       expect(response.body.after).toEqual(mockAfterData);
-      expect(pool.query).toHaveBeenCalledTimes(2);
+      expect(pool.query).toHaveBeenCalledTimes(4);
     });
 
     it('should return data for all repositories when repoName is "all"', async () => {
-      vi.mocked(pool.query)
-        .mockResolvedValueOnce({ rows: [mockBeforeData], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
-        .mockResolvedValueOnce({ rows: [mockAfterData], command: 'SELECT', rowCount: 1, oid: 0, fields: [] });
+      mockComparisonQueries();
 
       const response = await request(app)
         .get('/api/before-after/all')
@@ -647,9 +678,7 @@ describe('API Routes - Monthly Commits', () => {
     });
 
     it('should include weighted fields in the response', async () => {
-      vi.mocked(pool.query)
-        .mockResolvedValueOnce({ rows: [mockBeforeData], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
-        .mockResolvedValueOnce({ rows: [mockAfterData], command: 'SELECT', rowCount: 1, oid: 0, fields: [] });
+      mockComparisonQueries();
 
       const response = await request(app)
         .get('/api/before-after/test-repo')
@@ -675,9 +704,7 @@ describe('API Routes - Monthly Commits', () => {
     });
 
     it('should include all required unweighted fields', async () => {
-      vi.mocked(pool.query)
-        .mockResolvedValueOnce({ rows: [mockBeforeData], command: 'SELECT', rowCount: 1, oid: 0, fields: [] })
-        .mockResolvedValueOnce({ rows: [mockAfterData], command: 'SELECT', rowCount: 1, oid: 0, fields: [] });
+      mockComparisonQueries();
 
       const response = await request(app)
         .get('/api/before-after/test-repo')
@@ -702,6 +729,63 @@ describe('API Routes - Monthly Commits', () => {
       expect(response.body.after).toHaveProperty('avg_commits_per_committer');
     });
 
+    it('should compute the monthly statistics of the selected team', async () => {
+      mockComparisonQueries();
+
+      const response = await request(app)
+        .get('/api/before-after/test-repo')
+        .query({
+          beforeStart: '2023-01-01',
+          beforeEnd: '2023-12-31',
+          afterStart: '2024-01-01',
+          afterEnd: '2024-12-31',
+          team: 'Payments',
+        });
+
+      expect(response.status).toBe(200);
+      const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain('FROM team_members tm JOIN teams t ON t.id = tm.team_id WHERE t.name = $4');
+      expect(sql).not.toContain('mv_monthly_stats_by_repo');
+      expect(params).toEqual(['test-repo', '2023-01-01', '2023-12-31', 'Payments']);
+    });
+
+    it('should return the monthly samples and a significance test per metric', async () => {
+      const month = (year_month: string, commits: number) => ({ repository_name: 'test-repo', year_month, avg_commits_per_month: commits });
+      mockComparisonQueries(
+        [month('2023-01', 40), month('2023-02', 42), month('2023-03', 41), month('2023-04', 39)],
+        [month('2024-01', 60), month('2024-02', 62), month('2024-03', 58), month('2024-04', 61)]
+      );
+
+      const response = await request(app)
+        .get('/api/before-after/test-repo')
+        .query({
+          beforeStart: '2023-01-01',
+          beforeEnd: '2023-04-30',
+          afterStart: '2024-01-01',
+          afterEnd: '2024-04-30',
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.samples.before).toHaveLength(4);
+      expect(response.body.samples.after[0]).toEqual(month('2024-01', 60));
+
+      const commits = response.body.significance.avg_commits_per_month;
+      expect(commits.test).toBe('welch_t');
+      expect(commits.before.n).toBe(4);
+      expect(commits.after.n).toBe(4);
+      expect(commits.difference).toBeCloseTo(19.75, 5);
+      expect(commits.ci_low).toBeGreaterThan(0);
+      expect(commits.p_value).toBeLessThan(0.05);
+      expect(commits.significant).toBe(true);
+
+      // Metrics without samples are inconclusive
+      expect(response.body.significance.avg_authors).toMatchObject({ p_value: null, significant: false });
+
+      const [samplesSql, samplesParams] = vi.mocked(pool.query).mock.calls[2] as [string, any[]];
+      expect(samplesSql).toContain('ORDER BY month_start_date, repository_name');
+      expect(samplesParams).toEqual(['test-repo', '2023-01-01', '2023-04-30']);
+    });
+
     it('should handle database errors gracefully', async () => {
       vi.mocked(pool.query).mockRejectedValueOnce(new Error('Database connection failed'));
 
@@ -720,3 +804,1127 @@ describe('API Routes - Monthly Commits', () => {
     });
   });
 });
+
+describe('API Routes - Teams', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', apiRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('GET /api/teams', () => {
+    it('should return teams with their members', async () => {
+      const teams = [{ id: 1, name: 'Payments', description: null, members: ['jane@example.com'] }];
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: teams } as any);
+
+      const response = await request(app).get('/api/teams');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(teams);
+    });
+  });
+
+  describe('team filter', () => {
+    it('should filter contributors by team', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+      const response = await request(app).get('/api/contributors?repo=web&team=Payments&limit=5');
+
+      expect(response.status).toBe(200);
+      const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain('WHERE t.name = $2');
+      expect(params).toEqual(['web', 'Payments', '5']);
+    });
+
+    it('should read the team statistics instead of the materialized view for monthly trends', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+      const response = await request(app).get('/api/monthly-trends?team=Payments&limit=6');
+
+      expect(response.status).toBe(200);
+      const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain('FROM v_commits_with_identity c');
+      expect(sql).not.toContain('FROM mv_monthly_stats_by_repo');
+      expect(params).toEqual(['6', 'Payments']);
+    });
+
+    it('should use the category view only without filters', async () => {
+      vi.mocked(pool.query).mockResolvedValue({ rows: [] } as any);
+
+      await request(app).get('/api/categories');
+      await request(app).get('/api/categories?team=Payments');
+
+      const calls = (vi.mocked(pool.query).mock.calls as [string, any[]][]).filter(([sql]) => !sql.includes('FROM categor'));
+      expect(calls[0][0]).toContain('FROM v_category_stats');
+      expect(calls[1][0]).toContain('FROM v_commits_with_identity c');
+      expect(calls[1][1]).toEqual(['{}', 'Payments']);
+    });
+
+    it('should ignore team=all', async () => {
+      vi.mocked(pool.query).mockResolvedValue({ rows: [{}] } as any);
+
+      const response = await request(app).get('/api/summary?team=all');
+
+      expect(response.status).toBe(200);
+      const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).not.toContain('team_members');
+      expect(params).toEqual([]);
+    });
+  });
+});
+
+describe('API Routes - Contributors', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', apiRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should read v_contributor_stats without filters or author aliases', async () => {
+    vi.mocked(pool.query)
+      .mockResolvedValueOnce({ rows: [{ has_aliases: false }] } as any)
+      .mockResolvedValueOnce({ rows: [{ author_name: 'Jane', total_commits: 3 }] } as any);
+
+    const response = await request(app).get('/api/contributors?limit=5');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([{ author_name: 'Jane', total_commits: 3 }]);
+    const [sql, params] = vi.mocked(pool.query).mock.calls[1] as [string, any[]];
+    expect(sql).toContain('FROM v_contributor_stats');
+    expect(params).toEqual(['5']);
+  });
+
+  it('should group by identity once aliases exist', async () => {
+    vi.mocked(pool.query)
+      .mockResolvedValueOnce({ rows: [{ has_aliases: true }] } as any)
+      .mockResolvedValueOnce({ rows: [] } as any);
+
+    const response = await request(app).get('/api/contributors');
+
+    expect(response.status).toBe(200);
+    const [sql] = vi.mocked(pool.query).mock.calls[1] as [string, any[]];
+    expect(sql).toContain('FROM v_commits_with_identity c');
+    expect(sql).toContain('GROUP BY c.author_key');
+  });
+});
+
+describe('API Routes - Repository Selection', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', apiRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should filter contributors by several repositories', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+    const response = await request(app).get('/api/contributors?repo=api&repo=web,billing&limit=5');
+
+    expect(response.status).toBe(200);
+    const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+    expect(sql).toContain('r.name = ANY($1)');
+    expect(params).toEqual([['api', 'web', 'billing'], '5']);
+  });
+
+  it('should add up the selected repositories from the category view', async () => {
+    vi.mocked(pool.query).mockResolvedValue({ rows: [] } as any);
+
+    const response = await request(app).get('/api/category-trends?months=6&repo=api,web');
+
+    expect(response.status).toBe(200);
+    const [sql, params] = vi.mocked(pool.query).mock.calls.at(-1) as [string, any[]];
+    expect(sql).toContain('FROM mv_monthly_category_stats');
+    expect(sql).toContain('WHERE repository_name = ANY($2)');
+    expect(sql).toContain('GROUP BY year_month');
+    expect(params).toEqual([120, ['api', 'web'], '{}']);
+  });
+
+  it('should apply the repository selection to every summary query', async () => {
+    vi.mocked(pool.query).mockResolvedValue({ rows: [] } as any);
+
+    const response = await request(app).get('/api/summary?repo=api,web');
+
+    expect(response.status).toBe(200);
+    for (const [sql, params] of vi.mocked(pool.query).mock.calls as [string, any[]][]) {
+      expect(sql).toContain('r.name = ANY($1)');
+      expect(params).toEqual([['api', 'web']]);
+    }
+  });
+});
+
+
+describe('API Routes - Category Hierarchy', () => {
+  let app: Express;
+
+  const rows = (data: any[]) => ({ rows: data, command: 'SELECT', rowCount: data.length, oid: 0, fields: [] });
+
+  const taxonomyRows = (sql: string) => {
+    if (sql.includes('FROM categories ORDER BY name')) {
+      return rows([
+        { id: 1, name: 'BILLING', color: '#3b82f6', parent_id: null, synonyms: [] },
+        { id: 2, name: 'INVOICES', color: '#10b981', parent_id: 1, synonyms: [] },
+      ]);
+    }
+    return null;
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', apiRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should add up the sub-categories under their top-level category', async () => {
+    vi.mocked(pool.query).mockImplementation((async (sql: string) => (
+      taxonomyRows(sql) ?? rows(sql.includes('FROM commits c') ? [{ category: 'BILLING', total_commits: 5 }] : [])
+    )) as any);
+
+    const response = await request(app).get('/api/categories');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([{ category: 'BILLING', total_commits: 5, has_children: true }]);
+    const [sql, params] = vi.mocked(pool.query).mock.calls.at(-1) as [string, any[]];
+    expect(sql).not.toContain('v_category_stats');
+    expect(sql).toContain(`COALESCE($1::jsonb ->> c.category, c.category, 'UNCATEGORIZED') as category`);
+    expect(params).toEqual([JSON.stringify({ INVOICES: 'BILLING' })]);
+  });
+
+  it('should drill into the sub-categories of a parent', async () => {
+    vi.mocked(pool.query).mockImplementation((async (sql: string) => taxonomyRows(sql) ?? rows([])) as any);
+
+    const response = await request(app).get('/api/category-by-repo?parent=billing&dateFrom=2026-01-01');
+
+    expect(response.status).toBe(200);
+    const [sql, params] = vi.mocked(pool.query).mock.calls.at(-1) as [string, any[]];
+    expect(sql).toContain('($1::jsonb ->> c.category) IS NOT NULL AND c.commit_date >= $2');
+    expect(sql).toContain('GROUP BY r.name, ($1::jsonb ->> c.category)');
+    expect(params).toEqual([JSON.stringify({ BILLING: 'BILLING', INVOICES: 'INVOICES' }), '2026-01-01']);
+  });
+
+  it('should roll up the monthly category view of one repository', async () => {
+    vi.mocked(pool.query).mockImplementation((async (sql: string) => taxonomyRows(sql) ?? rows([])) as any);
+
+    const response = await request(app).get('/api/category-trends?repo=api&parent=BILLING');
+
+    expect(response.status).toBe(200);
+    const [sql, params] = vi.mocked(pool.query).mock.calls.at(-1) as [string, any[]];
+    expect(sql).toContain('WHERE repository_name = ANY($2) AND ($3::jsonb ->> category) IS NOT NULL');
+    expect(params).toEqual([240, ['api'], JSON.stringify({ BILLING: 'BILLING', INVOICES: 'INVOICES' })]);
+  });
+});
+describe('API Routes - Commit Editing', () => {
+  let currentUser: Express.Request['user'];
+  let app: Express;
+  let client: { query: ReturnType<typeof vi.fn>; release: ReturnType<typeof vi.fn> };
+
+  const authorUser = { id: 2, email: 'jane@example.com', name: 'Jane Smith', domain: 'example.com', role: 'user' as const };
+  const otherUser = { id: 3, email: 'john@example.com', name: 'John Doe', domain: 'example.com', role: 'user' as const };
+  const adminUser = { id: 4, email: 'admin@example.com', name: 'Admin', domain: 'example.com', role: 'admin' as const };
+
+  const existingCommit = {
+    id: 10,
+    hash: 'abc1234',
+    author_email: 'Jane@Example.com',
+    subject: 'Add new feature',
+    category: 'BILLING',
+    weight: 100,
+    ai_tools: null,
+  };
+
+  const updatedCommit = {
+    ...existingCommit,
+    weight: 50,
+    ai_tools: 'COPILOT',
+  };
+
+  const rows = (data: any[]) => ({ rows: data, command: 'SELECT', rowCount: data.length, oid: 0, fields: [] });
+
+  // Find the SQL statements sent through the transaction client
+  const clientQueries = () => client.query.mock.calls.map((call: any[]) => call[0] as string);
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.user = currentUser;
+      next();
+    });
+    app.use('/api', apiRouter);
+    vi.clearAllMocks();
+
+    client = { query: vi.fn(), release: vi.fn() };
+    vi.mocked(pool.connect).mockResolvedValue(client as any);
+  });
+
+  describe('PUT /api/commits/:hash', () => {
+    it('should allow the commit author to edit the commit and record the change', async () => {
+      currentUser = authorUser;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return rows([existingCommit]);
+        if (sql.includes('UPDATE commits')) return rows([updatedCommit]);
+        return rows([]);
+      });
+
+      const response = await request(app).put('/api/commits/abc1234').send({ weight: 50, ai_tools: 'COPILOT' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(updatedCommit);
+
+      const insertCall = client.query.mock.calls.find((call: any[]) => (call[0] as string).includes('INSERT INTO commit_edits'));
+      expect(insertCall).toBeDefined();
+      const params = insertCall![1] as any[];
+      expect(params[0]).toBe(10);
+      expect(params[2]).toBe(2);
+      expect(params[3]).toBe('edit');
+      expect(JSON.parse(params[4])).toEqual({ weight: 100, ai_tools: null });
+      expect(JSON.parse(params[5])).toEqual({ weight: 50, ai_tools: 'COPILOT' });
+
+      expect(clientQueries()).toContain('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should not record history when nothing changed', async () => {
+      currentUser = authorUser;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return rows([existingCommit]);
+        if (sql.includes('UPDATE commits')) return rows([existingCommit]);
+        return rows([]);
+      });
+
+      const response = await request(app).put('/api/commits/abc1234').send({ weight: 100 });
+
+      expect(response.status).toBe(200);
+      expect(clientQueries().some(sql => sql.includes('INSERT INTO commit_edits'))).toBe(false);
+    });
+
+    it('should extract the issue keys again when the subject changes', async () => {
+      currentUser = authorUser;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return rows([existingCommit]);
+        if (sql.includes('WHERE c.id = ANY')) {
+          return rows([{ id: 10, subject: 'PAY-12 Add new feature', description: null, repository_name: 'payments' }]);
+        }
+        if (sql.includes('UPDATE commits')) return rows([{ ...existingCommit, subject: 'PAY-12 Add new feature', ticket_keys: [] }]);
+        return rows([]);
+      });
+
+      const response = await request(app).put('/api/commits/abc1234').send({ subject: 'PAY-12 Add new feature' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.ticket_keys).toEqual(['PAY-12']);
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('SET ticket_keys'),
+        [JSON.stringify([{ id: 10, keys: ['PAY-12'] }])]
+      );
+    });
+
+    it('should store the canonical name of a category synonym', async () => {
+      currentUser = authorUser;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return rows([existingCommit]);
+        if (sql.includes('FROM categories')) {
+          return rows([{ id: 1, name: 'BILLING', color: '#3b82f6', parent_id: null, synonyms: ['BILL'] }]);
+        }
+        if (sql.includes('UPDATE commits')) return rows([{ ...existingCommit, category: 'BILLING' }]);
+        return rows([]);
+      });
+
+      const response = await request(app).put('/api/commits/abc1234').send({ category: 'Bill' });
+
+      expect(response.status).toBe(200);
+      const updateCall = client.query.mock.calls.find((call: any[]) => (call[0] as string).includes('UPDATE commits'));
+      expect(updateCall![1][1]).toBe('BILLING');
+    });
+
+    it('should return 400 for a weight outside 0-100', async () => {
+      currentUser = authorUser;
+
+      const response = await request(app).put('/api/commits/abc1234').send({ weight: 150 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Weight must be an integer between 0 and 100');
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when the user is not the author', async () => {
+      currentUser = otherUser;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return rows([existingCommit]);
+        return rows([]);
+      });
+
+      const response = await request(app).put('/api/commits/abc1234').send({ weight: 0 });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toContain('Only the commit author or an admin');
+      // The UPDATE must never run
+      expect(clientQueries().some(sql => sql.includes('UPDATE commits'))).toBe(false);
+      expect(clientQueries()).toContain('ROLLBACK');
+    });
+
+    it('should allow admins to edit any commit', async () => {
+      currentUser = adminUser;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return rows([existingCommit]);
+        if (sql.includes('UPDATE commits')) return rows([updatedCommit]);
+        return rows([]);
+      });
+
+      const response = await request(app).put('/api/commits/abc1234').send({ weight: 50 });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should return 404 when the commit does not exist', async () => {
+      currentUser = adminUser;
+      client.query.mockResolvedValue(rows([]));
+
+      const response = await request(app).put('/api/commits/missing').send({ weight: 50 });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 401 when no user is attached to the request', async () => {
+      currentUser = undefined;
+
+      const response = await request(app).put('/api/commits/abc1234').send({ weight: 50 });
+
+      expect(response.status).toBe(401);
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should roll back and return 500 when the update fails', async () => {
+      currentUser = adminUser;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return rows([existingCommit]);
+        if (sql.includes('UPDATE commits')) throw new Error('Database connection failed');
+        return rows([]);
+      });
+
+      const response = await request(app).put('/api/commits/abc1234').send({ weight: 50 });
+
+      expect(response.status).toBe(500);
+      expect(clientQueries()).toContain('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/commits', () => {
+    const ownCommits = [
+      { ...existingCommit, id: 10, hash: 'abc1234' },
+      { ...existingCommit, id: 11, hash: 'def5678', category: 'AUTH' },
+    ];
+
+    it('should update all listed commits in a single transaction', async () => {
+      currentUser = authorUser;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return rows(ownCommits);
+        if (sql.includes('UPDATE commits')) return rows(ownCommits.map(c => ({ ...c, category: 'BILLING', weight: 0 })));
+        return rows([]);
+      });
+
+      const response = await request(app)
+        .patch('/api/commits')
+        .send({ hashes: ['abc1234', 'def5678'], changes: { category: 'BILLING', weight: 0, subject: 'ignored' } });
+
+      expect(response.status).toBe(200);
+      expect(response.body.updated).toBe(2);
+      expect(response.body.commits).toHaveLength(2);
+
+      const selectCall = client.query.mock.calls.find((call: any[]) => (call[0] as string).includes('FOR UPDATE'));
+      expect(selectCall![0]).toContain('c.hash = ANY($1)');
+      expect(selectCall![1]).toEqual([['abc1234', 'def5678']]);
+
+      const updateCall = client.query.mock.calls.find((call: any[]) => (call[0] as string).includes('UPDATE commits'));
+      expect(updateCall![0]).toContain('category = $1');
+      expect(updateCall![0]).toContain('weight = $2');
+      expect(updateCall![0]).not.toContain('subject');
+      expect(updateCall![1]).toEqual(['BILLING', 0, [10, 11]]);
+
+      // One history entry per changed commit
+      const inserts = clientQueries().filter(sql => sql.includes('INSERT INTO commit_edits'));
+      expect(inserts).toHaveLength(2);
+      expect(clientQueries()).toContain('COMMIT');
+    });
+
+    it('should select commits by search filters', async () => {
+      currentUser = adminUser;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return rows(ownCommits);
+        if (sql.includes('UPDATE commits')) return rows(ownCommits.map(c => ({ ...c, ai_tools: 'COPILOT' })));
+        return rows([]);
+      });
+
+      const response = await request(app)
+        .patch('/api/commits')
+        .send({ filters: { repo: 'test-repo', search: 'merge' }, changes: { ai_tools: 'COPILOT' } });
+
+      expect(response.status).toBe(200);
+      const selectCall = client.query.mock.calls.find((call: any[]) => (call[0] as string).includes('FOR UPDATE'));
+      expect(selectCall![0]).toContain('r.name = $1');
+      expect(selectCall![1]).toEqual(['test-repo', '%merge%']);
+    });
+
+    it('should reject filters that would match every commit', async () => {
+      currentUser = adminUser;
+
+      const response = await request(app)
+        .patch('/api/commits')
+        .send({ filters: { repo: 'all' }, changes: { weight: 50 } });
+
+      expect(response.status).toBe(400);
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when no supported changes are provided', async () => {
+      currentUser = adminUser;
+
+      const response = await request(app)
+        .patch('/api/commits')
+        .send({ hashes: ['abc1234'], changes: { subject: 'New subject' } });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 for an out of range weight', async () => {
+      currentUser = adminUser;
+
+      const response = await request(app)
+        .patch('/api/commits')
+        .send({ hashes: ['abc1234'], changes: { weight: 150 } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Weight');
+    });
+
+    it('should return 403 and update nothing when any commit belongs to someone else', async () => {
+      currentUser = authorUser;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return rows([...ownCommits, { ...existingCommit, id: 12, hash: 'fff0000', author_email: 'john@example.com' }]);
+        return rows([]);
+      });
+
+      const response = await request(app)
+        .patch('/api/commits')
+        .send({ hashes: ['abc1234', 'def5678', 'fff0000'], changes: { weight: 0 } });
+
+      expect(response.status).toBe(403);
+      expect(response.body.forbidden_hashes).toEqual(['fff0000']);
+      expect(clientQueries().some(sql => sql.includes('UPDATE commits'))).toBe(false);
+      expect(clientQueries()).toContain('ROLLBACK');
+    });
+  });
+
+  describe('GET /api/commits/:hash/history', () => {
+    it('should return the edit history for a commit', async () => {
+      const history = [
+        { id: 2, action: 'edit', old_values: { weight: 100 }, new_values: { weight: 50 }, user_name: 'Jane Smith' },
+      ];
+      vi.mocked(pool.query).mockResolvedValueOnce(rows(history));
+
+      const response = await request(app).get('/api/commits/abc1234/history');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(history);
+      const [query, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(query).toContain('FROM commit_edits');
+      expect(params).toEqual(['abc1234']);
+    });
+
+    it('should handle database errors gracefully', async () => {
+      vi.mocked(pool.query).mockRejectedValueOnce(new Error('Database connection failed'));
+
+      const response = await request(app).get('/api/commits/abc1234/history');
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toContain('Failed to fetch commit history');
+    });
+  });
+
+  describe('POST /api/commits/:hash/history/:editId/revert', () => {
+    it('should restore the values from before the edit and record a revert', async () => {
+      currentUser = authorUser;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return rows([updatedCommit]);
+        if (sql.includes('FROM commit_edits')) return rows([{ id: 7, old_values: { weight: 100, ai_tools: null, id: 999 } }]);
+        if (sql.includes('UPDATE commits')) return rows([existingCommit]);
+        return rows([]);
+      });
+
+      const response = await request(app).post('/api/commits/abc1234/history/7/revert');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(existingCommit);
+
+      const updateCall = client.query.mock.calls.find((call: any[]) => (call[0] as string).includes('UPDATE commits'));
+      // Only editable fields are restored
+      expect(updateCall![0]).toContain('weight = $1');
+      expect(updateCall![0]).toContain('ai_tools = $2');
+      expect(updateCall![0]).not.toContain('id = $3,');
+      expect(updateCall![1]).toEqual([100, null, 10]);
+
+      const insertCall = client.query.mock.calls.find((call: any[]) => (call[0] as string).includes('INSERT INTO commit_edits'));
+      expect((insertCall![1] as any[])[3]).toBe('revert');
+      expect((insertCall![1] as any[])[6]).toBe(7);
+    });
+
+    it('should return 404 when the edit does not belong to the commit', async () => {
+      currentUser = adminUser;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return rows([existingCommit]);
+        return rows([]);
+      });
+
+      const response = await request(app).post('/api/commits/abc1234/history/99/revert');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toContain('Edit not found');
+    });
+
+    it('should return 404 for edit ids that are not integers', async () => {
+      currentUser = adminUser;
+
+      const response = await request(app).post('/api/commits/abc1234/history/latest/revert');
+
+      expect(response.status).toBe(404);
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when the user may not edit the commit', async () => {
+      currentUser = otherUser;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) return rows([existingCommit]);
+        return rows([]);
+      });
+
+      const response = await request(app).post('/api/commits/abc1234/history/7/revert');
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
+
+describe('API Routes - Claimed Author Emails', () => {
+  let app: Express;
+
+  const currentUser = { id: 2, email: 'jane@example.com', name: 'Jane Smith', domain: 'example.com', role: 'user' as const };
+  const rows = (data: any[]) => ({ rows: data, command: 'SELECT', rowCount: data.length, oid: 0, fields: [] });
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.user = currentUser;
+      next();
+    });
+    app.use('/api', apiRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('GET /api/me/author-emails', () => {
+    it('should list the emails claimed by the current user', async () => {
+      const claimed = [{ id: 1, email: 'jane@personal.org', verified_commits: 12 }];
+      vi.mocked(pool.query).mockResolvedValueOnce(rows(claimed));
+
+      const response = await request(app).get('/api/me/author-emails');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(claimed);
+      expect(vi.mocked(pool.query).mock.calls[0][1]).toEqual([2]);
+    });
+  });
+
+  describe('POST /api/me/author-emails', () => {
+    it('should reject an invalid email', async () => {
+      const response = await request(app).post('/api/me/author-emails').send({ email: 'not-an-email' });
+
+      expect(response.status).toBe(400);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject the login email', async () => {
+      const response = await request(app).post('/api/me/author-emails').send({ email: 'Jane@Example.com' });
+
+      expect(response.status).toBe(400);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject an email without commits', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce(rows([]))
+        .mockResolvedValueOnce(rows([]))
+        .mockResolvedValueOnce(rows([{ total_commits: 0 }]));
+
+      const response = await request(app).post('/api/me/author-emails').send({ email: 'jane@personal.org' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('No commits found with this author email');
+    });
+
+    it('should return 409 when the email is claimed by another user', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce(rows([{ user_id: 9 }]))
+        .mockResolvedValueOnce(rows([]))
+        .mockResolvedValueOnce(rows([{ total_commits: 5 }]));
+
+      const response = await request(app).post('/api/me/author-emails').send({ email: 'jane@personal.org' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('This email is already claimed by another user');
+    });
+
+    it('should return 409 when another claim of the email is inserted concurrently', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce(rows([]))
+        .mockResolvedValueOnce(rows([]))
+        .mockResolvedValueOnce(rows([{ total_commits: 5 }]))
+        .mockRejectedValueOnce(Object.assign(new Error('duplicate key value'), { code: '23505' }));
+
+      const response = await request(app).post('/api/me/author-emails').send({ email: 'jane@personal.org' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('This email is already claimed by another user');
+    });
+
+    it('should return 409 when the email is the login email of another user', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce(rows([]))
+        .mockResolvedValueOnce(rows([{ id: 9 }]))
+        .mockResolvedValueOnce(rows([{ total_commits: 5 }]));
+
+      const response = await request(app).post('/api/me/author-emails').send({ email: 'john@example.com' });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should store the normalized email with the verified commit count', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce(rows([]))
+        .mockResolvedValueOnce(rows([]))
+        .mockResolvedValueOnce(rows([{ total_commits: 5 }]))
+        .mockResolvedValueOnce(rows([{ id: 3, email: 'jane@personal.org', verified_commits: 5 }]));
+
+      const response = await request(app).post('/api/me/author-emails').send({ email: ' Jane@Personal.org ' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.verified_commits).toBe(5);
+      expect(vi.mocked(pool.query).mock.calls[3][1]).toEqual([2, 'jane@personal.org', 5]);
+    });
+  });
+
+  describe('DELETE /api/me/author-emails/:id', () => {
+    it('should only delete emails of the current user', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce(rows([]));
+
+      const response = await request(app).delete('/api/me/author-emails/3');
+
+      expect(response.status).toBe(404);
+      expect(vi.mocked(pool.query).mock.calls[0][1]).toEqual([3, 2]);
+    });
+
+    it('should delete a claimed email', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce(rows([{ id: 3 }]));
+
+      const response = await request(app).delete('/api/me/author-emails/3');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true });
+    });
+
+    it('should return 404 for ids that are not integers', async () => {
+      const response = await request(app).delete('/api/me/author-emails/abc');
+
+      expect(response.status).toBe(404);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('API Routes - Digest Subscriptions', () => {
+  let app: Express;
+
+  const currentUser = { id: 2, email: 'jane@example.com', name: 'Jane Smith', domain: 'example.com', role: 'user' as const };
+  const rows = (data: any[]) => ({ rows: data, command: 'SELECT', rowCount: data.length, oid: 0, fields: [] });
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.user = currentUser;
+      next();
+    });
+    app.use('/api', apiRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return both frequencies with unsubscribed defaults', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce(rows([
+      { frequency: 'weekly', enabled: true, last_sent_at: '2026-10-12T08:00:00.000Z' },
+    ]));
+
+    const response = await request(app).get('/api/me/digest-subscriptions');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      weekly: true,
+      monthly: false,
+      last_sent_at: { weekly: '2026-10-12T08:00:00.000Z', monthly: null },
+    });
+  });
+
+  it('should reject updates without a known frequency', async () => {
+    const response = await request(app).put('/api/me/digest-subscriptions').send({ daily: true });
+
+    expect(response.status).toBe(400);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('should reject non-boolean values', async () => {
+    const response = await request(app).put('/api/me/digest-subscriptions').send({ weekly: 'yes' });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: 'weekly must be a boolean' });
+  });
+
+  it('should upsert only the provided frequencies for the current user', async () => {
+    vi.mocked(pool.query)
+      .mockResolvedValueOnce(rows([]))
+      .mockResolvedValueOnce(rows([{ frequency: 'monthly', enabled: true, last_sent_at: null }]));
+
+    const response = await request(app).put('/api/me/digest-subscriptions').send({ monthly: true });
+
+    expect(response.status).toBe(200);
+    expect(response.body.monthly).toBe(true);
+    const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+    expect(sql).toContain('ON CONFLICT (user_id, frequency)');
+    expect(params.slice(0, 3)).toEqual([2, 'monthly', true]);
+    // The last completed month is skipped when subscribing
+    expect(params[3]).toMatch(/^\d{4}-\d{2}-01$/);
+  });
+});
+
+describe('API Routes - Preferences', () => {
+  let app: Express;
+
+  const currentUser = { id: 2, email: 'jane@example.com', name: 'Jane Smith', domain: 'example.com', role: 'user' as const };
+  const rows = (data: any[]) => ({ rows: data, command: 'SELECT', rowCount: data.length, oid: 0, fields: [] });
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.user = currentUser;
+      next();
+    });
+    app.use('/api', apiRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return the defaults when nothing was saved', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce(rows([]));
+
+    const response = await request(app).get('/api/me/preferences');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ dark_mode: false, sidebar_collapsed: false, default_view_id: null, default_view: null });
+  });
+
+  it('should include the path of the landing view', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce(rows([
+      { dark_mode: true, sidebar_collapsed: false, default_view_id: 7, default_view_path: '/contributors', default_view_query: 'team=Payments' },
+    ]));
+
+    const response = await request(app).get('/api/me/preferences');
+
+    expect(response.body.default_view).toEqual({ path: '/contributors', query: 'team=Payments' });
+  });
+
+  it('should upsert only the provided preferences', async () => {
+    vi.mocked(pool.query)
+      .mockResolvedValueOnce(rows([]))
+      .mockResolvedValueOnce(rows([{ dark_mode: true, sidebar_collapsed: false, default_view_id: null }]));
+
+    const response = await request(app).put('/api/me/preferences').send({ dark_mode: true });
+
+    expect(response.status).toBe(200);
+    expect(response.body.dark_mode).toBe(true);
+    const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+    expect(sql).toContain('INSERT INTO user_preferences (user_id, dark_mode)');
+    expect(sql).toContain('ON CONFLICT (user_id) DO UPDATE SET dark_mode = EXCLUDED.dark_mode');
+    expect(params).toEqual([2, true]);
+  });
+
+  it('should reject a landing view of another user', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce(rows([]));
+
+    const response = await request(app).put('/api/me/preferences').send({ default_view_id: 9 });
+
+    expect(response.status).toBe(404);
+    expect(vi.mocked(pool.query).mock.calls[0][1]).toEqual([9, 2]);
+  });
+
+  it('should reject updates without a known preference', async () => {
+    const response = await request(app).put('/api/me/preferences').send({ theme: 'dark' });
+
+    expect(response.status).toBe(400);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
+
+describe('API Routes - AI Adoption', () => {
+  let app: Express;
+
+  const rows = (data: any[]) => ({ rows: data, command: 'SELECT', rowCount: data.length, oid: 0, fields: [] });
+  const groups = [
+    { ai_usage: 'assisted', total_commits: 30, effective_commits: '27.00', avg_lines_per_commit: '80.0', commits_per_author: '10.00', share_of_commits_pct: '30.0' },
+    { ai_usage: 'not_assisted', total_commits: 70, effective_commits: '60.50', avg_lines_per_commit: '45.5', commits_per_author: '7.00', share_of_commits_pct: '70.0' },
+  ];
+  const tools = [{ tool: 'COPILOT', total_commits: 20 }, { tool: 'CLAUDE CODE', total_commits: 12 }];
+  const categories = [{ category: 'AUTH', assisted_commits: 12, not_assisted_commits: 20, assisted_share_pct: '40.0', not_assisted_share_pct: '28.6' }];
+
+  // Groups, tools and categories queries, told apart by their SQL
+  const mockReportQueries = () => {
+    vi.mocked(pool.query).mockImplementation((async (sql: string) => {
+      if (sql.includes('regexp_split_to_table')) return rows(tools);
+      if (sql.includes('assisted_share_pct')) return rows(categories);
+      return rows(groups);
+    }) as any);
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', apiRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('GET /api/ai-adoption', () => {
+    it('should return the AI-assisted and non-assisted groups, the tools and the category mix', async () => {
+      mockReportQueries();
+
+      const response = await request(app).get('/api/ai-adoption');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ groups, tools, categories });
+      expect(pool.query).toHaveBeenCalledTimes(3);
+
+      const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain("NULLIF(TRIM(c.ai_tools), '') as ai_tools");
+      expect(sql).toContain('repository_id IN (SELECT id FROM repositories WHERE NOT archived)');
+      expect(params).toEqual([]);
+    });
+
+    it('should apply the repository, team and date filters to every query', async () => {
+      mockReportQueries();
+
+      const response = await request(app)
+        .get('/api/ai-adoption')
+        .query({ repo: 'billing-api', team: 'Payments', dateFrom: '2026-01-01', dateTo: '2026-03-31' });
+
+      expect(response.status).toBe(200);
+      for (const [sql, params] of vi.mocked(pool.query).mock.calls as [string, any[]][]) {
+        expect(sql).toContain('JOIN repositories r ON c.repository_id = r.id');
+        expect(sql).toContain('c.commit_date >= $3');
+        expect(params).toEqual(['billing-api', 'Payments', '2026-01-01', '2026-03-31']);
+      }
+    });
+
+    it('should export the report as CSV', async () => {
+      mockReportQueries();
+
+      const response = await request(app).get('/api/ai-adoption?format=csv');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-disposition']).toMatch(/attachment; filename="ai-adoption-\d{4}-\d{2}-\d{2}\.csv"/);
+      expect(response.text).toContain('Report,AI Adoption');
+      expect(response.text).toContain('COPILOT,20');
+    });
+
+    it('should handle database errors gracefully', async () => {
+      vi.mocked(pool.query).mockRejectedValueOnce(new Error('Database connection failed'));
+
+      const response = await request(app).get('/api/ai-adoption');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Failed to fetch AI adoption' });
+    });
+  });
+});
+
+describe('API Routes - Repository Comparison', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', apiRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should add the DORA metrics of the same months to each repository', async () => {
+    vi.mocked(pool.query).mockImplementation((async (sql: string) => sql.includes('FROM deployments d')
+      ? { rows: [
+        { repository_name: 'api', deployments: 6, deployments_per_week: '0.23', median_lead_time_hours: '20.5', change_failure_rate_pct: '16.7', mttr_hours: null },
+        { repository_name: 'web', deployments: 0, deployments_per_week: '0.00', median_lead_time_hours: null, change_failure_rate_pct: null, mttr_hours: '2.0' },
+      ] }
+      : { rows: [{ repository_name: 'api', total_commits: 40 }, { repository_name: 'web', total_commits: 12 }, { repository_name: 'docs', total_commits: 3 }] }
+    ) as any);
+
+    const response = await request(app).get('/api/compare-repos');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([
+      { repository_name: 'api', total_commits: 40, deployments_per_week: '0.23', median_lead_time_hours: '20.5', change_failure_rate_pct: '16.7', mttr_hours: null },
+      { repository_name: 'web', total_commits: 12, deployments_per_week: null, median_lead_time_hours: null, change_failure_rate_pct: null, mttr_hours: '2.0' },
+      { repository_name: 'docs', total_commits: 3, deployments_per_week: null, median_lead_time_hours: null, change_failure_rate_pct: null, mttr_hours: null },
+    ]);
+    const doraParams = vi.mocked(pool.query).mock.calls
+      .find(([sql]: any[]) => String(sql).includes('FROM deployments d'))?.[1] as any[];
+    expect(doraParams[0]).toBe('production');
+    expect(doraParams[1]).toMatch(/^\d{4}-\d{2}-01$/);
+  });
+});
+
+describe('API Routes - Report Export', () => {
+  let app: Express;
+
+  const contributors = [
+    {
+      author_name: 'Jane Smith',
+      author_email: 'jane@example.com',
+      total_commits: 42,
+      effective_commits: '38.50',
+      avg_weight: '91.7',
+      weight_efficiency_pct: '91.7',
+      repositories_contributed: 2,
+      total_lines_changed: '1500',
+      weighted_lines_changed: '1375.5',
+      avg_lines_changed_per_commit: '35.7',
+    },
+  ];
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api', apiRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return 400 for an unsupported format', async () => {
+    const response = await request(app).get('/api/contributors?format=pdf');
+
+    expect(response.status).toBe(400);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('should export contributors as CSV with filter metadata and typed values', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: contributors } as any);
+
+    const response = await request(app).get('/api/contributors?format=csv&repo=api&limit=5');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/csv');
+    expect(response.headers['content-disposition']).toMatch(/attachment; filename="contributors-\d{4}-\d{2}-\d{2}\.csv"/);
+
+    const lines = response.text.replace(/^\uFEFF/, '').split('\r\n');
+    expect(lines[0]).toBe('Report,Top Contributors');
+    expect(lines).toContain('repo,api');
+    expect(lines).toContain('limit,5');
+    expect(lines).toContain('Jane Smith,jane@example.com,42,38.5,91.7,91.7,2,1500,1375.5,35.7');
+  });
+
+  it('should export commit search results without paging', async () => {
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+    const response = await request(app).get('/api/commits?format=csv&limit=10&offset=20');
+
+    expect(response.status).toBe(200);
+    const params = vi.mocked(pool.query).mock.calls[0][1] as any[];
+    expect(params.slice(-2)).toEqual([50001, 0]);
+    expect(response.headers['x-export-truncated']).toBeUndefined();
+  });
+
+  it('should flag commit exports cut at the row limit', async () => {
+    const commits = Array.from({ length: 50001 }, (_, index) => ({ hash: `h${index}`, subject: 'Fix' }));
+    vi.mocked(pool.query).mockResolvedValueOnce({ rows: commits } as any);
+
+    const response = await request(app).get('/api/commits?format=csv');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['x-export-truncated']).toBe('true');
+    const lines = response.text.split('\r\n');
+    expect(lines).toContain('Truncated,"Only the 50,000 most recent matching commits are included"');
+    expect(lines.filter(line => line.includes(',Fix,'))).toHaveLength(50000);
+  });
+
+  it('should export the summary as an XLSX workbook', async () => {
+    vi.mocked(pool.query)
+      .mockResolvedValueOnce({ rows: [{ total_commits: 10 }] } as any)
+      .mockResolvedValueOnce({ rows: [] } as any)
+      .mockResolvedValueOnce({ rows: contributors } as any);
+
+    const response = await request(app)
+      .get('/api/summary?format=xlsx')
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    // XLSX files are zip archives
+    expect((response.body as Buffer).subarray(0, 2).toString()).toBe('PK');
+  });
+});
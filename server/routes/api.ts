@@ -1,16 +1,71 @@
 import express, { Request, Response } from 'express';
 import pool from '../db.js';
+import { canEditCommit } from '../middleware/auth.js';
+import { normalizeAliasValue } from '../utils/authorIdentity.js';
+import {
+  categoryLevelCondition,
+  categoryLevelExpression,
+  categoryLevelParam,
+  getCategoryLevel,
+  isFlatCategoryLevel,
+  markSubcategories,
+  parseCategoryParent
+} from '../utils/categoryHierarchy.js';
+import { loadCategoryResolver, loadCategoryTaxonomy } from '../utils/categoryTaxonomy.js';
+import {
+  BULK_EDITABLE_COMMIT_FIELDS,
+  diffCommitFields,
+  hasCommitChanges,
+  parseCommitWeight,
+  pickEditableFields,
+  recordCommitEdit
+} from '../utils/commitEdits.js';
+import { DIGEST_FREQUENCIES, getDigestPeriod } from '../utils/digest.js';
+import { getDoraMetrics } from '../utils/doraQueries.js';
+import { getExportFormat, sendExport, validateExportFormat } from '../utils/export.js';
+import { refreshTicketKeys } from '../utils/issueStore.js';
+import {
+  AI_ADOPTION_CATEGORY_COLUMNS,
+  AI_ADOPTION_GROUP_COLUMNS,
+  AI_ADOPTION_TOOL_COLUMNS,
+  CATEGORY_BY_REPO_COLUMNS,
+  CATEGORY_COLUMNS,
+  COMMIT_COLUMNS,
+  COMPARE_REPOS_COLUMNS,
+  CONTRIBUTOR_COLUMNS,
+  GLOBAL_MONTHLY_TREND_COLUMNS,
+  LARGEST_COMMITS_COLUMNS,
+  REPO_MONTHLY_TREND_COLUMNS,
+  SUMMARY_STATS_COLUMNS,
+  TOP_CONTRIBUTOR_COLUMNS
+} from '../utils/reportColumns.js';
+import { getAiAdoptionReport, getBeforeAfterComparison, getCategoryStats, getPersonalPerformance, getSummaryReport } from '../utils/reportQueries.js';
+import { ACTIVE_REPOSITORY_NAME_CONDITION, activeRepositoryCondition, parseRepoFilter, repositoryNameFilter } from '../utils/repositories.js';
+import { parseIdParam } from '../utils/routeParams.js';
+import { parsePreferencesInput } from '../utils/savedViews.js';
+import { hasTeam, teamCondition, teamMonthlyStatsQuery } from '../utils/teams.js';
+import { viewRefresher } from '../utils/viewRefresher.js';
 
 const router = express.Router();
 
+// Postgres error raised when an INSERT breaks a unique constraint
+const UNIQUE_VIOLATION = '23505';
+
 // Get all repositories
+// Archived repositories are only listed with include_archived=true
 router.get('/repos', async (req: Request, res: Response) => {
   try {
+    const includeArchived = req.query.include_archived === 'true';
     const result = await pool.query(`
       SELECT
         r.id,
         r.name,
         r.description,
+        r.default_branch,
+        r.team,
+        r.visibility,
+        r.archived,
+        r.archived_at,
         COUNT(c.id) as total_commits,
         SUM(c.weight)::numeric as effective_commits,
         ROUND(AVG(c.weight)::numeric, 1) as avg_weight,
@@ -18,7 +73,8 @@ router.get('/repos', async (req: Request, res: Response) => {
         COUNT(DISTINCT c.author_email) as unique_authors
       FROM repositories r
       LEFT JOIN commits c ON r.id = c.repository_id
-      GROUP BY r.id, r.name, r.description
+      ${includeArchived ? '' : 'WHERE NOT r.archived'}
+      GROUP BY r.id
       ORDER BY r.name
     `);
     res.json(result.rows);
@@ -28,10 +84,48 @@ router.get('/repos', async (req: Request, res: Response) => {
   }
 });
 
+// Get teams with their member emails (used by the team selectors)
+router.get('/teams', async (_req: Request, res: Response) => {
+  try {
+    const result = await pool.query(`
+      SELECT
+        t.id,
+        t.name,
+        t.description,
+        COALESCE(
+          array_agg(tm.author_email ORDER BY tm.author_email) FILTER (WHERE tm.id IS NOT NULL),
+          '{}'
+        ) as members
+      FROM teams t
+      LEFT JOIN team_members tm ON tm.team_id = t.id
+      GROUP BY t.id
+      ORDER BY t.name
+    `);
+    res.json(result.rows);
+  } catch (err) {
+    console.error('Error fetching teams:', err);
+    res.status(500).json({ error: 'Failed to fetch teams' });
+  }
+});
+
+// Get the category taxonomy: categories (color, parent, synonyms) and categorization rules
+router.get('/category-taxonomy', async (_req: Request, res: Response) => {
+  try {
+    res.json(await loadCategoryTaxonomy());
+  } catch (err) {
+    console.error('Error fetching category taxonomy:', err);
+    res.status(500).json({ error: 'Failed to fetch category taxonomy' });
+  }
+});
+
 // Get monthly trends for all repositories (global)
-router.get('/monthly-trends', async (req: Request, res: Response) => {
+// With a team, the monthly statistics are computed from the team's commits instead of the materialized view
+router.get('/monthly-trends', validateExportFormat, async (req: Request, res: Response) => {
   try {
     const limit = req.query.limit || 12;
+    const team = req.query.team;
+    const hasTeamFilter = hasTeam(team);
+    const source = hasTeamFilter ? `(${teamMonthlyStatsQuery('$2')}) team_stats` : 'mv_monthly_stats_by_repo';
     const result = await pool.query(`
       SELECT
         year_month,
@@ -49,11 +143,23 @@ router.get('/monthly-trends', async (req: Request, res: Response) => {
         COUNT(DISTINCT repository_name) as active_repositories,
         SUM(unique_authors)::int as total_authors,
         ROUND(AVG(avg_lines_changed_per_commit)::numeric, 1) as avg_lines_changed_per_commit
-      FROM mv_monthly_stats_by_repo
+      FROM ${source}
+      WHERE ${ACTIVE_REPOSITORY_NAME_CONDITION}
       GROUP BY year_month, month_start_date
       ORDER BY month_start_date DESC
       LIMIT $1
-    `, [limit]);
+    `, hasTeamFilter ? [limit, team] : [limit]);
+
+    const format = getExportFormat(req);
+    if (format) {
+      return await sendExport(res, format, {
+        filename: 'monthly-trends',
+        title: 'Monthly Trends (all repositories)',
+        filters: { team, limit },
+        sheets: [{ name: 'Monthly Trends', columns: GLOBAL_MONTHLY_TREND_COLUMNS, rows: result.rows }]
+      });
+    }
+
     res.json(result.rows);
   } catch (err) {
     console.error('Error fetching global monthly trends:', err);
@@ -62,10 +168,13 @@ router.get('/monthly-trends', async (req: Request, res: Response) => {
 });
 
 // Get monthly trends for a specific repository
-router.get('/monthly-trends/:repoName', async (req: Request, res: Response) => {
+router.get('/monthly-trends/:repoName', validateExportFormat, async (req: Request, res: Response) => {
   try {
     const { repoName } = req.params;
     const limit = req.query.limit || 12;
+    const team = req.query.team;
+    const hasTeamFilter = hasTeam(team);
+    const source = hasTeamFilter ? `(${teamMonthlyStatsQuery('$3')}) team_stats` : 'mv_monthly_stats_by_repo';
     const result = await pool.query(`
       SELECT
         year_month,
@@ -83,11 +192,22 @@ router.get('/monthly-trends/:repoName', async (req: Request, res: Response) => {
         unique_authors,
         avg_lines_changed_per_commit,
         avg_commits_per_author
-      FROM mv_monthly_stats_by_repo
+      FROM ${source}
       WHERE repository_name = $1
       ORDER BY month_start_date DESC
       LIMIT $2
-    `, [repoName, limit]);
+    `, hasTeamFilter ? [repoName, limit, team] : [repoName, limit]);
+
+    const format = getExportFormat(req);
+    if (format) {
+      return await sendExport(res, format, {
+        filename: `monthly-trends-${repoName}`,
+        title: `Monthly Trends (${repoName})`,
+        filters: { repo: repoName, team, limit },
+        sheets: [{ name: 'Monthly Trends', columns: REPO_MONTHLY_TREND_COLUMNS, rows: result.rows }]
+      });
+    }
+
     res.json(result.rows);
   } catch (err) {
     console.error('Error fetching monthly trends:', err);
@@ -95,113 +215,147 @@ router.get('/monthly-trends/:repoName', async (req: Request, res: Response) => {
   }
 });
 
+// Send the contributors as JSON or as the requested export
+async function sendContributors(req: Request, res: Response, rows: any[]) {
+  const format = getExportFormat(req);
+  if (format) {
+    const { repo, team, dateFrom, dateTo, limit = 20 } = req.query;
+    await sendExport(res, format, {
+      filename: 'contributors',
+      title: 'Top Contributors',
+      filters: { repo, team, dateFrom, dateTo, limit },
+      sheets: [{ name: 'Contributors', columns: CONTRIBUTOR_COLUMNS, rows }]
+    });
+  } else {
+    res.json(rows);
+  }
+}
+
 // Get top contributors across all repositories
-router.get('/contributors', async (req: Request, res: Response) => {
+// Authors are grouped by identity (author_aliases), falling back to the normalized name
+router.get('/contributors', validateExportFormat, async (req: Request, res: Response) => {
   try {
     const limit = req.query.limit || 20;
     const repo = req.query.repo;
+    const team = req.query.team;
     const dateFrom = req.query.dateFrom;
     const dateTo = req.query.dateTo;
 
-    // Check if we need to use custom query (only when actual filters are applied beyond defaults)
-    const hasRepoFilter = repo && repo !== 'all';
-    const hasDateFilter = dateFrom || dateTo;
+    const repos = parseRepoFilter(repo);
+    const hasRepoFilter = repos.length > 0;
+    const hasFilter = hasRepoFilter || hasTeam(team) || dateFrom || dateTo;
 
-    if (hasRepoFilter || hasDateFilter) {
-      let query = `
-        WITH normalized_commits AS (
+    // Without filters or author aliases, authors are grouped by name exactly as in v_contributor_stats
+    if (!hasFilter) {
+      const aliases = await pool.query('SELECT EXISTS (SELECT 1 FROM author_aliases) AS has_aliases');
+      if (!aliases.rows[0]?.has_aliases) {
+        const result = await pool.query(`
           SELECT
-            c.*,
-            LOWER(TRIM(c.author_name)) as normalized_name,
-            LOWER(TRIM(c.author_email)) as normalized_email
-          FROM commits c
-      `;
-
-      const conditions: string[] = [];
-      const params: any[] = [];
-      let paramIndex = 1;
-
-      if (hasRepoFilter) {
-        query += `
-          JOIN repositories r ON c.repository_id = r.id
-        `;
-        conditions.push(`r.name = $${paramIndex}`);
-        params.push(repo);
-        paramIndex++;
-      }
-
-      if (dateFrom) {
-        conditions.push(`c.commit_date >= $${paramIndex}`);
-        params.push(dateFrom);
-        paramIndex++;
+            author_name,
+            author_email,
+            NULL::int as author_identity_id,
+            total_commits,
+            effective_commits,
+            avg_weight,
+            weight_efficiency_pct,
+            repositories_contributed,
+            total_lines_changed,
+            weighted_lines_changed,
+            avg_lines_changed_per_commit
+          FROM v_contributor_stats
+          ORDER BY total_commits DESC
+          LIMIT $1
+        `, [limit]);
+        return await sendContributors(req, res, result.rows);
       }
+    }
 
-      if (dateTo) {
-        conditions.push(`c.commit_date <= $${paramIndex}`);
-        params.push(dateTo);
-        paramIndex++;
-      }
+    let query = `
+      SELECT
+        MAX(c.canonical_author_name) as author_name,
+        MAX(c.canonical_author_email) as author_email,
+        MAX(c.author_identity_id) as author_identity_id,
+        COUNT(c.id)::int as total_commits,
+        ROUND((SUM(c.weight) / 100)::numeric, 2) as effective_commits,
+        ROUND(AVG(c.weight)::numeric, 1) as avg_weight,
+        ROUND((SUM(c.weight) / COUNT(c.id)::numeric) * 100, 1) as weight_efficiency_pct,
+        COUNT(DISTINCT c.repository_id)::int as repositories_contributed,
+        SUM(c.lines_added + c.lines_deleted)::bigint as total_lines_changed,
+        SUM((c.lines_added + c.lines_deleted) * c.weight / 100)::numeric as weighted_lines_changed,
+        ROUND(AVG(c.lines_added + c.lines_deleted)::numeric, 1) as avg_lines_changed_per_commit
+      FROM v_commits_with_identity c
+    `;
 
-      if (conditions.length > 0) {
-        query += ' WHERE ' + conditions.join(' AND ');
-      }
+    const conditions: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
 
+    if (hasRepoFilter) {
       query += `
-        )
-        SELECT
-          MAX(author_name) as author_name,
-          MAX(author_email) as author_email,
-          COUNT(id)::int as total_commits,
-          ROUND((SUM(weight) / 100)::numeric, 2) as effective_commits,
-          ROUND(AVG(weight)::numeric, 1) as avg_weight,
-          ROUND((SUM(weight) / COUNT(id)::numeric) * 100, 1) as weight_efficiency_pct,
-          COUNT(DISTINCT repository_id)::int as repositories_contributed,
-          SUM(lines_added + lines_deleted)::bigint as total_lines_changed,
-          SUM((lines_added + lines_deleted) * weight / 100)::numeric as weighted_lines_changed,
-          ROUND(AVG(lines_added + lines_deleted)::numeric, 1) as avg_lines_changed_per_commit
-        FROM normalized_commits
-        GROUP BY normalized_name
-        ORDER BY total_commits DESC
-        LIMIT $${paramIndex}
+        JOIN repositories r ON c.repository_id = r.id
       `;
-      params.push(limit);
+      const repoFilter = repositoryNameFilter('r.name', `$${paramIndex}`, repos);
+      conditions.push(repoFilter.condition);
+      params.push(repoFilter.value);
+      paramIndex++;
+    }
 
-      const result = await pool.query(query, params);
-      res.json(result.rows);
-    } else {
-      // Use the materialized view for faster queries when no filters
-      const result = await pool.query(`
-        SELECT
-          author_name,
-          author_email,
-          total_commits,
-          effective_commits,
-          avg_weight,
-          weight_efficiency_pct,
-          repositories_contributed,
-          total_lines_changed,
-          weighted_lines_changed,
-          avg_lines_changed_per_commit
-        FROM v_contributor_stats
-        ORDER BY total_commits DESC
-        LIMIT $1
-      `, [limit]);
-      res.json(result.rows);
+    if (hasTeam(team)) {
+      conditions.push(teamCondition('c', `$${paramIndex}`));
+      params.push(team);
+      paramIndex++;
+    }
+
+    if (dateFrom) {
+      conditions.push(`c.commit_date >= $${paramIndex}`);
+      params.push(dateFrom);
+      paramIndex++;
+    }
+
+    if (dateTo) {
+      conditions.push(`c.commit_date <= $${paramIndex}`);
+      params.push(dateTo);
+      paramIndex++;
+    }
+
+    if (conditions.length > 0) {
+      query += ' WHERE ' + conditions.join(' AND ');
     }
+
+    query += `
+      GROUP BY c.author_key
+      ORDER BY total_commits DESC
+      LIMIT $${paramIndex}
+    `;
+    params.push(limit);
+
+    const result = await pool.query(query, params);
+    await sendContributors(req, res, result.rows);
   } catch (err) {
     console.error('Error fetching contributors:', err);
     res.status(500).json({ error: 'Failed to fetch contributors' });
   }
 });
 
+// How fresh the materialized views are compared with the latest commit
+router.get('/data-freshness', async (_req: Request, res: Response) => {
+  try {
+    res.json(await viewRefresher.getFreshness());
+  } catch (err) {
+    console.error('Error fetching data freshness:', err);
+    res.status(500).json({ error: 'Failed to fetch data freshness' });
+  }
+});
+
 // Get date range for contributors (min and max commit dates)
 router.get('/contributors/date-range', async (req: Request, res: Response) => {
   try {
     const result = await pool.query(`
       SELECT
-        MIN(commit_date) as min_date,
-        MAX(commit_date) as max_date
-      FROM commits
+        MIN(c.commit_date) as min_date,
+        MAX(c.commit_date) as max_date
+      FROM commits c
+      WHERE ${activeRepositoryCondition()}
     `);
     res.json(result.rows[0]);
   } catch (err) {
@@ -236,27 +390,65 @@ router.get('/daily-activity', async (req: Request, res: Response) => {
   }
 });
 
-// Compare repositories
-router.get('/compare-repos', async (req: Request, res: Response) => {
+// First month of the comparison window: months starting on or after today - 6 months,
+// like the month_start_date condition of the statistics query
+const comparisonWindowStart = (today: Date = new Date()): string => {
+  const cutoff = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 6, today.getUTCDate()));
+  const start = cutoff.getUTCDate() === 1
+    ? cutoff
+    : new Date(Date.UTC(cutoff.getUTCFullYear(), cutoff.getUTCMonth() + 1, 1));
+  return start.toISOString().slice(0, 10);
+};
+
+// Compare repositories, with the DORA metrics of the same months
+router.get('/compare-repos', validateExportFormat, async (req: Request, res: Response) => {
   try {
-    const result = await pool.query(`
-      SELECT
-        repository_name,
-        SUM(total_commits)::int as total_commits,
-        SUM(effective_commits)::numeric as effective_commits,
-        ROUND(AVG(avg_weight)::numeric, 1) as avg_weight,
-        ROUND(AVG(weight_efficiency_pct)::numeric, 1) as weight_efficiency_pct,
-        SUM(total_lines_changed)::bigint as total_lines_changed,
-        SUM(weighted_lines_changed)::numeric as weighted_lines_changed,
-        COUNT(DISTINCT year_month) as months_active,
-        ROUND(AVG(unique_authors)::numeric, 1) as avg_authors_per_month,
-        ROUND(AVG(avg_lines_changed_per_commit)::numeric, 1) as avg_lines_per_commit
-      FROM mv_monthly_stats_by_repo
-      WHERE month_start_date >= CURRENT_DATE - INTERVAL '6 months'
-      GROUP BY repository_name
-      ORDER BY total_commits DESC
-    `);
-    res.json(result.rows);
+    const [result, doraRows] = await Promise.all([
+      pool.query(`
+        SELECT
+          repository_name,
+          SUM(total_commits)::int as total_commits,
+          SUM(effective_commits)::numeric as effective_commits,
+          ROUND(AVG(avg_weight)::numeric, 1) as avg_weight,
+          ROUND(AVG(weight_efficiency_pct)::numeric, 1) as weight_efficiency_pct,
+          SUM(total_lines_changed)::bigint as total_lines_changed,
+          SUM(weighted_lines_changed)::numeric as weighted_lines_changed,
+          COUNT(DISTINCT year_month) as months_active,
+          ROUND(AVG(unique_authors)::numeric, 1) as avg_authors_per_month,
+          ROUND(AVG(avg_lines_changed_per_commit)::numeric, 1) as avg_lines_per_commit
+        FROM mv_monthly_stats_by_repo
+        WHERE month_start_date >= CURRENT_DATE - INTERVAL '6 months'
+          AND ${ACTIVE_REPOSITORY_NAME_CONDITION}
+        GROUP BY repository_name
+        ORDER BY total_commits DESC
+      `),
+      getDoraMetrics({ dateFrom: comparisonWindowStart() }, 'repository')
+    ]);
+
+    // DORA metrics of the same months (production deployments); null without deployments or incidents
+    const doraByRepository = new Map<string, any>(doraRows.map((row: any) => [row.repository_name, row]));
+    const rows = result.rows.map((row: any) => {
+      const dora = doraByRepository.get(row.repository_name);
+      return {
+        ...row,
+        deployments_per_week: dora?.deployments ? dora.deployments_per_week : null,
+        median_lead_time_hours: dora?.median_lead_time_hours ?? null,
+        change_failure_rate_pct: dora?.change_failure_rate_pct ?? null,
+        mttr_hours: dora?.mttr_hours ?? null,
+      };
+    });
+
+    const format = getExportFormat(req);
+    if (format) {
+      return await sendExport(res, format, {
+        filename: 'repository-comparison',
+        title: 'Repository Comparison (last 6 months)',
+        filters: {},
+        sheets: [{ name: 'Repositories', columns: COMPARE_REPOS_COLUMNS, rows }]
+      });
+    }
+
+    res.json(rows);
   } catch (err) {
     console.error('Error comparing repositories:', err);
     res.status(500).json({ error: 'Failed to compare repositories' });
@@ -267,161 +459,71 @@ router.get('/compare-repos', async (req: Request, res: Response) => {
 router.get('/before-after/:repoName', async (req: Request, res: Response) => {
   try {
     const { repoName } = req.params;
-    const { beforeStart, beforeEnd, afterStart, afterEnd } = req.query;
+    const { beforeStart, beforeEnd, afterStart, afterEnd, team } = req.query;
 
-    // Different queries for 'all' repositories vs specific repository
-    const isAllRepos = repoName === 'all';
+    const comparison = await getBeforeAfterComparison(repoName, { beforeStart, beforeEnd, afterStart, afterEnd }, team);
 
-    let beforeResult, afterResult;
-
-    if (isAllRepos) {
-      // Aggregate across all repositories
-      beforeResult = await pool.query(`
-        SELECT
-          AVG(avg_lines_changed_per_commit)::numeric as avg_lines_per_commit,
-          AVG(total_commits)::numeric as avg_commits_per_month,
-          AVG(effective_commits)::numeric as avg_effective_commits_per_month,
-          AVG(avg_weight)::numeric as avg_weight,
-          AVG(unique_authors)::numeric as avg_authors,
-          AVG(avg_commits_per_author)::numeric as avg_commits_per_committer,
-          AVG(CASE WHEN effective_commits > 0 THEN weighted_lines_changed / effective_commits ELSE 0 END)::numeric as avg_weighted_lines_per_commit,
-          AVG(CASE WHEN unique_authors > 0 THEN effective_commits / unique_authors ELSE 0 END)::numeric as avg_effective_commits_per_committer
-        FROM mv_monthly_stats_by_repo
-        WHERE month_start_date BETWEEN $1 AND $2
-      `, [beforeStart, beforeEnd]);
-
-      afterResult = await pool.query(`
-        SELECT
-          AVG(avg_lines_changed_per_commit)::numeric as avg_lines_per_commit,
-          AVG(total_commits)::numeric as avg_commits_per_month,
-          AVG(effective_commits)::numeric as avg_effective_commits_per_month,
-          AVG(avg_weight)::numeric as avg_weight,
-          AVG(unique_authors)::numeric as avg_authors,
-          AVG(avg_commits_per_author)::numeric as avg_commits_per_committer,
-          AVG(CASE WHEN effective_commits > 0 THEN weighted_lines_changed / effective_commits ELSE 0 END)::numeric as avg_weighted_lines_per_commit,
-          AVG(CASE WHEN unique_authors > 0 THEN effective_commits / unique_authors ELSE 0 END)::numeric as avg_effective_commits_per_committer
-        FROM mv_monthly_stats_by_repo
-        WHERE month_start_date BETWEEN $1 AND $2
-      `, [afterStart, afterEnd]);
-    } else {
-      // Filter by specific repository
-      beforeResult = await pool.query(`
-        SELECT
-          AVG(avg_lines_changed_per_commit)::numeric as avg_lines_per_commit,
-          AVG(total_commits)::numeric as avg_commits_per_month,
-          AVG(effective_commits)::numeric as avg_effective_commits_per_month,
-          AVG(avg_weight)::numeric as avg_weight,
-          AVG(unique_authors)::numeric as avg_authors,
-          AVG(avg_commits_per_author)::numeric as avg_commits_per_committer,
-          AVG(CASE WHEN effective_commits > 0 THEN weighted_lines_changed / effective_commits ELSE 0 END)::numeric as avg_weighted_lines_per_commit,
-          AVG(CASE WHEN unique_authors > 0 THEN effective_commits / unique_authors ELSE 0 END)::numeric as avg_effective_commits_per_committer
-        FROM mv_monthly_stats_by_repo
-        WHERE repository_name = $1
-          AND month_start_date BETWEEN $2 AND $3
-      `, [repoName, beforeStart, beforeEnd]);
-
-      afterResult = await pool.query(`
-        SELECT
-          AVG(avg_lines_changed_per_commit)::numeric as avg_lines_per_commit,
-          AVG(total_commits)::numeric as avg_commits_per_month,
-          AVG(effective_commits)::numeric as avg_effective_commits_per_month,
-          AVG(avg_weight)::numeric as avg_weight,
-          AVG(unique_authors)::numeric as avg_authors,
-          AVG(avg_commits_per_author)::numeric as avg_commits_per_committer,
-          AVG(CASE WHEN effective_commits > 0 THEN weighted_lines_changed / effective_commits ELSE 0 END)::numeric as avg_weighted_lines_per_commit,
-          AVG(CASE WHEN unique_authors > 0 THEN effective_commits / unique_authors ELSE 0 END)::numeric as avg_effective_commits_per_committer
-        FROM mv_monthly_stats_by_repo
-        WHERE repository_name = $1
-          AND month_start_date BETWEEN $2 AND $3
-      `, [repoName, afterStart, afterEnd]);
-    }
-
-    res.json({
-      before: beforeResult.rows[0],
-      after: afterResult.rows[0]
-    });
+    res.json(comparison);
   } catch (err) {
     console.error('Error in before/after analysis:', err);
     res.status(500).json({ error: 'Failed to perform before/after analysis' });
   }
 });
 
-// Get category statistics with optional filters
-router.get('/categories', async (req: Request, res: Response) => {
+// AI-assisted commits (ai_tools set) compared with the other commits of the same period
+router.get('/ai-adoption', validateExportFormat, async (req: Request, res: Response) => {
   try {
     const repo = req.query.repo;
+    const team = req.query.team;
     const dateFrom = req.query.dateFrom;
     const dateTo = req.query.dateTo;
 
-    const hasRepoFilter = repo && repo !== 'all';
-    const hasDateFilter = dateFrom || dateTo;
-
-    if (hasRepoFilter || hasDateFilter) {
-      // Custom query with filters
-      let query = `
-        SELECT
-          COALESCE(c.category, 'UNCATEGORIZED') as category,
-          COUNT(c.id)::int as total_commits,
-          ROUND((SUM(c.weight) / 100)::numeric, 2) as effective_commits,
-          ROUND(AVG(c.weight)::numeric, 1) as avg_weight,
-          ROUND((SUM(c.weight) / COUNT(c.id)::numeric) * 100, 1) as weight_efficiency_pct,
-          SUM(c.lines_added + c.lines_deleted)::bigint as total_lines_changed,
-          COUNT(DISTINCT c.author_email)::int as unique_authors,
-          COUNT(DISTINCT c.repository_id)::int as repositories
-        FROM commits c
-      `;
-
-      const conditions: string[] = [];
-      const params: any[] = [];
-      let paramIndex = 1;
-
-      if (hasRepoFilter) {
-        query += ` JOIN repositories r ON c.repository_id = r.id `;
-        conditions.push(`r.name = $${paramIndex}`);
-        params.push(repo);
-        paramIndex++;
-      }
-
-      if (dateFrom) {
-        conditions.push(`c.commit_date >= $${paramIndex}`);
-        params.push(dateFrom);
-        paramIndex++;
-      }
-
-      if (dateTo) {
-        conditions.push(`c.commit_date <= $${paramIndex}`);
-        params.push(dateTo);
-        paramIndex++;
-      }
-
-      if (conditions.length > 0) {
-        query += ' WHERE ' + conditions.join(' AND ');
-      }
+    const report = await getAiAdoptionReport({ repo, team, dateFrom, dateTo });
+
+    const format = getExportFormat(req);
+    if (format) {
+      return await sendExport(res, format, {
+        filename: 'ai-adoption',
+        title: 'AI Adoption',
+        filters: { repo, team, dateFrom, dateTo },
+        sheets: [
+          { name: 'AI Usage', columns: AI_ADOPTION_GROUP_COLUMNS, rows: report.groups },
+          { name: 'AI Tools', columns: AI_ADOPTION_TOOL_COLUMNS, rows: report.tools },
+          { name: 'Category Mix', columns: AI_ADOPTION_CATEGORY_COLUMNS, rows: report.categories }
+        ]
+      });
+    }
 
-      query += `
-        GROUP BY c.category
-        ORDER BY total_commits DESC
-      `;
+    res.json(report);
+  } catch (err) {
+    console.error('Error fetching AI adoption:', err);
+    res.status(500).json({ error: 'Failed to fetch AI adoption' });
+  }
+});
 
-      const result = await pool.query(query, params);
-      res.json(result.rows);
-    } else {
-      // Use view for unfiltered queries
-      const result = await pool.query(`
-        SELECT
-          category,
-          total_commits,
-          effective_commits,
-          avg_weight,
-          weight_efficiency_pct,
-          total_lines_changed,
-          unique_authors,
-          repositories
-        FROM v_category_stats
-        ORDER BY total_commits DESC
-      `);
-      res.json(result.rows);
+// Get category statistics with optional filters
+// One level of the category hierarchy: top-level categories, or the sub-categories of `parent`
+router.get('/categories', validateExportFormat, async (req: Request, res: Response) => {
+  try {
+    const repo = req.query.repo;
+    const team = req.query.team;
+    const dateFrom = req.query.dateFrom;
+    const dateTo = req.query.dateTo;
+    const parent = req.query.parent;
+
+    const rows = await getCategoryStats({ repo, team, dateFrom, dateTo, parent });
+
+    const format = getExportFormat(req);
+    if (format) {
+      return await sendExport(res, format, {
+        filename: 'categories',
+        title: 'Category Statistics',
+        filters: { repo, team, dateFrom, dateTo, parent },
+        sheets: [{ name: 'Categories', columns: CATEGORY_COLUMNS, rows }]
+      });
     }
+
+    res.json(rows);
   } catch (err) {
     console.error('Error fetching categories:', err);
     res.status(500).json({ error: 'Failed to fetch categories' });
@@ -429,13 +531,14 @@ router.get('/categories', async (req: Request, res: Response) => {
 });
 
 // Get monthly category trends for stacked area chart
+// One level of the category hierarchy: top-level categories, or the sub-categories of `parent`
 router.get('/category-trends', async (req: Request, res: Response) => {
   try {
     const months = req.query.months || 12;
-    const repo = req.query.repo;
-    const hasRepoFilter = repo && repo !== 'all';
+    const repos = parseRepoFilter(req.query.repo);
+    const level = getCategoryLevel(await loadCategoryTaxonomy(), parseCategoryParent(req.query.parent));
 
-    if (hasRepoFilter) {
+    if (repos.length === 1 && isFlatCategoryLevel(level)) {
       // Filter by repository
       const result = await pool.query(`
         SELECT
@@ -452,15 +555,28 @@ router.get('/category-trends', async (req: Request, res: Response) => {
         WHERE mcs.repository_name = $1
         ORDER BY mcs.month_start_date DESC, mcs.category
         LIMIT $2
-      `, [repo, Number(months) * 20]); // Multiply by estimated categories
-      res.json(result.rows);
+      `, [repos[0], Number(months) * 20]); // Multiply by estimated categories
+      res.json(markSubcategories(result.rows, level));
     } else {
-      // All repositories
+      // All repositories, or the selected ones added together, by level category
+      const params: any[] = [Number(months) * 20]; // Multiply by estimated categories
+      const conditions: string[] = [];
+      if (repos.length > 0) {
+        params.push(repos);
+        conditions.push(`repository_name = ANY($${params.length})`);
+      }
+      params.push(categoryLevelParam(level));
+      const category = categoryLevelExpression(level, 'category', `$${params.length}`);
+      const levelCondition = categoryLevelCondition(level, 'category', `$${params.length}`);
+      if (levelCondition) {
+        conditions.push(levelCondition);
+      }
+
       const result = await pool.query(`
         SELECT
           year_month,
           month_start_date,
-          COALESCE(category, 'UNCATEGORIZED') as category,
+          ${category} as category,
           SUM(total_commits)::int as total_commits,
           SUM(effective_commits)::numeric as effective_commits,
           ROUND(AVG(avg_weight)::numeric, 1) as avg_weight,
@@ -468,11 +584,12 @@ router.get('/category-trends', async (req: Request, res: Response) => {
           SUM(total_lines_changed)::bigint as total_lines_changed,
           SUM(unique_authors)::int as unique_authors
         FROM mv_monthly_category_stats
-        GROUP BY year_month, month_start_date, category
+        ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+        GROUP BY year_month, month_start_date, ${category}
         ORDER BY month_start_date DESC, category
         LIMIT $1
-      `, [Number(months) * 20]); // Multiply by estimated categories
-      res.json(result.rows);
+      `, params);
+      res.json(markSubcategories(result.rows, level));
     }
   } catch (err) {
     console.error('Error fetching category trends:', err);
@@ -481,18 +598,23 @@ router.get('/category-trends', async (req: Request, res: Response) => {
 });
 
 // Get category distribution across repositories
-router.get('/category-by-repo', async (req: Request, res: Response) => {
+// One level of the category hierarchy: top-level categories, or the sub-categories of `parent`
+router.get('/category-by-repo', validateExportFormat, async (req: Request, res: Response) => {
   try {
     const dateFrom = req.query.dateFrom;
     const dateTo = req.query.dateTo;
+    const parent = req.query.parent;
     const hasDateFilter = dateFrom || dateTo;
+    const level = getCategoryLevel(await loadCategoryTaxonomy(), parseCategoryParent(parent));
+    let rows: any[];
 
-    if (hasDateFilter) {
-      // Custom query with date filters
+    if (hasDateFilter || !isFlatCategoryLevel(level)) {
+      // Custom query with date filters, adding up the categories of each level category
+      const category = categoryLevelExpression(level, 'c.category', '$1');
       let query = `
         SELECT
           r.name as repository,
-          COALESCE(c.category, 'UNCATEGORIZED') as category,
+          ${category} as category,
           COUNT(c.id)::int as total_commits,
           ROUND((SUM(c.weight) / 100)::numeric, 2) as effective_commits,
           ROUND(AVG(c.weight)::numeric, 1) as avg_weight,
@@ -502,9 +624,10 @@ router.get('/category-by-repo', async (req: Request, res: Response) => {
         JOIN repositories r ON c.repository_id = r.id
       `;
 
-      const conditions: string[] = [];
-      const params: any[] = [];
-      let paramIndex = 1;
+      const levelCondition = categoryLevelCondition(level, 'c.category', '$1');
+      const conditions: string[] = levelCondition ? [levelCondition] : [];
+      const params: any[] = [categoryLevelParam(level)];
+      let paramIndex = 2;
 
       if (dateFrom) {
         conditions.push(`c.commit_date >= $${paramIndex}`);
@@ -523,12 +646,12 @@ router.get('/category-by-repo', async (req: Request, res: Response) => {
       }
 
       query += `
-        GROUP BY r.name, c.category
+        GROUP BY r.name, ${category}
         ORDER BY r.name, total_commits DESC
       `;
 
       const result = await pool.query(query, params);
-      res.json(result.rows);
+      rows = result.rows;
     } else {
       // Use view for unfiltered queries
       const result = await pool.query(`
@@ -543,8 +666,21 @@ router.get('/category-by-repo', async (req: Request, res: Response) => {
         FROM v_category_by_repo
         ORDER BY repository_name, total_commits DESC
       `);
-      res.json(result.rows);
+      rows = result.rows;
+    }
+    rows = markSubcategories(rows, level);
+
+    const format = getExportFormat(req);
+    if (format) {
+      return await sendExport(res, format, {
+        filename: 'category-by-repository',
+        title: 'Category Distribution by Repository',
+        filters: { dateFrom, dateTo, parent },
+        sheets: [{ name: 'Category by Repository', columns: CATEGORY_BY_REPO_COLUMNS, rows }]
+      });
     }
+
+    res.json(rows);
   } catch (err) {
     console.error('Error fetching category by repository:', err);
     res.status(500).json({ error: 'Failed to fetch category by repository' });
@@ -555,7 +691,7 @@ router.get('/category-by-repo', async (req: Request, res: Response) => {
 router.get('/monthly-commits/:year_month', async (req: Request, res: Response) => {
   try {
     const { year_month } = req.params;
-    const repo = req.query.repo as string | undefined;
+    const repos = parseRepoFilter(req.query.repo);
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
 
     // Validate year_month format (YYYY-MM)
@@ -579,7 +715,7 @@ router.get('/monthly-commits/:year_month', async (req: Request, res: Response) =
     const endDate = `${year}-${month}-${lastDay.toString().padStart(2, '0')}`;
 
     // Build query
-    const hasRepoFilter = repo && repo !== 'all';
+    const hasRepoFilter = repos.length > 0;
     let query = `
       SELECT
         c.commit_date,
@@ -601,8 +737,9 @@ router.get('/monthly-commits/:year_month', async (req: Request, res: Response) =
 
     if (hasRepoFilter) {
       query += ` JOIN repositories r ON c.repository_id = r.id `;
-      conditions.push(`r.name = $${paramIndex}`);
-      params.push(repo);
+      const repoFilter = repositoryNameFilter('r.name', `$${paramIndex}`, repos);
+      conditions.push(repoFilter.condition);
+      params.push(repoFilter.value);
       paramIndex++;
     }
 
@@ -622,117 +759,30 @@ router.get('/monthly-commits/:year_month', async (req: Request, res: Response) =
 });
 
 // Get summary report with overall stats, largest commits, and top contributors
-router.get('/summary', async (req: Request, res: Response) => {
+router.get('/summary', validateExportFormat, async (req: Request, res: Response) => {
   try {
     const repo = req.query.repo;
+    const team = req.query.team;
     const dateFrom = req.query.dateFrom;
     const dateTo = req.query.dateTo;
 
-    const hasRepoFilter = repo && repo !== 'all';
-    const hasDateFilter = dateFrom || dateTo;
-
-    // Build WHERE conditions
-    const conditions: string[] = [];
-    const params: any[] = [];
-    let paramIndex = 1;
-
-    let baseQuery = 'FROM commits c';
-
-    if (hasRepoFilter) {
-      baseQuery += ' JOIN repositories r ON c.repository_id = r.id';
-      conditions.push(`r.name = $${paramIndex}`);
-      params.push(repo);
-      paramIndex++;
-    }
-
-    if (dateFrom) {
-      conditions.push(`c.commit_date >= $${paramIndex}`);
-      params.push(dateFrom);
-      paramIndex++;
+    const summary = await getSummaryReport({ repo, team, dateFrom, dateTo });
+
+    const format = getExportFormat(req);
+    if (format) {
+      return await sendExport(res, format, {
+        filename: 'summary',
+        title: 'Overview Summary',
+        filters: { repo, team, dateFrom, dateTo },
+        sheets: [
+          { name: 'Overall Statistics', columns: SUMMARY_STATS_COLUMNS, rows: summary.overall_stats ? [summary.overall_stats] : [] },
+          { name: 'Largest Commits', columns: LARGEST_COMMITS_COLUMNS, rows: summary.largest_commits },
+          { name: 'Top Contributors', columns: TOP_CONTRIBUTOR_COLUMNS, rows: summary.top_contributors }
+        ]
+      });
     }
 
-    if (dateTo) {
-      conditions.push(`c.commit_date <= $${paramIndex}`);
-      params.push(dateTo);
-      paramIndex++;
-    }
-
-    const whereClause = conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
-
-    // 1. Overall Statistics
-    const statsQuery = `
-      SELECT
-        COUNT(c.id)::int as total_commits,
-        COALESCE(SUM(c.weight), 0)::numeric as effective_commits,
-        COALESCE(ROUND(AVG(c.weight)::numeric, 1), 0) as avg_weight,
-        COALESCE(ROUND((SUM(c.weight) / COUNT(c.id)::numeric) * 100, 1), 0) as weight_efficiency_pct,
-        COALESCE(SUM(c.lines_added), 0)::bigint as total_lines_added,
-        COALESCE(SUM(c.lines_deleted), 0)::bigint as total_lines_deleted,
-        COALESCE(SUM(c.lines_added + c.lines_deleted), 0)::bigint as total_lines_changed,
-        COALESCE(ROUND(AVG(c.lines_added + c.lines_deleted)::numeric, 1), 0) as avg_lines_changed_per_commit,
-        COALESCE(ROUND(AVG(c.lines_added)::numeric, 1), 0) as avg_lines_added_per_commit,
-        COALESCE(ROUND(AVG(c.lines_deleted)::numeric, 1), 0) as avg_lines_deleted_per_commit
-      ${baseQuery}
-      ${whereClause}
-    `;
-
-    // 2. Top 10 Largest Commits
-    const largestCommitsQuery = `
-      SELECT
-        c.commit_date,
-        c.hash as commit_hash,
-        c.subject as commit_message,
-        c.description,
-        c.author_name,
-        ${hasRepoFilter ? 'r.name' : '(SELECT name FROM repositories WHERE id = c.repository_id)'} as repository_name,
-        (c.lines_added + c.lines_deleted) as lines_changed,
-        c.lines_added,
-        c.lines_deleted,
-        c.weight
-      ${baseQuery}
-      ${whereClause}
-      ORDER BY lines_changed DESC
-      LIMIT 10
-    `;
-
-    // 3. Top 10 Contributors
-    const topContributorsQuery = `
-      WITH normalized_commits AS (
-        SELECT
-          c.*,
-          LOWER(TRIM(c.author_name)) as normalized_name,
-          LOWER(TRIM(c.author_email)) as normalized_email
-        ${baseQuery}
-        ${whereClause}
-      )
-      SELECT
-        MAX(author_name) as author_name,
-        MAX(author_email) as author_email,
-        COUNT(id)::int as total_commits,
-        ROUND((SUM(weight) / 100)::numeric, 2) as effective_commits,
-        ROUND(AVG(weight)::numeric, 1) as avg_weight,
-        ROUND((SUM(weight) / COUNT(id)::numeric) * 100, 1) as weight_efficiency_pct,
-        COUNT(DISTINCT repository_id)::int as repositories_contributed,
-        SUM(lines_added + lines_deleted)::bigint as total_lines_changed,
-        ROUND(AVG(lines_added + lines_deleted)::numeric, 1) as avg_lines_changed_per_commit
-      FROM normalized_commits
-      GROUP BY normalized_name
-      ORDER BY total_commits DESC
-      LIMIT 10
-    `;
-
-    // Execute all queries
-    const [statsResult, largestCommitsResult, topContributorsResult] = await Promise.all([
-      pool.query(statsQuery, params),
-      pool.query(largestCommitsQuery, params),
-      pool.query(topContributorsQuery, params)
-    ]);
-
-    res.json({
-      overall_stats: statsResult.rows[0],
-      largest_commits: largestCommitsResult.rows,
-      top_contributors: topContributorsResult.rows
-    });
+    res.json(summary);
   } catch (err) {
     console.error('Error fetching summary:', err);
     res.status(500).json({ error: 'Failed to fetch summary' });
@@ -740,6 +790,8 @@ router.get('/summary', async (req: Request, res: Response) => {
 });
 
 // Get personal performance data for logged-in user
+// Commits are matched through author identities and the author emails claimed by the user,
+// so aliased and claimed emails are aggregated together
 router.get('/personal-performance', async (req: Request, res: Response) => {
   try {
     const authorEmail = req.query.authorEmail as string;
@@ -752,206 +804,335 @@ router.get('/personal-performance', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'authorEmail parameter is required' });
     }
 
-    const hasRepoFilter = repo && repo !== 'all';
+    const performance = await getPersonalPerformance(authorEmail, { repo, dateFrom, dateTo, limit });
 
-    // 1. Personal Summary Statistics (from commits table with weight > 0 filter)
-    const personalStatsQuery = `
-      SELECT
-        COUNT(c.id)::int as total_commits,
-        COALESCE(SUM(c.weight) / 100, 0)::numeric as effective_commits,
-        COALESCE(ROUND(AVG(c.weight)::numeric, 1), 0) as avg_weight,
-        COALESCE(ROUND((SUM(c.weight) / NULLIF(COUNT(c.id), 0)::numeric), 1), 0) as weight_efficiency_pct,
-        COALESCE(SUM(c.lines_added), 0)::bigint as total_lines_added,
-        COALESCE(SUM(c.lines_deleted), 0)::bigint as total_lines_deleted,
-        COALESCE(SUM(c.lines_added + c.lines_deleted), 0)::bigint as total_lines_changed,
-        COALESCE(SUM((c.lines_added + c.lines_deleted) * c.weight / 100.0), 0)::numeric as weighted_lines_changed,
-        COALESCE(ROUND(AVG(c.lines_added + c.lines_deleted)::numeric, 1), 0) as avg_lines_changed_per_commit,
-        COUNT(DISTINCT c.repository_id)::int as repositories_contributed,
-        COUNT(DISTINCT DATE_TRUNC('day', c.commit_date))::int as active_days
-      FROM commits c
-      ${hasRepoFilter ? 'JOIN repositories r ON c.repository_id = r.id' : ''}
-      WHERE c.author_email = $1
-        AND c.weight > 0
-        ${hasRepoFilter ? `AND r.name = $2` : ''}
-        ${dateFrom ? `AND c.commit_date >= $${hasRepoFilter ? 3 : 2}` : ''}
-        ${dateTo ? `AND c.commit_date <= $${hasRepoFilter ? (dateFrom ? 4 : 3) : (dateFrom ? 3 : 2)}` : ''}
-    `;
+    res.json(performance);
+  } catch (err) {
+    console.error('Error fetching personal performance:', err);
+    res.status(500).json({ error: 'Failed to fetch personal performance data' });
+  }
+});
 
-    // Build params for personal stats query
-    const personalStatsParams: any[] = [authorEmail];
-    if (hasRepoFilter) personalStatsParams.push(repo);
-    if (dateFrom) personalStatsParams.push(dateFrom);
-    if (dateTo) personalStatsParams.push(dateTo);
+// List the author emails claimed by the current user
+router.get('/me/author-emails', async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
 
-    // 2. Daily Activity for Charts (uses v_daily_stats_by_author view)
-    let dailyActivityQuery = `
-      SELECT
-        commit_date,
-        repository_name,
-        total_commits,
-        effective_commits,
-        avg_weight,
-        weight_efficiency_pct,
-        total_lines_added,
-        total_lines_deleted,
-        total_lines_changed,
-        weighted_lines_added,
-        weighted_lines_deleted,
-        weighted_lines_changed
-      FROM v_daily_stats_by_author
-      WHERE author_email = $1
-    `;
+  try {
+    const result = await pool.query(
+      `SELECT id, email, verified_commits, created_at
+       FROM user_author_emails
+       WHERE user_id = $1
+       ORDER BY email`,
+      [req.user.id]
+    );
+    res.json(result.rows);
+  } catch (err) {
+    console.error('Error fetching claimed author emails:', err);
+    res.status(500).json({ error: 'Failed to fetch claimed author emails' });
+  }
+});
+
+// Claim an additional git author email for the current user
+// The email must appear on at least one commit and not belong to another user
+router.post('/me/author-emails', async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
 
-    const dailyActivityParams: any[] = [authorEmail];
-    let dailyParamIndex = 2;
+  const rawEmail = req.body?.email;
+  if (!rawEmail || typeof rawEmail !== 'string' || !rawEmail.includes('@')) {
+    return res.status(400).json({ error: 'A valid email is required' });
+  }
 
-    if (hasRepoFilter) {
-      dailyActivityQuery += ` AND repository_name = $${dailyParamIndex}`;
-      dailyActivityParams.push(repo);
-      dailyParamIndex++;
-    }
-    if (dateFrom) {
-      dailyActivityQuery += ` AND commit_date >= $${dailyParamIndex}`;
-      dailyActivityParams.push(dateFrom);
-      dailyParamIndex++;
+  const email = normalizeAliasValue(rawEmail);
+  if (email === normalizeAliasValue(req.user.email)) {
+    return res.status(400).json({ error: 'Your login email is always included' });
+  }
+
+  try {
+    const [claimedBy, otherUser, commitCount] = await Promise.all([
+      pool.query('SELECT user_id FROM user_author_emails WHERE email = $1', [email]),
+      pool.query('SELECT id FROM users WHERE LOWER(email) = $1 AND id <> $2', [email, req.user.id]),
+      pool.query('SELECT COUNT(*)::int as total_commits FROM commits WHERE LOWER(TRIM(author_email)) = $1', [email])
+    ]);
+
+    if (claimedBy.rows.length > 0) {
+      return res.status(409).json({
+        error: claimedBy.rows[0].user_id === req.user.id
+          ? 'You have already claimed this email'
+          : 'This email is already claimed by another user'
+      });
     }
-    if (dateTo) {
-      dailyActivityQuery += ` AND commit_date <= $${dailyParamIndex}`;
-      dailyActivityParams.push(dateTo);
-      dailyParamIndex++;
+
+    if (otherUser.rows.length > 0) {
+      return res.status(409).json({ error: 'This email is the login email of another user' });
     }
 
-    dailyActivityQuery += ' ORDER BY commit_date ASC';
+    const totalCommits = commitCount.rows[0].total_commits;
+    if (totalCommits === 0) {
+      return res.status(400).json({ error: 'No commits found with this author email' });
+    }
 
-    // 3. Repository Breakdown (from commits table with weight > 0 filter)
-    const repoBreakdownQuery = `
-      SELECT
-        r.name as repository_name,
-        COUNT(c.id)::int as total_commits,
-        ROUND((SUM(c.weight) / 100.0)::numeric, 2) as effective_commits,
-        ROUND(AVG(c.weight)::numeric, 1) as avg_weight,
-        ROUND((SUM(c.weight) / NULLIF(COUNT(c.id), 0)::numeric), 1) as weight_efficiency_pct,
-        SUM(c.lines_added + c.lines_deleted)::bigint as total_lines_changed,
-        SUM((c.lines_added + c.lines_deleted) * c.weight / 100.0)::numeric as weighted_lines_changed
-      FROM commits c
-      JOIN repositories r ON c.repository_id = r.id
-      WHERE c.author_email = $1
-        AND c.weight > 0
-        ${dateFrom ? `AND c.commit_date >= $2` : ''}
-        ${dateTo ? `AND c.commit_date <= $${dateFrom ? 3 : 2}` : ''}
-      GROUP BY r.name
-      ORDER BY total_commits DESC
-    `;
+    const result = await pool.query(
+      `INSERT INTO user_author_emails (user_id, email, verified_commits)
+       VALUES ($1, $2, $3)
+       RETURNING id, email, verified_commits, created_at`,
+      [req.user.id, email, totalCommits]
+    );
 
-    const repoBreakdownParams: any[] = [authorEmail];
-    if (dateFrom) repoBreakdownParams.push(dateFrom);
-    if (dateTo) repoBreakdownParams.push(dateTo);
+    res.status(201).json(result.rows[0]);
+  } catch (err) {
+    // Another request claimed the email since the check
+    if ((err as { code?: string })?.code === UNIQUE_VIOLATION) {
+      return res.status(409).json({ error: 'This email is already claimed by another user' });
+    }
+    console.error('Error claiming author email:', err);
+    res.status(500).json({ error: 'Failed to claim author email' });
+  }
+});
 
-    // 4. Category Breakdown (uses v_category_stats_by_author view)
-    const categoryBreakdownQuery = `
-      SELECT
-        category,
-        total_commits,
-        effective_commits,
-        avg_weight,
-        weight_efficiency_pct,
-        total_lines_changed,
-        weighted_lines_changed
-      FROM v_category_stats_by_author
-      WHERE author_email = $1
-      ORDER BY total_commits DESC
-    `;
+// Remove a claimed author email of the current user
+router.delete('/me/author-emails/:id', async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
 
-    // 5. Commit Details List (query directly from commits table)
-    let commitDetailsQuery = `
-      SELECT
-        c.commit_date,
-        c.hash as commit_hash,
-        c.subject as commit_message,
-        c.description,
-        c.author_name,
-        r.name as repository_name,
-        c.category,
-        (c.lines_added + c.lines_deleted) as lines_changed,
-        c.lines_added,
-        c.lines_deleted,
-        c.weight
-      FROM commits c
-      JOIN repositories r ON c.repository_id = r.id
-      WHERE c.author_email = $1
-    `;
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Claimed email not found' });
+  }
 
-    const commitDetailsParams: any[] = [authorEmail];
-    let commitParamIndex = 2;
+  try {
+    const result = await pool.query(
+      'DELETE FROM user_author_emails WHERE id = $1 AND user_id = $2 RETURNING id',
+      [id, req.user.id]
+    );
 
-    if (hasRepoFilter) {
-      commitDetailsQuery += ` AND r.name = $${commitParamIndex}`;
-      commitDetailsParams.push(repo);
-      commitParamIndex++;
-    }
-    if (dateFrom) {
-      commitDetailsQuery += ` AND c.commit_date >= $${commitParamIndex}`;
-      commitDetailsParams.push(dateFrom);
-      commitParamIndex++;
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Claimed email not found' });
     }
-    if (dateTo) {
-      commitDetailsQuery += ` AND c.commit_date <= $${commitParamIndex}`;
-      commitDetailsParams.push(dateTo);
-      commitParamIndex++;
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error removing claimed author email:', err);
+    res.status(500).json({ error: 'Failed to remove claimed author email' });
+  }
+});
+
+// Digest subscription settings of a user: { weekly, monthly } plus the last delivery of each
+async function fetchDigestSubscriptions(userId: number) {
+  const result = await pool.query(
+    'SELECT frequency, enabled, last_sent_at FROM digest_subscriptions WHERE user_id = $1',
+    [userId]
+  );
+  const settings: Record<string, any> = { last_sent_at: {} };
+  for (const frequency of DIGEST_FREQUENCIES) {
+    const row = result.rows.find((r: any) => r.frequency === frequency);
+    settings[frequency] = Boolean(row?.enabled);
+    settings.last_sent_at[frequency] = row?.last_sent_at || null;
+  }
+  return settings;
+}
+
+// Get the email digest subscriptions of the current user
+router.get('/me/digest-subscriptions', async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  try {
+    res.json(await fetchDigestSubscriptions(req.user.id));
+  } catch (err) {
+    console.error('Error fetching digest subscriptions:', err);
+    res.status(500).json({ error: 'Failed to fetch digest subscriptions' });
+  }
+});
+
+// Update the email digest subscriptions of the current user ({ weekly?: boolean, monthly?: boolean })
+router.put('/me/digest-subscriptions', async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  const changes = DIGEST_FREQUENCIES.filter(frequency => req.body?.[frequency] !== undefined);
+  if (changes.length === 0) {
+    return res.status(400).json({ error: `No changes provided. Allowed fields: ${DIGEST_FREQUENCIES.join(', ')}` });
+  }
+  const invalid = changes.find(frequency => typeof req.body[frequency] !== 'boolean');
+  if (invalid) {
+    return res.status(400).json({ error: `${invalid} must be a boolean` });
+  }
+
+  try {
+    for (const frequency of changes) {
+      // (Re-)subscribing starts with the period in progress: the last completed period is marked as sent
+      await pool.query(
+        `INSERT INTO digest_subscriptions (user_id, frequency, enabled, last_period_start)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (user_id, frequency) DO UPDATE SET
+           enabled = EXCLUDED.enabled,
+           last_period_start = CASE
+             WHEN EXCLUDED.enabled AND NOT digest_subscriptions.enabled THEN EXCLUDED.last_period_start
+             ELSE digest_subscriptions.last_period_start
+           END,
+           updated_at = NOW()`,
+        [req.user.id, frequency, req.body[frequency], getDigestPeriod(frequency).start]
+      );
     }
 
-    commitDetailsQuery += ` ORDER BY c.commit_date DESC LIMIT ${limit}`;
+    res.json(await fetchDigestSubscriptions(req.user.id));
+  } catch (err) {
+    console.error('Error updating digest subscriptions:', err);
+    res.status(500).json({ error: 'Failed to update digest subscriptions' });
+  }
+});
+
+// Preferences of a user (defaults when none were saved) with the path of the landing view
+async function fetchPreferences(userId: number) {
+  const result = await pool.query(
+    `SELECT p.dark_mode, p.sidebar_collapsed, p.default_view_id, v.path as default_view_path, v.query as default_view_query
+     FROM user_preferences p
+     LEFT JOIN saved_views v ON v.id = p.default_view_id
+     WHERE p.user_id = $1`,
+    [userId]
+  );
+  const row = result.rows[0];
+  return {
+    dark_mode: Boolean(row?.dark_mode),
+    sidebar_collapsed: Boolean(row?.sidebar_collapsed),
+    default_view_id: row?.default_view_id ?? null,
+    default_view: row?.default_view_path
+      ? { path: row.default_view_path, query: row.default_view_query }
+      : null,
+  };
+}
+
+// Get the display preferences and landing view of the current user
+router.get('/me/preferences', async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
 
-    // 6. Team Comparison - Get team totals for comparison (with weight > 0 filter)
-    const teamStatsQuery = `
-      SELECT
-        COUNT(c.id)::int as total_commits,
-        COALESCE(SUM(c.weight) / 100.0, 0)::numeric as effective_commits,
-        COALESCE(ROUND(AVG(c.weight)::numeric, 1), 0) as avg_weight,
-        COALESCE(SUM(c.lines_added + c.lines_deleted), 0)::bigint as total_lines_changed,
-        COUNT(DISTINCT c.author_email)::int as total_contributors
-      FROM commits c
-      ${hasRepoFilter ? 'JOIN repositories r ON c.repository_id = r.id' : ''}
-      WHERE c.weight > 0
-        ${hasRepoFilter ? `AND r.name = $1` : ''}
-        ${dateFrom ? `AND c.commit_date >= $${hasRepoFilter ? 2 : 1}` : ''}
-        ${dateTo ? `AND c.commit_date <= $${hasRepoFilter ? (dateFrom ? 3 : 2) : (dateFrom ? 2 : 1)}` : ''}
-    `;
+  try {
+    res.json(await fetchPreferences(req.user.id));
+  } catch (err) {
+    console.error('Error fetching preferences:', err);
+    res.status(500).json({ error: 'Failed to fetch preferences' });
+  }
+});
 
-    const teamStatsParams: any[] = [];
-    if (hasRepoFilter) teamStatsParams.push(repo);
-    if (dateFrom) teamStatsParams.push(dateFrom);
-    if (dateTo) teamStatsParams.push(dateTo);
-
-    // Execute all queries in parallel
-    const [personalStats, dailyActivity, repoBreakdown, categoryBreakdown, commitDetails, teamStats] = await Promise.all([
-      pool.query(personalStatsQuery, personalStatsParams),
-      pool.query(dailyActivityQuery, dailyActivityParams),
-      pool.query(repoBreakdownQuery, repoBreakdownParams),
-      pool.query(categoryBreakdownQuery, [authorEmail]),
-      pool.query(commitDetailsQuery, commitDetailsParams),
-      pool.query(teamStatsQuery, teamStatsParams)
-    ]);
+// Update the preferences of the current user
+// ({ dark_mode?: boolean, sidebar_collapsed?: boolean, default_view_id?: number | null })
+router.put('/me/preferences', async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
 
-    res.json({
-      personal_stats: personalStats.rows[0],
-      daily_activity: dailyActivity.rows,
-      repository_breakdown: repoBreakdown.rows,
-      category_breakdown: categoryBreakdown.rows,
-      commit_details: commitDetails.rows,
-      team_stats: teamStats.rows[0]
-    });
+  const parsed = parsePreferencesInput(req.body || {});
+  if (!parsed.preferences) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const changes = Object.keys(parsed.preferences) as (keyof typeof parsed.preferences)[];
+  if (changes.length === 0) {
+    return res.status(400).json({ error: 'No changes provided. Allowed fields: dark_mode, sidebar_collapsed, default_view_id' });
+  }
+
+  try {
+    const defaultViewId = parsed.preferences.default_view_id;
+    if (defaultViewId !== undefined && defaultViewId !== null) {
+      const view = await pool.query('SELECT id FROM saved_views WHERE id = $1 AND user_id = $2', [defaultViewId, req.user.id]);
+      if (view.rows.length === 0) {
+        return res.status(404).json({ error: 'Saved view not found' });
+      }
+    }
+
+    // Only the given fields change; a new row starts from the column defaults
+    const columns = changes.join(', ');
+    const values = changes.map((_key, index) => `$${index + 2}`).join(', ');
+    const updates = changes.map(key => `${key} = EXCLUDED.${key}`).join(', ');
+    await pool.query(
+      `INSERT INTO user_preferences (user_id, ${columns})
+       VALUES ($1, ${values})
+       ON CONFLICT (user_id) DO UPDATE SET ${updates}, updated_at = NOW()`,
+      [req.user.id, ...changes.map(key => parsed.preferences[key])]
+    );
+
+    res.json(await fetchPreferences(req.user.id));
   } catch (err) {
-    console.error('Error fetching personal performance:', err);
-    res.status(500).json({ error: 'Failed to fetch personal performance data' });
+    console.error('Error updating preferences:', err);
+    res.status(500).json({ error: 'Failed to update preferences' });
   }
 });
 
 
-// Search commits with filters
-router.get('/commits', async (req: Request, res: Response) => {
+// Filters accepted by the commit search (shared by search and bulk edit)
+interface CommitSearchFilters {
+  repo?: unknown;
+  author?: unknown;
+  dateFrom?: unknown;
+  dateTo?: unknown;
+  hash?: unknown;
+  search?: unknown;
+}
+
+// Build WHERE conditions for the commit search filters
+// Expects `commits c JOIN repositories r` in the FROM clause
+function buildCommitSearchConditions(filters: CommitSearchFilters, startIndex: number = 1) {
+  const { repo, author, dateFrom, dateTo, hash, search } = filters;
+  const conditions: string[] = [];
+  const params: any[] = [];
+  let paramIndex = startIndex;
+
+  const repos = parseRepoFilter(repo);
+  if (repos.length > 0) {
+    const repoFilter = repositoryNameFilter('r.name', `$${paramIndex}`, repos);
+    conditions.push(repoFilter.condition);
+    params.push(repoFilter.value);
+    paramIndex++;
+  }
+
+  if (author) {
+    conditions.push(`c.author_name ILIKE $${paramIndex}`);
+    params.push(`%${author}%`);
+    paramIndex++;
+  }
+
+  if (dateFrom) {
+    conditions.push(`c.commit_date >= $${paramIndex}`);
+    params.push(dateFrom);
+    paramIndex++;
+  }
+
+  if (dateTo) {
+    conditions.push(`c.commit_date <= $${paramIndex}`);
+    params.push(dateTo);
+    paramIndex++;
+  }
+
+  if (hash) {
+    conditions.push(`c.hash ILIKE $${paramIndex}`);
+    params.push(`%${hash}%`);
+    paramIndex++;
+  }
+
+  if (search) {
+    conditions.push(`(c.subject ILIKE $${paramIndex} OR c.description ILIKE $${paramIndex})`);
+    params.push(`%${search}%`);
+    paramIndex++;
+  }
+
+  return { conditions, params, paramIndex };
+}
+
+// Maximum number of commits in a CSV/XLSX export of the search results
+const COMMIT_EXPORT_MAX_ROWS = 50000;
+
+router.get('/commits', validateExportFormat, async (req: Request, res: Response) => {
   try {
-    const { repo, author, dateFrom, dateTo, hash, search, limit = 50, offset = 0 } = req.query;
+    const { limit = 50, offset = 0 } = req.query;
+    const format = getExportFormat(req);
 
     let query = `
       SELECT
@@ -972,88 +1153,357 @@ router.get('/commits', async (req: Request, res: Response) => {
       JOIN repositories r ON c.repository_id = r.id
     `;
 
-    const conditions: string[] = [];
-    const params: any[] = [];
-    let paramIndex = 1;
+    const { conditions, params, paramIndex } = buildCommitSearchConditions(req.query);
 
-    if (repo && repo !== 'all') {
-      conditions.push(`r.name = $${paramIndex}`);
-      params.push(repo);
-      paramIndex++;
+    if (conditions.length > 0) {
+      query += ' WHERE ' + conditions.join(' AND ');
     }
 
-    if (author) {
-      conditions.push(`c.author_name ILIKE $${paramIndex}`);
-      params.push(`%${author}%`);
-      paramIndex++;
-    }
+    // Exports contain every matching commit instead of the current page
+    // (one commit over the limit tells whether the export is truncated)
+    query += ` ORDER BY c.commit_date DESC LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
+    params.push(format ? COMMIT_EXPORT_MAX_ROWS + 1 : limit, format ? 0 : offset);
 
-    if (dateFrom) {
-      conditions.push(`c.commit_date >= $${paramIndex}`);
-      params.push(dateFrom);
-      paramIndex++;
+    const result = await pool.query(query, params);
+
+    if (format) {
+      const { repo, author, dateFrom, dateTo, hash, search } = req.query;
+      const truncated = result.rows.length > COMMIT_EXPORT_MAX_ROWS;
+      return await sendExport(res, format, {
+        filename: 'commits',
+        title: 'Commit Search',
+        filters: { repo, author, dateFrom, dateTo, hash, search },
+        sheets: [{ name: 'Commits', columns: COMMIT_COLUMNS, rows: result.rows.slice(0, COMMIT_EXPORT_MAX_ROWS) }],
+        truncated: truncated
+          ? `Only the ${COMMIT_EXPORT_MAX_ROWS.toLocaleString('en-US')} most recent matching commits are included`
+          : undefined
+      });
     }
 
-    if (dateTo) {
-      conditions.push(`c.commit_date <= $${paramIndex}`);
-      params.push(dateTo);
-      paramIndex++;
+    res.json(result.rows);
+  } catch (err) {
+    console.error('Error searching commits:', err);
+    res.status(500).json({ error: 'Failed to search commits' });
+  }
+});
+
+// Bulk update category, weight and AI tools for a list of commits
+// Targets either explicit `hashes` or every commit matching the search `filters`
+router.patch('/commits', async (req: Request, res: Response) => {
+  try {
+    const { hashes, filters, changes } = req.body || {};
+
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
     }
 
-    if (hash) {
-      conditions.push(`c.hash ILIKE $${paramIndex}`);
-      params.push(`%${hash}%`);
-      paramIndex++;
+    const updates = pickEditableFields(changes || {}, BULK_EDITABLE_COMMIT_FIELDS);
+    const fields = Object.keys(updates) as (keyof typeof updates)[];
+
+    if (fields.length === 0) {
+      return res.status(400).json({ error: 'No changes provided. Allowed fields: category, weight, ai_tools' });
     }
 
-    if (search) {
-      conditions.push(`(c.subject ILIKE $${paramIndex} OR c.description ILIKE $${paramIndex})`);
-      params.push(`%${search}%`);
-      paramIndex++;
+    if (updates.weight !== undefined && updates.weight !== null) {
+      const parsed = parseCommitWeight(updates.weight);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      updates.weight = parsed.weight;
     }
 
-    if (conditions.length > 0) {
-      query += ' WHERE ' + conditions.join(' AND ');
+    let selection: { conditions: string[]; params: any[]; paramIndex: number };
+
+    if (Array.isArray(hashes) && hashes.length > 0) {
+      selection = { conditions: ['c.hash = ANY($1)'], params: [hashes.map(String)], paramIndex: 2 };
+    } else if (filters && typeof filters === 'object') {
+      selection = buildCommitSearchConditions(filters);
+      // Never turn an empty filter set into an update of the whole table
+      if (selection.conditions.length === 0) {
+        return res.status(400).json({ error: 'At least one search filter is required to bulk edit by filters' });
+      }
+    } else {
+      return res.status(400).json({ error: 'Provide either a list of hashes or search filters' });
     }
 
-    query += ` ORDER BY c.commit_date DESC LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
-    params.push(limit, offset);
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query(
+        `SELECT c.id, c.hash, c.author_email, c.subject, c.category, c.weight, c.ai_tools
+         FROM commits c
+         JOIN repositories r ON c.repository_id = r.id
+         WHERE ${selection.conditions.join(' AND ')}
+         FOR UPDATE OF c`,
+        selection.params
+      );
+
+      if (existing.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.json({ updated: 0, commits: [] });
+      }
 
-    const result = await pool.query(query, params);
-    res.json(result.rows);
+      const forbidden = existing.rows.filter((row: any) => !canEditCommit(req.user, row.author_email));
+      if (forbidden.length > 0) {
+        await client.query('ROLLBACK');
+        return res.status(403).json({
+          error: `You are not allowed to edit ${forbidden.length} of the selected commits. Only the commit author or an admin can edit a commit`,
+          forbidden_hashes: forbidden.map((row: any) => row.hash)
+        });
+      }
+
+      // Categories are stored under their canonical name
+      if (typeof updates.category === 'string') {
+        const categories = await loadCategoryResolver(client);
+        updates.category = categories.normalize(updates.category) ?? updates.category;
+      }
+
+      const setClause = fields.map((field, index) => `${field} = $${index + 1}`).join(', ');
+      const result = await client.query(
+        `UPDATE commits
+         SET ${setClause}
+         WHERE id = ANY($${fields.length + 1})
+         RETURNING *`,
+        [...fields.map(field => updates[field]), existing.rows.map((row: any) => row.id)]
+      );
+
+      const beforeById = new Map<number, any>(existing.rows.map((row: any) => [row.id, row]));
+      for (const row of result.rows) {
+        const before = beforeById.get(row.id);
+        const rowChanges = diffCommitFields(before, row);
+        if (hasCommitChanges(rowChanges)) {
+          await recordCommitEdit(client, {
+            commitId: row.id,
+            commitHash: row.hash,
+            userId: req.user.id,
+            action: 'edit',
+            changes: rowChanges
+          });
+        }
+      }
+
+      await client.query('COMMIT');
+      res.json({ updated: result.rows.length, commits: result.rows });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
   } catch (err) {
-    console.error('Error searching commits:', err);
-    res.status(500).json({ error: 'Failed to search commits' });
+    console.error('Error bulk updating commits:', err);
+    res.status(500).json({ error: 'Failed to bulk update commits' });
   }
 });
 
-// Update commit details
+// Update commit details (restricted to the commit author or an admin)
+// Every change is recorded in commit_edits so it can be reviewed and reverted
 router.put('/commits/:hash', async (req: Request, res: Response) => {
   try {
     const { hash } = req.params;
-    const { subject, category, weight, ai_tools } = req.body;
+    const { subject, ai_tools } = req.body;
+    let { category } = req.body;
 
-    const result = await pool.query(
-      `UPDATE commits
-       SET subject = COALESCE($1, subject),
-           category = COALESCE($2, category),
-           weight = COALESCE($3, weight),
-           ai_tools = COALESCE($4, ai_tools)
-       WHERE hash = $5
-       RETURNING *`,
-      [subject, category, weight, ai_tools, hash]
-    );
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Commit not found' });
+    const parsedWeight = parseCommitWeight(req.body.weight);
+    if ('error' in parsedWeight) {
+      return res.status(400).json({ error: parsedWeight.error });
     }
+    const { weight } = parsedWeight;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query(
+        `SELECT id, hash, author_email, subject, category, weight, ai_tools
+         FROM commits
+         WHERE hash = $1
+         FOR UPDATE`,
+        [hash]
+      );
+
+      if (existing.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Commit not found' });
+      }
 
-    res.json(result.rows[0]);
+      const before = existing.rows[0];
+
+      if (!canEditCommit(req.user, before.author_email)) {
+        await client.query('ROLLBACK');
+        return res.status(403).json({ error: 'Only the commit author or an admin can edit this commit' });
+      }
+
+      // Categories are stored under their canonical name
+      if (typeof category === 'string') {
+        const categories = await loadCategoryResolver(client);
+        category = categories.normalize(category) ?? category;
+      }
+
+      const result = await client.query(
+        `UPDATE commits
+         SET subject = COALESCE($1, subject),
+             category = COALESCE($2, category),
+             weight = COALESCE($3, weight),
+             ai_tools = COALESCE($4, ai_tools)
+         WHERE id = $5
+         RETURNING *`,
+        [subject, category, weight, ai_tools, before.id]
+      );
+
+      const changes = diffCommitFields(before, result.rows[0]);
+      if ('subject' in changes.newValues) {
+        const ticketKeys = await refreshTicketKeys(client, [before.id]);
+        result.rows[0].ticket_keys = ticketKeys.get(before.id) ?? result.rows[0].ticket_keys;
+      }
+      if (hasCommitChanges(changes)) {
+        await recordCommitEdit(client, {
+          commitId: before.id,
+          commitHash: before.hash,
+          userId: req.user.id,
+          action: 'edit',
+          changes
+        });
+      }
+
+      await client.query('COMMIT');
+      res.json(result.rows[0]);
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
   } catch (err) {
     console.error('Error updating commit:', err);
     res.status(500).json({ error: 'Failed to update commit' });
   }
 });
 
-export default router;
+// Get edit history for a commit (most recent first)
+router.get('/commits/:hash/history', async (req: Request, res: Response) => {
+  try {
+    const { hash } = req.params;
 
+    const result = await pool.query(`
+      SELECT
+        e.id,
+        e.commit_hash,
+        e.action,
+        e.old_values,
+        e.new_values,
+        e.reverted_edit_id,
+        e.created_at,
+        e.user_id,
+        u.name as user_name,
+        u.email as user_email
+      FROM commit_edits e
+      LEFT JOIN users u ON e.user_id = u.id
+      WHERE e.commit_hash = $1
+      ORDER BY e.created_at DESC, e.id DESC
+    `, [hash]);
+
+    res.json(result.rows);
+  } catch (err) {
+    console.error('Error fetching commit history:', err);
+    res.status(500).json({ error: 'Failed to fetch commit history' });
+  }
+});
+
+// Revert a commit edit: restores the values the commit had before that edit
+router.post('/commits/:hash/history/:editId/revert', async (req: Request, res: Response) => {
+  try {
+    const { hash } = req.params;
+    const editId = parseIdParam(req.params.editId);
+
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    if (editId === null) {
+      return res.status(404).json({ error: 'Edit not found for this commit' });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query(
+        `SELECT id, hash, author_email, subject, category, weight, ai_tools
+         FROM commits
+         WHERE hash = $1
+         FOR UPDATE`,
+        [hash]
+      );
+
+      if (existing.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Commit not found' });
+      }
+
+      const before = existing.rows[0];
+
+      if (!canEditCommit(req.user, before.author_email)) {
+        await client.query('ROLLBACK');
+        return res.status(403).json({ error: 'Only the commit author or an admin can edit this commit' });
+      }
+
+      const editResult = await client.query(
+        'SELECT id, old_values FROM commit_edits WHERE id = $1 AND commit_id = $2',
+        [editId, before.id]
+      );
+
+      if (editResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Edit not found for this commit' });
+      }
+
+      const restored = pickEditableFields(editResult.rows[0].old_values || {});
+      const fields = Object.keys(restored) as (keyof typeof restored)[];
+
+      if (fields.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ error: 'Edit has no values to restore' });
+      }
+
+      const setClause = fields.map((field, index) => `${field} = $${index + 1}`).join(', ');
+      const result = await client.query(
+        `UPDATE commits SET ${setClause} WHERE id = $${fields.length + 1} RETURNING *`,
+        [...fields.map(field => restored[field]), before.id]
+      );
+
+      const changes = diffCommitFields(before, result.rows[0]);
+      if ('subject' in changes.newValues) {
+        const ticketKeys = await refreshTicketKeys(client, [before.id]);
+        result.rows[0].ticket_keys = ticketKeys.get(before.id) ?? result.rows[0].ticket_keys;
+      }
+      if (hasCommitChanges(changes)) {
+        await recordCommitEdit(client, {
+          commitId: before.id,
+          commitHash: before.hash,
+          userId: req.user.id,
+          action: 'revert',
+          changes,
+          revertedEditId: editResult.rows[0].id
+        });
+      }
+
+      await client.query('COMMIT');
+      res.json(result.rows[0]);
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    console.error('Error reverting commit edit:', err);
+    res.status(500).json({ error: 'Failed to revert commit edit' });
+  }
+});
+
+export default router;
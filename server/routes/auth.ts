@@ -192,7 +192,8 @@ router.get('/check', (req: Request, res: Response) => {
       email: decoded.email,
       name: decoded.name,
       domain: decoded.domain,
-      avatar_url: decoded.avatar_url
+      avatar_url: decoded.avatar_url,
+      role: decoded.role || 'user'
     }
   });
 });
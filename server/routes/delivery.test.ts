@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import deliveryRouter from './delivery.js';
+import pool from '../db.js';
+
+// Mock the database pool
+vi.mock('../db.js', () => ({
+  default: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}));
+
+describe('Delivery Routes', () => {
+  let app: Express;
+
+  const metrics = {
+    merged_pull_requests: 12,
+    avg_cycle_time_hours: '30.5',
+    median_cycle_time_hours: '20.0',
+    avg_time_to_first_review_hours: '4.2',
+    median_time_to_first_review_hours: '2.5',
+    avg_review_rounds: '1.25',
+    unreviewed_pull_requests: 1,
+    linked_commits: 40,
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/delivery', deliveryRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('GET /api/delivery/summary', () => {
+    it('should return the metrics of the merged pull requests', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [metrics] } as any);
+
+      const response = await request(app).get('/api/delivery/summary?repo=payments&dateFrom=2026-01-01&dateTo=2026-06-30');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(metrics);
+      const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain(`p.state = 'merged'`);
+      expect(sql).toContain('PERCENTILE_CONT(0.5)');
+      expect(sql).toContain('p.merged_at >= $2');
+      expect(sql).toContain('p.merged_at <= $3');
+      expect(params).toEqual(['payments', '2026-01-01', '2026-06-30']);
+    });
+
+    it('should leave out archived repositories across repositories', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [metrics] } as any);
+
+      await request(app).get('/api/delivery/summary');
+
+      const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain('NOT r.archived');
+      expect(params).toEqual([]);
+    });
+
+    it('should keep pull requests with commits of the team', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [metrics] } as any);
+
+      await request(app).get('/api/delivery/summary?team=Payments');
+
+      const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain('FROM pull_request_commits tpc');
+      expect(sql).toContain('team_members');
+      expect(params).toEqual(['Payments']);
+    });
+
+    it('should handle database errors gracefully', async () => {
+      vi.mocked(pool.query).mockRejectedValueOnce(new Error('Database connection failed'));
+
+      const response = await request(app).get('/api/delivery/summary');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Failed to fetch delivery summary' });
+    });
+  });
+
+  describe('GET /api/delivery/monthly', () => {
+    it('should group the metrics by month of merge', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ year_month: '2026-05', ...metrics }] } as any);
+
+      const response = await request(app).get('/api/delivery/monthly');
+
+      expect(response.status).toBe(200);
+      expect(response.body[0].year_month).toBe('2026-05');
+      const [sql] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain(`TO_CHAR(DATE_TRUNC('month', merged_at), 'YYYY-MM') as year_month`);
+      expect(sql).toContain('ORDER BY year_month');
+    });
+
+    it('should export the monthly metrics as CSV', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ year_month: '2026-05', ...metrics }] } as any);
+
+      const response = await request(app).get('/api/delivery/monthly?format=csv');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-disposition']).toMatch(/attachment; filename="delivery-by-month-\d{4}-\d{2}-\d{2}\.csv"/);
+      expect(response.text).toContain('Report,Delivery by Month');
+      expect(response.text).toContain('2026-05,12,30.5,20,4.2,2.5,1.25,1,40');
+    });
+  });
+
+  describe('GET /api/delivery/authors', () => {
+    it('should group the metrics by pull request author', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ author: 'Jane Smith', ...metrics }] } as any);
+
+      const response = await request(app).get('/api/delivery/authors');
+
+      expect(response.status).toBe(200);
+      expect(response.body[0].author).toBe('Jane Smith');
+      const [sql] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain(`COALESCE(p.author_name, p.author_login, 'Unknown') as author`);
+    });
+
+    it('should handle database errors gracefully', async () => {
+      vi.mocked(pool.query).mockRejectedValueOnce(new Error('Database connection failed'));
+
+      const response = await request(app).get('/api/delivery/authors');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Failed to fetch delivery by author' });
+    });
+  });
+
+  describe('GET /api/delivery/pull-requests', () => {
+    it('should return the slowest pull requests first', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ number: 42, cycle_time_hours: '72.0' }] } as any);
+
+      const response = await request(app).get('/api/delivery/pull-requests?repo=payments&limit=5');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([{ number: 42, cycle_time_hours: '72.0' }]);
+      const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain('ORDER BY cycle_time_hours DESC');
+      expect(sql).toContain('LIMIT $2');
+      expect(params).toEqual(['payments', 5]);
+    });
+
+    it('should return 400 for an invalid limit', async () => {
+      const response = await request(app).get('/api/delivery/pull-requests?limit=abc');
+
+      expect(response.status).toBe(400);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import express, { Request, Response } from 'express';
+import { DeliveryGrouping, getDeliveryBreakdown, getDeliveryPullRequests, getDeliverySummary } from '../utils/deliveryQueries.js';
+import { ExportColumn, getExportFormat, sendExport, validateExportFormat } from '../utils/export.js';
+import {
+  DELIVERY_AUTHOR_COLUMNS,
+  DELIVERY_MONTHLY_COLUMNS,
+  DELIVERY_PULL_REQUEST_COLUMNS,
+  DELIVERY_REPOSITORY_COLUMNS
+} from '../utils/reportColumns.js';
+
+const router = express.Router();
+
+// Pull request delivery metrics across the merged pull requests of the filters
+router.get('/summary', async (req: Request, res: Response) => {
+  try {
+    const { repo, team, dateFrom, dateTo } = req.query;
+    res.json(await getDeliverySummary({ repo, team, dateFrom, dateTo }));
+  } catch (err) {
+    console.error('Error fetching delivery summary:', err);
+    res.status(500).json({ error: 'Failed to fetch delivery summary' });
+  }
+});
+
+// Delivery metrics per repository, author or month, exportable as CSV/XLSX
+const breakdownRoute = (grouping: DeliveryGrouping, label: string, columns: ExportColumn[]) =>
+  async (req: Request, res: Response) => {
+    try {
+      const { repo, team, dateFrom, dateTo } = req.query;
+      const rows = await getDeliveryBreakdown({ repo, team, dateFrom, dateTo }, grouping);
+
+      const format = getExportFormat(req);
+      if (format) {
+        return await sendExport(res, format, {
+          filename: `delivery-by-${grouping}`,
+          title: `Delivery by ${label}`,
+          filters: { repo, team, dateFrom, dateTo },
+          sheets: [{ name: `By ${label}`, columns, rows }]
+        });
+      }
+
+      res.json(rows);
+    } catch (err) {
+      console.error(`Error fetching delivery by ${grouping}:`, err);
+      res.status(500).json({ error: `Failed to fetch delivery by ${grouping}` });
+    }
+  };
+
+router.get('/repositories', validateExportFormat, breakdownRoute('repository', 'Repository', DELIVERY_REPOSITORY_COLUMNS));
+router.get('/authors', validateExportFormat, breakdownRoute('author', 'Author', DELIVERY_AUTHOR_COLUMNS));
+router.get('/monthly', validateExportFormat, breakdownRoute('month', 'Month', DELIVERY_MONTHLY_COLUMNS));
+
+// Merged pull requests with their metrics, slowest first
+router.get('/pull-requests', validateExportFormat, async (req: Request, res: Response) => {
+  try {
+    const { repo, team, dateFrom, dateTo } = req.query;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+    if (!Number.isInteger(limit) || limit <= 0) {
+      return res.status(400).json({ error: 'limit must be a positive integer' });
+    }
+
+    const rows = await getDeliveryPullRequests({ repo, team, dateFrom, dateTo, limit });
+
+    const format = getExportFormat(req);
+    if (format) {
+      return await sendExport(res, format, {
+        filename: 'delivery-pull-requests',
+        title: 'Slowest Pull Requests',
+        filters: { repo, team, dateFrom, dateTo, limit },
+        sheets: [{ name: 'Pull Requests', columns: DELIVERY_PULL_REQUEST_COLUMNS, rows }]
+      });
+    }
+
+    res.json(rows);
+  } catch (err) {
+    console.error('Error fetching delivery pull requests:', err);
+    res.status(500).json({ error: 'Failed to fetch delivery pull requests' });
+  }
+});
+
+export default router;
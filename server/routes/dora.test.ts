@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import doraRouter from './dora.js';
+import pool from '../db.js';
+import { periodDays } from '../utils/doraQueries.js';
+
+// Mock the database pool
+vi.mock('../db.js', () => ({
+  default: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}));
+
+describe('DORA Routes', () => {
+  let app: Express;
+
+  const metrics = {
+    deployments: 8,
+    deployment_days: 6,
+    deployments_per_week: '1.87',
+    deployed_commits: 42,
+    median_lead_time_hours: '20.5',
+    avg_lead_time_hours: '31.2',
+    failed_deployments: 1,
+    change_failure_rate_pct: '12.5',
+    incidents: 1,
+    open_incidents: 0,
+    mttr_hours: '1.5',
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/dora', doraRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('periodDays', () => {
+    it('should count the days of the period inclusively', () => {
+      expect(periodDays('2026-09-01', '2026-09-30')).toBe(30);
+      expect(periodDays('2026-10-01', undefined, new Date('2026-10-14T18:00:00Z'))).toBe(14);
+    });
+
+    it('should return null for open-ended or invalid periods', () => {
+      expect(periodDays(undefined, '2026-09-30')).toBeNull();
+      expect(periodDays('2026-09-30', '2026-09-01')).toBeNull();
+      expect(periodDays('last month', undefined)).toBeNull();
+    });
+  });
+
+  describe('GET /api/dora/summary', () => {
+    it('should return the metrics of the environment and period', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [metrics] } as any);
+
+      const response = await request(app)
+        .get('/api/dora/summary?repo=payments&environment=Staging&dateFrom=2026-09-01&dateTo=2026-09-30');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(metrics);
+      const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain('d.environment = $1');
+      expect(sql).toContain('d.deployed_at >= $3 AND d.deployed_at <= $4');
+      expect(sql).toContain('CROSS JOIN incident_stats ist');
+      expect(params).toEqual(['staging', 'payments', '2026-09-01', '2026-09-30', 30]);
+    });
+
+    it('should default to production across active repositories', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [metrics] } as any);
+
+      await request(app).get('/api/dora/summary');
+
+      const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain('NOT r.archived');
+      expect(sql).toContain('COALESCE($2::numeric, ds.deployment_span_days)');
+      expect(params).toEqual(['production', null]);
+    });
+
+    it('should handle database errors', async () => {
+      vi.mocked(pool.query).mockRejectedValueOnce(new Error('Database error'));
+
+      const response = await request(app).get('/api/dora/summary');
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe('Failed to fetch DORA summary');
+    });
+  });
+
+  describe('GET /api/dora/monthly', () => {
+    it('should group the metrics by month', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ year_month: '2026-09', ...metrics }] } as any);
+
+      const response = await request(app).get('/api/dora/monthly?dateFrom=2026-01-01');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([{ year_month: '2026-09', ...metrics }]);
+      const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain(`TO_CHAR(k.month_start, 'YYYY-MM') as year_month`);
+      expect(sql).toContain('GROUP BY month_start');
+      expect(params).toEqual(['production', '2026-01-01']);
+    });
+
+    it('should export the months as CSV', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ year_month: '2026-09', ...metrics }] } as any);
+
+      const response = await request(app).get('/api/dora/monthly?format=csv');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toContain('dora-by-month');
+      expect(response.text).toContain('2026-09');
+    });
+  });
+
+  describe('GET /api/dora/repositories', () => {
+    it('should group the metrics by repository', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ repository_name: 'payments', ...metrics }] } as any);
+
+      const response = await request(app).get('/api/dora/repositories');
+
+      expect(response.status).toBe(200);
+      const [sql] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain('LEFT JOIN deploy_stats ds USING (repository_name)');
+      expect(sql).toContain('ORDER BY deployments DESC, repository_name');
+    });
+
+    it('should handle database errors', async () => {
+      vi.mocked(pool.query).mockRejectedValueOnce(new Error('Database error'));
+
+      const response = await request(app).get('/api/dora/repositories');
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe('Failed to fetch DORA metrics');
+    });
+  });
+
+  describe('GET /api/dora/environments', () => {
+    it('should list the environments with deployments', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ environment: 'production' }, { environment: 'staging' }] } as any);
+
+      const response = await request(app).get('/api/dora/environments');
+
+      expect(response.body).toEqual(['production', 'staging']);
+    });
+  });
+});
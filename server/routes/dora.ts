@@ -0,0 +1,63 @@
+import express, { Request, Response } from 'express';
+import { DoraGrouping, getDeploymentEnvironments, getDoraMetrics } from '../utils/doraQueries.js';
+import { ExportColumn, getExportFormat, sendExport, validateExportFormat } from '../utils/export.js';
+import {
+  DORA_MONTHLY_COLUMNS,
+  DORA_REPOSITORY_COLUMNS,
+  DORA_REPOSITORY_MONTHLY_COLUMNS
+} from '../utils/reportColumns.js';
+
+const router = express.Router();
+
+// Environments with deployments (production first)
+router.get('/environments', async (_req: Request, res: Response) => {
+  try {
+    res.json(await getDeploymentEnvironments());
+  } catch (err) {
+    console.error('Error fetching deployment environments:', err);
+    res.status(500).json({ error: 'Failed to fetch deployment environments' });
+  }
+});
+
+// DORA metrics across the repositories of the filters
+router.get('/summary', async (req: Request, res: Response) => {
+  try {
+    const { repo, environment, dateFrom, dateTo } = req.query;
+    const [summary] = await getDoraMetrics({ repo, environment, dateFrom, dateTo }, 'summary');
+    res.json(summary);
+  } catch (err) {
+    console.error('Error fetching DORA summary:', err);
+    res.status(500).json({ error: 'Failed to fetch DORA summary' });
+  }
+});
+
+// DORA metrics per repository, month, or repository and month, exportable as CSV/XLSX
+const breakdownRoute = (grouping: DoraGrouping, label: string, columns: ExportColumn[]) =>
+  async (req: Request, res: Response) => {
+    try {
+      const { repo, environment, dateFrom, dateTo } = req.query;
+      const rows = await getDoraMetrics({ repo, environment, dateFrom, dateTo }, grouping);
+
+      const format = getExportFormat(req);
+      if (format) {
+        return await sendExport(res, format, {
+          filename: `dora-by-${grouping.replace('_', '-')}`,
+          title: `DORA Metrics by ${label}`,
+          filters: { repo, environment, dateFrom, dateTo },
+          sheets: [{ name: `By ${label}`, columns, rows }]
+        });
+      }
+
+      res.json(rows);
+    } catch (err) {
+      console.error(`Error fetching DORA metrics by ${grouping}:`, err);
+      res.status(500).json({ error: 'Failed to fetch DORA metrics' });
+    }
+  };
+
+router.get('/repositories', validateExportFormat, breakdownRoute('repository', 'Repository', DORA_REPOSITORY_COLUMNS));
+router.get('/monthly', validateExportFormat, breakdownRoute('month', 'Month', DORA_MONTHLY_COLUMNS));
+router.get('/repository-monthly', validateExportFormat,
+  breakdownRoute('repository_month', 'Repository and Month', DORA_REPOSITORY_MONTHLY_COLUMNS));
+
+export default router;
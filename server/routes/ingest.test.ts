@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import ingestRouter from './ingest.js';
+import pool from '../db.js';
+import { requireIngestionToken } from '../middleware/auth.js';
+
+// Mock the database pool
+vi.mock('../db.js', () => ({
+  default: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}));
+
+describe('Ingestion Routes', () => {
+  let app: Express;
+  let client: { query: ReturnType<typeof vi.fn>; release: ReturnType<typeof vi.fn> };
+
+  const HEAD = 'a'.repeat(40);
+
+  beforeEach(() => {
+    vi.stubEnv('INGESTION_TOKEN', 'ci-secret');
+    app = express();
+    app.use(express.json());
+    app.use('/api/ingest', requireIngestionToken, ingestRouter);
+    vi.clearAllMocks();
+
+    client = {
+      query: vi.fn(async (sql: string) => {
+        if (sql.includes('FROM repositories')) return { rows: [{ id: 4 }] };
+        if (sql.includes('INSERT INTO deployments')) return { rows: [{ id: 9, inserted: true }] };
+        if (sql.includes('INSERT INTO deployment_commits')) return { rows: [], rowCount: 5 };
+        return { rows: [], rowCount: 0 };
+      }),
+      release: vi.fn(),
+    };
+    vi.mocked(pool.connect).mockResolvedValue(client as any);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe('token', () => {
+    it('should reject requests without the ingestion token', async () => {
+      const response = await request(app).post('/api/ingest/deployments').send({ repository: 'payments', commit_to: HEAD });
+
+      expect(response.status).toBe(401);
+      expect(pool.connect).not.toHaveBeenCalled();
+    });
+
+    it('should be disabled when INGESTION_TOKEN is not set', async () => {
+      vi.stubEnv('INGESTION_TOKEN', '');
+
+      const response = await request(app)
+        .post('/api/ingest/deployments')
+        .set('Authorization', 'Bearer ci-secret')
+        .send({ repository: 'payments', commit_to: HEAD });
+
+      expect(response.status).toBe(503);
+    });
+  });
+
+  describe('POST /api/ingest/deployments', () => {
+    it('should record the deployment and its commits', async () => {
+      const response = await request(app)
+        .post('/api/ingest/deployments')
+        .set('Authorization', 'Bearer ci-secret')
+        .send({ repository: 'payments', commit_to: HEAD, deployed_at: '2026-10-18T09:30:00Z', external_id: 'run-1' });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({
+        id: 9,
+        repository: 'payments',
+        environment: 'production',
+        status: 'success',
+        deployed_at: '2026-10-18T09:30:00Z',
+        commits: 5,
+        created: true,
+      });
+      expect(client.query).toHaveBeenCalledWith('BEGIN');
+      expect(client.query).toHaveBeenCalledWith('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown repositories', async () => {
+      client.query.mockResolvedValueOnce({ rows: [] });
+
+      const response = await request(app)
+        .post('/api/ingest/deployments')
+        .set('Authorization', 'Bearer ci-secret')
+        .send({ repository: 'unknown', commit_to: HEAD });
+
+      expect(response.status).toBe(404);
+      expect(client.query).not.toHaveBeenCalledWith('BEGIN');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid events', async () => {
+      const response = await request(app)
+        .post('/api/ingest/deployments')
+        .set('Authorization', 'Bearer ci-secret')
+        .send({ repository: 'payments', commit_to: 'main' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('commit_to must be a full commit hash');
+    });
+
+    it('should roll back when recording fails', async () => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM repositories')) return { rows: [{ id: 4 }] };
+        if (sql.includes('INSERT INTO deployments')) throw new Error('connection lost');
+        return { rows: [], rowCount: 0 };
+      });
+
+      const response = await request(app)
+        .post('/api/ingest/deployments')
+        .set('Authorization', 'Bearer ci-secret')
+        .send({ repository: 'payments', commit_to: HEAD });
+
+      expect(response.status).toBe(500);
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should return 500 when no connection can be acquired', async () => {
+      vi.mocked(pool.connect).mockRejectedValueOnce(new Error('too many clients') as never);
+
+      const response = await request(app)
+        .post('/api/ingest/deployments')
+        .set('Authorization', 'Bearer ci-secret')
+        .send({ repository: 'payments', commit_to: HEAD });
+
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe('POST /api/ingest/incidents', () => {
+    const incident = {
+      repository: 'payments',
+      title: 'Checkout errors',
+      started_at: '2026-10-18T10:00:00Z',
+      resolved_at: '2026-10-18T11:30:00Z',
+      external_id: 'INC-7',
+      deployment_external_id: 'run-1',
+    };
+
+    it('should record the incident with the deployment that caused it', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [{ id: 4 }] } as any)
+        .mockResolvedValueOnce({ rows: [{ id: 9 }] } as any)
+        .mockResolvedValueOnce({ rows: [{ id: 3, inserted: false }] } as any);
+
+      const response = await request(app)
+        .post('/api/ingest/incidents')
+        .set('Authorization', 'Bearer ci-secret')
+        .send(incident);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ id: 3, deployment_id: 9, created: false });
+      expect(pool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO incidents'),
+        [4, 9, 'INC-7', 'Checkout errors', null, '2026-10-18T10:00:00Z', '2026-10-18T11:30:00Z']
+      );
+    });
+
+    it('should return 400 for an unknown deployment', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [{ id: 4 }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      const response = await request(app)
+        .post('/api/ingest/incidents')
+        .set('Authorization', 'Bearer ci-secret')
+        .send(incident);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Unknown deployment: run-1');
+    });
+  });
+});
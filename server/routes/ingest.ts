@@ -0,0 +1,96 @@
+import express, { Request, Response } from 'express';
+import { PoolClient } from 'pg';
+import pool from '../db.js';
+import { parseDeploymentInput, parseIncidentInput, recordDeployment, recordIncident } from '../utils/deployments.js';
+
+const router = express.Router();
+
+// Id of a repository by name (undefined when it is not registered)
+const findRepositoryId = async (client: Pick<PoolClient, 'query'>, name: string): Promise<number | undefined> => {
+  const result = await client.query('SELECT id FROM repositories WHERE name = $1', [name]);
+  return result.rows[0]?.id;
+};
+
+// Record a deployment posted by CI: { repository, commit_to, commit_from?, deployed_at?, environment?, status?, ... }
+// Re-posting the same external_id updates the deployment
+router.post('/deployments', async (req: Request, res: Response) => {
+  try {
+    const { deployment, error } = parseDeploymentInput(req.body);
+    if (!deployment) {
+      return res.status(400).json({ error });
+    }
+
+    const client = await pool.connect();
+    try {
+      const repositoryId = await findRepositoryId(client, deployment.repository);
+      if (repositoryId === undefined) {
+        return res.status(404).json({ error: `Unknown repository: ${deployment.repository}` });
+      }
+
+      await client.query('BEGIN');
+      const recorded = await recordDeployment(client, repositoryId, deployment);
+      await client.query('COMMIT');
+
+      res.status(recorded.inserted ? 201 : 200).json({
+        id: recorded.id,
+        repository: deployment.repository,
+        environment: deployment.environment,
+        status: deployment.status,
+        deployed_at: deployment.deployed_at,
+        commits: recorded.commits,
+        created: recorded.inserted,
+      });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  } catch (err) {
+    console.error('Error recording deployment:', err);
+    res.status(500).json({ error: 'Failed to record deployment' });
+  }
+});
+
+// Record an incident: { repository, title, started_at, resolved_at?, severity?, external_id?, deployment_external_id? }
+// Re-posting the same external_id updates the incident (e.g. to resolve it)
+router.post('/incidents', async (req: Request, res: Response) => {
+  const { incident, error } = parseIncidentInput(req.body);
+  if (!incident) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    const repositoryId = await findRepositoryId(pool, incident.repository);
+    if (repositoryId === undefined) {
+      return res.status(404).json({ error: `Unknown repository: ${incident.repository}` });
+    }
+
+    let deploymentId: number | null = null;
+    if (incident.deployment_external_id) {
+      const deployment = await pool.query(
+        'SELECT id FROM deployments WHERE repository_id = $1 AND external_id = $2',
+        [repositoryId, incident.deployment_external_id]
+      );
+      if (deployment.rows.length === 0) {
+        return res.status(400).json({ error: `Unknown deployment: ${incident.deployment_external_id}` });
+      }
+      deploymentId = deployment.rows[0].id;
+    }
+
+    const recorded = await recordIncident(pool, repositoryId, incident, deploymentId);
+    res.status(recorded.inserted ? 201 : 200).json({
+      id: recorded.id,
+      repository: incident.repository,
+      deployment_id: deploymentId,
+      started_at: incident.started_at,
+      resolved_at: incident.resolved_at,
+      created: recorded.inserted,
+    });
+  } catch (err) {
+    console.error('Error recording incident:', err);
+    res.status(500).json({ error: 'Failed to record incident' });
+  }
+});
+
+export default router;
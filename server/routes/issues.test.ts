@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import issueRouter from './issues.js';
+import pool from '../db.js';
+
+// Mock the database pool
+vi.mock('../db.js', () => ({
+  default: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}));
+
+describe('Issue Routes', () => {
+  let app: Express;
+
+  const effort = {
+    commits: 12,
+    commit_share: '10.50',
+    effective_commits: '8.25',
+    lines_changed: '1200',
+    issues: 4,
+    story_points: '13.00',
+    unique_authors: 3,
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/issues', issueRouter);
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('GET /api/issues/summary', () => {
+    it('should return how many commits are linked to issues', async () => {
+      const summary = { total_commits: 40, commits_with_ticket_keys: 30, linked_commits: 25, linked_commits_pct: '62.5' };
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [summary] } as any);
+
+      const response = await request(app).get('/api/issues/summary?repo=payments&dateFrom=2026-01-01&dateTo=2026-06-30');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(summary);
+      const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain('JOIN issues i ON i.issue_key = ANY(fc.ticket_keys)');
+      expect(sql).toContain('c.commit_date >= $2');
+      expect(sql).toContain('c.commit_date <= $3');
+      expect(params).toEqual(['payments', '2026-01-01', '2026-06-30']);
+    });
+
+    it('should leave out archived repositories and filter by team', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{}] } as any);
+
+      await request(app).get('/api/issues/summary?team=Payments');
+
+      const [sql, params] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain('NOT r.archived');
+      expect(sql).toContain('FROM v_commits_with_identity c');
+      expect(params).toEqual(['Payments']);
+    });
+
+    it('should handle database errors gracefully', async () => {
+      vi.mocked(pool.query).mockRejectedValueOnce(new Error('Database connection failed'));
+
+      const response = await request(app).get('/api/issues/summary');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Failed to fetch issue summary' });
+    });
+  });
+
+  describe('GET /api/issues/epics', () => {
+    it('should split commits between the issues they reference', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ epic_key: 'PAY-1', epic_name: 'Invoicing', ...effort }] } as any);
+
+      const response = await request(app).get('/api/issues/epics');
+
+      expect(response.status).toBe(200);
+      expect(response.body[0].epic_name).toBe('Invoicing');
+      const [sql] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain('1.0 / COUNT(*) OVER (PARTITION BY fc.id) as share');
+      expect(sql).toContain('GROUP BY 1, 2');
+    });
+
+    it('should export the effort by epic as CSV', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ epic_key: 'PAY-1', epic_name: 'Invoicing', ...effort }] } as any);
+
+      const response = await request(app).get('/api/issues/epics?format=csv');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-disposition']).toMatch(/attachment; filename="effort-by-epic-\d{4}-\d{2}-\d{2}\.csv"/);
+      expect(response.text).toContain('Report,Effort by Epic');
+      expect(response.text).toContain('PAY-1,Invoicing,12,10.5,8.25,1200,4,13,3');
+    });
+  });
+
+  describe('GET /api/issues/types', () => {
+    it('should group the effort by issue type', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ issue_type: 'Bug', ...effort }] } as any);
+
+      const response = await request(app).get('/api/issues/types');
+
+      expect(response.status).toBe(200);
+      expect(response.body[0].issue_type).toBe('Bug');
+      const [sql] = vi.mocked(pool.query).mock.calls[0] as [string, any[]];
+      expect(sql).toContain(`COALESCE(issue_type, 'Unknown') as issue_type`);
+    });
+
+    it('should handle database errors gracefully', async () => {
+      vi.mocked(pool.query).mockRejectedValueOnce(new Error('Database connection failed'));
+
+      const response = await request(app).get('/api/issues/types');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Failed to fetch effort by type' });
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import express, { Request, Response } from 'express';
+import { ExportColumn, getExportFormat, sendExport, validateExportFormat } from '../utils/export.js';
+import { getIssueEffort, getIssueSummary, IssueEffortGrouping } from '../utils/issueQueries.js';
+import { ISSUE_EPIC_COLUMNS, ISSUE_TYPE_COLUMNS } from '../utils/reportColumns.js';
+
+const router = express.Router();
+
+// How many commits of the filters are linked to imported issues
+router.get('/summary', async (req: Request, res: Response) => {
+  try {
+    const { repo, team, dateFrom, dateTo } = req.query;
+    res.json(await getIssueSummary({ repo, team, dateFrom, dateTo }));
+  } catch (err) {
+    console.error('Error fetching issue summary:', err);
+    res.status(500).json({ error: 'Failed to fetch issue summary' });
+  }
+});
+
+// Effort of the linked commits per epic or issue type, exportable as CSV/XLSX
+const effortRoute = (grouping: IssueEffortGrouping, label: string, columns: ExportColumn[]) =>
+  async (req: Request, res: Response) => {
+    try {
+      const { repo, team, dateFrom, dateTo } = req.query;
+      const rows = await getIssueEffort({ repo, team, dateFrom, dateTo }, grouping);
+
+      const format = getExportFormat(req);
+      if (format) {
+        return await sendExport(res, format, {
+          filename: `effort-by-${grouping}`,
+          title: `Effort by ${label}`,
+          filters: { repo, team, dateFrom, dateTo },
+          sheets: [{ name: `By ${label}`, columns, rows }]
+        });
+      }
+
+      res.json(rows);
+    } catch (err) {
+      console.error(`Error fetching effort by ${grouping}:`, err);
+      res.status(500).json({ error: `Failed to fetch effort by ${grouping}` });
+    }
+  };
+
+router.get('/epics', validateExportFormat, effortRoute('epic', 'Epic', ISSUE_EPIC_COLUMNS));
+router.get('/types', validateExportFormat, effortRoute('type', 'Issue Type', ISSUE_TYPE_COLUMNS));
+
+export default router;
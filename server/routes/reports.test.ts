@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import reportsRouter from './reports.js';
+import pool from '../db.js';
+
+// Mock the database pool
+vi.mock('../db.js', () => ({
+  default: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}));
+
+const binaryParser = (res: any, callback: (err: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+describe('Report Routes - PDF', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = express();
+    app.use('/api/reports', reportsRouter);
+    vi.clearAllMocks();
+
+    vi.mocked(pool.query).mockImplementation(async (sql: any) => {
+      const text = String(sql);
+      if (text.includes('mv_monthly_stats_by_repo')) {
+        return { rows: [{ avg_commits_per_month: '12.5', avg_weight: '80.0' }] } as any;
+      }
+      if (text.includes('GROUP BY c.category') || text.includes('v_category_stats')) {
+        return { rows: [{ category: 'API', total_commits: 8 }, { category: 'UI', total_commits: 2 }] } as any;
+      }
+      if (text.includes('GROUP BY c.author_key')) {
+        return { rows: [{ author_name: 'Jane Smith', total_commits: 10, effective_commits: '8.50' }] } as any;
+      }
+      if (text.includes('LIMIT 10')) {
+        return { rows: [] } as any;
+      }
+      return { rows: [{ total_commits: 10, effective_commits: '850', total_lines_added: '100' }] } as any;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should render all sections as a PDF attachment', async () => {
+    const response = await request(app)
+      .get('/api/reports/pdf?repo=my-repo&dateFrom=2026-07-01&dateTo=2026-09-30')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('application/pdf');
+    expect(response.headers['content-disposition']).toMatch(/^attachment; filename="report-my-repo-\d{4}-\d{2}-\d{2}\.pdf"$/);
+    expect((response.body as Buffer).subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('should compare the range with the preceding period of equal length by default', async () => {
+    await request(app)
+      .get('/api/reports/pdf?repo=my-repo&dateFrom=2026-07-15&dateTo=2026-09-30&sections=before-after')
+      .buffer(true)
+      .parse(binaryParser);
+
+    const calls = vi.mocked(pool.query).mock.calls;
+    // Averages, then monthly samples, of both periods
+    expect(calls).toHaveLength(4);
+    expect(calls[0][1]).toEqual(['my-repo', '2026-04-01', '2026-06-01']);
+    expect(calls[1][1]).toEqual(['my-repo', '2026-07-01', '2026-09-01']);
+    expect(calls[2][1]).toEqual(['my-repo', '2026-04-01', '2026-06-01']);
+    expect(calls[3][1]).toEqual(['my-repo', '2026-07-01', '2026-09-01']);
+  });
+
+  it('should only query the requested sections', async () => {
+    await request(app)
+      .get('/api/reports/pdf?sections=categories')
+      .buffer(true)
+      .parse(binaryParser);
+
+    // Besides the category taxonomy
+    const queries = vi.mocked(pool.query).mock.calls.map((call: any[]) => String(call[0])).filter((sql: string) => !sql.includes('FROM categor'));
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toContain('v_category_stats');
+  });
+
+  it('should reject unknown sections', async () => {
+    const response = await request(app).get('/api/reports/pdf?sections=summary,velocity');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('velocity');
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid dates', async () => {
+    const response = await request(app).get('/api/reports/pdf?dateFrom=last-month');
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: 'Invalid dateFrom. Expected YYYY-MM-DD' });
+  });
+
+  it('should require a date range for the before/after section', async () => {
+    const response = await request(app).get('/api/reports/pdf?sections=before-after');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 500 on database error', async () => {
+    vi.mocked(pool.query).mockRejectedValue(new Error('Database error'));
+
+    const response = await request(app).get('/api/reports/pdf?sections=summary');
+
+    expect(response.status).toBe(500);
+    expect(response.body).toEqual({ error: 'Failed to generate report' });
+  });
+});
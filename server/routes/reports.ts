@@ -0,0 +1,116 @@
+import express, { Request, Response } from 'express';
+import { getBeforeAfterComparison, getCategoryStats, getSummaryReport } from '../utils/reportQueries.js';
+import { isReportSection, PdfReportData, PdfReportPeriod, REPORT_SECTIONS, sendPdfReport } from '../utils/pdfReport.js';
+
+const router = express.Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(new Date(value).getTime());
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+// First day of the month of a YYYY-MM-DD date (before/after compares monthly stats)
+const monthStart = (value: string) => new Date(`${value.slice(0, 7)}-01T00:00:00Z`);
+
+/**
+ * Default before/after periods for a report date range
+ * The after period covers the months of the range, the before period the same
+ * number of months immediately preceding it.
+ */
+function defaultBeforeAfterPeriods(dateFrom: string, dateTo: string): { before: PdfReportPeriod; after: PdfReportPeriod } {
+  const afterStart = monthStart(dateFrom);
+  const afterEnd = monthStart(dateTo);
+  const months = (afterEnd.getUTCFullYear() - afterStart.getUTCFullYear()) * 12
+    + afterEnd.getUTCMonth() - afterStart.getUTCMonth() + 1;
+
+  const beforeStart = new Date(afterStart);
+  beforeStart.setUTCMonth(beforeStart.getUTCMonth() - months);
+  const beforeEnd = new Date(afterStart);
+  beforeEnd.setUTCMonth(beforeEnd.getUTCMonth() - 1);
+
+  return {
+    before: { start: toDateString(beforeStart), end: toDateString(beforeEnd) },
+    after: { start: toDateString(afterStart), end: toDateString(afterEnd) },
+  };
+}
+
+// Generate a multi-section PDF report for a repository and date range
+router.get('/pdf', async (req: Request, res: Response) => {
+  try {
+    const repo = typeof req.query.repo === 'string' && req.query.repo ? req.query.repo : 'all';
+    const { dateFrom, dateTo, beforeStart, beforeEnd, afterStart, afterEnd } = req.query;
+
+    for (const [name, value] of Object.entries({ dateFrom, dateTo, beforeStart, beforeEnd, afterStart, afterEnd })) {
+      if (value !== undefined && value !== '' && !isDateString(value)) {
+        return res.status(400).json({ error: `Invalid ${name}. Expected YYYY-MM-DD` });
+      }
+    }
+    const from = isDateString(dateFrom) ? dateFrom : undefined;
+    const to = isDateString(dateTo) ? dateTo : undefined;
+    if (from && to && from > to) {
+      return res.status(400).json({ error: 'dateFrom must be before dateTo' });
+    }
+
+    const requestedSections = typeof req.query.sections === 'string' && req.query.sections
+      ? req.query.sections.split(',').map(section => section.trim())
+      : [...REPORT_SECTIONS];
+    const invalidSection = requestedSections.find(section => !isReportSection(section));
+    if (invalidSection !== undefined) {
+      return res.status(400).json({ error: `Unknown section "${invalidSection}". Use any of: ${REPORT_SECTIONS.join(', ')}` });
+    }
+    const sections = REPORT_SECTIONS.filter(section => requestedSections.includes(section));
+
+    // Explicit periods take precedence over the ones derived from the date range
+    let periods: { before: PdfReportPeriod; after: PdfReportPeriod } | null = null;
+    if (sections.includes('before-after')) {
+      if (isDateString(beforeStart) && isDateString(beforeEnd) && isDateString(afterStart) && isDateString(afterEnd)) {
+        periods = {
+          before: { start: beforeStart, end: beforeEnd },
+          after: { start: afterStart, end: afterEnd },
+        };
+      } else if (from && to) {
+        periods = defaultBeforeAfterPeriods(from, to);
+      } else {
+        return res.status(400).json({ error: 'The before/after section requires dateFrom and dateTo or explicit before/after periods' });
+      }
+    }
+
+    const filters = { repo, dateFrom: from, dateTo: to };
+    const needsSummary = sections.some(section => section === 'summary' || section === 'contributors');
+
+    const [summary, categories, comparison] = await Promise.all([
+      needsSummary ? getSummaryReport(filters) : undefined,
+      sections.includes('categories') ? getCategoryStats(filters) : undefined,
+      periods
+        ? getBeforeAfterComparison(repo, {
+          beforeStart: periods.before.start,
+          beforeEnd: periods.before.end,
+          afterStart: periods.after.start,
+          afterEnd: periods.after.end,
+        })
+        : undefined,
+    ]);
+
+    const report: PdfReportData = {
+      title: typeof req.query.title === 'string' && req.query.title.trim() ? req.query.title.trim() : 'Engineering Report',
+      repo,
+      dateFrom: from,
+      dateTo: to,
+      sections,
+      summary,
+      categories,
+      beforeAfter: comparison && periods
+        ? { ...comparison, before_period: periods.before, after_period: periods.after }
+        : undefined,
+    };
+
+    sendPdfReport(res, repo === 'all' ? 'report' : `report-${repo}`, report);
+  } catch (err) {
+    console.error('Error generating PDF report:', err);
+    res.status(500).json({ error: 'Failed to generate report' });
+  }
+});
+
+export default router;
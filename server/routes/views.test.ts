@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import viewsRouter from './views.js';
+import pool from '../db.js';
+
+// Mock the database pool
+vi.mock('../db.js', () => ({
+  default: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}));
+
+describe('Saved View Routes', () => {
+  let app: Express;
+  let currentUser: any;
+
+  const user = { id: 2, email: 'jane@example.com', name: 'Jane Smith', domain: 'example.com', role: 'user' as const };
+
+  const view = {
+    id: 7,
+    name: 'My squad - last quarter',
+    path: '/contributors',
+    query: 'team=Payments&dateFrom=2026-07-01',
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      req.user = currentUser;
+      next();
+    });
+    app.use('/api/views', viewsRouter);
+    vi.clearAllMocks();
+    currentUser = user;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('GET /api/views', () => {
+    it('should list the views of the current user', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ ...view, is_default: true }] } as any);
+
+      const response = await request(app).get('/api/views');
+
+      expect(response.status).toBe(200);
+      expect(response.body[0].is_default).toBe(true);
+      expect(vi.mocked(pool.query).mock.calls[0][1]).toEqual([2]);
+    });
+
+    it('should require a user', async () => {
+      currentUser = undefined;
+
+      const response = await request(app).get('/api/views');
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/views', () => {
+    it('should save a view', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [view] } as any);
+
+      const response = await request(app)
+        .post('/api/views')
+        .send({ name: view.name, path: view.path, query: `?${view.query}` });
+
+      expect(response.status).toBe(201);
+      expect(vi.mocked(pool.query).mock.calls[1][1]).toEqual([2, view.name, view.path, view.query]);
+    });
+
+    it('should return 409 when the name is taken', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ id: 3 }] } as any);
+
+      const response = await request(app).post('/api/views').send({ name: view.name, path: view.path });
+
+      expect(response.status).toBe(409);
+      expect(response.body.id).toBe(3);
+    });
+
+    it('should reject paths outside the dashboard', async () => {
+      const response = await request(app).post('/api/views').send({ name: 'External', path: '//example.com' });
+
+      expect(response.status).toBe(400);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/views/:id', () => {
+    it('should keep the fields that are not sent', async () => {
+      vi.mocked(pool.query)
+        .mockResolvedValueOnce({ rows: [view] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [{ ...view, name: 'Payments' }] } as any);
+
+      const response = await request(app).put('/api/views/7').send({ name: 'Payments' });
+
+      expect(response.status).toBe(200);
+      expect(vi.mocked(pool.query).mock.calls[2][1]).toEqual([7, 2, 'Payments', view.path, view.query]);
+    });
+
+    it('should return 404 for views of other users', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+      const response = await request(app).put('/api/views/7').send({ name: 'Payments' });
+
+      expect(response.status).toBe(404);
+      expect(vi.mocked(pool.query).mock.calls[0][1]).toEqual([7, 2]);
+    });
+
+    it('should return 404 for ids that are not integers', async () => {
+      const response = await request(app).put('/api/views/abc').send({ name: 'Payments' });
+
+      expect(response.status).toBe(404);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/views/:id', () => {
+    it('should delete a view of the current user', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [{ id: 7 }] } as any);
+
+      const response = await request(app).delete('/api/views/7');
+
+      expect(response.status).toBe(200);
+      expect(vi.mocked(pool.query).mock.calls[0][1]).toEqual([7, 2]);
+    });
+
+    it('should return 404 when the view does not exist', async () => {
+      vi.mocked(pool.query).mockResolvedValueOnce({ rows: [] } as any);
+
+      const response = await request(app).delete('/api/views/99');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 404 for ids that are not integers', async () => {
+      const response = await request(app).delete('/api/views/7.5');
+
+      expect(response.status).toBe(404);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+});
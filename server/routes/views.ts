@@ -0,0 +1,150 @@
+import express, { Request, Response } from 'express';
+import pool from '../db.js';
+import { parseIdParam } from '../utils/routeParams.js';
+import { parseSavedViewInput, SavedViewInput } from '../utils/savedViews.js';
+
+const router = express.Router();
+
+const VIEW_COLUMNS = 'id, name, path, query, created_at, updated_at';
+
+// Saved view of a user (undefined when it does not exist or belongs to another user)
+const fetchView = async (id: number, userId: number): Promise<SavedViewInput | undefined> => {
+  const result = await pool.query(
+    `SELECT ${VIEW_COLUMNS} FROM saved_views WHERE id = $1 AND user_id = $2`,
+    [id, userId]
+  );
+  return result.rows[0];
+};
+
+// Id of another view of the user with the same name
+const findDuplicate = async (userId: number, name: string, excludeId: number | null = null) => {
+  const result = await pool.query(
+    'SELECT id FROM saved_views WHERE user_id = $1 AND name = $2 AND ($3::int IS NULL OR id <> $3)',
+    [userId, name, excludeId]
+  );
+  return result.rows[0]?.id as number | undefined;
+};
+
+// Saved views of the current user, flagging the one used as landing page
+router.get('/', async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  try {
+    const result = await pool.query(
+      `SELECT v.id, v.name, v.path, v.query, v.created_at, v.updated_at,
+              (p.default_view_id IS NOT NULL) as is_default
+       FROM saved_views v
+       LEFT JOIN user_preferences p ON p.user_id = v.user_id AND p.default_view_id = v.id
+       WHERE v.user_id = $1
+       ORDER BY v.name, v.id`,
+      [req.user.id]
+    );
+    res.json(result.rows);
+  } catch (err) {
+    console.error('Error fetching saved views:', err);
+    res.status(500).json({ error: 'Failed to fetch saved views' });
+  }
+});
+
+// Save a view ({ name, path, query }) for the current user
+router.post('/', async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  const { view, error } = parseSavedViewInput(req.body || {});
+  if (!view) {
+    return res.status(400).json({ error });
+  }
+
+  try {
+    const duplicateId = await findDuplicate(req.user.id, view.name);
+    if (duplicateId !== undefined) {
+      return res.status(409).json({ error: 'You already have a view with this name', id: duplicateId });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO saved_views (user_id, name, path, query)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${VIEW_COLUMNS}`,
+      [req.user.id, view.name, view.path, view.query]
+    );
+    res.status(201).json(result.rows[0]);
+  } catch (err) {
+    console.error('Error creating saved view:', err);
+    res.status(500).json({ error: 'Failed to create saved view' });
+  }
+});
+
+// Rename or overwrite a saved view (fields not sent keep their value)
+router.put('/:id', async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Saved view not found' });
+  }
+
+  try {
+    const existing = await fetchView(id, req.user.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Saved view not found' });
+    }
+
+    const { view, error } = parseSavedViewInput(req.body || {}, existing);
+    if (!view) {
+      return res.status(400).json({ error });
+    }
+
+    const duplicateId = await findDuplicate(req.user.id, view.name, id);
+    if (duplicateId !== undefined) {
+      return res.status(409).json({ error: 'You already have a view with this name', id: duplicateId });
+    }
+
+    const result = await pool.query(
+      `UPDATE saved_views
+       SET name = $3, path = $4, query = $5, updated_at = NOW()
+       WHERE id = $1 AND user_id = $2
+       RETURNING ${VIEW_COLUMNS}`,
+      [id, req.user.id, view.name, view.path, view.query]
+    );
+    res.json(result.rows[0]);
+  } catch (err) {
+    console.error('Error updating saved view:', err);
+    res.status(500).json({ error: 'Failed to update saved view' });
+  }
+});
+
+// Delete a saved view (it stops being the landing page if it was)
+router.delete('/:id', async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  const id = parseIdParam(req.params.id);
+  if (id === null) {
+    return res.status(404).json({ error: 'Saved view not found' });
+  }
+
+  try {
+    const result = await pool.query(
+      'DELETE FROM saved_views WHERE id = $1 AND user_id = $2 RETURNING id',
+      [id, req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Saved view not found' });
+    }
+
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting saved view:', err);
+    res.status(500).json({ error: 'Failed to delete saved view' });
+  }
+});
+
+export default router;
@@ -6,6 +6,11 @@ import pool from '../db';
 
 const app = express();
 app.use(express.json());
+app.use((req, _res, next) => {
+  // Commit editing is restricted to authors and admins
+  req.user = { id: 1, email: 'test@example.com', name: 'Test User', domain: 'example.com', role: 'admin' };
+  next();
+});
 app.use('/api', apiRoutes);
 
 describe('Commit API Endpoints', () => {
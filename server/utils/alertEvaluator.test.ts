@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import pool from '../db.js';
+import { alertEvaluator } from './alertEvaluator.js';
+
+// Mock the database pool
+vi.mock('../db.js', () => ({
+  default: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}));
+
+describe('alertEvaluator.runDue', () => {
+  const fetchMock = vi.fn();
+
+  // Wednesday: weekly rules compare Oct 12-18 with Oct 5-11
+  const now = new Date('2026-10-21T09:00:00Z');
+
+  const rule = {
+    id: 5,
+    name: 'Effective commits drop',
+    repository_name: null,
+    metric: 'effective_commits',
+    period: 'weekly',
+    condition: 'drop_pct',
+    threshold: '30',
+    webhook_url: 'https://hooks.example.com/alerts',
+    enabled: true,
+  };
+
+  const mockDatabase = (options: { alreadyRaised?: boolean } = {}) => {
+    vi.mocked(pool.query).mockImplementation(async (sql: any) => {
+      const text = String(sql);
+      if (text.includes('FROM alert_rules')) {
+        return { rows: [rule] } as any;
+      }
+      if (text.includes('FROM v_daily_stats_by_repo')) {
+        return {
+          rows: [
+            { repository_name: 'api', current_value: '5.00', previous_value: '10.00' },
+            { repository_name: 'web', current_value: '9.00', previous_value: '10.00' },
+          ],
+        } as any;
+      }
+      if (text.includes('INSERT INTO alert_events')) {
+        return { rows: options.alreadyRaised ? [] : [{ id: 42 }] } as any;
+      }
+      return { rows: [], rowCount: 1 } as any;
+    });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fetchMock.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should post alerts for repositories that meet the condition', async () => {
+    mockDatabase();
+
+    const result = await alertEvaluator.runDue(now);
+
+    expect(result).toEqual({ evaluated: 1, triggered: 1, failed: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).alert).toMatchObject({ repository: 'api', change_pct: -50 });
+    expect(pool.query).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO alert_events'),
+      [5, 'api', '2026-10-12', 5, 10, expect.stringContaining('Effective commits for api')]
+    );
+    expect(pool.query).toHaveBeenCalledWith('UPDATE alert_events SET delivered = true WHERE id = $1', [42]);
+  });
+
+  it('should not post alerts already raised for the period', async () => {
+    mockDatabase({ alreadyRaised: true });
+
+    const result = await alertEvaluator.runDue(now);
+
+    expect(result).toEqual({ evaluated: 1, triggered: 0, failed: 0 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should record delivery errors on the event', async () => {
+    mockDatabase();
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Internal Server Error' });
+
+    const result = await alertEvaluator.runDue(now);
+
+    expect(result).toEqual({ evaluated: 1, triggered: 1, failed: 1 });
+    expect(pool.query).toHaveBeenCalledWith(
+      'UPDATE alert_events SET error = $2 WHERE id = $1',
+      [42, 'Webhook responded with 500 Internal Server Error']
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import pool from '../db.js';
+import env from '../config/env.js';
+import {
+  AlertRule,
+  buildMetricQuery,
+  buildWebhookPayload,
+  evaluateAlertRule,
+  getAlertWindows,
+  MetricValues,
+  postWebhook,
+} from './alerts.js';
+
+export interface AlertRunResult {
+  evaluated: number;
+  triggered: number;
+  failed: number;
+}
+
+const DEFAULT_CHECK_INTERVAL_MINUTES = 60;
+
+/**
+ * Alert Evaluator
+ *
+ * Periodically checks the enabled alert rules against the last complete
+ * week/month and posts triggered alerts to the rule's webhook. Every alert
+ * is recorded in alert_events first (unique per rule, repository and period),
+ * so it is posted once even with several server instances; delivery errors
+ * are kept on the event instead of being retried.
+ */
+class AlertEvaluator {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Start evaluating alert rules
+   * @param intervalMinutes - Minutes between checks (ALERT_CHECK_INTERVAL_MINUTES, default 60)
+   */
+  start(intervalMinutes = parseInt(env.ALERT_CHECK_INTERVAL_MINUTES || '', 10) || DEFAULT_CHECK_INTERVAL_MINUTES): void {
+    if (this.timer) {
+      return;
+    }
+
+    const check = () => {
+      this.runDue().catch(err => console.error('Error evaluating alert rules:', err));
+    };
+    this.timer = setInterval(check, intervalMinutes * 60 * 1000);
+    // Do not keep the process alive just for the evaluator
+    this.timer.unref();
+    check();
+  }
+
+  /**
+   * Stop evaluating alert rules
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Evaluate all enabled rules
+   * Overlapping runs are skipped.
+   * @param now - Reference date (determines the compared periods)
+   * @returns Number of rules evaluated, alerts triggered and failed deliveries
+   */
+  async runDue(now: Date = new Date()): Promise<AlertRunResult> {
+    const result: AlertRunResult = { evaluated: 0, triggered: 0, failed: 0 };
+    if (this.running) {
+      return result;
+    }
+
+    this.running = true;
+    try {
+      const rules = await pool.query<AlertRule>(
+        'SELECT * FROM alert_rules WHERE enabled ORDER BY id'
+      );
+
+      for (const rule of rules.rows) {
+        try {
+          const ruleResult = await this.evaluateRule(rule, now);
+          result.triggered += ruleResult.triggered;
+          result.failed += ruleResult.failed;
+          result.evaluated++;
+        } catch (err) {
+          console.error(`Error evaluating alert rule ${rule.id}:`, err);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    if (result.triggered > 0 || result.failed > 0) {
+      console.log(`🔔 Alerts: ${result.triggered} triggered, ${result.failed} failed`);
+    }
+    return result;
+  }
+
+  /**
+   * Evaluate one rule and post its new alerts
+   */
+  private async evaluateRule(rule: AlertRule, now: Date): Promise<Omit<AlertRunResult, 'evaluated'>> {
+    const result = { triggered: 0, failed: 0 };
+    const windows = getAlertWindows(rule.period, now);
+    const query = buildMetricQuery(rule, windows);
+    const metrics = await pool.query<MetricValues>(query.text, query.params);
+
+    for (const values of metrics.rows) {
+      const evaluation = evaluateAlertRule(rule, values);
+      if (!evaluation.triggered) {
+        continue;
+      }
+
+      const payload = buildWebhookPayload(rule, values.repository_name, evaluation, windows);
+      const event = await pool.query(
+        `INSERT INTO alert_events (rule_id, repository_name, period_start, current_value, previous_value, message)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (rule_id, repository_name, period_start) DO NOTHING
+         RETURNING id`,
+        [rule.id, values.repository_name, windows.current.start, evaluation.current, evaluation.previous, payload.text]
+      );
+      if (event.rows.length === 0) {
+        // Already raised for this period
+        continue;
+      }
+
+      result.triggered++;
+      try {
+        await postWebhook(rule.webhook_url, payload);
+        await pool.query('UPDATE alert_events SET delivered = true WHERE id = $1', [event.rows[0].id]);
+      } catch (err) {
+        console.error(`Error posting alert for rule ${rule.id}:`, err);
+        result.failed++;
+        const message = err instanceof Error ? err.message : String(err);
+        await pool.query('UPDATE alert_events SET error = $2 WHERE id = $1', [event.rows[0].id, message]);
+      }
+    }
+
+    await pool.query(
+      `UPDATE alert_rules
+       SET last_evaluated_at = NOW()${result.triggered > 0 ? ', last_triggered_at = NOW()' : ''}
+       WHERE id = $1`,
+      [rule.id]
+    );
+    return result;
+  }
+}
+
+export const alertEvaluator = new AlertEvaluator();
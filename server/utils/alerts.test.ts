@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { buildMetricQuery, buildWebhookPayload, evaluateAlertRule, getAlertWindows, parseAlertRule } from './alerts.js';
+
+const validRule = {
+  name: 'API slowdown',
+  repository_name: 'api',
+  metric: 'effective_commits',
+  period: 'weekly',
+  condition: 'drop_pct',
+  threshold: 30,
+  webhook_url: 'https://hooks.slack.com/services/T000/B000/XXXX',
+};
+
+describe('parseAlertRule', () => {
+  it('should accept a valid rule and default to enabled', () => {
+    const { rule, error } = parseAlertRule({ ...validRule, repository_name: ' api ' });
+
+    expect(error).toBeUndefined();
+    expect(rule).toEqual({ ...validRule, enabled: true });
+  });
+
+  it('should reject unknown metrics, invalid thresholds and non-http webhooks', () => {
+    expect(parseAlertRule({ ...validRule, metric: 'stars' }).error).toContain('metric must be one of');
+    expect(parseAlertRule({ ...validRule, threshold: 150 }).error).toBe('threshold must be between 0 and 100 for drop_pct');
+    expect(parseAlertRule({ ...validRule, threshold: 'abc' }).error).toBe('threshold must be a number');
+    expect(parseAlertRule({ ...validRule, webhook_url: 'ftp://example.com' }).error).toBe('webhook_url must be an http(s) URL');
+  });
+
+  it('should keep existing values for fields that are not sent', () => {
+    const existing = parseAlertRule(validRule).rule!;
+    const { rule } = parseAlertRule({ enabled: false, repository_name: null }, existing);
+
+    expect(rule).toEqual({ ...validRule, repository_name: null, enabled: false });
+  });
+});
+
+describe('getAlertWindows', () => {
+  it('should compare the last complete week with the week before', () => {
+    const windows = getAlertWindows('weekly', new Date('2026-10-21T09:00:00Z'));
+
+    expect(windows.current.start).toBe('2026-10-12');
+    expect(windows.current.end).toBe('2026-10-18');
+    expect(windows.previous.start).toBe('2026-10-05');
+    expect(windows.previous.end).toBe('2026-10-11');
+  });
+
+  it('should compare the last complete month with the month before', () => {
+    const windows = getAlertWindows('monthly', new Date('2026-10-21T09:00:00Z'));
+
+    expect(windows.current.start).toBe('2026-09-01');
+    expect(windows.previous.start).toBe('2026-08-01');
+    expect(windows.previous.end).toBe('2026-08-31');
+  });
+});
+
+describe('buildMetricQuery', () => {
+  const windows = getAlertWindows('weekly', new Date('2026-10-21T09:00:00Z'));
+
+  it('should read daily stats for weekly rules', () => {
+    const query = buildMetricQuery({ metric: 'effective_commits', period: 'weekly', repository_name: 'api' }, windows);
+
+    expect(query.text).toContain('FROM v_daily_stats_by_repo');
+    expect(query.text).toContain('repository_name = $4');
+    expect(query.params).toEqual(['2026-10-05', '2026-10-12', '2026-10-18', 'api']);
+  });
+
+  it('should read monthly stats and weight averages by commits', () => {
+    const query = buildMetricQuery({ metric: 'weight_efficiency_pct', period: 'monthly', repository_name: null }, windows);
+
+    expect(query.text).toContain('FROM mv_monthly_stats_by_repo');
+    expect(query.text).toContain('SUM(weight_efficiency_pct * total_commits)');
+    expect(query.params).toHaveLength(3);
+  });
+});
+
+describe('evaluateAlertRule', () => {
+  const values = (current: any, previous: any) => ({ repository_name: 'api', current_value: current, previous_value: previous });
+
+  it('should trigger drop_pct rules when the drop reaches the threshold', () => {
+    expect(evaluateAlertRule({ condition: 'drop_pct', threshold: 30 }, values('7.00', '10.00'))).toEqual({
+      triggered: true,
+      current: 7,
+      previous: 10,
+      changePct: -30,
+    });
+    expect(evaluateAlertRule({ condition: 'drop_pct', threshold: 30 }, values(8, 10)).triggered).toBe(false);
+    expect(evaluateAlertRule({ condition: 'drop_pct', threshold: 30 }, values(0, 0)).triggered).toBe(false);
+  });
+
+  it('should compare the current value for below and above rules', () => {
+    expect(evaluateAlertRule({ condition: 'below', threshold: '60' }, values('55.5', '70')).triggered).toBe(true);
+    expect(evaluateAlertRule({ condition: 'above', threshold: 60 }, values('55.5', '70')).triggered).toBe(false);
+  });
+
+  it('should not trigger without data for the current period', () => {
+    expect(evaluateAlertRule({ condition: 'below', threshold: 60 }, values(null, '70')).triggered).toBe(false);
+  });
+});
+
+describe('buildWebhookPayload', () => {
+  it('should include a readable text and the alert details', () => {
+    const windows = getAlertWindows('weekly', new Date('2026-10-21T09:00:00Z'));
+    const rule = { id: 1, ...parseAlertRule(validRule).rule! };
+    const evaluation = evaluateAlertRule(rule, { repository_name: 'api', current_value: '7', previous_value: '10' });
+
+    const payload = buildWebhookPayload(rule, 'api', evaluation, windows);
+
+    expect(payload.text).toBe(
+      '⚠️ API slowdown: Effective commits for api dropped by 30% or more - 7.0 in Oct 12 - Oct 18, 2026 (-30.0%), 10.0 in Oct 5 - Oct 11, 2026'
+    );
+    expect(payload.alert).toMatchObject({
+      repository: 'api',
+      metric: 'effective_commits',
+      period_start: '2026-10-12',
+      period_end: '2026-10-18',
+      current_value: 7,
+      previous_value: 10,
+      change_pct: -30,
+    });
+  });
+});
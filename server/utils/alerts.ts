@@ -0,0 +1,320 @@
+import { DigestPeriod, getDigestPeriod, isDigestFrequency } from './digest.js';
+import { formatNumber } from './export.js';
+
+/**
+ * Metric alert rules: validation, evaluation windows, conditions and webhook payloads
+ */
+
+export const ALERT_METRICS = [
+  'total_commits',
+  'effective_commits',
+  'total_lines_changed',
+  'avg_weight',
+  'weight_efficiency_pct',
+] as const;
+
+export type AlertMetric = typeof ALERT_METRICS[number];
+
+export const ALERT_CONDITIONS = ['drop_pct', 'below', 'above'] as const;
+
+export type AlertCondition = typeof ALERT_CONDITIONS[number];
+
+export type AlertPeriod = DigestPeriod['frequency'];
+
+export const ALERT_METRIC_LABELS: Record<AlertMetric, string> = {
+  total_commits: 'Commits',
+  effective_commits: 'Effective commits',
+  total_lines_changed: 'Lines changed',
+  avg_weight: 'Average weight',
+  weight_efficiency_pct: 'Weight efficiency (%)',
+};
+
+export interface AlertRule {
+  id: number;
+  name: string;
+  repository_name: string | null;
+  metric: AlertMetric;
+  period: AlertPeriod;
+  condition: AlertCondition;
+  threshold: number | string;
+  webhook_url: string;
+  enabled: boolean;
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id'>;
+
+export interface AlertWindows {
+  current: DigestPeriod;
+  previous: DigestPeriod;
+}
+
+export interface MetricValues {
+  repository_name: string;
+  current_value: number | string | null;
+  previous_value: number | string | null;
+}
+
+export interface AlertEvaluation {
+  triggered: boolean;
+  current: number | null;
+  previous: number | null;
+  /** Change from the previous period in percent (null without a previous value) */
+  changePct: number | null;
+}
+
+export interface WebhookPayload {
+  /** Message text (rendered by Slack and Microsoft Teams incoming webhooks) */
+  text: string;
+  alert: {
+    rule: string;
+    repository: string;
+    metric: AlertMetric;
+    period: AlertPeriod;
+    period_start: string;
+    period_end: string;
+    condition: AlertCondition;
+    threshold: number;
+    current_value: number | null;
+    previous_value: number | null;
+    change_pct: number | null;
+  };
+}
+
+/** Maximum time to wait for a webhook response */
+export const WEBHOOK_TIMEOUT_MS = 10000;
+
+export function isAlertMetric(value: unknown): value is AlertMetric {
+  return typeof value === 'string' && (ALERT_METRICS as readonly string[]).includes(value);
+}
+
+export function isAlertCondition(value: unknown): value is AlertCondition {
+  return typeof value === 'string' && (ALERT_CONDITIONS as readonly string[]).includes(value);
+}
+
+const isWebhookUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validate an alert rule from a request body
+ * @param body - Request body
+ * @param existing - Current rule when updating (missing fields keep their value)
+ * @returns The validated rule, or an error message
+ */
+export function parseAlertRule(
+  body: any,
+  existing?: AlertRuleInput
+): { rule: AlertRuleInput; error?: undefined } | { rule?: undefined; error: string } {
+  const input = { ...existing, ...body };
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    return { error: 'name is required' };
+  }
+  const repositoryName = typeof input.repository_name === 'string' ? input.repository_name.trim() : '';
+  if (input.repository_name !== undefined && input.repository_name !== null && typeof input.repository_name !== 'string') {
+    return { error: 'repository_name must be a string or null' };
+  }
+  if (!isAlertMetric(input.metric)) {
+    return { error: `metric must be one of: ${ALERT_METRICS.join(', ')}` };
+  }
+  if (!isDigestFrequency(input.period)) {
+    return { error: 'period must be weekly or monthly' };
+  }
+  if (!isAlertCondition(input.condition)) {
+    return { error: `condition must be one of: ${ALERT_CONDITIONS.join(', ')}` };
+  }
+  const threshold = Number(input.threshold);
+  if (input.threshold === null || input.threshold === '' || !Number.isFinite(threshold)) {
+    return { error: 'threshold must be a number' };
+  }
+  if (input.condition === 'drop_pct' && (threshold <= 0 || threshold > 100)) {
+    return { error: 'threshold must be between 0 and 100 for drop_pct' };
+  }
+  if (!isWebhookUrl(input.webhook_url)) {
+    return { error: 'webhook_url must be an http(s) URL' };
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    return { error: 'enabled must be a boolean' };
+  }
+
+  return {
+    rule: {
+      name,
+      repository_name: repositoryName || null,
+      metric: input.metric,
+      period: input.period,
+      condition: input.condition,
+      threshold,
+      webhook_url: input.webhook_url,
+      enabled: input.enabled ?? true,
+    },
+  };
+}
+
+/**
+ * Periods compared by a rule: the last complete period and the one before it
+ * @param period - Rule period
+ * @param now - Reference date
+ */
+export function getAlertWindows(period: AlertPeriod, now: Date = new Date()): AlertWindows {
+  const current = getDigestPeriod(period, now);
+  const previous = getDigestPeriod(period, new Date(`${current.start}T00:00:00Z`));
+  return { current, previous };
+}
+
+// Averages are weighted by the number of commits of each day/month
+const metricExpression = (metric: AlertMetric, filter: string) => {
+  if (metric === 'avg_weight' || metric === 'weight_efficiency_pct') {
+    return `SUM(${metric} * total_commits) FILTER (WHERE ${filter}) / NULLIF(SUM(total_commits) FILTER (WHERE ${filter}), 0)`;
+  }
+  return `COALESCE(SUM(${metric}) FILTER (WHERE ${filter}), 0)`;
+};
+
+/**
+ * Query returning the metric of a rule per repository for both windows
+ * Weekly rules read v_daily_stats_by_repo, monthly rules mv_monthly_stats_by_repo.
+ * @param rule - Alert rule
+ * @param windows - Current and previous periods
+ */
+export function buildMetricQuery(rule: Pick<AlertRule, 'metric' | 'period' | 'repository_name'>, windows: AlertWindows): { text: string; params: any[] } {
+  const [source, dateColumn] = rule.period === 'weekly'
+    ? ['v_daily_stats_by_repo', 'commit_date']
+    : ['mv_monthly_stats_by_repo', 'month_start_date'];
+  const params: any[] = [windows.previous.start, windows.current.start, windows.current.end];
+  let repoCondition = '';
+  if (rule.repository_name) {
+    params.push(rule.repository_name);
+    repoCondition = 'AND repository_name = $4';
+  }
+
+  const text = `
+    SELECT
+      repository_name,
+      ROUND((${metricExpression(rule.metric, `${dateColumn} >= $2`)})::numeric, 2) as current_value,
+      ROUND((${metricExpression(rule.metric, `${dateColumn} < $2`)})::numeric, 2) as previous_value
+    FROM ${source}
+    WHERE ${dateColumn} >= $1 AND ${dateColumn} <= $3 ${repoCondition}
+    GROUP BY repository_name
+    ORDER BY repository_name
+  `;
+  return { text, params };
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Check the condition of a rule against the metric values of one repository
+ * drop_pct triggers when the metric fell by at least `threshold` percent
+ * since the previous period; below/above compare the current value.
+ * Periods without data (null averages) never trigger.
+ */
+export function evaluateAlertRule(rule: Pick<AlertRule, 'condition' | 'threshold'>, values: MetricValues): AlertEvaluation {
+  const current = toNumber(values.current_value);
+  const previous = toNumber(values.previous_value);
+  const threshold = Number(rule.threshold);
+  const changePct = current !== null && previous !== null && previous !== 0
+    ? Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10
+    : null;
+
+  let triggered = false;
+  if (current !== null) {
+    switch (rule.condition) {
+      case 'drop_pct':
+        triggered = previous !== null && previous > 0 && changePct !== null && -changePct >= threshold;
+        break;
+      case 'below':
+        triggered = current < threshold;
+        break;
+      case 'above':
+        triggered = current > threshold;
+        break;
+    }
+  }
+
+  return { triggered, current, previous, changePct };
+}
+
+/**
+ * Human-readable description of a rule condition (e.g. "dropped by 30% or more")
+ */
+export function describeCondition(rule: Pick<AlertRule, 'condition' | 'threshold'>): string {
+  const threshold = String(Number(rule.threshold));
+  switch (rule.condition) {
+    case 'drop_pct':
+      return `dropped by ${threshold}% or more`;
+    case 'below':
+      return `is below ${threshold}`;
+    case 'above':
+      return `is above ${threshold}`;
+  }
+}
+
+/**
+ * Build the JSON body posted to the webhook of a triggered rule
+ * @param rule - Alert rule
+ * @param repositoryName - Repository the alert is about
+ * @param evaluation - Evaluated metric values
+ * @param windows - Compared periods
+ */
+export function buildWebhookPayload(
+  rule: AlertRule,
+  repositoryName: string,
+  evaluation: AlertEvaluation,
+  windows: AlertWindows
+): WebhookPayload {
+  const label = ALERT_METRIC_LABELS[rule.metric];
+  const current = formatNumber(evaluation.current, 1);
+  const previous = formatNumber(evaluation.previous, 1);
+  const change = evaluation.changePct === null ? '' : ` (${evaluation.changePct > 0 ? '+' : ''}${formatNumber(evaluation.changePct, 1)}%)`;
+
+  const text = `⚠️ ${rule.name}: ${label} for ${repositoryName} ${describeCondition(rule)} ` +
+    `- ${current} in ${windows.current.label}${change}, ${previous} in ${windows.previous.label}`;
+
+  return {
+    text,
+    alert: {
+      rule: rule.name,
+      repository: repositoryName,
+      metric: rule.metric,
+      period: rule.period,
+      period_start: windows.current.start,
+      period_end: windows.current.end,
+      condition: rule.condition,
+      threshold: Number(rule.threshold),
+      current_value: evaluation.current,
+      previous_value: evaluation.previous,
+      change_pct: evaluation.changePct,
+    },
+  };
+}
+
+/**
+ * Post a payload to an incoming-webhook URL
+ * @throws Error when the request fails or the endpoint does not answer with 2xx
+ */
+export async function postWebhook(url: string, payload: WebhookPayload): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+  }
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeAliasValue, normalizeEmails, authorEmailsCondition } from './authorIdentity.js';
+
+describe('authorIdentity', () => {
+  describe('normalizeAliasValue', () => {
+    it('should trim and lower-case the value', () => {
+      expect(normalizeAliasValue('  Jane.Smith@Example.COM ')).toBe('jane.smith@example.com');
+    });
+  });
+
+  describe('normalizeEmails', () => {
+    it('should normalize, drop empty values and de-duplicate', () => {
+      expect(normalizeEmails(['Jane@Example.com', 'jane@example.com ', '  ', 'dev@example.com']))
+        .toEqual(['jane@example.com', 'dev@example.com']);
+    });
+  });
+
+  describe('authorEmailsCondition', () => {
+    it('should match raw emails and identities aliased to them', () => {
+      const condition = authorEmailsCondition('c', '$2');
+
+      expect(condition).toContain('LOWER(TRIM(c.author_email)) = ANY($2::text[])');
+      expect(condition).toContain('c.author_identity_id IN');
+      expect(condition).toContain("alias_type = 'email' AND alias_value = ANY($2::text[])");
+    });
+  });
+});
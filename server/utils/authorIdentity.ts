@@ -0,0 +1,41 @@
+/**
+ * Author identity helpers
+ *
+ * Commits are resolved to canonical author identities through the
+ * author_aliases table (see v_commits_with_identity).
+ */
+
+/**
+ * Normalize an alias value the same way it is stored in author_aliases
+ * @param value - Raw email or name
+ * @returns Lower-case, trimmed value
+ */
+export function normalizeAliasValue(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Normalize and de-duplicate a list of author emails
+ * @param emails - Raw email addresses
+ * @returns Normalized, non-empty, unique emails
+ */
+export function normalizeEmails(emails: string[]): string[] {
+  return Array.from(new Set(emails.map(normalizeAliasValue).filter(email => email.length > 0)));
+}
+
+/**
+ * SQL predicate matching commits authored with any of the given emails,
+ * including every commit of the identities those emails are aliased to.
+ * @param alias - Alias of v_commits_with_identity in the query (e.g. 'c')
+ * @param paramRef - Placeholder of a text[] parameter with normalized emails (e.g. '$1')
+ * @returns SQL condition
+ */
+export function authorEmailsCondition(alias: string, paramRef: string): string {
+  return `(
+    LOWER(TRIM(${alias}.author_email)) = ANY(${paramRef}::text[])
+    OR ${alias}.author_identity_id IN (
+      SELECT identity_id FROM author_aliases
+      WHERE alias_type = 'email' AND alias_value = ANY(${paramRef}::text[])
+    )
+  )`;
+}
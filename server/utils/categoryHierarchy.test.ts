@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  categoryLevelCondition,
+  categoryLevelExpression,
+  getCategoryLevel,
+  isFlatCategoryLevel,
+  markSubcategories,
+  parseCategoryParent
+} from './categoryHierarchy.js';
+import { CategoryTaxonomy } from './categoryTaxonomy.js';
+
+const category = (id: number, name: string, parentId: number | null = null) =>
+  ({ id, name, color: '#3b82f6', parent_id: parentId, synonyms: [] });
+
+// BILLING → INVOICES → PDF, BILLING → PAYMENTS; INFRA
+const taxonomy: CategoryTaxonomy = {
+  categories: [
+    category(1, 'BILLING'),
+    category(2, 'INVOICES', 1),
+    category(3, 'PAYMENTS', 1),
+    category(4, 'PDF', 2),
+    category(5, 'INFRA'),
+  ],
+  rules: [],
+};
+
+describe('categoryHierarchy', () => {
+  describe('parseCategoryParent', () => {
+    it('should upper-case the parent and use the top level otherwise', () => {
+      expect(parseCategoryParent(' billing ')).toBe('BILLING');
+      expect(parseCategoryParent('all')).toBeNull();
+      expect(parseCategoryParent('')).toBeNull();
+      expect(parseCategoryParent(['BILLING'])).toBeNull();
+    });
+  });
+
+  describe('getCategoryLevel', () => {
+    it('should add up the sub-categories under their top-level category', () => {
+      const level = getCategoryLevel(taxonomy, null);
+
+      expect(level.levels).toEqual({ INVOICES: 'BILLING', PAYMENTS: 'BILLING', PDF: 'BILLING' });
+      expect([...level.parents].sort()).toEqual(['BILLING', 'INVOICES']);
+      expect(isFlatCategoryLevel(level)).toBe(false);
+    });
+
+    it('should report the children of a parent, with the commits of the parent itself', () => {
+      expect(getCategoryLevel(taxonomy, 'BILLING').levels).toEqual({
+        BILLING: 'BILLING',
+        INVOICES: 'INVOICES',
+        PAYMENTS: 'PAYMENTS',
+        PDF: 'INVOICES',
+      });
+      expect(getCategoryLevel(taxonomy, 'INVOICES').levels).toEqual({ INVOICES: 'INVOICES', PDF: 'PDF' });
+    });
+
+    it('should be flat without sub-categories', () => {
+      expect(isFlatCategoryLevel(getCategoryLevel({ categories: [category(5, 'INFRA')], rules: [] }, null))).toBe(true);
+    });
+  });
+
+  describe('categoryLevelExpression', () => {
+    it('should keep categories outside the taxonomy at the top level only', () => {
+      const top = getCategoryLevel(taxonomy, null);
+      const billing = getCategoryLevel(taxonomy, 'BILLING');
+
+      expect(categoryLevelExpression(top, 'c.category', '$1')).toBe(`COALESCE($1::jsonb ->> c.category, c.category, 'UNCATEGORIZED')`);
+      expect(categoryLevelCondition(top, 'c.category', '$1')).toBeNull();
+      expect(categoryLevelCondition(billing, 'c.category', '$2')).toBe('($2::jsonb ->> c.category) IS NOT NULL');
+    });
+  });
+
+  describe('markSubcategories', () => {
+    it('should flag the categories that can be drilled into, except the parent itself', () => {
+      const rows = [{ category: 'BILLING' }, { category: 'INVOICES' }, { category: 'PAYMENTS' }];
+
+      expect(markSubcategories(rows, getCategoryLevel(taxonomy, 'BILLING')).map(row => row.has_children)).toEqual([false, true, false]);
+      expect(markSubcategories(rows.slice(0, 1), getCategoryLevel(taxonomy, null))[0].has_children).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { CategoryTaxonomy, TaxonomyCategory, UNCATEGORIZED } from './categoryTaxonomy.js';
+
+/**
+ * Category hierarchy helpers
+ *
+ * Category statistics are reported one level of the taxonomy at a time: the top
+ * level adds up each category with its sub-categories, and drilling into a parent
+ * category reports its direct children (plus the commits of the parent itself).
+ * Commits keep the category name, so the queries map each commit category to its
+ * level category with a JSON object passed as a parameter.
+ */
+
+export interface CategoryLevel {
+  /** Category drilled into (null for the top level) */
+  parent: string | null;
+  /** Level category of the taxonomy categories that do not report under their own name */
+  levels: Record<string, string>;
+  /** Categories with sub-categories */
+  parents: Set<string>;
+}
+
+/**
+ * Category of a `parent` query parameter
+ * @returns The upper-cased name, or null for the top level (missing, empty or 'all')
+ */
+export function parseCategoryParent(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim() || value === 'all') {
+    return null;
+  }
+  return value.trim().toUpperCase();
+}
+
+/**
+ * Names of a category and its ancestors, from the top level down
+ */
+function categoryPaths(taxonomy: CategoryTaxonomy): Map<string, string[]> {
+  const byId = new Map(taxonomy.categories.map(category => [category.id, category]));
+  const paths = new Map<string, string[]>();
+
+  for (const category of taxonomy.categories) {
+    const path: string[] = [];
+    const visited = new Set<number>();
+    let current: TaxonomyCategory | undefined = category;
+    while (current && !visited.has(current.id)) {
+      visited.add(current.id);
+      path.unshift(current.name);
+      current = current.parent_id === null ? undefined : byId.get(current.parent_id);
+    }
+    paths.set(category.name, path);
+  }
+
+  return paths;
+}
+
+/**
+ * Level of the taxonomy to report
+ * @param taxonomy - Current taxonomy
+ * @param parent - Category drilled into (null for the top level)
+ */
+export function getCategoryLevel(taxonomy: CategoryTaxonomy, parent: string | null): CategoryLevel {
+  const paths = categoryPaths(taxonomy);
+  const parents = new Set([...paths.values()].flatMap(path => path.slice(0, -1)));
+  const levels: Record<string, string> = {};
+
+  if (parent === null) {
+    // Sub-categories count for their top-level category
+    for (const [name, path] of paths) {
+      if (path.length > 1) {
+        levels[name] = path[0];
+      }
+    }
+  } else {
+    // The subtree of the parent, each category under the child of the parent it descends from
+    levels[parent] = parent;
+    for (const [name, path] of paths) {
+      const depth = path.indexOf(parent);
+      if (depth >= 0 && depth < path.length - 1) {
+        levels[name] = path[depth + 1];
+      }
+    }
+  }
+
+  return { parent, levels, parents };
+}
+
+/**
+ * True when every category reports under its own name (top level of a taxonomy
+ * without sub-categories), so the per-category views can be read as they are
+ */
+export const isFlatCategoryLevel = (level: CategoryLevel): boolean =>
+  level.parent === null && Object.keys(level.levels).length === 0;
+
+/**
+ * SQL expression of the level category of a commit category
+ * @param level - Level to report
+ * @param column - Category column (e.g. 'c.category')
+ * @param paramRef - Placeholder of the level parameter (see categoryLevelParam)
+ */
+export function categoryLevelExpression(level: CategoryLevel, column: string, paramRef: string): string {
+  return level.parent === null
+    ? `COALESCE(${paramRef}::jsonb ->> ${column}, ${column}, '${UNCATEGORIZED}')`
+    : `(${paramRef}::jsonb ->> ${column})`;
+}
+
+/**
+ * SQL predicate keeping the commits of the level (the subtree of the parent), or null at the top level
+ */
+export function categoryLevelCondition(level: CategoryLevel, column: string, paramRef: string): string | null {
+  return level.parent === null ? null : `${categoryLevelExpression(level, column, paramRef)} IS NOT NULL`;
+}
+
+/**
+ * Value of the level parameter
+ */
+export const categoryLevelParam = (level: CategoryLevel): string => JSON.stringify(level.levels);
+
+/**
+ * Flag the categories that can be drilled into
+ * @param rows - Statistics by level category
+ * @param level - Reported level
+ */
+export function markSubcategories<T extends { category: string }>(rows: T[], level: CategoryLevel): (T & { has_children: boolean })[] {
+  return rows.map(row => ({
+    ...row,
+    has_children: row.category !== level.parent && level.parents.has(row.category),
+  }));
+}
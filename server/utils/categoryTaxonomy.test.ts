@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CategoryTaxonomy,
+  DEFAULT_CATEGORY_RESOLVER,
+  createCategoryResolver,
+  findCategoryConflict,
+  parseCategoryInput,
+  parseCategoryRuleInput
+} from './categoryTaxonomy.js';
+
+const taxonomy: CategoryTaxonomy = {
+  categories: [
+    { id: 1, name: 'BILLING', color: '#3b82f6', parent_id: null, synonyms: ['BILL', 'PAY'] },
+    { id: 2, name: 'INVOICES', color: '#10b981', parent_id: 1, synonyms: [] },
+    { id: 3, name: 'INFRA', color: '#f59e0b', parent_id: null, synonyms: ['OPS'] },
+  ],
+  rules: [
+    { id: 2, category_id: 1, pattern: 'invoice|refund', position: 1 },
+    { id: 1, category_id: 2, pattern: '^feat\\(invoices?\\)', position: 1 },
+    { id: 3, category_id: 3, pattern: '(', position: 0 },
+    { id: 4, category_id: 99, pattern: 'deploy', position: 0 },
+  ],
+};
+
+describe('categoryTaxonomy', () => {
+  describe('createCategoryResolver', () => {
+    const categories = createCategoryResolver(taxonomy);
+
+    it('should map names and synonyms to the canonical name', () => {
+      expect(categories.normalize('Billing')).toBe('BILLING');
+      expect(categories.normalize(' bill ')).toBe('BILLING');
+      expect(categories.normalize('ops')).toBe('INFRA');
+      expect(categories.normalize('mobile')).toBe('MOBILE');
+      expect(categories.normalize('')).toBeNull();
+      expect(categories.normalize(null)).toBeNull();
+    });
+
+    it('should apply the first matching rule by position, then the subject prefix', () => {
+      expect(categories.categorize('feat(invoice): PDF export')).toBe('INVOICES');
+      expect(categories.categorize('Fix refund rounding')).toBe('BILLING');
+      expect(categories.categorize('Pay | Retry webhooks')).toBe('BILLING');
+      expect(categories.categorize('deploy script')).toBeNull();
+    });
+
+    it('should only upper-case values without a taxonomy', () => {
+      expect(DEFAULT_CATEGORY_RESOLVER.normalize('Bill')).toBe('BILL');
+      expect(DEFAULT_CATEGORY_RESOLVER.categorize('billing | Add invoices')).toBe('BILLING');
+    });
+  });
+
+  describe('parseCategoryInput', () => {
+    it('should normalize the name, color and synonyms', () => {
+      expect(parseCategoryInput({ name: ' billing ', color: '#3B82F6', synonyms: ['bill', 'BILL', 'Billing'] })).toEqual({
+        category: { name: 'BILLING', color: '#3b82f6', parent_id: null, synonyms: ['BILL'] },
+      });
+    });
+
+    it('should keep the fields that are not given', () => {
+      const existing = { name: 'BILLING', color: '#3b82f6', parent_id: null, synonyms: ['BILL'] };
+
+      expect(parseCategoryInput({ parent_id: 3 }, existing)).toEqual({ category: { ...existing, parent_id: 3 } });
+    });
+
+    it('should reject invalid categories', () => {
+      expect(parseCategoryInput({ color: '#3b82f6' })).toEqual({ error: 'name is required' });
+      expect(parseCategoryInput({ name: 'uncategorized', color: '#3b82f6' })).toEqual({ error: '"UNCATEGORIZED" is reserved' });
+      expect(parseCategoryInput({ name: 'BILLING', color: 'blue' })).toEqual({ error: 'color must be a #rrggbb color' });
+      expect(parseCategoryInput({ name: 'BILLING', color: '#3b82f6', parent_id: '1' })).toHaveProperty('error');
+      expect(parseCategoryInput({ name: 'BILLING', color: '#3b82f6', synonyms: 'BILL' })).toHaveProperty('error');
+    });
+  });
+
+  describe('parseCategoryRuleInput', () => {
+    it('should default the position to 0', () => {
+      expect(parseCategoryRuleInput({ category_id: 1, pattern: 'invoice' })).toEqual({
+        rule: { category_id: 1, pattern: 'invoice', position: 0 },
+      });
+    });
+
+    it('should reject invalid rules', () => {
+      expect(parseCategoryRuleInput({ pattern: 'invoice' })).toEqual({ error: 'category_id is required' });
+      expect(parseCategoryRuleInput({ category_id: 1, pattern: '(' })).toEqual({ error: 'pattern must be a valid regular expression' });
+      expect(parseCategoryRuleInput({ category_id: 1, pattern: 'invoice', position: 1.5 })).toEqual({ error: 'position must be an integer' });
+    });
+  });
+
+  describe('findCategoryConflict', () => {
+    const category = (values: object) => ({ name: 'MOBILE', color: '#3b82f6', parent_id: null, synonyms: [], ...values });
+
+    it('should reject names and synonyms of other categories', () => {
+      expect(findCategoryConflict(taxonomy, category({ name: 'INFRA' }))).toBe('A category named INFRA already exists');
+      expect(findCategoryConflict(taxonomy, category({ synonyms: ['PAY'] }))).toBe('PAY is already a synonym of BILLING');
+      expect(findCategoryConflict(taxonomy, category({ name: 'BILLING', synonyms: ['BILL'] }), 1)).toBeNull();
+    });
+
+    it('should reject unknown parents and cycles', () => {
+      expect(findCategoryConflict(taxonomy, category({ parent_id: 42 }))).toBe('The parent category does not exist');
+      expect(findCategoryConflict(taxonomy, category({ name: 'BILLING', parent_id: 2 }), 1)).toBe('A category cannot be its own ancestor');
+      expect(findCategoryConflict(taxonomy, category({ name: 'INFRA', parent_id: 1 }), 3)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { PoolClient } from 'pg';
+import pool from '../db.js';
+import { extractCategory } from './gitLog.js';
+
+/**
+ * Category taxonomy: canonical categories (color, synonyms, parent) and the
+ * regular expressions that categorize commit subjects
+ *
+ * A commit subject is categorized by the first matching rule (lowest position),
+ * else by its prefix (see extractCategory). Category values are upper-cased and
+ * synonyms replaced with their canonical name; values outside the taxonomy are kept.
+ */
+
+export interface TaxonomyCategory {
+  id: number;
+  name: string;
+  color: string;
+  parent_id: number | null;
+  synonyms: string[];
+}
+
+export interface CategoryRule {
+  id: number;
+  category_id: number;
+  pattern: string;
+  position: number;
+}
+
+export interface CategoryTaxonomy {
+  categories: TaxonomyCategory[];
+  rules: CategoryRule[];
+}
+
+export type CategoryInput = Omit<TaxonomyCategory, 'id'>;
+
+export type CategoryRuleInput = Omit<CategoryRule, 'id'>;
+
+export interface CategoryResolver {
+  /** Canonical name of a category value; values outside the taxonomy are upper-cased */
+  normalize(value: string | null): string | null;
+  /** Category of a commit subject: the first matching rule, else the normalized prefix */
+  categorize(subject: string): string | null;
+}
+
+/** Name shown for commits without a category, so it cannot be a category */
+export const UNCATEGORIZED = 'UNCATEGORIZED';
+
+const MAX_NAME_LENGTH = 50;
+const MAX_PATTERN_LENGTH = 500;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const toName = (value: string): string => value.trim().toUpperCase();
+
+/**
+ * Compile a rule pattern (case-insensitive)
+ * @returns The regular expression, or null when the pattern is invalid
+ */
+export function compileRulePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the categorization functions of a taxonomy
+ * @param taxonomy - Categories and rules
+ */
+export function createCategoryResolver(taxonomy: CategoryTaxonomy): CategoryResolver {
+  const canonical = new Map<string, string>();
+  for (const category of taxonomy.categories) {
+    canonical.set(category.name, category.name);
+  }
+  for (const category of taxonomy.categories) {
+    for (const synonym of category.synonyms) {
+      if (!canonical.has(synonym)) {
+        canonical.set(synonym, category.name);
+      }
+    }
+  }
+
+  const names = new Map(taxonomy.categories.map(category => [category.id, category.name]));
+  const rules = [...taxonomy.rules]
+    .sort((a, b) => a.position - b.position || a.id - b.id)
+    .flatMap(rule => {
+      const name = names.get(rule.category_id);
+      const regex = compileRulePattern(rule.pattern);
+      return name && regex ? [{ regex, name }] : [];
+    });
+
+  const normalize = (value: string | null): string | null => {
+    if (!value || !value.trim()) return null;
+    const name = toName(value);
+    return canonical.get(name) ?? name;
+  };
+
+  return {
+    normalize,
+    categorize: (subject: string) =>
+      rules.find(rule => rule.regex.test(subject))?.name ?? normalize(extractCategory(subject)),
+  };
+}
+
+/** Resolver without taxonomy (upper-cased values, subject prefixes) */
+export const DEFAULT_CATEGORY_RESOLVER = createCategoryResolver({ categories: [], rules: [] });
+
+/**
+ * Load the taxonomy
+ * @param client - Client (or pool)
+ */
+export async function loadCategoryTaxonomy(client: Pick<PoolClient, 'query'> = pool): Promise<CategoryTaxonomy> {
+  const categories = await client.query(
+    'SELECT id, name, color, parent_id, synonyms FROM categories ORDER BY name'
+  );
+  const rules = await client.query(
+    'SELECT id, category_id, pattern, position FROM category_rules ORDER BY position, id'
+  );
+  return { categories: categories.rows, rules: rules.rows };
+}
+
+/**
+ * Load the taxonomy and build its resolver
+ * @param client - Client (or pool)
+ */
+export async function loadCategoryResolver(client: Pick<PoolClient, 'query'> = pool): Promise<CategoryResolver> {
+  return createCategoryResolver(await loadCategoryTaxonomy(client));
+}
+
+/**
+ * Validate a category from a request body
+ * @param body - Request body
+ * @param existing - Current category (updates only change the given fields)
+ * @returns The category to store, or an error message
+ */
+export function parseCategoryInput(
+  body: any,
+  existing?: CategoryInput
+): { category: CategoryInput; error?: undefined } | { category?: undefined; error: string } {
+  const input = { ...existing, ...body };
+
+  const name = typeof input.name === 'string' ? toName(input.name) : '';
+  if (!name) {
+    return { error: 'name is required' };
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+  if (name === UNCATEGORIZED) {
+    return { error: `"${UNCATEGORIZED}" is reserved` };
+  }
+  if (typeof input.color !== 'string' || !COLOR_PATTERN.test(input.color)) {
+    return { error: 'color must be a #rrggbb color' };
+  }
+  const parentId = input.parent_id ?? null;
+  if (parentId !== null && (!Number.isInteger(parentId) || parentId <= 0)) {
+    return { error: 'parent_id must be a category id or null' };
+  }
+
+  const synonyms = input.synonyms ?? [];
+  if (!Array.isArray(synonyms) || synonyms.some((synonym: unknown) => typeof synonym !== 'string' || !synonym.trim())) {
+    return { error: 'synonyms must be a list of names' };
+  }
+  if (synonyms.some((synonym: string) => synonym.trim().length > MAX_NAME_LENGTH)) {
+    return { error: `synonyms must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+
+  return {
+    category: {
+      name,
+      color: input.color.toLowerCase(),
+      parent_id: parentId,
+      synonyms: [...new Set<string>(synonyms.map(toName))].filter(synonym => synonym !== name),
+    },
+  };
+}
+
+/**
+ * Validate a categorization rule from a request body
+ * @param body - Request body
+ * @param existing - Current rule (updates only change the given fields)
+ * @returns The rule to store, or an error message
+ */
+export function parseCategoryRuleInput(
+  body: any,
+  existing?: CategoryRuleInput
+): { rule: CategoryRuleInput; error?: undefined } | { rule?: undefined; error: string } {
+  const input = { ...existing, ...body };
+
+  if (!Number.isInteger(input.category_id) || input.category_id <= 0) {
+    return { error: 'category_id is required' };
+  }
+  if (typeof input.pattern !== 'string' || !input.pattern.trim()) {
+    return { error: 'pattern is required' };
+  }
+  if (input.pattern.length > MAX_PATTERN_LENGTH) {
+    return { error: `pattern must be at most ${MAX_PATTERN_LENGTH} characters` };
+  }
+  if (!compileRulePattern(input.pattern)) {
+    return { error: 'pattern must be a valid regular expression' };
+  }
+  const position = input.position ?? 0;
+  if (!Number.isInteger(position)) {
+    return { error: 'position must be an integer' };
+  }
+
+  return { rule: { category_id: input.category_id, pattern: input.pattern, position } };
+}
+
+/**
+ * Check a category against the rest of the taxonomy
+ * @param taxonomy - Current taxonomy
+ * @param category - Validated category
+ * @param id - Id of the category when updating
+ * @returns An error message (name or synonym taken, unknown parent, parent cycle), or null
+ */
+export function findCategoryConflict(taxonomy: CategoryTaxonomy, category: CategoryInput, id?: number): string | null {
+  const others = taxonomy.categories.filter(other => other.id !== id);
+
+  const taken = new Map<string, string>();
+  for (const other of others) {
+    taken.set(other.name, other.name);
+    other.synonyms.forEach(synonym => taken.set(synonym, other.name));
+  }
+  for (const name of [category.name, ...category.synonyms]) {
+    const owner = taken.get(name);
+    if (owner) {
+      return owner === name ? `A category named ${name} already exists` : `${name} is already a synonym of ${owner}`;
+    }
+  }
+
+  if (category.parent_id !== null) {
+    const parents = new Map(taxonomy.categories.map(other => [other.id, other.parent_id]));
+    if (!parents.has(category.parent_id)) {
+      return 'The parent category does not exist';
+    }
+    // Walk up from the new parent: reaching the category itself would make a cycle
+    let ancestor: number | null | undefined = category.parent_id;
+    const visited = new Set<number>();
+    while (ancestor !== null && ancestor !== undefined && !visited.has(ancestor)) {
+      if (ancestor === id) {
+        return 'A category cannot be its own ancestor';
+      }
+      visited.add(ancestor);
+      ancestor = parents.get(ancestor);
+    }
+  }
+
+  return null;
+}
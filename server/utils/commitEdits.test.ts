@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { BULK_EDITABLE_COMMIT_FIELDS, diffCommitFields, hasCommitChanges, parseCommitWeight, pickEditableFields } from './commitEdits.js';
+
+describe('commitEdits', () => {
+  describe('diffCommitFields', () => {
+    it('should return only the fields that changed', () => {
+      const changes = diffCommitFields(
+        { subject: 'Fix bug', category: 'AUTH', weight: 100, ai_tools: null },
+        { subject: 'Fix bug', category: 'AUTH', weight: 20, ai_tools: 'COPILOT' }
+      );
+
+      expect(changes.oldValues).toEqual({ weight: 100, ai_tools: null });
+      expect(changes.newValues).toEqual({ weight: 20, ai_tools: 'COPILOT' });
+      expect(hasCommitChanges(changes)).toBe(true);
+    });
+
+    it('should treat numeric strings and numbers as equal', () => {
+      const changes = diffCommitFields({ weight: '100' }, { weight: 100 });
+
+      expect(hasCommitChanges(changes)).toBe(false);
+    });
+
+    it('should treat undefined and null as equal', () => {
+      const changes = diffCommitFields({ ai_tools: undefined }, { ai_tools: null });
+
+      expect(hasCommitChanges(changes)).toBe(false);
+    });
+  });
+
+  describe('pickEditableFields', () => {
+    it('should drop keys that are not editable commit fields', () => {
+      expect(pickEditableFields({ weight: 50, id: 1, hash: 'abc', category: null })).toEqual({
+        weight: 50,
+        category: null,
+      });
+    });
+
+    it('should only keep the given fields', () => {
+      expect(pickEditableFields({ subject: 'Renamed', weight: 50 }, BULK_EDITABLE_COMMIT_FIELDS)).toEqual({ weight: 50 });
+    });
+  });
+
+  describe('parseCommitWeight', () => {
+    it('should accept integers between 0 and 100', () => {
+      expect(parseCommitWeight('50')).toEqual({ weight: 50 });
+      expect(parseCommitWeight(0)).toEqual({ weight: 0 });
+      expect(parseCommitWeight(undefined)).toEqual({ weight: null });
+    });
+
+    it('should reject other weights', () => {
+      expect(parseCommitWeight(150)).toEqual({ error: 'Weight must be an integer between 0 and 100' });
+      expect(parseCommitWeight(12.5)).toHaveProperty('error');
+      expect(parseCommitWeight('heavy')).toHaveProperty('error');
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { PoolClient } from 'pg';
+
+/**
+ * Commit fields that can be edited from the dashboard
+ */
+export const EDITABLE_COMMIT_FIELDS = ['subject', 'category', 'weight', 'ai_tools'] as const;
+
+export type EditableCommitField = typeof EDITABLE_COMMIT_FIELDS[number];
+
+/**
+ * Commit fields that can be changed on many commits at once
+ * (the subject is specific to each commit, so it is excluded)
+ */
+export const BULK_EDITABLE_COMMIT_FIELDS = ['category', 'weight', 'ai_tools'] as const;
+
+export type CommitFieldValues = Partial<Record<EditableCommitField, string | number | null>>;
+
+export interface CommitFieldChanges {
+  oldValues: CommitFieldValues;
+  newValues: CommitFieldValues;
+}
+
+export interface CommitEditRecord {
+  commitId: number;
+  commitHash: string;
+  userId: number | null;
+  action: 'edit' | 'revert';
+  changes: CommitFieldChanges;
+  revertedEditId?: number | null;
+}
+
+const normalizeValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return String(value);
+};
+
+/**
+ * Compute the editable fields that differ between two versions of a commit
+ * @param before - Commit row before the update
+ * @param after - Commit row after the update
+ * @returns Old and new values for the changed fields only
+ */
+export function diffCommitFields(before: CommitFieldValues, after: CommitFieldValues): CommitFieldChanges {
+  const changes: CommitFieldChanges = { oldValues: {}, newValues: {} };
+
+  for (const field of EDITABLE_COMMIT_FIELDS) {
+    const oldValue = before[field] ?? null;
+    const newValue = after[field] ?? null;
+
+    if (normalizeValue(oldValue) !== normalizeValue(newValue)) {
+      changes.oldValues[field] = oldValue;
+      changes.newValues[field] = newValue;
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Check whether a diff contains at least one changed field
+ * @param changes - Result of diffCommitFields
+ * @returns True if something changed
+ */
+export function hasCommitChanges(changes: CommitFieldChanges): boolean {
+  return Object.keys(changes.newValues).length > 0;
+}
+
+/**
+ * Pick the editable fields from an arbitrary object (e.g. a stored JSONB value)
+ * Unknown keys are dropped so they can never reach an UPDATE statement.
+ * @param values - Object that may contain editable fields
+ * @param fields - Fields to keep (e.g. BULK_EDITABLE_COMMIT_FIELDS for a bulk edit)
+ * @returns Only the allowed fields present in the object
+ */
+export function pickEditableFields(
+  values: Record<string, unknown>,
+  fields: readonly EditableCommitField[] = EDITABLE_COMMIT_FIELDS
+): CommitFieldValues {
+  const picked: CommitFieldValues = {};
+
+  for (const field of fields) {
+    if (Object.prototype.hasOwnProperty.call(values, field)) {
+      picked[field] = values[field] as string | number | null;
+    }
+  }
+
+  return picked;
+}
+
+/**
+ * Validate a requested weight
+ * @param value - Weight from a request body (undefined or null leaves the weight unchanged)
+ * @returns The weight as a number, or an error message
+ */
+export function parseCommitWeight(value: unknown): { weight: number | null } | { error: string } {
+  if (value === undefined || value === null) {
+    return { weight: null };
+  }
+
+  const weight = Number(value);
+  if (!Number.isInteger(weight) || weight < 0 || weight > 100) {
+    return { error: 'Weight must be an integer between 0 and 100' };
+  }
+
+  return { weight };
+}
+
+/**
+ * Insert an audit trail entry for a commit edit
+ * Must run inside the same transaction as the UPDATE it describes.
+ * @param client - Pool client holding the open transaction
+ * @param edit - Edit details
+ */
+export async function recordCommitEdit(client: PoolClient, edit: CommitEditRecord): Promise<void> {
+  await client.query(
+    `INSERT INTO commit_edits (commit_id, commit_hash, user_id, action, old_values, new_values, reverted_edit_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      edit.commitId,
+      edit.commitHash,
+      edit.userId,
+      edit.action,
+      JSON.stringify(edit.changes.oldValues),
+      JSON.stringify(edit.changes.newValues),
+      edit.revertedEditId ?? null
+    ]
+  );
+}
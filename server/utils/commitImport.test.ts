@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { createCategoryResolver } from './categoryTaxonomy.js';
+import { parseImportFile, validateImportedCommit, validateImportedCommits } from './commitImport.js';
+
+describe('commitImport', () => {
+  const commit = (overrides: Record<string, unknown> = {}) => ({
+    hash: 'A1B2C3D4',
+    commit_date: '2026-10-12T10:00:00+02:00',
+    author_name: ' Jane Smith ',
+    author_email: 'jane@example.com',
+    subject: '[cs] Fix login',
+    lines_added: 5,
+    lines_deleted: 2,
+    ...overrides,
+  });
+
+  describe('parseImportFile', () => {
+    it('should accept an object with a repository and commits', () => {
+      expect(parseImportFile({ repository: { name: ' payments ' }, commits: [] })).toEqual({
+        file: { repository: 'payments', commits: [] },
+      });
+      expect(parseImportFile({ repository: 'payments', commits: [1] })).toEqual({
+        file: { repository: 'payments', commits: [1] },
+      });
+    });
+
+    it('should accept a bare array of commits', () => {
+      expect(parseImportFile([1, 2])).toEqual({ file: { repository: null, commits: [1, 2] } });
+    });
+
+    it('should reject other structures', () => {
+      expect(parseImportFile('commits')).toHaveProperty('error');
+      expect(parseImportFile({ commits: {} })).toEqual({ error: '"commits" must be an array' });
+      expect(parseImportFile({ repository: 42, commits: [] })).toHaveProperty('error');
+    });
+  });
+
+  describe('validateImportedCommit', () => {
+    it('should normalize a valid commit', () => {
+      expect(validateImportedCommit(commit())).toEqual({
+        commit: {
+          hash: 'a1b2c3d4',
+          commitDate: '2026-10-12T10:00:00+02:00',
+          authorName: 'Jane Smith',
+          authorEmail: 'jane@example.com',
+          subject: '[cs] Fix login',
+          description: null,
+          category: 'CS',
+          linesAdded: 5,
+          linesDeleted: 2,
+          weight: 100,
+          aiTools: null,
+        },
+      });
+    });
+
+    it('should keep explicit category, weight and AI tools and accept "date"', () => {
+      const result = validateImportedCommit(commit({
+        commit_date: undefined,
+        date: '2026-10-12',
+        category: 'billing',
+        weight: 40,
+        ai_tools: 'Copilot',
+      }));
+
+      expect(result).toMatchObject({
+        commit: { commitDate: '2026-10-12', category: 'BILLING', weight: 40, aiTools: 'Copilot' },
+      });
+    });
+
+    it('should categorize with the taxonomy', () => {
+      const categories = createCategoryResolver({
+        categories: [{ id: 1, name: 'SUPPORT', color: '#8b5cf6', parent_id: null, synonyms: ['CS', 'BILL'] }],
+        rules: [{ id: 1, category_id: 1, pattern: 'login', position: 0 }],
+      });
+
+      expect(validateImportedCommit(commit({ subject: 'Fix login' }), categories)).toMatchObject({ commit: { category: 'SUPPORT' } });
+      expect(validateImportedCommit(commit({ category: 'bill' }), categories)).toMatchObject({ commit: { category: 'SUPPORT' } });
+    });
+
+    it('should reject invalid fields', () => {
+      expect(validateImportedCommit(commit({ hash: 'not-a-hash' }))).toEqual({ error: 'hash must be a hexadecimal commit hash' });
+      expect(validateImportedCommit(commit({ commit_date: 'yesterday' }))).toEqual({ error: 'commit_date must be an ISO 8601 date' });
+      expect(validateImportedCommit(commit({ author_email: '' }))).toEqual({ error: 'author_email is required' });
+      expect(validateImportedCommit(commit({ lines_added: -1 }))).toHaveProperty('error');
+      expect(validateImportedCommit(commit({ weight: 150 }))).toHaveProperty('error');
+      expect(validateImportedCommit(commit({ description: 3 }))).toHaveProperty('error');
+      expect(validateImportedCommit(null)).toEqual({ error: 'Commit must be an object' });
+    });
+  });
+
+  describe('validateImportedCommits', () => {
+    it('should skip invalid commits and repeated hashes', () => {
+      const result = validateImportedCommits([commit(), commit({ hash: 'xyz' }), commit({ hash: 'a1b2c3d4' })]);
+
+      expect(result.commits).toHaveLength(1);
+      expect(result.issues).toEqual([
+        { index: 1, hash: 'xyz', error: 'hash must be a hexadecimal commit hash' },
+        { index: 2, hash: 'a1b2c3d4', error: 'Duplicate hash in file' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Validation of commit export files (one JSON file per repository)
+ *
+ * Accepted shapes:
+ * - `{ "repository": "name" | { "name": ... }, "commits": [ ... ] }`
+ * - `[ ... ]` (commits only; the repository is chosen on upload)
+ *
+ * Commit fields use the column names of the `commits` table:
+ * hash, commit_date (or date), author_name, author_email, subject,
+ * description, category, lines_added, lines_deleted, weight, ai_tools
+ */
+import { CategoryResolver, DEFAULT_CATEGORY_RESOLVER } from './categoryTaxonomy.js';
+import { CommitRecord } from './commitStore.js';
+
+export interface ImportFile {
+  /** Repository named in the file, if any */
+  repository: string | null;
+  commits: unknown[];
+}
+
+export interface ImportIssue {
+  /** Position of the commit in the file */
+  index: number;
+  hash: string | null;
+  error: string;
+}
+
+export interface ValidatedImport {
+  commits: CommitRecord[];
+  /** Commits that were skipped (invalid or duplicated) */
+  issues: ImportIssue[];
+}
+
+/** Issues returned in the import response (the rest is only counted) */
+export const MAX_REPORTED_ISSUES = 50;
+
+const HASH_PATTERN = /^[0-9a-f]{7,64}$/i;
+const MAX_CATEGORY_LENGTH = 50;
+const DEFAULT_WEIGHT = 100;
+
+/**
+ * Check the top-level structure of an export file
+ * @param data - Parsed JSON
+ * @returns The repository name and raw commits, or an error message
+ */
+export function parseImportFile(data: unknown): { file: ImportFile } | { error: string } {
+  if (Array.isArray(data)) {
+    return { file: { repository: null, commits: data } };
+  }
+  if (!data || typeof data !== 'object') {
+    return { error: 'The file must contain a JSON object or an array of commits' };
+  }
+
+  const { repository, commits } = data as Record<string, unknown>;
+  if (!Array.isArray(commits)) {
+    return { error: '"commits" must be an array' };
+  }
+
+  let name: unknown = repository;
+  if (repository && typeof repository === 'object') {
+    name = (repository as Record<string, unknown>).name;
+  }
+  if (name !== undefined && name !== null && (typeof name !== 'string' || !name.trim())) {
+    return { error: '"repository" must be a name or an object with a name' };
+  }
+
+  return { file: { repository: typeof name === 'string' ? name.trim() : null, commits } };
+}
+
+function optionalString(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') return undefined;
+  return value.trim() || null;
+}
+
+function lineCount(value: unknown): number | undefined {
+  if (value === undefined || value === null) return 0;
+  return Number.isInteger(value) && (value as number) >= 0 ? value as number : undefined;
+}
+
+/**
+ * Validate one commit of an export file
+ * @param raw - Commit of the file
+ * @param categories - Taxonomy applied to the category (extracted from the subject when missing)
+ * @returns The commit to upsert, or an error message
+ */
+export function validateImportedCommit(
+  raw: unknown,
+  categories: CategoryResolver = DEFAULT_CATEGORY_RESOLVER
+): { commit: CommitRecord } | { error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Commit must be an object' };
+  }
+  const entry = raw as Record<string, unknown>;
+
+  if (typeof entry.hash !== 'string' || !HASH_PATTERN.test(entry.hash)) {
+    return { error: 'hash must be a hexadecimal commit hash' };
+  }
+
+  const date = entry.commit_date ?? entry.date;
+  if (typeof date !== 'string' || Number.isNaN(Date.parse(date))) {
+    return { error: 'commit_date must be an ISO 8601 date' };
+  }
+
+  for (const field of ['author_name', 'author_email', 'subject'] as const) {
+    if (typeof entry[field] !== 'string' || !(entry[field] as string).trim()) {
+      return { error: `${field} is required` };
+    }
+  }
+
+  const description = optionalString(entry.description);
+  const category = optionalString(entry.category);
+  const aiTools = optionalString(entry.ai_tools);
+  if (description === undefined || category === undefined || aiTools === undefined) {
+    return { error: 'description, category and ai_tools must be strings' };
+  }
+  if (category && category.length > MAX_CATEGORY_LENGTH) {
+    return { error: `category must be at most ${MAX_CATEGORY_LENGTH} characters` };
+  }
+
+  const linesAdded = lineCount(entry.lines_added);
+  const linesDeleted = lineCount(entry.lines_deleted);
+  if (linesAdded === undefined || linesDeleted === undefined) {
+    return { error: 'lines_added and lines_deleted must be non-negative integers' };
+  }
+
+  const weight = entry.weight ?? DEFAULT_WEIGHT;
+  if (!Number.isInteger(weight) || (weight as number) < 0 || (weight as number) > 100) {
+    return { error: 'weight must be an integer between 0 and 100' };
+  }
+
+  const subject = (entry.subject as string).trim();
+
+  return {
+    commit: {
+      hash: (entry.hash as string).toLowerCase(),
+      commitDate: date,
+      authorName: (entry.author_name as string).trim(),
+      authorEmail: (entry.author_email as string).trim(),
+      subject,
+      description,
+      category: category ? categories.normalize(category) : categories.categorize(subject),
+      linesAdded,
+      linesDeleted,
+      weight: weight as number,
+      aiTools,
+    },
+  };
+}
+
+/**
+ * Validate the commits of an export file
+ * Invalid commits and repeated hashes are skipped and reported as issues.
+ */
+export function validateImportedCommits(
+  rawCommits: unknown[],
+  categories: CategoryResolver = DEFAULT_CATEGORY_RESOLVER
+): ValidatedImport {
+  const commits: CommitRecord[] = [];
+  const issues: ImportIssue[] = [];
+  const seen = new Set<string>();
+
+  rawCommits.forEach((raw, index) => {
+    const hash = raw && typeof (raw as any).hash === 'string' ? (raw as any).hash as string : null;
+    const validated = validateImportedCommit(raw, categories);
+
+    if ('error' in validated) {
+      issues.push({ index, hash, error: validated.error });
+    } else if (seen.has(validated.commit.hash)) {
+      issues.push({ index, hash, error: 'Duplicate hash in file' });
+    } else {
+      seen.add(validated.commit.hash);
+      commits.push(validated.commit);
+    }
+  });
+
+  return { commits, issues };
+}
@@ -0,0 +1,118 @@
+import { PoolClient } from 'pg';
+
+/**
+ * Commit row written by the git ingestion and the JSON import
+ */
+export interface CommitRecord {
+  hash: string;
+  commitDate: string;
+  authorName: string;
+  authorEmail: string;
+  subject: string;
+  description: string | null;
+  category: string | null;
+  linesAdded: number;
+  linesDeleted: number;
+  weight: number;
+  aiTools?: string | null;
+  /** Issue keys referenced by the subject or description (see extractTicketKeys) */
+  ticketKeys?: string[] | null;
+}
+
+export interface UpsertCounts {
+  inserted: number;
+  updated: number;
+  /** Existing commits whose git metadata did not change */
+  unchanged: number;
+}
+
+/** Commits upserted per INSERT statement */
+const BATCH_SIZE = 500;
+
+/** Parameters per commit row */
+const COLUMN_COUNT = 13;
+
+/**
+ * Find or create a repository by name
+ * @returns Repository id
+ */
+export async function upsertRepository(client: PoolClient, name: string): Promise<number> {
+  const result = await client.query(
+    `INSERT INTO repositories (name)
+     VALUES ($1)
+     ON CONFLICT (name) DO UPDATE SET name = EXCLUDED.name
+     RETURNING id`,
+    [name]
+  );
+  return result.rows[0].id;
+}
+
+/**
+ * Insert commits or update the git metadata of existing ones (matched by repository and hash)
+ * Fields that can be edited in the dashboard (subject, category, weight, AI tools)
+ * are only written for new commits, so re-imports keep the edits. The issue keys of
+ * existing commits are only written when they were never extracted.
+ * @param client - Client inside a transaction
+ * @param repositoryId - Repository of the commits
+ * @param commits - Commits to write (hashes must be unique)
+ */
+export async function upsertCommits(client: PoolClient, repositoryId: number, commits: CommitRecord[]): Promise<UpsertCounts> {
+  const counts: UpsertCounts = { inserted: 0, updated: 0, unchanged: 0 };
+
+  for (let start = 0; start < commits.length; start += BATCH_SIZE) {
+    const batch = commits.slice(start, start + BATCH_SIZE);
+    const params: any[] = [];
+    const values = batch.map(commit => {
+      params.push(
+        repositoryId,
+        commit.hash,
+        commit.commitDate,
+        commit.authorName,
+        commit.authorEmail,
+        commit.subject,
+        commit.description,
+        commit.category,
+        commit.linesAdded,
+        commit.linesDeleted,
+        commit.weight,
+        commit.aiTools ?? null,
+        commit.ticketKeys ?? null
+      );
+      const offset = params.length - COLUMN_COUNT;
+      return `(${Array.from({ length: COLUMN_COUNT }, (_, i) => `$${offset + i + 1}`).join(', ')})`;
+    });
+
+    // Unchanged commits are not updated (and not returned)
+    const upserted = await client.query(
+      `INSERT INTO commits (
+         repository_id, hash, commit_date, author_name, author_email,
+         subject, description, category, lines_added, lines_deleted, weight, ai_tools, ticket_keys
+       )
+       VALUES ${values.join(', ')}
+       ON CONFLICT (repository_id, hash) DO UPDATE SET
+         commit_date = EXCLUDED.commit_date,
+         author_name = EXCLUDED.author_name,
+         author_email = EXCLUDED.author_email,
+         description = EXCLUDED.description,
+         lines_added = EXCLUDED.lines_added,
+         lines_deleted = EXCLUDED.lines_deleted,
+         ticket_keys = COALESCE(commits.ticket_keys, EXCLUDED.ticket_keys)
+       WHERE (commits.commit_date, commits.author_name, commits.author_email, commits.description, commits.lines_added, commits.lines_deleted)
+         IS DISTINCT FROM
+         (EXCLUDED.commit_date, EXCLUDED.author_name, EXCLUDED.author_email, EXCLUDED.description, EXCLUDED.lines_added, EXCLUDED.lines_deleted)
+       RETURNING (xmax = 0) as inserted`,
+      params
+    );
+
+    for (const row of upserted.rows) {
+      if (row.inserted) {
+        counts.inserted++;
+      } else {
+        counts.updated++;
+      }
+    }
+    counts.unchanged += batch.length - upserted.rows.length;
+  }
+
+  return counts;
+}
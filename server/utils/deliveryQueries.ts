@@ -0,0 +1,195 @@
+import pool from '../db.js';
+import { ReportFilters } from './reportQueries.js';
+import { parseRepoFilter, repositoryNameFilter } from './repositories.js';
+import { hasTeam, teamCondition } from './teams.js';
+
+/**
+ * Delivery metrics of merged pull requests
+ *
+ * - Cycle time: from the first commit of the pull request (or its opening, when earlier
+ *   or when no commit is linked) to the merge
+ * - Time to first review: from the opening to the first review by someone other than the author
+ * - Review rounds: 1 for a reviewed pull request, plus 1 per "changes requested" review
+ *
+ * Pull requests are filtered by merge date. With a team, only pull requests containing
+ * commits of team members are kept.
+ */
+
+export type DeliveryGrouping = 'repository' | 'author' | 'month';
+
+export interface DeliveryPullRequestFilters extends ReportFilters {
+  /** Maximum number of pull requests (slowest first) */
+  limit?: number;
+}
+
+// Aggregated metrics of the pull requests of the merged_pull_requests CTE
+const DELIVERY_METRICS = `
+  COUNT(*)::int as merged_pull_requests,
+  ROUND(AVG(cycle_time_hours)::numeric, 1) as avg_cycle_time_hours,
+  ROUND((PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY cycle_time_hours))::numeric, 1) as median_cycle_time_hours,
+  ROUND(AVG(time_to_first_review_hours)::numeric, 1) as avg_time_to_first_review_hours,
+  ROUND((PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY time_to_first_review_hours))::numeric, 1) as median_time_to_first_review_hours,
+  ROUND(AVG(review_rounds)::numeric, 2) as avg_review_rounds,
+  COUNT(*) FILTER (WHERE review_count = 0)::int as unreviewed_pull_requests,
+  COALESCE(SUM(linked_commits), 0)::int as linked_commits
+`;
+
+const GROUPINGS: Record<DeliveryGrouping, { select: string; orderBy: string }> = {
+  repository: {
+    select: 'repository_name',
+    orderBy: 'merged_pull_requests DESC, repository_name',
+  },
+  author: {
+    select: 'author',
+    orderBy: 'merged_pull_requests DESC, author',
+  },
+  month: {
+    select: `TO_CHAR(DATE_TRUNC('month', merged_at), 'YYYY-MM') as year_month`,
+    orderBy: 'year_month',
+  },
+};
+
+/**
+ * Merged pull requests of the filters with their per-pull-request metrics
+ * @returns CTE (merged_pull_requests) and its parameters
+ */
+function mergedPullRequests(filters: ReportFilters): { cte: string; params: any[] } {
+  const { team, dateFrom, dateTo } = filters;
+  const repos = parseRepoFilter(filters.repo);
+
+  const conditions: string[] = [`p.state = 'merged'`, 'p.merged_at IS NOT NULL'];
+  const params: any[] = [];
+  let paramIndex = 1;
+
+  if (repos.length > 0) {
+    const repoFilter = repositoryNameFilter('r.name', `$${paramIndex}`, repos);
+    conditions.push(repoFilter.condition);
+    params.push(repoFilter.value);
+    paramIndex++;
+  } else {
+    // Archived repositories are left out of the totals across repositories
+    conditions.push('NOT r.archived');
+  }
+
+  if (hasTeam(team)) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM pull_request_commits tpc
+      JOIN v_commits_with_identity c ON c.repository_id = p.repository_id AND c.hash = tpc.commit_hash
+      WHERE tpc.pull_request_id = p.id AND ${teamCondition('c', `$${paramIndex}`)}
+    )`);
+    params.push(team);
+    paramIndex++;
+  }
+
+  if (dateFrom) {
+    conditions.push(`p.merged_at >= $${paramIndex}`);
+    params.push(dateFrom);
+    paramIndex++;
+  }
+
+  if (dateTo) {
+    conditions.push(`p.merged_at <= $${paramIndex}`);
+    params.push(dateTo);
+    paramIndex++;
+  }
+
+  const cte = `
+    WITH merged_pull_requests AS (
+      SELECT
+        p.id,
+        p.number,
+        p.title,
+        r.name as repository_name,
+        COALESCE(p.author_name, p.author_login, 'Unknown') as author,
+        p.opened_at,
+        p.merged_at,
+        lc.first_commit_date,
+        lc.linked_commits,
+        rv.first_review_at,
+        rv.review_count,
+        (EXTRACT(EPOCH FROM (p.merged_at - LEAST(p.opened_at, COALESCE(lc.first_commit_date, p.opened_at)))) / 3600.0)::float8
+          as cycle_time_hours,
+        (EXTRACT(EPOCH FROM (rv.first_review_at - p.opened_at)) / 3600.0)::float8 as time_to_first_review_hours,
+        CASE WHEN rv.review_count > 0 THEN rv.changes_requested + 1 ELSE 0 END as review_rounds
+      FROM pull_requests p
+      JOIN repositories r ON r.id = p.repository_id
+      LEFT JOIN LATERAL (
+        SELECT MIN(c.commit_date) as first_commit_date, COUNT(c.id)::int as linked_commits
+        FROM pull_request_commits pc
+        JOIN commits c ON c.repository_id = p.repository_id AND c.hash = pc.commit_hash
+        WHERE pc.pull_request_id = p.id
+      ) lc ON true
+      LEFT JOIN LATERAL (
+        -- Reviews of the author (e.g. replies to comments) are not reviews
+        SELECT
+          MIN(prr.submitted_at) as first_review_at,
+          COUNT(*)::int as review_count,
+          COUNT(*) FILTER (WHERE prr.state = 'changes_requested')::int as changes_requested
+        FROM pull_request_reviews prr
+        WHERE prr.pull_request_id = p.id
+          AND (p.author_login IS NULL OR prr.reviewer_login IS DISTINCT FROM p.author_login)
+      ) rv ON true
+      WHERE ${conditions.join(' AND ')}
+    )
+  `;
+
+  return { cte, params };
+}
+
+/**
+ * Delivery metrics across the merged pull requests of the filters
+ * @param filters - Repositories ('all' or missing for every active repository), team and merge date range
+ */
+export async function getDeliverySummary(filters: ReportFilters): Promise<any> {
+  const { cte, params } = mergedPullRequests(filters);
+  const result = await pool.query(`${cte}
+    SELECT ${DELIVERY_METRICS}
+    FROM merged_pull_requests
+  `, params);
+  return result.rows[0];
+}
+
+/**
+ * Delivery metrics per repository, pull request author or month of merge
+ * @param filters - Repositories, team and merge date range
+ * @param grouping - Breakdown of the rows
+ */
+export async function getDeliveryBreakdown(filters: ReportFilters, grouping: DeliveryGrouping): Promise<any[]> {
+  const { cte, params } = mergedPullRequests(filters);
+  const { select, orderBy } = GROUPINGS[grouping];
+  const result = await pool.query(`${cte}
+    SELECT ${select}, ${DELIVERY_METRICS}
+    FROM merged_pull_requests
+    GROUP BY 1
+    ORDER BY ${orderBy}
+  `, params);
+  return result.rows;
+}
+
+/**
+ * Merged pull requests with their metrics, slowest (longest cycle time) first
+ * @param filters - Repositories, team, merge date range and limit (default 20)
+ */
+export async function getDeliveryPullRequests(filters: DeliveryPullRequestFilters): Promise<any[]> {
+  const { cte, params } = mergedPullRequests(filters);
+  params.push(filters.limit || 20);
+  const result = await pool.query(`${cte}
+    SELECT
+      repository_name,
+      number,
+      title,
+      author,
+      opened_at,
+      first_commit_date,
+      first_review_at,
+      merged_at,
+      linked_commits,
+      ROUND(cycle_time_hours::numeric, 1) as cycle_time_hours,
+      ROUND(time_to_first_review_hours::numeric, 1) as time_to_first_review_hours,
+      review_rounds
+    FROM merged_pull_requests
+    ORDER BY cycle_time_hours DESC, merged_at DESC
+    LIMIT $${params.length}
+  `, params);
+  return result.rows;
+}
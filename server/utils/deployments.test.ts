@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseDeploymentInput, parseIncidentInput, recordDeployment } from './deployments.js';
+
+describe('deployments', () => {
+  const HEAD = 'A'.repeat(40);
+  const BASE = 'b'.repeat(40);
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  describe('parseDeploymentInput', () => {
+    it('should apply the defaults', () => {
+      expect(parseDeploymentInput({ repository: ' payments ', commit_to: HEAD }, now)).toEqual({
+        deployment: {
+          repository: 'payments',
+          external_id: null,
+          environment: 'production',
+          status: 'success',
+          version: null,
+          commit_from: null,
+          commit_to: 'a'.repeat(40),
+          deployed_at: '2026-10-19T12:00:00.000Z',
+          commits: null,
+        },
+      });
+    });
+
+    it('should keep the optional fields and deduplicate commits', () => {
+      const { deployment } = parseDeploymentInput({
+        repository: 'payments',
+        commit_to: HEAD,
+        commit_from: BASE,
+        external_id: 4521,
+        environment: 'Staging',
+        status: 'failure',
+        version: 'v1.4.0',
+        deployed_at: '2026-10-18T09:30:00Z',
+        commits: [HEAD, HEAD.toLowerCase(), BASE],
+      }, now);
+
+      expect(deployment).toMatchObject({
+        external_id: '4521',
+        environment: 'staging',
+        status: 'failure',
+        version: 'v1.4.0',
+        commit_from: BASE,
+        deployed_at: '2026-10-18T09:30:00Z',
+        commits: ['a'.repeat(40), BASE],
+      });
+    });
+
+    it('should reject invalid events', () => {
+      expect(parseDeploymentInput({ commit_to: HEAD })).toEqual({ error: 'repository is required' });
+      expect(parseDeploymentInput({ repository: 'payments', commit_to: 'abc1234' })).toEqual({
+        error: 'commit_to must be a full commit hash',
+      });
+      expect(parseDeploymentInput({ repository: 'payments', commit_to: HEAD, status: 'rolled_back' })).toHaveProperty('error');
+      expect(parseDeploymentInput({ repository: 'payments', commit_to: HEAD, deployed_at: 'today' })).toHaveProperty('error');
+      expect(parseDeploymentInput({ repository: 'payments', commit_to: HEAD, commits: ['abc'] })).toHaveProperty('error');
+    });
+  });
+
+  describe('parseIncidentInput', () => {
+    const incident = { repository: 'payments', title: 'Checkout errors', started_at: '2026-10-18T10:00:00Z' };
+
+    it('should validate an incident', () => {
+      expect(parseIncidentInput({ ...incident, external_id: 'INC-7', deployment_external_id: 4521 })).toEqual({
+        incident: {
+          repository: 'payments',
+          external_id: 'INC-7',
+          deployment_external_id: '4521',
+          title: 'Checkout errors',
+          severity: null,
+          started_at: '2026-10-18T10:00:00Z',
+          resolved_at: null,
+        },
+      });
+    });
+
+    it('should reject invalid incidents', () => {
+      expect(parseIncidentInput({ ...incident, title: '' })).toEqual({ error: 'title is required' });
+      expect(parseIncidentInput({ ...incident, started_at: undefined })).toHaveProperty('error');
+      expect(parseIncidentInput({ ...incident, resolved_at: '2026-10-18T09:00:00Z' })).toEqual({
+        error: 'resolved_at must not be before started_at',
+      });
+    });
+  });
+
+  describe('recordDeployment', () => {
+    const deployment = (overrides: Record<string, unknown> = {}) =>
+      parseDeploymentInput({ repository: 'payments', commit_to: HEAD, deployed_at: '2026-10-18T09:30:00Z', ...overrides }).deployment!;
+
+    const mockClient = (inserted: boolean, previousCommit: string | null = null) => ({
+      query: vi.fn(async (sql: string) => {
+        if (sql.includes('INSERT INTO deployments')) return { rows: [{ id: 9, inserted }] };
+        if (sql.includes('SELECT commit_to FROM deployments')) return { rows: previousCommit ? [{ commit_to: previousCommit }] : [] };
+        if (sql.includes('INSERT INTO deployment_commits')) return { rows: [], rowCount: 3 };
+        return { rows: [], rowCount: 0 };
+      }),
+    });
+
+    it('should link the commits after the previous successful deployment', async () => {
+      const client = mockClient(true, BASE);
+
+      const result = await recordDeployment(client as any, 4, deployment());
+
+      expect(result).toEqual({ id: 9, inserted: true, commits: 3 });
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('SELECT commit_to FROM deployments'),
+        [4, 'production', '2026-10-18T09:30:00Z', 9]
+      );
+      expect(client.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('c.commit_date > (SELECT commit_date'),
+        [9, 4, 'a'.repeat(40), BASE]
+      );
+    });
+
+    it('should use commit_from without looking up the previous deployment', async () => {
+      const client = mockClient(true);
+
+      await recordDeployment(client as any, 4, deployment({ commit_from: BASE }));
+
+      expect(client.query).not.toHaveBeenCalledWith(expect.stringContaining('SELECT commit_to FROM deployments'), expect.anything());
+      expect(client.query).toHaveBeenLastCalledWith(expect.any(String), [9, 4, 'a'.repeat(40), BASE]);
+    });
+
+    it('should replace the commits of an updated deployment with the listed ones', async () => {
+      const client = mockClient(false);
+
+      await recordDeployment(client as any, 4, deployment({ external_id: 'run-1', commits: [HEAD] }));
+
+      expect(client.query).toHaveBeenCalledWith('DELETE FROM deployment_commits WHERE deployment_id = $1', [9]);
+      expect(client.query).toHaveBeenLastCalledWith(expect.stringContaining('UNNEST'), [9, ['a'.repeat(40)]]);
+    });
+  });
+});
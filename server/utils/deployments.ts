@@ -0,0 +1,287 @@
+import { PoolClient } from 'pg';
+
+/**
+ * Deployment and incident events posted by CI (DORA metrics)
+ */
+
+export const DEPLOYMENT_STATUSES = ['success', 'failure'] as const;
+
+export type DeploymentStatus = typeof DEPLOYMENT_STATUSES[number];
+
+export const DEFAULT_ENVIRONMENT = 'production';
+
+export interface DeploymentInput {
+  repository: string;
+  external_id: string | null;
+  environment: string;
+  status: DeploymentStatus;
+  version: string | null;
+  commit_from: string | null;
+  commit_to: string;
+  /** ISO date; the time of the request when the event has none */
+  deployed_at: string;
+  /** Commits of the deployment when CI lists them (otherwise resolved from the range) */
+  commits: string[] | null;
+}
+
+export interface IncidentInput {
+  repository: string;
+  external_id: string | null;
+  /** CI identifier of the deployment that caused the incident */
+  deployment_external_id: string | null;
+  title: string;
+  severity: string | null;
+  started_at: string;
+  resolved_at: string | null;
+}
+
+export interface RecordedEvent {
+  id: number;
+  inserted: boolean;
+}
+
+const MAX_TEXT_LENGTH = 255;
+const MAX_ENVIRONMENT_LENGTH = 100;
+
+// Full commit hashes (SHA-1 or SHA-256), so deployments match commits.hash exactly
+const FULL_HASH_PATTERN = /^([0-9a-f]{40}|[0-9a-f]{64})$/i;
+
+export const isDeploymentStatus = (value: unknown): value is DeploymentStatus =>
+  DEPLOYMENT_STATUSES.includes(value as DeploymentStatus);
+
+const isDate = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+// Optional identifier or label: strings and numbers (CI run ids), null when missing
+const optionalText = (value: unknown, maxLength = MAX_TEXT_LENGTH): string | null | undefined => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (typeof value !== 'string' || value.trim().length > maxLength) return undefined;
+  return value.trim() || null;
+};
+
+const requiredRepository = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+/**
+ * Validate a deployment event
+ * @param body - Request body
+ * @param now - Deployment time used when the event has no deployed_at
+ * @returns The deployment, or an error message
+ */
+export function parseDeploymentInput(
+  body: any,
+  now: Date = new Date()
+): { deployment: DeploymentInput; error?: undefined } | { deployment?: undefined; error: string } {
+  const input = body && typeof body === 'object' ? body : {};
+
+  const repository = requiredRepository(input.repository);
+  if (!repository) {
+    return { error: 'repository is required' };
+  }
+  if (typeof input.commit_to !== 'string' || !FULL_HASH_PATTERN.test(input.commit_to)) {
+    return { error: 'commit_to must be a full commit hash' };
+  }
+  if (input.commit_from !== undefined && input.commit_from !== null
+    && (typeof input.commit_from !== 'string' || !FULL_HASH_PATTERN.test(input.commit_from))) {
+    return { error: 'commit_from must be a full commit hash' };
+  }
+  if (input.deployed_at !== undefined && input.deployed_at !== null && !isDate(input.deployed_at)) {
+    return { error: 'deployed_at must be an ISO 8601 date' };
+  }
+  if (input.status !== undefined && !isDeploymentStatus(input.status)) {
+    return { error: `status must be one of: ${DEPLOYMENT_STATUSES.join(', ')}` };
+  }
+
+  const environment = optionalText(input.environment, MAX_ENVIRONMENT_LENGTH);
+  const externalId = optionalText(input.external_id);
+  const version = optionalText(input.version);
+  if (environment === undefined || externalId === undefined || version === undefined) {
+    return { error: `environment, external_id and version must be text (up to ${MAX_TEXT_LENGTH} characters)` };
+  }
+
+  let commits: string[] | null = null;
+  if (input.commits !== undefined && input.commits !== null) {
+    if (!Array.isArray(input.commits) || !input.commits.every((hash: unknown) => typeof hash === 'string' && FULL_HASH_PATTERN.test(hash))) {
+      return { error: 'commits must be an array of full commit hashes' };
+    }
+    commits = [...new Set<string>(input.commits.map((hash: string) => hash.toLowerCase()))];
+  }
+
+  return {
+    deployment: {
+      repository,
+      external_id: externalId,
+      environment: (environment ?? DEFAULT_ENVIRONMENT).toLowerCase(),
+      status: input.status ?? 'success',
+      version,
+      commit_from: input.commit_from ? input.commit_from.toLowerCase() : null,
+      commit_to: input.commit_to.toLowerCase(),
+      deployed_at: input.deployed_at ?? now.toISOString(),
+      commits,
+    },
+  };
+}
+
+/**
+ * Validate an incident event
+ * @param body - Request body
+ * @returns The incident, or an error message
+ */
+export function parseIncidentInput(
+  body: any
+): { incident: IncidentInput; error?: undefined } | { incident?: undefined; error: string } {
+  const input = body && typeof body === 'object' ? body : {};
+
+  const repository = requiredRepository(input.repository);
+  if (!repository) {
+    return { error: 'repository is required' };
+  }
+  const title = typeof input.title === 'string' ? input.title.trim() : '';
+  if (!title) {
+    return { error: 'title is required' };
+  }
+  if (!isDate(input.started_at)) {
+    return { error: 'started_at must be an ISO 8601 date' };
+  }
+  if (input.resolved_at !== undefined && input.resolved_at !== null && !isDate(input.resolved_at)) {
+    return { error: 'resolved_at must be an ISO 8601 date or null' };
+  }
+  if (input.resolved_at && Date.parse(input.resolved_at) < Date.parse(input.started_at)) {
+    return { error: 'resolved_at must not be before started_at' };
+  }
+
+  const externalId = optionalText(input.external_id);
+  const deploymentExternalId = optionalText(input.deployment_external_id);
+  const severity = optionalText(input.severity);
+  if (externalId === undefined || deploymentExternalId === undefined || severity === undefined) {
+    return { error: `external_id, deployment_external_id and severity must be text (up to ${MAX_TEXT_LENGTH} characters)` };
+  }
+
+  return {
+    incident: {
+      repository,
+      external_id: externalId,
+      deployment_external_id: deploymentExternalId,
+      title,
+      severity,
+      started_at: input.started_at,
+      resolved_at: input.resolved_at ?? null,
+    },
+  };
+}
+
+/**
+ * Insert a deployment, or update the one with the same external_id, and link its commits
+ * Without a commit list, the commits of the repository dated after commit_from (or after the
+ * commit of the previous successful deployment to the environment) up to commit_to are linked.
+ * @param client - Client inside a transaction
+ * @param repositoryId - Repository of the deployment
+ * @param deployment - Validated deployment
+ * @returns The deployment and the number of linked commits
+ */
+export async function recordDeployment(
+  client: PoolClient,
+  repositoryId: number,
+  deployment: DeploymentInput
+): Promise<RecordedEvent & { commits: number }> {
+  const upserted = await client.query(
+    `INSERT INTO deployments (repository_id, external_id, environment, status, version, commit_from, commit_to, deployed_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (repository_id, external_id) DO UPDATE SET
+       environment = EXCLUDED.environment,
+       status = EXCLUDED.status,
+       version = EXCLUDED.version,
+       commit_from = EXCLUDED.commit_from,
+       commit_to = EXCLUDED.commit_to,
+       deployed_at = EXCLUDED.deployed_at
+     RETURNING id, (xmax = 0) as inserted`,
+    [
+      repositoryId,
+      deployment.external_id,
+      deployment.environment,
+      deployment.status,
+      deployment.version,
+      deployment.commit_from,
+      deployment.commit_to,
+      deployment.deployed_at,
+    ]
+  );
+  const { id, inserted } = upserted.rows[0];
+  if (!inserted) {
+    await client.query('DELETE FROM deployment_commits WHERE deployment_id = $1', [id]);
+  }
+
+  if (deployment.commits) {
+    const linked = await client.query(
+      `INSERT INTO deployment_commits (deployment_id, commit_hash)
+       SELECT $1, UNNEST($2::varchar[])`,
+      [id, deployment.commits]
+    );
+    return { id, inserted, commits: linked.rowCount ?? 0 };
+  }
+
+  let commitFrom = deployment.commit_from;
+  if (!commitFrom) {
+    const previous = await client.query(
+      `SELECT commit_to FROM deployments
+       WHERE repository_id = $1 AND environment = $2 AND status = 'success'
+         AND deployed_at < $3 AND id <> $4
+       ORDER BY deployed_at DESC
+       LIMIT 1`,
+      [repositoryId, deployment.environment, deployment.deployed_at, id]
+    );
+    commitFrom = previous.rows[0]?.commit_to ?? null;
+  }
+
+  // The deployed commit is always linked, even before the commits are loaded;
+  // without a lower bound (first deployment) the range is only that commit
+  const linked = await client.query(
+    `INSERT INTO deployment_commits (deployment_id, commit_hash)
+     SELECT $1::int, c.hash FROM commits c
+     WHERE c.repository_id = $2
+       AND c.commit_date <= (SELECT commit_date FROM commits WHERE repository_id = $2 AND hash = $3)
+       AND c.commit_date > (SELECT commit_date FROM commits WHERE repository_id = $2 AND hash = $4)
+     UNION
+     SELECT $1::int, $3::varchar
+     ON CONFLICT DO NOTHING`,
+    [id, repositoryId, deployment.commit_to, commitFrom]
+  );
+  return { id, inserted, commits: linked.rowCount ?? 0 };
+}
+
+/**
+ * Insert an incident, or update the one with the same external_id (e.g. when it is resolved)
+ * @param client - Client (or pool)
+ * @param repositoryId - Repository of the incident
+ * @param incident - Validated incident
+ * @param deploymentId - Deployment that caused the incident, if known
+ */
+export async function recordIncident(
+  client: Pick<PoolClient, 'query'>,
+  repositoryId: number,
+  incident: IncidentInput,
+  deploymentId: number | null
+): Promise<RecordedEvent> {
+  const result = await client.query(
+    `INSERT INTO incidents (repository_id, deployment_id, external_id, title, severity, started_at, resolved_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (repository_id, external_id) DO UPDATE SET
+       deployment_id = EXCLUDED.deployment_id,
+       title = EXCLUDED.title,
+       severity = EXCLUDED.severity,
+       started_at = EXCLUDED.started_at,
+       resolved_at = EXCLUDED.resolved_at
+     RETURNING id, (xmax = 0) as inserted`,
+    [
+      repositoryId,
+      deploymentId,
+      incident.external_id,
+      incident.title,
+      incident.severity,
+      incident.started_at,
+      incident.resolved_at,
+    ]
+  );
+  return result.rows[0];
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { buildDigestEmail, getDigestPeriod } from './digest.js';
+
+describe('getDigestPeriod', () => {
+  it('should return the previous Monday to Sunday week', () => {
+    // Wednesday
+    const period = getDigestPeriod('weekly', new Date('2026-10-21T09:00:00Z'));
+
+    expect(period).toEqual({
+      frequency: 'weekly',
+      start: '2026-10-12',
+      end: '2026-10-18',
+      label: 'Oct 12 - Oct 18, 2026',
+    });
+  });
+
+  it('should treat Monday as the start of a new week', () => {
+    const period = getDigestPeriod('weekly', new Date('2026-10-19T00:30:00Z'));
+
+    expect(period.start).toBe('2026-10-12');
+    expect(period.end).toBe('2026-10-18');
+  });
+
+  it('should return the previous calendar month across year boundaries', () => {
+    const period = getDigestPeriod('monthly', new Date('2027-01-01T06:00:00Z'));
+
+    expect(period).toEqual({
+      frequency: 'monthly',
+      start: '2026-12-01',
+      end: '2026-12-31',
+      label: 'December 2026',
+    });
+  });
+});
+
+describe('buildDigestEmail', () => {
+  const period = getDigestPeriod('weekly', new Date('2026-10-21T09:00:00Z'));
+
+  it('should include personal stats, team totals and biggest commits', () => {
+    const message = buildDigestEmail({
+      recipient: { name: 'Jane Smith', email: 'jane@example.com' },
+      period,
+      personalStats: { total_commits: 5, effective_commits: '4.5', total_lines_changed: '1200', repositories_contributed: 2, active_days: 3 },
+      teamStats: { total_commits: 50, effective_commits: '40.0', total_lines_changed: '9000', total_contributors: 8 },
+      biggestCommits: [
+        { repository_name: 'api', commit_hash: 'abcdef123456', commit_message: 'API | Add <script> endpoint', lines_changed: 800, author_name: 'John' },
+      ],
+      dashboardUrl: 'https://dashboard.example.com/',
+    });
+
+    expect(message.to).toBe('jane@example.com');
+    expect(message.subject).toBe('Weekly digest: Oct 12 - Oct 18, 2026');
+    expect(message.text).toContain('Hi Jane,');
+    expect(message.text).toContain('- Commits: 5 (4.5 effective)');
+    expect(message.text).toContain('- Your share of commits: 10.0%');
+    expect(message.text).toContain('- api abcdef1 API | Add <script> endpoint (800 lines, John)');
+    expect(message.text).toContain('https://dashboard.example.com/personal-performance');
+    expect(message.html).toContain('Add &lt;script&gt; endpoint');
+    expect(message.html).not.toContain('<script>');
+  });
+
+  it('should handle periods without commits', () => {
+    const message = buildDigestEmail({
+      recipient: { name: '', email: 'dev@example.com' },
+      period,
+      personalStats: undefined,
+      teamStats: undefined,
+      biggestCommits: [],
+    });
+
+    expect(message.text).toContain('Hi dev@example.com,');
+    expect(message.text).toContain('- No commits in this period');
+    expect(message.text).toContain('- Your share of commits: -');
+    expect(message.text).not.toContain('Open the dashboard');
+  });
+});
@@ -0,0 +1,179 @@
+import { formatNumber } from './export.js';
+import { MailMessage } from './mailer.js';
+
+/**
+ * Weekly/monthly email digests: reporting periods and message content
+ */
+
+export const DIGEST_FREQUENCIES = ['weekly', 'monthly'] as const;
+
+export type DigestFrequency = typeof DIGEST_FREQUENCIES[number];
+
+export interface DigestPeriod {
+  frequency: DigestFrequency;
+  /** First day of the period (YYYY-MM-DD) */
+  start: string;
+  /** Last day of the period (YYYY-MM-DD, inclusive) */
+  end: string;
+  label: string;
+}
+
+export interface DigestContent {
+  recipient: { name: string; email: string };
+  period: DigestPeriod;
+  personalStats: any;
+  teamStats: any;
+  biggestCommits: any[];
+  /** Dashboard base URL used for links (omitted when unknown) */
+  dashboardUrl?: string;
+}
+
+/** Number of biggest commits listed in a digest */
+export const DIGEST_BIGGEST_COMMITS = 5;
+
+/**
+ * Check whether a value is a digest frequency
+ * @param value - Frequency name
+ * @returns True for 'weekly' or 'monthly'
+ */
+export function isDigestFrequency(value: unknown): value is DigestFrequency {
+  return typeof value === 'string' && (DIGEST_FREQUENCIES as readonly string[]).includes(value);
+}
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatDay = (date: Date, withYear = false) => date.toLocaleDateString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  ...(withYear ? { year: 'numeric' } : {}),
+  timeZone: 'UTC',
+});
+
+/**
+ * Last complete reporting period before a date (UTC)
+ * Weekly periods run Monday to Sunday, monthly periods cover a calendar month.
+ * @param frequency - Digest frequency
+ * @param now - Reference date
+ * @returns The period a digest sent at `now` reports on
+ */
+export function getDigestPeriod(frequency: DigestFrequency, now: Date = new Date()): DigestPeriod {
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+  if (frequency === 'weekly') {
+    const daysSinceMonday = (today.getUTCDay() + 6) % 7;
+    const start = new Date(today);
+    start.setUTCDate(today.getUTCDate() - daysSinceMonday - 7);
+    const end = new Date(start);
+    end.setUTCDate(start.getUTCDate() + 6);
+    return {
+      frequency,
+      start: toDateString(start),
+      end: toDateString(end),
+      label: `${formatDay(start)} - ${formatDay(end, true)}`,
+    };
+  }
+
+  const start = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1));
+  const end = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 0));
+  return {
+    frequency,
+    start: toDateString(start),
+    end: toDateString(end),
+    label: start.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+  };
+}
+
+const escapeHtml = (value: unknown) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Share of the team's commits made by the recipient
+ * @returns Percentage, or null when the team has no commits
+ */
+function commitShare(personalStats: any, teamStats: any): number | null {
+  const personal = Number(personalStats?.total_commits) || 0;
+  const team = Number(teamStats?.total_commits) || 0;
+  return team > 0 ? (personal / team) * 100 : null;
+}
+
+/**
+ * Build the digest email of a user
+ * @param content - Recipient, period and statistics
+ * @returns Mail message with plain text and HTML bodies
+ */
+export function buildDigestEmail(content: DigestContent): MailMessage {
+  const { recipient, period, personalStats = {}, teamStats = {}, biggestCommits, dashboardUrl } = content;
+  const title = period.frequency === 'weekly' ? 'Weekly' : 'Monthly';
+  const firstName = (recipient.name || recipient.email).split(' ')[0];
+  const share = commitShare(personalStats, teamStats);
+  const commits = biggestCommits.slice(0, DIGEST_BIGGEST_COMMITS);
+
+  const personalRows: [string, string][] = [
+    ['Commits', `${formatNumber(personalStats.total_commits)} (${formatNumber(personalStats.effective_commits, 1)} effective)`],
+    ['Lines changed', formatNumber(personalStats.total_lines_changed)],
+    ['Repositories', formatNumber(personalStats.repositories_contributed)],
+    ['Active days', formatNumber(personalStats.active_days)],
+  ];
+  const teamRows: [string, string][] = [
+    ['Commits', `${formatNumber(teamStats.total_commits)} (${formatNumber(teamStats.effective_commits, 1)} effective)`],
+    ['Lines changed', formatNumber(teamStats.total_lines_changed)],
+    ['Contributors', formatNumber(teamStats.total_contributors)],
+    ['Your share of commits', share === null ? '-' : `${formatNumber(share, 1)}%`],
+  ];
+  const commitLine = (commit: any) =>
+    `${commit.repository_name} ${String(commit.commit_hash || '').slice(0, 7)} ${commit.commit_message} ` +
+    `(${formatNumber(commit.lines_changed)} lines, ${commit.author_name})`;
+  const performanceUrl = dashboardUrl ? `${dashboardUrl.replace(/\/$/, '')}/personal-performance` : null;
+  const footer = `You receive this email because you subscribed to ${period.frequency} digests. ` +
+    'You can change this on the My Performance page.';
+
+  const text = [
+    `Hi ${firstName},`,
+    '',
+    `Here is your ${period.frequency} digest for ${period.label}.`,
+    '',
+    'Your activity',
+    ...personalRows.map(([label, value]) => `- ${label}: ${value}`),
+    '',
+    'Team totals',
+    ...teamRows.map(([label, value]) => `- ${label}: ${value}`),
+    '',
+    'Biggest commits',
+    ...(commits.length > 0 ? commits.map(commit => `- ${commitLine(commit)}`) : ['- No commits in this period']),
+    '',
+    ...(performanceUrl ? [`Open the dashboard: ${performanceUrl}`, ''] : []),
+    footer,
+  ].join('\n');
+
+  const htmlTable = (rows: [string, string][]) =>
+    '<table cellpadding="4" cellspacing="0">' +
+    rows.map(([label, value]) => `<tr><td style="color:#6b7280">${escapeHtml(label)}</td><td><strong>${escapeHtml(value)}</strong></td></tr>`).join('') +
+    '</table>';
+
+  const html = [
+    '<div style="font-family:Arial,sans-serif;color:#111827;max-width:600px">',
+    `<h2>${title} digest: ${escapeHtml(period.label)}</h2>`,
+    `<p>Hi ${escapeHtml(firstName)},</p>`,
+    '<h3>Your activity</h3>',
+    htmlTable(personalRows),
+    '<h3>Team totals</h3>',
+    htmlTable(teamRows),
+    '<h3>Biggest commits</h3>',
+    commits.length > 0
+      ? '<ul>' + commits.map(commit => `<li>${escapeHtml(commitLine(commit))}</li>`).join('') + '</ul>'
+      : '<p>No commits in this period.</p>',
+    performanceUrl ? `<p><a href="${escapeHtml(performanceUrl)}">Open the dashboard</a></p>` : '',
+    `<p style="color:#6b7280;font-size:12px">${escapeHtml(footer)}</p>`,
+    '</div>',
+  ].join('\n');
+
+  return {
+    to: recipient.email,
+    subject: `${title} digest: ${period.label}`,
+    text,
+    html,
+  };
+}
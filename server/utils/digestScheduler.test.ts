@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import pool from '../db.js';
+import { digestScheduler } from './digestScheduler.js';
+import env from '../config/env.js';
+import { MailMessage, logTransport, setMailTransport } from './mailer.js';
+
+// Mock the database pool
+vi.mock('../db.js', () => ({
+  default: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}));
+
+describe('digestScheduler.runDue', () => {
+  const sent: MailMessage[] = [];
+  const send = vi.fn(async (message: MailMessage) => {
+    sent.push(message);
+  });
+
+  // Wednesday: weekly digests cover Oct 12-18, monthly digests September
+  const now = new Date('2026-10-21T09:00:00Z');
+
+  const mockDatabase = (options: { claimed?: boolean; teamCommits?: number } = {}) => {
+    const { claimed = true, teamCommits = 20 } = options;
+    vi.mocked(pool.query).mockImplementation(async (sql: any, params?: any) => {
+      const text = String(sql);
+      if (text.includes('FROM digest_subscriptions ds')) {
+        return {
+          rows: params[0] === 'weekly'
+            ? [{ id: 1, last_period_start: '2026-10-05', email: 'jane@example.com', name: 'Jane Smith' }]
+            : [],
+        } as any;
+      }
+      if (text.includes('UPDATE digest_subscriptions') && text.includes('last_period_start IS NULL OR')) {
+        return { rows: [], rowCount: claimed ? 1 : 0 } as any;
+      }
+      if (text.includes('FROM user_author_emails')) {
+        return { rows: [] } as any;
+      }
+      if (text.includes('total_contributors')) {
+        return { rows: [{ total_commits: teamCommits, total_contributors: 4 }] } as any;
+      }
+      return { rows: [{ total_commits: 3 }], rowCount: 1 } as any;
+    });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sent.length = 0;
+    setMailTransport({ name: 'test', send });
+  });
+
+  afterEach(() => {
+    setMailTransport(null);
+    vi.restoreAllMocks();
+  });
+
+  it('should send due digests for the last complete period', async () => {
+    mockDatabase();
+
+    const result = await digestScheduler.runDue(now);
+
+    expect(result).toEqual({ sent: 1, skipped: 0, failed: 0 });
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe('jane@example.com');
+    expect(sent[0].subject).toBe('Weekly digest: Oct 12 - Oct 18, 2026');
+    expect(pool.query).toHaveBeenCalledWith(expect.stringContaining('SET last_period_start = $2'), [1, '2026-10-12']);
+    expect(pool.query).toHaveBeenCalledWith('UPDATE digest_subscriptions SET last_sent_at = NOW() WHERE id = $1', [1]);
+  });
+
+  it('should not send digests claimed by another instance', async () => {
+    mockDatabase({ claimed: false });
+
+    const result = await digestScheduler.runDue(now);
+
+    expect(result).toEqual({ sent: 0, skipped: 0, failed: 0 });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should skip periods without team activity', async () => {
+    mockDatabase({ teamCommits: 0 });
+
+    const result = await digestScheduler.runDue(now);
+
+    expect(result).toEqual({ sent: 0, skipped: 1, failed: 0 });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should not record digests printed by the log transport as sent', async () => {
+    mockDatabase();
+    setMailTransport(logTransport);
+
+    const result = await digestScheduler.runDue(now);
+
+    expect(result).toEqual({ sent: 1, skipped: 0, failed: 0 });
+    expect(pool.query).not.toHaveBeenCalledWith(expect.stringContaining('last_sent_at'), expect.anything());
+  });
+
+  it('should release the claim when sending fails', async () => {
+    mockDatabase();
+    send.mockRejectedValueOnce(new Error('SMTP unavailable'));
+
+    const result = await digestScheduler.runDue(now);
+
+    expect(result).toEqual({ sent: 0, skipped: 0, failed: 1 });
+    expect(pool.query).toHaveBeenCalledWith(
+      'UPDATE digest_subscriptions SET last_period_start = $2 WHERE id = $1',
+      [1, '2026-10-05']
+    );
+  });
+});
+
+describe('digestScheduler.start', () => {
+  const configured = { MAIL_TRANSPORT: env.MAIL_TRANSPORT, SMTP_HOST: env.SMTP_HOST };
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(configured)) {
+      if (value === undefined) {
+        delete env[name];
+      } else {
+        env[name] = value;
+      }
+    }
+    setMailTransport(null);
+    digestScheduler.stop();
+  });
+
+  it('should not start without a mail transport', () => {
+    delete env.MAIL_TRANSPORT;
+    delete env.SMTP_HOST;
+    setMailTransport(null);
+
+    expect(digestScheduler.start()).toBe(false);
+  });
+});
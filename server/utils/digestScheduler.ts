@@ -0,0 +1,173 @@
+import pool from '../db.js';
+import env from '../config/env.js';
+import { buildDigestEmail, DIGEST_BIGGEST_COMMITS, DIGEST_FREQUENCIES, DigestFrequency, getDigestPeriod } from './digest.js';
+import { getMailTransport, logTransport } from './mailer.js';
+import { getPersonalPerformance, getSummaryReport } from './reportQueries.js';
+
+interface DueSubscription {
+  id: number;
+  last_period_start: string | null;
+  email: string;
+  name: string;
+}
+
+export interface DigestRunResult {
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+const DEFAULT_CHECK_INTERVAL_MINUTES = 60;
+
+/**
+ * Digest Scheduler
+ *
+ * Periodically sends the weekly and monthly digests that are due. Each
+ * subscription is claimed (last_period_start updated) before sending, so a
+ * digest is delivered once even with several server instances; failed
+ * deliveries release the claim and are retried on the next check.
+ */
+class DigestScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Start checking for due digests
+   * Nothing is scheduled without a mail transport (see mailer.ts).
+   * @param intervalMinutes - Minutes between checks (DIGEST_CHECK_INTERVAL_MINUTES, default 60)
+   * @returns True when the schedule was started
+   */
+  start(intervalMinutes = parseInt(env.DIGEST_CHECK_INTERVAL_MINUTES || '', 10) || DEFAULT_CHECK_INTERVAL_MINUTES): boolean {
+    if (this.timer || !getMailTransport()) {
+      return false;
+    }
+
+    const check = () => {
+      this.runDue().catch(err => console.error('Error sending digests:', err));
+    };
+    this.timer = setInterval(check, intervalMinutes * 60 * 1000);
+    // Do not keep the process alive just for the scheduler
+    this.timer.unref();
+    check();
+    return true;
+  }
+
+  /**
+   * Stop checking for due digests
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send all digests that are due
+   * Overlapping runs are skipped.
+   * @param now - Reference date (determines the reporting periods)
+   * @returns Number of digests sent, skipped (no activity) and failed
+   */
+  async runDue(now: Date = new Date()): Promise<DigestRunResult> {
+    const result: DigestRunResult = { sent: 0, skipped: 0, failed: 0 };
+    if (this.running) {
+      return result;
+    }
+
+    this.running = true;
+    try {
+      for (const frequency of DIGEST_FREQUENCIES) {
+        const frequencyResult = await this.sendDigests(frequency, now);
+        result.sent += frequencyResult.sent;
+        result.skipped += frequencyResult.skipped;
+        result.failed += frequencyResult.failed;
+      }
+    } finally {
+      this.running = false;
+    }
+
+    if (result.sent > 0 || result.failed > 0) {
+      console.log(`📧 Digests: ${result.sent} sent, ${result.skipped} skipped, ${result.failed} failed`);
+    }
+    return result;
+  }
+
+  /**
+   * Send the digests of one frequency for the last complete period
+   */
+  private async sendDigests(frequency: DigestFrequency, now: Date): Promise<DigestRunResult> {
+    const result: DigestRunResult = { sent: 0, skipped: 0, failed: 0 };
+    const period = getDigestPeriod(frequency, now);
+
+    const due = await pool.query<DueSubscription>(
+      `SELECT ds.id, ds.last_period_start::text as last_period_start, u.email, u.name
+       FROM digest_subscriptions ds
+       JOIN users u ON u.id = ds.user_id
+       WHERE ds.frequency = $1
+         AND ds.enabled
+         AND (ds.last_period_start IS NULL OR ds.last_period_start < $2)
+       ORDER BY ds.id`,
+      [frequency, period.start]
+    );
+    if (due.rows.length === 0) {
+      return result;
+    }
+
+    const transport = getMailTransport();
+    if (!transport) {
+      return result;
+    }
+
+    const filters = { dateFrom: period.start, dateTo: `${period.end} 23:59:59.999` };
+    // Team-wide biggest commits are the same for every recipient
+    const summary = await getSummaryReport(filters);
+
+    for (const subscription of due.rows) {
+      const claim = await pool.query(
+        `UPDATE digest_subscriptions
+         SET last_period_start = $2
+         WHERE id = $1 AND (last_period_start IS NULL OR last_period_start < $2)`,
+        [subscription.id, period.start]
+      );
+      if (claim.rowCount === 0) {
+        // Claimed by another server instance
+        continue;
+      }
+
+      try {
+        const performance = await getPersonalPerformance(subscription.email, { ...filters, limit: 1 });
+
+        if (!Number(performance.team_stats?.total_commits)) {
+          result.skipped++;
+          continue;
+        }
+
+        await transport.send(buildDigestEmail({
+          recipient: { name: subscription.name, email: subscription.email },
+          period,
+          personalStats: performance.personal_stats,
+          teamStats: performance.team_stats,
+          biggestCommits: summary.largest_commits.slice(0, DIGEST_BIGGEST_COMMITS),
+          dashboardUrl: env.CLIENT_URL,
+        }));
+        // The log transport only prints the digest: it was not delivered
+        if (transport !== logTransport) {
+          await pool.query('UPDATE digest_subscriptions SET last_sent_at = NOW() WHERE id = $1', [subscription.id]);
+        }
+        result.sent++;
+      } catch (err) {
+        console.error(`Error sending ${frequency} digest to ${subscription.email}:`, err);
+        result.failed++;
+        // Release the claim so the digest is retried on the next check
+        await pool.query(
+          'UPDATE digest_subscriptions SET last_period_start = $2 WHERE id = $1',
+          [subscription.id, subscription.last_period_start]
+        );
+      }
+    }
+
+    return result;
+  }
+}
+
+export const digestScheduler = new DigestScheduler();
@@ -0,0 +1,238 @@
+import pool from '../db.js';
+import { DEFAULT_ENVIRONMENT } from './deployments.js';
+import { parseRepoFilter, repositoryNameFilter } from './repositories.js';
+
+/**
+ * DORA metrics from the deployments and incidents posted by CI
+ *
+ * - Deployment frequency: deployments to the environment per week of the period
+ * - Lead time for changes: from the commit date to the first successful deployment
+ *   that shipped the commit (median and average hours)
+ * - Change failure rate: share of deployments that failed or caused an incident
+ * - Time to restore (MTTR): average hours from the start to the resolution of incidents
+ *
+ * Deployments are counted by deployment date, commits by first deployment date and
+ * incidents by start date.
+ */
+
+export type DoraGrouping = 'summary' | 'repository' | 'month' | 'repository_month';
+
+export interface DoraFilters {
+  /** Repository names (repeated or comma-separated; 'all' or missing for every active repository) */
+  repo?: unknown;
+  /** Deployment environment (default production) */
+  environment?: unknown;
+  dateFrom?: unknown;
+  dateTo?: unknown;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const GROUPING_KEYS: Record<DoraGrouping, string[]> = {
+  summary: [],
+  repository: ['repository_name'],
+  month: ['month_start'],
+  repository_month: ['repository_name', 'month_start'],
+};
+
+const GROUPING_ORDER: Record<DoraGrouping, string> = {
+  summary: '',
+  repository: 'ORDER BY deployments DESC, repository_name',
+  month: 'ORDER BY year_month',
+  repository_month: 'ORDER BY year_month, repository_name',
+};
+
+/**
+ * Days of the filtered period when it has a start (up to dateTo or today), inclusive
+ * @returns Number of days, or null when the period is open-ended
+ */
+export function periodDays(dateFrom: unknown, dateTo: unknown, today: Date = new Date()): number | null {
+  if (typeof dateFrom !== 'string' || !DATE_PATTERN.test(dateFrom)) {
+    return null;
+  }
+  const start = Date.parse(`${dateFrom}T00:00:00Z`);
+  const end = typeof dateTo === 'string' && DATE_PATTERN.test(dateTo)
+    ? Date.parse(`${dateTo}T00:00:00Z`)
+    : Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate());
+  if (Number.isNaN(start) || Number.isNaN(end) || end < start) {
+    return null;
+  }
+  return Math.round((end - start) / DAY_MS) + 1;
+}
+
+/**
+ * DORA metrics of the deployments and incidents of the filters
+ * @param filters - Repositories, environment and date range
+ * @param grouping - One row overall, or rows per repository, month, or repository and month
+ * @returns Metric rows (year_month is YYYY-MM for monthly groupings)
+ */
+export async function getDoraMetrics(filters: DoraFilters, grouping: DoraGrouping): Promise<any[]> {
+  const { dateFrom, dateTo } = filters;
+  const repos = parseRepoFilter(filters.repo);
+  const environment = typeof filters.environment === 'string' && filters.environment.trim()
+    ? filters.environment.trim().toLowerCase()
+    : DEFAULT_ENVIRONMENT;
+
+  const params: any[] = [environment];
+  let repoCondition = 'NOT r.archived';
+  if (repos.length > 0) {
+    const repoFilter = repositoryNameFilter('r.name', `$${params.length + 1}`, repos);
+    params.push(repoFilter.value);
+    repoCondition = repoFilter.condition;
+  }
+
+  const dateBounds: string[] = [];
+  if (dateFrom) {
+    params.push(dateFrom);
+    dateBounds.push(`>= $${params.length}`);
+  }
+  if (dateTo) {
+    params.push(dateTo);
+    dateBounds.push(`<= $${params.length}`);
+  }
+  const dateCondition = (column: string) =>
+    dateBounds.map(bound => ` AND ${column} ${bound}`).join('');
+
+  // Length of the period for the deployment frequency: the month, the filtered period,
+  // or (open-ended periods) the span of the deployments
+  const keys = GROUPING_KEYS[grouping];
+  let periodDaysExpression: string;
+  if (keys.includes('month_start')) {
+    periodDaysExpression = `(LEAST((k.month_start + INTERVAL '1 month')::date, CURRENT_DATE + 1) - k.month_start)`;
+  } else {
+    params.push(periodDays(dateFrom, dateTo));
+    periodDaysExpression = `COALESCE($${params.length}::numeric, ds.deployment_span_days)`;
+  }
+
+  const keyList = keys.join(', ');
+  const keySelect = keys.length > 0 ? `${keyList}, ` : '';
+  const groupBy = keys.length > 0 ? `GROUP BY ${keyList}` : '';
+
+  const baseRows = `
+    WITH deploys AS (
+      SELECT
+        r.name as repository_name,
+        DATE_TRUNC('month', d.deployed_at)::date as month_start,
+        d.deployed_at,
+        (d.status = 'failure' OR EXISTS (SELECT 1 FROM incidents i WHERE i.deployment_id = d.id)) as failed
+      FROM deployments d
+      JOIN repositories r ON r.id = d.repository_id
+      WHERE d.environment = $1 AND ${repoCondition}${dateCondition('d.deployed_at')}
+    ),
+    lead_times AS (
+      -- A commit shipped again by a later deployment counts once, at its first deployment
+      SELECT
+        r.name as repository_name,
+        DATE_TRUNC('month', fd.first_deployed_at)::date as month_start,
+        GREATEST(EXTRACT(EPOCH FROM (fd.first_deployed_at - c.commit_date)) / 3600.0, 0)::float8 as lead_time_hours
+      FROM (
+        SELECT d.repository_id, dc.commit_hash, MIN(d.deployed_at) as first_deployed_at
+        FROM deployments d
+        JOIN deployment_commits dc ON dc.deployment_id = d.id
+        WHERE d.status = 'success' AND d.environment = $1
+        GROUP BY d.repository_id, dc.commit_hash
+      ) fd
+      JOIN commits c ON c.repository_id = fd.repository_id AND c.hash = fd.commit_hash
+      JOIN repositories r ON r.id = fd.repository_id
+      WHERE ${repoCondition}${dateCondition('fd.first_deployed_at')}
+    ),
+    incident_times AS (
+      -- Incidents caused by deployments to other environments are left out
+      SELECT
+        r.name as repository_name,
+        DATE_TRUNC('month', i.started_at)::date as month_start,
+        i.resolved_at,
+        (EXTRACT(EPOCH FROM (i.resolved_at - i.started_at)) / 3600.0)::float8 as restore_hours
+      FROM incidents i
+      JOIN repositories r ON r.id = i.repository_id
+      LEFT JOIN deployments d ON d.id = i.deployment_id
+      WHERE (d.id IS NULL OR d.environment = $1) AND ${repoCondition}${dateCondition('i.started_at')}
+    ),
+    deploy_stats AS (
+      SELECT ${keySelect}
+        COUNT(*)::int as deployments,
+        COUNT(*) FILTER (WHERE failed)::int as failed_deployments,
+        COUNT(DISTINCT deployed_at::date)::int as deployment_days,
+        GREATEST(MAX(deployed_at)::date - MIN(deployed_at)::date + 1, 1) as deployment_span_days
+      FROM deploys
+      ${groupBy}
+    ),
+    lead_stats AS (
+      SELECT ${keySelect}
+        COUNT(*)::int as deployed_commits,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY lead_time_hours) as median_lead_time_hours,
+        AVG(lead_time_hours) as avg_lead_time_hours
+      FROM lead_times
+      ${groupBy}
+    ),
+    incident_stats AS (
+      SELECT ${keySelect}
+        COUNT(*)::int as incidents,
+        COUNT(*) FILTER (WHERE resolved_at IS NULL)::int as open_incidents,
+        AVG(restore_hours) as mttr_hours
+      FROM incident_times
+      ${groupBy}
+    )
+  `;
+
+  const metrics = `
+    COALESCE(ds.deployments, 0) as deployments,
+    COALESCE(ds.deployment_days, 0) as deployment_days,
+    ROUND((COALESCE(ds.deployments, 0) * 7.0 / NULLIF(${periodDaysExpression}, 0))::numeric, 2) as deployments_per_week,
+    COALESCE(ls.deployed_commits, 0) as deployed_commits,
+    ROUND(ls.median_lead_time_hours::numeric, 1) as median_lead_time_hours,
+    ROUND(ls.avg_lead_time_hours::numeric, 1) as avg_lead_time_hours,
+    COALESCE(ds.failed_deployments, 0) as failed_deployments,
+    ROUND(100.0 * ds.failed_deployments / NULLIF(ds.deployments, 0), 1) as change_failure_rate_pct,
+    COALESCE(ist.incidents, 0) as incidents,
+    COALESCE(ist.open_incidents, 0) as open_incidents,
+    ROUND(ist.mttr_hours::numeric, 1) as mttr_hours
+  `;
+
+  let query: string;
+  if (keys.length === 0) {
+    // Aggregates without GROUP BY return one row each, even without deployments
+    query = `${baseRows}
+      SELECT ${metrics}
+      FROM deploy_stats ds
+      CROSS JOIN lead_stats ls
+      CROSS JOIN incident_stats ist
+    `;
+  } else {
+    const output = keys
+      .map(key => key === 'month_start' ? `TO_CHAR(k.month_start, 'YYYY-MM') as year_month` : `k.${key}`)
+      .join(', ');
+    query = `${baseRows}
+      SELECT ${output}, ${metrics}
+      FROM (
+        SELECT ${keyList} FROM deploy_stats
+        UNION
+        SELECT ${keyList} FROM lead_stats
+        UNION
+        SELECT ${keyList} FROM incident_stats
+      ) k
+      LEFT JOIN deploy_stats ds USING (${keyList})
+      LEFT JOIN lead_stats ls USING (${keyList})
+      LEFT JOIN incident_stats ist USING (${keyList})
+      ${GROUPING_ORDER[grouping]}
+    `;
+  }
+
+  const result = await pool.query(query, params);
+  return result.rows;
+}
+
+/**
+ * Environments with deployments (production first)
+ */
+export async function getDeploymentEnvironments(): Promise<string[]> {
+  const result = await pool.query(`
+    SELECT environment
+    FROM deployments
+    GROUP BY environment
+    ORDER BY (environment = $1) DESC, environment
+  `, [DEFAULT_ENVIRONMENT]);
+  return result.rows.map((row: any) => row.environment);
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { isExportFormat, toTypedValue, toCsvCell, describeFilters, sendExport } from './export.js';
+
+describe('export', () => {
+  describe('isExportFormat', () => {
+    it('should accept csv and xlsx only', () => {
+      expect(isExportFormat('csv')).toBe(true);
+      expect(isExportFormat('xlsx')).toBe(true);
+      expect(isExportFormat('json')).toBe(false);
+      expect(isExportFormat(undefined)).toBe(false);
+    });
+  });
+
+  describe('toTypedValue', () => {
+    it('should parse numeric strings returned by pg', () => {
+      expect(toTypedValue('12345', 'integer')).toBe(12345);
+      expect(toTypedValue('90.50', 'number')).toBe(90.5);
+      expect(toTypedValue('n/a', 'number')).toBeNull();
+    });
+
+    it('should parse dates', () => {
+      const value = toTypedValue('2024-01-15T10:00:00.000Z', 'datetime');
+      expect(value).toBeInstanceOf(Date);
+      expect((value as Date).toISOString()).toBe('2024-01-15T10:00:00.000Z');
+    });
+
+    it('should return null for missing values', () => {
+      expect(toTypedValue(null, 'integer')).toBeNull();
+      expect(toTypedValue(undefined)).toBeNull();
+      expect(toTypedValue('')).toBeNull();
+    });
+  });
+
+  describe('toCsvCell', () => {
+    it('should quote values containing separators, quotes or new lines', () => {
+      expect(toCsvCell('plain')).toBe('plain');
+      expect(toCsvCell('a, b')).toBe('"a, b"');
+      expect(toCsvCell('say "hi"')).toBe('"say ""hi"""');
+      expect(toCsvCell('line 1\nline 2')).toBe('"line 1\nline 2"');
+    });
+
+    it('should neutralize spreadsheet formulas in text', () => {
+      expect(toCsvCell('=SUM(A1:A2)')).toBe("'=SUM(A1:A2)");
+      expect(toCsvCell('-fix typo')).toBe("'-fix typo");
+    });
+
+    it('should not alter negative numbers', () => {
+      expect(toCsvCell(-5, 'integer')).toBe('-5');
+    });
+
+    it('should format dates by column type', () => {
+      const date = new Date('2024-01-15T10:00:00.000Z');
+      expect(toCsvCell(date, 'date')).toBe('2024-01-15');
+      expect(toCsvCell(date, 'datetime')).toBe('2024-01-15T10:00:00.000Z');
+    });
+  });
+
+  describe('sendExport', () => {
+    const response = () => ({ status: vi.fn(), setHeader: vi.fn(), end: vi.fn() });
+
+    it('should not send headers when the file cannot be built', async () => {
+      const res = response();
+      const unprintable = { toString: () => { throw new Error('unprintable'); } };
+
+      await expect(sendExport(res as any, 'csv', {
+        filename: 'commits',
+        title: 'Commit Search',
+        filters: {},
+        sheets: [{ name: 'Commits', columns: [{ key: 'subject', header: 'Subject' }], rows: [{ subject: unprintable }] }],
+      })).rejects.toThrow('unprintable');
+      expect(res.setHeader).not.toHaveBeenCalled();
+    });
+
+    it('should flag truncated exports', async () => {
+      const res = response();
+
+      await sendExport(res as any, 'xlsx', { filename: 'commits', title: 'Commit Search', filters: {}, sheets: [], truncated: 'Row limit' });
+
+      expect(res.setHeader).toHaveBeenCalledWith('X-Export-Truncated', 'true');
+      expect(res.end).toHaveBeenCalledWith(expect.any(Buffer));
+    });
+  });
+
+  describe('describeFilters', () => {
+    it('should only keep filters that are set', () => {
+      expect(describeFilters({ repo: 'api', dateFrom: undefined, dateTo: '', limit: 20 }))
+        .toEqual([['repo', 'api'], ['limit', '20']]);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import { Request, Response, NextFunction } from 'express';
+import ExcelJS from 'exceljs';
+
+/**
+ * Tabular export of report endpoints (`?format=csv|xlsx`)
+ */
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export type ExportColumnType = 'string' | 'integer' | 'number' | 'date' | 'datetime';
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+  type?: ExportColumnType;
+}
+
+export interface ExportSheet {
+  name: string;
+  columns: ExportColumn[];
+  rows: Record<string, unknown>[];
+}
+
+export interface ExportReport {
+  /** Base file name without extension (the current date is appended) */
+  filename: string;
+  title: string;
+  /** Filters applied to the report; undefined/empty values are omitted */
+  filters: Record<string, unknown>;
+  sheets: ExportSheet[];
+  /** Why rows are missing from the export (e.g. a row limit), shown in the report metadata */
+  truncated?: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const NUMBER_FORMATS: Partial<Record<ExportColumnType, string>> = {
+  integer: '#,##0',
+  number: '#,##0.00',
+  date: 'yyyy-mm-dd',
+  datetime: 'yyyy-mm-dd hh:mm:ss',
+};
+
+/**
+ * Check whether a value is a supported export format
+ * @param value - Raw `format` query parameter
+ * @returns True for 'csv' or 'xlsx'
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Get the requested export format of a request
+ * @param req - Express request
+ * @returns The export format, or null when JSON is requested
+ */
+export function getExportFormat(req: Request): ExportFormat | null {
+  return isExportFormat(req.query.format) ? req.query.format : null;
+}
+
+/**
+ * Reject requests with an unsupported `format` query parameter
+ */
+export function validateExportFormat(req: Request, res: Response, next: NextFunction) {
+  const { format } = req.query;
+  if (format !== undefined && format !== 'json' && !isExportFormat(format)) {
+    return res.status(400).json({ error: `Unsupported format. Use one of: json, ${EXPORT_FORMATS.join(', ')}` });
+  }
+  next();
+}
+
+/**
+ * Convert a database value to the column type
+ * pg returns bigint and numeric columns as strings, so numbers are parsed here.
+ * @param value - Raw row value
+ * @param type - Column type
+ * @returns Typed value (null for missing values)
+ */
+export function toTypedValue(value: unknown, type: ExportColumnType = 'string'): string | number | Date | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  switch (type) {
+    case 'integer':
+    case 'number': {
+      const parsed = Number(value);
+      return Number.isFinite(parsed) ? parsed : null;
+    }
+    case 'date':
+    case 'datetime': {
+      const parsed = value instanceof Date ? value : new Date(String(value));
+      return Number.isNaN(parsed.getTime()) ? null : parsed;
+    }
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Format a numeric database value for display
+ * @param value - Raw value (pg returns numeric columns as strings)
+ * @param decimals - Number of decimals
+ * @returns Formatted number, or '-' when missing
+ */
+export function formatNumber(value: unknown, decimals = 0): string {
+  const parsed = toTypedValue(value, 'number');
+  if (parsed === null) {
+    return '-';
+  }
+  return (parsed as number).toLocaleString('en-US', {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+}
+
+/**
+ * Escape a value for a CSV cell
+ * Text starting with a spreadsheet formula character is prefixed with a quote
+ * so it is not evaluated when the file is opened.
+ * @param value - Typed value
+ * @param type - Column type
+ * @returns CSV cell
+ */
+export function toCsvCell(value: string | number | Date | null, type: ExportColumnType = 'string'): string {
+  if (value === null) {
+    return '';
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = type === 'date' ? value.toISOString().slice(0, 10) : value.toISOString();
+  } else if (typeof value === 'number') {
+    text = String(value);
+  } else {
+    text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvLine = (cells: string[]) => cells.join(',') + '\r\n';
+
+/**
+ * Filter entries to include in the export metadata
+ * @param filters - Report filters
+ * @returns [name, value] pairs of the filters that are set
+ */
+export function describeFilters(filters: Record<string, unknown>): [string, string][] {
+  return Object.entries(filters)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([name, value]) => [name, String(value)]);
+}
+
+/**
+ * Report metadata rows: title, generation time, filters and truncation
+ */
+function describeReport(report: ExportReport, generatedAt: Date): [string, string | Date][] {
+  return [
+    ['Report', report.title],
+    ['Generated at', generatedAt],
+    ...describeFilters(report.filters),
+    ...(report.truncated ? [['Truncated', report.truncated] as [string, string]] : []),
+  ];
+}
+
+function buildCsv(report: ExportReport, generatedAt: Date): string {
+  let csv = '\uFEFF'; // BOM so spreadsheet applications detect UTF-8
+  for (const [name, value] of describeReport(report, generatedAt)) {
+    csv += csvLine([toCsvCell(name), value instanceof Date ? value.toISOString() : toCsvCell(value)]);
+  }
+
+  for (const sheet of report.sheets) {
+    csv += '\r\n';
+    if (report.sheets.length > 1) {
+      csv += csvLine([toCsvCell(sheet.name)]);
+    }
+    csv += csvLine(sheet.columns.map(column => toCsvCell(column.header)));
+    for (const row of sheet.rows) {
+      csv += csvLine(sheet.columns.map(column =>
+        toCsvCell(toTypedValue(row[column.key], column.type), column.type)
+      ));
+    }
+  }
+
+  return csv;
+}
+
+async function buildXlsx(report: ExportReport, generatedAt: Date): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = generatedAt;
+
+  const info = workbook.addWorksheet('Report Info');
+  info.columns = [{ width: 20 }, { width: 50 }];
+  for (const [name, value] of describeReport(report, generatedAt)) {
+    const row = info.addRow([name, value]);
+    if (value instanceof Date) {
+      row.getCell(2).numFmt = NUMBER_FORMATS.datetime!;
+    }
+  }
+  info.getColumn(1).font = { bold: true };
+
+  for (const sheet of report.sheets) {
+    // Excel limits sheet names to 31 characters
+    const worksheet = workbook.addWorksheet(sheet.name.slice(0, 31));
+    worksheet.columns = sheet.columns.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: Math.max(12, column.header.length + 2),
+      style: NUMBER_FORMATS[column.type || 'string'] ? { numFmt: NUMBER_FORMATS[column.type || 'string'] } : {},
+    }));
+    worksheet.getRow(1).font = { bold: true };
+    worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+    for (const row of sheet.rows) {
+      const typedRow: Record<string, string | number | Date | null> = {};
+      for (const column of sheet.columns) {
+        typedRow[column.key] = toTypedValue(row[column.key], column.type);
+      }
+      worksheet.addRow(typedRow);
+    }
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Send a report as a CSV or XLSX attachment
+ * The file is built before any header is sent, so a failure still leaves the
+ * caller free to answer with a JSON error.
+ * @param res - Express response
+ * @param format - Export format
+ * @param report - Report title, filters and tabular data
+ */
+export async function sendExport(res: Response, format: ExportFormat, report: ExportReport): Promise<void> {
+  const generatedAt = new Date();
+  const baseName = report.filename.replace(/[^A-Za-z0-9._-]+/g, '-');
+  const filename = `${baseName}-${generatedAt.toISOString().slice(0, 10)}.${format}`;
+
+  const body = format === 'csv' ? buildCsv(report, generatedAt) : await buildXlsx(report, generatedAt);
+
+  res.status(200);
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  if (report.truncated) {
+    res.setHeader('X-Export-Truncated', 'true');
+  }
+  res.end(body);
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import pool from '../db.js';
+import { gitIngestion } from './gitIngestion.js';
+
+// Mock the database pool
+vi.mock('../db.js', () => ({
+  default: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}));
+
+describe('gitIngestion.ingestRepository', () => {
+  let repoPath: string;
+  let client: { query: ReturnType<typeof vi.fn>; release: ReturnType<typeof vi.fn> };
+
+  const git = (args: string[], date = '2026-10-12T10:00:00Z') => execFileSync('git', args, {
+    cwd: repoPath,
+    env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date },
+  }).toString().trim();
+
+  const commitFile = (file: string, content: string, message: string[], date?: string) => {
+    fs.writeFileSync(path.join(repoPath, file), content);
+    git(['add', file]);
+    git(['-c', 'user.name=Jane Smith', '-c', 'user.email=jane@example.com', 'commit', '-q', ...message.flatMap(m => ['-m', m])], date);
+  };
+
+  beforeAll(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-test-'));
+    git(['init', '-q']);
+    commitFile('a.txt', 'one\ntwo\n', ['BILLING | Add invoices', 'Creates the invoice table.']);
+    commitFile('b.txt', 'three\n', ['Fix typo'], '2026-10-13T10:00:00Z');
+    const typoHash = git(['rev-parse', 'HEAD']);
+    git(['-c', 'user.name=Jane Smith', '-c', 'user.email=jane@example.com', 'revert', '--no-edit', typoHash], '2026-10-14T10:00:00Z');
+  });
+
+  afterAll(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client = {
+      query: vi.fn(async (sql: string, params?: any[]) => {
+        if (sql.includes('INSERT INTO repositories')) {
+          return { rows: [{ id: 7 }] };
+        }
+        if (sql.includes('INSERT INTO commits')) {
+          // First commit already ingested, the others are new
+          return { rows: params!.filter((_, i) => i % 13 === 1).map((_, i) => ({ inserted: i > 0 })) };
+        }
+        return { rows: [], rowCount: 1 };
+      }),
+      release: vi.fn(),
+    };
+    vi.mocked(pool.connect).mockResolvedValue(client as any);
+  });
+
+  it('should upsert the repository and its commits in one transaction', async () => {
+    const result = await gitIngestion.ingestRepository(repoPath, { name: 'billing-service' });
+
+    expect(result).toEqual({ repository: 'billing-service', repositoryId: 7, inserted: 2, updated: 1, reverted: 1 });
+    expect(client.query).toHaveBeenCalledWith('BEGIN');
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+    expect(client.release).toHaveBeenCalled();
+
+    const insert = client.query.mock.calls.find(call => String(call[0]).includes('INSERT INTO commits'))!;
+    expect(insert[0]).toContain('ON CONFLICT (repository_id, hash)');
+    const rows = Array.from({ length: insert[1].length / 13 }, (_, i) => insert[1].slice(i * 13, i * 13 + 13));
+    // Newest first: revert, typo fix, feature
+    expect(rows.map(row => [row[5], row[7], row[8], row[9], row[10]])).toEqual([
+      ['Revert "Fix typo"', null, 0, 1, 0],
+      ['Fix typo', null, 1, 0, 100],
+      ['BILLING | Add invoices', 'BILLING', 2, 0, 100],
+    ]);
+    expect(rows[2][6]).toBe('Creates the invoice table.');
+  });
+
+  it('should keep weights edited from the dashboard when a revert is ingested', async () => {
+    await gitIngestion.ingestRepository(repoPath, { name: 'billing-service' });
+
+    const update = client.query.mock.calls.find(call => String(call[0]).includes('UPDATE commits SET weight'))!;
+    expect(update[0]).toContain("e.new_values ? 'weight'");
+    expect(update[1]).toEqual([7, [expect.any(String)], 0]);
+  });
+
+  it('should categorize the commits with the taxonomy', async () => {
+    const defaultQuery = client.query.getMockImplementation() as (sql: string, params?: any[]) => Promise<any>;
+    client.query.mockImplementation(async (sql: string, params?: any[]) => {
+      if (sql.includes('FROM categories')) {
+        return { rows: [{ id: 1, name: 'PAYMENTS', color: '#3b82f6', parent_id: null, synonyms: ['BILLING'] }] };
+      }
+      if (sql.includes('FROM category_rules')) {
+        return { rows: [{ id: 1, category_id: 1, pattern: '\\btypo\\b', position: 0 }] };
+      }
+      return defaultQuery(sql, params);
+    });
+
+    await gitIngestion.ingestRepository(repoPath, { name: 'billing-service' });
+
+    const insert = client.query.mock.calls.find(call => String(call[0]).includes('INSERT INTO commits'))!;
+    const categories = Array.from({ length: insert[1].length / 13 }, (_, i) => insert[1][i * 13 + 7]);
+    expect(categories).toEqual(['PAYMENTS', 'PAYMENTS', 'PAYMENTS']);
+  });
+
+  it('should default the repository name to the directory name', async () => {
+    const result = await gitIngestion.ingestRepository(repoPath);
+
+    expect(result.repository).toBe(path.basename(fs.realpathSync(repoPath)));
+  });
+
+  it('should roll back when the upsert fails', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('INSERT INTO commits')) {
+        throw new Error('connection lost');
+      }
+      if (sql.includes('FROM categor')) {
+        return { rows: [] };
+      }
+      return { rows: [{ id: 7 }], rowCount: 1 };
+    });
+
+    await expect(gitIngestion.ingestRepository(repoPath)).rejects.toThrow('connection lost');
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should reject paths that are not git repositories', async () => {
+    const emptyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-empty-'));
+    try {
+      await expect(gitIngestion.ingestRepository(emptyDir)).rejects.toThrow('git rev-parse failed');
+      expect(pool.connect).not.toHaveBeenCalled();
+    } finally {
+      fs.rmSync(emptyDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,187 @@
+import { spawn } from 'child_process';
+import path from 'path';
+import pool from '../db.js';
+import { loadCategoryResolver } from './categoryTaxonomy.js';
+import { upsertCommits, upsertRepository } from './commitStore.js';
+import { GIT_LOG_ARGS, ParsedCommit, takeGitLogRecords } from './gitLog.js';
+import { extractTicketKeys } from './ticketKeys.js';
+import { viewRefresher } from './viewRefresher.js';
+
+export interface IngestOptions {
+  /** Repository name (default: name of the repository's top-level directory) */
+  name?: string;
+  /** Only read commits after this date (passed to `git log --since`) */
+  since?: string;
+  /** Branch or ref to read (default: HEAD) */
+  ref?: string;
+}
+
+export interface IngestResult {
+  repository: string;
+  repositoryId: number;
+  inserted: number;
+  updated: number;
+  reverted: number;
+}
+
+const DEFAULT_WEIGHT = 100;
+/** Weight of reverted commits and of the reverts themselves */
+const REVERTED_WEIGHT = 0;
+
+/**
+ * Run git in a repository and return its trimmed output
+ */
+function runGit(repoPath: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const git = spawn('git', ['-C', repoPath, ...args]);
+    let stdout = '';
+    let stderr = '';
+    git.stdout.setEncoding('utf-8');
+    git.stdout.on('data', chunk => { stdout += chunk; });
+    git.stderr.on('data', chunk => { stderr += chunk; });
+    git.on('error', reject);
+    git.on('close', code => {
+      if (code === 0) {
+        resolve(stdout.trim());
+      } else {
+        reject(new Error(`git ${args[0]} failed in ${repoPath}: ${stderr.trim() || `exit code ${code}`}`));
+      }
+    });
+  });
+}
+
+/**
+ * Read the commits of a repository with `git log --numstat`
+ * The output is parsed while it streams, so large histories are not buffered whole.
+ */
+function readCommits(repoPath: string, options: IngestOptions): Promise<ParsedCommit[]> {
+  const args = [...GIT_LOG_ARGS];
+  if (options.since) {
+    args.push(`--since=${options.since}`);
+  }
+  args.push(options.ref || 'HEAD', '--');
+
+  return new Promise((resolve, reject) => {
+    const git = spawn('git', ['-C', repoPath, ...args]);
+    const commits: ParsedCommit[] = [];
+    let buffer = '';
+    let stderr = '';
+
+    git.stdout.setEncoding('utf-8');
+    git.stdout.on('data', chunk => {
+      const parsed = takeGitLogRecords(buffer + chunk);
+      commits.push(...parsed.commits);
+      buffer = parsed.rest;
+    });
+    git.stderr.on('data', chunk => { stderr += chunk; });
+    git.on('error', reject);
+    git.on('close', code => {
+      if (code !== 0) {
+        reject(new Error(`git log failed in ${repoPath}: ${stderr.trim() || `exit code ${code}`}`));
+        return;
+      }
+      commits.push(...takeGitLogRecords(buffer, true).commits);
+      resolve(commits);
+    });
+  });
+}
+
+/**
+ * Git Ingestion
+ *
+ * Reads local git repositories and upserts them into `repositories` and
+ * `commits`. Re-running is idempotent: existing commits (matched by
+ * repository and hash) get their git metadata updated, while fields edited
+ * from the dashboard (subject, category, weight, AI tools) are kept.
+ * Reverts and the commits they revert get a weight of 0.
+ */
+class GitIngestion {
+  /**
+   * Ingest one repository
+   * @param repoPath - Path of a local clone (any directory inside the work tree)
+   * @param options - Repository name, date and ref restrictions
+   */
+  async ingestRepository(repoPath: string, options: IngestOptions = {}): Promise<IngestResult> {
+    const topLevel = await runGit(repoPath, ['rev-parse', '--show-toplevel']);
+    const name = options.name || path.basename(topLevel);
+    const commits = await readCommits(topLevel, options);
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const repositoryId = await upsertRepository(client, name);
+      const categories = await loadCategoryResolver(client);
+      const counts = await upsertCommits(client, repositoryId, commits.map(commit => ({
+        ...commit,
+        category: categories.categorize(commit.subject),
+        weight: commit.revertsHash ? REVERTED_WEIGHT : DEFAULT_WEIGHT,
+        ticketKeys: extractTicketKeys(commit.subject, commit.description, name),
+      })));
+      const result: IngestResult = { repository: name, repositoryId, inserted: counts.inserted, updated: counts.updated, reverted: 0 };
+
+      // Reverted commits may have been ingested in an earlier run
+      // (weights edited from the dashboard are kept)
+      const revertedHashes = commits
+        .map(commit => commit.revertsHash)
+        .filter((hash): hash is string => hash !== null);
+      if (revertedHashes.length > 0) {
+        const reverted = await client.query(
+          `UPDATE commits SET weight = $3
+           WHERE repository_id = $1 AND hash = ANY($2) AND weight <> $3
+             AND NOT EXISTS (
+               SELECT 1 FROM commit_edits e
+               WHERE e.commit_id = commits.id AND e.new_values ? 'weight'
+             )`,
+          [repositoryId, revertedHashes, REVERTED_WEIGHT]
+        );
+        result.reverted = reverted.rowCount ?? 0;
+      }
+
+      await client.query('COMMIT');
+      return result;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+export const gitIngestion = new GitIngestion();
+
+// CLI support - ingest the repositories given as arguments
+// Usage: npm run ingest -- <repo-path>... [--since=YYYY-MM-DD] [--ref=<branch>] [--name=<name>] [--no-refresh]
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const option = (flag: string) => args.find(arg => arg.startsWith(`--${flag}=`))?.split('=').slice(1).join('=');
+  const repoPaths = args.filter(arg => !arg.startsWith('--'));
+  const options: IngestOptions = { since: option('since'), ref: option('ref'), name: option('name') };
+
+  if (repoPaths.length === 0 || (options.name && repoPaths.length > 1)) {
+    console.error('Usage: npm run ingest -- <repo-path>... [--since=YYYY-MM-DD] [--ref=<branch>] [--name=<name>] [--no-refresh]');
+    console.error('--name can only be used with a single repository');
+    process.exit(1);
+  }
+
+  (async () => {
+    let failed = 0;
+    for (const repoPath of repoPaths) {
+      try {
+        const result = await gitIngestion.ingestRepository(repoPath, options);
+        console.log(`✓ ${result.repository}: ${result.inserted} new, ${result.updated} updated, ${result.reverted} marked as reverted`);
+      } catch (error) {
+        failed++;
+        console.error(`✗ ${repoPath}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    // The aggregated statistics only include the new commits after a refresh
+    if (!args.includes('--no-refresh') && failed < repoPaths.length) {
+      await viewRefresher.refreshAll();
+    }
+
+    process.exit(failed > 0 ? 1 : 0);
+  })();
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { extractCategory, parseGitLogRecord, takeGitLogRecords } from './gitLog.js';
+
+const record = (fields: string[], numstat = '') => `${fields.join('\x1f')}\x1f${numstat}`;
+
+const HASH = 'a1b2c3d4e5f60718293a4b5c6d7e8f9012345678';
+
+describe('extractCategory', () => {
+  it('should apply the pipe, bracket and uppercase rules', () => {
+    expect(extractCategory('BILLING | Implemented feature')).toBe('BILLING');
+    expect(extractCategory('billing| Implemented feature')).toBe('BILLING');
+    expect(extractCategory('[CS] Fixed bug')).toBe('CS');
+    expect(extractCategory('INFRA Upgrade Postgres')).toBe('INFRA');
+    expect(extractCategory('API: add endpoint')).toBe('API');
+  });
+
+  it('should return null when no rule matches', () => {
+    expect(extractCategory('Fix typo in README')).toBeNull();
+    expect(extractCategory('A small fix')).toBeNull();
+    expect(extractCategory('[] Empty brackets')).toBeNull();
+  });
+
+  it('should not take issue keys for categories', () => {
+    expect(extractCategory('PAY-123 Fix rounding')).toBeNull();
+    expect(extractCategory('[PAY-123] Fix rounding')).toBeNull();
+    expect(extractCategory('PAY-123 | Fix rounding')).toBeNull();
+    expect(extractCategory('UTF-8 Decode file names')).toBe('UTF-8');
+  });
+});
+
+describe('parseGitLogRecord', () => {
+  it('should parse metadata, description and line counts', () => {
+    const commit = parseGitLogRecord(record(
+      [HASH, 'Jane Smith', 'jane@example.com', '2026-10-12T10:15:00+02:00', '[CS] Fix login', 'Longer description\n\nSecond paragraph\n'],
+      '\n\n10\t2\tsrc/login.ts\n-\t-\tassets/logo.png\n5\t0\tsrc/login.test.ts\n'
+    ));
+
+    expect(commit).toEqual({
+      hash: HASH,
+      authorName: 'Jane Smith',
+      authorEmail: 'jane@example.com',
+      commitDate: '2026-10-12T10:15:00+02:00',
+      subject: '[CS] Fix login',
+      description: 'Longer description\n\nSecond paragraph',
+      category: 'CS',
+      linesAdded: 15,
+      linesDeleted: 2,
+      revertsHash: null,
+    });
+  });
+
+  it('should detect reverts and empty descriptions', () => {
+    const commit = parseGitLogRecord(record(
+      [HASH, 'Jane', 'jane@example.com', '2026-10-12T10:15:00Z', 'Revert "Add feature"', `This reverts commit ${HASH.replace('a1', 'ff')}.\n`]
+    ));
+
+    expect(commit?.revertsHash).toBe(HASH.replace('a1', 'ff'));
+
+    const plain = parseGitLogRecord(record([HASH, 'Jane', 'jane@example.com', '2026-10-12T10:15:00Z', 'Fix', '']));
+    expect(plain?.description).toBeNull();
+  });
+
+  it('should ignore malformed records', () => {
+    expect(parseGitLogRecord('')).toBeNull();
+    expect(parseGitLogRecord(record(['not-a-hash', 'Jane', 'j@example.com', '2026-10-12', 'Fix', '']))).toBeNull();
+  });
+});
+
+describe('takeGitLogRecords', () => {
+  it('should keep the incomplete last record until the output is complete', () => {
+    const output = `\x1e${record([HASH, 'Jane', 'jane@example.com', '2026-10-12T10:15:00Z', 'First', ''], '\n1\t1\ta.ts\n')}` +
+      `\x1e${HASH.slice(0, 20)}`;
+
+    const partial = takeGitLogRecords(output);
+    expect(partial.commits.map(commit => commit.subject)).toEqual(['First']);
+    expect(partial.rest).toBe(HASH.slice(0, 20));
+
+    const rest = partial.rest + HASH.slice(20) + '\x1fJohn\x1fjohn@example.com\x1f2026-10-13T09:00:00Z\x1fSecond\x1f\x1f\n3\t0\tb.ts\n';
+    const final = takeGitLogRecords(rest, true);
+    expect(final.commits.map(commit => [commit.subject, commit.linesAdded])).toEqual([['Second', 3]]);
+    expect(final.rest).toBe('');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Parsing of `git log --numstat` output and commit categorization
+ */
+import { isTicketKey } from './ticketKeys.js';
+
+export interface ParsedCommit {
+  hash: string;
+  authorName: string;
+  authorEmail: string;
+  /** Author date (ISO 8601 with offset) */
+  commitDate: string;
+  subject: string;
+  description: string | null;
+  category: string | null;
+  linesAdded: number;
+  linesDeleted: number;
+  /** Hash of the commit undone by this one ("This reverts commit …") */
+  revertsHash: string | null;
+}
+
+// Record and field separators (cannot appear in commit metadata)
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+
+/**
+ * Arguments for `git log` producing the output read by parseGitLogRecord
+ * Each commit starts with a record separator; the metadata fields are followed
+ * by the --numstat lines of the commit. Merge commits are skipped.
+ */
+export const GIT_LOG_ARGS = [
+  'log',
+  '--numstat',
+  '--no-merges',
+  '--no-renames',
+  '--date-order',
+  `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%ae${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%s${FIELD_SEPARATOR}%b${FIELD_SEPARATOR}`,
+];
+
+const MAX_CATEGORY_LENGTH = 50;
+
+/**
+ * Extract the category of a commit from its subject
+ * Rules (first match wins):
+ * 1. Pipe delimiter: `BILLING | Implemented feature` → BILLING
+ * 2. Square brackets: `[CS] Fixed bug` → CS
+ * 3. First uppercase word: `BILLING Implemented feature` → BILLING
+ * Issue keys (`PAY-123 | Fix`, `[PAY-123] Fix`) are not categories.
+ * @param subject - Commit subject
+ * @returns Upper-case category, or null when no rule matches
+ */
+export function extractCategory(subject: string): string | null {
+  const text = subject.trim();
+
+  const pipe = text.match(/^([^|[\]]+?)\s*\|/);
+  if (pipe && pipe[1].trim().length <= MAX_CATEGORY_LENGTH && !isTicketKey(pipe[1].trim())) {
+    return pipe[1].trim().toUpperCase();
+  }
+
+  const bracket = text.match(/^\[([^\]]+)\]/);
+  if (bracket && bracket[1].trim() && bracket[1].trim().length <= MAX_CATEGORY_LENGTH && !isTicketKey(bracket[1].trim())) {
+    return bracket[1].trim().toUpperCase();
+  }
+
+  // At least two characters, so sentences starting with "A" are not categorized
+  const uppercase = text.match(/^([A-Z][A-Z0-9_-]+)(?=\s|:|$)/);
+  if (uppercase && !isTicketKey(uppercase[1])) {
+    return uppercase[1];
+  }
+
+  return null;
+}
+
+/**
+ * Parse the numstat lines of a commit
+ * Binary files ("-" counts) are counted as 0 lines.
+ */
+function sumNumstat(block: string): { linesAdded: number; linesDeleted: number } {
+  let linesAdded = 0;
+  let linesDeleted = 0;
+
+  for (const line of block.split('\n')) {
+    const match = line.match(/^(\d+|-)\t(\d+|-)\t/);
+    if (match) {
+      linesAdded += match[1] === '-' ? 0 : parseInt(match[1], 10);
+      linesDeleted += match[2] === '-' ? 0 : parseInt(match[2], 10);
+    }
+  }
+
+  return { linesAdded, linesDeleted };
+}
+
+/**
+ * Parse one commit record of the GIT_LOG_ARGS output (without its leading separator)
+ * @returns The commit, or null for an empty/malformed record
+ */
+export function parseGitLogRecord(record: string): ParsedCommit | null {
+  const fields = record.split(FIELD_SEPARATOR);
+  if (fields.length < 7 || !/^[0-9a-f]{7,64}$/.test(fields[0])) {
+    return null;
+  }
+
+  const [hash, authorName, authorEmail, commitDate, subject, body] = fields;
+  const description = body.trim() || null;
+  const reverts = description?.match(/This reverts commit ([0-9a-f]{7,64})/);
+
+  return {
+    hash,
+    authorName,
+    authorEmail,
+    commitDate,
+    subject,
+    description,
+    category: extractCategory(subject),
+    ...sumNumstat(fields.slice(6).join(FIELD_SEPARATOR)),
+    revertsHash: reverts ? reverts[1] : null,
+  };
+}
+
+/**
+ * Split streamed `git log` output into complete commit records
+ * @param buffer - Output received so far (not yet parsed)
+ * @param final - True once the output is complete
+ * @returns Parsed commits and the incomplete remainder to keep
+ */
+export function takeGitLogRecords(buffer: string, final = false): { commits: ParsedCommit[]; rest: string } {
+  const records = buffer.split(RECORD_SEPARATOR);
+  // The last record may still be incomplete
+  const rest = final ? '' : records.pop() ?? '';
+  const commits = records
+    .map(parseGitLogRecord)
+    .filter((commit): commit is ParsedCommit => commit !== null);
+
+  return { commits, rest };
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeIssueKey, parseIssueFile, validateImportedIssue, validateImportedIssues } from './issueImport.js';
+
+describe('issueImport', () => {
+  const jiraIssue = (overrides: Record<string, unknown> = {}) => ({
+    key: 'PAY-12',
+    fields: {
+      summary: ' Round invoice totals ',
+      issuetype: { name: 'Story' },
+      status: { name: 'Done' },
+      parent: { key: 'PAY-1', fields: { summary: 'Invoicing', issuetype: { name: 'Epic' } } },
+      customfield_10016: 3,
+      created: '2026-10-01T09:00:00.000+0200',
+      resolutiondate: '2026-10-08T17:00:00.000+0200',
+      ...overrides,
+    },
+  });
+
+  describe('parseIssueFile', () => {
+    it('should accept Jira search results or a bare array', () => {
+      expect(parseIssueFile({ total: 1, issues: [1] })).toEqual({ file: { project: null, issues: [1] } });
+      expect(parseIssueFile({ repository: ' payments ', issues: [] })).toEqual({ file: { project: 'payments', issues: [] } });
+      expect(parseIssueFile([1, 2])).toEqual({ file: { project: null, issues: [1, 2] } });
+    });
+
+    it('should reject other structures', () => {
+      expect(parseIssueFile('issues')).toHaveProperty('error');
+      expect(parseIssueFile({ issues: {} })).toHaveProperty('error');
+      expect(parseIssueFile({ repository: 4, issues: [] })).toHaveProperty('error');
+    });
+  });
+
+  describe('normalizeIssueKey', () => {
+    it('should normalize Jira keys and GitLab references', () => {
+      expect(normalizeIssueKey(' pay-12 ')).toBe('PAY-12');
+      expect(normalizeIssueKey('acme/Payments#42')).toBe('payments#42');
+      expect(normalizeIssueKey('Fix bug')).toBeNull();
+      expect(normalizeIssueKey(12)).toBeNull();
+    });
+  });
+
+  describe('validateImportedIssue', () => {
+    it('should read Jira issues with their epic and story points', () => {
+      expect(validateImportedIssue(jiraIssue())).toEqual({
+        issue: {
+          key: 'PAY-12',
+          title: 'Round invoice totals',
+          issueType: 'Story',
+          status: 'Done',
+          epicKey: 'PAY-1',
+          epicName: 'Invoicing',
+          storyPoints: 3,
+          createdAt: '2026-10-01T09:00:00.000+0200',
+          resolvedAt: '2026-10-08T17:00:00.000+0200',
+        },
+      });
+    });
+
+    it('should make epics their own epic', () => {
+      const result = validateImportedIssue({ key: 'PAY-1', fields: { summary: 'Invoicing', issuetype: { name: 'Epic' } } });
+
+      expect(result).toMatchObject({ issue: { key: 'PAY-1', epicKey: 'PAY-1', epicName: 'Invoicing', storyPoints: null } });
+    });
+
+    it('should read GitLab issues, keyed by project and iid', () => {
+      const gitLabIssue = {
+        iid: 42,
+        title: 'Checkout fails',
+        issue_type: 'incident',
+        state: 'closed',
+        epic: { iid: 5, title: 'Checkout' },
+        weight: 2,
+        created_at: '2026-10-01T09:00:00Z',
+        closed_at: null,
+      };
+
+      expect(validateImportedIssue({ ...gitLabIssue, references: { full: 'acme/web#42' } })).toMatchObject({
+        issue: { key: 'web#42', issueType: 'incident', epicKey: '&5', epicName: 'Checkout', storyPoints: 2, resolvedAt: null },
+      });
+      expect(validateImportedIssue(gitLabIssue, 'Payments')).toMatchObject({ issue: { key: 'payments#42' } });
+      expect(validateImportedIssue(gitLabIssue)).toHaveProperty('error');
+    });
+
+    it('should read flat issues', () => {
+      expect(validateImportedIssue({ key: 'OPS-3', title: 'Rotate keys', type: 'Task', epic: 'ops-1', story_points: 0.5 })).toMatchObject({
+        issue: { key: 'OPS-3', issueType: 'Task', epicKey: 'OPS-1', epicName: null, storyPoints: 0.5, createdAt: null },
+      });
+    });
+
+    it('should reject invalid issues', () => {
+      expect(validateImportedIssue({ key: 'Fix', title: 'Fix' })).toHaveProperty('error');
+      expect(validateImportedIssue({ key: 'OPS-3' })).toEqual({ error: 'title (or summary) is required' });
+      expect(validateImportedIssue({ key: 'OPS-3', title: 'Rotate', story_points: -1 })).toHaveProperty('error');
+      expect(validateImportedIssue(jiraIssue({ created: 'last week' }))).toHaveProperty('error');
+    });
+  });
+
+  it('should skip invalid and duplicated issues', () => {
+    const { issues, problems } = validateImportedIssues([jiraIssue(), { key: 'OPS-3' }, jiraIssue()]);
+
+    expect(issues.map(issue => issue.key)).toEqual(['PAY-12']);
+    expect(problems).toEqual([
+      { index: 1, key: 'OPS-3', error: 'title (or summary) is required' },
+      { index: 2, key: 'PAY-12', error: 'Duplicate key in file' },
+    ]);
+  });
+});
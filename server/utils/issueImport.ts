@@ -0,0 +1,250 @@
+/**
+ * Validation of issue export files (Jira or GitLab, JSON)
+ *
+ * Accepted shapes:
+ * - `{ "issues": [ ... ] }` (Jira search results; an optional "repository" names the
+ *   GitLab project of issues without references)
+ * - `[ ... ]` (issues only)
+ *
+ * Issues use one of these forms:
+ * - Jira REST API: `key` and `fields` (summary, issuetype.name, status.name, parent or
+ *   epic, story_points or customfield_10016, created, resolutiondate)
+ * - GitLab REST API: `iid` (project from references.full), title, issue_type, state,
+ *   epic (iid, title), weight, created_at, closed_at
+ * - Flat: key, title, type, status, epic_key, epic_name, story_points, created_at, resolved_at
+ */
+import { IssueRecord } from './issueStore.js';
+import { gitLabIssueKey } from './ticketKeys.js';
+
+export interface IssueImportFile {
+  /** GitLab project of issues without references, if named in the file */
+  project: string | null;
+  issues: unknown[];
+}
+
+export interface IssueImportIssue {
+  /** Position of the issue in the file */
+  index: number;
+  key: string | null;
+  error: string;
+}
+
+export interface ValidatedIssueImport {
+  issues: IssueRecord[];
+  /** Issues that were skipped (invalid or duplicated) */
+  problems: IssueImportIssue[];
+}
+
+const JIRA_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]{1,19}-[1-9][0-9]{0,8}$/;
+const GITLAB_REFERENCE_PATTERN = /^(.+)#([1-9][0-9]{0,8})$/;
+const MAX_KEY_LENGTH = 100;
+const MAX_LABEL_LENGTH = 100;
+
+/**
+ * Check the top-level structure of an issue export file
+ * @param data - Parsed JSON
+ * @returns The project name and raw issues, or an error message
+ */
+export function parseIssueFile(data: unknown): { file: IssueImportFile } | { error: string } {
+  if (Array.isArray(data)) {
+    return { file: { project: null, issues: data } };
+  }
+  if (!data || typeof data !== 'object') {
+    return { error: 'The file must contain a JSON object or an array of issues' };
+  }
+
+  const { repository, issues } = data as Record<string, unknown>;
+  if (!Array.isArray(issues)) {
+    return { error: '"issues" must be an array' };
+  }
+  if (repository !== undefined && repository !== null && (typeof repository !== 'string' || !repository.trim())) {
+    return { error: '"repository" must be a name' };
+  }
+
+  return { file: { project: typeof repository === 'string' ? repository.trim() : null, issues } };
+}
+
+function optionalString(value: unknown, maxLength = Infinity): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : null;
+}
+
+function optionalDate(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) return null;
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? value : undefined;
+}
+
+const field = (value: unknown, name: string): unknown =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>)[name] : undefined;
+
+/**
+ * Normalize an issue key: Jira keys are upper-case, GitLab references become `project#iid`
+ * @returns The key, or null when it is neither
+ */
+export function normalizeIssueKey(value: unknown): string | null {
+  if (typeof value !== 'string' || value.trim().length > MAX_KEY_LENGTH) return null;
+  const key = value.trim();
+  if (JIRA_KEY_PATTERN.test(key)) {
+    return key.toUpperCase();
+  }
+  const reference = key.match(GITLAB_REFERENCE_PATTERN);
+  return reference ? gitLabIssueKey(reference[1], parseInt(reference[2], 10)) : null;
+}
+
+// Values read from one of the issue forms, before validation
+type IssueValues = Omit<Partial<IssueRecord>, 'key'> & { key: unknown; rawDates: unknown[] };
+
+// Key of an epic: Jira keys and GitLab references are normalized, other values (GitLab "&12") kept
+const epicKey = (value: unknown): string | null =>
+  normalizeIssueKey(value) ?? optionalString(value, MAX_KEY_LENGTH);
+
+/**
+ * Fields of a Jira REST API issue
+ */
+function fromJira(entry: Record<string, unknown>): IssueValues {
+  const fields = entry.fields as Record<string, unknown>;
+  const parent = fields.parent as Record<string, unknown> | undefined;
+  const parentIsEpic = field(field(parent?.fields, 'issuetype'), 'name') === 'Epic';
+  const epic = fields.epic as Record<string, unknown> | undefined;
+
+  return {
+    key: entry.key,
+    title: optionalString(fields.summary) ?? undefined,
+    issueType: optionalString(field(fields.issuetype, 'name'), MAX_LABEL_LENGTH),
+    status: optionalString(field(fields.status, 'name'), MAX_LABEL_LENGTH),
+    epicKey: parentIsEpic ? epicKey(parent?.key) : epicKey(epic?.key ?? fields.customfield_10014),
+    epicName: parentIsEpic
+      ? optionalString(field(parent?.fields, 'summary'), 255)
+      : optionalString(epic?.name ?? epic?.summary, 255),
+    storyPoints: (fields.story_points ?? fields.customfield_10016) as number | null,
+    rawDates: [fields.created, fields.resolutiondate],
+  };
+}
+
+/**
+ * Fields of a GitLab REST API issue
+ */
+function fromGitLab(entry: Record<string, unknown>, project: string | null): IssueValues {
+  const reference = optionalString(field(entry.references, 'full'));
+  const epic = entry.epic as Record<string, unknown> | undefined;
+  const epicIid = epic?.iid ?? entry.epic_iid;
+
+  let key: unknown = null;
+  if (reference) {
+    key = reference;
+  } else if (project && Number.isInteger(entry.iid)) {
+    key = gitLabIssueKey(project, entry.iid as number);
+  }
+
+  return {
+    key,
+    title: optionalString(entry.title) ?? undefined,
+    issueType: optionalString(entry.issue_type ?? entry.type, MAX_LABEL_LENGTH),
+    status: optionalString(entry.state, MAX_LABEL_LENGTH),
+    epicKey: Number.isInteger(epicIid) ? `&${epicIid}` : null,
+    epicName: optionalString(epic?.title, 255),
+    storyPoints: (entry.weight ?? entry.story_points) as number | null,
+    rawDates: [entry.created_at, entry.closed_at],
+  };
+}
+
+/**
+ * Fields of a flat issue
+ */
+function fromFlat(entry: Record<string, unknown>): IssueValues {
+  return {
+    key: entry.key,
+    title: optionalString(entry.title ?? entry.summary) ?? undefined,
+    issueType: optionalString(entry.type ?? entry.issue_type, MAX_LABEL_LENGTH),
+    status: optionalString(entry.status, MAX_LABEL_LENGTH),
+    epicKey: epicKey(entry.epic_key ?? entry.epic),
+    epicName: optionalString(entry.epic_name, 255),
+    storyPoints: entry.story_points as number | null,
+    rawDates: [entry.created_at, entry.resolved_at],
+  };
+}
+
+/**
+ * Validate one issue of an export file
+ * @param raw - Issue (Jira, GitLab or flat form)
+ * @param project - GitLab project of issues without references
+ * @returns The issue to upsert, or an error message
+ */
+export function validateImportedIssue(raw: unknown, project: string | null = null): { issue: IssueRecord } | { error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Issue must be an object' };
+  }
+  const entry = raw as Record<string, unknown>;
+
+  let values: IssueValues;
+  if (entry.fields && typeof entry.fields === 'object') {
+    values = fromJira(entry);
+  } else if (entry.iid !== undefined && entry.key === undefined) {
+    values = fromGitLab(entry, project);
+    if (values.key === null) {
+      return { error: 'GitLab issues need references.full, or a repository chosen on upload' };
+    }
+  } else {
+    values = fromFlat(entry);
+  }
+
+  const key = normalizeIssueKey(values.key);
+  if (!key) {
+    return { error: 'key must be a Jira key (PAY-123) or a GitLab reference (project#42)' };
+  }
+  if (!values.title) {
+    return { error: 'title (or summary) is required' };
+  }
+
+  const storyPoints = values.storyPoints ?? null;
+  if (storyPoints !== null && (typeof storyPoints !== 'number' || !Number.isFinite(storyPoints) || storyPoints < 0)) {
+    return { error: 'story points must be a non-negative number' };
+  }
+
+  const [createdAt, resolvedAt] = values.rawDates.map(optionalDate);
+  if (createdAt === undefined || resolvedAt === undefined) {
+    return { error: 'created and resolved dates must be ISO 8601 dates' };
+  }
+
+  // Commits of an epic count for the epic itself
+  const isEpic = values.issueType?.toLowerCase() === 'epic';
+
+  return {
+    issue: {
+      key,
+      title: values.title,
+      issueType: values.issueType ?? null,
+      status: values.status ?? null,
+      epicKey: isEpic ? key : values.epicKey ?? null,
+      epicName: isEpic ? values.title : values.epicName ?? null,
+      storyPoints,
+      createdAt,
+      resolvedAt,
+    },
+  };
+}
+
+/**
+ * Validate the issues of an export file
+ * Invalid issues and repeated keys are skipped and reported as problems.
+ */
+export function validateImportedIssues(rawIssues: unknown[], project: string | null = null): ValidatedIssueImport {
+  const issues: IssueRecord[] = [];
+  const problems: IssueImportIssue[] = [];
+  const seen = new Set<string>();
+
+  rawIssues.forEach((raw, index) => {
+    const validated = validateImportedIssue(raw, project);
+
+    if ('error' in validated) {
+      const rawKey = raw && typeof raw === 'object' ? (raw as any).key ?? field((raw as any).references, 'full') : null;
+      problems.push({ index, key: typeof rawKey === 'string' ? rawKey : null, error: validated.error });
+    } else if (seen.has(validated.issue.key)) {
+      problems.push({ index, key: validated.issue.key, error: 'Duplicate key in file' });
+    } else {
+      seen.add(validated.issue.key);
+      issues.push(validated.issue);
+    }
+  });
+
+  return { issues, problems };
+}
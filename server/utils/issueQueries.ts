@@ -0,0 +1,166 @@
+import pool from '../db.js';
+import { ReportFilters } from './reportQueries.js';
+import { parseRepoFilter, repositoryNameFilter } from './repositories.js';
+import { hasTeam, teamCondition } from './teams.js';
+
+/**
+ * Effort of the commits linked to imported issues (Jira or GitLab), by epic or issue type
+ *
+ * A commit is linked to the imported issues whose keys appear in its subject or description.
+ * A commit referencing several issues is split evenly between them, so the commit shares,
+ * effective commits and lines of the rows add up to those of the linked commits. Story points
+ * are summed over the issues with commits in the period.
+ *
+ * Commits are filtered by commit date.
+ */
+
+export type IssueEffortGrouping = 'epic' | 'type';
+
+// Aggregated metrics of the rows of the commit_issues CTE
+const EFFORT_METRICS = `
+  COUNT(DISTINCT commit_id)::int as commits,
+  ROUND(SUM(share)::numeric, 2) as commit_share,
+  ROUND(SUM(share * weight / 100)::numeric, 2) as effective_commits,
+  ROUND(SUM(share * lines_changed))::bigint as lines_changed,
+  COUNT(DISTINCT issue_key)::int as issues,
+  COALESCE(SUM(story_points) FILTER (WHERE first_of_issue), 0) as story_points,
+  COUNT(DISTINCT author_email)::int as unique_authors
+`;
+
+const GROUPINGS: Record<IssueEffortGrouping, { select: string; orderBy: string }> = {
+  epic: {
+    select: 'epic_key, epic_name',
+    orderBy: 'effective_commits DESC, epic_name NULLS LAST',
+  },
+  type: {
+    select: `COALESCE(issue_type, 'Unknown') as issue_type`,
+    orderBy: 'effective_commits DESC, issue_type',
+  },
+};
+
+/**
+ * Commits of the filters and their links to imported issues
+ * @returns CTEs (filtered_commits, commit_issues) and their parameters
+ */
+function linkedCommits(filters: ReportFilters): { cte: string; params: any[] } {
+  const { team, dateFrom, dateTo } = filters;
+  const repos = parseRepoFilter(filters.repo);
+  const hasTeamFilter = hasTeam(team);
+
+  const conditions: string[] = [];
+  const params: any[] = [];
+  let paramIndex = 1;
+
+  if (repos.length > 0) {
+    const repoFilter = repositoryNameFilter('r.name', `$${paramIndex}`, repos);
+    conditions.push(repoFilter.condition);
+    params.push(repoFilter.value);
+    paramIndex++;
+  } else {
+    // Archived repositories are left out of the totals across repositories
+    conditions.push('NOT r.archived');
+  }
+
+  if (hasTeamFilter) {
+    conditions.push(teamCondition('c', `$${paramIndex}`));
+    params.push(team);
+    paramIndex++;
+  }
+
+  if (dateFrom) {
+    conditions.push(`c.commit_date >= $${paramIndex}`);
+    params.push(dateFrom);
+    paramIndex++;
+  }
+
+  if (dateTo) {
+    conditions.push(`c.commit_date <= $${paramIndex}`);
+    params.push(dateTo);
+    paramIndex++;
+  }
+
+  const cte = `
+    WITH filtered_commits AS (
+      SELECT
+        c.id,
+        c.author_email,
+        c.weight,
+        c.lines_added + c.lines_deleted as lines_changed,
+        c.ticket_keys
+      FROM ${hasTeamFilter ? 'v_commits_with_identity' : 'commits'} c
+      JOIN repositories r ON r.id = c.repository_id
+      WHERE ${conditions.join(' AND ')}
+    ),
+    commit_issues AS (
+      SELECT
+        fc.id as commit_id,
+        fc.author_email,
+        fc.weight,
+        fc.lines_changed,
+        i.issue_key,
+        i.issue_type,
+        i.story_points,
+        i.epic_key,
+        -- The title of the imported epic wins over the name exported with its issues
+        COALESCE(e.title, i.epic_name, i.epic_key) as epic_name,
+        1.0 / COUNT(*) OVER (PARTITION BY fc.id) as share,
+        ROW_NUMBER() OVER (PARTITION BY i.issue_key ORDER BY fc.id) = 1 as first_of_issue
+      FROM filtered_commits fc
+      JOIN issues i ON i.issue_key = ANY(fc.ticket_keys)
+      LEFT JOIN issues e ON e.issue_key = i.epic_key
+    )
+  `;
+
+  return { cte, params };
+}
+
+/**
+ * How many commits of the filters reference issues, and the effort of the linked commits
+ * @param filters - Repositories ('all' or missing for every active repository), team and commit date range
+ */
+export async function getIssueSummary(filters: ReportFilters): Promise<any> {
+  const { cte, params } = linkedCommits(filters);
+  const result = await pool.query(`${cte}
+    SELECT
+      s.*,
+      ROUND(100.0 * s.linked_commits / NULLIF(s.total_commits, 0), 1) as linked_commits_pct,
+      e.issues,
+      e.epics,
+      e.story_points,
+      e.effective_commits
+    FROM (
+      SELECT
+        COUNT(*)::int as total_commits,
+        COUNT(*) FILTER (WHERE cardinality(ticket_keys) > 0)::int as commits_with_ticket_keys,
+        COUNT(*) FILTER (WHERE EXISTS (SELECT 1 FROM issues i WHERE i.issue_key = ANY(fc.ticket_keys)))::int as linked_commits
+      FROM filtered_commits fc
+    ) s
+    CROSS JOIN (
+      SELECT
+        COUNT(DISTINCT issue_key)::int as issues,
+        COUNT(DISTINCT epic_key)::int as epics,
+        COALESCE(SUM(story_points) FILTER (WHERE first_of_issue), 0) as story_points,
+        ROUND(COALESCE(SUM(share * weight / 100), 0)::numeric, 2) as effective_commits
+      FROM commit_issues
+    ) e
+  `, params);
+  return result.rows[0];
+}
+
+/**
+ * Effort of the linked commits per epic or issue type
+ * Issues without an epic are grouped in a row with a null epic_key.
+ * @param filters - Repositories, team and commit date range
+ * @param grouping - Breakdown of the rows
+ */
+export async function getIssueEffort(filters: ReportFilters, grouping: IssueEffortGrouping): Promise<any[]> {
+  const { cte, params } = linkedCommits(filters);
+  const { select, orderBy } = GROUPINGS[grouping];
+  const result = await pool.query(`${cte}
+    SELECT ${select}, ${EFFORT_METRICS}
+    FROM commit_issues
+    GROUP BY ${grouping === 'epic' ? '1, 2' : '1'}
+    ORDER BY ${orderBy}
+  `, params);
+  return result.rows;
+}
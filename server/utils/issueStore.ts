@@ -0,0 +1,156 @@
+import { PoolClient } from 'pg';
+import { extractTicketKeys } from './ticketKeys.js';
+
+/**
+ * Issue written by the issue import
+ */
+export interface IssueRecord {
+  /** Jira key (PAY-123) or GitLab reference (project#42) */
+  key: string;
+  title: string;
+  issueType: string | null;
+  status: string | null;
+  /** Epic of the issue (its own key for epics) */
+  epicKey: string | null;
+  epicName: string | null;
+  storyPoints: number | null;
+  createdAt: string | null;
+  resolvedAt: string | null;
+}
+
+export interface IssueUpsertCounts {
+  inserted: number;
+  updated: number;
+}
+
+/** Issues upserted per INSERT statement */
+const BATCH_SIZE = 500;
+
+/** Parameters per issue row */
+const COLUMN_COUNT = 9;
+
+/** Commits whose issue keys are extracted per statement */
+const TICKET_KEY_BATCH_SIZE = 1000;
+
+/**
+ * Insert issues or update existing ones (matched by key)
+ * @param client - Client inside a transaction
+ * @param issues - Issues to write (keys must be unique)
+ */
+export async function upsertIssues(client: PoolClient, issues: IssueRecord[]): Promise<IssueUpsertCounts> {
+  const counts: IssueUpsertCounts = { inserted: 0, updated: 0 };
+
+  for (let start = 0; start < issues.length; start += BATCH_SIZE) {
+    const batch = issues.slice(start, start + BATCH_SIZE);
+    const params: any[] = [];
+    const values = batch.map(issue => {
+      params.push(
+        issue.key,
+        issue.title,
+        issue.issueType,
+        issue.status,
+        issue.epicKey,
+        issue.epicName,
+        issue.storyPoints,
+        issue.createdAt,
+        issue.resolvedAt
+      );
+      const offset = params.length - COLUMN_COUNT;
+      return `(${Array.from({ length: COLUMN_COUNT }, (_, i) => `$${offset + i + 1}`).join(', ')})`;
+    });
+
+    const upserted = await client.query(
+      `INSERT INTO issues (
+         issue_key, title, issue_type, status, epic_key, epic_name, story_points, created_at, resolved_at
+       )
+       VALUES ${values.join(', ')}
+       ON CONFLICT (issue_key) DO UPDATE SET
+         title = EXCLUDED.title,
+         issue_type = EXCLUDED.issue_type,
+         status = EXCLUDED.status,
+         epic_key = EXCLUDED.epic_key,
+         epic_name = EXCLUDED.epic_name,
+         story_points = EXCLUDED.story_points,
+         created_at = EXCLUDED.created_at,
+         resolved_at = EXCLUDED.resolved_at,
+         updated_at = NOW()
+       RETURNING (xmax = 0) as inserted`,
+      params
+    );
+
+    for (const row of upserted.rows) {
+      if (row.inserted) {
+        counts.inserted++;
+      } else {
+        counts.updated++;
+      }
+    }
+  }
+
+  return counts;
+}
+
+// Extract and store the issue keys of commits (id, subject, description, repository_name)
+async function writeTicketKeys(client: Pick<PoolClient, 'query'>, commits: any[]): Promise<Map<number, string[]>> {
+  const values = commits.map(commit => ({
+    id: commit.id,
+    keys: extractTicketKeys(commit.subject, commit.description, commit.repository_name),
+  }));
+  await client.query(
+    `UPDATE commits c
+     SET ticket_keys = ARRAY(SELECT jsonb_array_elements_text(v.keys))::varchar[]
+     FROM jsonb_to_recordset($1::jsonb) AS v(id int, keys jsonb)
+     WHERE c.id = v.id`,
+    [JSON.stringify(values)]
+  );
+  return new Map(values.map(({ id, keys }) => [id, keys]));
+}
+
+/**
+ * Extract the issue keys of the commits that never had them extracted
+ * (commits loaded before issue keys were stored)
+ * @param client - Client inside a transaction
+ * @returns Number of commits updated
+ */
+export async function extractMissingTicketKeys(client: Pick<PoolClient, 'query'>): Promise<number> {
+  let total = 0;
+
+  for (;;) {
+    const result = await client.query(
+      `SELECT c.id, c.subject, c.description, r.name as repository_name
+       FROM commits c
+       JOIN repositories r ON r.id = c.repository_id
+       WHERE c.ticket_keys IS NULL
+       ORDER BY c.id
+       LIMIT $1`,
+      [TICKET_KEY_BATCH_SIZE]
+    );
+    if (result.rows.length === 0) {
+      break;
+    }
+    await writeTicketKeys(client, result.rows);
+    total += result.rows.length;
+    if (result.rows.length < TICKET_KEY_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Extract the issue keys of commits again (after a subject edit)
+ * @param client - Client inside a transaction
+ * @param commitIds - Commits to update
+ * @returns The new issue keys by commit id
+ */
+export async function refreshTicketKeys(client: Pick<PoolClient, 'query'>, commitIds: number[]): Promise<Map<number, string[]>> {
+  const result = await client.query(
+    `SELECT c.id, c.subject, c.description, r.name as repository_name
+     FROM commits c
+     JOIN repositories r ON r.id = c.repository_id
+     WHERE c.id = ANY($1)`,
+    [commitIds]
+  );
+  return result.rows.length > 0 ? writeTicketKeys(client, result.rows) : new Map();
+}
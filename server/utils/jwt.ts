@@ -1,6 +1,6 @@
 import jwt from 'jsonwebtoken';
 import { Request } from 'express';
-import { User } from '../db.js';
+import { User, UserRole } from '../db.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-this-in-production';
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
@@ -11,13 +11,14 @@ export interface JWTPayload {
   name: string;
   domain: string;
   avatar_url?: string | null;
+  role?: UserRole;
   iat?: number;
   exp?: number;
 }
 
 /**
  * Generate a JWT token for a user
- * @param user - User object with id, email, name, domain, avatar_url
+ * @param user - User object with id, email, name, domain, avatar_url, role
  * @returns JWT token
  */
 export const signToken = (user: User): string => {
@@ -27,6 +28,7 @@ export const signToken = (user: User): string => {
     name: user.name,
     domain: user.domain,
     avatar_url: user.avatar_url || null,
+    role: user.role || 'user',
   };
 
   return jwt.sign(payload, JWT_SECRET, {
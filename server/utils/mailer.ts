@@ -0,0 +1,131 @@
+import nodemailer from 'nodemailer';
+import env from '../config/env.js';
+
+/**
+ * Pluggable outgoing mail transport (used by the email digests)
+ *
+ * MAIL_TRANSPORT selects the transport:
+ * - 'smtp' - send through the SMTP server configured with SMTP_* variables (default when SMTP_HOST is set)
+ * - 'log'  - print messages to the server log (only when set explicitly, useful in development)
+ * Without MAIL_TRANSPORT and SMTP_HOST no transport is configured and no email is sent.
+ * Other transports can be registered with setMailTransport().
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+const DEFAULT_FROM = 'Metric Mind <no-reply@localhost>';
+
+/**
+ * Read the SMTP configuration from the environment
+ * @returns SMTP configuration, or null when SMTP_HOST is not set
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  if (!env.SMTP_HOST) {
+    return null;
+  }
+
+  const port = parseInt(env.SMTP_PORT || '587', 10);
+  return {
+    host: env.SMTP_HOST,
+    port,
+    // Implicit TLS is the norm on port 465; other ports upgrade with STARTTLS
+    secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+    user: env.SMTP_USER,
+    password: env.SMTP_PASSWORD,
+    from: env.MAIL_FROM || DEFAULT_FROM,
+  };
+}
+
+/**
+ * Create a transport sending through an SMTP server
+ * @param config - SMTP server and sender
+ * @returns SMTP mail transport
+ */
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message: MailMessage) {
+      await transporter.sendMail({ from: config.from, ...message });
+    },
+  };
+}
+
+/**
+ * Transport that only logs messages (no email is sent)
+ */
+export const logTransport: MailTransport = {
+  name: 'log',
+  async send(message: MailMessage) {
+    console.log(`📧 [mail:log] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+  },
+};
+
+let transport: MailTransport | null | undefined;
+
+/**
+ * Build the transport selected by MAIL_TRANSPORT
+ * @returns Mail transport, or null when none is configured
+ */
+export function createConfiguredTransport(): MailTransport | null {
+  const smtpConfig = getSmtpConfig();
+  const name = env.MAIL_TRANSPORT || (smtpConfig ? 'smtp' : null);
+
+  switch (name) {
+    case null:
+      return null;
+    case 'smtp':
+      if (!smtpConfig) {
+        throw new Error('MAIL_TRANSPORT is smtp but SMTP_HOST is not set');
+      }
+      return createSmtpTransport(smtpConfig);
+    case 'log':
+      return logTransport;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${name}`);
+  }
+}
+
+/**
+ * Get the active mail transport (created from the environment on first use)
+ * @returns Mail transport, or null when none is configured
+ */
+export function getMailTransport(): MailTransport | null {
+  if (transport === undefined) {
+    transport = createConfiguredTransport();
+  }
+  return transport;
+}
+
+/**
+ * Replace the active mail transport
+ * @param customTransport - Transport to use, or null to recreate it from the environment
+ */
+export function setMailTransport(customTransport: MailTransport | null): void {
+  transport = customTransport ?? undefined;
+}
@@ -0,0 +1,359 @@
+import { Response } from 'express';
+import PDFDocument from 'pdfkit';
+import { formatNumber, toTypedValue } from './export.js';
+import { BeforeAfterReport, SummaryReport } from './reportQueries.js';
+
+/**
+ * Multi-section PDF report rendered server-side (Reports page)
+ */
+
+export const REPORT_SECTIONS = ['summary', 'contributors', 'categories', 'before-after'] as const;
+
+export type ReportSection = typeof REPORT_SECTIONS[number];
+
+export interface PdfReportPeriod {
+  start: string;
+  end: string;
+}
+
+export interface PdfReportData {
+  title: string;
+  repo: string;
+  dateFrom?: string;
+  dateTo?: string;
+  sections: ReportSection[];
+  summary?: SummaryReport;
+  categories?: any[];
+  beforeAfter?: BeforeAfterReport & { before_period: PdfReportPeriod; after_period: PdfReportPeriod };
+}
+
+interface PdfColumn {
+  header: string;
+  width: number;
+  value: (row: any) => string;
+  align?: 'left' | 'right';
+}
+
+const COLORS = {
+  text: '#111827',
+  muted: '#6b7280',
+  border: '#e5e7eb',
+  headerBg: '#f3f4f6',
+};
+
+// Same category colors as the ContentAnalysis charts
+const CATEGORY_COLORS: Record<string, string> = {
+  'BILLING': '#3b82f6',
+  'CS': '#8b5cf6',
+  'INFRA': '#10b981',
+  'AUTH': '#f59e0b',
+  'API': '#ef4444',
+  'UI': '#ec4899',
+  'DOCS': '#06b6d4',
+  'SECURITY': '#f43f5e',
+  'PERFORMANCE': '#14b8a6',
+  'UNCATEGORIZED': '#6b7280'
+};
+const FALLBACK_CATEGORY_COLORS = ['#6366f1', '#84cc16', '#f97316', '#0ea5e9', '#a855f7', '#eab308'];
+
+const ROW_HEIGHT = 18;
+
+/**
+ * Check whether a value is a known report section
+ * @param value - Section name
+ * @returns True for a supported section
+ */
+export function isReportSection(value: unknown): value is ReportSection {
+  return typeof value === 'string' && (REPORT_SECTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Relative change between two values
+ * @param before - Value of the before period
+ * @param after - Value of the after period
+ * @returns Change in percent, or null when the before value is missing or zero
+ */
+export function percentChange(before: unknown, after: unknown): number | null {
+  const from = toTypedValue(before, 'number') as number | null;
+  const to = toTypedValue(after, 'number') as number | null;
+  if (from === null || to === null || from === 0) {
+    return null;
+  }
+  return ((to - from) / Math.abs(from)) * 100;
+}
+
+function contentWidth(doc: PDFKit.PDFDocument): number {
+  return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+}
+
+function ensureSpace(doc: PDFKit.PDFDocument, height: number) {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+  }
+}
+
+function sectionHeading(doc: PDFKit.PDFDocument, title: string) {
+  ensureSpace(doc, 60);
+  doc.moveDown(1);
+  doc.font('Helvetica-Bold').fontSize(14).fillColor(COLORS.text)
+    .text(title, doc.page.margins.left, doc.y);
+  doc.moveDown(0.5);
+}
+
+function emptyNote(doc: PDFKit.PDFDocument, text: string) {
+  doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted)
+    .text(text, doc.page.margins.left, doc.y);
+}
+
+function drawTable(doc: PDFKit.PDFDocument, columns: PdfColumn[], rows: any[]) {
+  const left = doc.page.margins.left;
+  const width = columns.reduce((total, column) => total + column.width, 0);
+
+  const drawRow = (cells: string[], header: boolean) => {
+    ensureSpace(doc, ROW_HEIGHT);
+    const y = doc.y;
+    if (header) {
+      doc.rect(left, y, width, ROW_HEIGHT).fill(COLORS.headerBg);
+    }
+    doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(9).fillColor(COLORS.text);
+
+    let x = left;
+    cells.forEach((cell, index) => {
+      const column = columns[index];
+      doc.text(cell, x + 4, y + 5, {
+        width: column.width - 8,
+        align: column.align || 'left',
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += column.width;
+    });
+
+    doc.moveTo(left, y + ROW_HEIGHT).lineTo(left + width, y + ROW_HEIGHT)
+      .lineWidth(0.5).strokeColor(COLORS.border).stroke();
+    doc.x = left;
+    doc.y = y + ROW_HEIGHT;
+  };
+
+  drawRow(columns.map(column => column.header), true);
+  for (const row of rows) {
+    // Repeat the header after a page break
+    if (doc.y + ROW_HEIGHT > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+      drawRow(columns.map(column => column.header), true);
+    }
+    drawRow(columns.map(column => column.value(row)), false);
+  }
+}
+
+function renderHeader(doc: PDFKit.PDFDocument, data: PdfReportData, generatedAt: Date) {
+  const range = data.dateFrom || data.dateTo
+    ? `${data.dateFrom || 'beginning'} to ${data.dateTo || 'today'}`
+    : 'All time';
+
+  doc.font('Helvetica-Bold').fontSize(20).fillColor(COLORS.text).text(data.title);
+  doc.moveDown(0.3);
+  doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted)
+    .text(`Repository: ${data.repo === 'all' ? 'All repositories' : data.repo}`)
+    .text(`Period: ${range}`)
+    .text(`Generated: ${generatedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`);
+}
+
+function renderSummary(doc: PDFKit.PDFDocument, summary: SummaryReport) {
+  sectionHeading(doc, 'Summary Statistics');
+
+  const stats = summary.overall_stats || {};
+  // Overall effective commits are a sum of weights (0-100 per commit)
+  const weightSum = toTypedValue(stats.effective_commits, 'number') as number | null;
+  const cards: [string, string][] = [
+    ['Total Commits', formatNumber(stats.total_commits)],
+    ['Effective Commits', formatNumber(weightSum === null ? null : weightSum / 100, 1)],
+    ['Avg Weight', `${formatNumber(stats.avg_weight, 1)}%`],
+    ['Lines Added', formatNumber(stats.total_lines_added)],
+    ['Lines Deleted', formatNumber(stats.total_lines_deleted)],
+    ['Avg Lines / Commit', formatNumber(stats.avg_lines_changed_per_commit, 1)],
+  ];
+
+  const left = doc.page.margins.left;
+  const gap = 10;
+  const cardWidth = (contentWidth(doc) - gap * 2) / 3;
+  const cardHeight = 46;
+
+  ensureSpace(doc, cardHeight * 2 + gap);
+  const top = doc.y;
+  cards.forEach(([label, value], index) => {
+    const x = left + (index % 3) * (cardWidth + gap);
+    const y = top + Math.floor(index / 3) * (cardHeight + gap);
+    doc.roundedRect(x, y, cardWidth, cardHeight, 4).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+    doc.font('Helvetica').fontSize(8).fillColor(COLORS.muted).text(label, x + 8, y + 8, { width: cardWidth - 16 });
+    doc.font('Helvetica-Bold').fontSize(14).fillColor(COLORS.text).text(value, x + 8, y + 22, { width: cardWidth - 16 });
+  });
+
+  doc.x = left;
+  doc.y = top + cardHeight * 2 + gap;
+}
+
+function renderContributors(doc: PDFKit.PDFDocument, contributors: any[]) {
+  sectionHeading(doc, 'Top Contributors');
+  if (contributors.length === 0) {
+    emptyNote(doc, 'No commits in this period.');
+    return;
+  }
+
+  drawTable(doc, [
+    { header: '#', width: 25, value: row => String(contributors.indexOf(row) + 1), align: 'right' },
+    { header: 'Author', width: 165, value: row => row.author_name || row.author_email || '-' },
+    { header: 'Commits', width: 65, value: row => formatNumber(row.total_commits), align: 'right' },
+    { header: 'Effective', width: 65, value: row => formatNumber(row.effective_commits, 2), align: 'right' },
+    { header: 'Avg Weight', width: 65, value: row => `${formatNumber(row.avg_weight, 1)}%`, align: 'right' },
+    { header: 'Lines Changed', width: 80, value: row => formatNumber(row.total_lines_changed), align: 'right' },
+    { header: 'Repos', width: 50, value: row => formatNumber(row.repositories_contributed), align: 'right' },
+  ], contributors);
+}
+
+function renderCategories(doc: PDFKit.PDFDocument, categories: any[]) {
+  sectionHeading(doc, 'Category Mix');
+  if (categories.length === 0) {
+    emptyNote(doc, 'No commits in this period.');
+    return;
+  }
+
+  const totalCommits = categories.reduce((total, row) => total + (Number(row.total_commits) || 0), 0);
+  const left = doc.page.margins.left;
+  const labelWidth = 130;
+  const barWidth = contentWidth(doc) - labelWidth - 110;
+
+  // Share of commits per category
+  categories.forEach((row, index) => {
+    ensureSpace(doc, ROW_HEIGHT);
+    const y = doc.y;
+    const share = totalCommits > 0 ? (Number(row.total_commits) || 0) / totalCommits : 0;
+
+    doc.font('Helvetica').fontSize(9).fillColor(COLORS.text)
+      .text(row.category, left, y + 4, { width: labelWidth - 8, lineBreak: false, ellipsis: true });
+    doc.rect(left + labelWidth, y + 3, barWidth, ROW_HEIGHT - 8).fill(COLORS.headerBg);
+    if (share > 0) {
+      doc.rect(left + labelWidth, y + 3, Math.max(1, barWidth * share), ROW_HEIGHT - 8)
+        .fill(CATEGORY_COLORS[row.category] || FALLBACK_CATEGORY_COLORS[index % FALLBACK_CATEGORY_COLORS.length]);
+    }
+    doc.fillColor(COLORS.muted)
+      .text(`${formatNumber(share * 100, 1)}% (${formatNumber(row.total_commits)})`, left + labelWidth + barWidth + 8, y + 4, {
+        width: 102,
+        lineBreak: false,
+      });
+    doc.x = left;
+    doc.y = y + ROW_HEIGHT;
+  });
+
+  doc.moveDown(0.5);
+  drawTable(doc, [
+    { header: 'Category', width: 145, value: row => row.category },
+    { header: 'Commits', width: 65, value: row => formatNumber(row.total_commits), align: 'right' },
+    { header: 'Effective', width: 65, value: row => formatNumber(row.effective_commits, 2), align: 'right' },
+    { header: 'Avg Weight', width: 65, value: row => `${formatNumber(row.avg_weight, 1)}%`, align: 'right' },
+    { header: 'Lines Changed', width: 90, value: row => formatNumber(row.total_lines_changed), align: 'right' },
+    { header: 'Authors', width: 85, value: row => formatNumber(row.unique_authors), align: 'right' },
+  ], categories);
+}
+
+const BEFORE_AFTER_METRICS: { key: string; label: string; decimals: number }[] = [
+  { key: 'avg_commits_per_month', label: 'Commits per month', decimals: 1 },
+  { key: 'avg_effective_commits_per_month', label: 'Effective commits per month', decimals: 1 },
+  { key: 'avg_weight', label: 'Avg weight (%)', decimals: 1 },
+  { key: 'avg_lines_per_commit', label: 'Lines per commit', decimals: 1 },
+  { key: 'avg_weighted_lines_per_commit', label: 'Weighted lines per commit', decimals: 1 },
+  { key: 'avg_authors', label: 'Active authors', decimals: 1 },
+  { key: 'avg_commits_per_committer', label: 'Commits per committer', decimals: 1 },
+  { key: 'avg_effective_commits_per_committer', label: 'Effective commits per committer', decimals: 2 },
+];
+
+function renderBeforeAfter(doc: PDFKit.PDFDocument, beforeAfter: NonNullable<PdfReportData['beforeAfter']>) {
+  sectionHeading(doc, 'Before / After');
+  doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted)
+    .text(`Before: ${beforeAfter.before_period.start} to ${beforeAfter.before_period.end}    After: ${beforeAfter.after_period.start} to ${beforeAfter.after_period.end}`);
+  doc.moveDown(0.5);
+
+  const before = beforeAfter.before || {};
+  const after = beforeAfter.after || {};
+  const rows = BEFORE_AFTER_METRICS.map(metric => ({
+    ...metric,
+    before: before[metric.key],
+    after: after[metric.key],
+    change: percentChange(before[metric.key], after[metric.key]),
+    significance: beforeAfter.significance?.[metric.key],
+  }));
+
+  drawTable(doc, [
+    { header: 'Metric', width: 165, value: row => row.label },
+    { header: 'Before', width: 75, value: row => formatNumber(row.before, row.decimals), align: 'right' },
+    { header: 'After', width: 75, value: row => formatNumber(row.after, row.decimals), align: 'right' },
+    {
+      header: 'Change',
+      width: 75,
+      value: row => row.change === null ? '-' : `${row.change > 0 ? '+' : ''}${formatNumber(row.change, 1)}%`,
+      align: 'right',
+    },
+    {
+      header: 'Significance',
+      width: 125,
+      value: row => row.significance?.significant
+        ? `Significant (p=${formatNumber(row.significance.p_value, 3)})`
+        : 'Inconclusive',
+      align: 'right',
+    },
+  ], rows);
+
+  // Sample sizes of the significance tests
+  doc.moveDown(0.5);
+  doc.font('Helvetica').fontSize(8).fillColor(COLORS.muted)
+    .text(`Welch's t-test of the monthly values at the 5% level (samples: ${beforeAfter.samples?.before.length ?? 0} before, ${beforeAfter.samples?.after.length ?? 0} after).`,
+      doc.page.margins.left, doc.y);
+}
+
+/**
+ * Render the report into a PDF document
+ * Sections without data (not requested) are skipped.
+ * @param doc - PDFKit document
+ * @param data - Report data
+ * @param generatedAt - Generation timestamp printed in the header
+ */
+export function renderPdfReport(doc: PDFKit.PDFDocument, data: PdfReportData, generatedAt: Date = new Date()) {
+  renderHeader(doc, data, generatedAt);
+
+  for (const section of data.sections) {
+    if (section === 'summary' && data.summary) {
+      renderSummary(doc, data.summary);
+    } else if (section === 'contributors' && data.summary) {
+      renderContributors(doc, data.summary.top_contributors);
+    } else if (section === 'categories' && data.categories) {
+      renderCategories(doc, data.categories);
+    } else if (section === 'before-after' && data.beforeAfter) {
+      renderBeforeAfter(doc, data.beforeAfter);
+    }
+  }
+}
+
+/**
+ * Stream a PDF report as an attachment
+ * @param res - Express response
+ * @param filename - Base file name without extension (the current date is appended)
+ * @param data - Report data
+ */
+export function sendPdfReport(res: Response, filename: string, data: PdfReportData) {
+  const generatedAt = new Date();
+  const baseName = filename.replace(/[^A-Za-z0-9._-]+/g, '-');
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: 40,
+    info: { Title: data.title, CreationDate: generatedAt },
+  });
+
+  res.status(200);
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${baseName}-${generatedAt.toISOString().slice(0, 10)}.pdf"`);
+
+  doc.pipe(res);
+  renderPdfReport(doc, data, generatedAt);
+  doc.end();
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { parsePullRequestFile, validateImportedPullRequest, validateImportedPullRequests } from './pullRequestImport.js';
+
+describe('pullRequestImport', () => {
+  const gitHubPullRequest = (overrides: Record<string, unknown> = {}) => ({
+    number: 42,
+    title: ' Add invoices ',
+    state: 'closed',
+    user: { login: 'jsmith' },
+    head: { ref: 'feature/invoices' },
+    base: { ref: 'main' },
+    merge_commit_sha: 'ABCDEF1',
+    created_at: '2026-10-10T09:00:00Z',
+    merged_at: '2026-10-12T15:00:00Z',
+    closed_at: '2026-10-12T15:00:00Z',
+    commits: ['A1B2C3D', { sha: 'b2c3d4e' }, 'a1b2c3d'],
+    reviews: [
+      { user: { login: 'alee' }, state: 'CHANGES_REQUESTED', submitted_at: '2026-10-11T08:00:00Z' },
+      { user: { login: 'alee' }, state: 'PENDING' },
+      { user: { login: 'alee' }, state: 'APPROVED', submitted_at: '2026-10-12T10:00:00Z' },
+    ],
+    ...overrides,
+  });
+
+  describe('parsePullRequestFile', () => {
+    it('should accept pull_requests, merge_requests or a bare array', () => {
+      expect(parsePullRequestFile({ repository: { name: ' payments ' }, pull_requests: [] })).toEqual({
+        file: { repository: 'payments', pullRequests: [] },
+      });
+      expect(parsePullRequestFile({ repository: 'payments', merge_requests: [1] })).toEqual({
+        file: { repository: 'payments', pullRequests: [1] },
+      });
+      expect(parsePullRequestFile([1, 2])).toEqual({ file: { repository: null, pullRequests: [1, 2] } });
+    });
+
+    it('should reject other structures', () => {
+      expect(parsePullRequestFile('pull requests')).toHaveProperty('error');
+      expect(parsePullRequestFile({ pull_requests: {} })).toHaveProperty('error');
+      expect(parsePullRequestFile({ repository: 42, pull_requests: [] })).toHaveProperty('error');
+    });
+  });
+
+  describe('validateImportedPullRequest', () => {
+    it('should normalize a GitHub pull request', () => {
+      expect(validateImportedPullRequest(gitHubPullRequest())).toEqual({
+        pullRequest: {
+          number: 42,
+          title: 'Add invoices',
+          authorLogin: 'jsmith',
+          authorName: null,
+          authorEmail: null,
+          state: 'merged',
+          sourceBranch: 'feature/invoices',
+          targetBranch: 'main',
+          mergeCommitHash: 'abcdef1',
+          openedAt: '2026-10-10T09:00:00Z',
+          mergedAt: '2026-10-12T15:00:00Z',
+          closedAt: '2026-10-12T15:00:00Z',
+          reviews: [
+            { reviewerLogin: 'alee', reviewerName: null, state: 'changes_requested', submittedAt: '2026-10-11T08:00:00Z' },
+            { reviewerLogin: 'alee', reviewerName: null, state: 'approved', submittedAt: '2026-10-12T10:00:00Z' },
+          ],
+          commitHashes: ['a1b2c3d', 'b2c3d4e'],
+        },
+      });
+    });
+
+    it('should normalize a GitLab merge request with approvals', () => {
+      const result = validateImportedPullRequest({
+        iid: 7,
+        title: 'Fix rounding',
+        state: 'opened',
+        author: { username: 'alee', name: 'Ann Lee' },
+        source_branch: 'fix-rounding',
+        target_branch: 'main',
+        created_at: '2026-10-10T09:00:00Z',
+        commits: [{ id: 'c3d4e5f6' }],
+        approvals: [{ user: { username: 'jsmith', name: 'Jane Smith' }, approved_at: '2026-10-11T09:00:00Z' }],
+      });
+
+      expect(result).toMatchObject({
+        pullRequest: {
+          number: 7,
+          authorLogin: 'alee',
+          authorName: 'Ann Lee',
+          state: 'open',
+          sourceBranch: 'fix-rounding',
+          mergedAt: null,
+          reviews: [{ reviewerLogin: 'jsmith', reviewerName: 'Jane Smith', state: 'approved', submittedAt: '2026-10-11T09:00:00Z' }],
+          commitHashes: ['c3d4e5f6'],
+        },
+      });
+    });
+
+    it('should reject invalid pull requests', () => {
+      expect(validateImportedPullRequest(gitHubPullRequest({ number: 0 }))).toHaveProperty('error');
+      expect(validateImportedPullRequest(gitHubPullRequest({ title: ' ' }))).toEqual({ error: 'title is required' });
+      expect(validateImportedPullRequest(gitHubPullRequest({ merged_at: 'soon' }))).toHaveProperty('error');
+      expect(validateImportedPullRequest(gitHubPullRequest({ state: 'merged', merged_at: null }))).toEqual({
+        error: 'merged_at is required for merged pull requests',
+      });
+      expect(validateImportedPullRequest(gitHubPullRequest({ commits: ['not-a-hash'] }))).toHaveProperty('error');
+      expect(validateImportedPullRequest(gitHubPullRequest({ reviews: [{ state: 'APPROVED' }] }))).toHaveProperty('error');
+    });
+  });
+
+  describe('validateImportedPullRequests', () => {
+    it('should skip invalid and duplicated pull requests', () => {
+      const result = validateImportedPullRequests([gitHubPullRequest(), 'x', gitHubPullRequest()]);
+
+      expect(result.pullRequests).toHaveLength(1);
+      expect(result.issues).toEqual([
+        { index: 1, number: null, error: 'Pull request must be an object' },
+        { index: 2, number: 42, error: 'Duplicate number in file' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Validation of pull request export files (one JSON file per repository)
+ *
+ * Accepted shapes:
+ * - `{ "repository": "name" | { "name": ... }, "pull_requests": [ ... ] }`
+ *   (`merge_requests` for GitLab exports)
+ * - `[ ... ]` (pull requests only; the repository is chosen on upload)
+ *
+ * Pull requests use the fields of the GitHub REST API (number, user.login, head.ref,
+ * base.ref, ...) or of the GitLab API (iid, author.username, source_branch, ...), plus:
+ * - `commits`: commit hashes, or objects with `sha` (GitHub) or `id` (GitLab)
+ * - `reviews`: GitHub reviews (user, state, submitted_at)
+ * - `approvals`: GitLab approvals (user, approved_at or created_at)
+ */
+import { PullRequestRecord, PullRequestReviewRecord, PullRequestState, ReviewState } from './pullRequestStore.js';
+
+export interface PullRequestImportFile {
+  /** Repository named in the file, if any */
+  repository: string | null;
+  pullRequests: unknown[];
+}
+
+export interface PullRequestImportIssue {
+  /** Position of the pull request in the file */
+  index: number;
+  number: number | null;
+  error: string;
+}
+
+export interface ValidatedPullRequestImport {
+  pullRequests: PullRequestRecord[];
+  /** Pull requests that were skipped (invalid or duplicated) */
+  issues: PullRequestImportIssue[];
+}
+
+const HASH_PATTERN = /^[0-9a-f]{7,64}$/i;
+
+// GitHub and GitLab states (GitHub reports merged pull requests as closed with merged_at)
+const PULL_REQUEST_STATES: Record<string, PullRequestState> = {
+  open: 'open',
+  opened: 'open',
+  merged: 'merged',
+  closed: 'closed',
+  locked: 'closed',
+};
+
+const REVIEW_STATES: Record<string, ReviewState> = {
+  approved: 'approved',
+  changes_requested: 'changes_requested',
+  commented: 'commented',
+  dismissed: 'dismissed',
+};
+
+/**
+ * Check the top-level structure of a pull request export file
+ * @param data - Parsed JSON
+ * @returns The repository name and raw pull requests, or an error message
+ */
+export function parsePullRequestFile(data: unknown): { file: PullRequestImportFile } | { error: string } {
+  if (Array.isArray(data)) {
+    return { file: { repository: null, pullRequests: data } };
+  }
+  if (!data || typeof data !== 'object') {
+    return { error: 'The file must contain a JSON object or an array of pull requests' };
+  }
+
+  const { repository, pull_requests: pullRequests, merge_requests: mergeRequests } = data as Record<string, unknown>;
+  const entries = pullRequests ?? mergeRequests;
+  if (!Array.isArray(entries)) {
+    return { error: '"pull_requests" (or "merge_requests") must be an array' };
+  }
+
+  let name: unknown = repository;
+  if (repository && typeof repository === 'object') {
+    name = (repository as Record<string, unknown>).name;
+  }
+  if (name !== undefined && name !== null && (typeof name !== 'string' || !name.trim())) {
+    return { error: '"repository" must be a name or an object with a name' };
+  }
+
+  return { file: { repository: typeof name === 'string' ? name.trim() : null, pullRequests: entries } };
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function optionalDate(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) return null;
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? value : undefined;
+}
+
+// Login and name of a GitHub user or GitLab author object
+function person(value: unknown): { login: string | null; name: string | null; email: string | null } {
+  const entry = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  return {
+    login: optionalString(entry.login) ?? optionalString(entry.username),
+    name: optionalString(entry.name),
+    email: optionalString(entry.email),
+  };
+}
+
+function commitHash(value: unknown): string | null {
+  const entry = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const hash = typeof value === 'string' ? value : entry.sha ?? entry.id ?? entry.hash;
+  return typeof hash === 'string' && HASH_PATTERN.test(hash) ? hash.toLowerCase() : null;
+}
+
+/**
+ * Validate the reviews and approvals of a pull request
+ * Pending (unsubmitted) GitHub reviews are left out.
+ * @returns The reviews, or an error message
+ */
+function validateReviews(reviews: unknown, approvals: unknown): { reviews: PullRequestReviewRecord[] } | { error: string } {
+  if ((reviews !== undefined && !Array.isArray(reviews)) || (approvals !== undefined && !Array.isArray(approvals))) {
+    return { error: 'reviews and approvals must be arrays' };
+  }
+
+  const validated: PullRequestReviewRecord[] = [];
+  for (const raw of (reviews as unknown[] | undefined) ?? []) {
+    const entry = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+    const stateName = typeof entry.state === 'string' ? entry.state.toLowerCase() : '';
+    if (stateName === 'pending') continue;
+
+    const state = REVIEW_STATES[stateName];
+    const submittedAt = optionalDate(entry.submitted_at ?? entry.created_at);
+    if (!state || !submittedAt) {
+      return { error: 'Each review needs a state (approved, changes_requested, commented, dismissed) and a submitted_at date' };
+    }
+    const reviewer = person(entry.user ?? entry.author);
+    validated.push({ reviewerLogin: reviewer.login, reviewerName: reviewer.name, state, submittedAt });
+  }
+
+  for (const raw of (approvals as unknown[] | undefined) ?? []) {
+    const entry = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+    const submittedAt = optionalDate(entry.approved_at ?? entry.created_at);
+    if (!submittedAt) {
+      return { error: 'Each approval needs an approved_at date' };
+    }
+    const reviewer = person(entry.user ?? entry.author);
+    validated.push({ reviewerLogin: reviewer.login, reviewerName: reviewer.name, state: 'approved', submittedAt });
+  }
+
+  return { reviews: validated };
+}
+
+/**
+ * Validate one pull request (GitHub) or merge request (GitLab) of an export file
+ * @returns The pull request to upsert, or an error message
+ */
+export function validateImportedPullRequest(raw: unknown): { pullRequest: PullRequestRecord } | { error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Pull request must be an object' };
+  }
+  const entry = raw as Record<string, unknown>;
+
+  const number = entry.number ?? entry.iid;
+  if (!Number.isInteger(number) || (number as number) <= 0) {
+    return { error: 'number (or iid) must be a positive integer' };
+  }
+
+  const title = optionalString(entry.title);
+  if (!title) {
+    return { error: 'title is required' };
+  }
+
+  const openedAt = optionalDate(entry.created_at);
+  const mergedAt = optionalDate(entry.merged_at);
+  const closedAt = optionalDate(entry.closed_at);
+  if (!openedAt) {
+    return { error: 'created_at must be an ISO 8601 date' };
+  }
+  if (mergedAt === undefined || closedAt === undefined) {
+    return { error: 'merged_at and closed_at must be ISO 8601 dates' };
+  }
+
+  const stateName = typeof entry.state === 'string' ? entry.state.toLowerCase() : '';
+  const state = mergedAt ? 'merged' : PULL_REQUEST_STATES[stateName];
+  if (!state) {
+    return { error: 'state must be open, merged or closed' };
+  }
+  if (state === 'merged' && !mergedAt) {
+    return { error: 'merged_at is required for merged pull requests' };
+  }
+
+  if (entry.commits !== undefined && !Array.isArray(entry.commits)) {
+    return { error: 'commits must be an array' };
+  }
+  const commitHashes = new Set<string>();
+  for (const value of (entry.commits as unknown[] | undefined) ?? []) {
+    const hash = commitHash(value);
+    if (!hash) {
+      return { error: 'commits must be hexadecimal commit hashes (or objects with sha or id)' };
+    }
+    commitHashes.add(hash);
+  }
+
+  const mergeCommit = entry.merge_commit_sha ?? null;
+  if (mergeCommit !== null && (typeof mergeCommit !== 'string' || !HASH_PATTERN.test(mergeCommit))) {
+    return { error: 'merge_commit_sha must be a hexadecimal commit hash' };
+  }
+
+  const reviews = validateReviews(entry.reviews, entry.approvals);
+  if ('error' in reviews) {
+    return { error: reviews.error };
+  }
+
+  // GitHub: user, head.ref, base.ref; GitLab: author, source_branch, target_branch
+  const author = person(entry.user ?? entry.author);
+  const head = entry.head && typeof entry.head === 'object' ? entry.head as Record<string, unknown> : {};
+  const base = entry.base && typeof entry.base === 'object' ? entry.base as Record<string, unknown> : {};
+
+  return {
+    pullRequest: {
+      number: number as number,
+      title,
+      authorLogin: author.login ?? optionalString(entry.author_login),
+      authorName: author.name ?? optionalString(entry.author_name),
+      authorEmail: author.email ?? optionalString(entry.author_email),
+      state,
+      sourceBranch: optionalString(head.ref) ?? optionalString(entry.source_branch),
+      targetBranch: optionalString(base.ref) ?? optionalString(entry.target_branch),
+      mergeCommitHash: mergeCommit ? mergeCommit.toLowerCase() : null,
+      openedAt,
+      mergedAt,
+      closedAt,
+      reviews: reviews.reviews,
+      commitHashes: [...commitHashes],
+    },
+  };
+}
+
+/**
+ * Validate the pull requests of an export file
+ * Invalid pull requests and repeated numbers are skipped and reported as issues.
+ */
+export function validateImportedPullRequests(rawPullRequests: unknown[]): ValidatedPullRequestImport {
+  const pullRequests: PullRequestRecord[] = [];
+  const issues: PullRequestImportIssue[] = [];
+  const seen = new Set<number>();
+
+  rawPullRequests.forEach((raw, index) => {
+    const rawNumber = raw && typeof raw === 'object' ? (raw as any).number ?? (raw as any).iid : null;
+    const number = Number.isInteger(rawNumber) ? rawNumber as number : null;
+    const validated = validateImportedPullRequest(raw);
+
+    if ('error' in validated) {
+      issues.push({ index, number, error: validated.error });
+    } else if (seen.has(validated.pullRequest.number)) {
+      issues.push({ index, number, error: 'Duplicate number in file' });
+    } else {
+      seen.add(validated.pullRequest.number);
+      pullRequests.push(validated.pullRequest);
+    }
+  });
+
+  return { pullRequests, issues };
+}
@@ -0,0 +1,128 @@
+import { PoolClient } from 'pg';
+
+export type PullRequestState = 'open' | 'merged' | 'closed';
+
+export type ReviewState = 'approved' | 'changes_requested' | 'commented' | 'dismissed';
+
+export interface PullRequestReviewRecord {
+  reviewerLogin: string | null;
+  reviewerName: string | null;
+  state: ReviewState;
+  submittedAt: string;
+}
+
+/**
+ * Pull request (or GitLab merge request) written by the pull request import
+ */
+export interface PullRequestRecord {
+  number: number;
+  title: string;
+  authorLogin: string | null;
+  authorName: string | null;
+  authorEmail: string | null;
+  state: PullRequestState;
+  sourceBranch: string | null;
+  targetBranch: string | null;
+  mergeCommitHash: string | null;
+  openedAt: string;
+  mergedAt: string | null;
+  closedAt: string | null;
+  reviews: PullRequestReviewRecord[];
+  /** Hashes of the commits of the pull request (lower-case, unique) */
+  commitHashes: string[];
+}
+
+export interface PullRequestUpsertCounts {
+  inserted: number;
+  updated: number;
+  reviews: number;
+  commits: number;
+}
+
+/**
+ * Insert pull requests or update existing ones (matched by repository and number)
+ * The reviews and commit hashes of each pull request are replaced by those of the export.
+ * @param client - Client inside a transaction
+ * @param repositoryId - Repository of the pull requests
+ * @param pullRequests - Pull requests to write (numbers must be unique)
+ */
+export async function upsertPullRequests(
+  client: PoolClient,
+  repositoryId: number,
+  pullRequests: PullRequestRecord[]
+): Promise<PullRequestUpsertCounts> {
+  const counts: PullRequestUpsertCounts = { inserted: 0, updated: 0, reviews: 0, commits: 0 };
+
+  for (const pullRequest of pullRequests) {
+    const upserted = await client.query(
+      `INSERT INTO pull_requests (
+         repository_id, number, title, author_login, author_name, author_email, state,
+         source_branch, target_branch, merge_commit_hash, opened_at, merged_at, closed_at
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       ON CONFLICT (repository_id, number) DO UPDATE SET
+         title = EXCLUDED.title,
+         author_login = EXCLUDED.author_login,
+         author_name = EXCLUDED.author_name,
+         author_email = EXCLUDED.author_email,
+         state = EXCLUDED.state,
+         source_branch = EXCLUDED.source_branch,
+         target_branch = EXCLUDED.target_branch,
+         merge_commit_hash = EXCLUDED.merge_commit_hash,
+         opened_at = EXCLUDED.opened_at,
+         merged_at = EXCLUDED.merged_at,
+         closed_at = EXCLUDED.closed_at,
+         updated_at = NOW()
+       RETURNING id, (xmax = 0) as inserted`,
+      [
+        repositoryId,
+        pullRequest.number,
+        pullRequest.title,
+        pullRequest.authorLogin,
+        pullRequest.authorName,
+        pullRequest.authorEmail,
+        pullRequest.state,
+        pullRequest.sourceBranch,
+        pullRequest.targetBranch,
+        pullRequest.mergeCommitHash,
+        pullRequest.openedAt,
+        pullRequest.mergedAt,
+        pullRequest.closedAt,
+      ]
+    );
+    const { id, inserted } = upserted.rows[0];
+    if (inserted) {
+      counts.inserted++;
+    } else {
+      counts.updated++;
+      await client.query('DELETE FROM pull_request_reviews WHERE pull_request_id = $1', [id]);
+      await client.query('DELETE FROM pull_request_commits WHERE pull_request_id = $1', [id]);
+    }
+
+    if (pullRequest.reviews.length > 0) {
+      await client.query(
+        `INSERT INTO pull_request_reviews (pull_request_id, reviewer_login, reviewer_name, state, submitted_at)
+         SELECT $1, * FROM UNNEST($2::varchar[], $3::varchar[], $4::varchar[], $5::timestamp[])`,
+        [
+          id,
+          pullRequest.reviews.map(review => review.reviewerLogin),
+          pullRequest.reviews.map(review => review.reviewerName),
+          pullRequest.reviews.map(review => review.state),
+          pullRequest.reviews.map(review => review.submittedAt),
+        ]
+      );
+      counts.reviews += pullRequest.reviews.length;
+    }
+
+    if (pullRequest.commitHashes.length > 0) {
+      await client.query(
+        `INSERT INTO pull_request_commits (pull_request_id, commit_hash)
+         SELECT $1, UNNEST($2::varchar[])`,
+        [id, pullRequest.commitHashes]
+      );
+      counts.commits += pullRequest.commitHashes.length;
+    }
+  }
+
+  return counts;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import pool from '../db.js';
+import { recategorizer } from './recategorizer.js';
+
+// Mock the database pool
+vi.mock('../db.js', () => ({
+  default: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}));
+
+describe('recategorizer.run', () => {
+  let client: { query: ReturnType<typeof vi.fn>; release: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    client = {
+      query: vi.fn(async (sql: string) => {
+        if (sql.includes('FROM categories')) {
+          return { rows: [{ id: 1, name: 'BILLING', color: '#3b82f6', parent_id: null, synonyms: ['BILL'] }] };
+        }
+        if (sql.includes('FROM commits c')) {
+          return {
+            rows: [
+              { id: 1, subject: 'bill | Fix rounding', category: null, category_edited: false },
+              { id: 2, subject: 'Update docs', category: 'bill', category_edited: true },
+              { id: 3, subject: 'BILLING | Add invoices', category: 'BILLING', category_edited: false },
+            ],
+          };
+        }
+        return { rows: [] };
+      }),
+      release: vi.fn(),
+    };
+    vi.mocked(pool.connect).mockResolvedValue(client as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should rewrite the categories that change, keeping edited categories', async () => {
+    const result = await recategorizer.run();
+
+    expect(result).toEqual({
+      dry_run: false,
+      scanned: 3,
+      updated: 2,
+      changes: [
+        { from: null, to: 'BILLING', commits: 1 },
+        { from: 'bill', to: 'BILLING', commits: 1 },
+      ],
+    });
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should run again after a connection could not be acquired', async () => {
+    vi.mocked(pool.connect).mockRejectedValueOnce(new Error('too many clients') as never);
+
+    await expect(recategorizer.run()).rejects.toThrow('too many clients');
+    await expect(recategorizer.run({ dryRun: true })).resolves.toMatchObject({ dry_run: true, updated: 2 });
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+  });
+});
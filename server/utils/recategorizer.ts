@@ -0,0 +1,163 @@
+import pool from '../db.js';
+import { loadCategoryResolver } from './categoryTaxonomy.js';
+import { viewRefresher } from './viewRefresher.js';
+
+export interface RecategorizeOptions {
+  /** Only count the changes */
+  dryRun?: boolean;
+}
+
+export interface CategoryChange {
+  from: string | null;
+  to: string | null;
+  commits: number;
+}
+
+export interface RecategorizeResult {
+  dry_run: boolean;
+  scanned: number;
+  updated: number;
+  /** Category changes with their number of commits (most commits first) */
+  changes: CategoryChange[];
+}
+
+/** Commits read and updated per statement */
+const BATCH_SIZE = 1000;
+
+/** Category changes returned in the result (the rest is only counted) */
+const MAX_REPORTED_CHANGES = 100;
+
+/**
+ * Re-categorize job
+ *
+ * Rewrites commits.category with the current taxonomy: commits are categorized
+ * again from their subject (rules, then prefix), keeping their category when
+ * neither gives one. Categories edited from the dashboard are kept, only mapped
+ * to their canonical name. Runs on demand (POST /api/admin/recategorize,
+ * `npm run recategorize`), in one transaction.
+ */
+class Recategorizer {
+  private running = false;
+
+  /**
+   * Re-categorize all commits
+   * @param options - Dry run
+   * @returns The changes, or null when a run is already in progress
+   */
+  async run(options: RecategorizeOptions = {}): Promise<RecategorizeResult | null> {
+    if (this.running) {
+      return null;
+    }
+
+    this.running = true;
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        const categories = await loadCategoryResolver(client);
+        const changes = new Map<string, CategoryChange>();
+        let scanned = 0;
+        let updated = 0;
+        let lastId = 0;
+
+        for (;;) {
+          const result = await client.query(
+            `SELECT
+               c.id,
+               c.subject,
+               c.category,
+               EXISTS (
+                 SELECT 1 FROM commit_edits e WHERE e.commit_id = c.id AND e.new_values ? 'category'
+               ) as category_edited
+             FROM commits c
+             WHERE c.id > $1
+             ORDER BY c.id
+             LIMIT $2`,
+            [lastId, BATCH_SIZE]
+          );
+          if (result.rows.length === 0) {
+            break;
+          }
+          scanned += result.rows.length;
+          lastId = result.rows[result.rows.length - 1].id;
+
+          const rewrites: { id: number; category: string | null }[] = [];
+          for (const commit of result.rows) {
+            const category = commit.category_edited
+              ? categories.normalize(commit.category)
+              : categories.categorize(commit.subject) ?? categories.normalize(commit.category);
+            if (category === commit.category) {
+              continue;
+            }
+
+            rewrites.push({ id: commit.id, category });
+            const key = JSON.stringify([commit.category, category]);
+            const change = changes.get(key) ?? { from: commit.category, to: category, commits: 0 };
+            change.commits++;
+            changes.set(key, change);
+          }
+
+          if (rewrites.length > 0 && !options.dryRun) {
+            await client.query(
+              `UPDATE commits c
+               SET category = v.category
+               FROM jsonb_to_recordset($1::jsonb) AS v(id int, category varchar)
+               WHERE c.id = v.id`,
+              [JSON.stringify(rewrites)]
+            );
+          }
+          updated += rewrites.length;
+
+          if (result.rows.length < BATCH_SIZE) {
+            break;
+          }
+        }
+
+        await client.query(options.dryRun ? 'ROLLBACK' : 'COMMIT');
+        console.log(`🏷️  ${options.dryRun ? 'Would re-categorize' : 'Re-categorized'} ${updated} of ${scanned} commit(s)`);
+
+        return {
+          dry_run: Boolean(options.dryRun),
+          scanned,
+          updated,
+          changes: [...changes.values()]
+            .sort((a, b) => b.commits - a.commits)
+            .slice(0, MAX_REPORTED_CHANGES),
+        };
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      } finally {
+        client.release();
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const recategorizer = new Recategorizer();
+
+// CLI support - re-categorize the commits if executed directly
+// Usage: npm run recategorize -- [--dry-run] [--no-refresh]
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+
+  (async () => {
+    try {
+      const result = await recategorizer.run({ dryRun: args.includes('--dry-run') });
+      result?.changes.forEach(change => {
+        console.log(`  ${change.from ?? '(none)'} → ${change.to ?? '(none)'}: ${change.commits}`);
+      });
+
+      // The aggregated statistics only include the new categories after a refresh
+      if (result && result.updated > 0 && !result.dry_run && !args.includes('--no-refresh')) {
+        await viewRefresher.refreshAll();
+      }
+      process.exit(0);
+    } catch (error) {
+      console.error('Re-categorize error:', error);
+      process.exit(1);
+    }
+  })();
+}
@@ -0,0 +1,249 @@
+import { ExportColumn } from './export.js';
+
+/**
+ * Column definitions used when exporting report endpoints as CSV/XLSX
+ * Keys match the columns returned by the corresponding SQL queries.
+ */
+
+export const SUMMARY_STATS_COLUMNS: ExportColumn[] = [
+  { key: 'total_commits', header: 'Total Commits', type: 'integer' },
+  { key: 'effective_commits', header: 'Effective Commits', type: 'number' },
+  { key: 'avg_weight', header: 'Avg Weight', type: 'number' },
+  { key: 'weight_efficiency_pct', header: 'Weight Efficiency %', type: 'number' },
+  { key: 'total_lines_added', header: 'Lines Added', type: 'integer' },
+  { key: 'total_lines_deleted', header: 'Lines Deleted', type: 'integer' },
+  { key: 'total_lines_changed', header: 'Lines Changed', type: 'integer' },
+  { key: 'avg_lines_changed_per_commit', header: 'Avg Lines Changed per Commit', type: 'number' },
+  { key: 'avg_lines_added_per_commit', header: 'Avg Lines Added per Commit', type: 'number' },
+  { key: 'avg_lines_deleted_per_commit', header: 'Avg Lines Deleted per Commit', type: 'number' },
+];
+
+export const LARGEST_COMMITS_COLUMNS: ExportColumn[] = [
+  { key: 'commit_date', header: 'Date', type: 'datetime' },
+  { key: 'commit_hash', header: 'Hash' },
+  { key: 'commit_message', header: 'Subject' },
+  { key: 'author_name', header: 'Author' },
+  { key: 'repository_name', header: 'Repository' },
+  { key: 'lines_changed', header: 'Lines Changed', type: 'integer' },
+  { key: 'lines_added', header: 'Lines Added', type: 'integer' },
+  { key: 'lines_deleted', header: 'Lines Deleted', type: 'integer' },
+  { key: 'weight', header: 'Weight', type: 'integer' },
+];
+
+export const CONTRIBUTOR_COLUMNS: ExportColumn[] = [
+  { key: 'author_name', header: 'Author' },
+  { key: 'author_email', header: 'Email' },
+  { key: 'total_commits', header: 'Total Commits', type: 'integer' },
+  { key: 'effective_commits', header: 'Effective Commits', type: 'number' },
+  { key: 'avg_weight', header: 'Avg Weight', type: 'number' },
+  { key: 'weight_efficiency_pct', header: 'Weight Efficiency %', type: 'number' },
+  { key: 'repositories_contributed', header: 'Repositories', type: 'integer' },
+  { key: 'total_lines_changed', header: 'Lines Changed', type: 'integer' },
+  { key: 'weighted_lines_changed', header: 'Weighted Lines Changed', type: 'number' },
+  { key: 'avg_lines_changed_per_commit', header: 'Avg Lines Changed per Commit', type: 'number' },
+];
+
+// The Overview top contributors do not include weighted lines
+export const TOP_CONTRIBUTOR_COLUMNS: ExportColumn[] = CONTRIBUTOR_COLUMNS.filter(
+  column => column.key !== 'weighted_lines_changed'
+);
+
+const MONTHLY_STATS_COLUMNS: ExportColumn[] = [
+  { key: 'year_month', header: 'Month' },
+  { key: 'total_commits', header: 'Total Commits', type: 'integer' },
+  { key: 'effective_commits', header: 'Effective Commits', type: 'number' },
+  { key: 'avg_weight', header: 'Avg Weight', type: 'number' },
+  { key: 'weight_efficiency_pct', header: 'Weight Efficiency %', type: 'number' },
+  { key: 'total_lines_added', header: 'Lines Added', type: 'integer' },
+  { key: 'total_lines_deleted', header: 'Lines Deleted', type: 'integer' },
+  { key: 'total_lines_changed', header: 'Lines Changed', type: 'integer' },
+  { key: 'weighted_lines_changed', header: 'Weighted Lines Changed', type: 'number' },
+  { key: 'avg_lines_changed_per_commit', header: 'Avg Lines Changed per Commit', type: 'number' },
+];
+
+export const GLOBAL_MONTHLY_TREND_COLUMNS: ExportColumn[] = [
+  ...MONTHLY_STATS_COLUMNS,
+  { key: 'active_repositories', header: 'Active Repositories', type: 'integer' },
+  { key: 'total_authors', header: 'Authors', type: 'integer' },
+];
+
+export const REPO_MONTHLY_TREND_COLUMNS: ExportColumn[] = [
+  ...MONTHLY_STATS_COLUMNS,
+  { key: 'unique_authors', header: 'Authors', type: 'integer' },
+  { key: 'avg_commits_per_author', header: 'Avg Commits per Author', type: 'number' },
+];
+
+export const CATEGORY_COLUMNS: ExportColumn[] = [
+  { key: 'category', header: 'Category' },
+  { key: 'total_commits', header: 'Total Commits', type: 'integer' },
+  { key: 'effective_commits', header: 'Effective Commits', type: 'number' },
+  { key: 'avg_weight', header: 'Avg Weight', type: 'number' },
+  { key: 'weight_efficiency_pct', header: 'Weight Efficiency %', type: 'number' },
+  { key: 'total_lines_changed', header: 'Lines Changed', type: 'integer' },
+  { key: 'unique_authors', header: 'Authors', type: 'integer' },
+  { key: 'repositories', header: 'Repositories', type: 'integer' },
+];
+
+export const CATEGORY_BY_REPO_COLUMNS: ExportColumn[] = [
+  { key: 'repository', header: 'Repository' },
+  { key: 'category', header: 'Category' },
+  { key: 'total_commits', header: 'Total Commits', type: 'integer' },
+  { key: 'effective_commits', header: 'Effective Commits', type: 'number' },
+  { key: 'avg_weight', header: 'Avg Weight', type: 'number' },
+  { key: 'weight_efficiency_pct', header: 'Weight Efficiency %', type: 'number' },
+  { key: 'total_lines_changed', header: 'Lines Changed', type: 'integer' },
+];
+
+export const COMPARE_REPOS_COLUMNS: ExportColumn[] = [
+  { key: 'repository_name', header: 'Repository' },
+  { key: 'total_commits', header: 'Total Commits', type: 'integer' },
+  { key: 'effective_commits', header: 'Effective Commits', type: 'number' },
+  { key: 'avg_weight', header: 'Avg Weight', type: 'number' },
+  { key: 'weight_efficiency_pct', header: 'Weight Efficiency %', type: 'number' },
+  { key: 'total_lines_changed', header: 'Lines Changed', type: 'integer' },
+  { key: 'weighted_lines_changed', header: 'Weighted Lines Changed', type: 'number' },
+  { key: 'months_active', header: 'Months Active', type: 'integer' },
+  { key: 'avg_authors_per_month', header: 'Avg Authors per Month', type: 'number' },
+  { key: 'avg_lines_per_commit', header: 'Avg Lines per Commit', type: 'number' },
+  { key: 'deployments_per_week', header: 'Deployments per Week', type: 'number' },
+  { key: 'median_lead_time_hours', header: 'Median Lead Time (h)', type: 'number' },
+  { key: 'change_failure_rate_pct', header: 'Change Failure Rate %', type: 'number' },
+  { key: 'mttr_hours', header: 'MTTR (h)', type: 'number' },
+];
+
+export const COMMIT_COLUMNS: ExportColumn[] = [
+  { key: 'commit_date', header: 'Date', type: 'datetime' },
+  { key: 'hash', header: 'Hash' },
+  { key: 'repository_name', header: 'Repository' },
+  { key: 'author_name', header: 'Author' },
+  { key: 'author_email', header: 'Email' },
+  { key: 'subject', header: 'Subject' },
+  { key: 'description', header: 'Description' },
+  { key: 'category', header: 'Category' },
+  { key: 'weight', header: 'Weight', type: 'integer' },
+  { key: 'ai_tools', header: 'AI Tools' },
+  { key: 'lines_added', header: 'Lines Added', type: 'integer' },
+  { key: 'lines_deleted', header: 'Lines Deleted', type: 'integer' },
+];
+
+const AI_ADOPTION_METRIC_COLUMNS: ExportColumn[] = [
+  { key: 'total_commits', header: 'Total Commits', type: 'integer' },
+  { key: 'effective_commits', header: 'Effective Commits', type: 'number' },
+  { key: 'avg_weight', header: 'Avg Weight', type: 'number' },
+  { key: 'avg_lines_per_commit', header: 'Avg Lines per Commit', type: 'number' },
+  { key: 'avg_weighted_lines_per_commit', header: 'Avg Weighted Lines per Commit', type: 'number' },
+  { key: 'unique_authors', header: 'Authors', type: 'integer' },
+  { key: 'commits_per_author', header: 'Commits per Author', type: 'number' },
+  { key: 'effective_commits_per_author', header: 'Effective Commits per Author', type: 'number' },
+];
+
+export const AI_ADOPTION_GROUP_COLUMNS: ExportColumn[] = [
+  { key: 'ai_usage', header: 'AI Usage' },
+  ...AI_ADOPTION_METRIC_COLUMNS,
+  { key: 'share_of_commits_pct', header: 'Share of Commits %', type: 'number' },
+];
+
+export const AI_ADOPTION_TOOL_COLUMNS: ExportColumn[] = [
+  { key: 'tool', header: 'AI Tool' },
+  ...AI_ADOPTION_METRIC_COLUMNS,
+];
+
+export const AI_ADOPTION_CATEGORY_COLUMNS: ExportColumn[] = [
+  { key: 'category', header: 'Category' },
+  { key: 'assisted_commits', header: 'AI-Assisted Commits', type: 'integer' },
+  { key: 'not_assisted_commits', header: 'Not Assisted Commits', type: 'integer' },
+  { key: 'assisted_share_pct', header: 'AI-Assisted Share %', type: 'number' },
+  { key: 'not_assisted_share_pct', header: 'Not Assisted Share %', type: 'number' },
+];
+
+const DELIVERY_METRIC_COLUMNS: ExportColumn[] = [
+  { key: 'merged_pull_requests', header: 'Merged Pull Requests', type: 'integer' },
+  { key: 'avg_cycle_time_hours', header: 'Avg Cycle Time (h)', type: 'number' },
+  { key: 'median_cycle_time_hours', header: 'Median Cycle Time (h)', type: 'number' },
+  { key: 'avg_time_to_first_review_hours', header: 'Avg Time to First Review (h)', type: 'number' },
+  { key: 'median_time_to_first_review_hours', header: 'Median Time to First Review (h)', type: 'number' },
+  { key: 'avg_review_rounds', header: 'Avg Review Rounds', type: 'number' },
+  { key: 'unreviewed_pull_requests', header: 'Unreviewed Pull Requests', type: 'integer' },
+  { key: 'linked_commits', header: 'Linked Commits', type: 'integer' },
+];
+
+export const DELIVERY_REPOSITORY_COLUMNS: ExportColumn[] = [
+  { key: 'repository_name', header: 'Repository' },
+  ...DELIVERY_METRIC_COLUMNS,
+];
+
+export const DELIVERY_AUTHOR_COLUMNS: ExportColumn[] = [
+  { key: 'author', header: 'Author' },
+  ...DELIVERY_METRIC_COLUMNS,
+];
+
+export const DELIVERY_MONTHLY_COLUMNS: ExportColumn[] = [
+  { key: 'year_month', header: 'Month' },
+  ...DELIVERY_METRIC_COLUMNS,
+];
+
+export const DELIVERY_PULL_REQUEST_COLUMNS: ExportColumn[] = [
+  { key: 'repository_name', header: 'Repository' },
+  { key: 'number', header: 'Number', type: 'integer' },
+  { key: 'title', header: 'Title' },
+  { key: 'author', header: 'Author' },
+  { key: 'opened_at', header: 'Opened', type: 'datetime' },
+  { key: 'first_commit_date', header: 'First Commit', type: 'datetime' },
+  { key: 'first_review_at', header: 'First Review', type: 'datetime' },
+  { key: 'merged_at', header: 'Merged', type: 'datetime' },
+  { key: 'linked_commits', header: 'Linked Commits', type: 'integer' },
+  { key: 'cycle_time_hours', header: 'Cycle Time (h)', type: 'number' },
+  { key: 'time_to_first_review_hours', header: 'Time to First Review (h)', type: 'number' },
+  { key: 'review_rounds', header: 'Review Rounds', type: 'integer' },
+];
+
+const ISSUE_EFFORT_COLUMNS: ExportColumn[] = [
+  { key: 'commits', header: 'Commits', type: 'integer' },
+  { key: 'commit_share', header: 'Commit Share', type: 'number' },
+  { key: 'effective_commits', header: 'Effective Commits', type: 'number' },
+  { key: 'lines_changed', header: 'Lines Changed', type: 'integer' },
+  { key: 'issues', header: 'Issues', type: 'integer' },
+  { key: 'story_points', header: 'Story Points', type: 'number' },
+  { key: 'unique_authors', header: 'Authors', type: 'integer' },
+];
+
+export const ISSUE_EPIC_COLUMNS: ExportColumn[] = [
+  { key: 'epic_key', header: 'Epic Key' },
+  { key: 'epic_name', header: 'Epic' },
+  ...ISSUE_EFFORT_COLUMNS,
+];
+
+export const ISSUE_TYPE_COLUMNS: ExportColumn[] = [
+  { key: 'issue_type', header: 'Issue Type' },
+  ...ISSUE_EFFORT_COLUMNS,
+];
+
+const DORA_METRIC_COLUMNS: ExportColumn[] = [
+  { key: 'deployments', header: 'Deployments', type: 'integer' },
+  { key: 'deployment_days', header: 'Deployment Days', type: 'integer' },
+  { key: 'deployments_per_week', header: 'Deployments per Week', type: 'number' },
+  { key: 'deployed_commits', header: 'Deployed Commits', type: 'integer' },
+  { key: 'median_lead_time_hours', header: 'Median Lead Time (h)', type: 'number' },
+  { key: 'avg_lead_time_hours', header: 'Avg Lead Time (h)', type: 'number' },
+  { key: 'failed_deployments', header: 'Failed Deployments', type: 'integer' },
+  { key: 'change_failure_rate_pct', header: 'Change Failure Rate %', type: 'number' },
+  { key: 'incidents', header: 'Incidents', type: 'integer' },
+  { key: 'open_incidents', header: 'Open Incidents', type: 'integer' },
+  { key: 'mttr_hours', header: 'MTTR (h)', type: 'number' },
+];
+
+export const DORA_REPOSITORY_COLUMNS: ExportColumn[] = [
+  { key: 'repository_name', header: 'Repository' },
+  ...DORA_METRIC_COLUMNS,
+];
+
+export const DORA_MONTHLY_COLUMNS: ExportColumn[] = [
+  { key: 'year_month', header: 'Month' },
+  ...DORA_METRIC_COLUMNS,
+];
+
+export const DORA_REPOSITORY_MONTHLY_COLUMNS: ExportColumn[] = [
+  { key: 'year_month', header: 'Month' },
+  { key: 'repository_name', header: 'Repository' },
+  ...DORA_METRIC_COLUMNS,
+];
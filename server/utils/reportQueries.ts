@@ -0,0 +1,695 @@
+import pool from '../db.js';
+import { authorEmailsCondition, normalizeAliasValue, normalizeEmails } from './authorIdentity.js';
+import {
+  categoryLevelCondition,
+  categoryLevelExpression,
+  categoryLevelParam,
+  getCategoryLevel,
+  isFlatCategoryLevel,
+  markSubcategories,
+  parseCategoryParent
+} from './categoryHierarchy.js';
+import { loadCategoryTaxonomy } from './categoryTaxonomy.js';
+import { activeRepositoryCondition, parseRepoFilter, repositoryNameFilter } from './repositories.js';
+import { SignificanceResult, welchTTest } from './significance.js';
+import { hasTeam, teamCondition, teamMonthlyStatsQuery } from './teams.js';
+
+/**
+ * Report queries shared by the JSON endpoints and the generated reports
+ * (PDF report builder, exports).
+ */
+
+export interface ReportFilters {
+  /** Repository names (repeated or comma-separated; 'all' or missing for every repository) */
+  repo?: unknown;
+  /** Team name ('all' or missing for every author) */
+  team?: unknown;
+  dateFrom?: unknown;
+  dateTo?: unknown;
+}
+
+export interface CategoryStatsFilters extends ReportFilters {
+  /** Category to drill into ('all' or missing for the top level) */
+  parent?: unknown;
+}
+
+export interface PersonalPerformanceFilters extends ReportFilters {
+  /** Maximum number of commit details */
+  limit?: number;
+}
+
+export interface PersonalPerformanceReport {
+  author_emails: string[];
+  personal_stats: any;
+  daily_activity: any[];
+  repository_breakdown: any[];
+  category_breakdown: any[];
+  commit_details: any[];
+  team_stats: any;
+}
+
+export interface SummaryReport {
+  overall_stats: any;
+  largest_commits: any[];
+  top_contributors: any[];
+}
+
+export interface BeforeAfterPeriods {
+  beforeStart: unknown;
+  beforeEnd: unknown;
+  afterStart: unknown;
+  afterEnd: unknown;
+}
+
+export interface BeforeAfterReport {
+  before: any;
+  after: any;
+  /** Monthly values of each period (one row per repository and month) */
+  samples: { before: any[]; after: any[] };
+  /** Welch's t-test of each metric, keyed like the averages */
+  significance: Record<string, SignificanceResult>;
+}
+
+export interface AiAdoptionReport {
+  /** AI-assisted and non-assisted commits ('assisted' / 'not_assisted') */
+  groups: any[];
+  /** AI-assisted commits per tool (a commit with several tools counts for each) */
+  tools: any[];
+  /** Commits per category in each group, with the category share of the group */
+  categories: any[];
+}
+
+/**
+ * Overall statistics, largest commits and top contributors for a repo/team/date range
+ * @param filters - Repositories ('all' or missing for every active repository), team and date range
+ * @returns Summary sections
+ */
+export async function getSummaryReport(filters: ReportFilters): Promise<SummaryReport> {
+  const { team, dateFrom, dateTo } = filters;
+  const repos = parseRepoFilter(filters.repo);
+  const hasRepoFilter = repos.length > 0;
+  const hasTeamFilter = hasTeam(team);
+
+  // Build WHERE conditions
+  const conditions: string[] = [];
+  const params: any[] = [];
+  let paramIndex = 1;
+
+  let repoJoin = '';
+
+  if (hasRepoFilter) {
+    repoJoin = ' JOIN repositories r ON c.repository_id = r.id';
+    const repoFilter = repositoryNameFilter('r.name', `$${paramIndex}`, repos);
+    conditions.push(repoFilter.condition);
+    params.push(repoFilter.value);
+    paramIndex++;
+  } else {
+    // Archived repositories are left out of the totals across repositories
+    conditions.push(activeRepositoryCondition());
+  }
+
+  if (hasTeamFilter) {
+    conditions.push(teamCondition('c', `$${paramIndex}`));
+    params.push(team);
+    paramIndex++;
+  }
+
+  if (dateFrom) {
+    conditions.push(`c.commit_date >= $${paramIndex}`);
+    params.push(dateFrom);
+    paramIndex++;
+  }
+
+  if (dateTo) {
+    conditions.push(`c.commit_date <= $${paramIndex}`);
+    params.push(dateTo);
+    paramIndex++;
+  }
+
+  // Same commits resolved to their author identity (used for contributor grouping and team filters)
+  const identityBaseQuery = `FROM v_commits_with_identity c${repoJoin}`;
+  const baseQuery = hasTeamFilter ? identityBaseQuery : `FROM commits c${repoJoin}`;
+  const whereClause = conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
+
+  // 1. Overall Statistics
+  const statsQuery = `
+    SELECT
+      COUNT(c.id)::int as total_commits,
+      COALESCE(SUM(c.weight), 0)::numeric as effective_commits,
+      COALESCE(ROUND(AVG(c.weight)::numeric, 1), 0) as avg_weight,
+      COALESCE(ROUND((SUM(c.weight) / COUNT(c.id)::numeric) * 100, 1), 0) as weight_efficiency_pct,
+      COALESCE(SUM(c.lines_added), 0)::bigint as total_lines_added,
+      COALESCE(SUM(c.lines_deleted), 0)::bigint as total_lines_deleted,
+      COALESCE(SUM(c.lines_added + c.lines_deleted), 0)::bigint as total_lines_changed,
+      COALESCE(ROUND(AVG(c.lines_added + c.lines_deleted)::numeric, 1), 0) as avg_lines_changed_per_commit,
+      COALESCE(ROUND(AVG(c.lines_added)::numeric, 1), 0) as avg_lines_added_per_commit,
+      COALESCE(ROUND(AVG(c.lines_deleted)::numeric, 1), 0) as avg_lines_deleted_per_commit
+    ${baseQuery}
+    ${whereClause}
+  `;
+
+  // 2. Top 10 Largest Commits
+  const largestCommitsQuery = `
+    SELECT
+      c.commit_date,
+      c.hash as commit_hash,
+      c.subject as commit_message,
+      c.description,
+      c.author_name,
+      ${hasRepoFilter ? 'r.name' : '(SELECT name FROM repositories WHERE id = c.repository_id)'} as repository_name,
+      (c.lines_added + c.lines_deleted) as lines_changed,
+      c.lines_added,
+      c.lines_deleted,
+      c.weight
+    ${baseQuery}
+    ${whereClause}
+    ORDER BY lines_changed DESC
+    LIMIT 10
+  `;
+
+  // 3. Top 10 Contributors (grouped by author identity)
+  const topContributorsQuery = `
+    SELECT
+      MAX(c.canonical_author_name) as author_name,
+      MAX(c.canonical_author_email) as author_email,
+      COUNT(c.id)::int as total_commits,
+      ROUND((SUM(c.weight) / 100)::numeric, 2) as effective_commits,
+      ROUND(AVG(c.weight)::numeric, 1) as avg_weight,
+      ROUND((SUM(c.weight) / COUNT(c.id)::numeric) * 100, 1) as weight_efficiency_pct,
+      COUNT(DISTINCT c.repository_id)::int as repositories_contributed,
+      SUM(c.lines_added + c.lines_deleted)::bigint as total_lines_changed,
+      ROUND(AVG(c.lines_added + c.lines_deleted)::numeric, 1) as avg_lines_changed_per_commit
+    ${identityBaseQuery}
+    ${whereClause}
+    GROUP BY c.author_key
+    ORDER BY total_commits DESC
+    LIMIT 10
+  `;
+
+  // Execute all queries
+  const [statsResult, largestCommitsResult, topContributorsResult] = await Promise.all([
+    pool.query(statsQuery, params),
+    pool.query(largestCommitsQuery, params),
+    pool.query(topContributorsQuery, params)
+  ]);
+
+  return {
+    overall_stats: statsResult.rows[0],
+    largest_commits: largestCommitsResult.rows,
+    top_contributors: topContributorsResult.rows
+  };
+}
+
+/**
+ * Category statistics for a repo/team/date range, one level of the category hierarchy
+ * Unfiltered requests use the v_category_stats view when the categories need no rollup.
+ * @param filters - Repositories ('all' or missing for every repository), team, date range
+ *   and parent category (missing for the top level)
+ * @returns Category rows sorted by commit count, flagged when they have sub-categories
+ */
+export async function getCategoryStats(filters: CategoryStatsFilters): Promise<any[]> {
+  const { team, dateFrom, dateTo } = filters;
+  const repos = parseRepoFilter(filters.repo);
+  const hasRepoFilter = repos.length > 0;
+  const hasTeamFilter = hasTeam(team);
+  const hasDateFilter = dateFrom || dateTo;
+  const level = getCategoryLevel(await loadCategoryTaxonomy(), parseCategoryParent(filters.parent));
+
+  if (!hasRepoFilter && !hasTeamFilter && !hasDateFilter && isFlatCategoryLevel(level)) {
+    // Use view for unfiltered queries
+    const result = await pool.query(`
+      SELECT
+        category,
+        total_commits,
+        effective_commits,
+        avg_weight,
+        weight_efficiency_pct,
+        total_lines_changed,
+        unique_authors,
+        repositories
+      FROM v_category_stats
+      ORDER BY total_commits DESC
+    `);
+    return markSubcategories(result.rows, level);
+  }
+
+  // Custom query with filters, adding up the categories of each level category
+  const category = categoryLevelExpression(level, 'c.category', '$1');
+  let query = `
+    SELECT
+      ${category} as category,
+      COUNT(c.id)::int as total_commits,
+      ROUND((SUM(c.weight) / 100)::numeric, 2) as effective_commits,
+      ROUND(AVG(c.weight)::numeric, 1) as avg_weight,
+      ROUND((SUM(c.weight) / COUNT(c.id)::numeric) * 100, 1) as weight_efficiency_pct,
+      SUM(c.lines_added + c.lines_deleted)::bigint as total_lines_changed,
+      COUNT(DISTINCT c.author_email)::int as unique_authors,
+      COUNT(DISTINCT c.repository_id)::int as repositories
+    FROM ${hasTeamFilter ? 'v_commits_with_identity' : 'commits'} c
+  `;
+
+  const levelCondition = categoryLevelCondition(level, 'c.category', '$1');
+  const conditions: string[] = levelCondition ? [levelCondition] : [];
+  const params: any[] = [categoryLevelParam(level)];
+  let paramIndex = 2;
+
+  if (hasRepoFilter) {
+    query += ` JOIN repositories r ON c.repository_id = r.id `;
+    const repoFilter = repositoryNameFilter('r.name', `$${paramIndex}`, repos);
+    conditions.push(repoFilter.condition);
+    params.push(repoFilter.value);
+    paramIndex++;
+  }
+
+  if (hasTeamFilter) {
+    conditions.push(teamCondition('c', `$${paramIndex}`));
+    params.push(team);
+    paramIndex++;
+  }
+
+  if (dateFrom) {
+    conditions.push(`c.commit_date >= $${paramIndex}`);
+    params.push(dateFrom);
+    paramIndex++;
+  }
+
+  if (dateTo) {
+    conditions.push(`c.commit_date <= $${paramIndex}`);
+    params.push(dateTo);
+    paramIndex++;
+  }
+
+  if (conditions.length > 0) {
+    query += ' WHERE ' + conditions.join(' AND ');
+  }
+
+  query += `
+    GROUP BY ${category}
+    ORDER BY total_commits DESC
+  `;
+
+  const result = await pool.query(query, params);
+  return markSubcategories(result.rows, level);
+}
+
+// Monthly metrics compared by the before/after analysis, keyed by the name of their average
+// (read from mv_monthly_stats_by_repo, or from the team's monthly statistics)
+const BEFORE_AFTER_METRICS: Record<string, string> = {
+  avg_lines_per_commit: 'avg_lines_changed_per_commit',
+  avg_commits_per_month: 'total_commits',
+  avg_effective_commits_per_month: 'effective_commits',
+  avg_weight: 'avg_weight',
+  avg_authors: 'unique_authors',
+  avg_commits_per_committer: 'avg_commits_per_author',
+  avg_weighted_lines_per_commit: 'CASE WHEN effective_commits > 0 THEN weighted_lines_changed / effective_commits ELSE 0 END',
+  avg_effective_commits_per_committer: 'CASE WHEN unique_authors > 0 THEN effective_commits / unique_authors ELSE 0 END',
+};
+
+// Averages of the monthly metrics
+const beforeAfterSelect = (source: string) => `
+  SELECT
+    ${Object.entries(BEFORE_AFTER_METRICS).map(([name, metric]) => `AVG(${metric})::numeric as ${name}`).join(',\n    ')}
+  FROM ${source}
+`;
+
+// Monthly values of the metrics (the samples of the significance tests)
+const beforeAfterSamplesSelect = (source: string) => `
+  SELECT
+    repository_name,
+    year_month,
+    ${Object.entries(BEFORE_AFTER_METRICS).map(([name, metric]) => `(${metric})::float8 as ${name}`).join(',\n    ')}
+  FROM ${source}
+`;
+
+/**
+ * Average monthly metrics of two periods for a repository (or 'all'), with their monthly
+ * samples and a Welch's t-test per metric
+ * A sample is one month of one repository, the values the averages are taken over.
+ * @param repoName - Repository name, or 'all' to aggregate across repositories
+ * @param periods - Before and after period boundaries (month start dates)
+ * @param team - Only count the commits of this team ('all' or missing for every author)
+ * @returns Averages, samples and significance for both periods
+ */
+export async function getBeforeAfterComparison(repoName: string, periods: BeforeAfterPeriods, team?: unknown): Promise<BeforeAfterReport> {
+  const { beforeStart, beforeEnd, afterStart, afterEnd } = periods;
+  const hasTeamFilter = hasTeam(team);
+  const teamParams = hasTeamFilter ? [team] : [];
+
+  // Different queries for 'all' repositories vs specific repository
+  let where: string;
+  let beforeParams: unknown[];
+  let afterParams: unknown[];
+  let source: string;
+  if (repoName === 'all') {
+    source = hasTeamFilter ? `(${teamMonthlyStatsQuery('$3')}) team_stats` : 'mv_monthly_stats_by_repo';
+    where = 'WHERE month_start_date BETWEEN $1 AND $2';
+    beforeParams = [beforeStart, beforeEnd, ...teamParams];
+    afterParams = [afterStart, afterEnd, ...teamParams];
+  } else {
+    source = hasTeamFilter ? `(${teamMonthlyStatsQuery('$4')}) team_stats` : 'mv_monthly_stats_by_repo';
+    where = `WHERE repository_name = $1
+      AND month_start_date BETWEEN $2 AND $3`;
+    beforeParams = [repoName, beforeStart, beforeEnd, ...teamParams];
+    afterParams = [repoName, afterStart, afterEnd, ...teamParams];
+  }
+
+  const query = `${beforeAfterSelect(source)} ${where}`;
+  const samplesQuery = `${beforeAfterSamplesSelect(source)} ${where}
+    ORDER BY month_start_date, repository_name`;
+  const beforeResult = await pool.query(query, beforeParams);
+  const afterResult = await pool.query(query, afterParams);
+  const beforeSamples = await pool.query(samplesQuery, beforeParams);
+  const afterSamples = await pool.query(samplesQuery, afterParams);
+
+  const significance: Record<string, SignificanceResult> = {};
+  for (const name of Object.keys(BEFORE_AFTER_METRICS)) {
+    significance[name] = welchTTest(
+      beforeSamples.rows.map((row: any) => row[name]),
+      afterSamples.rows.map((row: any) => row[name])
+    );
+  }
+
+  return {
+    before: beforeResult.rows[0],
+    after: afterResult.rows[0],
+    samples: { before: beforeSamples.rows, after: afterSamples.rows },
+    significance,
+  };
+}
+
+// Metrics of a group of commits (rows of the ai_commits CTE)
+const AI_ADOPTION_METRICS = `
+  COUNT(*)::int as total_commits,
+  ROUND((SUM(weight) / 100)::numeric, 2) as effective_commits,
+  ROUND(AVG(weight)::numeric, 1) as avg_weight,
+  ROUND(AVG(lines_changed)::numeric, 1) as avg_lines_per_commit,
+  ROUND((SUM(lines_changed * weight / 100.0) / NULLIF(SUM(weight) / 100.0, 0))::numeric, 1) as avg_weighted_lines_per_commit,
+  COUNT(DISTINCT author_key)::int as unique_authors,
+  ROUND(COUNT(*)::numeric / NULLIF(COUNT(DISTINCT author_key), 0), 2) as commits_per_author,
+  ROUND((SUM(weight) / 100.0 / NULLIF(COUNT(DISTINCT author_key), 0))::numeric, 2) as effective_commits_per_author
+`;
+
+/**
+ * AI-assisted commits (ai_tools set) compared with the other commits of the same period
+ * Authors are counted by author identity, so throughput per author merges email aliases.
+ * @param filters - Repositories ('all' or missing for every active repository), team and date range
+ * @returns Metrics per group and per tool, and the category mix of both groups
+ */
+export async function getAiAdoptionReport(filters: ReportFilters): Promise<AiAdoptionReport> {
+  const { team, dateFrom, dateTo } = filters;
+  const repos = parseRepoFilter(filters.repo);
+
+  const conditions: string[] = [];
+  const params: any[] = [];
+  let paramIndex = 1;
+  let repoJoin = '';
+
+  if (repos.length > 0) {
+    repoJoin = ' JOIN repositories r ON c.repository_id = r.id';
+    const repoFilter = repositoryNameFilter('r.name', `$${paramIndex}`, repos);
+    conditions.push(repoFilter.condition);
+    params.push(repoFilter.value);
+    paramIndex++;
+  } else {
+    // Archived repositories are left out of the totals across repositories
+    conditions.push(activeRepositoryCondition());
+  }
+
+  if (hasTeam(team)) {
+    conditions.push(teamCondition('c', `$${paramIndex}`));
+    params.push(team);
+    paramIndex++;
+  }
+
+  if (dateFrom) {
+    conditions.push(`c.commit_date >= $${paramIndex}`);
+    params.push(dateFrom);
+    paramIndex++;
+  }
+
+  if (dateTo) {
+    conditions.push(`c.commit_date <= $${paramIndex}`);
+    params.push(dateTo);
+    paramIndex++;
+  }
+
+  // Commits of the filters, with blank ai_tools treated as not assisted
+  const aiCommits = `
+    WITH ai_commits AS (
+      SELECT
+        c.author_key,
+        COALESCE(c.category, 'UNCATEGORIZED') as category,
+        c.weight,
+        (c.lines_added + c.lines_deleted) as lines_changed,
+        NULLIF(TRIM(c.ai_tools), '') as ai_tools
+      FROM v_commits_with_identity c${repoJoin}
+      WHERE ${conditions.join(' AND ')}
+    )
+  `;
+
+  const groupsQuery = `${aiCommits}
+    SELECT
+      CASE WHEN ai_tools IS NULL THEN 'not_assisted' ELSE 'assisted' END as ai_usage,
+      ${AI_ADOPTION_METRICS},
+      ROUND(100.0 * COUNT(*) / SUM(COUNT(*)) OVER (), 1) as share_of_commits_pct
+    FROM ai_commits
+    GROUP BY 1
+    ORDER BY 1
+  `;
+
+  // ai_tools holds one or more comma-separated tool names
+  const toolsQuery = `${aiCommits}
+    SELECT
+      UPPER(TRIM(t.tool)) as tool,
+      ${AI_ADOPTION_METRICS}
+    FROM ai_commits, regexp_split_to_table(ai_commits.ai_tools, ',') as t(tool)
+    WHERE TRIM(t.tool) <> ''
+    GROUP BY UPPER(TRIM(t.tool))
+    ORDER BY total_commits DESC, tool
+  `;
+
+  const categoriesQuery = `${aiCommits}
+    SELECT
+      category,
+      COUNT(*) FILTER (WHERE ai_tools IS NOT NULL)::int as assisted_commits,
+      COUNT(*) FILTER (WHERE ai_tools IS NULL)::int as not_assisted_commits,
+      ROUND(100.0 * COUNT(*) FILTER (WHERE ai_tools IS NOT NULL)
+        / NULLIF(SUM(COUNT(*) FILTER (WHERE ai_tools IS NOT NULL)) OVER (), 0), 1) as assisted_share_pct,
+      ROUND(100.0 * COUNT(*) FILTER (WHERE ai_tools IS NULL)
+        / NULLIF(SUM(COUNT(*) FILTER (WHERE ai_tools IS NULL)) OVER (), 0), 1) as not_assisted_share_pct
+    FROM ai_commits
+    GROUP BY category
+    ORDER BY COUNT(*) DESC, category
+  `;
+
+  const [groupsResult, toolsResult, categoriesResult] = await Promise.all([
+    pool.query(groupsQuery, params),
+    pool.query(toolsQuery, params),
+    pool.query(categoriesQuery, params)
+  ]);
+
+  return {
+    groups: groupsResult.rows,
+    tools: toolsResult.rows,
+    categories: categoriesResult.rows
+  };
+}
+
+/**
+ * Personal performance of a dashboard user compared with the team
+ * Commits are matched through author identities and the author emails claimed by the user,
+ * so aliased and claimed emails are aggregated together.
+ * @param authorEmail - Login email of the user
+ * @param filters - Repositories, date range and commit details limit (default 50)
+ * @returns Personal statistics, breakdowns, commit details and team totals
+ */
+export async function getPersonalPerformance(authorEmail: string, filters: PersonalPerformanceFilters): Promise<PersonalPerformanceReport> {
+  const { dateFrom, dateTo } = filters;
+  const limit = filters.limit || 50;
+  const repos = parseRepoFilter(filters.repo);
+  const hasRepoFilter = repos.length > 0;
+
+  // Include the author emails claimed by the dashboard user with this login email
+  const claimedEmails = await pool.query(
+    `SELECT uae.email
+     FROM user_author_emails uae
+     JOIN users u ON u.id = uae.user_id
+     WHERE LOWER(u.email) = $1`,
+    [normalizeAliasValue(authorEmail)]
+  );
+  const authorEmails = normalizeEmails([authorEmail, ...claimedEmails.rows.map((row: any) => row.email)]);
+  const authorCondition = authorEmailsCondition('c', '$1');
+
+  // Repository and date filters shared by the personal queries ($1 is always the author emails)
+  const buildPersonalFilters = (includeRepo: boolean) => {
+    const conditions: string[] = [];
+    const params: any[] = [authorEmails];
+    let paramIndex = 2;
+
+    if (includeRepo && hasRepoFilter) {
+      const repoFilter = repositoryNameFilter('r.name', `$${paramIndex}`, repos);
+      conditions.push(repoFilter.condition);
+      params.push(repoFilter.value);
+      paramIndex++;
+    }
+    if (dateFrom) {
+      conditions.push(`c.commit_date >= $${paramIndex}`);
+      params.push(dateFrom);
+      paramIndex++;
+    }
+    if (dateTo) {
+      conditions.push(`c.commit_date <= $${paramIndex}`);
+      params.push(dateTo);
+      paramIndex++;
+    }
+
+    return {
+      filterClause: conditions.map(condition => `AND ${condition}`).join(' '),
+      params
+    };
+  };
+
+  const personalFilters = buildPersonalFilters(true);
+  const personalFiltersWithoutRepo = buildPersonalFilters(false);
+
+  // 1. Personal Summary Statistics (with weight > 0 filter)
+  const personalStatsQuery = `
+    SELECT
+      COUNT(c.id)::int as total_commits,
+      COALESCE(SUM(c.weight) / 100, 0)::numeric as effective_commits,
+      COALESCE(ROUND(AVG(c.weight)::numeric, 1), 0) as avg_weight,
+      COALESCE(ROUND((SUM(c.weight) / NULLIF(COUNT(c.id), 0)::numeric), 1), 0) as weight_efficiency_pct,
+      COALESCE(SUM(c.lines_added), 0)::bigint as total_lines_added,
+      COALESCE(SUM(c.lines_deleted), 0)::bigint as total_lines_deleted,
+      COALESCE(SUM(c.lines_added + c.lines_deleted), 0)::bigint as total_lines_changed,
+      COALESCE(SUM((c.lines_added + c.lines_deleted) * c.weight / 100.0), 0)::numeric as weighted_lines_changed,
+      COALESCE(ROUND(AVG(c.lines_added + c.lines_deleted)::numeric, 1), 0) as avg_lines_changed_per_commit,
+      COUNT(DISTINCT c.repository_id)::int as repositories_contributed,
+      COUNT(DISTINCT DATE_TRUNC('day', c.commit_date))::int as active_days
+    FROM v_commits_with_identity c
+    JOIN repositories r ON c.repository_id = r.id
+    WHERE ${authorCondition}
+      AND c.weight > 0
+      ${personalFilters.filterClause}
+  `;
+
+  // 2. Daily Activity for Charts (per day and repository)
+  const dailyActivityQuery = `
+    SELECT
+      DATE(c.commit_date) as commit_date,
+      r.name as repository_name,
+      COUNT(c.id)::int as total_commits,
+      ROUND((SUM(c.weight) / 100.0)::numeric, 2) as effective_commits,
+      ROUND(AVG(c.weight)::numeric, 1) as avg_weight,
+      ROUND((SUM(c.weight) / NULLIF(COUNT(c.id), 0)::numeric), 1) as weight_efficiency_pct,
+      SUM(c.lines_added)::bigint as total_lines_added,
+      SUM(c.lines_deleted)::bigint as total_lines_deleted,
+      SUM(c.lines_added + c.lines_deleted)::bigint as total_lines_changed,
+      SUM(c.lines_added * c.weight / 100.0)::numeric as weighted_lines_added,
+      SUM(c.lines_deleted * c.weight / 100.0)::numeric as weighted_lines_deleted,
+      SUM((c.lines_added + c.lines_deleted) * c.weight / 100.0)::numeric as weighted_lines_changed
+    FROM v_commits_with_identity c
+    JOIN repositories r ON c.repository_id = r.id
+    WHERE ${authorCondition}
+      ${personalFilters.filterClause}
+    GROUP BY DATE(c.commit_date), r.name
+    ORDER BY commit_date ASC
+  `;
+
+  // 3. Repository Breakdown (with weight > 0 filter)
+  const repoBreakdownQuery = `
+    SELECT
+      r.name as repository_name,
+      COUNT(c.id)::int as total_commits,
+      ROUND((SUM(c.weight) / 100.0)::numeric, 2) as effective_commits,
+      ROUND(AVG(c.weight)::numeric, 1) as avg_weight,
+      ROUND((SUM(c.weight) / NULLIF(COUNT(c.id), 0)::numeric), 1) as weight_efficiency_pct,
+      SUM(c.lines_added + c.lines_deleted)::bigint as total_lines_changed,
+      SUM((c.lines_added + c.lines_deleted) * c.weight / 100.0)::numeric as weighted_lines_changed
+    FROM v_commits_with_identity c
+    JOIN repositories r ON c.repository_id = r.id
+    WHERE ${authorCondition}
+      AND c.weight > 0
+      ${personalFiltersWithoutRepo.filterClause}
+    GROUP BY r.name
+    ORDER BY total_commits DESC
+  `;
+
+  // 4. Category Breakdown (all time, across repositories)
+  const categoryBreakdownQuery = `
+    SELECT
+      COALESCE(c.category, 'UNCATEGORIZED') as category,
+      COUNT(c.id)::int as total_commits,
+      ROUND((SUM(c.weight) / 100.0)::numeric, 2) as effective_commits,
+      ROUND(AVG(c.weight)::numeric, 1) as avg_weight,
+      ROUND((SUM(c.weight) / NULLIF(COUNT(c.id), 0)::numeric), 1) as weight_efficiency_pct,
+      SUM(c.lines_added + c.lines_deleted)::bigint as total_lines_changed,
+      SUM((c.lines_added + c.lines_deleted) * c.weight / 100.0)::numeric as weighted_lines_changed
+    FROM v_commits_with_identity c
+    WHERE ${authorCondition}
+    GROUP BY COALESCE(c.category, 'UNCATEGORIZED')
+    ORDER BY total_commits DESC
+  `;
+
+  // 5. Commit Details List
+  const commitDetailsQuery = `
+    SELECT
+      c.commit_date,
+      c.hash as commit_hash,
+      c.subject as commit_message,
+      c.description,
+      c.author_name,
+      r.name as repository_name,
+      c.category,
+      (c.lines_added + c.lines_deleted) as lines_changed,
+      c.lines_added,
+      c.lines_deleted,
+      c.weight
+    FROM v_commits_with_identity c
+    JOIN repositories r ON c.repository_id = r.id
+    WHERE ${authorCondition}
+      ${personalFilters.filterClause}
+    ORDER BY c.commit_date DESC LIMIT ${limit}
+  `;
+
+  // 6. Team Comparison - Get team totals for comparison (with weight > 0 filter)
+  const teamStatsQuery = `
+    SELECT
+      COUNT(c.id)::int as total_commits,
+      COALESCE(SUM(c.weight) / 100.0, 0)::numeric as effective_commits,
+      COALESCE(ROUND(AVG(c.weight)::numeric, 1), 0) as avg_weight,
+      COALESCE(SUM(c.lines_added + c.lines_deleted), 0)::bigint as total_lines_changed,
+      COUNT(DISTINCT c.author_key)::int as total_contributors
+    FROM v_commits_with_identity c
+    ${hasRepoFilter ? 'JOIN repositories r ON c.repository_id = r.id' : ''}
+    WHERE c.weight > 0
+      ${hasRepoFilter ? `AND ${repositoryNameFilter('r.name', '$1', repos).condition}` : ''}
+      ${dateFrom ? `AND c.commit_date >= $${hasRepoFilter ? 2 : 1}` : ''}
+      ${dateTo ? `AND c.commit_date <= $${hasRepoFilter ? (dateFrom ? 3 : 2) : (dateFrom ? 2 : 1)}` : ''}
+  `;
+
+  const teamStatsParams: any[] = [];
+  if (hasRepoFilter) teamStatsParams.push(repositoryNameFilter('r.name', '$1', repos).value);
+  if (dateFrom) teamStatsParams.push(dateFrom);
+  if (dateTo) teamStatsParams.push(dateTo);
+
+  // Execute all queries in parallel
+  const [personalStats, dailyActivity, repoBreakdown, categoryBreakdown, commitDetails, teamStats] = await Promise.all([
+    pool.query(personalStatsQuery, personalFilters.params),
+    pool.query(dailyActivityQuery, personalFilters.params),
+    pool.query(repoBreakdownQuery, personalFiltersWithoutRepo.params),
+    pool.query(categoryBreakdownQuery, [authorEmails]),
+    pool.query(commitDetailsQuery, personalFilters.params),
+    pool.query(teamStatsQuery, teamStatsParams)
+  ]);
+
+  return {
+    author_emails: authorEmails,
+    personal_stats: personalStats.rows[0],
+    daily_activity: dailyActivity.rows,
+    repository_breakdown: repoBreakdown.rows,
+    category_breakdown: categoryBreakdown.rows,
+    commit_details: commitDetails.rows,
+    team_stats: teamStats.rows[0]
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { parseRepoFilter, parseRepositoryInput, repositoryNameFilter } from './repositories.js';
+
+describe('parseRepositoryInput', () => {
+  it('should trim the settings and default the visibility', () => {
+    expect(parseRepositoryInput({ name: ' billing-service ', description: ' Invoicing ', team: '', default_branch: 'main' })).toEqual({
+      repository: {
+        name: 'billing-service',
+        description: 'Invoicing',
+        default_branch: 'main',
+        team: null,
+        visibility: 'internal',
+      },
+    });
+  });
+
+  it('should only change the given fields of an existing repository', () => {
+    const existing = {
+      name: 'billing-service',
+      description: 'Invoicing',
+      default_branch: 'main',
+      team: 'Payments',
+      visibility: 'private' as const,
+    };
+
+    expect(parseRepositoryInput({ team: 'Platform' }, existing)).toEqual({
+      repository: { ...existing, team: 'Platform' },
+    });
+  });
+
+  it('should reject invalid settings', () => {
+    expect(parseRepositoryInput({})).toEqual({ error: 'name is required' });
+    expect(parseRepositoryInput({ name: 'web', visibility: 'secret' })).toEqual({
+      error: 'visibility must be one of: public, internal, private',
+    });
+    expect(parseRepositoryInput({ name: 'web', team: 3 })).toHaveProperty('error');
+    expect(parseRepositoryInput({ name: 'x'.repeat(256) })).toHaveProperty('error');
+  });
+});
+
+describe('parseRepoFilter', () => {
+  it('should accept repeated and comma-separated repository names', () => {
+    expect(parseRepoFilter(['api', 'web, billing'])).toEqual(['api', 'web', 'billing']);
+    expect(parseRepoFilter('api,api')).toEqual(['api']);
+  });
+
+  it('should select every repository for "all" or a missing parameter', () => {
+    expect(parseRepoFilter('all')).toEqual([]);
+    expect(parseRepoFilter(undefined)).toEqual([]);
+    expect(parseRepoFilter('')).toEqual([]);
+  });
+});
+
+describe('repositoryNameFilter', () => {
+  it('should compare a single repository with =', () => {
+    expect(repositoryNameFilter('r.name', '$1', ['api'])).toEqual({ condition: 'r.name = $1', value: 'api' });
+  });
+
+  it('should match several repositories with ANY', () => {
+    expect(repositoryNameFilter('repository_name', '$2', ['api', 'web'])).toEqual({
+      condition: 'repository_name = ANY($2)',
+      value: ['api', 'web'],
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Repository settings: validation, the archived-repository filters and the
+ * repository selection of report filters
+ */
+
+export const REPOSITORY_VISIBILITIES = ['public', 'internal', 'private'] as const;
+
+export type RepositoryVisibility = typeof REPOSITORY_VISIBILITIES[number];
+
+export interface RepositoryInput {
+  name: string;
+  description: string | null;
+  default_branch: string | null;
+  team: string | null;
+  visibility: RepositoryVisibility;
+}
+
+const MAX_NAME_LENGTH = 255;
+
+/**
+ * Condition keeping repositories that are not archived (for `mv_*` views keyed by repository_name)
+ */
+export const ACTIVE_REPOSITORY_NAME_CONDITION = 'repository_name NOT IN (SELECT name FROM repositories WHERE archived)';
+
+/**
+ * Condition keeping commits of repositories that are not archived
+ * @param alias - Alias of the commits table
+ */
+export const activeRepositoryCondition = (alias = 'c'): string =>
+  `${alias}.repository_id IN (SELECT id FROM repositories WHERE NOT archived)`;
+
+/**
+ * Repository names selected by a `repo` query parameter
+ * Accepts a repeated parameter (`repo=a&repo=b`) and comma-separated names (`repo=a,b`).
+ * @param repo - Query parameter value
+ * @returns Selected names; empty for every repository ('all' or missing)
+ */
+export function parseRepoFilter(repo: unknown): string[] {
+  const values = Array.isArray(repo) ? repo : [repo];
+  const names = values
+    .filter((value): value is string => typeof value === 'string')
+    .flatMap(value => value.split(','))
+    .map(name => name.trim())
+    .filter(name => name && name !== 'all');
+  return [...new Set(names)];
+}
+
+/**
+ * SQL predicate matching a repository selection
+ * A single repository is compared with `=`, several with `= ANY` (one array parameter).
+ * @param column - Repository name column (e.g. 'r.name')
+ * @param paramRef - Placeholder of the parameter (e.g. '$1')
+ * @param repos - Selected names (from parseRepoFilter, not empty)
+ * @returns SQL condition and the parameter value
+ */
+export function repositoryNameFilter(column: string, paramRef: string, repos: string[]): { condition: string; value: string | string[] } {
+  if (repos.length === 1) {
+    return { condition: `${column} = ${paramRef}`, value: repos[0] };
+  }
+  return { condition: `${column} = ANY(${paramRef})`, value: repos };
+}
+
+export const isRepositoryVisibility = (value: unknown): value is RepositoryVisibility =>
+  REPOSITORY_VISIBILITIES.includes(value as RepositoryVisibility);
+
+const optionalText = (value: unknown): string | null | undefined => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') return undefined;
+  return value.trim() || null;
+};
+
+/**
+ * Validate a repository create/update request
+ * @param body - Request body
+ * @param existing - Current settings (updates only change the given fields)
+ * @returns The settings to store, or an error message
+ */
+export function parseRepositoryInput(
+  body: any,
+  existing?: RepositoryInput
+): { repository: RepositoryInput; error?: undefined } | { repository?: undefined; error: string } {
+  const input = { ...existing, ...body };
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    return { error: 'name is required' };
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+
+  const description = optionalText(input.description);
+  const defaultBranch = optionalText(input.default_branch);
+  const team = optionalText(input.team);
+  if (description === undefined || defaultBranch === undefined || team === undefined) {
+    return { error: 'description, default_branch and team must be strings or null' };
+  }
+
+  const visibility = input.visibility ?? 'internal';
+  if (!isRepositoryVisibility(visibility)) {
+    return { error: `visibility must be one of: ${REPOSITORY_VISIBILITIES.join(', ')}` };
+  }
+
+  return {
+    repository: {
+      name,
+      description,
+      default_branch: defaultBranch,
+      team,
+      visibility,
+    },
+  };
+}
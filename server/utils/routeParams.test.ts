@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { parseIdParam } from './routeParams.js';
+
+describe('routeParams', () => {
+  describe('parseIdParam', () => {
+    it('should parse positive integer ids', () => {
+      expect(parseIdParam('7')).toBe(7);
+      expect(parseIdParam('2147483647')).toBe(2147483647);
+    });
+
+    it('should reject values that cannot be an id', () => {
+      expect(parseIdParam('abc')).toBeNull();
+      expect(parseIdParam('7.5')).toBeNull();
+      expect(parseIdParam('-1')).toBeNull();
+      expect(parseIdParam('0')).toBeNull();
+      expect(parseIdParam('2147483648')).toBeNull();
+      expect(parseIdParam('')).toBeNull();
+      expect(parseIdParam(undefined)).toBeNull();
+    });
+  });
+});
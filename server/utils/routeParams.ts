@@ -0,0 +1,19 @@
+/**
+ * Route parameter helpers
+ *
+ * Ids in URLs reach integer columns; values that cannot be an id are reported
+ * as not found instead of failing the query.
+ */
+
+/**
+ * Id of a row from a route parameter
+ * @param value - Parameter, e.g. req.params.id
+ * @returns The id, or null when the value cannot be an id (not a positive int4)
+ */
+export function parseIdParam(value: string | undefined): number | null {
+  if (!value || !/^\d{1,10}$/.test(value)) {
+    return null;
+  }
+  const id = Number(value);
+  return id > 0 && id <= 2147483647 ? id : null;
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parsePreferencesInput, parseSavedViewInput } from './savedViews.js';
+
+describe('savedViews', () => {
+  describe('parseSavedViewInput', () => {
+    it('should trim the name and strip the leading "?" of the query', () => {
+      expect(parseSavedViewInput({ name: ' My squad ', path: '/contributors', query: '?team=Payments&limit=20' })).toEqual({
+        view: { name: 'My squad', path: '/contributors', query: 'team=Payments&limit=20' },
+      });
+    });
+
+    it('should keep the current fields when updating', () => {
+      expect(parseSavedViewInput({ name: 'Renamed' }, { name: 'My squad', path: '/trends', query: 'months=6' })).toEqual({
+        view: { name: 'Renamed', path: '/trends', query: 'months=6' },
+      });
+    });
+
+    it('should reject invalid views', () => {
+      expect(parseSavedViewInput({ path: '/' })).toEqual({ error: 'name is required' });
+      expect(parseSavedViewInput({ name: 'x'.repeat(101), path: '/' })).toHaveProperty('error');
+      expect(parseSavedViewInput({ name: 'External', path: 'https://example.com' })).toHaveProperty('error');
+      expect(parseSavedViewInput({ name: 'External', path: '//example.com' })).toHaveProperty('error');
+      expect(parseSavedViewInput({ name: 'Query', path: '/', query: 12 })).toEqual({ error: 'query must be a string' });
+    });
+  });
+
+  describe('parsePreferencesInput', () => {
+    it('should only return the given fields', () => {
+      expect(parsePreferencesInput({ dark_mode: true })).toEqual({ preferences: { dark_mode: true } });
+      expect(parsePreferencesInput({ sidebar_collapsed: false, default_view_id: null })).toEqual({
+        preferences: { sidebar_collapsed: false, default_view_id: null },
+      });
+    });
+
+    it('should reject invalid values', () => {
+      expect(parsePreferencesInput({ dark_mode: 'yes' })).toEqual({ error: 'dark_mode must be a boolean' });
+      expect(parsePreferencesInput({ default_view_id: '3' })).toHaveProperty('error');
+    });
+  });
+});
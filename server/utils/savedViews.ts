@@ -0,0 +1,87 @@
+/**
+ * Saved view and user preference helpers
+ *
+ * A saved view is a page path and the query string of its filters (the pages
+ * keep their filters in the URL), so applying it is navigating to path?query.
+ */
+
+export interface SavedViewInput {
+  name: string;
+  /** Page path, e.g. '/contributors' */
+  path: string;
+  /** Query string without the leading '?' */
+  query: string;
+}
+
+export interface PreferencesInput {
+  dark_mode?: boolean;
+  sidebar_collapsed?: boolean;
+  /** Saved view used as landing page (null for the Overview) */
+  default_view_id?: number | null;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_PATH_LENGTH = 255;
+
+/**
+ * Validate a saved view create/update request
+ * @param body - Request body
+ * @param existing - Current view (updates only change the given fields)
+ * @returns The view to store, or an error message
+ */
+export function parseSavedViewInput(
+  body: any,
+  existing?: SavedViewInput
+): { view: SavedViewInput; error?: undefined } | { view?: undefined; error: string } {
+  const input = { ...existing, ...body };
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    return { error: 'name is required' };
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+
+  // Only paths inside the dashboard (no protocol-relative or external URLs)
+  const path = typeof input.path === 'string' ? input.path.trim() : '';
+  if (!path.startsWith('/') || path.startsWith('//') || path.includes('?') || path.length > MAX_PATH_LENGTH) {
+    return { error: 'path must be a dashboard page path such as /contributors' };
+  }
+
+  if (input.query !== undefined && input.query !== null && typeof input.query !== 'string') {
+    return { error: 'query must be a string' };
+  }
+  const query = typeof input.query === 'string' ? input.query.trim().replace(/^\?/, '') : '';
+
+  return { view: { name, path, query } };
+}
+
+/**
+ * Validate a preferences update (only the given fields change)
+ * @param body - Request body
+ * @returns The fields to store, or an error message
+ */
+export function parsePreferencesInput(
+  body: any
+): { preferences: PreferencesInput; error?: undefined } | { preferences?: undefined; error: string } {
+  const preferences: PreferencesInput = {};
+
+  for (const key of ['dark_mode', 'sidebar_collapsed'] as const) {
+    if (body[key] !== undefined) {
+      if (typeof body[key] !== 'boolean') {
+        return { error: `${key} must be a boolean` };
+      }
+      preferences[key] = body[key];
+    }
+  }
+
+  if (body.default_view_id !== undefined) {
+    if (body.default_view_id !== null && !Number.isInteger(body.default_view_id)) {
+      return { error: 'default_view_id must be a saved view id or null' };
+    }
+    preferences.default_view_id = body.default_view_id;
+  }
+
+  return { preferences };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { studentCriticalValue, studentTwoSidedP, welchTTest } from './significance.js';
+
+describe('significance', () => {
+  describe('studentTwoSidedP', () => {
+    it('should match the t distribution tables', () => {
+      expect(studentTwoSidedP(0, 8)).toBeCloseTo(1, 10);
+      expect(studentTwoSidedP(2, 8)).toBeCloseTo(0.0805, 4);
+      expect(studentTwoSidedP(-2, 8)).toBeCloseTo(0.0805, 4);
+      expect(studentTwoSidedP(1.96, 1e6)).toBeCloseTo(0.05, 4);
+    });
+  });
+
+  describe('studentCriticalValue', () => {
+    it('should return the two-sided 95% critical values', () => {
+      expect(studentCriticalValue(1)).toBeCloseTo(12.706, 3);
+      expect(studentCriticalValue(8)).toBeCloseTo(2.306, 3);
+      expect(studentCriticalValue(30)).toBeCloseTo(2.042, 3);
+    });
+  });
+
+  describe('welchTTest', () => {
+    it('should compare the means with Welch degrees of freedom', () => {
+      const result = welchTTest([1, 2, 3, 4, 5], [3, 4, 5, 6, 7]);
+
+      expect(result.before).toMatchObject({ n: 5, mean: 3 });
+      expect(result.after).toMatchObject({ n: 5, mean: 5 });
+      expect(result.difference).toBe(2);
+      expect(result.t_statistic).toBeCloseTo(2, 10);
+      expect(result.degrees_of_freedom).toBeCloseTo(8, 10);
+      expect(result.p_value).toBeCloseTo(0.0805, 4);
+      expect(result.ci_low).toBeCloseTo(-0.306, 3);
+      expect(result.ci_high).toBeCloseTo(4.306, 3);
+      expect(result.before.ci_low).toBeCloseTo(3 - 2.776 * Math.sqrt(0.5), 3);
+      expect(result.significant).toBe(false);
+    });
+
+    it('should flag clear differences as significant', () => {
+      const result = welchTTest(['40', '42', '41', '39', '43', '40'], ['60', '62', '58', '61', '63', '59']);
+
+      expect(result.p_value).toBeLessThan(0.001);
+      expect(result.ci_low).toBeGreaterThan(0);
+      expect(result.significant).toBe(true);
+    });
+
+    it('should be inconclusive with fewer than 2 values in a period', () => {
+      const result = welchTTest([10], [12, 14, 16]);
+
+      expect(result.before).toEqual({ n: 1, mean: 10, ci_low: null, ci_high: null });
+      expect(result.difference).toBe(4);
+      expect(result.p_value).toBeNull();
+      expect(result.ci_low).toBeNull();
+      expect(result.significant).toBe(false);
+    });
+
+    it('should ignore missing values', () => {
+      const result = welchTTest([null, 'abc', 5, 7], []);
+
+      expect(result.before).toMatchObject({ n: 2, mean: 6 });
+      expect(result.after).toEqual({ n: 0, mean: null, ci_low: null, ci_high: null });
+      expect(result.difference).toBeNull();
+      expect(result.significant).toBe(false);
+    });
+
+    it('should handle constant periods', () => {
+      expect(welchTTest([5, 5, 5], [5, 5])).toMatchObject({ difference: 0, p_value: 1, significant: false });
+      expect(welchTTest([5, 5, 5], [6, 6])).toMatchObject({ difference: 1, ci_low: 1, ci_high: 1, p_value: 0, significant: true });
+    });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Significance of the before/after analysis
+ *
+ * Each period is a sample of monthly values. The periods are compared with
+ * Welch's t-test (no equal-variance assumption), and each mean and the
+ * difference of the means get a 95% confidence interval.
+ */
+
+/** Two-sided significance level (and 1 - confidence level of the intervals) */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export interface MeanEstimate {
+  /** Sample size (months) */
+  n: number;
+  mean: number | null;
+  ci_low: number | null;
+  ci_high: number | null;
+}
+
+export interface SignificanceResult {
+  test: 'welch_t';
+  before: MeanEstimate;
+  after: MeanEstimate;
+  /** Difference of the means (after - before) */
+  difference: number | null;
+  ci_low: number | null;
+  ci_high: number | null;
+  t_statistic: number | null;
+  degrees_of_freedom: number | null;
+  /** Two-sided p-value (null when a period has fewer than 2 samples) */
+  p_value: number | null;
+  /** False for inconclusive results (p-value at or above the level, or too few samples) */
+  significant: boolean;
+}
+
+// Lanczos approximation (g = 7) of ln(Γ(x))
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) {
+    sum += LANCZOS[i] / (z + i);
+  }
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// Continued fraction of the incomplete beta function (modified Lentz's method)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    let term = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + term * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + term / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    term = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + term * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + term / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return result;
+}
+
+// Regularized incomplete beta function I_x(a, b)
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(x, a, b) / a
+    : 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+/**
+ * Two-sided p-value of a t statistic
+ * @param t - t statistic
+ * @param df - Degrees of freedom (may be fractional)
+ */
+export function studentTwoSidedP(t: number, df: number): number {
+  if (!Number.isFinite(t)) return 0;
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/**
+ * Critical value of the t distribution for a two-sided level
+ * (e.g. 2.306 for alpha = 0.05 and 8 degrees of freedom)
+ */
+export function studentCriticalValue(df: number, alpha: number = SIGNIFICANCE_LEVEL): number {
+  let low = 0;
+  let high = 1;
+  while (studentTwoSidedP(high, df) > alpha) high *= 2;
+  // Bisection: the p-value decreases as t grows
+  for (let i = 0; i < 100; i++) {
+    const middle = (low + high) / 2;
+    if (studentTwoSidedP(middle, df) > alpha) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+}
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Sample variance (n - 1 denominator)
+const variance = (values: number[], valuesMean: number): number =>
+  values.reduce((sum, value) => sum + (value - valuesMean) ** 2, 0) / (values.length - 1);
+
+// Numeric values of a sample (pg returns numeric columns as strings)
+const toNumbers = (values: unknown[]): number[] =>
+  values
+    .filter(value => value !== null && value !== undefined && value !== '')
+    .map(Number)
+    .filter(Number.isFinite);
+
+function estimateMean(values: number[]): MeanEstimate {
+  if (values.length === 0) return { n: 0, mean: null, ci_low: null, ci_high: null };
+  const valuesMean = mean(values);
+  if (values.length < 2) return { n: values.length, mean: valuesMean, ci_low: null, ci_high: null };
+
+  const margin = studentCriticalValue(values.length - 1) * Math.sqrt(variance(values, valuesMean) / values.length);
+  return { n: values.length, mean: valuesMean, ci_low: valuesMean - margin, ci_high: valuesMean + margin };
+}
+
+/**
+ * Welch's t-test of two samples
+ * Non-numeric values (months without a value) are ignored. Periods with fewer
+ * than 2 values are inconclusive.
+ * @param beforeValues - Values of the before period
+ * @param afterValues - Values of the after period
+ * @returns Means, difference (after - before), confidence intervals and p-value
+ */
+export function welchTTest(beforeValues: unknown[], afterValues: unknown[]): SignificanceResult {
+  const before = toNumbers(beforeValues);
+  const after = toNumbers(afterValues);
+  const result: SignificanceResult = {
+    test: 'welch_t',
+    before: estimateMean(before),
+    after: estimateMean(after),
+    difference: null,
+    ci_low: null,
+    ci_high: null,
+    t_statistic: null,
+    degrees_of_freedom: null,
+    p_value: null,
+    significant: false,
+  };
+  if (result.before.mean !== null && result.after.mean !== null) {
+    result.difference = result.after.mean - result.before.mean;
+  }
+  if (before.length < 2 || after.length < 2 || result.difference === null) {
+    return result;
+  }
+
+  const beforeSquaredError = variance(before, result.before.mean!) / before.length;
+  const afterSquaredError = variance(after, result.after.mean!) / after.length;
+  const standardError = Math.sqrt(beforeSquaredError + afterSquaredError);
+
+  // Constant values in both periods: the difference is exact
+  if (standardError === 0) {
+    result.ci_low = result.difference;
+    result.ci_high = result.difference;
+    result.p_value = result.difference === 0 ? 1 : 0;
+    result.significant = result.difference !== 0;
+    return result;
+  }
+
+  // Welch–Satterthwaite degrees of freedom
+  const df = (beforeSquaredError + afterSquaredError) ** 2 /
+    (beforeSquaredError ** 2 / (before.length - 1) + afterSquaredError ** 2 / (after.length - 1));
+  const t = result.difference / standardError;
+  const margin = studentCriticalValue(df) * standardError;
+
+  result.t_statistic = t;
+  result.degrees_of_freedom = df;
+  result.p_value = studentTwoSidedP(t, df);
+  result.ci_low = result.difference - margin;
+  result.ci_high = result.difference + margin;
+  result.significant = result.p_value < SIGNIFICANCE_LEVEL;
+  return result;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { hasTeam, parseTeamInput, teamCondition } from './teams.js';
+
+describe('teams', () => {
+  describe('hasTeam', () => {
+    it('should only select a team for a non-empty name other than "all"', () => {
+      expect(hasTeam('Payments')).toBe(true);
+      expect(hasTeam('all')).toBe(false);
+      expect(hasTeam('')).toBe(false);
+      expect(hasTeam(undefined)).toBe(false);
+      expect(hasTeam(['a', 'b'])).toBe(false);
+    });
+  });
+
+  describe('teamCondition', () => {
+    it('should match author, canonical and aliased emails of the members', () => {
+      const condition = teamCondition('c', '$3');
+
+      expect(condition).toContain('LOWER(TRIM(c.author_email)) IN (SELECT tm.author_email');
+      expect(condition).toContain('LOWER(TRIM(c.canonical_author_email)) IN');
+      expect(condition).toContain('c.author_identity_id IN');
+      expect(condition).toContain('WHERE t.name = $3');
+    });
+  });
+
+  describe('parseTeamInput', () => {
+    it('should normalize the members', () => {
+      expect(parseTeamInput({ name: ' Payments ', members: [' Jane@Example.com', 'jane@example.com'] })).toEqual({
+        team: { name: 'Payments', description: null, members: ['jane@example.com'] },
+      });
+    });
+
+    it('should leave the members unchanged when they are not given', () => {
+      expect(parseTeamInput({ description: 'Billing' }, { name: 'Payments', description: null })).toEqual({
+        team: { name: 'Payments', description: 'Billing', members: undefined },
+      });
+    });
+
+    it('should reject invalid teams', () => {
+      expect(parseTeamInput({})).toEqual({ error: 'name is required' });
+      expect(parseTeamInput({ name: 'All' })).toEqual({ error: '"all" is reserved' });
+      expect(parseTeamInput({ name: 'Payments', members: 'jane@example.com' })).toHaveProperty('error');
+    });
+  });
+});
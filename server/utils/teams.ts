@@ -0,0 +1,116 @@
+import { normalizeEmails } from './authorIdentity.js';
+
+/**
+ * Team helpers
+ *
+ * Teams group authors by email (team_members, normalized like author_aliases).
+ * A commit belongs to a team when its author email, its canonical author email
+ * or any email alias of its author identity is a member email, so the queries
+ * filtering by team read v_commits_with_identity.
+ */
+
+export interface TeamInput {
+  name: string;
+  description: string | null;
+  /** Normalized member emails (replaces the current members when given) */
+  members?: string[];
+}
+
+/**
+ * True when a `team` query parameter selects a team ('all' or missing means every author)
+ */
+export const hasTeam = (team: unknown): team is string =>
+  typeof team === 'string' && team !== '' && team !== 'all';
+
+// Member emails of the team named by the parameter
+const memberEmails = (paramRef: string) =>
+  `SELECT tm.author_email FROM team_members tm JOIN teams t ON t.id = tm.team_id WHERE t.name = ${paramRef}`;
+
+/**
+ * SQL predicate matching commits of the members of a team
+ * @param alias - Alias of v_commits_with_identity in the query (e.g. 'c')
+ * @param paramRef - Placeholder of the team name parameter (e.g. '$2')
+ * @returns SQL condition
+ */
+export function teamCondition(alias: string, paramRef: string): string {
+  return `(
+    LOWER(TRIM(${alias}.author_email)) IN (${memberEmails(paramRef)})
+    OR LOWER(TRIM(${alias}.canonical_author_email)) IN (${memberEmails(paramRef)})
+    OR ${alias}.author_identity_id IN (
+      SELECT identity_id FROM author_aliases
+      WHERE alias_type = 'email' AND alias_value IN (${memberEmails(paramRef)})
+    )
+  )`;
+}
+
+/**
+ * Monthly statistics per repository of a team's commits
+ * Same columns as mv_monthly_stats_by_repo, so queries on the view can read it instead.
+ * @param paramRef - Placeholder of the team name parameter
+ * @returns SQL subquery (without alias)
+ */
+export function teamMonthlyStatsQuery(paramRef: string): string {
+  return `
+    SELECT
+      r.name as repository_name,
+      TO_CHAR(DATE_TRUNC('month', c.commit_date), 'YYYY-MM') as year_month,
+      DATE_TRUNC('month', c.commit_date)::date as month_start_date,
+      COUNT(c.id)::int as total_commits,
+      ROUND((SUM(c.weight) / 100.0)::numeric, 2) as effective_commits,
+      ROUND(AVG(c.weight)::numeric, 1) as avg_weight,
+      ROUND((SUM(c.weight) / NULLIF(COUNT(c.id), 0)::numeric), 1) as weight_efficiency_pct,
+      SUM(c.lines_added)::bigint as total_lines_added,
+      SUM(c.lines_deleted)::bigint as total_lines_deleted,
+      SUM(c.lines_added + c.lines_deleted)::bigint as total_lines_changed,
+      SUM(c.lines_added * c.weight / 100.0)::numeric as weighted_lines_added,
+      SUM(c.lines_deleted * c.weight / 100.0)::numeric as weighted_lines_deleted,
+      SUM((c.lines_added + c.lines_deleted) * c.weight / 100.0)::numeric as weighted_lines_changed,
+      COUNT(DISTINCT c.author_key)::int as unique_authors,
+      ROUND(AVG(c.lines_added + c.lines_deleted)::numeric, 1) as avg_lines_changed_per_commit,
+      ROUND((COUNT(c.id)::numeric / NULLIF(COUNT(DISTINCT c.author_key), 0)), 1) as avg_commits_per_author
+    FROM v_commits_with_identity c
+    JOIN repositories r ON c.repository_id = r.id
+    WHERE ${teamCondition('c', paramRef)}
+    GROUP BY r.name, DATE_TRUNC('month', c.commit_date)
+  `;
+}
+
+/**
+ * Validate a team create/update request
+ * @param body - Request body
+ * @param existing - Current team (updates only change the given fields)
+ * @returns The team to store, or an error message
+ */
+export function parseTeamInput(
+  body: any,
+  existing?: TeamInput
+): { team: TeamInput; error?: undefined } | { team?: undefined; error: string } {
+  const input = { ...existing, ...body };
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    return { error: 'name is required' };
+  }
+  if (name.toLowerCase() === 'all') {
+    return { error: '"all" is reserved' };
+  }
+  if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+    return { error: 'description must be a string or null' };
+  }
+
+  let members: string[] | undefined;
+  if (body.members !== undefined) {
+    if (!Array.isArray(body.members) || body.members.some((email: unknown) => typeof email !== 'string' || !email.includes('@'))) {
+      return { error: 'members must be a list of email addresses' };
+    }
+    members = normalizeEmails(body.members);
+  }
+
+  return {
+    team: {
+      name,
+      description: typeof input.description === 'string' ? input.description.trim() || null : null,
+      members,
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { extractTicketKeys, gitLabIssueKey, isTicketKey } from './ticketKeys.js';
+
+describe('ticketKeys', () => {
+  describe('extractTicketKeys', () => {
+    it('should find Jira keys in the subject and description', () => {
+      expect(extractTicketKeys('PAY-123 Fix rounding', 'Follow-up of PAY-98 and OPS_2-7.\nRefs PAY-123', 'payments'))
+        .toEqual(['PAY-123', 'PAY-98', 'OPS_2-7']);
+      expect(extractTicketKeys('[PAY-5] Fix', null, 'payments')).toEqual(['PAY-5']);
+    });
+
+    it('should ignore standards and text that only looks like a key', () => {
+      expect(extractTicketKeys('Encode as UTF-8 and hash with SHA-256', 'Dates in ISO-8601', 'payments')).toEqual([]);
+      expect(extractTicketKeys('Bump pay-1 and X-PAY-0', 'feature/PAY-12abc', 'payments')).toEqual([]);
+    });
+
+    it('should scope GitLab issue references to their project', () => {
+      expect(extractTicketKeys('Fix checkout (#42)', 'Closes #42, relates to acme/Billing#7 and web#3', 'Payments'))
+        .toEqual(['payments#42', 'billing#7', 'web#3']);
+      expect(extractTicketKeys('Escape &#39; entities', 'See !12 and #L10', 'payments')).toEqual([]);
+    });
+  });
+
+  it('should recognize a single Jira key', () => {
+    expect(isTicketKey('PAY-123')).toBe(true);
+    expect(isTicketKey('UTF-8')).toBe(false);
+    expect(isTicketKey('BILLING')).toBe(false);
+  });
+
+  it('should build GitLab keys from the last segment of the project path', () => {
+    expect(gitLabIssueKey('acme/Payments', 12)).toBe('payments#12');
+  });
+});
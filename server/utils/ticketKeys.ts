@@ -0,0 +1,55 @@
+/**
+ * Issue keys referenced by commit messages
+ *
+ * - Jira keys: `PAY-123` (project key of 2 to 20 capitals, digits or underscores)
+ * - GitLab issues: `#42` (issue of the commit's repository), `payments#42` or `group/payments#42`
+ *
+ * GitLab references are stored as `<project>#<iid>` with the lower-case project name
+ * (last segment of the path), the key given to GitLab issues by the issue import.
+ */
+
+const JIRA_KEY_PATTERN = /(?<![\w-])([A-Z][A-Z0-9_]{1,19})-([1-9][0-9]{0,8})(?!\w)/g;
+const GITLAB_REFERENCE_PATTERN = /(?<![\w&!$#])((?:[\w.-]+\/)*[\w.-]+)?#([1-9][0-9]{0,8})(?!\w)/g;
+
+// Standards and encodings written like Jira keys (UTF-8, ISO-8601, SHA-256, ...)
+const IGNORED_PROJECT_KEYS = new Set(['UTF', 'ISO', 'SHA', 'RFC', 'CVE', 'TLS', 'SSL', 'HTTP']);
+
+/**
+ * Whether a text is exactly one Jira issue key
+ */
+export function isTicketKey(text: string): boolean {
+  const match = text.match(/^([A-Z][A-Z0-9_]{1,19})-[1-9][0-9]{0,8}$/);
+  return match !== null && !IGNORED_PROJECT_KEYS.has(match[1]);
+}
+
+/**
+ * Key of a GitLab issue
+ * @param project - Project name or path (`group/payments`)
+ * @param iid - Issue number within the project
+ */
+export function gitLabIssueKey(project: string, iid: number): string {
+  const name = project.trim().split('/').pop() ?? '';
+  return `${name.toLowerCase()}#${iid}`;
+}
+
+/**
+ * Issue keys referenced by a commit, in order of appearance and without duplicates
+ * @param subject - Commit subject
+ * @param description - Commit body
+ * @param repositoryName - Repository of the commit (project of `#42` references)
+ */
+export function extractTicketKeys(subject: string, description: string | null, repositoryName: string): string[] {
+  const text = description ? `${subject}\n${description}` : subject;
+  const keys = new Set<string>();
+
+  for (const match of text.matchAll(JIRA_KEY_PATTERN)) {
+    if (!IGNORED_PROJECT_KEYS.has(match[1])) {
+      keys.add(`${match[1]}-${match[2]}`);
+    }
+  }
+  for (const match of text.matchAll(GITLAB_REFERENCE_PATTERN)) {
+    keys.add(gitLabIssueKey(match[1] ?? repositoryName, parseInt(match[2], 10)));
+  }
+
+  return [...keys];
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import pool from '../db.js';
+import { viewRefresher } from './viewRefresher.js';
+
+// Mock the database pool
+vi.mock('../db.js', () => ({
+  default: {
+    query: vi.fn(),
+    connect: vi.fn(),
+  },
+}));
+
+describe('viewRefresher', () => {
+  const latestCommitDate = new Date('2026-10-18T16:30:00Z');
+
+  const executed = () => vi.mocked(pool.query).mock.calls.map((call: any[]) => String(call[0]));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('refreshAll', () => {
+    it('should refresh every view concurrently and record the refresh', async () => {
+      vi.mocked(pool.query).mockImplementation(async (sql: any) => {
+        if (String(sql).includes('MAX(commit_date)')) {
+          return { rows: [{ latest_commit_date: latestCommitDate }] } as any;
+        }
+        return { rows: [], rowCount: 1 } as any;
+      });
+
+      const results = await viewRefresher.refreshAll();
+
+      expect(results?.map(result => [result.view_name, result.success, result.concurrently])).toEqual([
+        ['mv_monthly_stats_by_repo', true, true],
+        ['mv_monthly_category_stats', true, true],
+      ]);
+      expect(executed()).toContain('REFRESH MATERIALIZED VIEW CONCURRENTLY mv_monthly_stats_by_repo');
+      expect(executed()).toContain('REFRESH MATERIALIZED VIEW CONCURRENTLY mv_monthly_category_stats');
+      expect(pool.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO materialized_view_refreshes'),
+        ['mv_monthly_stats_by_repo', latestCommitDate, expect.any(Number)]
+      );
+    });
+
+    it('should fall back to a blocking refresh when a view cannot be refreshed concurrently', async () => {
+      vi.mocked(pool.query).mockImplementation(async (sql: any) => {
+        const text = String(sql);
+        if (text === 'REFRESH MATERIALIZED VIEW CONCURRENTLY mv_monthly_category_stats') {
+          throw Object.assign(new Error('cannot refresh materialized view concurrently'), { code: '55000' });
+        }
+        if (text.includes('MAX(commit_date)')) {
+          return { rows: [{ latest_commit_date: latestCommitDate }] } as any;
+        }
+        return { rows: [], rowCount: 1 } as any;
+      });
+
+      const results = await viewRefresher.refreshAll();
+
+      expect(results?.[1]).toMatchObject({ view_name: 'mv_monthly_category_stats', success: true, concurrently: false });
+      expect(executed()).toContain('REFRESH MATERIALIZED VIEW mv_monthly_category_stats');
+    });
+
+    it('should record failures and continue with the next view', async () => {
+      vi.mocked(pool.query).mockImplementation(async (sql: any) => {
+        const text = String(sql);
+        if (text.includes('mv_monthly_stats_by_repo') && text.startsWith('REFRESH')) {
+          throw new Error('relation "mv_monthly_stats_by_repo" does not exist');
+        }
+        if (text.includes('MAX(commit_date)')) {
+          return { rows: [{ latest_commit_date: latestCommitDate }] } as any;
+        }
+        return { rows: [], rowCount: 1 } as any;
+      });
+
+      const results = await viewRefresher.refreshAll();
+
+      expect(results?.map(result => result.success)).toEqual([false, true]);
+      expect(pool.query).toHaveBeenCalledWith(
+        expect.stringContaining('last_error = EXCLUDED.last_error'),
+        ['mv_monthly_stats_by_repo', 'relation "mv_monthly_stats_by_repo" does not exist']
+      );
+    });
+  });
+
+  describe('getFreshness', () => {
+    const refreshRow = (viewName: string, dataAsOf: Date) => ({
+      view_name: viewName,
+      last_refreshed_at: new Date('2026-10-19T02:00:00Z'),
+      data_as_of: dataAsOf,
+      last_attempt_at: new Date('2026-10-19T02:00:00Z'),
+      last_error: null,
+    });
+
+    const mockFreshness = (rows: any[]) => {
+      vi.mocked(pool.query).mockImplementation(async (sql: any) => {
+        if (String(sql).includes('FROM materialized_view_refreshes')) {
+          return { rows } as any;
+        }
+        return { rows: [{ latest_commit_date: latestCommitDate }] } as any;
+      });
+    };
+
+    it('should report the oldest refresh and not be stale when it includes the latest commit', async () => {
+      mockFreshness([
+        refreshRow('mv_monthly_category_stats', latestCommitDate),
+        refreshRow('mv_monthly_stats_by_repo', latestCommitDate),
+      ]);
+
+      const freshness = await viewRefresher.getFreshness();
+
+      expect(freshness.stale).toBe(false);
+      expect(freshness.data_as_of).toEqual(latestCommitDate);
+      expect(freshness.views.map(view => view.view_name)).toEqual(['mv_monthly_stats_by_repo', 'mv_monthly_category_stats']);
+    });
+
+    it('should be stale when a view lags behind the latest commit', async () => {
+      const older = new Date('2026-10-10T12:00:00Z');
+      mockFreshness([
+        refreshRow('mv_monthly_stats_by_repo', latestCommitDate),
+        refreshRow('mv_monthly_category_stats', older),
+      ]);
+
+      const freshness = await viewRefresher.getFreshness();
+
+      expect(freshness.stale).toBe(true);
+      expect(freshness.data_as_of).toEqual(older);
+    });
+
+    it('should be stale when a view was never refreshed', async () => {
+      mockFreshness([refreshRow('mv_monthly_stats_by_repo', latestCommitDate)]);
+
+      const freshness = await viewRefresher.getFreshness();
+
+      expect(freshness.stale).toBe(true);
+      expect(freshness.data_as_of).toBeNull();
+      expect(freshness.views[1]).toMatchObject({ view_name: 'mv_monthly_category_stats', last_refreshed_at: null });
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import pool from '../db.js';
+import env from '../config/env.js';
+
+/** Materialized views read by the dashboard, in refresh order */
+export const MATERIALIZED_VIEWS = ['mv_monthly_stats_by_repo', 'mv_monthly_category_stats'] as const;
+
+export type MaterializedView = typeof MATERIALIZED_VIEWS[number];
+
+export interface ViewRefreshResult {
+  view_name: MaterializedView;
+  success: boolean;
+  /** False when the view had to be refreshed with a blocking REFRESH */
+  concurrently: boolean;
+  duration_ms: number;
+  data_as_of: string | null;
+  error?: string;
+}
+
+export interface ViewFreshness {
+  view_name: string;
+  last_refreshed_at: string | null;
+  data_as_of: string | null;
+  last_attempt_at: string | null;
+  last_error: string | null;
+}
+
+export interface DataFreshness {
+  /** Oldest data_as_of across the views (null if a view was never refreshed) */
+  data_as_of: string | null;
+  latest_commit_date: string | null;
+  /** True when a view was never refreshed or misses commits newer than its refresh */
+  stale: boolean;
+  views: ViewFreshness[];
+}
+
+// Postgres error raised when CONCURRENTLY is not possible (no unique index, view not populated)
+const OBJECT_NOT_IN_PREREQUISITE_STATE = '55000';
+
+/**
+ * Materialized View Refresher
+ *
+ * Refreshes the materialized views with REFRESH MATERIALIZED VIEW CONCURRENTLY
+ * (falling back to a blocking refresh when a view cannot be refreshed
+ * concurrently) and records the outcome in materialized_view_refreshes.
+ * Refreshes run on demand (POST /api/admin/refresh-views, `npm run
+ * refresh-views`) and optionally every VIEW_REFRESH_INTERVAL_MINUTES.
+ */
+class ViewRefresher {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Whether a refresh is in progress in this process
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Refresh the views periodically
+   * @param intervalMinutes - Minutes between refreshes (VIEW_REFRESH_INTERVAL_MINUTES); nothing is scheduled when not set
+   * @returns True when the schedule was started
+   */
+  start(intervalMinutes = parseInt(env.VIEW_REFRESH_INTERVAL_MINUTES || '', 10)): boolean {
+    if (this.timer || !(intervalMinutes > 0)) {
+      return false;
+    }
+
+    this.timer = setInterval(() => {
+      this.refreshAll().catch(err => console.error('Error refreshing materialized views:', err));
+    }, intervalMinutes * 60 * 1000);
+    // Do not keep the process alive just for the refresher
+    this.timer.unref();
+    return true;
+  }
+
+  /**
+   * Stop the periodic refresh
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Refresh all materialized views
+   * A failing view does not prevent the others from being refreshed.
+   * @returns One result per view, or null when a refresh is already running
+   */
+  async refreshAll(): Promise<ViewRefreshResult[] | null> {
+    if (this.running) {
+      return null;
+    }
+
+    this.running = true;
+    try {
+      const results: ViewRefreshResult[] = [];
+      for (const viewName of MATERIALIZED_VIEWS) {
+        results.push(await this.refreshView(viewName));
+      }
+
+      const failed = results.filter(result => !result.success).length;
+      console.log(`🔄 Refreshed ${results.length - failed} materialized view(s)${failed > 0 ? `, ${failed} failed` : ''}`);
+      return results;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Refresh one view and record the outcome
+   */
+  private async refreshView(viewName: MaterializedView): Promise<ViewRefreshResult> {
+    const startedAt = Date.now();
+    // Commits loaded after this point may not be included in the refresh
+    const latest = await pool.query('SELECT MAX(commit_date) as latest_commit_date FROM commits');
+    const dataAsOf = latest.rows[0]?.latest_commit_date ?? null;
+    let concurrently = true;
+
+    try {
+      try {
+        await pool.query(`REFRESH MATERIALIZED VIEW CONCURRENTLY ${viewName}`);
+      } catch (err) {
+        if ((err as { code?: string })?.code !== OBJECT_NOT_IN_PREREQUISITE_STATE) {
+          throw err;
+        }
+        concurrently = false;
+        await pool.query(`REFRESH MATERIALIZED VIEW ${viewName}`);
+      }
+
+      const durationMs = Date.now() - startedAt;
+      await pool.query(
+        `INSERT INTO materialized_view_refreshes (view_name, last_refreshed_at, data_as_of, duration_ms, last_attempt_at, last_error)
+         VALUES ($1, NOW(), $2, $3, NOW(), NULL)
+         ON CONFLICT (view_name) DO UPDATE SET
+           last_refreshed_at = EXCLUDED.last_refreshed_at,
+           data_as_of = EXCLUDED.data_as_of,
+           duration_ms = EXCLUDED.duration_ms,
+           last_attempt_at = EXCLUDED.last_attempt_at,
+           last_error = NULL`,
+        [viewName, dataAsOf, durationMs]
+      );
+      return { view_name: viewName, success: true, concurrently, duration_ms: durationMs, data_as_of: dataAsOf };
+    } catch (err) {
+      console.error(`Error refreshing ${viewName}:`, err);
+      const message = err instanceof Error ? err.message : String(err);
+      await pool.query(
+        `INSERT INTO materialized_view_refreshes (view_name, last_attempt_at, last_error)
+         VALUES ($1, NOW(), $2)
+         ON CONFLICT (view_name) DO UPDATE SET last_attempt_at = NOW(), last_error = EXCLUDED.last_error`,
+        [viewName, message]
+      );
+      return { view_name: viewName, success: false, concurrently, duration_ms: Date.now() - startedAt, data_as_of: null, error: message };
+    }
+  }
+
+  /**
+   * How fresh the materialized views are compared with the commits table
+   */
+  async getFreshness(): Promise<DataFreshness> {
+    const [refreshes, latest] = await Promise.all([
+      pool.query(
+        `SELECT view_name, last_refreshed_at, data_as_of, last_attempt_at, last_error
+         FROM materialized_view_refreshes
+         WHERE view_name = ANY($1)
+         ORDER BY view_name`,
+        [[...MATERIALIZED_VIEWS]]
+      ),
+      pool.query('SELECT MAX(commit_date) as latest_commit_date FROM commits'),
+    ]);
+
+    const views: ViewFreshness[] = MATERIALIZED_VIEWS.map(viewName =>
+      refreshes.rows.find((row: ViewFreshness) => row.view_name === viewName) || {
+        view_name: viewName,
+        last_refreshed_at: null,
+        data_as_of: null,
+        last_attempt_at: null,
+        last_error: null,
+      }
+    );
+    const latestCommitDate = latest.rows[0]?.latest_commit_date ?? null;
+    const timestamps = views.map(view => view.data_as_of);
+    const dataAsOf = timestamps.includes(null)
+      ? null
+      : timestamps.reduce((oldest, value) => (new Date(value!) < new Date(oldest!) ? value : oldest));
+
+    const stale = views.some(view => view.last_refreshed_at === null) ||
+      (latestCommitDate !== null && (dataAsOf === null || new Date(dataAsOf) < new Date(latestCommitDate)));
+
+    return { data_as_of: dataAsOf, latest_commit_date: latestCommitDate, stale, views };
+  }
+}
+
+export const viewRefresher = new ViewRefresher();
+
+// CLI support - refresh the views if executed directly (e.g. from a system cron job)
+if (import.meta.url === `file://${process.argv[1]}`) {
+  (async () => {
+    try {
+      const results = await viewRefresher.refreshAll();
+      results?.forEach(result => {
+        console.log(`  ${result.success ? '✓' : '✗'} ${result.view_name} (${result.duration_ms} ms)${result.error ? `: ${result.error}` : ''}`);
+      });
+      process.exit(results?.every(result => result.success) ? 0 : 1);
+    } catch (error) {
+      console.error('Refresh error:', error);
+      process.exit(1);
+    }
+  })();
+}